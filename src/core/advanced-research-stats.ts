@@ -4,153 +4,51 @@
  * Implements sophisticated statistical methods for consciousness research
  */
 
-import { RNGTrial, ExperimentSession } from '../shared/types';
+import { RNGTrial, ExperimentSession, IntentionType, FeedbackModality } from '../shared/types';
 import {
-    BayesianResult,
-    BayesFactorResult,
-    PriorDistribution,
-    PosteriorDistribution,
     SequentialAnalysisResult,
+    MetaAnalysisEstimate,
+    MetaAnalysisMethod,
+    MetaAnalysisOptions,
     MetaAnalysisResult,
     EffectSizeData,
+    EggerTest,
+    BeggTest,
+    TrimAndFillResult,
+    PCurveResult,
+    FailSafeN,
+    OptionalStoppingComparison,
+    StoppingGroupSummary,
+    PublicationBiasOptions,
+    PublicationBiasResult,
+    FeedbackComparison,
+    FeedbackModalitySummary,
     ForestPlotData,
     LearningCurveAnalysis,
     LearningCurveData,
+    OperatorAnalysis,
+    OperatorIntentionSummary,
+    OperatorSessionScore,
+    OperatorSessionTotals,
     PowerCalculation,
+    SeriesAnalysis,
     QualityMetrics,
     QualityAssessment,
     QualityIssue
 } from '../shared/analysis-types';
-import { StatisticalUtils } from './statistical-utils';
+import { StatisticalUtils, TRIAL_MEAN, TRIAL_VARIANCE } from './statistical-utils';
+import { BayesianAnalyzer } from './bayesian-analysis';
+
+/** Effect size and standard error of one study, observed or imputed */
+type StudyEffect = Pick<EffectSizeData, 'effectSize' | 'standardError'>;
 
 export class AdvancedResearchStats {
 
     /**
      * Bayesian Analysis Engine
-     * Implements Bayesian statistical methods for consciousness research
+     * JZS and informed priors on effect size, posteriors and sequential Bayes factors
      */
-    static BayesianAnalyzer = class {
-
-        /**
-         * Calculate Bayes Factor for hypothesis testing
-         */
-        static calculateBayesFactor(
-            data: RNGTrial[],
-            nullHypothesis: { mean: number; variance: number },
-            alternativeHypothesis: { mean: number; variance: number }
-        ): BayesFactorResult {
-            const n = data.length;
-            if (n === 0) throw new Error('No data provided for Bayes factor calculation');
-
-            const sampleMean = StatisticalUtils.mean(data.map(t => t.trialValue));
-            const sampleVariance = StatisticalUtils.variance(data.map(t => t.trialValue));
-
-            // Marginal likelihood under null hypothesis
-            const logML0 = this.calculateLogMarginalLikelihood(
-                sampleMean, sampleVariance, n, nullHypothesis
-            );
-
-            // Marginal likelihood under alternative hypothesis
-            const logML1 = this.calculateLogMarginalLikelihood(
-                sampleMean, sampleVariance, n, alternativeHypothesis
-            );
-
-            // Bayes Factor BF10 = ML1 / ML0
-            const logBF10 = logML1 - logML0;
-            const bf10 = Math.exp(logBF10);
-            const bf01 = 1 / bf10;
-
-            // Interpret Bayes Factor according to Jeffreys (1961) scale
-            let interpretation: BayesFactorResult['interpretation'];
-            if (bf10 > 100) interpretation = 'extreme_evidence';
-            else if (bf10 > 30) interpretation = 'very_strong';
-            else if (bf10 > 10) interpretation = 'strong';
-            else if (bf10 > 3) interpretation = 'moderate';
-            else if (bf10 > 1) interpretation = 'weak';
-            else interpretation = 'inconclusive';
-
-            return {
-                bf10,
-                bf01,
-                interpretation,
-                hypothesis: alternativeHypothesis.mean > nullHypothesis.mean ?
-                    'alternative_greater' : 'alternative_different'
-            };
-        }
-
-        /**
-         * Calculate posterior distribution using Bayesian updating
-         */
-        static posteriorDistribution(
-            data: RNGTrial[],
-            prior: PriorDistribution
-        ): PosteriorDistribution {
-            const values = data.map(t => t.trialValue);
-            const n = values.length;
-            const sampleMean = StatisticalUtils.mean(values);
-            const sampleVariance = StatisticalUtils.variance(values);
-
-            if (prior.type === 'normal') {
-                // Normal-Normal conjugate analysis
-                const priorMean = prior.parameters.mean;
-                const priorVariance = prior.parameters.variance;
-                const dataVariance = prior.parameters.knownVariance || sampleVariance;
-
-                // Posterior parameters for normal distribution
-                const posteriorPrecision = 1 / priorVariance + n / dataVariance;
-                const posteriorVariance = 1 / posteriorPrecision;
-                const posteriorMean = posteriorVariance * (priorMean / priorVariance + n * sampleMean / dataVariance);
-
-                return {
-                    type: 'normal',
-                    parameters: {
-                        mean: posteriorMean,
-                        variance: posteriorVariance,
-                        standardDeviation: Math.sqrt(posteriorVariance)
-                    }
-                };
-            }
-
-            throw new Error(`Unsupported prior distribution type: ${prior.type}`);
-        }
-
-        /**
-         * Calculate credible intervals from posterior distribution
-         */
-        static credibleInterval(
-            posterior: PosteriorDistribution,
-            level: number = 0.95
-        ): [number, number] {
-            const alpha = 1 - level;
-
-            if (posterior.type === 'normal') {
-                const mean = posterior.parameters.mean;
-                const sd = posterior.parameters.standardDeviation;
-                const zCritical = StatisticalUtils.normalInverse(1 - alpha / 2);
-
-                return [
-                    mean - zCritical * sd,
-                    mean + zCritical * sd
-                ];
-            }
-
-            throw new Error(`Credible interval not implemented for ${posterior.type} distribution`);
-        }
-
-        public static calculateLogMarginalLikelihood(
-            sampleMean: number,
-            sampleVariance: number,
-            n: number,
-            hypothesis: { mean: number; variance: number }
-        ): number {
-            // Simplified marginal likelihood calculation
-            // In practice, this would be more sophisticated
-            const logLikelihood = -0.5 * n * Math.log(2 * Math.PI * hypothesis.variance)
-                - 0.5 * n * Math.pow(sampleMean - hypothesis.mean, 2) / hypothesis.variance;
-
-            return logLikelihood;
-        }
-    };
+    static BayesianAnalyzer = BayesianAnalyzer;
 
     /**
      * Sequential Analysis Engine
@@ -163,7 +61,7 @@ export class AdvancedResearchStats {
          */
         static sequentialProbabilityRatioTest(
             data: RNGTrial[],
-            nullMean: number = 100,
+            nullMean: number = TRIAL_MEAN,
             alternativeMean: number = 102,
             alpha: number = 0.05,
             beta: number = 0.20
@@ -177,7 +75,7 @@ export class AdvancedResearchStats {
 
             // Calculate log-likelihood ratio
             const sampleMean = StatisticalUtils.mean(values);
-            const variance = 50; // Known variance for RNG trials
+            const variance = TRIAL_VARIANCE;
 
             const logLR = n * (alternativeMean - nullMean) *
                 (sampleMean - (nullMean + alternativeMean) / 2) / variance;
@@ -236,7 +134,7 @@ export class AdvancedResearchStats {
             // Calculate required sample size
             const zAlpha = StatisticalUtils.normalInverse(1 - alpha / 2);
             const zBeta = StatisticalUtils.normalInverse(targetPower);
-            const variance = 50; // Known RNG variance
+            const variance = TRIAL_VARIANCE;
 
             const requiredN = Math.ceil(
                 2 * variance * Math.pow(zAlpha + zBeta, 2) / Math.pow(adjustedEffect, 2)
@@ -248,114 +146,179 @@ export class AdvancedResearchStats {
         public static estimateCurrentEffect(data: RNGTrial[]): number {
             const values = data.map(t => t.trialValue);
             const mean = StatisticalUtils.mean(values);
-            return Math.abs(mean - 100); // Deviation from expected mean
+            return Math.abs(mean - TRIAL_MEAN);
         }
     };
 
     /**
      * Meta-Analysis Engine
-     * Combines results from multiple experiments
+     * Each high or low intention session is a study with per-trial effect size z/√N in the
+     * intended direction and standard error 1/√N. Pooled by inverse variance, optionally with
+     * between-session variance tau² (DerSimonian-Laird or REML) and Hartung-Knapp inference.
      */
     static MetaAnalyzer = class {
 
         /**
-         * Perform fixed-effects meta-analysis
+         * Meta-analysis of per-session trial totals, with leave-one-out and cumulative results
          */
-        static fixedEffectsMetaAnalysis(sessions: ExperimentSession[]): MetaAnalysisResult {
-            const effects = sessions.map(session => this.calculateSessionEffectSize(session));
-
-            // Calculate pooled effect size using inverse variance weighting
-            const totalWeight = effects.reduce((sum, effect) => sum + effect.weight, 0);
-            const pooledEffectSize = effects.reduce(
-                (sum, effect) => sum + effect.effectSize * effect.weight, 0
-            ) / totalWeight;
-
-            // Calculate pooled standard error
-            const pooledStandardError = Math.sqrt(1 / totalWeight);
-            const pooledConfidenceInterval = this.calculateConfidenceInterval(
-                pooledEffectSize, pooledStandardError
-            );
+        static analyze(totals: OperatorSessionTotals[], options: MetaAnalysisOptions): MetaAnalysisResult {
+            const level = options.confidenceLevel ?? 0.95;
+            const hartungKnapp = options.method !== 'fixed' && (options.hartungKnapp ?? false);
+
+            const effects = this.sessionEffects(totals, level);
+            const pooled = this.pool(effects, options.method, hartungKnapp, level);
+            const fixedEffect = this.pool(effects, 'fixed', false, level).pooledEffectSize;
+            const heterogeneity = this.calculateHeterogeneity(effects, fixedEffect);
+            const individualEffects = effects.map(effect => ({
+                ...effect,
+                weight: 1 / (effect.standardError ** 2 + pooled.tau2)
+            }));
 
-            // Calculate heterogeneity statistics
-            const heterogeneityStats = this.calculateHeterogeneity(effects, pooledEffectSize);
-
-            // Create forest plot data
-            const forestPlotData = this.createForestPlotData(effects, {
-                sessionId: 'pooled',
-                effectSize: pooledEffectSize,
-                standardError: pooledStandardError,
-                confidenceInterval: pooledConfidenceInterval,
-                weight: totalWeight,
-                sampleSize: effects.reduce((sum, e) => sum + e.sampleSize, 0)
-            });
+            const leaveOneOut = effects.length > 1
+                ? effects.map((effect, index) => {
+                    const remaining = effects.filter((_, other) => other !== index);
+                    const estimate = this.pool(remaining, options.method, hartungKnapp, level);
+                    return {
+                        ...estimate,
+                        omittedSessionId: effect.sessionId,
+                        heterogeneityI2: this.calculateHeterogeneity(
+                            remaining,
+                            this.pool(remaining, 'fixed', false, level).pooledEffectSize
+                        ).I2
+                    };
+                })
+                : [];
+
+            const cumulative = effects.map((effect, index) => ({
+                ...this.pool(effects.slice(0, index + 1), options.method, hartungKnapp, level),
+                sessionId: effect.sessionId,
+                startTime: effect.startTime
+            }));
 
             return {
-                pooledEffectSize,
-                pooledStandardError,
-                pooledConfidenceInterval,
-                heterogeneityQ: heterogeneityStats.Q,
-                heterogeneityI2: heterogeneityStats.I2,
-                heterogeneityPValue: heterogeneityStats.pValue,
-                individualEffects: effects,
-                forestPlotData
+                ...pooled,
+                method: options.method,
+                hartungKnapp,
+                confidenceLevel: level,
+                totalTrials: effects.reduce((sum, effect) => sum + effect.sampleSize, 0),
+                heterogeneityQ: heterogeneity.Q,
+                heterogeneityI2: heterogeneity.I2,
+                heterogeneityPValue: heterogeneity.pValue,
+                individualEffects,
+                forestPlotData: this.createForestPlotData(individualEffects, pooled, 1 - level),
+                leaveOneOut,
+                cumulative
             };
         }
 
         /**
-         * Perform random-effects meta-analysis
+         * Perform fixed-effects meta-analysis
          */
-        static randomEffectsMetaAnalysis(sessions: ExperimentSession[]): MetaAnalysisResult {
-            const fixedResults = this.fixedEffectsMetaAnalysis(sessions);
-
-            // Calculate between-study variance (tau-squared)
-            const tauSquared = this.calculateBetweenStudyVariance(
-                fixedResults.individualEffects,
-                fixedResults.pooledEffectSize,
-                fixedResults.heterogeneityQ
-            );
+        static fixedEffectsMetaAnalysis(totals: OperatorSessionTotals[]): MetaAnalysisResult {
+            return this.analyze(totals, { method: 'fixed' });
+        }
 
-            // Recalculate weights incorporating between-study variance
-            const adjustedEffects = fixedResults.individualEffects.map(effect => ({
-                ...effect,
-                weight: 1 / (effect.standardError * effect.standardError + tauSquared)
-            }));
+        /**
+         * Perform random-effects meta-analysis
+         */
+        static randomEffectsMetaAnalysis(
+            totals: OperatorSessionTotals[],
+            method: Exclude<MetaAnalysisMethod, 'fixed'> = 'reml',
+            hartungKnapp: boolean = false
+        ): MetaAnalysisResult {
+            return this.analyze(totals, { method, hartungKnapp });
+        }
 
-            // Recalculate pooled estimates
-            const totalWeight = adjustedEffects.reduce((sum, effect) => sum + effect.weight, 0);
-            const pooledEffectSize = adjustedEffects.reduce(
-                (sum, effect) => sum + effect.effectSize * effect.weight, 0
-            ) / totalWeight;
+        /**
+         * Effect sizes of the high and low intention sessions with trials, oldest first
+         */
+        public static sessionEffects(totals: OperatorSessionTotals[], level: number = 0.95): EffectSizeData[] {
+            const effects = totals
+                .filter(total => total.trialCount > 0 && AdvancedResearchStats.intentionSign(total.session.intention ?? 'baseline') !== 0)
+                .sort((a, b) => a.session.startTime.getTime() - b.session.startTime.getTime())
+                .map(total => this.calculateSessionEffectSize(total, level));
+
+            if (effects.length === 0) {
+                throw new Error('Meta-analysis needs at least one high or low intention session with trials');
+            }
+            return effects;
+        }
 
-            const pooledStandardError = Math.sqrt(1 / totalWeight);
-            const pooledConfidenceInterval = this.calculateConfidenceInterval(
-                pooledEffectSize, pooledStandardError
-            );
+        /**
+         * Directed per-trial effect size of one session
+         */
+        public static calculateSessionEffectSize(total: OperatorSessionTotals, level: number = 0.95): EffectSizeData {
+            const { session, trialCount, trialSum } = total;
+            const intention = session.intention === 'low' ? 'low' : 'high';
+            const directedZ = AdvancedResearchStats.intentionSign(intention) *
+                (trialSum - TRIAL_MEAN * trialCount) / Math.sqrt(TRIAL_VARIANCE * trialCount);
+            const effectSize = directedZ / Math.sqrt(trialCount);
+            const standardError = 1 / Math.sqrt(trialCount);
 
             return {
-                ...fixedResults,
-                pooledEffectSize,
-                pooledStandardError,
-                pooledConfidenceInterval,
-                individualEffects: adjustedEffects
+                sessionId: session.id,
+                startTime: session.startTime,
+                intention,
+                directedZ,
+                effectSize,
+                standardError,
+                confidenceInterval: this.calculateConfidenceInterval(effectSize, standardError, level),
+                weight: 1 / (standardError * standardError),
+                sampleSize: trialCount
             };
         }
 
-        public static calculateSessionEffectSize(session: ExperimentSession): EffectSizeData {
-            // This would typically retrieve trial data for the session
-            // For now, using placeholder calculation
-            const effectSize = Math.random() * 0.5 - 0.25; // Random effect between -0.25 and 0.25
-            const sampleSize = session.actualTrials || 1000;
-            const standardError = Math.sqrt(1 / sampleSize);
-            const confidenceInterval = this.calculateConfidenceInterval(effectSize, standardError);
-            const weight = 1 / (standardError * standardError);
+        /**
+         * Inverse-variance pooled estimate; a single session is reported as is, with the z test
+         */
+        public static pool(
+            effects: StudyEffect[],
+            method: MetaAnalysisMethod,
+            hartungKnapp: boolean,
+            level: number = 0.95
+        ): MetaAnalysisEstimate {
+            const k = effects.length;
+            const tau2 = method === 'fixed' || k < 2
+                ? 0
+                : method === 'reml' ? this.estimateTauSquaredREML(effects) : this.estimateTauSquaredDL(effects);
+
+            const weights = effects.map(effect => 1 / (effect.standardError ** 2 + tau2));
+            const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+            const pooledEffectSize = effects.reduce((sum, effect, i) => sum + weights[i] * effect.effectSize, 0) / totalWeight;
+
+            if (hartungKnapp && k > 1) {
+                // Scale the variance by the weighted residual spread and refer to t on k - 1 df
+                const q = effects.reduce((sum, effect, i) =>
+                    sum + weights[i] * (effect.effectSize - pooledEffectSize) ** 2, 0) / (k - 1);
+                const pooledStandardError = Math.sqrt(q / totalWeight);
+                const degreesOfFreedom = k - 1;
+                const testStatistic = pooledEffectSize / pooledStandardError;
+                const margin = StatisticalUtils.tQuantile(1 - (1 - level) / 2, degreesOfFreedom) * pooledStandardError;
+
+                return {
+                    studyCount: k,
+                    pooledEffectSize,
+                    pooledStandardError,
+                    pooledConfidenceInterval: [pooledEffectSize - margin, pooledEffectSize + margin],
+                    tau2,
+                    testStatistic,
+                    degreesOfFreedom,
+                    pValue: StatisticalUtils.tDistributionProbability(testStatistic, degreesOfFreedom)
+                };
+            }
+
+            const pooledStandardError = Math.sqrt(1 / totalWeight);
+            const testStatistic = pooledEffectSize / pooledStandardError;
 
             return {
-                sessionId: session.id,
-                effectSize,
-                standardError,
-                confidenceInterval,
-                weight,
-                sampleSize
+                studyCount: k,
+                pooledEffectSize,
+                pooledStandardError,
+                pooledConfidenceInterval: this.calculateConfidenceInterval(pooledEffectSize, pooledStandardError, level),
+                tau2,
+                testStatistic,
+                degreesOfFreedom: null,
+                pValue: StatisticalUtils.normalProbability(testStatistic)
             };
         }
 
@@ -369,42 +332,71 @@ export class AdvancedResearchStats {
             return [effect - margin, effect + margin];
         }
 
+        /**
+         * Cochran's Q around the fixed-effect estimate, with I²
+         */
         public static calculateHeterogeneity(
-            effects: EffectSizeData[],
+            effects: StudyEffect[],
             pooledEffect: number
         ): { Q: number; I2: number; pValue: number } {
             const Q = effects.reduce((sum, effect) => {
                 const deviation = effect.effectSize - pooledEffect;
-                return sum + effect.weight * deviation * deviation;
+                return sum + deviation * deviation / (effect.standardError * effect.standardError);
             }, 0);
 
             const df = effects.length - 1;
-            const pValue = StatisticalUtils.chiSquareProbability(Q, df);
-            const I2 = Math.max(0, (Q - df) / Q) * 100;
+            const pValue = df > 0 ? StatisticalUtils.chiSquareProbability(Q, df) : 1;
+            const I2 = Q > 0 ? Math.max(0, (Q - df) / Q) * 100 : 0;
 
             return { Q, I2, pValue };
         }
 
-        public static calculateBetweenStudyVariance(
-            effects: EffectSizeData[],
-            pooledEffect: number,
-            Q: number
-        ): number {
-            const df = effects.length - 1;
-            const c = effects.reduce((sum, effect) => sum + effect.weight, 0) -
-                effects.reduce((sum, effect) => sum + effect.weight * effect.weight, 0) /
-                effects.reduce((sum, effect) => sum + effect.weight, 0);
+        /**
+         * DerSimonian-Laird method-of-moments tau²
+         */
+        public static estimateTauSquaredDL(effects: StudyEffect[]): number {
+            const weights = effects.map(effect => 1 / effect.standardError ** 2);
+            const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+            const fixedEffect = effects.reduce((sum, effect, i) => sum + weights[i] * effect.effectSize, 0) / totalWeight;
+            const { Q } = this.calculateHeterogeneity(effects, fixedEffect);
+            const c = totalWeight - weights.reduce((sum, weight) => sum + weight * weight, 0) / totalWeight;
+
+            return Math.max(0, (Q - (effects.length - 1)) / c);
+        }
 
-            return Math.max(0, (Q - df) / c);
+        /**
+         * Restricted maximum likelihood tau², by fixed-point iteration from the DerSimonian-Laird value
+         */
+        public static estimateTauSquaredREML(effects: StudyEffect[]): number {
+            const variances = effects.map(effect => effect.standardError ** 2);
+            const tolerance = 1e-10 * StatisticalUtils.mean(variances);
+            let tau2 = this.estimateTauSquaredDL(effects);
+
+            for (let iteration = 0; iteration < 1000; iteration++) {
+                const weights = variances.map(variance => 1 / (variance + tau2));
+                const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+                const squaredWeights = weights.reduce((sum, weight) => sum + weight * weight, 0);
+                const pooled = effects.reduce((sum, effect, i) => sum + weights[i] * effect.effectSize, 0) / totalWeight;
+
+                const next = Math.max(0, effects.reduce((sum, effect, i) =>
+                    sum + weights[i] ** 2 * ((effect.effectSize - pooled) ** 2 - variances[i]), 0) / squaredWeights +
+                    1 / totalWeight);
+
+                if (Math.abs(next - tau2) < tolerance) return next;
+                tau2 = next;
+            }
+
+            return tau2;
         }
 
         public static createForestPlotData(
             effects: EffectSizeData[],
-            pooledResult: EffectSizeData
+            pooledResult: MetaAnalysisEstimate,
+            significanceLevel: number = 0.05
         ): ForestPlotData {
-            const allEffects = [...effects, pooledResult];
-            const minEffect = Math.min(...allEffects.map(e => e.confidenceInterval[0]));
-            const maxEffect = Math.max(...allEffects.map(e => e.confidenceInterval[1]));
+            const bounds = [...effects.map(e => e.confidenceInterval), pooledResult.pooledConfidenceInterval];
+            const minEffect = Math.min(...bounds.map(interval => interval[0]));
+            const maxEffect = Math.max(...bounds.map(interval => interval[1]));
             const range = maxEffect - minEffect;
             const padding = range * 0.1;
 
@@ -412,7 +404,276 @@ export class AdvancedResearchStats {
                 studies: effects,
                 pooledResult,
                 xAxisRange: [minEffect - padding, maxEffect + padding],
-                significanceLevel: 0.05
+                significanceLevel
+            };
+        }
+    };
+
+    /**
+     * Publication Bias Engine
+     * Small-study and selection diagnostics over the meta-analysis session effect sizes.
+     * Sessions kept or abandoned depending on how they were going leave the same traces in
+     * the funnel as unpublished studies, so completed and stopped sessions are also compared.
+     */
+    static PublicationBiasAnalyzer = class {
+
+        /** Orwin criterion unless the caller sets one: the PEAR benchmark of 1e-4 per bit is about 1.4e-3 per trial */
+        static readonly DEFAULT_TRIVIAL_EFFECT_SIZE = 0.001;
+
+        static analyze(totals: OperatorSessionTotals[], options: PublicationBiasOptions): PublicationBiasResult {
+            const level = options.confidenceLevel ?? 0.95;
+            const hartungKnapp = options.method !== 'fixed' && (options.hartungKnapp ?? false);
+            const { MetaAnalyzer } = AdvancedResearchStats;
+
+            const effects = MetaAnalyzer.sessionEffects(totals, level);
+            const pooled = MetaAnalyzer.pool(effects, options.method, hartungKnapp, level);
+            const egger = this.eggerTest(effects);
+            const trimAndFill = this.trimAndFill(
+                effects,
+                egger && egger.intercept < 0 ? 'right' : 'left',
+                options.method,
+                hartungKnapp,
+                level
+            );
+
+            const statuses = new Map(totals.map(total => [total.session.id, total.session.status]));
+            const byStatus = (status: 'completed' | 'stopped') =>
+                effects.filter(effect => statuses.get(effect.sessionId) === status);
+
+            return {
+                studyCount: effects.length,
+                egger,
+                begg: this.beggTest(effects),
+                trimAndFill,
+                pCurve: this.pCurve(effects),
+                failSafeN: this.failSafeN(effects, options.trivialEffectSize ?? this.DEFAULT_TRIVIAL_EFFECT_SIZE),
+                optionalStopping: this.compareStopping(
+                    byStatus('completed'),
+                    byStatus('stopped'),
+                    pooled,
+                    options.method,
+                    hartungKnapp,
+                    level
+                ),
+                funnel: {
+                    points: [
+                        ...effects.map(effect => {
+                            const status = statuses.get(effect.sessionId);
+                            return {
+                                sessionId: effect.sessionId,
+                                effectSize: effect.effectSize,
+                                standardError: effect.standardError,
+                                status: status === 'running' ? undefined : status
+                            };
+                        }),
+                        ...trimAndFill.imputed.map(study => ({ sessionId: null, ...study }))
+                    ],
+                    pooledEffectSize: pooled.pooledEffectSize,
+                    adjustedEffectSize: trimAndFill.adjusted.pooledEffectSize,
+                    maxStandardError: Math.max(...effects.map(effect => effect.standardError))
+                }
+            };
+        }
+
+        /**
+         * Egger's regression of the standardized effect on precision; the intercept measures asymmetry
+         */
+        public static eggerTest(effects: EffectSizeData[]): EggerTest | null {
+            const k = effects.length;
+            if (k < 3) return null;
+
+            const x = effects.map(effect => 1 / effect.standardError);
+            const y = effects.map(effect => effect.effectSize / effect.standardError);
+            const xMean = StatisticalUtils.mean(x);
+            const yMean = StatisticalUtils.mean(y);
+            const sxx = x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0);
+            // Sessions of equal length give no spread in precision to regress on
+            if (sxx === 0) return null;
+
+            const slope = x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0) / sxx;
+            const intercept = yMean - slope * xMean;
+            const residualVariance = y.reduce((sum, yi, i) => sum + (yi - intercept - slope * x[i]) ** 2, 0) / (k - 2);
+            const standardError = Math.sqrt(residualVariance * (1 / k + xMean * xMean / sxx));
+            const t = intercept / standardError;
+
+            return {
+                intercept,
+                standardError,
+                slope,
+                t,
+                degreesOfFreedom: k - 2,
+                pValue: StatisticalUtils.tDistributionProbability(t, k - 2)
+            };
+        }
+
+        /**
+         * Begg and Mazumdar's rank correlation between standardized effects and their variances
+         */
+        public static beggTest(effects: EffectSizeData[]): BeggTest | null {
+            const k = effects.length;
+            if (k < 3) return null;
+
+            const variances = effects.map(effect => effect.standardError ** 2);
+            const totalWeight = variances.reduce((sum, variance) => sum + 1 / variance, 0);
+            const fixedEffect = effects.reduce((sum, effect, i) => sum + effect.effectSize / variances[i], 0) / totalWeight;
+            const standardized = effects.map((effect, i) =>
+                (effect.effectSize - fixedEffect) / Math.sqrt(variances[i] - 1 / totalWeight));
+
+            let score = 0;
+            for (let i = 0; i < k; i++) {
+                for (let j = i + 1; j < k; j++) {
+                    score += Math.sign((standardized[i] - standardized[j]) * (variances[i] - variances[j]));
+                }
+            }
+
+            const z = score / Math.sqrt(k * (k - 1) * (2 * k + 5) / 18);
+            return {
+                kendallTau: score / (k * (k - 1) / 2),
+                z,
+                pValue: StatisticalUtils.normalProbability(z)
+            };
+        }
+
+        /**
+         * Duval and Tweedie's trim-and-fill with the L0 estimator: trim the unmatched sessions on
+         * the heavy side, re-centre, and fill their mirror images on the missing side
+         */
+        public static trimAndFill(
+            effects: EffectSizeData[],
+            side: 'left' | 'right',
+            method: MetaAnalysisMethod,
+            hartungKnapp: boolean,
+            level: number = 0.95
+        ): TrimAndFillResult {
+            const { MetaAnalyzer } = AdvancedResearchStats;
+            const k = effects.length;
+            // Work with the missing side on the left: flip the sign when it is on the right
+            const flip = side === 'left' ? 1 : -1;
+            const sorted: StudyEffect[] = effects
+                .map(effect => ({ effectSize: flip * effect.effectSize, standardError: effect.standardError }))
+                .sort((a, b) => a.effectSize - b.effectSize);
+
+            let missing = 0;
+            let center = 0;
+            for (let iteration = 0; iteration < 100; iteration++) {
+                center = MetaAnalyzer.pool(sorted.slice(0, k - missing), method, false, level).pooledEffectSize;
+
+                const deviations = sorted.map(study => study.effectSize - center);
+                const ranked = deviations
+                    .map((deviation, index) => ({ deviation, index }))
+                    .sort((a, b) => Math.abs(a.deviation) - Math.abs(b.deviation) || a.index - b.index);
+                const rankSum = ranked.reduce((sum, item, rank) => sum + (item.deviation > 0 ? rank + 1 : 0), 0);
+                const next = Math.min(k - 1, Math.max(0, Math.round((4 * rankSum - k * (k + 1)) / (2 * k - 1))));
+
+                if (next === missing) break;
+                missing = next;
+            }
+
+            const imputed = sorted.slice(k - missing).map(study => ({
+                effectSize: flip * (2 * center - study.effectSize),
+                standardError: study.standardError
+            }));
+
+            return {
+                side,
+                missingStudies: missing,
+                imputed,
+                adjusted: MetaAnalyzer.pool([...effects, ...imputed], method, hartungKnapp, level)
+            };
+        }
+
+        /**
+         * p-curve of the sessions significant in the intended direction (two-tailed p < .05)
+         */
+        public static pCurve(effects: EffectSizeData[]): PCurveResult {
+            const critical = StatisticalUtils.normalInverse(0.975);
+            // Noncentrality at which a session reaches significance a third of the time
+            const ncp33 = critical - StatisticalUtils.normalInverse(2 / 3);
+            const clamp = (p: number) => Math.min(1 - 1e-12, Math.max(1e-12, p));
+
+            const significant = effects.map(effect => effect.directedZ).filter(z => z > critical);
+            const bins = [0, 0, 0, 0, 0];
+            significant.forEach(z => {
+                const p = StatisticalUtils.normalProbability(z);
+                bins[Math.min(4, Math.max(0, Math.ceil(p / 0.01) - 1))]++;
+            });
+
+            if (significant.length === 0) {
+                return { significantCount: 0, bins, rightSkewZ: 0, rightSkewPValue: 1, flatnessZ: 0, flatnessPValue: 1 };
+            }
+
+            const root = Math.sqrt(significant.length);
+            // pp-values are uniform when there is no effect (right skew) or when power is 33% (flatness)
+            const rightSkewZ = significant.reduce((sum, z) =>
+                sum + StatisticalUtils.normalInverse(clamp(StatisticalUtils.normalProbability(z) / 0.05)), 0) / root;
+            const flatnessZ = significant.reduce((sum, z) =>
+                sum + StatisticalUtils.normalInverse(clamp(3 * (1 - StatisticalUtils.normalCdf(z - ncp33)))), 0) / root;
+
+            return {
+                significantCount: significant.length,
+                bins,
+                rightSkewZ,
+                rightSkewPValue: StatisticalUtils.normalCdf(rightSkewZ),
+                flatnessZ,
+                flatnessPValue: StatisticalUtils.normalProbabilityOneTailed(flatnessZ)
+            };
+        }
+
+        /**
+         * Rosenthal's and Orwin's fail-safe N, in sessions with no effect
+         */
+        public static failSafeN(effects: EffectSizeData[], trivialEffectSize: number): FailSafeN {
+            const k = effects.length;
+            const zSum = effects.reduce((sum, effect) => sum + effect.directedZ, 0);
+            const zAlpha = StatisticalUtils.normalInverse(0.95);
+            const { pooledEffectSize } = AdvancedResearchStats.MetaAnalyzer.pool(effects, 'fixed', false);
+
+            return {
+                rosenthal: zSum > 0 ? Math.max(0, Math.ceil(zSum * zSum / (zAlpha * zAlpha) - k)) : 0,
+                orwin: pooledEffectSize > trivialEffectSize
+                    ? Math.ceil(k * (pooledEffectSize - trivialEffectSize) / trivialEffectSize)
+                    : 0,
+                trivialEffectSize
+            };
+        }
+
+        /**
+         * Pooled effect of completed against stopped sessions
+         */
+        public static compareStopping(
+            completed: EffectSizeData[],
+            stopped: EffectSizeData[],
+            pooled: MetaAnalysisEstimate,
+            method: MetaAnalysisMethod,
+            hartungKnapp: boolean,
+            level: number = 0.95
+        ): OptionalStoppingComparison {
+            const summarize = (group: EffectSizeData[]): StoppingGroupSummary | null => group.length > 0
+                ? {
+                    ...AdvancedResearchStats.MetaAnalyzer.pool(group, method, hartungKnapp, level),
+                    trialCount: group.reduce((sum, effect) => sum + effect.sampleSize, 0)
+                }
+                : null;
+
+            const completedSummary = summarize(completed);
+            const stoppedSummary = summarize(stopped);
+            const difference = completedSummary && stoppedSummary
+                ? completedSummary.pooledEffectSize - stoppedSummary.pooledEffectSize
+                : 0;
+            const differenceZ = completedSummary && stoppedSummary
+                ? difference / Math.sqrt(completedSummary.pooledStandardError ** 2 + stoppedSummary.pooledStandardError ** 2)
+                : 0;
+
+            return {
+                completed: completedSummary,
+                stopped: stoppedSummary,
+                stoppedFraction: completed.length + stopped.length > 0
+                    ? stopped.length / (completed.length + stopped.length)
+                    : 0,
+                difference,
+                differenceZ,
+                pValue: completedSummary && stoppedSummary ? StatisticalUtils.normalProbability(differenceZ) : 1,
+                allSessionsBias: completedSummary ? pooled.pooledEffectSize - completedSummary.pooledEffectSize : 0
             };
         }
     };
@@ -503,22 +764,24 @@ export class AdvancedResearchStats {
 
     /**
      * Learning Curve Analyzer
+     * Performance is scored per session by the caller, e.g. as a directed effect size
      */
-    static analyzeLearningCurve(sessions: ExperimentSession[]): LearningCurveAnalysis {
-        const sortedSessions = sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    static analyzeLearningCurve(
+        sessions: ExperimentSession[],
+        performanceOf: (session: ExperimentSession) => number
+    ): LearningCurveAnalysis {
+        const sortedSessions = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+        const performances = sortedSessions.map(performanceOf);
 
         const data: LearningCurveData[] = sortedSessions.map((session, index) => {
-            const performance = this.calculateSessionPerformance(session);
-            const cumulativePerformance = this.calculateCumulativePerformance(
-                sortedSessions.slice(0, index + 1)
-            );
+            const cumulativePerformance = StatisticalUtils.mean(performances.slice(0, index + 1));
 
             return {
                 sessionNumber: index + 1,
                 timestamp: session.startTime.getTime(),
-                performance,
+                performance: performances[index],
                 cumulativePerformance,
-                learningRate: this.calculateLearningRate(sortedSessions.slice(0, index + 1)),
+                learningRate: this.calculateLearningRate(performances.slice(0, index + 1)),
                 skillLevel: this.classifySkillLevel(cumulativePerformance)
             };
         });
@@ -536,6 +799,171 @@ export class AdvancedResearchStats {
         };
     }
 
+    /**
+     * Per-Operator Analyzer
+     * PEAR-style operator scoring: trials under high and low intention are pooled with the
+     * sign of the intended direction, so an operator who "succeeds" in both directions
+     * accumulates a positive z. Baseline sessions are summarized but not scored.
+     */
+    static analyzeOperator(participantId: string, totals: OperatorSessionTotals[]): OperatorAnalysis {
+        const sorted = [...totals]
+            .filter(total => total.trialCount > 0)
+            .sort((a, b) => a.session.startTime.getTime() - b.session.startTime.getTime());
+
+        const sessions: OperatorSessionScore[] = sorted.map(({ session, trialCount, trialSum }) => {
+            const intention = session.intention ?? 'baseline';
+            const deviation = trialSum - TRIAL_MEAN * trialCount;
+            const zScore = deviation / Math.sqrt(TRIAL_VARIANCE * trialCount);
+            const directedZ = this.intentionSign(intention) * zScore;
+
+            return {
+                sessionId: session.id,
+                startTime: session.startTime,
+                intention,
+                trialCount,
+                meanDeviation: deviation / trialCount,
+                zScore,
+                directedZ,
+                effectSize: directedZ / Math.sqrt(trialCount)
+            };
+        });
+
+        const byIntention = {
+            high: this.summarizeIntention(sorted, 'high'),
+            low: this.summarizeIntention(sorted, 'low'),
+            baseline: this.summarizeIntention(sorted, 'baseline')
+        };
+
+        // Cumulative directed z after each intentional session
+        const cumulative: OperatorAnalysis['cumulative'] = [];
+        let directedDeviation = 0;
+        let cumulativeTrials = 0;
+        sorted.forEach(({ session, trialCount, trialSum }) => {
+            const sign = this.intentionSign(session.intention ?? 'baseline');
+            if (sign === 0) return;
+
+            directedDeviation += sign * (trialSum - TRIAL_MEAN * trialCount);
+            cumulativeTrials += trialCount;
+            cumulative.push({
+                sessionNumber: cumulative.length + 1,
+                timestamp: session.startTime.getTime(),
+                cumulativeTrials,
+                cumulativeZ: directedDeviation / Math.sqrt(TRIAL_VARIANCE * cumulativeTrials)
+            });
+        });
+
+        const cumulativeZ = cumulativeTrials > 0 ? directedDeviation / Math.sqrt(TRIAL_VARIANCE * cumulativeTrials) : 0;
+        const { high, low } = byIntention;
+        const highLowZ = high.trialCount > 0 && low.trialCount > 0
+            ? (high.meanDeviation - low.meanDeviation) / Math.sqrt(TRIAL_VARIANCE / high.trialCount + TRIAL_VARIANCE / low.trialCount)
+            : 0;
+
+        const scores = new Map(sessions.map(score => [score.sessionId, score]));
+        const intentional = sorted
+            .map(total => total.session)
+            .filter(session => this.intentionSign(session.intention ?? 'baseline') !== 0);
+
+        return {
+            participantId,
+            sessionCount: sessions.length,
+            trialCount: cumulativeTrials,
+            cumulativeZ,
+            effectSize: cumulativeTrials > 0 ? cumulativeZ / Math.sqrt(cumulativeTrials) : 0,
+            pValue: StatisticalUtils.normalProbabilityOneTailed(cumulativeZ),
+            highLowZ,
+            byIntention,
+            sessions,
+            cumulative,
+            learningCurve: this.analyzeLearningCurve(intentional, session => scores.get(session.id)!.effectSize)
+        };
+    }
+
+    /**
+     * Tri-polar series results: per-direction z for high, low and baseline runs
+     * and the high-minus-low separation over the completed runs
+     */
+    static analyzeSeries(seriesId: string, runsPlanned: number, totals: OperatorSessionTotals[]): SeriesAnalysis {
+        const completed = totals.filter(total => total.trialCount > 0);
+        const byIntention = {
+            high: this.summarizeIntention(completed, 'high'),
+            low: this.summarizeIntention(completed, 'low'),
+            baseline: this.summarizeIntention(completed, 'baseline')
+        };
+
+        const { high, low } = byIntention;
+        const hasBoth = high.trialCount > 0 && low.trialCount > 0;
+        const highLowSeparation = hasBoth ? high.meanDeviation - low.meanDeviation : 0;
+        const highLowZ = hasBoth
+            ? highLowSeparation / Math.sqrt(TRIAL_VARIANCE / high.trialCount + TRIAL_VARIANCE / low.trialCount)
+            : 0;
+
+        const days = new Set(completed.map(total => total.session.startTime.toDateString()));
+
+        return {
+            seriesId,
+            runsPlanned,
+            runsCompleted: completed.length,
+            trialCount: completed.reduce((sum, total) => sum + total.trialCount, 0),
+            byIntention,
+            highLowSeparation,
+            highLowZ,
+            highLowPValue: hasBoth ? StatisticalUtils.normalProbabilityOneTailed(highLowZ) : 1,
+            daysActive: days.size
+        };
+    }
+
+    /**
+     * Compare directed results across the feedback modalities operators had during sessions
+     * Heterogeneity Q tests whether the per-trial effect differs between modalities
+     */
+    static compareFeedbackModalities(totals: OperatorSessionTotals[]): FeedbackComparison {
+        const groups = new Map<FeedbackModality, OperatorSessionTotals[]>();
+        totals
+            .filter(total => total.trialCount > 0 && this.intentionSign(total.session.intention ?? 'baseline') !== 0)
+            .forEach(total => {
+                const feedback = total.session.feedback ?? 'chart';
+                groups.set(feedback, [...(groups.get(feedback) || []), total]);
+            });
+
+        const modalities: FeedbackModalitySummary[] = Array.from(groups.entries()).map(([feedback, sessions]) => {
+            const trialCount = sessions.reduce((sum, total) => sum + total.trialCount, 0);
+            const directedDeviation = sessions.reduce((sum, total) =>
+                sum + this.intentionSign(total.session.intention ?? 'baseline') * (total.trialSum - TRIAL_MEAN * total.trialCount), 0);
+            const directedZ = directedDeviation / Math.sqrt(TRIAL_VARIANCE * trialCount);
+            const high = this.summarizeIntention(sessions, 'high');
+            const low = this.summarizeIntention(sessions, 'low');
+
+            return {
+                feedback,
+                sessionCount: sessions.length,
+                trialCount,
+                directedZ,
+                effectSize: directedZ / Math.sqrt(trialCount),
+                pValue: StatisticalUtils.normalProbabilityOneTailed(directedZ),
+                highLowZ: high.trialCount > 0 && low.trialCount > 0
+                    ? (high.meanDeviation - low.meanDeviation) / Math.sqrt(TRIAL_VARIANCE / high.trialCount + TRIAL_VARIANCE / low.trialCount)
+                    : 0
+            };
+        });
+
+        // Under a common per-trial effect, Q = sum(z_i^2) - (sum(sqrt(n_i) z_i))^2 / sum(n_i) is chi-square(k - 1)
+        const totalTrials = modalities.reduce((sum, modality) => sum + modality.trialCount, 0);
+        const weighted = modalities.reduce((sum, modality) => sum + Math.sqrt(modality.trialCount) * modality.directedZ, 0);
+        const heterogeneityQ = modalities.length > 1
+            ? Math.max(0, modalities.reduce((sum, modality) => sum + modality.directedZ ** 2, 0) - weighted ** 2 / totalTrials)
+            : 0;
+        const degreesOfFreedom = Math.max(0, modalities.length - 1);
+
+        return {
+            modalities: modalities.sort((a, b) => b.trialCount - a.trialCount),
+            heterogeneityQ,
+            degreesOfFreedom,
+            heterogeneityPValue: degreesOfFreedom > 0
+                ? StatisticalUtils.chiSquareProbability(heterogeneityQ, degreesOfFreedom)
+                : 1
+        };
+    }
+
     /**
      * Quality Assessment Engine
      */
@@ -574,26 +1002,39 @@ export class AdvancedResearchStats {
     }
 
     // Private helper methods
-    private static calculateSessionPerformance(session: ExperimentSession): number {
-        // Placeholder implementation
-        return Math.random() * 0.1 - 0.05; // Random performance between -0.05 and 0.05
-    }
+    private static calculateLearningRate(performances: number[]): number {
+        if (performances.length < 2) return 0;
 
-    private static calculateCumulativePerformance(sessions: ExperimentSession[]): number {
-        const performances = sessions.map(s => this.calculateSessionPerformance(s));
-        return StatisticalUtils.mean(performances);
-    }
-
-    private static calculateLearningRate(sessions: ExperimentSession[]): number {
-        if (sessions.length < 2) return 0;
-
-        const performances = sessions.map(s => this.calculateSessionPerformance(s));
         const firstHalf = performances.slice(0, Math.floor(performances.length / 2));
         const secondHalf = performances.slice(Math.floor(performances.length / 2));
 
         return StatisticalUtils.mean(secondHalf) - StatisticalUtils.mean(firstHalf);
     }
 
+    private static intentionSign(intention: Exclude<IntentionType, null>): number {
+        if (intention === 'high') return 1;
+        if (intention === 'low') return -1;
+        return 0;
+    }
+
+    private static summarizeIntention(
+        totals: OperatorSessionTotals[],
+        intention: Exclude<IntentionType, null>
+    ): OperatorIntentionSummary {
+        const matching = totals.filter(total => (total.session.intention ?? 'baseline') === intention);
+        const trialCount = matching.reduce((sum, total) => sum + total.trialCount, 0);
+        const deviation = matching.reduce((sum, total) => sum + total.trialSum - TRIAL_MEAN * total.trialCount, 0);
+        const zScore = trialCount > 0 ? deviation / Math.sqrt(TRIAL_VARIANCE * trialCount) : 0;
+
+        return {
+            sessionCount: matching.length,
+            trialCount,
+            meanDeviation: trialCount > 0 ? deviation / trialCount : 0,
+            zScore,
+            effectSize: trialCount > 0 ? zScore / Math.sqrt(trialCount) : 0
+        };
+    }
+
     private static classifySkillLevel(performance: number): LearningCurveData['skillLevel'] {
         if (performance > 0.05) return 'expert';
         if (performance > 0.02) return 'advanced';
@@ -620,7 +1061,7 @@ export class AdvancedResearchStats {
     private static detectPlateau(data: LearningCurveData[]): { detected: boolean; start?: number } {
         // Simple plateau detection using moving window
         const windowSize = Math.min(10, Math.floor(data.length / 3));
-        if (data.length < windowSize * 2) return { detected: false };
+        if (windowSize === 0 || data.length < windowSize * 2) return { detected: false };
 
         for (let i = windowSize; i <= data.length - windowSize; i++) {
             const before = data.slice(i - windowSize, i);
@@ -647,6 +1088,8 @@ export class AdvancedResearchStats {
 
     private static predictPlateau(data: LearningCurveData[]): number {
         // Simple exponential decay model prediction
+        if (data.length === 0) return 0;
+
         const performances = data.map(d => d.performance);
         const lastPerformance = performances[performances.length - 1];
         const trend = this.analyzeTrend(data);
@@ -698,7 +1141,7 @@ export class AdvancedResearchStats {
         // Measure accuracy against expected random distribution
         const values = trials.map(t => t.trialValue);
         const mean = StatisticalUtils.mean(values);
-        const expectedMean = 100;
+        const expectedMean = TRIAL_MEAN;
 
         return Math.max(0, 1 - Math.abs(mean - expectedMean) / 50);
     }
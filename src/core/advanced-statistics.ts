@@ -7,6 +7,9 @@ import { RNGTrial } from '../shared/types';
 import {
     NetworkVarianceResult,
     DeviceVarianceResult,
+    MultiDeviceNetworkResult,
+    NetworkSecond,
+    DeviceCorrelation,
     CumulativeResult,
     CumulativePoint,
     ZScoreResult,
@@ -120,6 +123,94 @@ export class AdvancedStatistics {
         };
     }
 
+    /**
+     * GCP network statistics across concurrent devices
+     * Each second: a z for every reporting device, Stouffer Z = Σz / √N and its square (netvar).
+     * Over the period: Σ netvar against chi-square with one degree of freedom per second,
+     * Σ z² across all device-seconds (device variance) and pairwise inter-device correlation.
+     */
+    static calculateMultiDeviceNetwork(
+        trials: RNGTrial[],
+        parameters: AnalysisParameters = {}
+    ): MultiDeviceNetworkResult {
+        if (trials.length === 0) {
+            throw new Error('No trials provided for multi-device network analysis');
+        }
+
+        const deviceZ = this.calculateDeviceSecondZ(trials, parameters);
+
+        // Pivot to one row per second
+        const bySecond = new Map<number, { sumZ: number; sumZ2: number; count: number }>();
+        for (const series of deviceZ.values()) {
+            for (const [second, z] of series) {
+                const row = bySecond.get(second) ?? { sumZ: 0, sumZ2: 0, count: 0 };
+                row.sumZ += z;
+                row.sumZ2 += z * z;
+                row.count++;
+                bySecond.set(second, row);
+            }
+        }
+
+        const seconds: NetworkSecond[] = [];
+        const cumulativeDeviation: number[] = [];
+        let netvar = 0;
+        let deviceVariance = 0;
+        let deviceSeconds = 0;
+
+        for (const second of [...bySecond.keys()].sort((a, b) => a - b)) {
+            const row = bySecond.get(second)!;
+            const stoufferZ = row.sumZ / Math.sqrt(row.count);
+            const squared = stoufferZ * stoufferZ;
+
+            netvar += squared;
+            deviceVariance += row.sumZ2;
+            deviceSeconds += row.count;
+            cumulativeDeviation.push((cumulativeDeviation[cumulativeDeviation.length - 1] ?? 0) + squared - 1);
+            seconds.push({
+                timestamp: new Date(second * 1000),
+                deviceCount: row.count,
+                stoufferZ,
+                netvar: squared,
+                deviceVariance: row.sumZ2
+            });
+        }
+
+        const deviceIds = [...deviceZ.keys()].sort();
+        const correlations: DeviceCorrelation[] = [];
+        for (let i = 0; i < deviceIds.length; i++) {
+            for (let j = i + 1; j < deviceIds.length; j++) {
+                correlations.push({
+                    deviceA: deviceIds[i],
+                    deviceB: deviceIds[j],
+                    ...this.correlateDevices(deviceZ.get(deviceIds[i])!, deviceZ.get(deviceIds[j])!)
+                });
+            }
+        }
+
+        const netvarProbability = StatisticalUtils.chiSquareProbability(netvar, seconds.length);
+
+        return {
+            deviceIds,
+            seconds,
+            netvar,
+            netvarProbability,
+            // Normal approximation to the chi-square, as in GCP event summaries
+            netvarZ: (netvar - seconds.length) / Math.sqrt(2 * seconds.length),
+            deviceVariance,
+            deviceVarianceDegreesOfFreedom: deviceSeconds,
+            deviceVarianceProbability: StatisticalUtils.chiSquareProbability(deviceVariance, deviceSeconds),
+            meanCorrelation: correlations.length > 0
+                ? StatisticalUtils.mean(correlations.map(c => c.correlation))
+                : 0,
+            correlations,
+            cumulativeDeviation,
+            significance: netvarProbability < 0.001 ? 'highly_significant'
+                : netvarProbability < 0.05 ? 'significant'
+                    : netvarProbability < 0.1 ? 'marginal'
+                        : 'none'
+        };
+    }
+
     /**
      * Cumulative Deviation Tracking - For real-time display and analysis
      * Tracks running cumulative deviation from expected mean
@@ -505,10 +596,96 @@ export class AdvancedStatistics {
         const values = trials.map(t => t.trialValue);
         if (values.length < 2) return 0;
 
+        // Trials from several devices: mean pairwise correlation of their per-second Z
+        const deviceZ = this.calculateDeviceSecondZ(trials.filter(t => t.deviceId), parameters);
+        if (deviceZ.size > 1) {
+            const series = [...deviceZ.values()];
+            const correlations: number[] = [];
+            for (let i = 0; i < series.length; i++) {
+                for (let j = i + 1; j < series.length; j++) {
+                    correlations.push(this.correlateDevices(series[i], series[j]).correlation);
+                }
+            }
+            return StatisticalUtils.mean(correlations);
+        }
+
         // Simple spatial correlation using adjacent trials
         return this.calculateTemporalCorrelation(values);
     }
 
+    /**
+     * Z of every device for every second it reported, keyed by device then Unix second
+     * Several trials of one device within a second are pooled; trials without a device id
+     * count as one device per session
+     */
+    private static calculateDeviceSecondZ(
+        trials: RNGTrial[],
+        parameters: AnalysisParameters
+    ): Map<string, Map<number, number>> {
+        const expectedMean = parameters.expectedMean || 100;
+        const expectedStd = parameters.expectedStd || Math.sqrt(50);
+
+        const totals = new Map<string, Map<number, { sum: number; count: number }>>();
+        for (const trial of trials) {
+            const device = trial.deviceId ?? trial.sessionId;
+            const second = Math.floor(trial.timestamp.getTime() / 1000);
+
+            let series = totals.get(device);
+            if (!series) {
+                series = new Map();
+                totals.set(device, series);
+            }
+            const total = series.get(second) ?? { sum: 0, count: 0 };
+            total.sum += trial.trialValue;
+            total.count++;
+            series.set(second, total);
+        }
+
+        const deviceZ = new Map<string, Map<number, number>>();
+        for (const [device, series] of totals) {
+            const zs = new Map<number, number>();
+            for (const [second, total] of series) {
+                zs.set(second, (total.sum - total.count * expectedMean) / (expectedStd * Math.sqrt(total.count)));
+            }
+            deviceZ.set(device, zs);
+        }
+        return deviceZ;
+    }
+
+    /**
+     * Pearson correlation of two devices over the seconds both reported
+     */
+    private static correlateDevices(
+        a: Map<number, number>,
+        b: Map<number, number>
+    ): { correlation: number; commonSeconds: number } {
+        const x: number[] = [];
+        const y: number[] = [];
+        for (const [second, z] of a) {
+            const other = b.get(second);
+            if (other !== undefined) {
+                x.push(z);
+                y.push(other);
+            }
+        }
+
+        if (x.length < 3) return { correlation: 0, commonSeconds: x.length };
+
+        const meanX = StatisticalUtils.mean(x);
+        const meanY = StatisticalUtils.mean(y);
+        let covariance = 0;
+        let varianceX = 0;
+        let varianceY = 0;
+        for (let i = 0; i < x.length; i++) {
+            covariance += (x[i] - meanX) * (y[i] - meanY);
+            varianceX += (x[i] - meanX) * (x[i] - meanX);
+            varianceY += (y[i] - meanY) * (y[i] - meanY);
+        }
+
+        const denominator = Math.sqrt(varianceX * varianceY);
+        return { correlation: denominator === 0 ? 0 : covariance / denominator, commonSeconds: x.length };
+    }
+
     /**
      * Calculate coherence measure
      */
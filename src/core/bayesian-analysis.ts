@@ -0,0 +1,458 @@
+/**
+ * Bayesian Analysis
+ * Bayes factors and posteriors for the per-trial standardized effect size δ. The trial variance
+ * is known (50 for a sum of 200 fair bits), so the directed z over n trials is N(δ√n, 1) and the
+ * JZS prior reduces to a Cauchy prior on δ. Cauchy and t priors are scale mixtures of normals,
+ * δ | g ~ N(μ, g·s²) with g ~ InverseGamma(ν/2, ν/2), so each quantity is a closed form
+ * integrated over g by quadrature; a normal prior is conjugate and needs no integral.
+ */
+
+import {
+    BayesAlternative,
+    BayesEvidence,
+    BayesFactorResult,
+    BayesianOptions,
+    BayesianResult,
+    OperatorSessionTotals,
+    PosteriorDensityPoint,
+    PriorDistribution,
+    PriorRobustnessPoint,
+    SequentialBayesOptions,
+    SequentialBayesPoint,
+    SequentialBayesTrace
+} from '../shared/analysis-types';
+import { IntentionType, RNGTrial } from '../shared/types';
+import { StatisticalUtils, TRIAL_MEAN, TRIAL_VARIANCE } from './statistical-utils';
+
+const LOG_SQRT_2PI = 0.5 * Math.log(2 * Math.PI);
+
+/** Step in log g of the quadrature over the prior's mixing variable */
+const LOG_G_STEP = 0.05;
+
+/** Points of the prior and posterior density curves */
+const DENSITY_POINTS = 101;
+
+/** Looks in a sequential trace unless the caller sets the interval */
+const MAX_TRACE_POINTS = 500;
+
+/** Normal component of the prior: log quadrature weight and prior variance of δ */
+interface PriorComponent {
+    logWeight: number;
+    variance: number;
+}
+
+/** Component of the posterior given the data, with its log weight before normalizing */
+interface PosteriorComponent {
+    logWeight: number;
+    mean: number;
+    sd: number;
+}
+
+const logSumExp = (values: number[]): number => {
+    const max = Math.max(...values);
+    if (max === -Infinity) return -Infinity;
+    return max + Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+};
+
+export class BayesianAnalyzer {
+
+    /** Default JZS prior: Cauchy with scale √2/2 */
+    static readonly DEFAULT_PRIOR: PriorDistribution = { type: 'cauchy', location: 0, scale: Math.SQRT1_2 };
+
+    /**
+     * Informed normal prior centred on a per-bit effect size (the PEAR benchmark is about 1e-4)
+     * with a standard deviation equal to its mean; a 200-bit trial scales the effect by √200
+     */
+    static informedPrior(perBitEffect: number = 1e-4): PriorDistribution {
+        const perTrial = perBitEffect * Math.sqrt(200);
+        return { type: 'normal', mean: perTrial, standardDeviation: perTrial };
+    }
+
+    /**
+     * Directed z of a run of trials: high sessions count up, low sessions down,
+     * baseline sessions as recorded
+     */
+    static evidenceFromTrials(trials: RNGTrial[], intention: IntentionType): BayesEvidence {
+        const sign = intention === 'low' ? -1 : 1;
+        const deviation = trials.reduce((sum, trial) => sum + trial.trialValue - TRIAL_MEAN, 0);
+        return {
+            trialCount: trials.length,
+            z: trials.length > 0 ? sign * deviation / Math.sqrt(TRIAL_VARIANCE * trials.length) : 0
+        };
+    }
+
+    /**
+     * Directed z pooled over the finished high and low intention sessions
+     */
+    static evidenceFromSessions(totals: OperatorSessionTotals[]): BayesEvidence {
+        let trialCount = 0;
+        let deviation = 0;
+        totals.forEach(({ session, trialCount: count, trialSum }) => {
+            if (session.status === 'running' || (session.intention !== 'high' && session.intention !== 'low')) return;
+            trialCount += count;
+            deviation += (session.intention === 'low' ? -1 : 1) * (trialSum - TRIAL_MEAN * count);
+        });
+
+        return {
+            trialCount,
+            z: trialCount > 0 ? deviation / Math.sqrt(TRIAL_VARIANCE * trialCount) : 0
+        };
+    }
+
+    /**
+     * Bayes factor BF10 of δ under the prior against δ = 0
+     */
+    static bayesFactor(
+        evidence: BayesEvidence,
+        prior: PriorDistribution,
+        alternative: BayesAlternative = 'two-sided'
+    ): number {
+        return Math.exp(this.logBayesFactor(evidence, prior, alternative));
+    }
+
+    /**
+     * Bayes factor, posterior summary, density curves and the robustness check across prior widths
+     */
+    static analyze(evidence: BayesEvidence, options: BayesianOptions): BayesianResult {
+        const { prior } = options;
+        const alternative = options.alternative ?? 'two-sided';
+        const credibleLevel = options.credibleLevel ?? 0.95;
+
+        if (!(evidence.trialCount > 0)) {
+            throw new Error('Bayesian analysis needs at least one trial');
+        }
+        if (!(credibleLevel > 0 && credibleLevel < 1)) {
+            throw new Error(`Credible level must be between 0 and 1, got ${credibleLevel}`);
+        }
+        this.validatePrior(prior);
+
+        const logBf10 = this.logBayesFactor(evidence, prior, alternative);
+        const posterior = this.posteriorComponents(evidence, prior, alternative);
+        const { mean, sd } = this.mixtureMoments(posterior, alternative);
+        const tail = (1 - credibleLevel) / 2;
+
+        return {
+            prior,
+            alternative,
+            evidence,
+            bayesFactor: this.describeBayesFactor(logBf10, alternative),
+            posteriorMean: mean,
+            posteriorSD: sd,
+            credibleInterval: [
+                this.mixtureQuantile(posterior, alternative, tail, mean, sd),
+                this.mixtureQuantile(posterior, alternative, 1 - tail, mean, sd)
+            ],
+            credibleLevel,
+            density: this.densityCurve(evidence, prior, alternative, logBf10, mean, sd),
+            robustness: this.robustness(evidence, prior, alternative)
+        };
+    }
+
+    /**
+     * BF10 as the prior is narrowed and widened around the chosen one, from an eighth to
+     * eight times its scale
+     */
+    static robustness(
+        evidence: BayesEvidence,
+        prior: PriorDistribution,
+        alternative: BayesAlternative = 'two-sided'
+    ): PriorRobustnessPoint[] {
+        return Array.from({ length: 13 }, (_, i) => 2 ** ((i - 6) / 2)).map(multiplier => {
+            const scaled: PriorDistribution = prior.type === 'normal'
+                ? { ...prior, standardDeviation: prior.standardDeviation * multiplier }
+                : { ...prior, scale: prior.scale * multiplier };
+            return {
+                scale: scaled.type === 'normal' ? scaled.standardDeviation : scaled.scale,
+                bf10: this.bayesFactor(evidence, scaled, alternative)
+            };
+        });
+    }
+
+    /**
+     * BF10 as trials accumulate, looked at every `interval` trials and after the last one.
+     * A stopping rule is checked at each look; the first look that meets it decides
+     */
+    static sequentialTrace(trials: RNGTrial[], intention: IntentionType, options: SequentialBayesOptions): SequentialBayesTrace {
+        const alternative = options.alternative ?? 'two-sided';
+        const interval = options.interval ?? Math.max(1, Math.ceil(trials.length / MAX_TRACE_POINTS));
+        const rule = options.stoppingRule;
+        this.validatePrior(options.prior);
+        if (!(Number.isInteger(interval) && interval > 0)) {
+            throw new Error(`The look interval must be a positive whole number of trials, got ${interval}`);
+        }
+        if (rule && !(rule.threshold > 1)) {
+            throw new Error(`A Bayes factor stopping threshold must exceed 1, got ${rule.threshold}`);
+        }
+
+        const sign = intention === 'low' ? -1 : 1;
+        const points: SequentialBayesPoint[] = [];
+        let decision: SequentialBayesTrace['decision'] = 'continue';
+        let decidedAt: number | null = null;
+        let deviation = 0;
+
+        for (let trialCount = 1; trialCount <= trials.length; trialCount++) {
+            deviation += trials[trialCount - 1].trialValue - TRIAL_MEAN;
+            if (trialCount % interval !== 0 && trialCount !== trials.length) continue;
+
+            const bf10 = this.bayesFactor(
+                { trialCount, z: sign * deviation / Math.sqrt(TRIAL_VARIANCE * trialCount) },
+                options.prior,
+                alternative
+            );
+            points.push({ trialCount, bf10 });
+
+            if (!rule || decidedAt !== null || trialCount < (rule.minTrials ?? 0)) continue;
+            if (bf10 >= rule.threshold) {
+                decision = 'alternative';
+            } else if (bf10 <= 1 / rule.threshold) {
+                decision = 'null';
+            } else if (rule.maxTrials !== undefined && trialCount >= rule.maxTrials) {
+                decision = 'max_trials';
+            } else {
+                continue;
+            }
+            decidedAt = trialCount;
+        }
+
+        return { points, decision, decidedAt };
+    }
+
+    /**
+     * Check that a prior is proper and centred on a finite effect size
+     */
+    static validatePrior(prior: PriorDistribution): void {
+        const width = prior.type === 'normal' ? prior.standardDeviation : prior.scale;
+        const location = prior.type === 'normal' ? prior.mean : prior.location;
+        if (!(width > 0 && Number.isFinite(width))) {
+            throw new Error(`The ${prior.type} prior needs a positive, finite width, got ${width}`);
+        }
+        if (!Number.isFinite(location)) {
+            throw new Error(`The ${prior.type} prior needs a finite location, got ${location}`);
+        }
+        if (prior.type === 't' && !(prior.df > 0 && Number.isFinite(prior.df))) {
+            throw new Error(`The t prior needs positive degrees of freedom, got ${prior.df}`);
+        }
+    }
+
+    // Private helpers
+
+    private static logBayesFactor(evidence: BayesEvidence, prior: PriorDistribution, alternative: BayesAlternative): number {
+        if (evidence.trialCount === 0) return 0;
+        this.validatePrior(prior);
+
+        return logSumExp(this.posteriorComponents(evidence, prior, alternative).map(component => component.logWeight)) -
+            this.logPriorMass(evidence, prior, alternative);
+    }
+
+    /**
+     * Prior as normal components: the normal prior itself, or nodes of the trapezoid rule
+     * in u = log g over the inverse gamma mixing density
+     */
+    private static priorComponents(evidence: BayesEvidence, prior: PriorDistribution): PriorComponent[] {
+        if (prior.type === 'normal') {
+            return [{ logWeight: 0, variance: prior.standardDeviation ** 2 }];
+        }
+
+        const a = (prior.type === 'cauchy' ? 1 : prior.df) / 2;
+        const scale2 = prior.scale ** 2;
+        const logNorm = a * Math.log(a) - StatisticalUtils.logGamma(a) + Math.log(LOG_G_STEP);
+        // Below the lower end the density in u is under e^-750; above the point where the
+        // prior outgrows the likelihood (n·g·s² ≈ 1) the integrand falls like e^(-a·u)
+        const lower = Math.log(a / 750);
+        const upper = Math.max(0, -Math.log(Math.max(1, evidence.trialCount) * scale2)) + 36 / a;
+
+        const components: PriorComponent[] = [];
+        for (let u = lower; u <= upper; u += LOG_G_STEP) {
+            components.push({
+                logWeight: logNorm - a * u - a * Math.exp(-u),
+                variance: Math.exp(u) * scale2
+            });
+        }
+        return components;
+    }
+
+    /**
+     * Each prior component updated by the data. The log weight is the component's share of
+     * the marginal likelihood relative to δ = 0, restricted to the side of the alternative
+     */
+    private static posteriorComponents(
+        evidence: BayesEvidence,
+        prior: PriorDistribution,
+        alternative: BayesAlternative
+    ): PosteriorComponent[] {
+        const { trialCount: n, z } = evidence;
+        const root = Math.sqrt(n);
+        const location = prior.type === 'normal' ? prior.mean : prior.location;
+
+        return this.priorComponents(evidence, prior).map(({ logWeight, variance }) => {
+            const spread = 1 + n * variance;
+            const mean = (location + variance * root * z) / spread;
+            const sd = Math.sqrt(variance / spread);
+            const logRatio = -0.5 * Math.log(spread) + 0.5 * z * z - (z - location * root) ** 2 / (2 * spread);
+            const logSide = alternative === 'greater' ? StatisticalUtils.logNormalTail(-mean / sd)
+                : alternative === 'less' ? StatisticalUtils.logNormalTail(mean / sd)
+                    : 0;
+            return { logWeight: logWeight + logRatio + logSide, mean, sd };
+        });
+    }
+
+    /** log prior probability of the side of the alternative, on the same quadrature as the posterior */
+    private static logPriorMass(evidence: BayesEvidence, prior: PriorDistribution, alternative: BayesAlternative): number {
+        const location = prior.type === 'normal' ? prior.mean : prior.location;
+        return logSumExp(this.priorComponents(evidence, prior).map(({ logWeight, variance }) => {
+            const sd = Math.sqrt(variance);
+            return logWeight + (alternative === 'greater' ? StatisticalUtils.logNormalTail(-location / sd)
+                : alternative === 'less' ? StatisticalUtils.logNormalTail(location / sd)
+                    : 0);
+        }));
+    }
+
+    private static logPriorDensity(prior: PriorDistribution, effectSize: number): number {
+        if (prior.type === 'normal') {
+            const standardized = (effectSize - prior.mean) / prior.standardDeviation;
+            return -0.5 * standardized * standardized - Math.log(prior.standardDeviation) - LOG_SQRT_2PI;
+        }
+
+        const df = prior.type === 'cauchy' ? 1 : prior.df;
+        const standardized = (effectSize - prior.location) / prior.scale;
+        return StatisticalUtils.logGamma((df + 1) / 2) - StatisticalUtils.logGamma(df / 2) -
+            0.5 * Math.log(df * Math.PI) - Math.log(prior.scale) -
+            (df + 1) / 2 * Math.log(1 + standardized * standardized / df);
+    }
+
+    /** Normalized weights of the posterior components that carry any mass */
+    private static normalizedComponents(components: PosteriorComponent[]): Array<PosteriorComponent & { weight: number }> {
+        const total = logSumExp(components.map(component => component.logWeight));
+        return components
+            .map(component => ({ ...component, weight: Math.exp(component.logWeight - total) }))
+            .filter(component => component.weight > 1e-15);
+    }
+
+    /**
+     * Mean and standard deviation of the posterior, with each component truncated to the
+     * side of the alternative
+     */
+    private static mixtureMoments(
+        components: PosteriorComponent[],
+        alternative: BayesAlternative
+    ): { mean: number; sd: number } {
+        let first = 0;
+        let second = 0;
+        this.normalizedComponents(components).forEach(({ weight, mean, sd }) => {
+            let componentMean = mean;
+            let componentVariance = sd * sd;
+            if (alternative !== 'two-sided') {
+                // Moments of a normal truncated at zero, through the inverse Mills ratio
+                const direction = alternative === 'greater' ? 1 : -1;
+                const alpha = -direction * mean / sd;
+                const lambda = Math.exp(-0.5 * alpha * alpha - LOG_SQRT_2PI - StatisticalUtils.logNormalTail(alpha));
+                componentMean = mean + direction * sd * lambda;
+                componentVariance = sd * sd * Math.max(0, 1 + alpha * lambda - lambda * lambda);
+            }
+            first += weight * componentMean;
+            second += weight * (componentVariance + componentMean * componentMean);
+        });
+
+        return { mean: first, sd: Math.sqrt(Math.max(0, second - first * first)) };
+    }
+
+    private static mixtureCdf(
+        components: Array<PosteriorComponent & { weight: number }>,
+        alternative: BayesAlternative,
+        x: number
+    ): number {
+        return components.reduce((sum, { weight, mean, sd }) => {
+            const standardized = (x - mean) / sd;
+            let cdf: number;
+            if (alternative === 'greater') {
+                cdf = x <= 0 ? 0 : 1 - Math.exp(StatisticalUtils.logNormalTail(standardized) - StatisticalUtils.logNormalTail(-mean / sd));
+            } else if (alternative === 'less') {
+                cdf = x >= 0 ? 1 : Math.exp(StatisticalUtils.logNormalTail(-standardized) - StatisticalUtils.logNormalTail(mean / sd));
+            } else {
+                cdf = 1 - Math.exp(StatisticalUtils.logNormalTail(standardized));
+            }
+            return sum + weight * cdf;
+        }, 0);
+    }
+
+    /** Quantile of the posterior by bisection on its distribution function */
+    private static mixtureQuantile(
+        components: PosteriorComponent[],
+        alternative: BayesAlternative,
+        p: number,
+        mean: number,
+        sd: number
+    ): number {
+        const weighted = this.normalizedComponents(components);
+        let low = alternative === 'greater' ? Math.max(0, mean - 20 * sd) : mean - 20 * sd;
+        let high = alternative === 'less' ? Math.min(0, mean + 20 * sd) : mean + 20 * sd;
+
+        for (let i = 0; i < 100 && high - low > 1e-12 * sd; i++) {
+            const mid = (low + high) / 2;
+            if (this.mixtureCdf(weighted, alternative, mid) < p) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+        return (low + high) / 2;
+    }
+
+    /**
+     * Prior and posterior densities over four posterior standard deviations either side of the
+     * posterior mean; the posterior is likelihood × prior over the marginal likelihood
+     */
+    private static densityCurve(
+        evidence: BayesEvidence,
+        prior: PriorDistribution,
+        alternative: BayesAlternative,
+        logBf10: number,
+        mean: number,
+        sd: number
+    ): PosteriorDensityPoint[] {
+        const { trialCount: n, z } = evidence;
+        const root = Math.sqrt(n);
+        const logMass = this.logPriorMass(evidence, prior, alternative);
+        const low = alternative === 'greater' ? Math.max(0, mean - 4 * sd) : mean - 4 * sd;
+        const high = alternative === 'less' ? Math.min(0, mean + 4 * sd) : mean + 4 * sd;
+
+        return Array.from({ length: DENSITY_POINTS }, (_, i) => {
+            const effectSize = low + (high - low) * i / (DENSITY_POINTS - 1);
+            const outside = (alternative === 'greater' && effectSize < 0) || (alternative === 'less' && effectSize > 0);
+            if (outside) return { effectSize, prior: 0, posterior: 0 };
+
+            const logPrior = this.logPriorDensity(prior, effectSize) - logMass;
+            const logLikelihoodRatio = 0.5 * z * z - 0.5 * (z - effectSize * root) ** 2;
+            return {
+                effectSize,
+                prior: Math.exp(logPrior),
+                posterior: Math.exp(logPrior + logLikelihoodRatio - logBf10)
+            };
+        });
+    }
+
+    /**
+     * Direction and strength of the evidence on the Lee and Wagenmakers scale
+     */
+    private static describeBayesFactor(logBf10: number, alternative: BayesAlternative): BayesFactorResult {
+        const bf10 = Math.exp(logBf10);
+        const strength = Math.exp(Math.abs(logBf10));
+
+        let interpretation: BayesFactorResult['interpretation'];
+        if (strength > 100) interpretation = 'extreme_evidence';
+        else if (strength > 30) interpretation = 'very_strong';
+        else if (strength > 10) interpretation = 'strong';
+        else if (strength > 3) interpretation = 'moderate';
+        else if (strength > 1) interpretation = 'weak';
+        else interpretation = 'inconclusive';
+
+        return {
+            bf10,
+            bf01: 1 / bf10,
+            logBf10,
+            favors: logBf10 >= 0 ? 'alternative' : 'null',
+            interpretation,
+            hypothesis: alternative === 'greater' ? 'δ > 0' : alternative === 'less' ? 'δ < 0' : 'δ ≠ 0'
+        };
+    }
+}
@@ -0,0 +1,631 @@
+/**
+ * Change-Point Detection
+ * CUSUM control charts for shifts away from the theoretical mean, PELT for the optimal offline
+ * segmentation of a series into runs of constant mean (or mean and variance), and Bayesian online
+ * change-point detection (Adams and MacKay 2007) for data that arrives one sample at a time
+ */
+
+import {
+    ChangePoint,
+    ChangePointAnalysis,
+    ChangePointMethod,
+    ChangePointModel,
+    ChangePointOptions,
+    ChangePointSample,
+    ChangePointSegment
+} from '../shared/analysis-types';
+import { RNGTrial } from '../shared/types';
+import { StatisticalUtils, TRIAL_MEAN, TRIAL_VARIANCE } from './statistical-utils';
+
+/** Samples a trial series is reduced to by default; PELT is quadratic in them when nothing changes */
+const DEFAULT_MAX_SAMPLES = 2000;
+
+/** Smallest segment variance as a fraction of the trial variance, so a constant run keeps a finite cost */
+const VARIANCE_FLOOR = 1e-6;
+
+/** Normal-gamma prior shape for BOCPD with an unknown variance; its mean variance is the trial variance */
+const PRIOR_SHAPE = 2;
+
+interface ResolvedOptions {
+    model: ChangePointModel;
+    expectedMean: number;
+    trialVariance: number;
+}
+
+/** A boundary between segments and the confidence its detector gives it */
+interface Boundary {
+    index: number;
+    confidence: number;
+}
+
+/**
+ * Conjugate posterior of a segment. With a known variance the mean is N(mean, σ²/kappa);
+ * otherwise (mean, precision) is normal-gamma and shape and rate describe the precision
+ */
+interface SegmentPosterior {
+    mean: number;
+    kappa: number;
+    shape: number;
+    rate: number;
+}
+
+const resolveOptions = (options: ChangePointOptions): ResolvedOptions => {
+    const resolved = {
+        model: options.model ?? 'mean',
+        expectedMean: options.expectedMean ?? TRIAL_MEAN,
+        trialVariance: options.trialVariance ?? TRIAL_VARIANCE
+    };
+
+    if (resolved.model !== 'mean' && resolved.model !== 'meanvar') {
+        throw new Error(`Unknown change-point model: ${resolved.model}`);
+    }
+    if (!(resolved.trialVariance > 0)) {
+        throw new Error('Trial variance must be positive');
+    }
+    return resolved;
+};
+
+const logSumExp = (values: number[]): number => {
+    let max = -Infinity;
+    for (const value of values) max = Math.max(max, value);
+    if (max === -Infinity) return max;
+
+    let sum = 0;
+    for (const value of values) sum += Math.exp(value - max);
+    return max + Math.log(sum);
+};
+
+/**
+ * Running weighted sums over a series, centred on the expected mean; a sample weighs its trial count
+ */
+class PrefixSums {
+    readonly weights: Float64Array;
+    readonly sums: Float64Array;
+    readonly squares: Float64Array;
+
+    constructor(samples: ChangePointSample[], expectedMean: number) {
+        const n = samples.length;
+        this.weights = new Float64Array(n + 1);
+        this.sums = new Float64Array(n + 1);
+        this.squares = new Float64Array(n + 1);
+
+        samples.forEach((sample, i) => {
+            const deviation = sample.value - expectedMean;
+            this.weights[i + 1] = this.weights[i] + sample.trialCount;
+            this.sums[i + 1] = this.sums[i] + sample.trialCount * deviation;
+            this.squares[i + 1] = this.squares[i] + sample.trialCount * deviation * deviation;
+        });
+    }
+
+    /**
+     * Trials, mean deviation and Σ w (x - mean)² of the samples in [start, end)
+     */
+    segment(start: number, end: number): { weight: number; deviation: number; residual: number } {
+        const weight = this.weights[end] - this.weights[start];
+        const sum = this.sums[end] - this.sums[start];
+        const squares = this.squares[end] - this.squares[start];
+
+        return {
+            weight,
+            deviation: weight > 0 ? sum / weight : 0,
+            residual: weight > 0 ? Math.max(0, squares - sum * sum / weight) : 0
+        };
+    }
+}
+
+/**
+ * Minus twice the maximized log-likelihood of the samples in [start, end), up to terms that
+ * add up to the same total for every segmentation
+ */
+const segmentCost = (
+    sums: PrefixSums,
+    start: number,
+    end: number,
+    model: ChangePointModel,
+    trialVariance: number
+): number => {
+    const { residual } = sums.segment(start, end);
+    if (model === 'mean') return residual / trialVariance;
+
+    const count = end - start;
+    return count * Math.log(Math.max(residual / count, VARIANCE_FLOOR * trialVariance));
+};
+
+/**
+ * 1 - p of the likelihood ratio for one segment [start, end) against a split at index,
+ * nominal because it ignores that the split was searched for
+ */
+const splitConfidence = (
+    sums: PrefixSums,
+    start: number,
+    index: number,
+    end: number,
+    model: ChangePointModel,
+    trialVariance: number
+): number => {
+    const statistic = segmentCost(sums, start, end, model, trialVariance) -
+        segmentCost(sums, start, index, model, trialVariance) -
+        segmentCost(sums, index, end, model, trialVariance);
+
+    return 1 - StatisticalUtils.chiSquareProbability(Math.max(statistic, 0), model === 'mean' ? 1 : 2);
+};
+
+const buildSegment = (
+    samples: ChangePointSample[],
+    sums: PrefixSums,
+    start: number,
+    end: number,
+    { expectedMean, trialVariance }: ResolvedOptions
+): ChangePointSegment => {
+    const { weight, deviation, residual } = sums.segment(start, end);
+
+    return {
+        startIndex: start,
+        endIndex: end,
+        startTime: samples[start].startTime,
+        endTime: samples[end - 1].endTime,
+        trialCount: weight,
+        mean: expectedMean + deviation,
+        standardDeviation: Math.sqrt(residual / (end - start)),
+        zScore: deviation * Math.sqrt(weight / trialVariance)
+    };
+};
+
+/**
+ * Segments, and change points between them, from the boundaries a detector found
+ */
+const buildAnalysis = (
+    samples: ChangePointSample[],
+    method: ChangePointMethod,
+    options: ResolvedOptions,
+    boundaries: Boundary[],
+    statistic: number[],
+    threshold: number | null,
+    sums: PrefixSums = new PrefixSums(samples, options.expectedMean)
+): ChangePointAnalysis => {
+    const edges = [0, ...boundaries.map(boundary => boundary.index), samples.length];
+    const segments: ChangePointSegment[] = [];
+    for (let i = 1; i < edges.length; i++) {
+        if (edges[i] > edges[i - 1]) segments.push(buildSegment(samples, sums, edges[i - 1], edges[i], options));
+    }
+
+    const changePoints: ChangePoint[] = boundaries.map((boundary, i) => ({
+        index: boundary.index,
+        timestamp: samples[boundary.index].startTime,
+        confidence: boundary.confidence,
+        magnitudeChange: segments[i + 1].mean - segments[i].mean,
+        method,
+        meanBefore: segments[i].mean,
+        meanAfter: segments[i + 1].mean
+    }));
+
+    return {
+        method,
+        model: options.model,
+        changePoints,
+        segments,
+        sampleCount: samples.length,
+        trialCount: sums.weights[samples.length],
+        statistic,
+        threshold
+    };
+};
+
+export class ChangePointDetector {
+
+    /**
+     * Means of consecutive trials, in blocks just large enough to keep to maxSamples
+     */
+    static toSamples(trials: RNGTrial[], maxSamples: number = DEFAULT_MAX_SAMPLES): ChangePointSample[] {
+        if (!(maxSamples >= 1)) {
+            throw new Error('At least one sample is needed');
+        }
+
+        const blockSize = Math.max(1, Math.ceil(trials.length / maxSamples));
+        const samples: ChangePointSample[] = [];
+        for (let i = 0; i < trials.length; i += blockSize) {
+            const block = trials.slice(i, i + blockSize);
+            samples.push({
+                startTime: block[0].timestamp,
+                endTime: block[block.length - 1].timestamp,
+                value: block.reduce((sum, trial) => sum + trial.trialValue, 0) / block.length,
+                trialCount: block.length
+            });
+        }
+        return samples;
+    }
+
+    /**
+     * Run one of the detectors over a series
+     */
+    static analyze(
+        samples: ChangePointSample[],
+        method: ChangePointMethod,
+        options: ChangePointOptions = {}
+    ): ChangePointAnalysis {
+        switch (method) {
+            case 'cusum':
+                return this.cusum(samples, options);
+            case 'pelt':
+                return this.pelt(samples, options);
+            case 'bocpd':
+                return this.bocpd(samples, options);
+            default:
+                throw new Error(`Unknown change-point method: ${method}`);
+        }
+    }
+
+    /**
+     * Two-sided tabular CUSUM against the expected mean. An alarm marks the change at the sample
+     * where the alarming sum last left zero; the shift ends after the sum's peak once it drains back to zero.
+     * The default k = 0.5 and h = 8 raise a false alarm about once in 10,000 in-control samples
+     */
+    static cusum(samples: ChangePointSample[], options: ChangePointOptions = {}): ChangePointAnalysis {
+        const resolved = { ...resolveOptions(options), model: 'mean' as const };
+        const reference = options.referenceValue ?? 0.5;
+        const limit = options.controlLimit ?? 8;
+        if (!(reference >= 0)) {
+            throw new Error('CUSUM reference value must not be negative');
+        }
+        if (!(limit > 0)) {
+            throw new Error('CUSUM control limit must be positive');
+        }
+
+        const indices: number[] = [];
+        const addBoundary = (index: number) => {
+            if (index > (indices[indices.length - 1] ?? 0) && index < samples.length) indices.push(index);
+        };
+
+        const statistic: number[] = [];
+        let upper = 0;
+        let lower = 0;
+        let upperStart = 0;
+        let lowerStart = 0;
+        let alarm: 'up' | 'down' | null = null;
+        let peak = 0;
+        let peakIndex = 0;
+
+        samples.forEach((sample, i) => {
+            const z = (sample.value - resolved.expectedMean) / Math.sqrt(resolved.trialVariance / sample.trialCount);
+            // During an alarm only the alarming side accumulates
+            upper = alarm === 'down' ? 0 : Math.max(0, upper + z - reference);
+            lower = alarm === 'up' ? 0 : Math.max(0, lower - z - reference);
+            if (upper === 0) upperStart = i + 1;
+            if (lower === 0) lowerStart = i + 1;
+
+            if (alarm === null) {
+                if (upper > limit || lower > limit) {
+                    alarm = upper > limit ? 'up' : 'down';
+                    addBoundary(alarm === 'up' ? upperStart : lowerStart);
+                    peak = Math.max(upper, lower);
+                    peakIndex = i;
+                }
+            } else {
+                const current = alarm === 'up' ? upper : lower;
+                if (current > peak) {
+                    peak = current;
+                    peakIndex = i;
+                }
+                if (current === 0) {
+                    addBoundary(peakIndex + 1);
+                    alarm = null;
+                }
+            }
+
+            statistic.push(Math.max(upper, lower));
+        });
+
+        const sums = new PrefixSums(samples, resolved.expectedMean);
+        const boundaries = indices.map((index, i) => ({
+            index,
+            confidence: splitConfidence(
+                sums, indices[i - 1] ?? 0, index, indices[i + 1] ?? samples.length, 'mean', resolved.trialVariance
+            )
+        }));
+        return buildAnalysis(samples, 'cusum', resolved, boundaries, statistic, limit, sums);
+    }
+
+    /**
+     * Pruned Exact Linear Time segmentation (Killick, Fearnhead and Eckley 2012): the segmentation
+     * minimizing the normal cost plus a penalty per change point
+     */
+    static pelt(samples: ChangePointSample[], options: ChangePointOptions = {}): ChangePointAnalysis {
+        const resolved = resolveOptions(options);
+        const { model, trialVariance } = resolved;
+        const n = samples.length;
+        const penalty = options.penalty ?? (model === 'mean' ? 2 : 3) * Math.log(Math.max(n, 2));
+        const minSegment = options.minSegmentLength ?? (model === 'mean' ? 2 : 10);
+        if (!(penalty >= 0)) {
+            throw new Error('PELT penalty must not be negative');
+        }
+        if (!Number.isInteger(minSegment) || minSegment < 1) {
+            throw new Error('Minimum segment length must be a positive whole number of samples');
+        }
+
+        const sums = new PrefixSums(samples, resolved.expectedMean);
+        const cost = (start: number, end: number) => segmentCost(sums, start, end, model, trialVariance);
+
+        // best[t]: cheapest segmentation of the first t samples; previous[t]: its last boundary
+        const best = new Float64Array(n + 1).fill(Infinity);
+        const previous = new Int32Array(n + 1);
+        best[0] = -penalty;
+        let candidates = [0];
+
+        for (let t = minSegment; t <= n; t++) {
+            if (t - minSegment >= minSegment) candidates.push(t - minSegment);
+
+            const totals = candidates.map(s => best[s] + cost(s, t));
+            let argmin = 0;
+            totals.forEach((total, i) => {
+                if (total < totals[argmin]) argmin = i;
+            });
+            best[t] = totals[argmin] + penalty;
+            previous[t] = candidates[argmin];
+
+            // A boundary that cannot beat the optimum now never will
+            candidates = candidates.filter((_, i) => totals[i] <= best[t]);
+        }
+
+        const indices: number[] = [];
+        for (let t = n; t >= minSegment && previous[t] > 0; t = previous[t]) {
+            indices.unshift(previous[t]);
+        }
+
+        const boundaries = indices.map((index, i) => ({
+            index,
+            confidence: splitConfidence(
+                sums, indices[i - 1] ?? 0, index, indices[i + 1] ?? n, model, trialVariance
+            )
+        }));
+        return buildAnalysis(samples, 'pelt', resolved, boundaries, [], null, sums);
+    }
+
+    /**
+     * Bayesian online change-point detection over a whole series
+     */
+    static bocpd(samples: ChangePointSample[], options: ChangePointOptions = {}): ChangePointAnalysis {
+        const detector = new OnlineChangePointDetector(options);
+        const boundaries: Boundary[] = [];
+        const statistic: number[] = [];
+
+        for (const sample of samples) {
+            const changePoint = detector.push(sample);
+            if (changePoint) boundaries.push({ index: changePoint.index, confidence: changePoint.confidence });
+            statistic.push(detector.getChangeProbability());
+        }
+
+        return buildAnalysis(samples, 'bocpd', resolveOptions(options), boundaries, statistic, detector.threshold);
+    }
+}
+
+/**
+ * Bayesian online change-point detection for a stream of samples. The posterior over the current
+ * run length is updated with every sample; a change is reported once the probability that the
+ * current segment began within the last `window` samples reaches the threshold
+ */
+export class OnlineChangePointDetector {
+    readonly threshold: number;
+    readonly window: number;
+    private options: ResolvedOptions;
+    private hazard: number;
+    private maxRunLength: number;
+    private prior: SegmentPosterior;
+
+    /** log P(run length = r + 1) and the segment posterior for each r */
+    private logProbabilities: number[] = [];
+    private posteriors: SegmentPosterior[] = [];
+
+    /** Cumulative centred sums before each of the last `window` samples, by sample index */
+    private recent: Array<{ index: number; startTime: Date; weight: number; sum: number; squares: number }> = [];
+    private sampleCount = 0;
+    private weight = 0;
+    private sum = 0;
+    private squares = 0;
+    private lastEndTime: Date | null = null;
+    private changeProbability = 0;
+
+    /** Where the current segment began: the start of the stream or the last reported change */
+    private segmentStart = { index: 0, startTime: null as Date | null, weight: 0, sum: 0, squares: 0 };
+    private lastReported = -Infinity;
+
+    constructor(options: ChangePointOptions = {}) {
+        this.options = resolveOptions(options);
+        const expectedRunLength = options.expectedRunLength ?? 250;
+        const priorSD = options.priorStandardDeviation ?? 1;
+        this.threshold = options.threshold ?? 0.95;
+        this.window = options.window ?? Math.max(1, Math.round(expectedRunLength / 5));
+        this.maxRunLength = options.maxRunLength ?? Math.max(4 * expectedRunLength, this.window + 1);
+
+        if (!(expectedRunLength > 1)) {
+            throw new Error('Expected run length must be greater than one sample');
+        }
+        if (!(priorSD > 0)) {
+            throw new Error('Prior standard deviation must be positive');
+        }
+        if (!(this.threshold > 0 && this.threshold < 1)) {
+            throw new Error('Change probability threshold must be between 0 and 1');
+        }
+        if (!Number.isInteger(this.window) || this.window < 1) {
+            throw new Error('Change window must be a positive whole number of samples');
+        }
+        if (!Number.isInteger(this.maxRunLength) || this.maxRunLength <= this.window) {
+            throw new Error('Maximum run length must be a whole number of samples beyond the change window');
+        }
+
+        const { trialVariance } = this.options;
+        this.hazard = 1 / expectedRunLength;
+        this.prior = {
+            mean: 0,
+            kappa: trialVariance / (priorSD * priorSD),
+            shape: PRIOR_SHAPE,
+            rate: trialVariance * (PRIOR_SHAPE - 1)
+        };
+    }
+
+    /**
+     * Add the next sample; returns the change point it reveals, if any
+     */
+    push(sample: ChangePointSample): ChangePoint | null {
+        const deviation = sample.value - this.options.expectedMean;
+        const weight = sample.trialCount;
+        const index = this.sampleCount;
+
+        this.recent.push({ index, startTime: sample.startTime, weight: this.weight, sum: this.sum, squares: this.squares });
+        if (this.recent.length > this.window) this.recent.shift();
+        if (this.segmentStart.startTime === null) this.segmentStart.startTime = sample.startTime;
+
+        const changed = Math.log(this.hazard) + this.logPredictive(this.prior, deviation, weight);
+        if (this.logProbabilities.length === 0) {
+            this.logProbabilities = [0];
+        } else {
+            const grown = this.logProbabilities.map((logProbability, r) =>
+                logProbability + Math.log1p(-this.hazard) + this.logPredictive(this.posteriors[r], deviation, weight));
+            const next = [changed, ...grown];
+            const evidence = logSumExp(next);
+            this.logProbabilities = next.map(value => value - evidence);
+        }
+        this.posteriors = [this.prior, ...this.posteriors].map(posterior => this.update(posterior, deviation, weight));
+
+        // The longest run length stands for every run at least that long
+        if (this.logProbabilities.length > this.maxRunLength) {
+            const merged = logSumExp(this.logProbabilities.slice(-2));
+            const longest = this.posteriors[this.posteriors.length - 1];
+            this.logProbabilities.splice(-2, 2, merged);
+            this.posteriors.splice(-2, 2, longest);
+        }
+
+        this.sampleCount++;
+        this.weight += weight;
+        this.sum += weight * deviation;
+        this.squares += weight * deviation * deviation;
+        this.lastEndTime = sample.endTime;
+
+        // Until the stream outgrows the window every run length counts as recent
+        if (this.sampleCount <= this.window) {
+            this.changeProbability = 0;
+            return null;
+        }
+
+        const recentProbabilities = this.logProbabilities.slice(0, this.window).map(Math.exp);
+        this.changeProbability = Math.min(1, recentProbabilities.reduce((total, p) => total + p, 0));
+        if (this.changeProbability < this.threshold) return null;
+
+        const runLength = recentProbabilities.indexOf(Math.max(...recentProbabilities)) + 1;
+        const start = index - runLength + 1;
+        // A change already reported moves around by a sample or two while the window passes it
+        if (start < this.lastReported + this.window || start <= this.segmentStart.index) return null;
+
+        const before = this.recent.find(entry => entry.index === start)!;
+        const meanBefore = this.options.expectedMean +
+            (before.sum - this.segmentStart.sum) / (before.weight - this.segmentStart.weight);
+        const meanAfter = this.options.expectedMean + (this.sum - before.sum) / (this.weight - before.weight);
+
+        this.segmentStart = {
+            index: start,
+            startTime: before.startTime,
+            weight: before.weight,
+            sum: before.sum,
+            squares: before.squares
+        };
+        this.lastReported = start;
+
+        return {
+            index: start,
+            timestamp: before.startTime,
+            confidence: this.changeProbability,
+            magnitudeChange: meanAfter - meanBefore,
+            method: 'bocpd',
+            meanBefore,
+            meanAfter
+        };
+    }
+
+    /**
+     * Posterior probability that the current segment began within the last `window` samples
+     */
+    getChangeProbability(): number {
+        return this.changeProbability;
+    }
+
+    /**
+     * Most probable number of samples in the current segment
+     */
+    getRunLength(): number {
+        if (this.logProbabilities.length === 0) return 0;
+        return this.logProbabilities.indexOf(Math.max(...this.logProbabilities)) + 1;
+    }
+
+    /**
+     * Samples since the last reported change, or since the stream began
+     */
+    currentSegment(): ChangePointSegment | null {
+        if (this.sampleCount === 0 || !this.segmentStart.startTime || !this.lastEndTime) return null;
+
+        const weight = this.weight - this.segmentStart.weight;
+        const sum = this.sum - this.segmentStart.sum;
+        const squares = this.squares - this.segmentStart.squares;
+        const deviation = sum / weight;
+
+        return {
+            startIndex: this.segmentStart.index,
+            endIndex: this.sampleCount,
+            startTime: this.segmentStart.startTime,
+            endTime: this.lastEndTime,
+            trialCount: weight,
+            mean: this.options.expectedMean + deviation,
+            standardDeviation: Math.sqrt(Math.max(0, squares - sum * deviation) / (this.sampleCount - this.segmentStart.index)),
+            zScore: deviation * Math.sqrt(weight / this.options.trialVariance)
+        };
+    }
+
+    /**
+     * Forget the stream and start over
+     */
+    reset(): void {
+        this.logProbabilities = [];
+        this.posteriors = [];
+        this.recent = [];
+        this.sampleCount = 0;
+        this.weight = 0;
+        this.sum = 0;
+        this.squares = 0;
+        this.lastEndTime = null;
+        this.changeProbability = 0;
+        this.segmentStart = { index: 0, startTime: null, weight: 0, sum: 0, squares: 0 };
+        this.lastReported = -Infinity;
+    }
+
+    // Private methods
+
+    /**
+     * Log density of a sample mean of weight trials under a segment's posterior predictive
+     */
+    private logPredictive(posterior: SegmentPosterior, deviation: number, weight: number): number {
+        const { mean, kappa, shape, rate } = posterior;
+        const offset = deviation - mean;
+
+        if (this.options.model === 'mean') {
+            const variance = this.options.trialVariance * (kappa + weight) / (kappa * weight);
+            return -0.5 * Math.log(2 * Math.PI * variance) - offset * offset / (2 * variance);
+        }
+
+        // Student t with 2 × shape degrees of freedom
+        const df = 2 * shape;
+        const scale2 = rate * (kappa + weight) / (shape * kappa * weight);
+        return StatisticalUtils.logGamma((df + 1) / 2) - StatisticalUtils.logGamma(df / 2) -
+            0.5 * Math.log(df * Math.PI * scale2) -
+            (df + 1) / 2 * Math.log1p(offset * offset / (df * scale2));
+    }
+
+    private update(posterior: SegmentPosterior, deviation: number, weight: number): SegmentPosterior {
+        const { mean, kappa, shape, rate } = posterior;
+        const offset = deviation - mean;
+
+        return {
+            mean: mean + weight * offset / (kappa + weight),
+            kappa: kappa + weight,
+            shape: shape + 0.5,
+            rate: rate + kappa * weight * offset * offset / (2 * (kappa + weight))
+        };
+    }
+}
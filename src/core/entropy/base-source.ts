@@ -0,0 +1,137 @@
+/**
+ * Shared bookkeeping for entropy sources: open state, counters and
+ * continuous health testing around a raw byte reader
+ */
+
+import { EntropySourceKind, EntropySourceStatus } from '../../shared/types';
+import { EntropySource } from './types';
+import { ContinuousHealthTests } from './health-tests';
+
+/**
+ * Options common to every concrete source
+ */
+export interface EntropySourceOptions {
+    /** Run SP 800-90B continuous health tests on delivered bytes (default true) */
+    healthTests?: boolean;
+
+    /** Assessed min-entropy in bits per byte, used to size the health test cutoffs */
+    minEntropyPerByte?: number;
+}
+
+/**
+ * Base class - subclasses only implement the raw device/generator access
+ */
+export abstract class BaseEntropySource implements EntropySource {
+    abstract readonly name: string;
+    abstract readonly kind: EntropySourceKind;
+
+    protected isOpen: boolean = false;
+    private bytesDelivered: number = 0;
+    private healthFailures: number = 0;
+    private lastError: string | null = null;
+    private healthTests: ContinuousHealthTests | null;
+
+    constructor(options: EntropySourceOptions = {}) {
+        this.healthTests = options.healthTests === false
+            ? null
+            : new ContinuousHealthTests(options.minEntropyPerByte);
+    }
+
+    /**
+     * Acquire the underlying device or generator
+     */
+    async open(): Promise<void> {
+        if (this.isOpen) return;
+
+        try {
+            await this.openSource();
+            this.isOpen = true;
+            this.lastError = null;
+            this.healthTests?.reset();
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to open entropy source ${this.name}: ${this.lastError}`);
+        }
+    }
+
+    /**
+     * Return exactly `length` health-tested random bytes
+     */
+    getBytes(length: number): Uint8Array {
+        if (!this.isOpen) {
+            throw new Error(`Entropy source ${this.name} is not open`);
+        }
+
+        let bytes: Uint8Array;
+        try {
+            bytes = this.readBytes(length);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            throw error;
+        }
+
+        if (bytes.length !== length) {
+            this.lastError = `Expected ${length} bytes, got ${bytes.length}`;
+            throw new Error(`Entropy source ${this.name} short read: ${this.lastError}`);
+        }
+
+        const failure = this.healthTests?.check(bytes) ?? null;
+        if (failure) {
+            this.healthFailures++;
+            this.lastError = failure;
+            throw new Error(`Entropy source ${this.name} ${failure}`);
+        }
+
+        this.bytesDelivered += length;
+        return bytes;
+    }
+
+    /**
+     * Release the underlying device or generator
+     */
+    async close(): Promise<void> {
+        if (!this.isOpen) return;
+
+        this.isOpen = false;
+        await this.closeSource();
+    }
+
+    /**
+     * Current availability and counters
+     */
+    getStatus(): EntropySourceStatus {
+        return {
+            name: this.name,
+            kind: this.kind,
+            available: this.isOpen && this.isAvailable(),
+            bytesDelivered: this.bytesDelivered,
+            healthFailures: this.healthFailures,
+            lastError: this.lastError
+        };
+    }
+
+    /**
+     * Whether bytes can currently be read (e.g. device buffer non-empty)
+     */
+    protected isAvailable(): boolean {
+        return true;
+    }
+
+    /**
+     * Record a device-level error reported outside getBytes()
+     */
+    protected reportError(message: string): void {
+        this.lastError = message;
+    }
+
+    /**
+     * Clear the last error once the device has recovered
+     */
+    protected clearError(): void {
+        this.lastError = null;
+    }
+
+    protected abstract openSource(): Promise<void>;
+    protected abstract readBytes(length: number): Uint8Array;
+    protected abstract closeSource(): Promise<void>;
+}
@@ -0,0 +1,77 @@
+/**
+ * FIFO of received byte chunks, drained synchronously by trials
+ * Shared by the stream-backed sources (file/pipe and serial devices).
+ */
+
+export class ByteQueue {
+    private chunks: Uint8Array[] = [];
+    private chunkOffset: number = 0;
+    private size: number = 0;
+
+    /**
+     * Bytes currently queued
+     */
+    get length(): number {
+        return this.size;
+    }
+
+    /**
+     * Append a received chunk
+     */
+    push(chunk: Uint8Array): void {
+        if (chunk.length === 0) return;
+
+        this.chunks.push(chunk);
+        this.size += chunk.length;
+    }
+
+    /**
+     * Remove and return exactly `length` bytes (caller checks `length` first)
+     */
+    take(length: number): Uint8Array {
+        if (length > this.size) {
+            throw new Error(`Cannot take ${length} bytes, only ${this.size} queued`);
+        }
+
+        const bytes = new Uint8Array(length);
+        let written = 0;
+
+        while (written < length) {
+            const chunk = this.chunks[0];
+            const count = Math.min(chunk.length - this.chunkOffset, length - written);
+            bytes.set(chunk.subarray(this.chunkOffset, this.chunkOffset + count), written);
+
+            written += count;
+            this.chunkOffset += count;
+            if (this.chunkOffset >= chunk.length) {
+                this.chunks.shift();
+                this.chunkOffset = 0;
+            }
+        }
+
+        this.size -= length;
+        return bytes;
+    }
+
+    /**
+     * Drop queued bytes so only whole multiples of `frameSize` remain
+     */
+    truncateToFrames(frameSize: number): void {
+        const excess = this.size % frameSize;
+        if (excess === 0) return;
+
+        // Rebuild without the trailing partial frame
+        const keep = this.take(this.size - excess);
+        this.clear();
+        this.push(keep);
+    }
+
+    /**
+     * Drop everything
+     */
+    clear(): void {
+        this.chunks = [];
+        this.chunkOffset = 0;
+        this.size = 0;
+    }
+}
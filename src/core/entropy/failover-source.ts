@@ -0,0 +1,222 @@
+/**
+ * Failover entropy source
+ *
+ * Draws from a primary source and switches to a backup as soon as the
+ * primary throws - device errors, buffer underruns and health test failures
+ * all count. Optionally reopens the primary after a delay and switches back
+ * once it delivers healthy bytes again.
+ */
+
+import { EntropySourceStatus } from '../../shared/types';
+import { EntropySource } from './types';
+
+/**
+ * A switch between primary and backup
+ */
+export interface EntropyFailoverEvent {
+    timestamp: Date;
+    from: string;
+    to: string;
+    reason: string;
+}
+
+export interface FailoverEntropySourceOptions {
+    /** Delay before retrying a failed primary (ms, 0 = stay on backup) */
+    primaryRetryInterval?: number;
+}
+
+export class FailoverEntropySource implements EntropySource {
+    readonly name: string;
+    readonly kind = 'failover' as const;
+
+    private readonly primary: EntropySource;
+    private readonly backup: EntropySource;
+    private readonly primaryRetryInterval: number;
+
+    private active: EntropySource;
+    private isOpen: boolean = false;
+    private failoverCount: number = 0;
+    private lastError: string | null = null;
+    private retryTimeout: NodeJS.Timeout | null = null;
+    private listeners: Array<(event: EntropyFailoverEvent) => void> = [];
+
+    constructor(primary: EntropySource, backup: EntropySource, options: FailoverEntropySourceOptions = {}) {
+        this.primary = primary;
+        this.backup = backup;
+        this.active = primary;
+        this.name = `${primary.name} -> ${backup.name}`;
+        this.primaryRetryInterval = options.primaryRetryInterval ?? 60000;
+    }
+
+    /**
+     * Open both sources; start on the backup if the primary cannot be opened
+     */
+    async open(): Promise<void> {
+        if (this.isOpen) return;
+
+        await this.backup.open();
+        this.isOpen = true;
+        this.active = this.primary;
+
+        try {
+            await this.primary.open();
+        } catch (error) {
+            this.failover(error);
+        }
+    }
+
+    /**
+     * Bytes from the active source, failing over on any primary error
+     */
+    getBytes(length: number): Uint8Array {
+        if (!this.isOpen) {
+            throw new Error(`Entropy source ${this.name} is not open`);
+        }
+
+        if (this.active === this.primary) {
+            try {
+                return this.primary.getBytes(length);
+            } catch (error) {
+                this.failover(error);
+            }
+        }
+
+        try {
+            return this.backup.getBytes(length);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            throw new Error(`Backup entropy source ${this.backup.name} failed: ${this.lastError}`);
+        }
+    }
+
+    /**
+     * Close both sources and cancel any pending primary retry
+     */
+    async close(): Promise<void> {
+        if (!this.isOpen) return;
+
+        this.isOpen = false;
+        this.clearRetry();
+        await Promise.all([this.primary.close(), this.backup.close()]);
+    }
+
+    /**
+     * Status of the failover pair, including the source in use
+     */
+    getStatus(): EntropySourceStatus {
+        const activeStatus = this.active.getStatus();
+        const primaryStatus = this.primary.getStatus();
+        const backupStatus = this.backup.getStatus();
+
+        return {
+            name: this.name,
+            kind: this.kind,
+            available: this.isOpen && activeStatus.available,
+            bytesDelivered: primaryStatus.bytesDelivered + backupStatus.bytesDelivered,
+            healthFailures: primaryStatus.healthFailures + backupStatus.healthFailures,
+            lastError: this.lastError,
+            activeSource: activeStatus,
+            failoverCount: this.failoverCount,
+            usingBackup: this.active === this.backup
+        };
+    }
+
+    /**
+     * Whether the backup is currently in use
+     */
+    isOnBackup(): boolean {
+        return this.active === this.backup;
+    }
+
+    /**
+     * Add listener for switches between primary and backup
+     */
+    addFailoverListener(listener: (event: EntropyFailoverEvent) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Remove failover listener
+     */
+    removeFailoverListener(listener: (event: EntropyFailoverEvent) => void): void {
+        const index = this.listeners.indexOf(listener);
+        if (index > -1) {
+            this.listeners.splice(index, 1);
+        }
+    }
+
+    private failover(error: unknown): void {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.lastError = reason;
+        this.active = this.backup;
+        this.failoverCount++;
+
+        console.warn(`Entropy source failover: ${this.primary.name} -> ${this.backup.name} (${reason})`);
+        this.notifyListeners({
+            timestamp: new Date(),
+            from: this.primary.name,
+            to: this.backup.name,
+            reason
+        });
+
+        this.scheduleRetry();
+    }
+
+    private scheduleRetry(): void {
+        if (this.primaryRetryInterval <= 0 || this.retryTimeout) return;
+
+        this.retryTimeout = setTimeout(() => {
+            this.retryTimeout = null;
+            this.retryPrimary().catch(error => {
+                console.error('Entropy source retry failed:', error);
+            });
+        }, this.primaryRetryInterval);
+    }
+
+    /**
+     * Reopen the primary and switch back if it delivers healthy bytes
+     */
+    private async retryPrimary(): Promise<void> {
+        if (!this.isOpen || this.active === this.primary) return;
+
+        try {
+            await this.primary.close();
+            await this.primary.open();
+
+            // Probe with a full trial's worth of bytes before trusting it again
+            this.primary.getBytes(25);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            this.scheduleRetry();
+            return;
+        }
+
+        if (!this.isOpen) return;
+
+        this.active = this.primary;
+        console.log(`Entropy source restored: ${this.primary.name}`);
+        this.notifyListeners({
+            timestamp: new Date(),
+            from: this.backup.name,
+            to: this.primary.name,
+            reason: 'primary source recovered'
+        });
+    }
+
+    private clearRetry(): void {
+        if (this.retryTimeout) {
+            clearTimeout(this.retryTimeout);
+            this.retryTimeout = null;
+        }
+    }
+
+    private notifyListeners(event: EntropyFailoverEvent): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Error in failover listener:', error);
+            }
+        });
+    }
+}
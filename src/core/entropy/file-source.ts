@@ -0,0 +1,156 @@
+/**
+ * File/pipe entropy source
+ *
+ * Streams bytes from a character device (e.g. /dev/hwrng) or a FIFO fed by
+ * an external hardware REG into an in-memory buffer. Trials draw from the
+ * buffer synchronously; an empty buffer is reported as an underrun so the
+ * failover source can take over. FIFOs are reopened when the writer
+ * disconnects.
+ */
+
+import * as fs from 'fs';
+import { BaseEntropySource, EntropySourceOptions } from './base-source';
+import { ByteQueue } from './byte-queue';
+
+export interface FileEntropySourceOptions extends EntropySourceOptions {
+    /** Stop reading once this many bytes are buffered (default 64 KiB) */
+    maxBufferedBytes?: number;
+
+    /** Time to wait for the first bytes when opening (ms, default 5000) */
+    openTimeout?: number;
+}
+
+export class FileEntropySource extends BaseEntropySource {
+    readonly name: string;
+    readonly kind = 'file' as const;
+
+    private readonly path: string;
+    private readonly maxBufferedBytes: number;
+    private readonly openTimeout: number;
+
+    private stream: fs.ReadStream | null = null;
+    private buffer: ByteQueue = new ByteQueue();
+    private isFifo: boolean = false;
+    private ended: boolean = false;
+
+    constructor(path: string, options: FileEntropySourceOptions = {}) {
+        super(options);
+        this.path = path;
+        this.name = path;
+        this.maxBufferedBytes = options.maxBufferedBytes ?? 65536;
+        this.openTimeout = options.openTimeout ?? 5000;
+    }
+
+    /**
+     * Bytes currently buffered and ready for trials
+     */
+    getBufferedBytes(): number {
+        return this.buffer.length;
+    }
+
+    protected async openSource(): Promise<void> {
+        const stats = await fs.promises.stat(this.path);
+        if (stats.isDirectory()) {
+            throw new Error(`${this.path} is a directory`);
+        }
+
+        this.isFifo = stats.isFIFO();
+        this.ended = false;
+        this.buffer.clear();
+
+        await this.startStream();
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        if (this.buffer.length < length) {
+            throw new Error(
+                this.ended
+                    ? `Entropy source ${this.path} is exhausted`
+                    : `Entropy source ${this.path} buffer underrun (${this.buffer.length}/${length} bytes)`
+            );
+        }
+
+        const bytes = this.buffer.take(length);
+
+        // Refill once the buffer has drained below half
+        if (this.stream && this.stream.isPaused() && this.buffer.length < this.maxBufferedBytes / 2) {
+            this.stream.resume();
+        }
+
+        return bytes;
+    }
+
+    protected async closeSource(): Promise<void> {
+        this.stopStream();
+        this.buffer.clear();
+    }
+
+    protected isAvailable(): boolean {
+        return this.buffer.length > 0 || (this.stream !== null && !this.ended);
+    }
+
+    /**
+     * Open the read stream and wait for the first bytes
+     */
+    private startStream(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const stream = fs.createReadStream(this.path, { highWaterMark: 4096 });
+            let settled = false;
+
+            const timeout = setTimeout(() => {
+                if (settled) return;
+                settled = true;
+                stream.destroy();
+                reject(new Error(`No data from ${this.path} within ${this.openTimeout}ms`));
+            }, this.openTimeout);
+
+            stream.on('data', (chunk: Buffer | string) => {
+                this.buffer.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+
+                if (this.buffer.length >= this.maxBufferedBytes) {
+                    stream.pause();
+                }
+
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timeout);
+                    resolve();
+                }
+            });
+
+            stream.on('error', error => {
+                this.reportError(error.message);
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timeout);
+                    reject(error);
+                }
+            });
+
+            stream.on('end', () => {
+                if (stream !== this.stream) return;
+                this.stream = null;
+
+                // A FIFO writer disconnected - wait for the next one
+                if (this.isFifo && this.isOpen) {
+                    this.startStream().catch(error => {
+                        this.ended = true;
+                        this.reportError(error instanceof Error ? error.message : String(error));
+                    });
+                } else {
+                    this.ended = true;
+                }
+            });
+
+            this.stream = stream;
+        });
+    }
+
+    private stopStream(): void {
+        if (this.stream) {
+            const stream = this.stream;
+            this.stream = null;
+            stream.destroy();
+        }
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Continuous entropy health tests (NIST SP 800-90B, section 4.4)
+ *
+ * Run over every byte a source delivers so a stuck or heavily biased
+ * device is caught within a handful of trials rather than after a session.
+ * - Repetition Count Test: flags runs of one identical byte
+ * - Adaptive Proportion Test: flags one byte value dominating a window
+ */
+
+/**
+ * Probability that a healthy source trips a test on any given sample
+ */
+const FALSE_POSITIVE_RATE = Math.pow(2, -30);
+
+/**
+ * Adaptive proportion window for non-binary (byte) samples
+ */
+const APT_WINDOW_SIZE = 512;
+
+/**
+ * Health tests over a byte stream with a configurable min-entropy estimate
+ */
+export class ContinuousHealthTests {
+    private readonly repetitionCutoff: number;
+    private readonly proportionCutoff: number;
+
+    // Repetition count state
+    private lastByte: number = -1;
+    private repetitionCount: number = 0;
+
+    // Adaptive proportion state
+    private windowReference: number = -1;
+    private windowPosition: number = 0;
+    private windowMatches: number = 0;
+
+    /**
+     * @param minEntropyPerByte assessed min-entropy in bits per byte (8 = full entropy)
+     */
+    constructor(minEntropyPerByte: number = 8) {
+        const entropy = Math.min(Math.max(minEntropyPerByte, 0.5), 8);
+        const alphaBits = -Math.log2(FALSE_POSITIVE_RATE);
+
+        this.repetitionCutoff = 1 + Math.ceil(alphaBits / entropy);
+        this.proportionCutoff = binomialCriticalValue(APT_WINDOW_SIZE, Math.pow(2, -entropy), FALSE_POSITIVE_RATE);
+    }
+
+    /**
+     * Feed bytes through both tests
+     * Returns a failure description, or null when the bytes look healthy
+     */
+    check(bytes: Uint8Array): string | null {
+        for (let i = 0; i < bytes.length; i++) {
+            const byte = bytes[i];
+
+            // Repetition Count Test
+            if (byte === this.lastByte) {
+                this.repetitionCount++;
+                if (this.repetitionCount >= this.repetitionCutoff) {
+                    const count = this.repetitionCount;
+                    this.reset();
+                    return `repetition count test failed: byte 0x${byte.toString(16).padStart(2, '0')} repeated ${count} times`;
+                }
+            } else {
+                this.lastByte = byte;
+                this.repetitionCount = 1;
+            }
+
+            // Adaptive Proportion Test
+            if (this.windowPosition === 0) {
+                this.windowReference = byte;
+                this.windowMatches = 1;
+                this.windowPosition = 1;
+            } else {
+                if (byte === this.windowReference) {
+                    this.windowMatches++;
+                    if (this.windowMatches >= this.proportionCutoff) {
+                        const matches = this.windowMatches;
+                        const reference = this.windowReference;
+                        this.reset();
+                        return `adaptive proportion test failed: byte 0x${reference.toString(16).padStart(2, '0')} ` +
+                            `appeared ${matches} times in a ${APT_WINDOW_SIZE}-byte window`;
+                    }
+                }
+
+                this.windowPosition++;
+                if (this.windowPosition >= APT_WINDOW_SIZE) {
+                    this.windowPosition = 0;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Cutoffs in use, for diagnostics
+     */
+    getCutoffs(): { repetitionCount: number; adaptiveProportion: number; windowSize: number } {
+        return {
+            repetitionCount: this.repetitionCutoff,
+            adaptiveProportion: this.proportionCutoff,
+            windowSize: APT_WINDOW_SIZE
+        };
+    }
+
+    /**
+     * Clear test state (after a failure or when a source is reopened)
+     */
+    reset(): void {
+        this.lastByte = -1;
+        this.repetitionCount = 0;
+        this.windowReference = -1;
+        this.windowPosition = 0;
+        this.windowMatches = 0;
+    }
+}
+
+/**
+ * Smallest c with P(X >= c) <= alpha for X ~ Binomial(n, p)
+ */
+function binomialCriticalValue(n: number, p: number, alpha: number): number {
+    const logP = Math.log(p);
+    const logQ = Math.log(1 - p);
+
+    // Log of each pmf term, accumulated from the upper tail downwards
+    const logPmf: number[] = new Array(n + 1);
+    let logCoefficient = 0;
+    for (let k = 0; k <= n; k++) {
+        if (k > 0) {
+            logCoefficient += Math.log(n - k + 1) - Math.log(k);
+        }
+        logPmf[k] = logCoefficient + k * logP + (n - k) * logQ;
+    }
+
+    let upperTail = 0;
+    for (let c = n; c >= 1; c--) {
+        upperTail += Math.exp(logPmf[c]);
+        if (upperTail > alpha) {
+            return c + 1;
+        }
+    }
+
+    return 1;
+}
@@ -0,0 +1,53 @@
+/**
+ * Hybrid entropy source - XOR of a hardware source and a software CSPRNG
+ *
+ * The output is at least as unpredictable as the better of the two inputs,
+ * while the hardware source's own health tests still catch a failing device.
+ */
+
+import { EntropySource } from './types';
+import { BaseEntropySource } from './base-source';
+
+export class HybridEntropySource extends BaseEntropySource {
+    readonly name: string;
+    readonly kind = 'hybrid' as const;
+
+    private readonly hardware: EntropySource;
+    private readonly software: EntropySource;
+
+    constructor(hardware: EntropySource, software: EntropySource) {
+        // Inputs run their own health tests; the XOR output needs none
+        super({ healthTests: false });
+        this.hardware = hardware;
+        this.software = software;
+        this.name = `${hardware.name} ^ ${software.name}`;
+    }
+
+    protected async openSource(): Promise<void> {
+        await this.software.open();
+        try {
+            await this.hardware.open();
+        } catch (error) {
+            await this.software.close();
+            throw error;
+        }
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        const bytes = this.hardware.getBytes(length);
+        const mask = this.software.getBytes(length);
+
+        for (let i = 0; i < length; i++) {
+            bytes[i] ^= mask[i];
+        }
+        return bytes;
+    }
+
+    protected async closeSource(): Promise<void> {
+        await Promise.all([this.hardware.close(), this.software.close()]);
+    }
+
+    protected isAvailable(): boolean {
+        return this.hardware.getStatus().available && this.software.getStatus().available;
+    }
+}
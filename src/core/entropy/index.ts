@@ -0,0 +1,136 @@
+/**
+ * Entropy sources for the RNG engine
+ *
+ * Main-process entry point: builds the primary/backup source pair from the
+ * RNG settings. The renderer should only import webcrypto-source directly,
+ * since the other sources depend on Node modules.
+ */
+
+import { EntropySourceConfig, EntropySourceStatus } from '../../shared/types';
+import { EntropySource } from './types';
+import { WebCryptoEntropySource } from './webcrypto-source';
+import { NodeCryptoEntropySource } from './node-crypto-source';
+import { FileEntropySource } from './file-source';
+import { SerialEntropySource } from './serial-source';
+import { SeededEntropySource } from './seeded-source';
+import { HybridEntropySource } from './hybrid-source';
+import { FailoverEntropySource } from './failover-source';
+
+export type { EntropySource } from './types';
+export { BaseEntropySource, type EntropySourceOptions } from './base-source';
+export { ContinuousHealthTests } from './health-tests';
+export { WebCryptoEntropySource } from './webcrypto-source';
+export { NodeCryptoEntropySource } from './node-crypto-source';
+export { FileEntropySource, type FileEntropySourceOptions } from './file-source';
+export {
+    SerialEntropySource,
+    TRIAL_FRAME_BYTES,
+    type SerialEntropySourceOptions,
+    type SerialConnectionEvent
+} from './serial-source';
+export { TRNGSimulator, type TRNGSimulatorMode, type TRNGSimulatorOptions } from './trng-simulator';
+export { SeededEntropySource } from './seeded-source';
+export { HybridEntropySource } from './hybrid-source';
+export {
+    FailoverEntropySource,
+    type EntropyFailoverEvent,
+    type FailoverEntropySourceOptions
+} from './failover-source';
+
+/**
+ * Default hardware RNG device on Linux
+ */
+export const DEFAULT_HARDWARE_DEVICE = '/dev/hwrng';
+
+/**
+ * Default source selection: OS CSPRNG with WebCrypto as backup
+ */
+export const DEFAULT_ENTROPY_CONFIG: EntropySourceConfig = {
+    engine: 'software',
+    backupEngine: 'software'
+};
+
+/**
+ * Serial device paths: /dev/tty*, macOS /dev/cu.*, by-id links and Windows COM ports
+ */
+const SERIAL_DEVICE_PATTERN = /^(\/dev\/(tty|cu\.|serial\/)|(\\\\\.\\)?COM\d+$)/i;
+
+/**
+ * Build the entropy source described by the RNG settings
+ * - hardware: serial TRNG or file/pipe device, software: crypto.randomBytes, hybrid: both XOR-mixed
+ * - the backup is a separate instance so a failing primary never takes it down too
+ * - a seed replaces everything with a deterministic generator (tests only)
+ */
+export function createEntropySource(config: EntropySourceConfig = DEFAULT_ENTROPY_CONFIG): EntropySource {
+    if (config.seed !== undefined) {
+        return new SeededEntropySource(config.seed);
+    }
+
+    const devicePath = config.devicePath || DEFAULT_HARDWARE_DEVICE;
+    const useSerial = config.hardwareInterface
+        ? config.hardwareInterface === 'serial'
+        : SERIAL_DEVICE_PATTERN.test(devicePath);
+    const createHardware = (): EntropySource => useSerial
+        ? new SerialEntropySource(devicePath, { baudRate: config.baudRate })
+        : new FileEntropySource(devicePath);
+
+    let primary: EntropySource;
+    switch (config.engine) {
+        case 'hardware':
+            primary = createHardware();
+            break;
+        case 'hybrid':
+            primary = new HybridEntropySource(createHardware(), new NodeCryptoEntropySource());
+            break;
+        case 'software':
+        default:
+            primary = new NodeCryptoEntropySource();
+            break;
+    }
+
+    const backup = config.backupEngine === 'hardware'
+        ? createHardware()
+        : new WebCryptoEntropySource();
+
+    return new FailoverEntropySource(primary, backup, {
+        primaryRetryInterval: config.primaryRetryInterval
+    });
+}
+
+/**
+ * Entropy source selection - RNG_ENTROPY_ENGINE (hardware | software | hybrid),
+ * RNG_ENTROPY_BACKUP (hardware | software), RNG_HARDWARE_DEVICE,
+ * RNG_HARDWARE_INTERFACE (file | serial) and RNG_SERIAL_BAUD override the defaults
+ */
+export function getEntropyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EntropySourceConfig {
+    const engine = env.RNG_ENTROPY_ENGINE;
+    const backupEngine = env.RNG_ENTROPY_BACKUP;
+    const hardwareInterface = env.RNG_HARDWARE_INTERFACE;
+    const baudRate = Number(env.RNG_SERIAL_BAUD);
+
+    return {
+        ...DEFAULT_ENTROPY_CONFIG,
+        ...(engine === 'hardware' || engine === 'software' || engine === 'hybrid' ? { engine } : {}),
+        ...(backupEngine === 'hardware' || backupEngine === 'software' ? { backupEngine } : {}),
+        ...(hardwareInterface === 'file' || hardwareInterface === 'serial' ? { hardwareInterface } : {}),
+        devicePath: env.RNG_HARDWARE_DEVICE || undefined,
+        baudRate: baudRate > 0 ? baudRate : undefined
+    };
+}
+
+/**
+ * Map an entropy source status onto HealthStatus.rngStatus
+ * - error: no source can deliver bytes
+ * - warning: running on the backup, or the source reported health failures/errors
+ */
+export function getEntropyHealth(status: EntropySourceStatus | undefined): 'healthy' | 'warning' | 'error' {
+    if (!status) return 'healthy';
+    if (!status.available) return 'error';
+    if (status.usingBackup) return 'warning';
+
+    const active = status.activeSource ?? status;
+    if (!active.available) return 'error';
+    if (active.lastError) return 'warning';
+
+    return 'healthy';
+}
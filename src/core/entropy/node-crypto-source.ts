@@ -0,0 +1,32 @@
+/**
+ * Node entropy source - crypto.randomBytes() from the OS CSPRNG
+ * Main process only; the renderer has no access to Node's crypto module.
+ */
+
+import { randomBytes } from 'crypto';
+import { BaseEntropySource, EntropySourceOptions } from './base-source';
+
+export class NodeCryptoEntropySource extends BaseEntropySource {
+    readonly name = 'crypto.randomBytes';
+    readonly kind = 'node-crypto' as const;
+
+    constructor(options: EntropySourceOptions = {}) {
+        super(options);
+
+        // No device to acquire - usable without open()
+        this.isOpen = true;
+    }
+
+    protected async openSource(): Promise<void> {
+        // Fail early if the OS CSPRNG is unavailable
+        randomBytes(1);
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        return new Uint8Array(randomBytes(length));
+    }
+
+    protected async closeSource(): Promise<void> {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Deterministic seeded entropy source (xoshiro128**)
+ *
+ * For tests and reproducible simulations only - the same seed always yields
+ * the same byte stream, so it must never back a real experiment.
+ */
+
+import { BaseEntropySource, EntropySourceOptions } from './base-source';
+
+export class SeededEntropySource extends BaseEntropySource {
+    readonly name: string;
+    readonly kind = 'seeded' as const;
+
+    private readonly seed: string | number;
+    private state: Uint32Array = new Uint32Array(4);
+
+    // Leftover bytes from the last 32-bit output
+    private pending: number = 0;
+    private pendingBytes: number = 0;
+
+    constructor(seed: string | number, options: EntropySourceOptions = {}) {
+        super(options);
+        this.seed = seed;
+        this.name = `seeded(${seed})`;
+        this.reseed();
+
+        // No device to acquire - usable without open()
+        this.isOpen = true;
+    }
+
+    /**
+     * Restart the stream from the seed
+     */
+    reseed(): void {
+        let x = hashSeed(String(this.seed));
+        for (let i = 0; i < 4; i++) {
+            // splitmix32 to spread the seed over the state words
+            x = (x + 0x9e3779b9) >>> 0;
+            let z = x;
+            z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+            z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+            this.state[i] = (z ^ (z >>> 16)) >>> 0;
+        }
+        this.pending = 0;
+        this.pendingBytes = 0;
+    }
+
+    protected async openSource(): Promise<void> {
+        this.reseed();
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        const bytes = new Uint8Array(length);
+        for (let i = 0; i < length; i++) {
+            if (this.pendingBytes === 0) {
+                this.pending = this.next();
+                this.pendingBytes = 4;
+            }
+            bytes[i] = this.pending & 0xff;
+            this.pending >>>= 8;
+            this.pendingBytes--;
+        }
+        return bytes;
+    }
+
+    protected async closeSource(): Promise<void> {
+        // Nothing to release
+    }
+
+    /**
+     * Next 32-bit xoshiro128** output
+     */
+    private next(): number {
+        const s = this.state;
+        const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+        const t = s[1] << 9;
+
+        s[2] ^= s[0];
+        s[3] ^= s[1];
+        s[1] ^= s[2];
+        s[0] ^= s[3];
+        s[2] ^= t;
+        s[3] = rotl(s[3], 11);
+
+        return result;
+    }
+}
+
+function rotl(x: number, k: number): number {
+    return ((x << k) | (x >>> (32 - k))) >>> 0;
+}
+
+/**
+ * FNV-1a hash of the seed text
+ */
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+}
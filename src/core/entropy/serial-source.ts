@@ -0,0 +1,297 @@
+/**
+ * Serial-port true RNG driver (TrueRNG / OneRNG / Orion style devices)
+ *
+ * USB TRNGs enumerate as a serial port (/dev/ttyACM0, /dev/cu.usbmodem*, ...)
+ * and stream raw noise bytes continuously. The driver:
+ * - puts the tty in raw mode so the line discipline never rewrites bytes
+ * - buffers the stream and hands it out in whole 200-bit (25-byte) frames
+ * - detects unplugs/read errors, reports them and reconnects in the background
+ *
+ * While disconnected getBytes() throws, so a FailoverEntropySource keeps the
+ * engine running on its backup until the device comes back.
+ */
+
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { BaseEntropySource, EntropySourceOptions } from './base-source';
+import { ByteQueue } from './byte-queue';
+
+/**
+ * Bytes per trial frame (200 bits)
+ */
+export const TRIAL_FRAME_BYTES = 25;
+
+export interface SerialEntropySourceOptions extends EntropySourceOptions {
+    /** Line speed passed to stty (USB CDC devices ignore it; default 115200) */
+    baudRate?: number;
+
+    /** Configure the port with stty before reading (default true except on Windows) */
+    configureTty?: boolean;
+
+    /** Delay between reconnect attempts after a disconnect (ms, default 2000) */
+    reconnectInterval?: number;
+
+    /** Stop reading once this many bytes are buffered (default 64 KiB) */
+    maxBufferedBytes?: number;
+
+    /** Time to wait for the first bytes when connecting (ms, default 5000) */
+    openTimeout?: number;
+}
+
+/**
+ * Device connection change reported to listeners
+ */
+export interface SerialConnectionEvent {
+    timestamp: Date;
+    connected: boolean;
+    device: string;
+    reason: string | null;
+}
+
+export class SerialEntropySource extends BaseEntropySource {
+    readonly name: string;
+    readonly kind = 'serial' as const;
+
+    private readonly devicePath: string;
+    private readonly baudRate: number;
+    private readonly configureTty: boolean;
+    private readonly reconnectInterval: number;
+    private readonly maxBufferedBytes: number;
+    private readonly openTimeout: number;
+
+    private stream: fs.ReadStream | null = null;
+    private buffer: ByteQueue = new ByteQueue();
+    private connected: boolean = false;
+    private disconnectCount: number = 0;
+    private reconnectTimeout: NodeJS.Timeout | null = null;
+    private listeners: Array<(event: SerialConnectionEvent) => void> = [];
+
+    constructor(devicePath: string, options: SerialEntropySourceOptions = {}) {
+        super(options);
+        this.devicePath = devicePath;
+        this.name = devicePath;
+        this.baudRate = options.baudRate ?? 115200;
+        this.configureTty = options.configureTty ?? process.platform !== 'win32';
+        this.reconnectInterval = options.reconnectInterval ?? 2000;
+        this.maxBufferedBytes = options.maxBufferedBytes ?? 65536;
+        this.openTimeout = options.openTimeout ?? 5000;
+    }
+
+    /**
+     * Whether the device is currently streaming
+     */
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Number of disconnects since the source was created
+     */
+    getDisconnectCount(): number {
+        return this.disconnectCount;
+    }
+
+    /**
+     * Whole trial frames currently buffered
+     */
+    getBufferedFrames(): number {
+        return Math.floor(this.buffer.length / TRIAL_FRAME_BYTES);
+    }
+
+    /**
+     * Add listener for connect/disconnect events
+     */
+    addConnectionListener(listener: (event: SerialConnectionEvent) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Remove connection listener
+     */
+    removeConnectionListener(listener: (event: SerialConnectionEvent) => void): void {
+        const index = this.listeners.indexOf(listener);
+        if (index > -1) {
+            this.listeners.splice(index, 1);
+        }
+    }
+
+    protected async openSource(): Promise<void> {
+        this.buffer.clear();
+        await this.connect();
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        if (this.buffer.length < length) {
+            throw new Error(
+                this.connected
+                    ? `Serial TRNG ${this.devicePath} buffer underrun (${this.buffer.length}/${length} bytes)`
+                    : `Serial TRNG ${this.devicePath} is disconnected`
+            );
+        }
+
+        const bytes = this.buffer.take(length);
+
+        // Refill once the buffer has drained below half
+        if (this.stream && this.stream.isPaused() && this.buffer.length < this.maxBufferedBytes / 2) {
+            this.stream.resume();
+        }
+
+        return bytes;
+    }
+
+    protected async closeSource(): Promise<void> {
+        this.clearReconnect();
+        this.stopStream();
+        this.buffer.clear();
+        this.connected = false;
+    }
+
+    protected isAvailable(): boolean {
+        return this.connected || this.buffer.length >= TRIAL_FRAME_BYTES;
+    }
+
+    /**
+     * Configure the port and wait for the first bytes
+     */
+    private async connect(): Promise<void> {
+        await fs.promises.access(this.devicePath, fs.constants.R_OK);
+
+        if (this.configureTty) {
+            await this.runStty();
+        }
+
+        await this.startStream();
+        this.connected = true;
+        this.clearError();
+        this.notifyListeners(true, null);
+
+        console.log(`Serial TRNG connected: ${this.devicePath}`);
+    }
+
+    /**
+     * Put the tty in raw mode: no echo, no CR/LF translation, no signal characters
+     */
+    private runStty(): Promise<void> {
+        const deviceFlag = process.platform === 'darwin' ? '-f' : '-F';
+        const args = [deviceFlag, this.devicePath, 'raw', '-echo', String(this.baudRate)];
+
+        return new Promise((resolve, reject) => {
+            execFile('stty', args, { timeout: this.openTimeout }, (error, _stdout, stderr) => {
+                if (error) {
+                    reject(new Error(`stty failed for ${this.devicePath}: ${stderr.trim() || error.message}`));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    private startStream(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const stream = fs.createReadStream(this.devicePath, { highWaterMark: 4096 });
+            let settled = false;
+
+            const timeout = setTimeout(() => {
+                if (settled) return;
+                settled = true;
+                this.stream = null;
+                stream.destroy();
+                reject(new Error(`No data from ${this.devicePath} within ${this.openTimeout}ms`));
+            }, this.openTimeout);
+
+            stream.on('data', (chunk: Buffer | string) => {
+                this.buffer.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+
+                if (this.buffer.length >= this.maxBufferedBytes) {
+                    stream.pause();
+                }
+
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timeout);
+                    resolve();
+                }
+            });
+
+            stream.on('error', error => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timeout);
+                    this.stream = null;
+                    reject(error);
+                    return;
+                }
+                this.handleDisconnect(stream, error.message);
+            });
+
+            // A tty never ends on its own - EOF means the device went away
+            stream.on('end', () => this.handleDisconnect(stream, 'end of stream'));
+
+            this.stream = stream;
+        });
+    }
+
+    private handleDisconnect(stream: fs.ReadStream, reason: string): void {
+        if (stream !== this.stream) return;
+
+        this.stopStream();
+        this.connected = false;
+        this.disconnectCount++;
+
+        // A frame interrupted by the disconnect must not be completed with bytes from the next connection
+        this.buffer.truncateToFrames(TRIAL_FRAME_BYTES);
+
+        const message = `Serial TRNG ${this.devicePath} disconnected: ${reason}`;
+        this.reportError(message);
+        console.warn(message);
+        this.notifyListeners(false, reason);
+
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.isOpen || this.reconnectTimeout || this.reconnectInterval <= 0) return;
+
+        this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null;
+            if (!this.isOpen || this.connected) return;
+
+            this.connect().catch(error => {
+                this.reportError(`Serial TRNG reconnect failed: ${error instanceof Error ? error.message : String(error)}`);
+                this.scheduleReconnect();
+            });
+        }, this.reconnectInterval);
+    }
+
+    private clearReconnect(): void {
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = null;
+        }
+    }
+
+    private stopStream(): void {
+        if (this.stream) {
+            const stream = this.stream;
+            this.stream = null;
+            stream.destroy();
+        }
+    }
+
+    private notifyListeners(connected: boolean, reason: string | null): void {
+        const event: SerialConnectionEvent = {
+            timestamp: new Date(),
+            connected,
+            device: this.devicePath,
+            reason
+        };
+
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Error in serial connection listener:', error);
+            }
+        });
+    }
+}
@@ -0,0 +1,202 @@
+/**
+ * Serial TRNG simulator
+ *
+ * Creates a pseudo-terminal that behaves like a USB TRNG: the slave side is
+ * a real tty the SerialEntropySource can open, configure and read, while the
+ * master side is fed with noise bytes. Node has no pty API, so a small
+ * python3 helper (standard on Linux/macOS) owns the pty pair.
+ *
+ * Modes let tests reproduce device faults:
+ * - random: os.urandom() noise at the configured rate
+ * - stuck:  constant zero bytes (fails the health tests)
+ * - silent: no output (buffer underrun)
+ * stop() closes the pty, which the driver sees as an unplug.
+ */
+
+import * as fs from 'fs';
+import { spawn, ChildProcess } from 'child_process';
+
+export type TRNGSimulatorMode = 'random' | 'stuck' | 'silent';
+
+export interface TRNGSimulatorOptions {
+    /** Output rate (default 8000 bytes/s, roughly a TrueRNG v3) */
+    bytesPerSecond?: number;
+
+    /** Initial output mode (default 'random') */
+    mode?: TRNGSimulatorMode;
+
+    /** Stable symlink to the current pty, like /dev/serial/by-id/... (survives restarts) */
+    linkPath?: string;
+
+    /** Python interpreter (default 'python3') */
+    pythonPath?: string;
+}
+
+/**
+ * Helper run by python3: prints the slave tty path, then streams bytes into
+ * the master until stdin closes. Mode changes arrive as lines on stdin.
+ */
+const PTY_HELPER = `
+import os, pty, select, sys, tty
+rate = int(sys.argv[1])
+mode = sys.argv[2]
+master, slave = pty.openpty()
+tty.setraw(slave)
+os.set_blocking(master, False)
+sys.stdout.write(os.ttyname(slave) + "\\n")
+sys.stdout.flush()
+chunk = max(1, rate // 50)
+while True:
+    ready, _, _ = select.select([0], [], [], 0.02)
+    if ready:
+        data = os.read(0, 256)
+        if not data:
+            break
+        lines = data.decode().split()
+        if lines:
+            mode = lines[-1]
+    if mode == "random":
+        out = os.urandom(chunk)
+    elif mode == "stuck":
+        out = bytes(chunk)
+    else:
+        continue
+    try:
+        os.write(master, out)
+    except OSError:
+        pass
+`;
+
+export class TRNGSimulator {
+    private readonly bytesPerSecond: number;
+    private readonly linkPath: string | null;
+    private readonly pythonPath: string;
+
+    private mode: TRNGSimulatorMode;
+    private process: ChildProcess | null = null;
+    private devicePath: string | null = null;
+
+    constructor(options: TRNGSimulatorOptions = {}) {
+        this.bytesPerSecond = options.bytesPerSecond ?? 8000;
+        this.mode = options.mode ?? 'random';
+        this.linkPath = options.linkPath ?? null;
+        this.pythonPath = options.pythonPath ?? 'python3';
+    }
+
+    /**
+     * Create the pty and start streaming
+     * Returns the path to open (the symlink when linkPath is set)
+     */
+    start(): Promise<string> {
+        if (this.process) {
+            return Promise.resolve(this.getDevicePath() as string);
+        }
+
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.pythonPath, ['-c', PTY_HELPER, String(this.bytesPerSecond), this.mode], {
+                stdio: ['pipe', 'pipe', 'pipe']
+            });
+            let output = '';
+            let errors = '';
+            let settled = false;
+
+            const fail = (message: string) => {
+                if (settled) return;
+                settled = true;
+                child.kill();
+                reject(new Error(`TRNG simulator failed to start: ${message}`));
+            };
+
+            child.on('error', error => fail(error.message));
+            child.stderr?.on('data', (data: Buffer) => {
+                errors += data.toString();
+            });
+            child.on('exit', code => {
+                this.process = null;
+                this.devicePath = null;
+                fail(errors.trim() || `helper exited with code ${code}`);
+            });
+
+            child.stdout?.on('data', (data: Buffer) => {
+                output += data.toString();
+                const newline = output.indexOf('\n');
+                if (newline === -1 || settled) return;
+
+                settled = true;
+                this.process = child;
+                this.devicePath = output.slice(0, newline).trim();
+
+                try {
+                    this.updateLink();
+                } catch (error) {
+                    child.kill();
+                    reject(error);
+                    return;
+                }
+
+                resolve(this.getDevicePath() as string);
+            });
+        });
+    }
+
+    /**
+     * Switch output mode without reopening the device
+     */
+    setMode(mode: TRNGSimulatorMode): void {
+        this.mode = mode;
+        this.process?.stdin?.write(`${mode}\n`);
+    }
+
+    /**
+     * Current output mode
+     */
+    getMode(): TRNGSimulatorMode {
+        return this.mode;
+    }
+
+    /**
+     * Path a driver should open, or null when stopped
+     */
+    getDevicePath(): string | null {
+        if (!this.devicePath) return null;
+        return this.linkPath ?? this.devicePath;
+    }
+
+    /**
+     * Whether the simulated device is plugged in
+     */
+    isRunning(): boolean {
+        return this.process !== null;
+    }
+
+    /**
+     * Close the pty - readers see the same I/O error as a USB unplug
+     */
+    async stop(): Promise<void> {
+        const child = this.process;
+        if (!child) return;
+
+        this.process = null;
+        this.devicePath = null;
+        this.removeLink();
+
+        await new Promise<void>(resolve => {
+            child.once('exit', () => resolve());
+            child.stdin?.end();
+            child.kill('SIGTERM');
+        });
+    }
+
+    private updateLink(): void {
+        if (!this.linkPath || !this.devicePath) return;
+
+        this.removeLink();
+        fs.symlinkSync(this.devicePath, this.linkPath);
+    }
+
+    private removeLink(): void {
+        if (this.linkPath) {
+            fs.rmSync(this.linkPath, { force: true });
+        }
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Entropy source contract for the RNG engine
+ *
+ * The engine needs 25 bytes (200 bits) per trial, once per second, from
+ * inside a timer callback - so byte delivery is synchronous. Sources that
+ * talk to devices buffer asynchronously and throw when they run dry.
+ */
+
+import { EntropySourceKind, EntropySourceStatus } from '../../shared/types';
+
+/**
+ * A source of random bytes the engine can draw trials from
+ */
+export interface EntropySource {
+    /** Human-readable name (device path, algorithm, ...) */
+    readonly name: string;
+
+    /** Implementation kind */
+    readonly kind: EntropySourceKind;
+
+    /**
+     * Acquire the underlying device or generator
+     */
+    open(): Promise<void>;
+
+    /**
+     * Return exactly `length` random bytes
+     * Throws when the source cannot deliver (closed, underrun, device error)
+     * or when the bytes fail the continuous health tests.
+     */
+    getBytes(length: number): Uint8Array;
+
+    /**
+     * Release the underlying device or generator
+     */
+    close(): Promise<void>;
+
+    /**
+     * Current availability and counters
+     */
+    getStatus(): EntropySourceStatus;
+}
@@ -0,0 +1,41 @@
+/**
+ * WebCrypto entropy source - crypto.getRandomValues(), available in both
+ * the renderer and Node. This is the engine's default source.
+ */
+
+import { BaseEntropySource, EntropySourceOptions } from './base-source';
+
+/**
+ * getRandomValues() rejects requests above 64 KiB
+ */
+const MAX_REQUEST_BYTES = 65536;
+
+export class WebCryptoEntropySource extends BaseEntropySource {
+    readonly name = 'crypto.getRandomValues';
+    readonly kind = 'webcrypto' as const;
+
+    constructor(options: EntropySourceOptions = {}) {
+        super(options);
+
+        // No device to acquire - usable without open()
+        this.isOpen = true;
+    }
+
+    protected async openSource(): Promise<void> {
+        if (typeof crypto === 'undefined' || typeof crypto.getRandomValues !== 'function') {
+            throw new Error('crypto.getRandomValues() is not available');
+        }
+    }
+
+    protected readBytes(length: number): Uint8Array {
+        const bytes = new Uint8Array(length);
+        for (let offset = 0; offset < length; offset += MAX_REQUEST_BYTES) {
+            crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + MAX_REQUEST_BYTES, length)));
+        }
+        return bytes;
+    }
+
+    protected async closeSource(): Promise<void> {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * Formal Event Analysis
+ * GCP-style formal events: a time window and an analysis recipe fixed at registration,
+ * evaluated once over the device network and combined into a cumulative Stouffer Z
+ */
+
+import {
+    EventCategory,
+    EventRecipe,
+    FormalEvent,
+    FormalEventDefinition,
+    FormalEventPoint,
+    FormalEventResult,
+    FormalEventSeries
+} from '../shared/analysis-types';
+import { RNGTrial } from '../shared/types';
+import { AdvancedStatistics } from './advanced-statistics';
+import { StatisticalUtils } from './statistical-utils';
+
+const RECIPES: EventRecipe[] = ['netvar', 'device_variance', 'covariance'];
+const CATEGORIES: EventCategory[] = ['world', 'personal'];
+
+export class FormalEventAnalyzer {
+
+    /**
+     * Throw unless a definition can be registered
+     */
+    static validateDefinition(definition: FormalEventDefinition): void {
+        if (!definition.name.trim()) {
+            throw new Error('A formal event needs a name');
+        }
+        if (!CATEGORIES.includes(definition.category)) {
+            throw new Error(`Unknown event category: ${definition.category}`);
+        }
+        if (!RECIPES.includes(definition.recipe)) {
+            throw new Error(`Unknown event recipe: ${definition.recipe}`);
+        }
+        if (isNaN(definition.startTime.getTime()) || isNaN(definition.endTime.getTime())) {
+            throw new Error('A formal event needs a valid start and end time');
+        }
+        if (definition.endTime <= definition.startTime) {
+            throw new Error('A formal event must end after it starts');
+        }
+    }
+
+    /**
+     * Evaluate an event's recipe over the device-tagged trials recorded in its window
+     */
+    static evaluate(trials: RNGTrial[], recipe: EventRecipe, evaluatedAt: Date = new Date()): FormalEventResult {
+        const network = AdvancedStatistics.calculateMultiDeviceNetwork(trials);
+        const common = {
+            deviceCount: network.deviceIds.length,
+            seconds: network.seconds.length,
+            trialCount: trials.length,
+            evaluatedAt
+        };
+
+        if (recipe === 'covariance') {
+            // Σ over seconds and device pairs of z_i·z_j; each product has mean 0 and variance 1 under the null
+            let pairSum = 0;
+            let pairs = 0;
+            for (const second of network.seconds) {
+                const sumZ = second.stoufferZ * Math.sqrt(second.deviceCount);
+                pairSum += (sumZ * sumZ - second.deviceVariance) / 2;
+                pairs += second.deviceCount * (second.deviceCount - 1) / 2;
+            }
+            if (pairs === 0) {
+                throw new Error('Covariance needs at least two devices reporting in the same second');
+            }
+
+            const zScore = pairSum / Math.sqrt(pairs);
+            return {
+                statistic: pairSum,
+                degreesOfFreedom: pairs,
+                zScore,
+                pValue: StatisticalUtils.normalProbabilityOneTailed(zScore),
+                ...common
+            };
+        }
+
+        const [statistic, degreesOfFreedom, pValue] = recipe === 'netvar'
+            ? [network.netvar, network.seconds.length, network.netvarProbability]
+            : [network.deviceVariance, network.deviceVarianceDegreesOfFreedom, network.deviceVarianceProbability];
+
+        return {
+            statistic,
+            degreesOfFreedom,
+            zScore: this.chiSquareZ(pValue),
+            pValue,
+            ...common
+        };
+    }
+
+    /**
+     * Cumulative Stouffer Z over every evaluated event, and over the rejectable ones alone
+     */
+    static buildSeries(events: FormalEvent[]): FormalEventSeries {
+        const evaluated = events
+            .filter(event => event.status === 'evaluated' && event.result)
+            .sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
+
+        const points: FormalEventPoint[] = [];
+        let sumZ = 0;
+        for (const event of evaluated) {
+            sumZ += event.result!.zScore;
+            points.push({
+                eventId: event.id,
+                name: event.name,
+                endTime: event.endTime,
+                rejectable: event.rejectable,
+                zScore: event.result!.zScore,
+                cumulativeZ: sumZ / Math.sqrt(points.length + 1),
+                cumulativeDeviation: sumZ
+            });
+        }
+
+        const rejectable = evaluated.filter(event => event.rejectable);
+        const stoufferZ = this.stouffer(evaluated.map(event => event.result!.zScore));
+        const rejectableZ = this.stouffer(rejectable.map(event => event.result!.zScore));
+
+        return {
+            events,
+            points,
+            eventCount: evaluated.length,
+            stoufferZ,
+            pValue: evaluated.length > 0 ? StatisticalUtils.normalProbabilityOneTailed(stoufferZ) : 1,
+            rejectableCount: rejectable.length,
+            rejectableZ,
+            rejectablePValue: rejectable.length > 0 ? StatisticalUtils.normalProbabilityOneTailed(rejectableZ) : 1
+        };
+    }
+
+    /**
+     * Normal deviate of an upper-tail chi-square probability, as in the GCP formal series
+     */
+    private static chiSquareZ(pValue: number): number {
+        const p = Math.min(Math.max(pValue, Number.EPSILON), 1 - Number.EPSILON);
+        return StatisticalUtils.normalInverse(1 - p);
+    }
+
+    private static stouffer(zScores: number[]): number {
+        if (zScores.length === 0) return 0;
+        return zScores.reduce((sum, z) => sum + z, 0) / Math.sqrt(zScores.length);
+    }
+}
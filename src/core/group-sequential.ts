@@ -0,0 +1,322 @@
+/**
+ * Group-Sequential Designs
+ * Lan-DeMets alpha spending with O'Brien-Fleming and Pocock type functions. Boundaries are
+ * computed from the information actually reached at each look, so a look the plan did not
+ * schedule still spends alpha and the boundaries after it tighten
+ */
+
+import {
+    AlphaSpendingFunction,
+    GroupSequentialDesign,
+    GroupSequentialDesignInput,
+    GroupSequentialPlan,
+    GroupSequentialStatus,
+    SequentialBoundary,
+    SequentialLook,
+    SequentialTotals
+} from '../shared/analysis-types';
+import { StatisticalUtils, TRIAL_MEAN, TRIAL_VARIANCE } from './statistical-utils';
+
+/** Lower edge of a one-sided continuation region in z; the null leaves about 1e-15 below it */
+const LOWER_Z = -8;
+
+/** Integration step as a fraction of the narrowest normal kernel the grid has to resolve */
+const GRID_STEP = 0.125;
+
+/** Cap on grid points, which bounds the cost of a look taken right after another */
+const MAX_GRID_POINTS = 4001;
+
+/** Boundary reported once the spending function has nothing left to spend */
+const MAX_BOUNDARY_Z = 20;
+
+const MAX_LOOKS = 50;
+
+/** Density of the score statistic over the continuation region of a look, on a Simpson grid */
+interface ContinuationGrid {
+    scores: Float64Array;
+    weights: Float64Array;
+    density: Float64Array;
+    information: number;
+}
+
+const upperTail = (z: number): number => Math.exp(StatisticalUtils.logNormalTail(z));
+
+const normalDensity = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Simpson's rule nodes and weights over [lower, upper] no further apart than step
+ */
+const simpsonGrid = (lower: number, upper: number, step: number): { nodes: Float64Array; weights: Float64Array } => {
+    const intervals = Math.min(MAX_GRID_POINTS - 1, 2 * Math.max(1, Math.ceil((upper - lower) / (2 * step))));
+    const h = (upper - lower) / intervals;
+    const nodes = new Float64Array(intervals + 1);
+    const weights = new Float64Array(intervals + 1);
+
+    for (let i = 0; i <= intervals; i++) {
+        nodes[i] = lower + i * h;
+        weights[i] = (i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2) * h / 3;
+    }
+    return { nodes, weights };
+};
+
+export class GroupSequentialAnalyzer {
+
+    /**
+     * Validate a design and fix its planned looks
+     */
+    static createPlan(design: GroupSequentialDesignInput): GroupSequentialPlan {
+        const alpha = design.alpha ?? 0.05;
+        const sides = design.sides ?? 1;
+        const intentions: Array<'high' | 'low'> = Array.from(new Set(design.intentions ?? ['high', 'low']));
+
+        if (!design.title.trim()) {
+            throw new Error('A group-sequential design needs a title');
+        }
+        if (design.spending !== 'obrien_fleming' && design.spending !== 'pocock') {
+            throw new Error(`Unknown alpha spending function: ${design.spending}`);
+        }
+        if (!(alpha > 0 && alpha < 0.5)) {
+            throw new Error(`Alpha must be between 0 and 0.5, got ${alpha}`);
+        }
+        if (sides !== 1 && sides !== 2) {
+            throw new Error(`A design tests one or two sides, got ${sides}`);
+        }
+        if (!(Number.isInteger(design.maxTrials) && design.maxTrials > 0)) {
+            throw new Error('The maximum number of trials must be a positive whole number');
+        }
+        if (intentions.length === 0 || intentions.some(intention => intention !== 'high' && intention !== 'low')) {
+            throw new Error('A group-sequential design tests high and/or low intention trials');
+        }
+
+        const plannedLooks = typeof design.looks === 'number'
+            ? this.equallySpacedLooks(design.looks, design.maxTrials)
+            : design.looks;
+        if (plannedLooks.length === 0 || plannedLooks.length > MAX_LOOKS) {
+            throw new Error(`A design needs between 1 and ${MAX_LOOKS} looks`);
+        }
+        plannedLooks.forEach((trials, i) => {
+            if (!Number.isInteger(trials) || trials <= (i === 0 ? 0 : plannedLooks[i - 1])) {
+                throw new Error('Planned looks must be increasing, positive trial counts');
+            }
+        });
+        if (plannedLooks[plannedLooks.length - 1] !== design.maxTrials) {
+            throw new Error('The last planned look must be at the maximum number of trials');
+        }
+
+        return {
+            title: design.title.trim(),
+            spending: design.spending,
+            alpha,
+            sides,
+            maxTrials: design.maxTrials,
+            plannedLooks: [...plannedLooks],
+            source: design.source,
+            intentions
+        };
+    }
+
+    /**
+     * Cumulative alpha the Lan-DeMets spending function allows by an information fraction
+     */
+    static spentAlpha(spending: AlphaSpendingFunction, alpha: number, fraction: number): number {
+        if (fraction <= 0) return 0;
+        if (fraction >= 1) return alpha;
+
+        if (spending === 'pocock') {
+            return alpha * Math.log(1 + (Math.E - 1) * fraction);
+        }
+        // O'Brien-Fleming type: 2 - 2Φ(z(α/2) / √t)
+        return 2 * upperTail(StatisticalUtils.normalInverse(1 - alpha / 2) / Math.sqrt(fraction));
+    }
+
+    /**
+     * Boundaries at looks taken after the given trial counts, by recursive numerical
+     * integration of the score statistic over the continuation regions (Armitage,
+     * McPherson and Rowe)
+     */
+    static boundaries(plan: GroupSequentialPlan, lookTrials: number[]): SequentialBoundary[] {
+        lookTrials.forEach((trials, i) => {
+            if (!(trials > (i === 0 ? 0 : lookTrials[i - 1]))) {
+                throw new Error('Looks must be taken at increasing, positive trial counts');
+            }
+        });
+
+        const boundaries: SequentialBoundary[] = [];
+        let cumulativeAlpha = 0;
+        let grid: ContinuationGrid | null = null;
+
+        lookTrials.forEach((information, i) => {
+            const informationFraction = Math.min(1, information / plan.maxTrials);
+            const alphaSpent = Math.max(0, this.spentAlpha(plan.spending, plan.alpha, informationFraction) - cumulativeAlpha);
+            const boundaryZ = this.solveBoundary(plan.sides, grid, information, alphaSpent);
+
+            cumulativeAlpha += alphaSpent;
+            boundaries.push({
+                lookNumber: i + 1,
+                trialCount: information,
+                informationFraction,
+                cumulativeAlpha,
+                alphaSpent,
+                boundaryZ,
+                nominalPValue: plan.sides * upperTail(boundaryZ)
+            });
+
+            if (i < lookTrials.length - 1) {
+                grid = this.continuationGrid(plan.sides, grid, information, boundaryZ, lookTrials[i + 1] - information);
+            }
+        });
+
+        return boundaries;
+    }
+
+    /**
+     * Boundary of a new look after the ones already taken, and whether z crosses it
+     */
+    static evaluateLook(
+        plan: GroupSequentialPlan,
+        previous: SequentialLook[],
+        trialCount: number,
+        z: number
+    ): { boundary: SequentialBoundary; crossed: boolean; planned: boolean; final: boolean } {
+        const last = previous[previous.length - 1];
+        if (last && trialCount <= last.trialCount) {
+            throw new Error(`No new trials since look ${last.lookNumber} at ${last.trialCount} trials`);
+        }
+
+        const boundaries = this.boundaries(plan, [...previous.map(look => look.trialCount), trialCount]);
+        const boundary = boundaries[boundaries.length - 1];
+        const lastTrials = last ? last.trialCount : 0;
+
+        return {
+            boundary,
+            crossed: (plan.sides === 2 ? Math.abs(z) : z) >= boundary.boundaryZ,
+            // Planned if it is the first look to reach some planned trial count
+            planned: plan.plannedLooks.some(planned => planned > lastTrials && planned <= trialCount),
+            final: trialCount >= plan.maxTrials
+        };
+    }
+
+    /**
+     * Planned trial count of the next look, or null once the final look is due
+     */
+    static nextPlannedLook(plan: GroupSequentialPlan, looks: SequentialLook[]): number | null {
+        const lastTrials = looks.length > 0 ? looks[looks.length - 1].trialCount : 0;
+        return plan.plannedLooks.find(trials => trials > lastTrials) ?? null;
+    }
+
+    /**
+     * Looks taken so far with the boundaries of the remaining planned looks
+     */
+    static status(
+        design: GroupSequentialDesign,
+        looks: SequentialLook[],
+        trialsCollected: number
+    ): GroupSequentialStatus {
+        const { plan } = design;
+        const lastTrials = looks.length > 0 ? looks[looks.length - 1].trialCount : 0;
+        const remaining = design.status === 'active' ? plan.plannedLooks.filter(trials => trials > lastTrials) : [];
+        const upcoming = remaining.length > 0
+            ? this.boundaries(plan, [...looks.map(look => look.trialCount), ...remaining]).slice(looks.length)
+            : [];
+
+        return {
+            design,
+            looks,
+            upcoming,
+            trialsCollected,
+            nextLookAt: remaining.length > 0 ? remaining[0] : null
+        };
+    }
+
+    /**
+     * Directed z of a design's trials: high intention counts up, low intention down
+     */
+    static directedZ(totals: SequentialTotals[]): { trialCount: number; z: number } {
+        const trialCount = totals.reduce((sum, total) => sum + total.trialCount, 0);
+        if (trialCount === 0) return { trialCount, z: 0 };
+
+        const directedDeviation = totals.reduce((sum, total) =>
+            sum + (total.intention === 'low' ? -1 : 1) * (total.trialSum - TRIAL_MEAN * total.trialCount), 0);
+        return { trialCount, z: directedDeviation / Math.sqrt(TRIAL_VARIANCE * trialCount) };
+    }
+
+    // Private helper methods
+
+    private static equallySpacedLooks(looks: number, maxTrials: number): number[] {
+        if (!Number.isInteger(looks) || looks < 1) {
+            throw new Error(`A design needs a whole number of looks, got ${looks}`);
+        }
+        return Array.from({ length: looks }, (_, i) => Math.round(maxTrials * (i + 1) / looks));
+    }
+
+    /**
+     * Boundary z at which the probability of first crossing at this look equals the alpha spent
+     */
+    private static solveBoundary(
+        sides: 1 | 2,
+        grid: ContinuationGrid | null,
+        information: number,
+        alphaSpent: number
+    ): number {
+        const crossing = (z: number): number => {
+            if (!grid) return sides * upperTail(z);
+
+            const scale = Math.sqrt(information - grid.information);
+            const bound = z * Math.sqrt(information);
+            let probability = 0;
+            for (let i = 0; i < grid.scores.length; i++) {
+                const score = grid.scores[i];
+                let tail = upperTail((bound - score) / scale);
+                if (sides === 2) tail += upperTail((bound + score) / scale);
+                probability += grid.weights[i] * grid.density[i] * tail;
+            }
+            return probability;
+        };
+
+        if (alphaSpent <= crossing(MAX_BOUNDARY_Z)) return MAX_BOUNDARY_Z;
+
+        let lower = 0;
+        let upper = MAX_BOUNDARY_Z;
+        for (let iteration = 0; iteration < 60; iteration++) {
+            const middle = (lower + upper) / 2;
+            if (crossing(middle) > alphaSpent) lower = middle;
+            else upper = middle;
+        }
+        return (lower + upper) / 2;
+    }
+
+    /**
+     * Sub-density of the score at a look over the region where the trial continues,
+     * on a grid fine enough for the step to the next look
+     */
+    private static continuationGrid(
+        sides: 1 | 2,
+        previous: ContinuationGrid | null,
+        information: number,
+        boundaryZ: number,
+        nextIncrement: number
+    ): ContinuationGrid {
+        const root = Math.sqrt(information);
+        const increment = previous ? information - previous.information : information;
+        const step = GRID_STEP * Math.min(Math.sqrt(increment), Math.sqrt(nextIncrement));
+        const upper = boundaryZ * root;
+        const lower = sides === 2 ? -upper : LOWER_Z * root;
+        const { nodes, weights } = simpsonGrid(lower, upper, step);
+        const density = new Float64Array(nodes.length);
+
+        if (!previous) {
+            for (let i = 0; i < nodes.length; i++) density[i] = normalDensity(nodes[i] / root) / root;
+        } else {
+            const scale = Math.sqrt(increment);
+            for (let i = 0; i < nodes.length; i++) {
+                let value = 0;
+                for (let j = 0; j < previous.scores.length; j++) {
+                    value += previous.weights[j] * previous.density[j] * normalDensity((nodes[i] - previous.scores[j]) / scale);
+                }
+                density[i] = value / scale;
+            }
+        }
+
+        return { scores: nodes, weights, density, information };
+    }
+}
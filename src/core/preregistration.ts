@@ -0,0 +1,349 @@
+/**
+ * Pre-Registration Analysis
+ * Turns a research design into a powered analysis plan and evaluates tagged sessions
+ * strictly by that plan once it has been locked; the plan may stop on a Bayes factor
+ */
+
+import {
+    OperatorSessionTotals,
+    PreRegisteredResult,
+    PreRegisteredTest,
+    PreRegistration,
+    PreRegistrationDesign,
+    PreRegistrationPlan,
+    PreRegistrationReport
+} from '../shared/analysis-types';
+import { StatisticalUtils, TRIAL_MEAN, TRIAL_VARIANCE } from './statistical-utils';
+import { BayesianAnalyzer } from './bayesian-analysis';
+
+const TEST_NAMES: Record<PreRegisteredTest, string> = {
+    directed_z: 'Directed z (high +, low -)',
+    high_low_z: 'High-low mean separation z',
+    mean_shift_z: 'Mean shift z'
+};
+
+export class PreRegistrationAnalyzer {
+
+    /**
+     * Build an analysis plan from a design, sizing the planned trials for the requested power
+     */
+    static createPlan(design: PreRegistrationDesign): PreRegistrationPlan {
+        const alpha = design.alpha ?? 0.05;
+        const power = design.power ?? 0.8;
+        const stoppingRule = design.stoppingRule ?? { type: 'fixed_trials' };
+        const intentions = Array.from(new Set(design.intentions));
+
+        if (!design.title.trim()) {
+            throw new Error('A pre-registration needs a title');
+        }
+        if (!(alpha > 0 && alpha < 0.5)) {
+            throw new Error(`Alpha must be between 0 and 0.5, got ${alpha}`);
+        }
+        if (!(power > 0 && power < 1)) {
+            throw new Error(`Power must be between 0 and 1, got ${power}`);
+        }
+        if (!(design.effectSize > 0)) {
+            throw new Error('The smallest effect of interest must be positive');
+        }
+        if (stoppingRule.type === 'fixed_sessions' && !(Number.isInteger(stoppingRule.sessions) && stoppingRule.sessions > 0)) {
+            throw new Error('A fixed-sessions stopping rule needs a positive whole number of sessions');
+        }
+        if (stoppingRule.type === 'bayes_factor') {
+            if (!(stoppingRule.threshold > 1 && Number.isFinite(stoppingRule.threshold))) {
+                throw new Error(`A Bayes factor stopping rule needs a finite threshold above 1, got ${stoppingRule.threshold}`);
+            }
+            BayesianAnalyzer.validatePrior(stoppingRule.prior);
+        }
+        this.validateIntentions(design.primaryTest, intentions);
+
+        // Directional tests are one-tailed; requiredSampleSize splits alpha across two tails
+        const tails = design.primaryTest === 'mean_shift_z' ? 2 : 1;
+        const perGroup = StatisticalUtils.requiredSampleSize(design.effectSize, power, tails === 1 ? 2 * alpha : alpha);
+        // A difference of two means needs twice the trials in each of the two groups
+        const plannedTrials = design.primaryTest === 'high_low_z' ? 4 * perGroup : perGroup;
+
+        return {
+            title: design.title.trim(),
+            hypothesis: {
+                question: design.question,
+                prediction: design.prediction,
+                rationale: design.rationale,
+                testMethod: {
+                    name: TEST_NAMES[design.primaryTest],
+                    type: 'parametric',
+                    assumptions: ['Trials are independent', 'Trial values are binomial(200, 0.5) under the null'],
+                    parameters: { alpha, tails }
+                },
+                powerAnalysis: {
+                    effectSize: design.effectSize,
+                    alpha,
+                    beta: 1 - power,
+                    power,
+                    sampleSize: plannedTrials,
+                    testType: design.primaryTest
+                },
+                sampleSizeNeeded: plannedTrials
+            },
+            primaryTest: design.primaryTest,
+            alpha,
+            tails,
+            intentions,
+            participantIds: design.participantIds ?? [],
+            plannedTrials,
+            stoppingRule
+        };
+    }
+
+    /**
+     * Analyze the sessions tagged to a registration using only its locked plan
+     * Every departure from the plan is listed as a deviation
+     */
+    static buildReport(
+        registration: PreRegistration,
+        hashVerified: boolean,
+        sessions: OperatorSessionTotals[]
+    ): PreRegistrationReport {
+        const { plan } = registration;
+        const deviations: string[] = [];
+        const sorted = [...sessions].sort((a, b) => a.session.startTime.getTime() - b.session.startTime.getTime());
+        const trialsCollected = sorted.reduce((sum, total) => sum + total.trialCount, 0);
+
+        if (!registration.lockedAt) {
+            return {
+                registrationId: registration.id,
+                title: plan.title,
+                planHash: null,
+                lockedAt: null,
+                hashVerified: false,
+                planFollowed: false,
+                deviations: ['The plan was never locked'],
+                sessionsAnalyzed: 0,
+                sessionsExcluded: sorted.length,
+                trialsCollected,
+                trialsAnalyzed: 0,
+                result: null,
+                conclusion: 'No confirmatory analysis: the plan was not locked before data collection.',
+                generatedAt: new Date()
+            };
+        }
+        if (!hashVerified) {
+            deviations.push('The stored plan no longer matches the hash recorded when it was locked');
+        }
+
+        const lockedAt = registration.lockedAt.getTime();
+        const excluded = {
+            beforeLock: 0,
+            intention: 0,
+            participant: 0,
+            running: 0,
+            afterStop: 0
+        };
+
+        const eligible = sorted.filter(({ session }) => {
+            if (session.startTime.getTime() < lockedAt) {
+                excluded.beforeLock++;
+            } else if (!plan.intentions.includes(session.intention ?? 'baseline')) {
+                excluded.intention++;
+            } else if (plan.participantIds.length > 0 &&
+                (!session.participantId || !plan.participantIds.includes(session.participantId))) {
+                excluded.participant++;
+            } else if (session.status === 'running') {
+                excluded.running++;
+            } else {
+                return true;
+            }
+            return false;
+        });
+
+        // Apply the stopping rule: sessions after it was met are not analyzed
+        const analyzed: OperatorSessionTotals[] = [];
+        let trialsAnalyzed = 0;
+        for (const total of eligible) {
+            if (this.stoppingRuleMet(plan, analyzed, trialsAnalyzed)) {
+                excluded.afterStop++;
+                continue;
+            }
+            analyzed.push(total);
+            trialsAnalyzed += total.trialCount;
+        }
+
+        if (excluded.beforeLock > 0) {
+            deviations.push(`${excluded.beforeLock} session(s) started before the plan was locked`);
+        }
+        if (excluded.intention > 0) {
+            deviations.push(`${excluded.intention} session(s) used an intention outside the plan`);
+        }
+        if (excluded.participant > 0) {
+            deviations.push(`${excluded.participant} session(s) came from participants outside the plan`);
+        }
+        if (excluded.afterStop > 0) {
+            deviations.push(`${excluded.afterStop} session(s) were collected after the stopping rule was met`);
+        }
+
+        const target = {
+            reached: this.stoppingRuleMet(plan, analyzed, trialsAnalyzed),
+            text: plan.stoppingRule.type === 'fixed_sessions'
+                ? `${analyzed.length} of ${plan.stoppingRule.sessions} planned sessions`
+                : `${trialsAnalyzed} of ${plan.plannedTrials} planned trials`
+        };
+        if (!target.reached && registration.status === 'completed') {
+            deviations.push(`Data collection stopped early: ${target.text}`);
+        }
+
+        const result = this.runTest(plan, analyzed);
+        const planFollowed = deviations.length === 0;
+
+        let conclusion: string;
+        if (!result) {
+            conclusion = 'No confirmatory analysis: the plan\'s test has no eligible data yet.';
+        } else if (!target.reached && registration.status !== 'completed') {
+            conclusion = `Data collection in progress (${target.text}); the confirmatory result is not final.`;
+        } else {
+            let outcome: string;
+            if (plan.stoppingRule.type === 'bayes_factor' && result.bayesFactor10 !== undefined) {
+                const { threshold } = plan.stoppingRule;
+                const bf10 = result.bayesFactor10.toPrecision(4);
+                outcome = result.bayesFactor10 >= threshold
+                    ? `supports the prediction (BF10 = ${bf10} ≥ ${threshold})`
+                    : result.bayesFactor10 <= 1 / threshold
+                        ? `supports the null hypothesis (BF10 = ${bf10} ≤ 1/${threshold})`
+                        : `is inconclusive (BF10 = ${bf10})`;
+            } else {
+                outcome = result.significant
+                    ? `supports the prediction (p = ${result.pValue.toFixed(4)} < α = ${plan.alpha})`
+                    : `does not support the prediction (p = ${result.pValue.toFixed(4)}, α = ${plan.alpha})`;
+            }
+            conclusion = `The pre-registered ${TEST_NAMES[plan.primaryTest].toLowerCase()} ${outcome}. ` +
+                (planFollowed ? 'The plan was followed.' : `The plan was not followed: ${deviations.length} deviation(s).`);
+        }
+
+        return {
+            registrationId: registration.id,
+            title: plan.title,
+            planHash: registration.planHash,
+            lockedAt: registration.lockedAt,
+            hashVerified,
+            planFollowed,
+            deviations,
+            sessionsAnalyzed: analyzed.length,
+            sessionsExcluded: sorted.length - analyzed.length,
+            trialsCollected,
+            trialsAnalyzed,
+            result,
+            conclusion,
+            generatedAt: new Date()
+        };
+    }
+
+    /**
+     * Plain-text rendering of a report for export or printing
+     */
+    static formatReport(report: PreRegistrationReport): string {
+        const lines = [
+            `Pre-registration report: ${report.title}`,
+            `Registration: ${report.registrationId}`,
+            `Locked: ${report.lockedAt ? report.lockedAt.toISOString() : 'never'}`,
+            `Plan hash: ${report.planHash ?? 'none'} (${report.hashVerified ? 'verified' : 'NOT verified'})`,
+            `Sessions analyzed: ${report.sessionsAnalyzed} (excluded: ${report.sessionsExcluded})`,
+            `Trials analyzed: ${report.trialsAnalyzed} of ${report.trialsCollected} collected`
+        ];
+
+        if (report.result) {
+            lines.push(
+                `Test: ${TEST_NAMES[report.result.test]}`,
+                `z = ${report.result.statistic.toFixed(4)}, p = ${report.result.pValue.toFixed(6)}, ` +
+                `effect size = ${report.result.effectSize.toExponential(3)}`
+            );
+            if (report.result.bayesFactor10 !== undefined) {
+                lines.push(`Bayes factor: BF10 = ${report.result.bayesFactor10.toPrecision(4)}`);
+            }
+        }
+
+        lines.push(`Plan followed: ${report.planFollowed ? 'yes' : 'no'}`);
+        report.deviations.forEach(deviation => lines.push(`  - ${deviation}`));
+        lines.push(report.conclusion, `Generated: ${report.generatedAt.toISOString()}`);
+
+        return lines.join('\n');
+    }
+
+    // Private helpers
+
+    /**
+     * Whether the sessions analyzed so far meet the stopping rule; a Bayes factor rule also
+     * stops at the planned trials
+     */
+    private static stoppingRuleMet(plan: PreRegistrationPlan, analyzed: OperatorSessionTotals[], trialsAnalyzed: number): boolean {
+        const rule = plan.stoppingRule;
+        if (rule.type === 'fixed_sessions') return analyzed.length >= rule.sessions;
+        if (trialsAnalyzed >= plan.plannedTrials) return true;
+        if (rule.type === 'fixed_trials') return false;
+
+        const bf10 = this.runTest(plan, analyzed)?.bayesFactor10;
+        return bf10 !== undefined && (bf10 >= rule.threshold || bf10 <= 1 / rule.threshold);
+    }
+
+    private static validateIntentions(test: PreRegisteredTest, intentions: PreRegistrationPlan['intentions']): void {
+        if (intentions.length === 0) {
+            throw new Error('A pre-registration needs at least one intention');
+        }
+        if (test === 'directed_z' && intentions.includes('baseline')) {
+            throw new Error('The directed z test only applies to high and low intention sessions');
+        }
+        if (test === 'high_low_z' && !(intentions.length === 2 && intentions.includes('high') && intentions.includes('low'))) {
+            throw new Error('The high-low test needs exactly the high and low intentions');
+        }
+    }
+
+    private static runTest(plan: PreRegistrationPlan, analyzed: OperatorSessionTotals[]): PreRegisteredResult | null {
+        const trialsAnalyzed = analyzed.reduce((sum, total) => sum + total.trialCount, 0);
+        let statistic: number;
+        let effectSize: number;
+        // Trials n with statistic = effectSize·√n, for the Bayes factor
+        let effectiveTrials: number;
+
+        if (plan.primaryTest === 'high_low_z') {
+            const group = (intention: 'high' | 'low') => analyzed
+                .filter(total => total.session.intention === intention)
+                .reduce((acc, total) => ({ n: acc.n + total.trialCount, sum: acc.sum + total.trialSum }), { n: 0, sum: 0 });
+            const high = group('high');
+            const low = group('low');
+            if (high.n === 0 || low.n === 0) return null;
+
+            const difference = high.sum / high.n - low.sum / low.n;
+            statistic = difference / Math.sqrt(TRIAL_VARIANCE / high.n + TRIAL_VARIANCE / low.n);
+            effectSize = difference / Math.sqrt(TRIAL_VARIANCE);
+            effectiveTrials = 1 / (1 / high.n + 1 / low.n);
+        } else {
+            if (trialsAnalyzed === 0) return null;
+
+            const deviation = analyzed.reduce((sum, total) => {
+                const sign = plan.primaryTest === 'directed_z' && total.session.intention === 'low' ? -1 : 1;
+                return sum + sign * (total.trialSum - TRIAL_MEAN * total.trialCount);
+            }, 0);
+            statistic = deviation / Math.sqrt(TRIAL_VARIANCE * trialsAnalyzed);
+            effectSize = statistic / Math.sqrt(trialsAnalyzed);
+            effectiveTrials = trialsAnalyzed;
+        }
+
+        const pValue = plan.tails === 1
+            ? StatisticalUtils.normalProbabilityOneTailed(statistic)
+            : StatisticalUtils.normalProbability(statistic);
+
+        const result: PreRegisteredResult = {
+            test: plan.primaryTest,
+            statistic,
+            pValue,
+            effectSize,
+            significant: pValue < plan.alpha,
+            trialsAnalyzed
+        };
+        if (plan.stoppingRule.type === 'bayes_factor') {
+            result.bayesFactor10 = BayesianAnalyzer.bayesFactor(
+                { trialCount: effectiveTrials, z: statistic },
+                plan.stoppingRule.prior,
+                plan.tails === 1 ? 'greater' : 'two-sided'
+            );
+        }
+        return result;
+    }
+}
@@ -10,7 +10,6 @@ import {
     TrendResult,
     QualityAssessment,
     CumulativePoint,
-    ChangePoint,
     PatternDetection,
     DataIntegrityCheck,
     TemporalGap,
@@ -20,6 +19,7 @@ import {
     QualityMetrics
 } from '../shared/analysis-types';
 import { StatisticalUtils } from './statistical-utils';
+import { ChangePointDetector } from './change-point';
 
 export class RealtimeAnalysis {
 
@@ -239,8 +239,8 @@ export class RealtimeAnalysis {
             trendDirection = 'stable';
         }
 
-        // Detect change points using CUSUM algorithm
-        const changePoints = this.detectChangePoints(windowMeans, timePoints);
+        // Shifts in the mean over the trials themselves, by PELT
+        const { changePoints } = ChangePointDetector.pelt(ChangePointDetector.toSamples(trials));
 
         return {
             slope,
@@ -380,55 +380,6 @@ export class RealtimeAnalysis {
         return { slope, intercept, correlation, slopeStdError };
     }
 
-    private static detectChangePoints(values: number[], timePoints: number[]): ChangePoint[] {
-        const changePoints: ChangePoint[] = [];
-
-        if (values.length < 10) return changePoints;
-
-        // Simple CUSUM change point detection
-        const mean = StatisticalUtils.mean(values);
-        const std = StatisticalUtils.standardDeviation(values);
-        const threshold = 2 * std;
-
-        let cumSum = 0;
-        let maxCumSum = 0;
-        let minCumSum = 0;
-        let changePointIndex = -1;
-
-        for (let i = 0; i < values.length; i++) {
-            cumSum += values[i] - mean;
-
-            if (cumSum > maxCumSum) {
-                maxCumSum = cumSum;
-            }
-            if (cumSum < minCumSum) {
-                minCumSum = cumSum;
-                changePointIndex = i;
-            }
-
-            // Detect significant change
-            if (Math.abs(cumSum) > threshold && changePointIndex !== -1) {
-                const magnitude = Math.abs(cumSum) / std;
-                const confidence = Math.min(0.99, magnitude / 5); // Rough confidence estimate
-
-                changePoints.push({
-                    index: changePointIndex,
-                    timestamp: new Date(timePoints[changePointIndex]),
-                    confidence,
-                    magnitudeChange: magnitude
-                });
-
-                // Reset for next change point
-                cumSum = 0;
-                maxCumSum = 0;
-                minCumSum = 0;
-                changePointIndex = -1;
-            }
-        }
-
-        return changePoints;
-    }
-
     private static calculateRandomnessScore(values: number[]): number {
         if (values.length < 10) return 1;
 
@@ -1,6 +1,7 @@
 /**
  * Core RNG Engine for consciousness experiments
- * Generates 200-bit trials using crypto.getRandomValues() with precise timing
+ * Generates 200-bit trials from a pluggable entropy source with precise timing
+ * (crypto.getRandomValues() unless another source is supplied)
  * Following PEAR laboratory methodology
  */
 
@@ -25,6 +26,8 @@ import {
     calculateAutocorrelation
 } from './statistics';
 import { validateRNGTrial } from './validation';
+import { EntropySource } from './entropy/types';
+import { WebCryptoEntropySource } from './entropy/webcrypto-source';
 
 /**
  * Generate a UUID v4
@@ -49,6 +52,9 @@ export class RNGEngine {
     private trialCounter: number = 0;
     private totalTrialsGenerated: number = 0;
 
+    // Source of the 200 bits per trial
+    private entropySource: EntropySource;
+
     // Timing components
     private precisionTimer: PrecisionTimer | null = null;
     private sessionTimer: SessionTimer;
@@ -61,6 +67,7 @@ export class RNGEngine {
     private statusListeners: Array<(status: EngineStatus) => void> = [];
 
     // Performance monitoring
+    private memoryMonitorInterval: NodeJS.Timeout | null = null;
     private memoryUsage: { current: number; peak: number } = { current: 0, peak: 0 };
     private qualityMetrics: {
         lastCalibration: CalibrationResult | null;
@@ -70,7 +77,8 @@ export class RNGEngine {
             recentTrials: []
         };
 
-    constructor(config?: Partial<RNGConfig>) {
+    constructor(config?: Partial<RNGConfig>, entropySource?: EntropySource) {
+        this.entropySource = entropySource || new WebCryptoEntropySource();
         this.config = {
             targetRate: 1.0, // 1 trial per second
             bitsPerTrial: 200,
@@ -78,6 +86,7 @@ export class RNGEngine {
             highPrecisionTiming: true,
             bufferSize: 1000, // Buffer up to 1000 trials
             qualityMonitoring: true,
+            captureRawBits: false,
             ...config
         };
 
@@ -91,7 +100,7 @@ export class RNGEngine {
         );
 
         // Monitor memory usage periodically
-        setInterval(() => this.updateMemoryUsage(), 5000);
+        this.memoryMonitorInterval = setInterval(() => this.updateMemoryUsage(), 5000);
     }
 
     /**
@@ -100,8 +109,10 @@ export class RNGEngine {
     generateTrial(): RNGTrial {
         const timestamp = getHighPrecisionTimestamp();
 
-        // Generate exactly 200 random bits using crypto.getRandomValues()
-        const trialValue = this.generate200BitSum();
+        // Generate exactly 200 random bits from the entropy source
+        // We need 200 bits, which is 25 bytes (25 * 8 = 200)
+        const randomBytes = this.entropySource.getBytes(25);
+        const trialValue = this.sum200Bits(randomBytes);
 
         // Increment trial counter
         this.trialCounter++;
@@ -116,6 +127,14 @@ export class RNGEngine {
             trialNumber: this.trialCounter
         };
 
+        if (this.config.captureRawBits) {
+            trial.rawBits = randomBytes;
+        }
+
+        if (this.config.deviceId) {
+            trial.deviceId = this.config.deviceId;
+        }
+
         // Validate the generated trial
         const validation = validateRNGTrial(trial);
         if (!validation.isValid) {
@@ -171,6 +190,40 @@ export class RNGEngine {
         this.notifyStatusListeners();
     }
 
+    /**
+     * Pause trial generation, keeping the current session and trial counter
+     */
+    pauseContinuous(): void {
+        if (!this.isRunning) return;
+
+        this.isRunning = false;
+
+        if (this.precisionTimer) {
+            this.precisionTimer.stop();
+        }
+        this.sessionTimer.pause();
+
+        console.log(`RNG Engine paused - Session: ${this.currentSessionId}`);
+        this.notifyStatusListeners();
+    }
+
+    /**
+     * Resume trial generation after pauseContinuous()
+     */
+    resumeContinuous(): void {
+        if (this.isRunning || !this.currentSessionId) return;
+
+        this.isRunning = true;
+
+        this.sessionTimer.resume();
+        if (this.precisionTimer) {
+            this.precisionTimer.start();
+        }
+
+        console.log(`RNG Engine resumed - Session: ${this.currentSessionId}`);
+        this.notifyStatusListeners();
+    }
+
     /**
      * Run calibration trials to establish baseline
      */
@@ -262,7 +315,8 @@ export class RNGEngine {
             lastTrialTime: this.lastTrialTime,
             startTime: this.startTime,
             timingMetrics,
-            memoryUsage: { ...this.memoryUsage }
+            memoryUsage: { ...this.memoryUsage },
+            entropySource: this.entropySource.getStatus()
         };
     }
 
@@ -359,14 +413,27 @@ export class RNGEngine {
     }
 
     /**
-     * Generate exactly 200 random bits and sum them
-     * Uses crypto.getRandomValues() for cryptographically secure randomness
+     * Get the entropy source feeding the engine
      */
-    private generate200BitSum(): number {
-        // We need 200 bits, which is 25 bytes (25 * 8 = 200)
-        const randomBytes = new Uint8Array(25);
-        crypto.getRandomValues(randomBytes);
+    getEntropySource(): EntropySource {
+        return this.entropySource;
+    }
+
+    /**
+     * Replace the entropy source (takes effect from the next trial)
+     * The caller owns both sources: open the new one first, close the old one afterwards.
+     */
+    setEntropySource(source: EntropySource): void {
+        this.entropySource = source;
+
+        console.log(`Entropy source changed - ${source.kind}: ${source.name}`);
+        this.notifyStatusListeners();
+    }
 
+    /**
+     * Sum exactly 200 bits of a 25-byte payload (least significant bit first)
+     */
+    private sum200Bits(randomBytes: Uint8Array): number {
         let bitSum = 0;
         let bitCount = 0;
 
@@ -467,6 +534,12 @@ export class RNGEngine {
      */
     destroy(): void {
         this.stopContinuous();
+
+        if (this.memoryMonitorInterval) {
+            clearInterval(this.memoryMonitorInterval);
+            this.memoryMonitorInterval = null;
+        }
+
         this.listeners.length = 0;
         this.statusListeners.length = 0;
         this.trialBuffer.length = 0;
@@ -479,9 +552,7 @@ export class RNGEngine {
      * Generate a single random bit (0 or 1)
      */
     generateBit(): number {
-        // Use crypto.getRandomValues for cryptographic randomness
-        const array = new Uint8Array(1);
-        crypto.getRandomValues(array);
+        const array = this.entropySource.getBytes(1);
 
         // Extract least significant bit for unbiased randomness
         return array[0] & 1;
@@ -494,11 +565,8 @@ export class RNGEngine {
         try {
             console.log('Initializing RNG engine...');
 
-            // Verify crypto support
-            const cryptoSupport = verifyCryptoSupport();
-            if (!cryptoSupport.supported) {
-                throw new Error('Crypto API not supported in this environment');
-            }
+            // Acquire the entropy source (device, pipe or CSPRNG)
+            await this.entropySource.open();
 
             // Initialize timers
             this.sessionTimer = new SessionTimer();
@@ -513,7 +581,7 @@ export class RNGEngine {
 
             // Test RNG quality
             if (this.config.qualityMonitoring) {
-                const qualityTest = await testRNGQuality(100);
+                const qualityTest = await testRNGQuality(100, this.entropySource);
                 if (!qualityTest.passed) {
                     console.warn('RNG quality test failed:', qualityTest.issues);
                 }
@@ -530,20 +598,20 @@ export class RNGEngine {
 /**
  * Create and configure a new RNG engine instance
  */
-export function createRNGEngine(config?: Partial<RNGConfig>): RNGEngine {
-    return new RNGEngine(config);
+export function createRNGEngine(config?: Partial<RNGConfig>, entropySource?: EntropySource): RNGEngine {
+    return new RNGEngine(config, entropySource);
 }
 
 /**
  * Test the quality of the RNG by generating a sample of trials
  */
-export async function testRNGQuality(sampleSize: number = 1000): Promise<{
+export async function testRNGQuality(sampleSize: number = 1000, entropySource?: EntropySource): Promise<{
     passed: boolean;
     quality: 'excellent' | 'good' | 'fair' | 'poor';
     issues: string[];
     statistics: any;
 }> {
-    const engine = createRNGEngine();
+    const engine = createRNGEngine(undefined, entropySource);
 
     try {
         const calibration = await engine.runCalibration(sampleSize);
@@ -3,6 +3,12 @@
  * Implements core statistical functions used in PEAR and GCP research
  */
 
+/** Expected value of a trial, the sum of 200 fair bits */
+export const TRIAL_MEAN = 100;
+
+/** Per-trial variance of a sum of 200 fair bits */
+export const TRIAL_VARIANCE = 50;
+
 export class StatisticalUtils {
 
     // Constants for statistical calculations
@@ -11,7 +17,7 @@ export class StatisticalUtils {
 
     /**
      * Calculate chi-square probability (right-tail)
-     * Uses series expansion for accurate computation
+     * Regularized upper incomplete gamma Q(df/2, x/2)
      */
     static chiSquareProbability(x: number, df: number): number {
         if (x < 0 || df <= 0) return NaN;
@@ -23,7 +29,67 @@ export class StatisticalUtils {
             return 1 - this.normalCdf(z);
         }
 
-        return this.incompleteGamma(df / 2, x / 2);
+        return this.upperIncompleteGamma(df / 2, x / 2);
+    }
+
+    /**
+     * Regularized upper incomplete gamma function Q(a, x) (igamc in the NIST test suite)
+     * Series expansion below a + 1, Lentz continued fraction above; accurate to ~1e-14
+     */
+    static upperIncompleteGamma(a: number, x: number): number {
+        if (x < 0 || a <= 0) return NaN;
+        if (x === 0) return 1;
+
+        const logPrefix = a * Math.log(x) - x - this.logGamma(a);
+
+        if (x < a + 1) {
+            let denominator = a;
+            let term = 1 / a;
+            let sum = term;
+            for (let n = 0; n < 100000; n++) {
+                denominator++;
+                term *= x / denominator;
+                sum += term;
+                if (Math.abs(term) < Math.abs(sum) * 1e-16) break;
+            }
+            return Math.max(0, 1 - sum * Math.exp(logPrefix));
+        }
+
+        const tiny = 1e-300;
+        let b = x + 1 - a;
+        let c = 1 / tiny;
+        let d = 1 / b;
+        let h = d;
+        for (let i = 1; i < 100000; i++) {
+            const an = -i * (i - a);
+            b += 2;
+            d = an * d + b;
+            if (Math.abs(d) < tiny) d = tiny;
+            c = b + an / c;
+            if (Math.abs(c) < tiny) c = tiny;
+            d = 1 / d;
+            const delta = d * c;
+            h *= delta;
+            if (Math.abs(delta - 1) < 1e-16) break;
+        }
+        return Math.min(1, Math.exp(logPrefix) * h);
+    }
+
+    /**
+     * Kolmogorov-Smirnov test of values against the uniform distribution on [0, 1]
+     * Exact p-value by Marsaglia, Tsang and Wang (2003), with their asymptotic form for large n·D²
+     */
+    static kolmogorovSmirnovUniform(values: number[]): { statistic: number; pValue: number } {
+        const n = values.length;
+        if (n === 0) return { statistic: NaN, pValue: NaN };
+
+        const sorted = [...values].sort((a, b) => a - b);
+        let statistic = 0;
+        sorted.forEach((value, i) => {
+            statistic = Math.max(statistic, (i + 1) / n - value, value - i / n);
+        });
+
+        return { statistic, pValue: Math.min(1, Math.max(0, 1 - this.kolmogorovCdf(n, statistic))) };
     }
 
     /**
@@ -75,6 +141,34 @@ export class StatisticalUtils {
         return 2 * p;
     }
 
+    /**
+     * Quantile of Student's t distribution, by bisection on the two-tailed probability
+     */
+    static tQuantile(p: number, df: number): number {
+        if (p <= 0 || p >= 1 || df <= 0) return NaN;
+        if (p < 0.5) return -this.tQuantile(1 - p, df);
+        if (p === 0.5) return 0;
+
+        const tailProbability = 2 * (1 - p);
+        let low = 0;
+        let high = 1;
+        while (this.tDistributionProbability(high, df) > tailProbability) {
+            low = high;
+            high *= 2;
+        }
+
+        for (let i = 0; i < 200 && high - low > 1e-12 * high; i++) {
+            const mid = (low + high) / 2;
+            if (this.tDistributionProbability(mid, df) > tailProbability) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return (low + high) / 2;
+    }
+
     /**
      * Calculate confidence interval for mean
      */
@@ -424,32 +518,52 @@ export class StatisticalUtils {
         return z + z * correction;
     }
 
-    private static incompleteGamma(a: number, x: number): number {
-        // Regularized incomplete gamma function approximation
-        if (x < 0 || a <= 0) return NaN;
-        if (x === 0) return 1;
+    private static incompleteBeta(a: number, b: number, x: number): number {
+        // Regularized incomplete beta function approximation
+        if (x < 0 || x > 1) return NaN;
+        if (x === 0) return 0;
+        if (x === 1) return 1;
 
-        // Use continued fraction for better accuracy
-        return 1 - this.gammaIncomplete(a, x) / this.gamma(a);
-    }
+        // Use continued fraction method
+        const bt = Math.exp(this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) +
+            a * Math.log(x) + b * Math.log(1 - x));
 
-    private static gammaIncomplete(a: number, x: number): number {
-        // Simple series approximation
-        let sum = 0;
-        let term = 1;
+        if (x < (a + 1) / (a + b + 2)) {
+            return bt * this.betacf(a, b, x) / a;
+        } else {
+            return 1 - bt * this.betacf(b, a, 1 - x) / b;
+        }
+    }
 
-        for (let n = 0; n < 100; n++) {
-            sum += term;
-            term *= x / (a + n);
-            if (Math.abs(term) < 1e-15) break;
+    /**
+     * log P(Z > x) for a standard normal, accurate far into both tails
+     */
+    static logNormalTail(x: number): number {
+        if (x < -2.5) return Math.log1p(-Math.exp(this.logNormalTail(-x)));
+        if (x > 2.5) {
+            // Continued fraction for the Mills ratio, evaluated from the bottom
+            let fraction = x;
+            for (let k = 120; k >= 1; k--) fraction = x + k / fraction;
+            return -0.5 * x * x - this.LOG_SQRT_2PI - Math.log(fraction);
         }
 
-        return Math.pow(x, a) * Math.exp(-x) * sum;
+        // Power series of erf(x / √2)
+        const y = x / Math.SQRT2;
+        let term = y;
+        let sum = y;
+        for (let k = 1; k < 60; k++) {
+            term *= -y * y / k;
+            sum += term / (2 * k + 1);
+        }
+        return Math.log(0.5 - sum / Math.sqrt(Math.PI));
     }
 
-    private static gamma(z: number): number {
-        // Stirling's approximation for gamma function
-        if (z < 0.5) return Math.PI / (Math.sin(Math.PI * z) * this.gamma(1 - z));
+    /**
+     * Natural log of the gamma function
+     */
+    static logGamma(z: number): number {
+        // Lanczos approximation in log space so large arguments do not overflow
+        if (z < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * z))) - this.logGamma(1 - z);
 
         z -= 1;
         const x = 0.99999999999980993 +
@@ -463,28 +577,84 @@ export class StatisticalUtils {
             1.5056327351493116e-7 / (z + 8);
 
         const t = z + 7.5;
-        return Math.sqrt(2 * Math.PI) * Math.pow(t, z + 0.5) * Math.exp(-t) * x;
+        return this.LOG_SQRT_2PI + (z + 0.5) * Math.log(t) - t + Math.log(x);
     }
 
-    private static incompleteBeta(a: number, b: number, x: number): number {
-        // Regularized incomplete beta function approximation
-        if (x < 0 || x > 1) return NaN;
-        if (x === 0) return 0;
-        if (x === 1) return 1;
+    /**
+     * P(D_n < d) for the one-sample Kolmogorov-Smirnov statistic (Marsaglia, Tsang and Wang 2003)
+     */
+    private static kolmogorovCdf(n: number, d: number): number {
+        if (d <= 0) return 0;
+        if (d >= 1) return 1;
 
-        // Use continued fraction method
-        const bt = Math.exp(this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) +
-            a * Math.log(x) + b * Math.log(1 - x));
+        const s = d * d * n;
+        if (s > 7.24 || (s > 3.76 && n > 99)) {
+            return 1 - 2 * Math.exp(-(2.000071 + 0.331 / Math.sqrt(n) + 1.409 / n) * s);
+        }
 
-        if (x < (a + 1) / (a + b + 2)) {
-            return bt * this.betacf(a, b, x) / a;
-        } else {
-            return 1 - bt * this.betacf(b, a, 1 - x) / b;
+        const k = Math.floor(n * d) + 1;
+        const m = 2 * k - 1;
+        const h = k - n * d;
+
+        const H = new Float64Array(m * m);
+        for (let i = 0; i < m; i++) {
+            for (let j = 0; j < m; j++) {
+                H[i * m + j] = i - j + 1 < 0 ? 0 : 1;
+            }
+        }
+        for (let i = 0; i < m; i++) {
+            H[i * m] -= Math.pow(h, i + 1);
+            H[(m - 1) * m + i] -= Math.pow(h, m - i);
+        }
+        H[(m - 1) * m] += 2 * h - 1 > 0 ? Math.pow(2 * h - 1, m) : 0;
+        for (let i = 0; i < m; i++) {
+            for (let j = 0; j < m; j++) {
+                for (let g = 1; g <= i - j + 1; g++) H[i * m + j] /= g;
+            }
         }
+
+        const { matrix, exponent } = this.kolmogorovMatrixPower(H, m, n);
+        let result = matrix[(k - 1) * m + k - 1];
+        let scale = exponent;
+        for (let i = 1; i <= n; i++) {
+            result = result * i / n;
+            if (result < 1e-140) {
+                result *= 1e140;
+                scale -= 140;
+            }
+        }
+        return result * Math.pow(10, scale);
+    }
+
+    /**
+     * Matrix power with a decimal exponent kept aside so intermediate values stay in range
+     */
+    private static kolmogorovMatrixPower(A: Float64Array, m: number, power: number): { matrix: Float64Array; exponent: number } {
+        if (power === 1) return { matrix: Float64Array.from(A), exponent: 0 };
+
+        const half = this.kolmogorovMatrixPower(A, m, Math.floor(power / 2));
+        let matrix = this.multiplySquare(half.matrix, half.matrix, m);
+        let exponent = 2 * half.exponent;
+        if (power % 2 === 1) matrix = this.multiplySquare(A, matrix, m);
+
+        const centre = Math.floor(m / 2);
+        if (matrix[centre * m + centre] > 1e140) {
+            for (let i = 0; i < matrix.length; i++) matrix[i] *= 1e-140;
+            exponent += 140;
+        }
+        return { matrix, exponent };
     }
 
-    private static logGamma(z: number): number {
-        return Math.log(this.gamma(z));
+    private static multiplySquare(A: Float64Array, B: Float64Array, m: number): Float64Array {
+        const C = new Float64Array(m * m);
+        for (let i = 0; i < m; i++) {
+            for (let k = 0; k < m; k++) {
+                const a = A[i * m + k];
+                if (a === 0) continue;
+                for (let j = 0; j < m; j++) C[i * m + j] += a * B[k * m + j];
+            }
+        }
+        return C;
     }
 
     private static betacf(a: number, b: number, x: number): number {
@@ -3,6 +3,11 @@
  * Ensures exactly 1 trial per second with microsecond accuracy
  */
 
+import type { ClockSync } from '../shared/types';
+
+/** Latest measurement against the time server, recorded with new sessions */
+let currentClockSync: ClockSync | null = null;
+
 /**
  * High-precision timestamp with microsecond accuracy
  */
@@ -13,6 +18,21 @@ export function getHighPrecisionTimestamp(): Date {
     return new Date(baseTime + now);
 }
 
+/**
+ * Record the latest clock measurement; trials keep the local clock, so this only
+ * documents the offset (see core/time-sync)
+ */
+export function setClockSync(sync: ClockSync | null): void {
+    currentClockSync = sync;
+}
+
+/**
+ * Latest clock measurement, or null when time sync is off or has not succeeded yet
+ */
+export function getClockSync(): ClockSync | null {
+    return currentClockSync;
+}
+
 /**
  * Calculate duration between two timestamps in milliseconds with high precision
  */
@@ -59,6 +79,7 @@ export class PrecisionTimer {
     private timingErrors: number[] = [];
     private maxTimingError: number = 0;
     private missedIntervals: number = 0;
+    private running: boolean = false;
 
     constructor(intervalMs: number, callback: () => void, enableDriftCompensation: boolean = true) {
         this.targetInterval = intervalMs;
@@ -80,6 +101,7 @@ export class PrecisionTimer {
         this.timingErrors = [];
         this.maxTimingError = 0;
         this.missedIntervals = 0;
+        this.running = true;
 
         this.scheduleNext();
     }
@@ -88,6 +110,8 @@ export class PrecisionTimer {
      * Stop the precision timer
      */
     stop(): void {
+        this.running = false;
+
         if (this.intervalId) {
             clearTimeout(this.intervalId);
             this.intervalId = null;
@@ -98,7 +122,7 @@ export class PrecisionTimer {
      * Check if timer is currently running
      */
     isRunning(): boolean {
-        return this.intervalId !== null;
+        return this.running;
     }
 
     /**
@@ -147,6 +171,9 @@ export class PrecisionTimer {
             console.error('Timer callback error:', error);
         }
 
+        // The callback may have stopped the timer
+        if (!this.running) return;
+
         // Calculate next interval with drift compensation
         this.intervalCount++;
         this.expectedTime += this.targetInterval;
@@ -0,0 +1,38 @@
+/**
+ * Clock synchronization and external event markers
+ *
+ * Main-process only: the SNTP client and server use Node's dgram module.
+ */
+
+import { DEFAULT_TIME_SYNC_CONFIG, TimeSyncConfig } from './time-sync-service';
+
+export { TimeSyncService, DEFAULT_TIME_SYNC_CONFIG, type TimeSyncConfig } from './time-sync-service';
+export {
+    NTP_PORT,
+    SntpServer,
+    parseServerAddress,
+    querySntpServer,
+    type SntpMeasurement,
+    type SntpServerAddress,
+    type SntpServerOptions
+} from './sntp';
+export { markerAlignmentOffset, validateMarkerInput } from './markers';
+
+/**
+ * Time sync settings - RNG_TIME_SERVERS lists host[:port] servers, comma-separated, and turns
+ * sync on; RNG_TIME_SYNC_INTERVAL sets the seconds between measurements. Null when off.
+ */
+export function getTimeSyncConfigFromEnv(env: NodeJS.ProcessEnv = process.env): TimeSyncConfig | null {
+    const servers = (env.RNG_TIME_SERVERS || '')
+        .split(',')
+        .map(server => server.trim())
+        .filter(Boolean);
+    if (servers.length === 0) return null;
+
+    const intervalSeconds = Number(env.RNG_TIME_SYNC_INTERVAL);
+    return {
+        ...DEFAULT_TIME_SYNC_CONFIG,
+        servers,
+        ...(intervalSeconds > 0 ? { intervalMs: intervalSeconds * 1000 } : {})
+    };
+}
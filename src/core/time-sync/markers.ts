@@ -0,0 +1,51 @@
+/**
+ * Placing external event markers on the trial timeline
+ *
+ * Trials carry this machine's clock. A recorder on the same machine shares it; a recorder
+ * elsewhere reports its own offset to the common time server, and the two offsets together
+ * give the distance between its clock and ours:
+ *   local = source + sourceOffset - localOffset
+ */
+
+import { ClockSync, EventMarkerInput } from '../../shared/types';
+
+/**
+ * Milliseconds to add to a marker's source timestamp to reach the trial timeline
+ */
+export function markerAlignmentOffset(input: Pick<EventMarkerInput, 'sourceOffsetMs'>, clockSync: ClockSync | null): number {
+    if (input.sourceOffsetMs === undefined) {
+        return 0;
+    }
+    if (!clockSync) {
+        throw new Error('Cannot align a marker from a synchronized recorder: this machine has not synchronized its clock');
+    }
+    return input.sourceOffsetMs - clockSync.offsetMs;
+}
+
+/**
+ * Check a submitted marker, returning the message of the first problem found
+ */
+export function validateMarkerInput(input: Partial<EventMarkerInput>): string | null {
+    if (typeof input.label !== 'string' || !input.label.trim()) {
+        return '"label" is required';
+    }
+    if (typeof input.source !== 'string' || !input.source.trim()) {
+        return '"source" is required';
+    }
+    if (typeof input.timestamp !== 'number' || !Number.isFinite(input.timestamp)) {
+        return '"timestamp" must be milliseconds since the epoch';
+    }
+    if (input.code !== undefined && !Number.isInteger(input.code)) {
+        return '"code" must be an integer';
+    }
+    if (input.sourceOffsetMs !== undefined && (typeof input.sourceOffsetMs !== 'number' || !Number.isFinite(input.sourceOffsetMs))) {
+        return '"sourceOffsetMs" must be a number';
+    }
+    if (input.sessionId !== undefined && typeof input.sessionId !== 'string') {
+        return '"sessionId" must be a string';
+    }
+    if (input.metadata !== undefined && (typeof input.metadata !== 'object' || input.metadata === null || Array.isArray(input.metadata))) {
+        return '"metadata" must be an object';
+    }
+    return null;
+}
@@ -0,0 +1,210 @@
+/**
+ * SNTP (RFC 4330) client, and a stand-in server for labs without a local time server
+ *
+ * Offset and delay follow the NTP on-wire calculation:
+ *   offset = ((T2 - T1) + (T3 - T4)) / 2,  delay = (T4 - T1) - (T3 - T2)
+ * with T1/T4 the client's send/receive times and T2/T3 the server's.
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+
+export const NTP_PORT = 123;
+
+const PACKET_BYTES = 48;
+
+/** Seconds from the NTP epoch (1900) to the Unix epoch (1970) */
+const NTP_UNIX_OFFSET = 2208988800;
+
+const MODE_CLIENT = 3;
+const MODE_SERVER = 4;
+const VERSION = 4;
+
+export interface SntpServerAddress {
+    host: string;
+    port: number;
+}
+
+export interface SntpMeasurement {
+    /** Server time minus local time (milliseconds) */
+    offsetMs: number;
+
+    /** Network round trip, excluding the server's processing time (milliseconds) */
+    roundTripMs: number;
+
+    /** Server stratum (1 = attached to a reference clock) */
+    stratum: number;
+}
+
+/**
+ * Parse "host", "host:port" or "[v6-address]:port"
+ */
+export function parseServerAddress(server: string): SntpServerAddress {
+    const trimmed = server.trim();
+    const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(trimmed);
+    const [host, port] = bracketed
+        ? [bracketed[1], bracketed[2]]
+        : net.isIPv6(trimmed) ? [trimmed, undefined] : trimmed.split(':');
+
+    const portNumber = port === undefined ? NTP_PORT : Number(port);
+    if (!host || !Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+        throw new Error(`Invalid time server address: ${server}`);
+    }
+    return { host, port: portNumber };
+}
+
+/**
+ * Measure the offset of the local clock against one server
+ */
+export function querySntpServer(
+    address: SntpServerAddress,
+    timeoutMs: number = 2000,
+    now: () => number = Date.now
+): Promise<SntpMeasurement> {
+    return new Promise((resolve, reject) => {
+        const socket = dgram.createSocket(net.isIPv6(address.host) ? 'udp6' : 'udp4');
+        const request = Buffer.alloc(PACKET_BYTES);
+        let sentAt = 0;
+        let done = false;
+
+        const finish = (error: Error | null, measurement?: SntpMeasurement) => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            socket.close();
+            if (error) reject(error);
+            else resolve(measurement!);
+        };
+        const timer = setTimeout(
+            () => finish(new Error(`No answer from ${address.host}:${address.port} within ${timeoutMs} ms`)),
+            timeoutMs
+        );
+
+        socket.on('error', error => finish(new Error(`Time server query failed: ${error.message}`)));
+        socket.on('message', (response: Buffer) => {
+            const receivedAt = now();
+
+            // Ignore stray datagrams; only an answer to this request counts
+            if (response.length < PACKET_BYTES || (response[0] & 0x07) !== MODE_SERVER ||
+                !response.subarray(24, 32).equals(request.subarray(40, 48))) {
+                return;
+            }
+
+            const stratum = response[1];
+            if (stratum === 0) {
+                finish(new Error(`${address.host}:${address.port} refused the request (kiss-o'-death)`));
+                return;
+            }
+
+            const serverReceived = readTimestamp(response, 32);
+            const serverSent = readTimestamp(response, 40);
+            finish(null, {
+                offsetMs: ((serverReceived - sentAt) + (serverSent - receivedAt)) / 2,
+                roundTripMs: Math.max(0, (receivedAt - sentAt) - (serverSent - serverReceived)),
+                stratum
+            });
+        });
+
+        request[0] = (VERSION << 3) | MODE_CLIENT;
+        sentAt = now();
+        writeTimestamp(request, 40, sentAt);
+        socket.send(request, address.port, address.host, error => {
+            if (error) finish(new Error(`Time server query failed: ${error.message}`));
+        });
+    });
+}
+
+export interface SntpServerOptions {
+    /** Added to the local clock, to serve a clock that differs from this machine's */
+    offsetMs?: number;
+
+    /** Stratum to report (default 1) */
+    stratum?: number;
+}
+
+/**
+ * Minimal SNTP server: answers client requests from the local clock
+ * Run it on the lab machine every recorder synchronizes against
+ */
+export class SntpServer {
+    private socket: dgram.Socket | null = null;
+    private offsetMs: number;
+    private stratum: number;
+
+    constructor(options: SntpServerOptions = {}) {
+        this.offsetMs = options.offsetMs ?? 0;
+        this.stratum = options.stratum ?? 1;
+    }
+
+    /**
+     * Listen on a UDP port (0 picks a free one); resolves with the bound port
+     */
+    async start(port: number = NTP_PORT, host: string = '127.0.0.1'): Promise<number> {
+        if (this.socket) {
+            return this.socket.address().port;
+        }
+
+        const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+        socket.on('message', (request: Buffer, client) => this.answer(socket, request, client));
+
+        await new Promise<void>((resolve, reject) => {
+            socket.once('error', reject);
+            socket.bind(port, host, () => {
+                socket.off('error', reject);
+                resolve();
+            });
+        });
+        socket.on('error', error => console.error('SNTP server error:', error));
+
+        this.socket = socket;
+        return socket.address().port;
+    }
+
+    async stop(): Promise<void> {
+        const socket = this.socket;
+        this.socket = null;
+        if (socket) {
+            await new Promise<void>(resolve => socket.close(() => resolve()));
+        }
+    }
+
+    private answer(socket: dgram.Socket, request: Buffer, client: dgram.RemoteInfo): void {
+        const receivedAt = Date.now() + this.offsetMs;
+        if (request.length < PACKET_BYTES || (request[0] & 0x07) !== MODE_CLIENT) return;
+
+        const response = Buffer.alloc(PACKET_BYTES);
+        response[0] = (request[0] & 0x38) | MODE_SERVER;
+        response[1] = this.stratum;
+        response[2] = request[2];
+        response[3] = 0xec; // precision 2^-20 s
+        response.write('LOCL', 12, 'ascii');
+        request.copy(response, 24, 40, 48);
+        writeTimestamp(response, 16, receivedAt);
+        writeTimestamp(response, 32, receivedAt);
+        writeTimestamp(response, 40, Date.now() + this.offsetMs);
+
+        socket.send(response, client.port, client.address);
+    }
+}
+
+/**
+ * Write Unix milliseconds as a 64-bit NTP timestamp
+ */
+function writeTimestamp(buffer: Buffer, offset: number, unixMs: number): void {
+    const seconds = Math.floor(unixMs / 1000);
+    const fraction = Math.floor(((unixMs - seconds * 1000) / 1000) * 0x100000000);
+    buffer.writeUInt32BE((seconds + NTP_UNIX_OFFSET) % 0x100000000, offset);
+    buffer.writeUInt32BE(fraction, offset + 4);
+}
+
+/**
+ * Read a 64-bit NTP timestamp as Unix milliseconds
+ */
+function readTimestamp(buffer: Buffer, offset: number): number {
+    const seconds = buffer.readUInt32BE(offset);
+    const fraction = buffer.readUInt32BE(offset + 4);
+
+    // Era 1 starts in 2036 with the high bit clear again (RFC 4330 section 3)
+    const era = seconds < 0x80000000 ? 0x100000000 : 0;
+    return (seconds + era - NTP_UNIX_OFFSET) * 1000 + (fraction / 0x100000000) * 1000;
+}
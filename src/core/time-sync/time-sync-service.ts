@@ -0,0 +1,135 @@
+/**
+ * Time Sync Service - periodically measures the local clock against the configured time servers
+ *
+ * Trials stay stamped with the local clock. Each measurement is published through
+ * time-manager so new sessions record the offset in force, and external markers
+ * from synchronized recorders can be moved onto the trial timeline.
+ */
+
+import { EventEmitter } from 'events';
+import { ClockSync, TimeSyncStatus } from '../../shared/types';
+import { setClockSync } from '../time-manager';
+import { parseServerAddress, querySntpServer, SntpMeasurement } from './sntp';
+
+export interface TimeSyncConfig {
+    /** Servers as host[:port], tried in order until one answers */
+    servers: string[];
+
+    /** Re-measure this often (milliseconds) */
+    intervalMs: number;
+
+    /** Queries per measurement; the one with the shortest round trip wins */
+    samples: number;
+
+    /** Wait this long for each answer (milliseconds) */
+    timeoutMs: number;
+}
+
+export const DEFAULT_TIME_SYNC_CONFIG: Omit<TimeSyncConfig, 'servers'> = {
+    intervalMs: 10 * 60 * 1000,
+    samples: 4,
+    timeoutMs: 2000
+};
+
+export class TimeSyncService extends EventEmitter {
+    private config: TimeSyncConfig;
+    private lastSync: ClockSync | null = null;
+    private lastError: string | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private pending: Promise<ClockSync | null> | null = null;
+
+    constructor(config: Partial<TimeSyncConfig> & Pick<TimeSyncConfig, 'servers'>) {
+        super();
+        if (config.servers.length === 0) {
+            throw new Error('Time sync needs at least one server');
+        }
+        this.config = { ...DEFAULT_TIME_SYNC_CONFIG, ...config };
+
+        // Reject malformed addresses up front rather than on every attempt
+        this.config.servers.forEach(parseServerAddress);
+    }
+
+    /**
+     * Measure now and then every intervalMs
+     */
+    async start(): Promise<ClockSync | null> {
+        if (!this.timer) {
+            this.timer = setInterval(() => {
+                this.sync().catch(() => undefined);
+            }, this.config.intervalMs);
+            this.timer.unref?.();
+        }
+        return this.sync();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * One measurement against the first server that answers
+     * Keeps the previous offset when every server fails, and resolves to null
+     */
+    sync(): Promise<ClockSync | null> {
+        if (!this.pending) {
+            this.pending = this.measure().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    getStatus(): TimeSyncStatus {
+        return {
+            servers: [...this.config.servers],
+            lastSync: this.lastSync,
+            lastError: this.lastError
+        };
+    }
+
+    private async measure(): Promise<ClockSync | null> {
+        const failures: string[] = [];
+
+        for (const server of this.config.servers) {
+            try {
+                const best = await this.sampleServer(server);
+                const sync: ClockSync = {
+                    offsetMs: best.offsetMs,
+                    uncertaintyMs: best.roundTripMs / 2,
+                    server,
+                    syncedAt: new Date()
+                };
+
+                this.lastSync = sync;
+                this.lastError = null;
+                setClockSync(sync);
+                this.emit('synced', sync);
+                return sync;
+            } catch (error) {
+                failures.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        this.lastError = `Clock sync failed: ${failures.join('; ')}`;
+        console.warn(this.lastError);
+        this.emit('syncFailed', this.lastError);
+        return null;
+    }
+
+    private async sampleServer(server: string): Promise<SntpMeasurement> {
+        const address = parseServerAddress(server);
+        let best: SntpMeasurement | null = null;
+
+        for (let i = 0; i < this.config.samples; i++) {
+            const measurement = await querySntpServer(address, this.config.timeoutMs);
+            if (!best || measurement.roundTripMs < best.roundTripMs) {
+                best = measurement;
+            }
+        }
+
+        return best!;
+    }
+}
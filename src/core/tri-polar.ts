@@ -0,0 +1,75 @@
+/**
+ * Tri-Polar Protocol
+ * Schedules balanced high / low / baseline runs for a session series, optionally
+ * drawing the order within each block from the RNG's own entropy source
+ */
+
+import { EntropySource } from './entropy';
+import { SeriesOrder, SeriesRun } from '../shared/types';
+
+type RunIntention = SeriesRun['intention'];
+
+/** Run order within a block when the series is not randomized */
+export const TRI_POLAR_INTENTIONS: readonly RunIntention[] = ['high', 'low', 'baseline'];
+
+export class TriPolarProtocol {
+
+    /**
+     * Build the run schedule: every block holds one run of each intention
+     * Randomized series need an entropy source to draw each block's permutation from
+     */
+    static schedule(
+        blocks: number,
+        order: SeriesOrder,
+        source?: EntropySource
+    ): Array<Omit<SeriesRun, 'sessionId' | 'status' | 'startedAt'>> {
+        if (!Number.isInteger(blocks) || blocks < 1) {
+            throw new Error(`A series needs a positive whole number of blocks, got ${blocks}`);
+        }
+        if (order === 'randomized' && !source) {
+            throw new Error('A randomized series needs an entropy source');
+        }
+
+        const runs: Array<Omit<SeriesRun, 'sessionId' | 'status' | 'startedAt'>> = [];
+        for (let block = 1; block <= blocks; block++) {
+            const intentions = order === 'randomized'
+                ? this.shuffle(TRI_POLAR_INTENTIONS, source!)
+                : [...TRI_POLAR_INTENTIONS];
+
+            intentions.forEach(intention => {
+                runs.push({ position: runs.length + 1, block, intention });
+            });
+        }
+
+        return runs;
+    }
+
+    /**
+     * Fisher-Yates shuffle driven by the entropy source
+     */
+    static shuffle<T>(items: readonly T[], source: EntropySource): T[] {
+        const shuffled = [...items];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = this.uniformInt(i + 1, source);
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    }
+
+    /**
+     * Unbiased integer in [0, n) from single entropy bytes, by rejection sampling
+     */
+    private static uniformInt(n: number, source: EntropySource): number {
+        if (n > 256) {
+            throw new Error(`Cannot draw from ${n} values with single bytes`);
+        }
+
+        const limit = 256 - (256 % n);
+        for (;;) {
+            const byte = source.getBytes(1)[0];
+            if (byte < limit) {
+                return byte % n;
+            }
+        }
+    }
+}
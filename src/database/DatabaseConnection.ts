@@ -4,6 +4,7 @@
  */
 
 import { DatabaseManager, getDatabaseManager, type DatabaseConfig } from './connection';
+import type { MigrationOptions, MigrationResult } from './migrator';
 import Database from 'better-sqlite3';
 
 /**
@@ -61,8 +62,8 @@ export class DatabaseConnection {
     /**
      * Run database migrations
      */
-    async migrate(): Promise<void> {
-        return this.databaseManager.migrate();
+    async migrate(options?: MigrationOptions): Promise<MigrationResult> {
+        return this.databaseManager.migrate(options);
     }
 
     /**
@@ -7,6 +7,7 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { MigrationRunner, type MigrationOptions, type MigrationResult } from './migrator';
 
 const readFile = promisify(fs.readFile);
 const writeFile = promisify(fs.writeFile);
@@ -55,6 +56,9 @@ export class DatabaseManager {
             // Ensure data directories exist
             await this.ensureDirectoriesExist();
 
+            // A brand-new file has nothing worth backing up before migrating
+            const isNewDatabase = this.config.dbPath === ':memory:' || !fs.existsSync(this.config.dbPath);
+
             // Create database connection
             this.db = new Database(this.config.dbPath);
 
@@ -65,7 +69,7 @@ export class DatabaseManager {
             await this.initializeSchema();
 
             // Run migrations if needed
-            await this.migrate();
+            await this.migrate({ backup: !isNewDatabase });
 
             this.isInitialized = true;
             console.log(`Database initialized successfully at: ${this.config.dbPath}`);
@@ -85,6 +89,13 @@ export class DatabaseManager {
         return this.db;
     }
 
+    /**
+     * Get the active configuration
+     */
+    getConfig(): DatabaseConfig {
+        return { ...this.config };
+    }
+
     /**
      * Close the database connection
      */
@@ -114,24 +125,13 @@ export class DatabaseManager {
             await mkdir(this.config.backupPath, { recursive: true });
 
             // Create backup using SQLite backup API
-            const backup = this.db.backup(backupPath);
-
-            // Wait for backup to complete
-            await new Promise<void>((resolve, reject) => {
-                (backup as any).on('progress', ({ totalPages, remainingPages }: any) => {
+            await this.db.backup(backupPath, {
+                progress: ({ totalPages, remainingPages }) => {
                     console.log(`Backing up database: ${totalPages - remainingPages}/${totalPages} pages`);
-                });
-
-                (backup as any).on('done', () => {
-                    console.log(`Database backup completed: ${backupPath}`);
-                    resolve();
-                });
-
-                (backup as any).on('error', (error: any) => {
-                    console.error('Backup failed:', error);
-                    reject(error);
-                });
+                    return 100;
+                }
             });
+            console.log(`Database backup completed: ${backupPath}`);
 
             return backupPath;
         } catch (error: unknown) {
@@ -167,26 +167,42 @@ export class DatabaseManager {
 
     /**
      * Run database migrations
+     * Brings the schema to the target version (latest by default), backing up first when anything is pending
      */
-    async migrate(): Promise<void> {
+    async migrate(options: MigrationOptions = {}): Promise<MigrationResult> {
         if (!this.db) {
             throw new Error('Database not initialized');
         }
 
         try {
-            // Get current schema version
-            const currentVersion = this.getCurrentSchemaVersion();
-            console.log(`Current schema version: ${currentVersion}`);
+            const runner = new MigrationRunner(this.db);
+            runner.verifyChecksums();
 
-            // Run migrations if needed
-            // Currently at version 1.0.0, but prepared for future migrations
-            if (currentVersion === '1.0.0') {
+            const plan = runner.plan(options.targetVersion);
+            console.log(`Current schema version: ${plan.fromVersion}`);
+
+            if (plan.migrations.length === 0) {
                 console.log('Schema is up to date');
-                return;
+                return { ...plan, direction: 'none', applied: [], dryRun: options.dryRun === true };
             }
 
-            // Future migration logic would go here
-            console.log('Migration completed successfully');
+            let backupPath: string | undefined;
+            if (!options.dryRun && options.backup !== false) {
+                // Import DatabaseMaintenance here to avoid circular dependencies
+                const { DatabaseMaintenance } = require('./maintenance');
+                const backup = await new DatabaseMaintenance(this)
+                    .createManualBackup(`pre-migration-${plan.fromVersion}-to-${plan.toVersion}`);
+                backupPath = backup.filepath;
+            }
+
+            const result = runner.run(options);
+            result.backupPath = backupPath;
+
+            console.log(
+                `${result.dryRun ? 'Dry run: would migrate' : 'Migrated'} schema ${result.direction} ` +
+                `from ${result.fromVersion} to ${result.toVersion} (${result.applied.length} migration(s))`
+            );
+            return result;
         } catch (error: unknown) {
             console.error('Migration failed:', error);
             throw new Error(`Migration failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -401,19 +417,6 @@ export class DatabaseManager {
         }
     }
 
-    private getCurrentSchemaVersion(): string {
-        if (!this.db) return '0.0.0';
-
-        try {
-            const stmt = this.db.prepare('SELECT value FROM database_metadata WHERE key = ?');
-            const result = stmt.get('schema_version') as { value: string } | undefined;
-            return result?.value || '0.0.0';
-        } catch (error) {
-            console.warn('Could not retrieve schema version:', error);
-            return '0.0.0';
-        }
-    }
-
     private getFileSize(filePath: string): number {
         try {
             const stats = fs.statSync(filePath);
@@ -0,0 +1,131 @@
+/**
+ * Batch Export Script
+ * Exports one database in several formats from a single snapshot of the data
+ *
+ * npm run export -- --db <path> [--format xlsx,r,matlab,spss,datapackage] [--from 2024-01-01] [--to 2024-02-01]
+ *                   [--session <id>]... [--out <directory>] [--prefix <name>]
+ */
+
+import * as path from 'path';
+import { getDatabaseManager } from '../connection';
+import { ExportFormat, ExportMetadata } from '../../shared/types';
+import { DataExporter } from './data-exporter';
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx', 'r', 'matlab', 'spss', 'datapackage'];
+
+export interface BatchExportOptions {
+    dbPath: string;
+    formats: ExportFormat[];
+    startDate?: Date;
+    endDate?: Date;
+    sessionIds?: string[];
+    directory?: string;
+    prefix?: string;
+}
+
+/**
+ * Parse command-line arguments (without the node and script entries)
+ */
+export function parseBatchArgs(args: string[]): BatchExportOptions {
+    const options: Partial<BatchExportOptions> = { formats: FORMATS };
+    const sessionIds: string[] = [];
+
+    const date = (flag: string, value: string): Date => {
+        const parsed = new Date(value);
+        if (isNaN(parsed.getTime())) {
+            throw new Error(`${flag} expects a date, got "${value}"`);
+        }
+        return parsed;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const flag = args[i];
+        const value = args[i + 1];
+        if (value === undefined) {
+            throw new Error(`Missing value for ${flag}`);
+        }
+        i++;
+
+        switch (flag) {
+            case '--db':
+                options.dbPath = value;
+                break;
+            case '--format':
+                options.formats = value.split(',').map(format => {
+                    if (!FORMATS.includes(format as ExportFormat)) {
+                        throw new Error(`Unknown format "${format}"; expected one of ${FORMATS.join(', ')}`);
+                    }
+                    return format as ExportFormat;
+                });
+                break;
+            case '--from':
+                options.startDate = date(flag, value);
+                break;
+            case '--to':
+                options.endDate = date(flag, value);
+                break;
+            case '--session':
+                sessionIds.push(value);
+                break;
+            case '--out':
+                options.directory = value;
+                break;
+            case '--prefix':
+                options.prefix = value;
+                break;
+            default:
+                throw new Error(`Unknown option ${flag}`);
+        }
+    }
+
+    if (!options.dbPath) {
+        throw new Error('--db is required');
+    }
+
+    return { ...options, sessionIds: sessionIds.length > 0 ? sessionIds : undefined } as BatchExportOptions;
+}
+
+/**
+ * Export every requested format from the same collected dataset
+ */
+export async function runBatchExport(options: BatchExportOptions): Promise<ExportMetadata[]> {
+    const dbManager = getDatabaseManager({
+        dbPath: options.dbPath,
+        backupPath: path.join(path.dirname(options.dbPath), 'backups')
+    });
+    await dbManager.initialize();
+
+    try {
+        const exporter = new DataExporter(dbManager);
+        const dataset = await exporter.collect({
+            startDate: options.startDate,
+            endDate: options.endDate,
+            sessionIds: options.sessionIds
+        });
+
+        const results: ExportMetadata[] = [];
+        for (const format of options.formats) {
+            results.push(await exporter.writeDataset(dataset, format, {
+                directory: options.directory,
+                prefix: options.prefix
+            }));
+        }
+        return results;
+    } finally {
+        dbManager.close();
+    }
+}
+
+// Run export if called directly
+if (require.main === module) {
+    Promise.resolve()
+        .then(() => runBatchExport(parseBatchArgs(process.argv.slice(2))))
+        .then(results => {
+            results.forEach(result => console.log(`${result.format}: ${result.filePath}`));
+            process.exit(0);
+        })
+        .catch(error => {
+            console.error(`Batch export failed: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,39 @@
+/**
+ * CSV writer
+ * RFC 4180 text with a header row; datetimes as ISO 8601 UTC and missing values as empty fields
+ */
+
+import { dictionaryTable, formatDatetime } from './dictionary';
+import type { ExportDataset, ExportFile, ExportTable, ExportValue } from './types';
+
+function csvField(value: ExportValue): string {
+    if (value === null) return '';
+
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render one table as CSV
+ */
+export function tableToCsv(table: ExportTable): string {
+    const lines = [table.columns.map(column => csvField(column.name)).join(',')];
+
+    for (const row of table.rows) {
+        lines.push(row.map((value, i) =>
+            csvField(table.columns[i].type === 'datetime' && value !== null ? formatDatetime(Number(value)) : value)
+        ).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * One CSV per table plus the data dictionary
+ */
+export function renderCsv(dataset: ExportDataset, baseName: string): ExportFile[] {
+    return [...dataset.tables, dictionaryTable(dataset)].map(table => ({
+        name: `${baseName}_${table.name}.csv`,
+        data: Buffer.from(tableToCsv(table), 'utf8')
+    }));
+}
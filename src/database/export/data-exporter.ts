@@ -0,0 +1,409 @@
+/**
+ * Data Exporter - Single export pipeline for every output format
+ * Collects sessions, trials, intention periods, per-session statistics and, on request,
+ * calibration runs and the export log into format-independent tables and renders them
+ * through the format writers
+ */
+
+import Database from 'better-sqlite3';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+import { ExportFormat, ExportMetadata, ExportedFile } from '../../shared/types';
+import { dictionaryTable, toObjects } from './dictionary';
+import { twoTailedP } from './statistics';
+import { renderCsv } from './csv-writer';
+import { renderR } from './r-writer';
+import { renderXlsx } from './xlsx-writer';
+import { renderMat } from './mat-writer';
+import { renderSav } from './sav-writer';
+import { renderDataPackage } from './data-package';
+import type {
+    ExportColumn,
+    DataPackageRequest,
+    ExportDataset,
+    ExportFile,
+    ExportQuery,
+    ExportRequest,
+    ExportTable,
+    ExportValue,
+    ExportWriteOptions
+} from './types';
+
+const INTENTIONS = ['high', 'low', 'baseline'];
+
+const SESSION_COLUMNS: ExportColumn[] = [
+    { name: 'id', label: 'Session ID', type: 'string' },
+    { name: 'participant', label: 'Participant code', type: 'string' },
+    { name: 'start_time', label: 'Session start', type: 'datetime' },
+    { name: 'end_time', label: 'Session end', type: 'datetime' },
+    { name: 'intention', label: 'Operator intention', type: 'factor', levels: INTENTIONS },
+    { name: 'feedback', label: 'Real-time feedback modality', type: 'factor', levels: ['chart', 'audio', 'pendulum', 'fountain', 'counter', 'none'] },
+    { name: 'status', label: 'Session status', type: 'factor', levels: ['running', 'completed', 'stopped'] },
+    { name: 'target_trials', label: 'Planned trials', type: 'integer' },
+    { name: 'actual_trials', label: 'Recorded trials', type: 'integer' },
+    { name: 'duration', label: 'Session duration', type: 'integer', unit: 'ms' },
+    { name: 'preregistration_id', label: 'Pre-registration ID', type: 'string' },
+    { name: 'notes', label: 'Session notes', type: 'string' }
+];
+
+const TRIAL_COLUMNS: ExportColumn[] = [
+    { name: 'session_id', label: 'Session ID (empty for continuous mode)', type: 'string' },
+    { name: 'timestamp', label: 'Trial time', type: 'datetime' },
+    { name: 'trial_number', label: 'Trial number within the session', type: 'integer' },
+    { name: 'trial_value', label: 'Sum of 200 random bits (expected mean 100, variance 50)', type: 'integer' },
+    { name: 'experiment_mode', label: 'Experiment mode', type: 'factor', levels: ['session', 'continuous'] },
+    { name: 'intention', label: 'Operator intention', type: 'factor', levels: INTENTIONS }
+];
+
+const INTENTION_PERIOD_COLUMNS: ExportColumn[] = [
+    { name: 'id', label: 'Intention period ID', type: 'string' },
+    { name: 'participant', label: 'Participant code', type: 'string' },
+    { name: 'start_time', label: 'Period start', type: 'datetime' },
+    { name: 'end_time', label: 'Period end', type: 'datetime' },
+    { name: 'intention', label: 'Operator intention', type: 'factor', levels: ['high', 'low'] },
+    { name: 'session_id', label: 'Linked session ID', type: 'string' },
+    { name: 'notes', label: 'Period notes', type: 'string' }
+];
+
+const STATISTICS_COLUMNS: ExportColumn[] = [
+    { name: 'session_id', label: 'Session ID', type: 'string' },
+    { name: 'intention', label: 'Operator intention', type: 'factor', levels: INTENTIONS },
+    { name: 'trial_count', label: 'Trials', type: 'integer' },
+    { name: 'mean', label: 'Mean trial value', type: 'numeric' },
+    { name: 'variance', label: 'Sample variance of trial values', type: 'numeric' },
+    { name: 'cumulative_deviation', label: 'Sum of deviations from 100', type: 'numeric', unit: 'bits' },
+    { name: 'z_score', label: 'z of the mean against 100 with variance 50', type: 'numeric' },
+    { name: 'p_value', label: 'Two-tailed p of z', type: 'numeric' },
+    { name: 'effect_size', label: 'z / sqrt(trials)', type: 'numeric' }
+];
+
+const CALIBRATION_COLUMNS: ExportColumn[] = [
+    { name: 'id', label: 'Calibration run ID', type: 'string' },
+    { name: 'start_time', label: 'Run start', type: 'datetime' },
+    { name: 'end_time', label: 'Run end', type: 'datetime' },
+    { name: 'trial_count', label: 'Trials', type: 'integer' },
+    { name: 'mean_value', label: 'Mean trial value', type: 'numeric' },
+    { name: 'variance', label: 'Variance of trial values', type: 'numeric' },
+    { name: 'standard_deviation', label: 'Standard deviation of trial values', type: 'numeric' },
+    { name: 'z_score', label: 'z of the mean against 100 with variance 50', type: 'numeric' },
+    { name: 'p_value', label: 'Two-tailed p of z', type: 'numeric' },
+    { name: 'chi_square', label: 'Chi-square goodness of fit', type: 'numeric' },
+    { name: 'runs_test', label: 'Runs test statistic', type: 'numeric' },
+    { name: 'autocorrelation', label: 'Lag-1 autocorrelation', type: 'numeric' },
+    { name: 'passed_randomness_test', label: 'Passed the randomness tests (1 = yes)', type: 'integer' },
+    { name: 'notes', label: 'Run notes', type: 'string' }
+];
+
+const EXPORT_LOG_COLUMNS: ExportColumn[] = [
+    { name: 'id', label: 'Export ID', type: 'string' },
+    { name: 'export_type', label: 'Export format', type: 'string' },
+    { name: 'data_range_start', label: 'Start of the exported range', type: 'datetime' },
+    { name: 'data_range_end', label: 'End of the exported range', type: 'datetime' },
+    { name: 'trial_count', label: 'Trials exported', type: 'integer' },
+    { name: 'session_count', label: 'Sessions exported', type: 'integer' },
+    { name: 'file_name', label: 'Main file of the export', type: 'string' },
+    { name: 'checksum', label: 'SHA-256 of the main file', type: 'string' },
+    { name: 'exported_at', label: 'Export time', type: 'datetime' }
+];
+
+function toRows(columns: ExportColumn[], records: Record<string, unknown>[]): ExportValue[][] {
+    return records.map(record => columns.map(column => {
+        const value = record[column.name];
+        return value === undefined || value === null ? null : value as string | number;
+    }));
+}
+
+export class DataExporter {
+    private db: Database.Database;
+    private exportPath: string;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.exportPath = path.join(path.dirname(manager.getConfig().dbPath), 'exports');
+    }
+
+    /**
+     * Collect the requested tables
+     */
+    async collect(query: ExportQuery = {}, title = 'RNG Consciousness Experiment Data'): Promise<ExportDataset> {
+        try {
+            const tables: ExportTable[] = [];
+
+            if (query.includeSessions !== false) {
+                const { where, params } = this.filter(query, 's.start_time', 's.id');
+                const records = this.db.prepare(`
+                    SELECT s.*, p.code AS participant
+                    FROM sessions s
+                    LEFT JOIN participants p ON p.id = s.participant_id
+                    ${where}
+                    ORDER BY s.start_time
+                `).all(...params) as Record<string, unknown>[];
+                tables.push({ name: 'sessions', label: 'Sessions', columns: SESSION_COLUMNS, rows: toRows(SESSION_COLUMNS, records) });
+            }
+
+            if (query.includeTrials !== false) {
+                const { where, params } = this.filter(query, 'timestamp', 'session_id');
+                const records = this.db.prepare(`
+                    SELECT * FROM trials ${where} ORDER BY timestamp, trial_number
+                `).all(...params) as Record<string, unknown>[];
+                tables.push({ name: 'trials', label: 'Trials', columns: TRIAL_COLUMNS, rows: toRows(TRIAL_COLUMNS, records) });
+            }
+
+            if (query.includeIntentionPeriods !== false) {
+                const { where, params } = this.filter(query, 'i.start_time', 'i.session_id');
+                const records = this.db.prepare(`
+                    SELECT i.*, p.code AS participant
+                    FROM intention_periods i
+                    LEFT JOIN participants p ON p.id = i.participant_id
+                    ${where}
+                    ORDER BY i.start_time
+                `).all(...params) as Record<string, unknown>[];
+                tables.push({
+                    name: 'intention_periods',
+                    label: 'Continuous-mode intention periods',
+                    columns: INTENTION_PERIOD_COLUMNS,
+                    rows: toRows(INTENTION_PERIOD_COLUMNS, records)
+                });
+            }
+
+            if (query.includeStatistics !== false) {
+                tables.push({
+                    name: 'session_statistics',
+                    label: 'Per-session statistics',
+                    columns: STATISTICS_COLUMNS,
+                    rows: toRows(STATISTICS_COLUMNS, this.sessionStatistics(query))
+                });
+            }
+
+            if (query.includeCalibrations) {
+                const { where, params } = this.filter({ ...query, sessionIds: undefined }, 'start_time');
+                const records = this.db.prepare(`
+                    SELECT * FROM calibration_runs ${where} ORDER BY start_time
+                `).all(...params) as Record<string, unknown>[];
+                tables.push({
+                    name: 'calibrations',
+                    label: 'Calibration runs',
+                    columns: CALIBRATION_COLUMNS,
+                    rows: toRows(CALIBRATION_COLUMNS, records)
+                });
+            }
+
+            if (query.includeExportLog) {
+                const records = (this.db.prepare(`
+                    SELECT * FROM export_log ORDER BY exported_at, rowid
+                `).all() as Array<Record<string, unknown> & { file_path: string; exported_at: number }>)
+                    .map(record => ({ ...record, file_name: path.basename(record.file_path), exported_at: record.exported_at * 1000 }));
+                tables.push({
+                    name: 'export_log',
+                    label: 'Earlier exports and their checksums',
+                    columns: EXPORT_LOG_COLUMNS,
+                    rows: toRows(EXPORT_LOG_COLUMNS, records)
+                });
+            }
+
+            return { title, exportedAt: new Date(), query, tables };
+        } catch (error) {
+            console.error('Failed to collect export data:', error);
+            throw new Error(`Export data collection failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Render a dataset in one format; the main file comes first
+     */
+    static render(dataset: ExportDataset, format: ExportFormat, baseName: string): ExportFile[] {
+        switch (format) {
+            case 'csv':
+                return renderCsv(dataset, baseName);
+            case 'json':
+                return [{ name: `${baseName}.json`, data: Buffer.from(JSON.stringify(DataExporter.toJson(dataset), null, 2), 'utf8') }];
+            case 'xlsx':
+                return renderXlsx(dataset, baseName);
+            case 'r':
+                return renderR(dataset, baseName);
+            case 'matlab':
+                return renderMat(dataset, baseName);
+            case 'spss':
+                return renderSav(dataset, baseName);
+            case 'datapackage':
+                return renderDataPackage(dataset, baseName);
+            default:
+                throw new Error(`Unsupported export format: ${format}`);
+        }
+    }
+
+    /**
+     * Collect, render and write an export, then record it in the export log
+     */
+    async exportData(request: ExportRequest, options: ExportWriteOptions = {}): Promise<ExportMetadata> {
+        return this.writeDataset(await this.collect(request), request.format, options);
+    }
+
+    /**
+     * Publish a self-describing data package (.zip) with calibration runs and the checksums
+     * of earlier exports, ready for deposit in a data repository
+     */
+    async publishPackage(request: DataPackageRequest, options: ExportWriteOptions = {}): Promise<ExportMetadata> {
+        const dataset = await this.collect({ ...request, includeCalibrations: true, includeExportLog: true }, request.details.title);
+        return this.writeDataset({ ...dataset, details: request.details }, 'datapackage', {
+            ...options,
+            prefix: options.prefix ?? 'rng-datapackage'
+        });
+    }
+
+    /**
+     * Render and write a collected dataset, then record it in the export log
+     * Multi-file formats (csv, r, spss) are written to their own subdirectory
+     */
+    async writeDataset(dataset: ExportDataset, format: ExportFormat, options: ExportWriteOptions = {}): Promise<ExportMetadata> {
+        try {
+            const timestamp = dataset.exportedAt.toISOString().replace(/[:.]/g, '-');
+            const baseName = `${options.prefix ?? 'rng-export'}-${timestamp}`;
+            const rendered = DataExporter.render(dataset, format, baseName);
+
+            const directory = rendered.length > 1
+                ? path.join(options.directory ?? this.exportPath, baseName)
+                : options.directory ?? this.exportPath;
+            await fs.mkdir(directory, { recursive: true });
+
+            const files: ExportedFile[] = [];
+            for (const file of rendered) {
+                const filePath = path.join(directory, file.name);
+                await fs.writeFile(filePath, file.data);
+                files.push({
+                    filePath,
+                    checksum: crypto.createHash('sha256').update(file.data).digest('hex'),
+                    size: file.data.length
+                });
+            }
+
+            const rowCount = (name: string) => dataset.tables.find(table => table.name === name)?.rows.length ?? 0;
+            const metadata: ExportMetadata = {
+                exportedAt: dataset.exportedAt,
+                dataRange: {
+                    startTime: dataset.query.startDate ?? new Date(0),
+                    endTime: dataset.query.endDate ?? dataset.exportedAt
+                },
+                trialCount: rowCount('trials'),
+                sessionCount: rowCount('sessions'),
+                format,
+                filePath: files[0].filePath,
+                checksum: files[0].checksum,
+                files
+            };
+
+            this.logExport(metadata);
+            console.log(`Exported ${format} data to: ${metadata.filePath}`);
+            return metadata;
+        } catch (error) {
+            console.error('Export failed:', error);
+            throw new Error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private static toJson(dataset: ExportDataset): object {
+        return {
+            metadata: {
+                title: dataset.title,
+                exportedAt: dataset.exportedAt.toISOString(),
+                filters: {
+                    startDate: dataset.query.startDate?.toISOString(),
+                    endDate: dataset.query.endDate?.toISOString(),
+                    sessionIds: dataset.query.sessionIds
+                }
+            },
+            dictionary: toObjects(dictionaryTable(dataset)),
+            tables: Object.fromEntries(dataset.tables.map(table => [table.name, toObjects(table)]))
+        };
+    }
+
+    private filter(query: ExportQuery, timeColumn: string, sessionColumn?: string): { where: string; params: unknown[] } {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.startDate) {
+            conditions.push(`${timeColumn} >= ?`);
+            params.push(query.startDate.getTime());
+        }
+
+        if (query.endDate) {
+            conditions.push(`${timeColumn} <= ?`);
+            params.push(query.endDate.getTime());
+        }
+
+        if (sessionColumn && query.sessionIds && query.sessionIds.length > 0) {
+            conditions.push(`${sessionColumn} IN (${query.sessionIds.map(() => '?').join(',')})`);
+            params.push(...query.sessionIds);
+        }
+
+        return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+    }
+
+    private sessionStatistics(query: ExportQuery): Record<string, unknown>[] {
+        const { where, params } = this.filter(query, 's.start_time', 's.id');
+        const rows = this.db.prepare(`
+            SELECT
+                s.id AS session_id,
+                s.intention,
+                COUNT(t.id) AS trial_count,
+                SUM(t.trial_value) AS trial_sum,
+                SUM(t.trial_value * t.trial_value) AS trial_sum_squares
+            FROM sessions s
+            LEFT JOIN trials t ON t.session_id = s.id
+            ${where}
+            GROUP BY s.id
+            ORDER BY s.start_time
+        `).all(...params) as Array<{ session_id: string; intention: string; trial_count: number; trial_sum: number | null; trial_sum_squares: number | null }>;
+
+        return rows.map(row => {
+            const n = row.trial_count;
+            if (n === 0) {
+                return { session_id: row.session_id, intention: row.intention, trial_count: 0 };
+            }
+
+            const sum = row.trial_sum ?? 0;
+            const deviation = sum - 100 * n;
+            const zScore = deviation / Math.sqrt(50 * n);
+
+            return {
+                session_id: row.session_id,
+                intention: row.intention,
+                trial_count: n,
+                mean: sum / n,
+                variance: n > 1 ? ((row.trial_sum_squares ?? 0) - sum * sum / n) / (n - 1) : null,
+                cumulative_deviation: deviation,
+                z_score: zScore,
+                p_value: twoTailedP(zScore),
+                effect_size: zScore / Math.sqrt(n)
+            };
+        });
+    }
+
+    private logExport(metadata: ExportMetadata): void {
+        try {
+            this.db.prepare(`
+                INSERT INTO export_log (
+                    id, export_type, data_range_start, data_range_end,
+                    trial_count, session_count, file_path, checksum
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                crypto.randomUUID(),
+                metadata.format,
+                metadata.dataRange.startTime.getTime(),
+                metadata.dataRange.endTime.getTime(),
+                metadata.trialCount,
+                metadata.sessionCount,
+                metadata.filePath,
+                metadata.checksum
+            );
+        } catch (error) {
+            console.error('Failed to log export:', error);
+        }
+    }
+}
+
@@ -0,0 +1,378 @@
+/**
+ * Data package writer
+ * Frictionless tabular data package (.zip): datapackage.json with field schemas, units and
+ * SHA-256 hashes, one CSV resource per table, analysis results, methodology, a replication
+ * README and a SHA256SUMS file, ready to deposit on OSF or Zenodo
+ */
+
+import * as crypto from 'crypto';
+import type {
+    AnalysisResult,
+    DataPackage,
+    DataPackageMetadata,
+    DataSchema,
+    Documentation
+} from '../../shared/analysis-types';
+import { tableToCsv } from './csv-writer';
+import { toObjects } from './dictionary';
+import { twoTailedP } from './statistics';
+import { zipFiles } from './zip-writer';
+import type { ExportColumn, ExportColumnType, ExportDataset, ExportFile, ExportTable } from './types';
+
+export const DEFAULT_METHODOLOGY = [
+    'Each trial is the sum of 200 random bits from the application\'s random number generator, taken once per second.',
+    'Under the null hypothesis trial values have mean 100 and variance 50.',
+    '',
+    'Session mode: before each session the operator chooses an intention (high, low or baseline) and tries to shift',
+    'trial values in that direction for the planned number of trials. The intention, planned trial count and',
+    'real-time feedback modality are recorded with every session.',
+    '',
+    'Continuous mode: the generator runs unattended and operators mark intention periods against the continuous record.',
+    '',
+    'Calibration runs: unattended runs checked with chi-square, runs and autocorrelation tests to confirm that the',
+    'generator output is random before and between experiments.',
+    '',
+    'All times are recorded in UTC.'
+].join('\n');
+
+const DEFAULT_KEYWORDS = ['random number generator', 'consciousness', 'intention', 'PEAR', 'Global Consciousness Project'];
+
+const FIELD_TYPES: Record<ExportColumnType, string> = {
+    integer: 'integer',
+    numeric: 'number',
+    string: 'string',
+    datetime: 'datetime',
+    factor: 'string'
+};
+
+/** Two-sided 95% normal quantile */
+const Z_95 = 1.959964;
+
+interface PackageEntry {
+    name: string;
+    description: string;
+}
+
+/** Documentation files and the document each one holds */
+const DOCUMENT_FILES: Record<string, Documentation['type']> = {
+    'README.md': 'replication',
+    'docs/methodology.md': 'methodology',
+    'docs/analysis.md': 'analysis',
+    'CITATION.txt': 'citation'
+};
+
+const MEDIA_TYPES: Record<string, { format: string; mediatype: string }> = {
+    json: { format: 'json', mediatype: 'application/json' },
+    md: { format: 'md', mediatype: 'text/markdown' },
+    txt: { format: 'txt', mediatype: 'text/plain' }
+};
+
+function fieldSchema(column: ExportColumn): DataSchema {
+    return {
+        field: column.name,
+        type: FIELD_TYPES[column.type],
+        description: column.label,
+        units: column.unit ?? (column.type === 'datetime' ? 'UTC' : undefined),
+        constraints: column.levels ? { enum: column.levels } : undefined
+    };
+}
+
+function sha256(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Lowercase identifier allowed as a data package name
+ */
+function packageName(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'rng-data';
+}
+
+function round(value: number, digits = 6): number {
+    return Number(value.toFixed(digits));
+}
+
+/**
+ * Per-session z tests and the pooled z test for each intention
+ */
+function analysisResults(dataset: ExportDataset): AnalysisResult[] {
+    const table = dataset.tables.find(candidate => candidate.name === 'session_statistics');
+    if (!table) return [];
+
+    const sessions = toObjects(table).filter(row => Number(row.trial_count) > 0);
+    const interval = (zScore: number, n: number): [number, number] =>
+        [(zScore - Z_95) / Math.sqrt(n), (zScore + Z_95) / Math.sqrt(n)];
+
+    const results: AnalysisResult[] = sessions.map(row => {
+        const n = Number(row.trial_count);
+        const zScore = Number(row.z_score);
+        return {
+            id: `session-z-${row.session_id}`,
+            sessionId: String(row.session_id),
+            analysisType: 'session_z_test',
+            timestamp: dataset.exportedAt,
+            results: {
+                intention: row.intention,
+                trialCount: n,
+                mean: row.mean,
+                variance: row.variance,
+                cumulativeDeviation: row.cumulative_deviation,
+                zScore
+            },
+            significance: Number(row.p_value),
+            effectSize: Number(row.effect_size),
+            confidenceInterval: interval(zScore, n),
+            metadata: { expectedMean: 100, expectedVariance: 50 }
+        };
+    });
+
+    for (const intention of ['high', 'low', 'baseline']) {
+        const group = sessions.filter(row => row.intention === intention);
+        if (group.length === 0) continue;
+
+        const n = group.reduce((sum, row) => sum + Number(row.trial_count), 0);
+        const deviation = group.reduce((sum, row) => sum + Number(row.cumulative_deviation), 0);
+        const zScore = deviation / Math.sqrt(50 * n);
+
+        results.push({
+            id: `pooled-z-${intention}`,
+            sessionId: '',
+            analysisType: 'pooled_z_test',
+            timestamp: dataset.exportedAt,
+            results: { intention, sessionCount: group.length, trialCount: n, cumulativeDeviation: deviation, zScore },
+            significance: twoTailedP(zScore),
+            effectSize: zScore / Math.sqrt(n),
+            confidenceInterval: interval(zScore, n),
+            metadata: { expectedMean: 100, expectedVariance: 50, sessionIds: group.map(row => row.session_id) }
+        });
+    }
+
+    return results;
+}
+
+function analysisDocument(analyses: AnalysisResult[]): string {
+    const pooled = analyses.filter(analysis => analysis.analysisType === 'pooled_z_test');
+    const lines = [
+        '# Analysis',
+        '',
+        'Each trial is the sum of 200 random bits, so under the null hypothesis trial values have mean 100 and variance 50.',
+        'For n trials with sum S:',
+        '',
+        '- cumulative deviation D = S - 100n',
+        '- z = D / sqrt(50n)',
+        '- two-tailed p = erfc(|z| / sqrt(2))',
+        '- effect size = z / sqrt(n), with 95% interval (z +/- 1.96) / sqrt(n)',
+        '',
+        'Per-session results are in data/session_statistics.csv and analysis/results.json (analysisType "session_z_test").',
+        'Pooled results ("pooled_z_test") combine every trial of the sessions run with the same intention.',
+        ''
+    ];
+
+    if (pooled.length === 0) {
+        lines.push('The package contains no sessions with recorded trials.');
+    } else {
+        lines.push(
+            '| Intention | Sessions | Trials | Cumulative deviation | z | p | Effect size |',
+            '|---|---|---|---|---|---|---|',
+            ...pooled.map(({ results, significance, effectSize }) =>
+                `| ${results.intention} | ${results.sessionCount} | ${results.trialCount} | ${results.cumulativeDeviation} | ` +
+                `${round(results.zScore, 4)} | ${significance.toPrecision(4)} | ${round(effectSize, 6)} |`)
+        );
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function citation(metadata: DataPackageMetadata): string {
+    const author = metadata.creator || 'Anonymous';
+    return `${author} (${metadata.created.getUTCFullYear()}). ${metadata.title} (Version ${metadata.version}) [Data set].`;
+}
+
+/**
+ * Every file of the package except datapackage.json and SHA256SUMS, in archive order
+ */
+function packageEntries(tables: ExportTable[]): PackageEntry[] {
+    return [
+        { name: 'README.md', description: 'Replication guide' },
+        ...tables.map(table => ({ name: `data/${table.name}.csv`, description: `${table.label} (${table.rows.length} rows)` })),
+        { name: 'analysis/results.json', description: 'Per-session and pooled z tests' },
+        { name: 'docs/methodology.md', description: 'How the data were collected' },
+        { name: 'docs/analysis.md', description: 'Statistical methods and pooled results' },
+        { name: 'CITATION.txt', description: 'How to cite this data set' }
+    ];
+}
+
+function replicationDocument(metadata: DataPackageMetadata, entries: PackageEntry[]): string {
+    return [
+        `# ${metadata.title}`,
+        '',
+        metadata.description,
+        '',
+        `Version ${metadata.version}, created ${metadata.created.toISOString()}${metadata.creator ? ` by ${metadata.creator}` : ''}.`,
+        '',
+        '## Contents',
+        '',
+        '| File | Description |',
+        '|---|---|',
+        '| datapackage.json | Frictionless data package descriptor: resources, field schemas, units and SHA-256 hashes |',
+        ...entries.map(entry => `| ${entry.name} | ${entry.description} |`),
+        '| SHA256SUMS | SHA-256 of every other file |',
+        '',
+        '## Verifying the files',
+        '',
+        '    sha256sum -c SHA256SUMS',
+        '',
+        ...(entries.some(entry => entry.name === 'data/export_log.csv') ? [
+            'data/export_log.csv lists earlier exports from the same database with the SHA-256 recorded for each,',
+            'so files shared before this package can be matched against it.',
+            ''
+        ] : []),
+        '## Loading the data',
+        '',
+        'R:',
+        '',
+        '    library(frictionless)',
+        '    package <- read_package("datapackage.json")',
+        '    trials <- read_resource(package, "trials")',
+        '',
+        'Python:',
+        '',
+        '    from frictionless import Package',
+        '    package = Package("datapackage.json")',
+        '    trials = package.get_resource("trials").read_rows()',
+        '',
+        'Missing values are empty fields, times are ISO 8601 UTC and factor columns list their levels',
+        'as enum constraints in datapackage.json.',
+        '',
+        '## Reproducing the analysis',
+        '',
+        'docs/methodology.md describes how the data were collected and docs/analysis.md gives the formulas',
+        'behind data/session_statistics.csv and analysis/results.json; both can be recomputed from data/trials.csv.',
+        '',
+        '## Citation',
+        '',
+        citation(metadata),
+        ''
+    ].join('\n');
+}
+
+/**
+ * Assemble the package model from a collected dataset
+ */
+export function buildDataPackage(dataset: ExportDataset): DataPackage {
+    const details = dataset.details;
+    const metadata: DataPackageMetadata = {
+        title: details?.title ?? dataset.title,
+        description: details?.description ?? `Exported from the RNG Consciousness Experiment App: ${
+            dataset.tables.map(table => `${table.name} (${table.rows.length} rows)`).join(', ')}.`,
+        version: details?.version ?? '1.0.0',
+        created: dataset.exportedAt,
+        creator: details?.creator ?? '',
+        keywords: details?.keywords ?? DEFAULT_KEYWORDS,
+        methodology: details?.methodology ?? DEFAULT_METHODOLOGY
+    };
+    const analyses = analysisResults(dataset);
+
+    return {
+        metadata,
+        datasets: dataset.tables.map(table => ({
+            name: table.name,
+            description: table.label,
+            format: 'csv',
+            data: toObjects(table),
+            schema: table.columns.map(fieldSchema)
+        })),
+        analyses,
+        documentation: [
+            { type: 'methodology', title: 'Methodology', content: `# Methodology\n\n${metadata.methodology}\n` },
+            { type: 'analysis', title: 'Analysis', content: analysisDocument(analyses) },
+            { type: 'citation', title: 'Citation', content: `${citation(metadata)}\n` },
+            { type: 'replication', title: 'Replication guide', content: replicationDocument(metadata, packageEntries(dataset.tables)) }
+        ]
+    };
+}
+
+/**
+ * Frictionless descriptor; every resource carries its size and SHA-256
+ */
+function descriptor(pkg: DataPackage, tables: ExportTable[], entries: PackageEntry[], files: ExportFile[]): object {
+    const { metadata } = pkg;
+    const checksums = (name: string) => {
+        const file = files.find(candidate => candidate.name === name)!;
+        return { bytes: file.data.length, hash: `sha256:${sha256(file.data)}` };
+    };
+
+    return {
+        profile: 'tabular-data-package',
+        name: packageName(metadata.title),
+        title: metadata.title,
+        description: metadata.description,
+        version: metadata.version,
+        created: metadata.created.toISOString(),
+        keywords: metadata.keywords,
+        contributors: metadata.creator ? [{ title: metadata.creator, role: 'author' }] : undefined,
+        resources: [
+            ...pkg.datasets.map((dataset, i) => ({
+                name: dataset.name,
+                path: `data/${dataset.name}.csv`,
+                profile: 'tabular-data-resource',
+                title: tables[i].label,
+                format: 'csv',
+                mediatype: 'text/csv',
+                encoding: 'utf-8',
+                ...checksums(`data/${dataset.name}.csv`),
+                dialect: { delimiter: ',', lineTerminator: '\r\n', header: true },
+                schema: {
+                    fields: dataset.schema.map(field => ({
+                        name: field.field,
+                        description: field.description,
+                        type: field.type,
+                        format: field.type === 'datetime' ? 'any' : undefined,
+                        unit: field.units,
+                        constraints: field.constraints
+                    })),
+                    missingValues: ['']
+                }
+            })),
+            ...entries.filter(entry => !entry.name.startsWith('data/')).map(entry => ({
+                name: packageName(entry.name.replace(/^.*\//, '').replace(/\.[^.]+$/, '')),
+                path: entry.name,
+                description: entry.description,
+                ...MEDIA_TYPES[entry.name.slice(entry.name.lastIndexOf('.') + 1)],
+                encoding: 'utf-8',
+                ...checksums(entry.name)
+            }))
+        ]
+    };
+}
+
+/**
+ * Files of a data package, in archive order
+ */
+export function dataPackageFiles(dataset: ExportDataset): ExportFile[] {
+    const pkg = buildDataPackage(dataset);
+    const entries = packageEntries(dataset.tables);
+
+    const content = (name: string): string => {
+        if (name === 'analysis/results.json') return JSON.stringify(pkg.analyses, null, 2);
+        if (name.startsWith('data/')) return tableToCsv(dataset.tables.find(table => `data/${table.name}.csv` === name)!);
+        return pkg.documentation.find(doc => doc.type === DOCUMENT_FILES[name])!.content;
+    };
+    const files: ExportFile[] = entries.map(entry => ({ name: entry.name, data: Buffer.from(content(entry.name), 'utf8') }));
+
+    const datapackage: ExportFile = {
+        name: 'datapackage.json',
+        data: Buffer.from(JSON.stringify(descriptor(pkg, dataset.tables, entries, files), null, 2), 'utf8')
+    };
+    const contents = [datapackage, ...files];
+    const sums = contents.map(file => `${sha256(file.data)}  ${file.name}`).join('\n') + '\n';
+
+    return [...contents, { name: 'SHA256SUMS', data: Buffer.from(sums, 'utf8') }];
+}
+
+/**
+ * The whole package as one zip
+ */
+export function renderDataPackage(dataset: ExportDataset, baseName: string): ExportFile[] {
+    return [{ name: `${baseName}.zip`, data: zipFiles(dataPackageFiles(dataset), dataset.exportedAt) }];
+}
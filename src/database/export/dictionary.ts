@@ -0,0 +1,59 @@
+/**
+ * Data dictionary shared by every export format
+ */
+
+import type { ExportDataset, ExportTable, ExportValue } from './types';
+
+/** Separator between factor levels in the dictionary's levels column */
+export const LEVEL_SEPARATOR = ';';
+
+/**
+ * One row per exported column: table, variable, label, type, unit and factor levels
+ */
+export function dictionaryTable(dataset: ExportDataset): ExportTable {
+    return {
+        name: 'dictionary',
+        label: 'Data dictionary',
+        columns: [
+            { name: 'table', label: 'Table', type: 'string' },
+            { name: 'variable', label: 'Variable name', type: 'string' },
+            { name: 'label', label: 'Variable label', type: 'string' },
+            { name: 'type', label: 'Storage type', type: 'string' },
+            { name: 'unit', label: 'Unit', type: 'string' },
+            { name: 'levels', label: 'Factor levels, in code order', type: 'string' }
+        ],
+        rows: dataset.tables.flatMap(table => table.columns.map(column => [
+            table.name,
+            column.name,
+            column.label,
+            column.type,
+            column.unit ?? (column.type === 'datetime' ? 'UTC' : null),
+            column.levels ? column.levels.join(LEVEL_SEPARATOR) : null
+        ]))
+    };
+}
+
+/**
+ * ISO 8601 text for a datetime value
+ */
+export function formatDatetime(value: number): string {
+    return new Date(value).toISOString();
+}
+
+/**
+ * 1-based code of a factor value, null when missing or not a level
+ */
+export function factorCode(levels: string[], value: string | number | null): number | null {
+    const index = value === null ? -1 : levels.indexOf(String(value));
+    return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Table rows as objects keyed by column name, datetimes as ISO 8601
+ */
+export function toObjects(table: ExportTable): Record<string, ExportValue>[] {
+    return table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [
+        column.name,
+        column.type === 'datetime' && row[i] !== null ? formatDatetime(Number(row[i])) : row[i]
+    ])));
+}
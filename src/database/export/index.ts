@@ -0,0 +1,23 @@
+/**
+ * Data export pipeline
+ * CSV, JSON, XLSX, R, MATLAB, SPSS and data package output from one set of tables and data dictionary
+ */
+
+export { DataExporter } from './data-exporter';
+export { dictionaryTable } from './dictionary';
+export { tableToCsv } from './csv-writer';
+export { tableToSav } from './sav-writer';
+export { buildDataPackage, dataPackageFiles, DEFAULT_METHODOLOGY } from './data-package';
+export { zipFiles } from './zip-writer';
+export type {
+    DataPackageRequest,
+    ExportColumn,
+    ExportColumnType,
+    ExportDataset,
+    ExportFile,
+    ExportQuery,
+    ExportRequest,
+    ExportTable,
+    ExportValue,
+    ExportWriteOptions
+} from './types';
@@ -0,0 +1,158 @@
+/**
+ * MATLAB writer
+ * Uncompressed level 5 MAT-file, little-endian
+ *
+ * Each table becomes a 1x1 struct of n x 1 columns: numbers as double (NaN for missing),
+ * datetimes as datenum (UTC), factors as double codes 1..k and strings as cell arrays of char.
+ * The `dictionary` struct carries labels and factor levels, `export_info` the export metadata.
+ */
+
+import { dictionaryTable, factorCode } from './dictionary';
+import type { ExportColumn, ExportDataset, ExportFile, ExportTable, ExportValue } from './types';
+
+// Data types
+const MI_INT8 = 1;
+const MI_UINT16 = 4;
+const MI_INT32 = 5;
+const MI_UINT32 = 6;
+const MI_DOUBLE = 9;
+const MI_MATRIX = 14;
+
+// Array classes
+const MX_CELL_CLASS = 1;
+const MX_STRUCT_CLASS = 2;
+const MX_CHAR_CLASS = 4;
+const MX_DOUBLE_CLASS = 6;
+
+/** datenum of 1970-01-01 */
+const DATENUM_UNIX_EPOCH = 719529;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Field name slot width; MATLAB accepts names up to 63 characters */
+const MIN_FIELD_NAME_LENGTH = 32;
+
+/**
+ * Data element: 8-byte tag, data, padding to an 8-byte boundary
+ */
+function dataElement(type: number, data: Buffer): Buffer {
+    const element = Buffer.alloc(8 + Math.ceil(data.length / 8) * 8);
+    element.writeInt32LE(type, 0);
+    element.writeInt32LE(data.length, 4);
+    data.copy(element, 8);
+    return element;
+}
+
+/**
+ * Small data element: type and size packed into 4 bytes, data in the other 4
+ */
+function smallDataElement(type: number, data: Buffer): Buffer {
+    const element = Buffer.alloc(8);
+    element.writeUInt16LE(type, 0);
+    element.writeUInt16LE(data.length, 2);
+    data.copy(element, 4);
+    return element;
+}
+
+function matrix(arrayClass: number, dimensions: number[], name: string, contents: Buffer[]): Buffer {
+    const flags = Buffer.alloc(8);
+    flags.writeUInt32LE(arrayClass, 0);
+
+    const dims = Buffer.alloc(4 * dimensions.length);
+    dimensions.forEach((size, i) => dims.writeInt32LE(size, 4 * i));
+
+    const body = Buffer.concat([
+        dataElement(MI_UINT32, flags),
+        dataElement(MI_INT32, dims),
+        dataElement(MI_INT8, Buffer.from(name, 'ascii')),
+        ...contents
+    ]);
+    const tag = Buffer.alloc(8);
+    tag.writeInt32LE(MI_MATRIX, 0);
+    tag.writeInt32LE(body.length, 4);
+    return Buffer.concat([tag, body]);
+}
+
+function doubleColumn(values: (number | null)[], name = ''): Buffer {
+    const data = Buffer.alloc(8 * values.length);
+    values.forEach((value, i) => data.writeDoubleLE(value === null ? NaN : value, 8 * i));
+    return matrix(MX_DOUBLE_CLASS, [values.length, 1], name, [dataElement(MI_DOUBLE, data)]);
+}
+
+function charArray(text: string, name = ''): Buffer {
+    const data = Buffer.alloc(2 * text.length);
+    for (let i = 0; i < text.length; i++) {
+        data.writeUInt16LE(text.charCodeAt(i), 2 * i);
+    }
+    return matrix(MX_CHAR_CLASS, text.length === 0 ? [0, 0] : [1, text.length], name, [dataElement(MI_UINT16, data)]);
+}
+
+function cellColumn(values: string[], name = ''): Buffer {
+    return matrix(MX_CELL_CLASS, [values.length, 1], name, values.map(value => charArray(value)));
+}
+
+function struct(fields: Array<[string, Buffer]>, name: string): Buffer {
+    const nameLength = Math.max(MIN_FIELD_NAME_LENGTH, ...fields.map(([field]) => field.length + 1));
+    const names = Buffer.alloc(nameLength * fields.length);
+    fields.forEach(([field], i) => names.write(field, i * nameLength, 'ascii'));
+
+    const length = Buffer.alloc(4);
+    length.writeInt32LE(nameLength, 0);
+
+    return matrix(MX_STRUCT_CLASS, [1, 1], name, [
+        smallDataElement(MI_INT32, length),
+        dataElement(MI_INT8, names),
+        ...fields.map(([, value]) => value)
+    ]);
+}
+
+function column(table: ExportTable, index: number, definition: ExportColumn): Buffer {
+    const values: ExportValue[] = table.rows.map(row => row[index]);
+
+    switch (definition.type) {
+        case 'string':
+            return cellColumn(values.map(value => value === null ? '' : String(value)));
+        case 'factor':
+            return doubleColumn(values.map(value => factorCode(definition.levels ?? [], value)));
+        case 'datetime':
+            return doubleColumn(values.map(value => value === null ? null : Number(value) / MS_PER_DAY + DATENUM_UNIX_EPOCH));
+        default:
+            return doubleColumn(values.map(value => value === null ? null : Number(value)));
+    }
+}
+
+function tableStruct(table: ExportTable, stringsOnly = false): Buffer {
+    return struct(table.columns.map((definition, i) => [
+        definition.name,
+        stringsOnly
+            ? cellColumn(table.rows.map(row => row[i] === null ? '' : String(row[i])))
+            : column(table, i, definition)
+    ]), table.name);
+}
+
+function header(exportedAt: Date): Buffer {
+    const buffer = Buffer.alloc(128, ' ');
+    buffer.write(`MATLAB 5.0 MAT-file, Platform: ${process.platform}, Created on: ${exportedAt.toUTCString()}`, 0, 116, 'ascii');
+    buffer.fill(0, 116, 124);           // No subsystem data
+    buffer.writeUInt16LE(0x0100, 124);  // Version
+    buffer.write('IM', 126, 'ascii');   // Little-endian
+    return buffer;
+}
+
+/**
+ * Single MAT-file `<baseName>.mat`
+ */
+export function renderMat(dataset: ExportDataset, baseName: string): ExportFile[] {
+    const data = Buffer.concat([
+        header(dataset.exportedAt),
+        ...dataset.tables.map(table => tableStruct(table)),
+        tableStruct(dictionaryTable(dataset), true),
+        struct([
+            ['title', charArray(dataset.title)],
+            ['exported_at', charArray(dataset.exportedAt.toISOString())],
+            ['time_zone', charArray('UTC')]
+        ], 'export_info')
+    ]);
+
+    return [{ name: `${baseName}.mat`, data }];
+}
@@ -0,0 +1,66 @@
+/**
+ * R writer
+ * CSV bundle plus a loader script that restores column classes, factor levels and variable labels
+ */
+
+import { renderCsv } from './csv-writer';
+import type { ExportColumn, ExportDataset, ExportFile, ExportTable } from './types';
+
+const R_CLASSES: Record<ExportColumn['type'], string> = {
+    integer: 'integer',
+    numeric: 'numeric',
+    string: 'character',
+    datetime: 'character',
+    factor: 'character'
+};
+
+/** JSON string literals are valid R string literals */
+const rString = (text: string): string => JSON.stringify(text);
+
+function loadTable(table: ExportTable, fileName: string): string[] {
+    const variable = table.name;
+    const colClasses = table.columns.map(column => `${column.name} = ${rString(R_CLASSES[column.type])}`).join(', ');
+    const lines = [
+        `# ${table.label}`,
+        `${variable} <- read.csv(file.path(export_dir, ${rString(fileName)}), colClasses = c(${colClasses}),`,
+        `    na.strings = "", fileEncoding = "UTF-8")`
+    ];
+
+    for (const column of table.columns) {
+        const ref = `${variable}$${column.name}`;
+        if (column.type === 'datetime') {
+            lines.push(`${ref} <- as.POSIXct(${ref}, format = "%Y-%m-%dT%H:%M:%OS", tz = "UTC")`);
+        } else if (column.type === 'factor') {
+            lines.push(`${ref} <- factor(${ref}, levels = c(${(column.levels ?? []).map(rString).join(', ')}))`);
+        }
+        lines.push(`attr(${ref}, "label") <- ${rString(column.unit ? `${column.label} (${column.unit})` : column.label)}`);
+    }
+
+    lines.push(`attr(${variable}, "label") <- ${rString(table.label)}`, '');
+    return lines;
+}
+
+/**
+ * CSV per table, the dictionary CSV and `<baseName>.R` to load them into data frames
+ */
+export function renderR(dataset: ExportDataset, baseName: string): ExportFile[] {
+    const csvFiles = renderCsv(dataset, baseName);
+
+    const script = [
+        `# ${dataset.title}`,
+        `# Exported ${dataset.exportedAt.toISOString()}; all times are UTC`,
+        '# source() this script, or set export_dir to the bundle directory before running it',
+        '',
+        'if (!exists("export_dir")) {',
+        '    export_dir <- tryCatch(dirname(sys.frame(1)$ofile), error = function(e) ".")',
+        '}',
+        '',
+        ...dataset.tables.flatMap(table => loadTable(table, `${baseName}_${table.name}.csv`)),
+        '# Data dictionary',
+        `dictionary <- read.csv(file.path(export_dir, ${rString(`${baseName}_dictionary.csv`)}), colClasses = "character",`,
+        '    na.strings = "", fileEncoding = "UTF-8")',
+        ''
+    ].join('\n');
+
+    return [{ name: `${baseName}.R`, data: Buffer.from(script, 'utf8') }, ...csvFiles];
+}
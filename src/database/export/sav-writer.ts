@@ -0,0 +1,260 @@
+/**
+ * SPSS writer
+ * Uncompressed little-endian system files (.sav), one per table
+ *
+ * Factors are stored as numeric codes 1..k with value labels, datetimes as SPSS DATETIME
+ * (seconds since 14 Oct 1582) and strings as UTF-8 up to SPSS's 255-byte short-string limit.
+ * Long variable names are kept through the extension record; short names are derived from them.
+ */
+
+import { dictionaryTable, factorCode } from './dictionary';
+import type { ExportColumn, ExportDataset, ExportFile, ExportTable } from './types';
+
+// Print/write format types
+const FORMAT_A = 1;
+const FORMAT_F = 5;
+const FORMAT_DATETIME = 22;
+
+/** Seconds from the Gregorian calendar epoch (14 Oct 1582) to the Unix epoch */
+const SPSS_UNIX_EPOCH_SECONDS = 12219379200;
+
+const MAX_STRING_WIDTH = 255;
+
+const SYSMIS = -Number.MAX_VALUE;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface SavVariable {
+    column: ExportColumn;
+    shortName: string;
+    width: number;      // 0 for numeric variables
+    segments: number;   // 8-byte slots in each case
+}
+
+/**
+ * Sequential little-endian writer over a growing list of chunks
+ */
+class RecordWriter {
+    private chunks: Buffer[] = [];
+
+    int32(...values: number[]): this {
+        const buffer = Buffer.alloc(4 * values.length);
+        values.forEach((value, i) => buffer.writeInt32LE(value, 4 * i));
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    float64(...values: number[]): this {
+        const buffer = Buffer.alloc(8 * values.length);
+        values.forEach((value, i) => buffer.writeDoubleLE(value, 8 * i));
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    /** Text padded with spaces (or cut) to exactly `length` bytes */
+    text(value: string, length: number): this {
+        const buffer = Buffer.alloc(length, ' ');
+        fitUtf8(value, length).copy(buffer);
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    bytes(buffer: Buffer): this {
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+}
+
+/**
+ * UTF-8 bytes of `text`, cut to at most `maxBytes` without splitting a character
+ */
+function fitUtf8(text: string, maxBytes: number): Buffer {
+    const bytes = Buffer.from(text, 'utf8');
+    if (bytes.length <= maxBytes) return bytes;
+
+    let end = maxBytes;
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+    return bytes.subarray(0, end);
+}
+
+function formatSpec(variable: SavVariable): number {
+    const spec = (type: number, width: number, decimals: number) => (type << 16) | (width << 8) | decimals;
+
+    switch (variable.column.type) {
+        case 'string': return spec(FORMAT_A, variable.width, 0);
+        case 'datetime': return spec(FORMAT_DATETIME, 23, 2);
+        case 'factor': return spec(FORMAT_F, 8, 0);
+        case 'integer': return spec(FORMAT_F, 11, 0);
+        default: return spec(FORMAT_F, 18, 8);
+    }
+}
+
+/**
+ * Unique 8-byte uppercase short names derived from the long names
+ */
+function shortNames(columns: ExportColumn[]): string[] {
+    const used = new Set<string>();
+
+    return columns.map(column => {
+        let base = column.name.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+        if (!/^[A-Z]/.test(base)) base = `V${base}`;
+
+        let name = base.slice(0, 8);
+        for (let suffix = 1; used.has(name); suffix++) {
+            name = base.slice(0, 8 - String(suffix).length) + suffix;
+        }
+        used.add(name);
+        return name;
+    });
+}
+
+function variables(table: ExportTable): SavVariable[] {
+    const names = shortNames(table.columns);
+
+    return table.columns.map((column, i) => {
+        if (column.type !== 'string') {
+            return { column, shortName: names[i], width: 0, segments: 1 };
+        }
+
+        const width = Math.min(MAX_STRING_WIDTH, Math.max(1, ...table.rows.map(row =>
+            row[i] === null ? 0 : Buffer.byteLength(String(row[i]), 'utf8'))));
+        return { column, shortName: names[i], width, segments: Math.ceil(width / 8) };
+    });
+}
+
+function headerRecord(writer: RecordWriter, table: ExportTable, caseSize: number, createdAt: Date): void {
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    writer
+        .text('$FL2', 4)
+        .text('@(#) SPSS DATA FILE - RNG Consciousness Experiment App', 60)
+        .int32(2, caseSize, 0, 0, table.rows.length)   // Layout, case size, no compression, no weight, cases
+        .float64(100)                                   // Compression bias
+        .text(`${pad(createdAt.getUTCDate())} ${MONTHS[createdAt.getUTCMonth()]} ${pad(createdAt.getUTCFullYear() % 100)}`, 9)
+        .text(`${pad(createdAt.getUTCHours())}:${pad(createdAt.getUTCMinutes())}:${pad(createdAt.getUTCSeconds())}`, 8)
+        .text(table.label, 64)
+        .bytes(Buffer.alloc(3));
+}
+
+function variableRecords(writer: RecordWriter, vars: SavVariable[]): void {
+    for (const variable of vars) {
+        const format = formatSpec(variable);
+        const label = fitUtf8(variable.column.unit
+            ? `${variable.column.label} (${variable.column.unit})`
+            : variable.column.label, 255);
+
+        writer
+            .int32(2, variable.width, 1, 0, format, format)
+            .text(variable.shortName, 8)
+            .int32(label.length)
+            .bytes(Buffer.concat([label, Buffer.alloc((4 - label.length % 4) % 4, ' ')]));
+
+        // Long strings occupy one continuation record per extra 8 bytes
+        for (let segment = 1; segment < variable.segments; segment++) {
+            writer.int32(2, -1, 0, 0, 0, 0).text('', 8);
+        }
+    }
+}
+
+function valueLabelRecords(writer: RecordWriter, vars: SavVariable[]): void {
+    let index = 1;
+
+    for (const variable of vars) {
+        const levels = variable.column.type === 'factor' ? variable.column.levels ?? [] : [];
+
+        if (levels.length > 0) {
+            writer.int32(3, levels.length);
+            levels.forEach((level, i) => {
+                const label = fitUtf8(level, 120);
+                const padding = (8 - (label.length + 1) % 8) % 8;
+                writer
+                    .float64(i + 1)
+                    .bytes(Buffer.from([label.length]))
+                    .bytes(Buffer.concat([label, Buffer.alloc(padding, ' ')]));
+            });
+            writer.int32(4, 1, index);
+        }
+
+        index += variable.segments;
+    }
+}
+
+function extensionRecords(writer: RecordWriter, vars: SavVariable[]): void {
+    // Machine integer info: version, machine code, IEEE 754, no compression, little-endian, UTF-8
+    writer.int32(7, 3, 4, 8, 1, 0, 0, -1, 1, 1, 2, 65001);
+
+    // Machine floating-point info: SYSMIS, HIGHEST, LOWEST
+    const limits = Buffer.alloc(24);
+    limits.writeDoubleLE(SYSMIS, 0);
+    limits.writeDoubleLE(Number.MAX_VALUE, 8);
+    limits.writeBigUInt64LE(BigInt('0xffeffffffffffffe'), 16);
+    writer.int32(7, 4, 8, 3).bytes(limits);
+
+    // Long variable names
+    const longNames = Buffer.from(vars.map(variable => `${variable.shortName}=${variable.column.name}`).join('\t'), 'utf8');
+    writer.int32(7, 13, 1, longNames.length).bytes(longNames);
+
+    // Character encoding
+    const encoding = Buffer.from('UTF-8', 'ascii');
+    writer.int32(7, 20, 1, encoding.length).bytes(encoding);
+
+    // End of dictionary
+    writer.int32(999, 0);
+}
+
+function caseValue(variable: SavVariable, value: string | number | null): Buffer {
+    if (variable.width > 0) {
+        const buffer = Buffer.alloc(variable.segments * 8, ' ');
+        if (value !== null) fitUtf8(String(value), variable.width).copy(buffer);
+        return buffer;
+    }
+
+    let numeric: number | null;
+    switch (variable.column.type) {
+        case 'factor':
+            numeric = factorCode(variable.column.levels ?? [], value);
+            break;
+        case 'datetime':
+            numeric = value === null ? null : Number(value) / 1000 + SPSS_UNIX_EPOCH_SECONDS;
+            break;
+        default:
+            numeric = value === null || !Number.isFinite(Number(value)) ? null : Number(value);
+    }
+
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(numeric === null ? SYSMIS : numeric, 0);
+    return buffer;
+}
+
+/**
+ * Render one table as a system file
+ */
+export function tableToSav(table: ExportTable, createdAt: Date): Buffer {
+    const vars = variables(table);
+    const writer = new RecordWriter();
+
+    headerRecord(writer, table, vars.reduce((sum, variable) => sum + variable.segments, 0), createdAt);
+    variableRecords(writer, vars);
+    valueLabelRecords(writer, vars);
+    extensionRecords(writer, vars);
+
+    for (const row of table.rows) {
+        writer.bytes(Buffer.concat(vars.map((variable, i) => caseValue(variable, row[i]))));
+    }
+
+    return writer.toBuffer();
+}
+
+/**
+ * One .sav per table plus the data dictionary
+ */
+export function renderSav(dataset: ExportDataset, baseName: string): ExportFile[] {
+    return [...dataset.tables, dictionaryTable(dataset)].map(table => ({
+        name: `${baseName}_${table.name}.sav`,
+        data: tableToSav(table, dataset.exportedAt)
+    }));
+}
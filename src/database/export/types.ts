@@ -0,0 +1,84 @@
+/**
+ * Data export types
+ * Format-independent tables with a column dictionary, rendered to files by the format writers
+ */
+
+import type { ExportFormat } from '../../shared/types';
+import type { DataPackageDetails } from '../../shared/analysis-types';
+
+/**
+ * Storage type of an exported column
+ * - datetime values are Unix milliseconds (UTC)
+ * - factor values are one of the column's levels
+ */
+export type ExportColumnType = 'integer' | 'numeric' | 'string' | 'datetime' | 'factor';
+
+export type ExportValue = string | number | null;
+
+/**
+ * Column definition; doubles as the data dictionary entry
+ */
+export interface ExportColumn {
+    name: string;
+    label: string;
+    type: ExportColumnType;
+    levels?: string[];
+    unit?: string;
+}
+
+export interface ExportTable {
+    name: string;
+    label: string;
+    columns: ExportColumn[];
+    rows: ExportValue[][];
+}
+
+export interface ExportDataset {
+    title: string;
+    exportedAt: Date;
+    query: ExportQuery;
+    tables: ExportTable[];
+    /** Publication details, used by data packages */
+    details?: DataPackageDetails;
+}
+
+/**
+ * Which data to export
+ * Sessions, trials, intention periods and statistics are included unless switched off;
+ * calibration runs and the export log only when asked for
+ */
+export interface ExportQuery {
+    startDate?: Date;
+    endDate?: Date;
+    sessionIds?: string[];
+    includeSessions?: boolean;
+    includeTrials?: boolean;
+    includeIntentionPeriods?: boolean;
+    includeStatistics?: boolean;
+    includeCalibrations?: boolean;
+    includeExportLog?: boolean;
+}
+
+export interface ExportRequest extends ExportQuery {
+    format: ExportFormat;
+}
+
+export interface DataPackageRequest extends ExportQuery {
+    details: DataPackageDetails;
+}
+
+/**
+ * Where to write an export; files are named `<prefix>-<timestamp>...`
+ */
+export interface ExportWriteOptions {
+    directory?: string;
+    prefix?: string;
+}
+
+/**
+ * File produced by a format writer, relative to the export directory
+ */
+export interface ExportFile {
+    name: string;
+    data: Buffer;
+}
@@ -0,0 +1,65 @@
+/**
+ * XLSX writer
+ * One worksheet per table plus dictionary and export-info sheets; datetimes are real Excel dates in UTC
+ */
+
+import * as XLSX from 'xlsx';
+import { dictionaryTable } from './dictionary';
+import type { ExportDataset, ExportFile, ExportTable } from './types';
+
+/** Data rows per worksheet: Excel's 1,048,576-row limit less the header */
+const MAX_SHEET_ROWS = 1048575;
+
+/** Excel serial date of the Unix epoch */
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function appendTable(workbook: XLSX.WorkBook, table: ExportTable): void {
+    const datetimeColumns = table.columns
+        .map((column, i) => column.type === 'datetime' ? i : -1)
+        .filter(i => i >= 0);
+    const sheetCount = Math.max(1, Math.ceil(table.rows.length / MAX_SHEET_ROWS));
+
+    // Tables past the row limit continue on trials_2, trials_3, ...
+    for (let sheet = 0; sheet < sheetCount; sheet++) {
+        const rows = table.rows.slice(sheet * MAX_SHEET_ROWS, (sheet + 1) * MAX_SHEET_ROWS).map(row =>
+            row.map((value, i) => value !== null && datetimeColumns.includes(i)
+                ? Number(value) / MS_PER_DAY + EXCEL_EPOCH_OFFSET
+                : value)
+        );
+        const worksheet = XLSX.utils.aoa_to_sheet([table.columns.map(column => column.name), ...rows]);
+
+        rows.forEach((row, r) => datetimeColumns.forEach(c => {
+            const cell = worksheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+            if (cell && row[c] !== null) cell.z = 'yyyy-mm-dd hh:mm:ss.000';
+        }));
+        worksheet['!cols'] = table.columns.map(column => ({ wch: column.type === 'datetime' ? 23 : Math.max(10, column.name.length + 2) }));
+
+        XLSX.utils.book_append_sheet(workbook, worksheet, sheet === 0 ? table.name : `${table.name}_${sheet + 1}`);
+    }
+}
+
+/**
+ * Single workbook `<baseName>.xlsx`
+ */
+export function renderXlsx(dataset: ExportDataset, baseName: string): ExportFile[] {
+    const workbook = XLSX.utils.book_new();
+    workbook.Props = { Title: dataset.title, CreatedDate: dataset.exportedAt };
+
+    dataset.tables.forEach(table => appendTable(workbook, table));
+    appendTable(workbook, dictionaryTable(dataset));
+
+    const { query } = dataset;
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['title', dataset.title],
+        ['exported_at', dataset.exportedAt.toISOString()],
+        ['start_date', query.startDate?.toISOString() ?? ''],
+        ['end_date', query.endDate?.toISOString() ?? ''],
+        ['session_ids', (query.sessionIds ?? []).join(', ')],
+        ...dataset.tables.map(table => [`${table.name}_rows`, table.rows.length])
+    ]), 'export_info');
+
+    const data: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true });
+    return [{ name: `${baseName}.xlsx`, data }];
+}
@@ -8,11 +8,29 @@ import { DatabaseManager, getDatabaseManager, type DatabaseConfig } from './conn
 import { TrialRepository, type TrialQueryOptions, type TrialStatistics } from './repositories/trial-repository';
 import { SessionRepository, type SessionQueryOptions, type SessionSummary } from './repositories/session-repository';
 import { IntentionRepository, type IntentionQueryOptions, type IntentionPeriodStats } from './repositories/intention-repository';
+import { BitstreamRepository } from './repositories/bitstream-repository';
+import { ParticipantRepository } from './repositories/participant-repository';
+import { PreRegistrationRepository } from './repositories/preregistration-repository';
+import { SeriesRepository } from './repositories/series-repository';
+import { FormalEventRepository } from './repositories/event-repository';
+import { MarkerRepository } from './repositories/marker-repository';
+import { SequentialDesignRepository } from './repositories/sequential-repository';
 import { DatabaseOptimizer, getDatabaseOptimizer, type PerformanceMetrics, type BatchOptions } from './optimization';
 import { DatabaseMaintenance, getDatabaseMaintenance, type BackupInfo, type DataValidationResult, type ExportOptions } from './maintenance';
 
 // Core database infrastructure
 export { DatabaseManager, getDatabaseManager, type DatabaseConfig } from './connection';
+export {
+    MigrationRunner,
+    BASELINE_SCHEMA_VERSION,
+    compareVersions,
+    migrationChecksum,
+    type Migration,
+    type AppliedMigration,
+    type MigrationOptions,
+    type MigrationResult
+} from './migrator';
+export { MIGRATIONS } from './migrations';
 
 // Export the new DatabaseConnection wrapper and DatabaseManager module
 export { DatabaseConnection, createDatabaseConnection } from './DatabaseConnection';
@@ -22,6 +40,32 @@ export { DatabaseManager as DatabaseManagerAlias } from './DatabaseManager';
 export { TrialRepository, type TrialQueryOptions, type TrialStatistics } from './repositories/trial-repository';
 export { SessionRepository, type SessionQueryOptions, type SessionSummary } from './repositories/session-repository';
 export { IntentionRepository, type IntentionQueryOptions, type IntentionPeriodStats } from './repositories/intention-repository';
+export {
+    BitstreamRepository,
+    BYTES_PER_TRIAL,
+    unpackBits,
+    type BitstreamQueryOptions,
+    type TrialBits,
+    type BitstreamStorageStats
+} from './repositories/bitstream-repository';
+export { ParticipantRepository, type ParticipantQueryOptions } from './repositories/participant-repository';
+export { PreRegistrationRepository } from './repositories/preregistration-repository';
+export { SeriesRepository, type SeriesQueryOptions } from './repositories/series-repository';
+export { FormalEventRepository } from './repositories/event-repository';
+export { MarkerRepository } from './repositories/marker-repository';
+export { SequentialDesignRepository } from './repositories/sequential-repository';
+
+// Data export
+export {
+    DataExporter,
+    dictionaryTable,
+    buildDataPackage,
+    type DataPackageRequest,
+    type ExportDataset,
+    type ExportQuery,
+    type ExportRequest,
+    type ExportTable
+} from './export';
 
 // Performance and optimization
 export {
@@ -50,6 +94,13 @@ export async function initializeDatabase(): Promise<{
         trials: TrialRepository;
         sessions: SessionRepository;
         intentions: IntentionRepository;
+        bitstream: BitstreamRepository;
+        participants: ParticipantRepository;
+        preregistrations: PreRegistrationRepository;
+        series: SeriesRepository;
+        events: FormalEventRepository;
+        markers: MarkerRepository;
+        sequential: SequentialDesignRepository;
     };
     optimizer: DatabaseOptimizer;
     maintenance: DatabaseMaintenance;
@@ -65,7 +116,14 @@ export async function initializeDatabase(): Promise<{
         const repositories = {
             trials: new TrialRepository(dbManager),
             sessions: new SessionRepository(dbManager),
-            intentions: new IntentionRepository(dbManager)
+            intentions: new IntentionRepository(dbManager),
+            bitstream: new BitstreamRepository(dbManager),
+            participants: new ParticipantRepository(dbManager),
+            preregistrations: new PreRegistrationRepository(dbManager),
+            series: new SeriesRepository(dbManager),
+            events: new FormalEventRepository(dbManager),
+            markers: new MarkerRepository(dbManager),
+            sequential: new SequentialDesignRepository(dbManager)
         };
 
         // Initialize performance optimizer
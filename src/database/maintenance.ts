@@ -7,10 +7,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { promisify } from 'util';
-import { getDatabaseManager } from './connection';
+import { getDatabaseManager, DatabaseManager } from './connection';
 import { getDatabaseOptimizer } from './optimization';
+import { DataExporter } from './export';
+import { ExportFormat } from '../shared/types';
 
-const writeFile = promisify(fs.writeFile);
 const readFile = promisify(fs.readFile);
 const mkdir = promisify(fs.mkdir);
 const readdir = promisify(fs.readdir);
@@ -41,7 +42,7 @@ export interface DataValidationResult {
 }
 
 export interface ExportOptions {
-    format: 'csv' | 'json' | 'excel';
+    format: ExportFormat;
     startDate?: Date;
     endDate?: Date;
     sessionIds?: string[];
@@ -52,12 +53,15 @@ export interface ExportOptions {
 }
 
 export class DatabaseMaintenance {
+    private dbManager: DatabaseManager;
     private backupPath: string;
     private exportPath: string;
 
-    constructor() {
-        this.backupPath = path.join(process.cwd(), 'data', 'backups');
-        this.exportPath = path.join(process.cwd(), 'data', 'exports');
+    constructor(dbManager?: DatabaseManager) {
+        this.dbManager = dbManager || getDatabaseManager();
+        const config = this.dbManager.getConfig();
+        this.backupPath = config.backupPath;
+        this.exportPath = path.join(path.dirname(config.dbPath), 'exports');
         this.ensureDirectories();
     }
 
@@ -65,12 +69,11 @@ export class DatabaseMaintenance {
      * Create automatic backup with rotation
      */
     async createAutomaticBackup(): Promise<BackupInfo> {
-        const dbManager = getDatabaseManager();
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const filename = `auto-backup-${timestamp}.db`;
 
         try {
-            const backupPath = await dbManager.backup(filename);
+            const backupPath = await this.dbManager.backup(filename);
             const backupInfo = await this.getBackupInfo(backupPath, 'automatic');
 
             // Rotate old backups (keep last 7 automatic backups)
@@ -88,13 +91,12 @@ export class DatabaseMaintenance {
      * Create manual backup
      */
     async createManualBackup(description?: string): Promise<BackupInfo> {
-        const dbManager = getDatabaseManager();
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const desc = description ? `-${description.replace(/[^a-zA-Z0-9]/g, '-')}` : '';
         const filename = `manual-backup${desc}-${timestamp}.db`;
 
         try {
-            const backupPath = await dbManager.backup(filename);
+            const backupPath = await this.dbManager.backup(filename);
             const backupInfo = await this.getBackupInfo(backupPath, 'manual');
 
             console.log(`Manual backup created: ${filename}`);
@@ -143,8 +145,7 @@ export class DatabaseMaintenance {
             await this.createManualBackup('pre-restore');
 
             // Restore database
-            const dbManager = getDatabaseManager();
-            await dbManager.restore(backupPath);
+            await this.dbManager.restore(backupPath);
 
             console.log(`Database restored from backup: ${backupFilename}`);
         } catch (error) {
@@ -157,8 +158,7 @@ export class DatabaseMaintenance {
      * Validate data integrity
      */
     async validateDataIntegrity(): Promise<DataValidationResult> {
-        const dbManager = getDatabaseManager();
-        const db = dbManager.getConnection();
+        const db = this.dbManager.getConnection();
 
         const result: DataValidationResult = {
             isValid: true,
@@ -258,113 +258,20 @@ export class DatabaseMaintenance {
 
     /**
      * Export data in specified format
+     * Returns the path of the main export file
      */
     async exportData(options: ExportOptions): Promise<string> {
-        const dbManager = getDatabaseManager();
-        const db = dbManager.getConnection();
-
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `rng-export-${timestamp}.${options.format}`;
-        const filepath = path.join(this.exportPath, filename);
-
-        try {
-            let exportData: any = {};
-
-            // Export sessions if requested
-            if (options.includeSessions) {
-                let sessionQuery = 'SELECT * FROM sessions WHERE 1=1';
-                const sessionParams: any[] = [];
-
-                if (options.startDate) {
-                    sessionQuery += ' AND start_time >= ?';
-                    sessionParams.push(options.startDate.getTime());
-                }
-
-                if (options.endDate) {
-                    sessionQuery += ' AND start_time <= ?';
-                    sessionParams.push(options.endDate.getTime());
-                }
-
-                if (options.sessionIds && options.sessionIds.length > 0) {
-                    sessionQuery += ` AND id IN (${options.sessionIds.map(() => '?').join(',')})`;
-                    sessionParams.push(...options.sessionIds);
-                }
-
-                const sessions = db.prepare(sessionQuery).all(...sessionParams);
-                exportData.sessions = sessions;
-            }
-
-            // Export trials if requested
-            if (options.includeTrials) {
-                let trialQuery = 'SELECT * FROM trials WHERE 1=1';
-                const trialParams: any[] = [];
-
-                if (options.startDate) {
-                    trialQuery += ' AND timestamp >= ?';
-                    trialParams.push(options.startDate.getTime());
-                }
-
-                if (options.endDate) {
-                    trialQuery += ' AND timestamp <= ?';
-                    trialParams.push(options.endDate.getTime());
-                }
-
-                if (options.sessionIds && options.sessionIds.length > 0) {
-                    trialQuery += ` AND session_id IN (${options.sessionIds.map(() => '?').join(',')})`;
-                    trialParams.push(...options.sessionIds);
-                }
-
-                const trials = db.prepare(trialQuery).all(...trialParams);
-                exportData.trials = trials;
-            }
-
-            // Export intention periods if requested
-            if (options.includeIntentionPeriods) {
-                let intentionQuery = 'SELECT * FROM intention_periods WHERE 1=1';
-                const intentionParams: any[] = [];
-
-                if (options.startDate) {
-                    intentionQuery += ' AND start_time >= ?';
-                    intentionParams.push(options.startDate.getTime());
-                }
-
-                if (options.endDate) {
-                    intentionQuery += ' AND start_time <= ?';
-                    intentionParams.push(options.endDate.getTime());
-                }
-
-                const intentions = db.prepare(intentionQuery).all(...intentionParams);
-                exportData.intention_periods = intentions;
-            }
-
-            // Add export metadata
-            exportData.metadata = {
-                exportedAt: new Date().toISOString(),
-                format: options.format,
-                filters: {
-                    startDate: options.startDate?.toISOString(),
-                    endDate: options.endDate?.toISOString(),
-                    sessionIds: options.sessionIds
-                },
-                counts: {
-                    sessions: exportData.sessions?.length || 0,
-                    trials: exportData.trials?.length || 0,
-                    intentionPeriods: exportData.intention_periods?.length || 0
-                }
-            };
-
-            // Write data in requested format
-            await this.writeExportData(filepath, exportData, options.format);
-
-            // Log export to database
-            await this.logExport(filepath, exportData.metadata, options);
-
-            console.log(`Data exported to: ${filename}`);
-            return filepath;
-        } catch (error) {
-            console.error('Export failed:', error);
-            throw new Error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
-        }
+        const metadata = await new DataExporter(this.dbManager).exportData({
+            format: options.format,
+            startDate: options.startDate,
+            endDate: options.endDate,
+            sessionIds: options.sessionIds,
+            includeTrials: options.includeTrials,
+            includeSessions: options.includeSessions,
+            includeIntentionPeriods: options.includeIntentionPeriods
+        }, { directory: this.exportPath });
+
+        return metadata.filePath;
     }
 
     /**
@@ -440,82 +347,6 @@ export class DatabaseMaintenance {
             console.error('Backup rotation failed:', error);
         }
     }
-
-    private async writeExportData(filepath: string, data: any, format: 'csv' | 'json' | 'excel'): Promise<void> {
-        switch (format) {
-            case 'json':
-                await writeFile(filepath, JSON.stringify(data, null, 2), 'utf8');
-                break;
-
-            case 'csv':
-                // Simple CSV implementation - in production, use a proper CSV library
-                const csvData = this.convertToCSV(data);
-                await writeFile(filepath, csvData, 'utf8');
-                break;
-
-            case 'excel':
-                // For Excel, we'll export as CSV for now
-                // In production, use a library like 'xlsx'
-                const excelData = this.convertToCSV(data);
-                await writeFile(filepath.replace('.excel', '.csv'), excelData, 'utf8');
-                break;
-        }
-    }
-
-    private convertToCSV(data: any): string {
-        // Simple CSV conversion - focuses on trials data
-        if (!data.trials || data.trials.length === 0) {
-            return 'No trial data to export';
-        }
-
-        const headers = Object.keys(data.trials[0]);
-        const csvRows = [headers.join(',')];
-
-        for (const trial of data.trials) {
-            const values = headers.map(header => {
-                const value = trial[header];
-                return typeof value === 'string' ? `"${value}"` : value;
-            });
-            csvRows.push(values.join(','));
-        }
-
-        return csvRows.join('\n');
-    }
-
-    private async logExport(filepath: string, metadata: any, options: ExportOptions): Promise<void> {
-        try {
-            const dbManager = getDatabaseManager();
-            const db = dbManager.getConnection();
-
-            const checksum = crypto.createHash('sha256')
-                .update(await readFile(filepath))
-                .digest('hex');
-
-            const stmt = db.prepare(`
-                INSERT INTO export_log (
-                    id, export_type, data_range_start, data_range_end,
-                    trial_count, session_count, file_path, checksum
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-            `);
-
-            const id = crypto.randomUUID();
-            const startTime = options.startDate?.getTime() || 0;
-            const endTime = options.endDate?.getTime() || Date.now();
-
-            stmt.run([
-                id,
-                options.format,
-                startTime,
-                endTime,
-                metadata.counts.trials,
-                metadata.counts.sessions,
-                filepath,
-                checksum
-            ]);
-        } catch (error) {
-            console.error('Failed to log export:', error);
-        }
-    }
 }
 
 // Export singleton instance
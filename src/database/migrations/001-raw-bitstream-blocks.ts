@@ -0,0 +1,41 @@
+/**
+ * 1.1.0 - Raw bitstream blocks
+ * The 200-bit payloads behind trial sums, for retrospective randomness testing
+ */
+
+import type { Migration } from '../migrator';
+
+export const rawBitstreamBlocks: Migration = {
+    version: '1.1.0',
+    name: 'raw-bitstream-blocks',
+    up: `
+        -- Each block holds a run of consecutive trials from one session; payload is the concatenated
+        -- 25-byte frames, timestamp_intervals the deflated per-trial gaps (ms, uint32 LE) from the previous trial
+        CREATE TABLE IF NOT EXISTS trial_bitstream_blocks (
+            id TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            experiment_mode TEXT NOT NULL CHECK(experiment_mode IN ('session', 'continuous')),
+            intention TEXT CHECK(intention IN ('high', 'low', 'baseline') OR intention IS NULL),
+            first_trial_number INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL CHECK(trial_count > 0),
+            bytes_per_trial INTEGER NOT NULL DEFAULT 25,
+            start_time INTEGER NOT NULL,
+            end_time INTEGER NOT NULL,
+            encoding TEXT NOT NULL CHECK(encoding IN ('raw', 'deflate')),
+            payload BLOB NOT NULL,
+            timestamp_intervals BLOB NOT NULL,
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_bitstream_session ON trial_bitstream_blocks(session_id, first_trial_number);
+        CREATE INDEX IF NOT EXISTS idx_bitstream_time ON trial_bitstream_blocks(start_time, end_time);
+        CREATE INDEX IF NOT EXISTS idx_bitstream_mode_time ON trial_bitstream_blocks(experiment_mode, start_time);
+    `,
+    down: `
+        DROP INDEX IF EXISTS idx_bitstream_mode_time;
+        DROP INDEX IF EXISTS idx_bitstream_time;
+        DROP INDEX IF EXISTS idx_bitstream_session;
+        DROP TABLE IF EXISTS trial_bitstream_blocks;
+    `
+};
@@ -0,0 +1,143 @@
+/**
+ * 1.2.0 - Participant registry
+ * Pseudonymous operators behind sessions and intention periods, replacing the free-text participant_id
+ */
+
+import type { Migration } from '../migrator';
+
+/** Random RFC 4122 version 4 UUID, matching the ids the repositories generate */
+const UUID_V4 = `
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+    substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    lower(hex(randomblob(6)))
+`;
+
+export const participants: Migration = {
+    version: '1.2.0',
+    name: 'participants',
+    up: `
+        -- Demographics are only stored for participants who opted in
+        CREATE TABLE participants (
+            id TEXT PRIMARY KEY,
+            code TEXT NOT NULL UNIQUE,
+            consent_date INTEGER,
+            demographics_opt_in INTEGER NOT NULL DEFAULT 0 CHECK(demographics_opt_in IN (0, 1)),
+            birth_year INTEGER,
+            gender TEXT,
+            handedness TEXT CHECK(handedness IN ('left', 'right', 'ambidextrous') OR handedness IS NULL),
+            notes TEXT,
+            active INTEGER NOT NULL DEFAULT 1 CHECK(active IN (0, 1)),
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+            CHECK(demographics_opt_in = 1 OR (birth_year IS NULL AND gender IS NULL AND handedness IS NULL))
+        );
+
+        CREATE INDEX idx_participants_active ON participants(active, code);
+
+        -- Register every free-text participant id already used by a session
+        INSERT INTO participants (id, code, notes)
+        SELECT ${UUID_V4}, code, 'Registered from existing session records'
+        FROM (
+            SELECT DISTINCT trim(participant_id) AS code
+            FROM sessions
+            WHERE participant_id IS NOT NULL AND trim(participant_id) <> ''
+        );
+
+        -- Rebuild sessions so participant_id references the registry
+        CREATE TABLE sessions_new (
+            id TEXT PRIMARY KEY,
+            start_time INTEGER NOT NULL,
+            end_time INTEGER,
+            intention TEXT NOT NULL CHECK(intention IN ('high', 'low', 'baseline')),
+            target_trials INTEGER NOT NULL,
+            actual_trials INTEGER DEFAULT 0,
+            status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'stopped')),
+            notes TEXT,
+            participant_id TEXT,
+            duration INTEGER, -- Duration in milliseconds
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO sessions_new (
+            id, start_time, end_time, intention, target_trials, actual_trials,
+            status, notes, participant_id, duration, created_at
+        )
+        SELECT
+            s.id, s.start_time, s.end_time, s.intention, s.target_trials, s.actual_trials,
+            s.status, s.notes, p.id, s.duration, s.created_at
+        FROM sessions s
+        LEFT JOIN participants p ON p.code = trim(s.participant_id);
+
+        DROP TABLE sessions;
+        ALTER TABLE sessions_new RENAME TO sessions;
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(start_time);
+        CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+        CREATE INDEX IF NOT EXISTS idx_sessions_intention ON sessions(intention);
+        CREATE INDEX idx_sessions_participant ON sessions(participant_id, start_time);
+
+        -- Continuous-mode intention periods can be attributed to an operator too
+        ALTER TABLE intention_periods
+            ADD COLUMN participant_id TEXT REFERENCES participants(id) ON DELETE SET NULL;
+
+        CREATE INDEX idx_intention_periods_participant ON intention_periods(participant_id, start_time);
+    `,
+    down: `
+        -- SQLite cannot drop a column that carries a foreign key, so rebuild both tables
+        CREATE TABLE intention_periods_old (
+            id TEXT PRIMARY KEY,
+            start_time INTEGER NOT NULL,
+            end_time INTEGER,
+            intention TEXT NOT NULL CHECK(intention IN ('high', 'low')),
+            notes TEXT,
+            session_id TEXT,
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO intention_periods_old (id, start_time, end_time, intention, notes, session_id, created_at)
+        SELECT id, start_time, end_time, intention, notes, session_id, created_at FROM intention_periods;
+
+        DROP TABLE intention_periods;
+        ALTER TABLE intention_periods_old RENAME TO intention_periods;
+
+        CREATE INDEX IF NOT EXISTS idx_intention_periods_time ON intention_periods(start_time, end_time);
+        CREATE INDEX IF NOT EXISTS idx_intention_periods_intention ON intention_periods(intention);
+
+        -- Sessions go back to holding the participant code as free text
+        CREATE TABLE sessions_old (
+            id TEXT PRIMARY KEY,
+            start_time INTEGER NOT NULL,
+            end_time INTEGER,
+            intention TEXT NOT NULL CHECK(intention IN ('high', 'low', 'baseline')),
+            target_trials INTEGER NOT NULL,
+            actual_trials INTEGER DEFAULT 0,
+            status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'stopped')),
+            notes TEXT,
+            participant_id TEXT,
+            duration INTEGER, -- Duration in milliseconds
+            created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        INSERT INTO sessions_old (
+            id, start_time, end_time, intention, target_trials, actual_trials,
+            status, notes, participant_id, duration, created_at
+        )
+        SELECT
+            s.id, s.start_time, s.end_time, s.intention, s.target_trials, s.actual_trials,
+            s.status, s.notes, p.code, s.duration, s.created_at
+        FROM sessions s
+        LEFT JOIN participants p ON p.id = s.participant_id;
+
+        DROP TABLE sessions;
+        ALTER TABLE sessions_old RENAME TO sessions;
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(start_time);
+        CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+        CREATE INDEX IF NOT EXISTS idx_sessions_intention ON sessions(intention);
+
+        DROP TABLE participants;
+    `
+};
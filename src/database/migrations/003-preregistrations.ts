@@ -0,0 +1,92 @@
+/**
+ * 1.3.0 - Pre-registrations
+ * Hypotheses and analysis plans frozen with a SHA-256 hash before any data is collected
+ */
+
+import type { Migration } from '../migrator';
+
+export const preregistrations: Migration = {
+    version: '1.3.0',
+    name: 'preregistrations',
+    up: `
+        -- plan is the canonical JSON the hash was computed over
+        CREATE TABLE preregistrations (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            plan TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'locked', 'completed')),
+            plan_hash TEXT,
+            locked_at INTEGER,
+            completed_at INTEGER,
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            CHECK((status = 'draft') = (locked_at IS NULL)),
+            CHECK(status = 'draft' OR plan_hash IS NOT NULL)
+        );
+
+        CREATE INDEX idx_preregistrations_status ON preregistrations(status, created_at);
+
+        -- A locked plan can only move on to completed; it can never be edited or deleted
+        CREATE TRIGGER preregistrations_locked_update
+        BEFORE UPDATE ON preregistrations
+        WHEN OLD.locked_at IS NOT NULL AND (
+            NEW.plan IS NOT OLD.plan OR
+            NEW.title IS NOT OLD.title OR
+            NEW.plan_hash IS NOT OLD.plan_hash OR
+            NEW.locked_at IS NOT OLD.locked_at OR
+            NEW.status = 'draft'
+        )
+        BEGIN
+            SELECT RAISE(ABORT, 'Pre-registration is locked');
+        END;
+
+        CREATE TRIGGER preregistrations_locked_delete
+        BEFORE DELETE ON preregistrations
+        WHEN OLD.locked_at IS NOT NULL
+        BEGIN
+            SELECT RAISE(ABORT, 'Pre-registration is locked');
+        END;
+
+        ALTER TABLE sessions
+            ADD COLUMN preregistration_id TEXT REFERENCES preregistrations(id) ON DELETE RESTRICT;
+
+        CREATE INDEX idx_sessions_preregistration ON sessions(preregistration_id, start_time);
+    `,
+    down: `
+        -- SQLite cannot drop a column that carries a foreign key, so rebuild sessions as of 1.2.0
+        CREATE TABLE sessions_old (
+            id TEXT PRIMARY KEY,
+            start_time INTEGER NOT NULL,
+            end_time INTEGER,
+            intention TEXT NOT NULL CHECK(intention IN ('high', 'low', 'baseline')),
+            target_trials INTEGER NOT NULL,
+            actual_trials INTEGER DEFAULT 0,
+            status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'stopped')),
+            notes TEXT,
+            participant_id TEXT,
+            duration INTEGER, -- Duration in milliseconds
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO sessions_old (
+            id, start_time, end_time, intention, target_trials, actual_trials,
+            status, notes, participant_id, duration, created_at
+        )
+        SELECT
+            id, start_time, end_time, intention, target_trials, actual_trials,
+            status, notes, participant_id, duration, created_at
+        FROM sessions;
+
+        DROP TABLE sessions;
+        ALTER TABLE sessions_old RENAME TO sessions;
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(start_time);
+        CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+        CREATE INDEX IF NOT EXISTS idx_sessions_intention ON sessions(intention);
+        CREATE INDEX idx_sessions_participant ON sessions(participant_id, start_time);
+
+        DROP TRIGGER IF EXISTS preregistrations_locked_delete;
+        DROP TRIGGER IF EXISTS preregistrations_locked_update;
+        DROP TABLE preregistrations;
+    `
+};
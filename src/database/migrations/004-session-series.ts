@@ -0,0 +1,46 @@
+/**
+ * 1.4.0 - Session series
+ * Tri-polar protocol series scheduling balanced high, low and baseline runs across days
+ */
+
+import type { Migration } from '../migrator';
+
+export const sessionSeries: Migration = {
+    version: '1.4.0',
+    name: 'session_series',
+    up: `
+        CREATE TABLE session_series (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            participant_id TEXT,
+            blocks INTEGER NOT NULL CHECK(blocks > 0),
+            trials_per_run INTEGER NOT NULL CHECK(trials_per_run > 0),
+            run_order TEXT NOT NULL CHECK(run_order IN ('fixed', 'randomized')),
+            status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'completed', 'abandoned')),
+            notes TEXT,
+            created_at INTEGER DEFAULT (strftime('%s', 'now')),
+            completed_at INTEGER,
+            FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX idx_session_series_participant ON session_series(participant_id, status);
+
+        -- The schedule is fixed at creation; a run points at the session that performed it
+        CREATE TABLE series_runs (
+            series_id TEXT NOT NULL,
+            position INTEGER NOT NULL CHECK(position > 0),
+            block INTEGER NOT NULL CHECK(block > 0),
+            intention TEXT NOT NULL CHECK(intention IN ('high', 'low', 'baseline')),
+            session_id TEXT,
+            PRIMARY KEY (series_id, position),
+            FOREIGN KEY (series_id) REFERENCES session_series(id) ON DELETE CASCADE,
+            FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+        );
+
+        CREATE UNIQUE INDEX idx_series_runs_session ON series_runs(session_id) WHERE session_id IS NOT NULL;
+    `,
+    down: `
+        DROP TABLE series_runs;
+        DROP TABLE session_series;
+    `
+};
@@ -0,0 +1,22 @@
+/**
+ * 1.5.0 - Session feedback modality
+ * Records which real-time feedback the operator had so results can be compared across modalities
+ */
+
+import type { Migration } from '../migrator';
+
+export const sessionFeedback: Migration = {
+    version: '1.5.0',
+    name: 'session_feedback',
+    up: `
+        -- Every earlier session showed the cumulative chart
+        ALTER TABLE sessions ADD COLUMN feedback TEXT NOT NULL DEFAULT 'chart'
+            CHECK(feedback IN ('chart', 'audio', 'pendulum', 'fountain', 'counter', 'none'));
+
+        CREATE INDEX idx_sessions_feedback ON sessions(feedback, intention);
+    `,
+    down: `
+        DROP INDEX idx_sessions_feedback;
+        ALTER TABLE sessions DROP COLUMN feedback;
+    `
+};
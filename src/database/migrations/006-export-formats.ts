@@ -0,0 +1,60 @@
+/**
+ * 1.6.0 - Export formats
+ * The export log records every format of the unified exporter instead of only csv, json and excel
+ */
+
+import type { Migration } from '../migrator';
+
+export const exportFormats: Migration = {
+    version: '1.6.0',
+    name: 'export_formats',
+    up: `
+        -- SQLite cannot alter a CHECK constraint, so rebuild the table
+        CREATE TABLE export_log_new (
+            id TEXT PRIMARY KEY,
+            export_type TEXT NOT NULL CHECK(export_type IN ('csv', 'json', 'excel', 'xlsx', 'r', 'matlab', 'spss')),
+            data_range_start INTEGER NOT NULL,
+            data_range_end INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL,
+            session_count INTEGER NOT NULL,
+            file_path TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            exported_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        INSERT INTO export_log_new SELECT * FROM export_log;
+
+        DROP TABLE export_log;
+        ALTER TABLE export_log_new RENAME TO export_log;
+
+        CREATE INDEX IF NOT EXISTS idx_export_log_time ON export_log(exported_at);
+        CREATE INDEX IF NOT EXISTS idx_export_log_type ON export_log(export_type);
+    `,
+    down: `
+        CREATE TABLE export_log_old (
+            id TEXT PRIMARY KEY,
+            export_type TEXT NOT NULL CHECK(export_type IN ('csv', 'json', 'excel')),
+            data_range_start INTEGER NOT NULL,
+            data_range_end INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL,
+            session_count INTEGER NOT NULL,
+            file_path TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            exported_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        -- Workbooks were logged as excel before; the other formats did not exist
+        INSERT INTO export_log_old
+        SELECT
+            id, CASE export_type WHEN 'xlsx' THEN 'excel' ELSE export_type END,
+            data_range_start, data_range_end, trial_count, session_count, file_path, checksum, exported_at
+        FROM export_log
+        WHERE export_type IN ('csv', 'json', 'excel', 'xlsx');
+
+        DROP TABLE export_log;
+        ALTER TABLE export_log_old RENAME TO export_log;
+
+        CREATE INDEX IF NOT EXISTS idx_export_log_time ON export_log(exported_at);
+        CREATE INDEX IF NOT EXISTS idx_export_log_type ON export_log(export_type);
+    `
+};
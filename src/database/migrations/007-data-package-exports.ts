@@ -0,0 +1,57 @@
+/**
+ * 1.7.0 - Data package exports
+ * The export log records published data packages
+ */
+
+import type { Migration } from '../migrator';
+
+export const dataPackageExports: Migration = {
+    version: '1.7.0',
+    name: 'data_package_exports',
+    up: `
+        -- SQLite cannot alter a CHECK constraint, so rebuild the table
+        CREATE TABLE export_log_new (
+            id TEXT PRIMARY KEY,
+            export_type TEXT NOT NULL CHECK(export_type IN ('csv', 'json', 'excel', 'xlsx', 'r', 'matlab', 'spss', 'datapackage')),
+            data_range_start INTEGER NOT NULL,
+            data_range_end INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL,
+            session_count INTEGER NOT NULL,
+            file_path TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            exported_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        INSERT INTO export_log_new SELECT * FROM export_log;
+
+        DROP TABLE export_log;
+        ALTER TABLE export_log_new RENAME TO export_log;
+
+        CREATE INDEX IF NOT EXISTS idx_export_log_time ON export_log(exported_at);
+        CREATE INDEX IF NOT EXISTS idx_export_log_type ON export_log(export_type);
+    `,
+    down: `
+        CREATE TABLE export_log_old (
+            id TEXT PRIMARY KEY,
+            export_type TEXT NOT NULL CHECK(export_type IN ('csv', 'json', 'excel', 'xlsx', 'r', 'matlab', 'spss')),
+            data_range_start INTEGER NOT NULL,
+            data_range_end INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL,
+            session_count INTEGER NOT NULL,
+            file_path TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            exported_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        -- Data packages could not be recorded before this version
+        INSERT INTO export_log_old
+        SELECT * FROM export_log
+        WHERE export_type != 'datapackage';
+
+        DROP TABLE export_log;
+        ALTER TABLE export_log_old RENAME TO export_log;
+
+        CREATE INDEX IF NOT EXISTS idx_export_log_time ON export_log(exported_at);
+        CREATE INDEX IF NOT EXISTS idx_export_log_type ON export_log(export_type);
+    `
+};
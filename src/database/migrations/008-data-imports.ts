@@ -0,0 +1,39 @@
+/**
+ * 1.8.0 - Data imports
+ * Sessions brought in from external datasets carry a provenance tag and the import they came from
+ */
+
+import type { Migration } from '../migrator';
+
+export const dataImports: Migration = {
+    version: '1.8.0',
+    name: 'data_imports',
+    up: `
+        CREATE TABLE data_imports (
+            id TEXT PRIMARY KEY,
+            format TEXT NOT NULL CHECK(format IN ('gcp', 'csv', 'json')),
+            source TEXT NOT NULL,
+            file_name TEXT NOT NULL,
+            checksum TEXT NOT NULL, -- SHA-256 of the imported file
+            session_count INTEGER NOT NULL,
+            trial_count INTEGER NOT NULL,
+            rejected_count INTEGER NOT NULL,
+            imported_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_data_imports_time ON data_imports(imported_at);
+
+        -- NULL for data generated by this installation
+        ALTER TABLE sessions ADD COLUMN source TEXT;
+        ALTER TABLE sessions ADD COLUMN import_id TEXT;
+
+        CREATE INDEX idx_sessions_import ON sessions(import_id);
+    `,
+    down: `
+        DROP INDEX idx_sessions_import;
+        ALTER TABLE sessions DROP COLUMN import_id;
+        ALTER TABLE sessions DROP COLUMN source;
+
+        DROP TABLE data_imports;
+    `
+};
@@ -0,0 +1,21 @@
+/**
+ * 1.9.0 - Trial devices
+ * Trials name the RNG that produced them so several devices can record side by side as a network
+ */
+
+import type { Migration } from '../migrator';
+
+export const trialDevices: Migration = {
+    version: '1.9.0',
+    name: 'trial_devices',
+    up: `
+        -- NULL for trials from the single engine of earlier versions
+        ALTER TABLE trials ADD COLUMN device_id TEXT;
+
+        CREATE INDEX idx_trials_device ON trials(device_id, timestamp);
+    `,
+    down: `
+        DROP INDEX idx_trials_device;
+        ALTER TABLE trials DROP COLUMN device_id;
+    `
+};
@@ -0,0 +1,57 @@
+/**
+ * 1.10.0 - Formal events
+ * GCP-style event registry: window and recipe are fixed at registration, the result is written once
+ */
+
+import type { Migration } from '../migrator';
+
+export const formalEvents: Migration = {
+    version: '1.10.0',
+    name: 'formal_events',
+    up: `
+        -- rejectable = registered before the window opened
+        CREATE TABLE formal_events (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            description TEXT,
+            category TEXT NOT NULL CHECK(category IN ('world', 'personal')),
+            start_time INTEGER NOT NULL,
+            end_time INTEGER NOT NULL,
+            recipe TEXT NOT NULL CHECK(recipe IN ('netvar', 'device_variance', 'covariance')),
+            registered_at INTEGER NOT NULL,
+            rejectable INTEGER NOT NULL CHECK(rejectable IN (0, 1)),
+            status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'evaluated', 'no_data')),
+            statistic REAL,
+            degrees_of_freedom INTEGER,
+            z_score REAL,
+            p_value REAL,
+            device_count INTEGER,
+            seconds INTEGER,
+            trial_count INTEGER,
+            evaluated_at INTEGER,
+            CHECK(end_time > start_time),
+            CHECK((status = 'evaluated') = (z_score IS NOT NULL))
+        );
+
+        CREATE INDEX idx_formal_events_status ON formal_events(status, end_time);
+
+        -- The definition and the first result are final
+        CREATE TRIGGER formal_events_frozen
+        BEFORE UPDATE ON formal_events
+        WHEN OLD.status != 'pending' OR
+            NEW.name IS NOT OLD.name OR
+            NEW.category IS NOT OLD.category OR
+            NEW.start_time IS NOT OLD.start_time OR
+            NEW.end_time IS NOT OLD.end_time OR
+            NEW.recipe IS NOT OLD.recipe OR
+            NEW.registered_at IS NOT OLD.registered_at OR
+            NEW.rejectable IS NOT OLD.rejectable
+        BEGIN
+            SELECT RAISE(ABORT, 'Formal event is frozen');
+        END;
+    `,
+    down: `
+        DROP TRIGGER IF EXISTS formal_events_frozen;
+        DROP TABLE formal_events;
+    `
+};
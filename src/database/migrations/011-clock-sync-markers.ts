@@ -0,0 +1,44 @@
+/**
+ * 1.11.0 - Clock sync and event markers
+ * Sessions record their clock offset against the time server; external recorders
+ * add markers on the trial timeline
+ */
+
+import type { Migration } from '../migrator';
+
+export const clockSyncMarkers: Migration = {
+    version: '1.11.0',
+    name: 'clock_sync_markers',
+    up: `
+        -- NULL when time sync was off; reference time = local time + clock_offset_ms
+        ALTER TABLE sessions ADD COLUMN clock_offset_ms REAL;
+        ALTER TABLE sessions ADD COLUMN clock_uncertainty_ms REAL;
+        ALTER TABLE sessions ADD COLUMN clock_server TEXT;
+        ALTER TABLE sessions ADD COLUMN clock_synced_at INTEGER;
+
+        -- timestamp is on the trial timeline: source_timestamp + alignment_offset_ms
+        CREATE TABLE event_markers (
+            id TEXT PRIMARY KEY,
+            session_id TEXT,
+            label TEXT NOT NULL,
+            source TEXT NOT NULL,
+            code INTEGER,
+            timestamp INTEGER NOT NULL,
+            source_timestamp REAL NOT NULL,
+            alignment_offset_ms REAL NOT NULL,
+            metadata TEXT,
+            received_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_event_markers_timestamp ON event_markers(timestamp);
+        CREATE INDEX idx_event_markers_session ON event_markers(session_id, timestamp);
+    `,
+    down: `
+        DROP TABLE event_markers;
+        ALTER TABLE sessions DROP COLUMN clock_synced_at;
+        ALTER TABLE sessions DROP COLUMN clock_server;
+        ALTER TABLE sessions DROP COLUMN clock_uncertainty_ms;
+        ALTER TABLE sessions DROP COLUMN clock_offset_ms;
+    `
+};
@@ -0,0 +1,88 @@
+/**
+ * 1.12.0 - Group-sequential designs
+ * Alpha-spending plans with a permanent record of every look taken at the accumulating data
+ */
+
+import type { Migration } from '../migrator';
+
+export const groupSequentialDesigns: Migration = {
+    version: '1.12.0',
+    name: 'group_sequential_designs',
+    up: `
+        -- plan is the JSON of the spending function, alpha, maximum trials and planned looks
+        CREATE TABLE sequential_designs (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            plan TEXT NOT NULL,
+            source TEXT NOT NULL CHECK(source IN ('session', 'continuous')),
+            status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'rejected_null', 'retained_null')),
+            created_at INTEGER NOT NULL,
+            closed_at INTEGER,
+            CHECK((status = 'active') = (closed_at IS NULL))
+        );
+
+        CREATE INDEX idx_sequential_designs_status ON sequential_designs(status, created_at);
+
+        -- The plan is fixed at creation and a closed design stays closed
+        CREATE TRIGGER sequential_designs_frozen
+        BEFORE UPDATE ON sequential_designs
+        WHEN OLD.status != 'active' OR
+            NEW.title IS NOT OLD.title OR
+            NEW.plan IS NOT OLD.plan OR
+            NEW.source IS NOT OLD.source OR
+            NEW.created_at IS NOT OLD.created_at
+        BEGIN
+            SELECT RAISE(ABORT, 'Group-sequential design is frozen');
+        END;
+
+        -- Every look spent alpha, so none can be changed or withdrawn
+        CREATE TABLE sequential_looks (
+            id TEXT PRIMARY KEY,
+            design_id TEXT NOT NULL,
+            look_number INTEGER NOT NULL CHECK(look_number > 0),
+            trial_count INTEGER NOT NULL CHECK(trial_count > 0),
+            information_fraction REAL NOT NULL,
+            cumulative_alpha REAL NOT NULL,
+            alpha_spent REAL NOT NULL,
+            boundary_z REAL NOT NULL,
+            nominal_p_value REAL NOT NULL,
+            z_score REAL NOT NULL,
+            crossed INTEGER NOT NULL CHECK(crossed IN (0, 1)),
+            planned INTEGER NOT NULL CHECK(planned IN (0, 1)),
+            triggered_by TEXT NOT NULL CHECK(triggered_by IN ('session', 'continuous', 'analyst')),
+            performed_at INTEGER NOT NULL,
+            UNIQUE(design_id, look_number),
+            FOREIGN KEY (design_id) REFERENCES sequential_designs(id) ON DELETE RESTRICT
+        );
+
+        CREATE TRIGGER sequential_looks_update
+        BEFORE UPDATE ON sequential_looks
+        BEGIN
+            SELECT RAISE(ABORT, 'Sequential looks are permanent');
+        END;
+
+        CREATE TRIGGER sequential_looks_delete
+        BEFORE DELETE ON sequential_looks
+        BEGIN
+            SELECT RAISE(ABORT, 'Sequential looks are permanent');
+        END;
+
+        -- Data a design accumulates: tagged sessions or tagged continuous intention periods
+        ALTER TABLE sessions ADD COLUMN sequential_design_id TEXT;
+        ALTER TABLE intention_periods ADD COLUMN sequential_design_id TEXT;
+
+        CREATE INDEX idx_sessions_sequential_design ON sessions(sequential_design_id);
+        CREATE INDEX idx_intention_periods_sequential_design ON intention_periods(sequential_design_id);
+    `,
+    down: `
+        DROP INDEX idx_intention_periods_sequential_design;
+        DROP INDEX idx_sessions_sequential_design;
+        ALTER TABLE intention_periods DROP COLUMN sequential_design_id;
+        ALTER TABLE sessions DROP COLUMN sequential_design_id;
+        DROP TRIGGER IF EXISTS sequential_looks_delete;
+        DROP TRIGGER IF EXISTS sequential_looks_update;
+        DROP TABLE sequential_looks;
+        DROP TRIGGER IF EXISTS sequential_designs_frozen;
+        DROP TABLE sequential_designs;
+    `
+};
@@ -0,0 +1,34 @@
+/**
+ * Schema migrations, oldest first
+ * Append new migrations here; never edit one that has shipped - its checksum is
+ * recorded in every database it was applied to.
+ */
+
+import type { Migration } from '../migrator';
+import { rawBitstreamBlocks } from './001-raw-bitstream-blocks';
+import { participants } from './002-participants';
+import { preregistrations } from './003-preregistrations';
+import { sessionSeries } from './004-session-series';
+import { sessionFeedback } from './005-session-feedback';
+import { exportFormats } from './006-export-formats';
+import { dataPackageExports } from './007-data-package-exports';
+import { dataImports } from './008-data-imports';
+import { trialDevices } from './009-trial-devices';
+import { formalEvents } from './010-formal-events';
+import { clockSyncMarkers } from './011-clock-sync-markers';
+import { groupSequentialDesigns } from './012-group-sequential-designs';
+
+export const MIGRATIONS: Migration[] = [
+    rawBitstreamBlocks,
+    participants,
+    preregistrations,
+    sessionSeries,
+    sessionFeedback,
+    exportFormats,
+    dataPackageExports,
+    dataImports,
+    trialDevices,
+    formalEvents,
+    clockSyncMarkers,
+    groupSequentialDesigns
+];
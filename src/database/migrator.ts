@@ -0,0 +1,315 @@
+/**
+ * Schema Migration Runner
+ * Applies the versioned migrations in ./migrations on top of the 1.0.0 baseline schema,
+ * in order and inside a single transaction, and verifies the checksums of applied migrations
+ */
+
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import { MIGRATIONS } from './migrations';
+
+/** Version created by schema.sql; migrations start from here */
+export const BASELINE_SCHEMA_VERSION = '1.0.0';
+
+export interface Migration {
+    version: string;
+    name: string;
+    up: string;
+    down: string;
+}
+
+export interface AppliedMigration {
+    version: string;
+    name: string;
+    checksum: string;
+    appliedAt: Date;
+    executionMs: number;
+}
+
+export interface MigrationOptions {
+    /** Run the migrations and roll them back instead of committing */
+    dryRun?: boolean;
+    /** Migrate up or down to this version (defaults to the latest migration) */
+    targetVersion?: string;
+    /** Take a backup before changing the schema (DatabaseManager only, defaults to true) */
+    backup?: boolean;
+}
+
+export interface MigrationStep {
+    version: string;
+    name: string;
+    direction: 'up' | 'down';
+    executionMs: number;
+}
+
+export interface MigrationResult {
+    fromVersion: string;
+    toVersion: string;
+    direction: 'up' | 'down' | 'none';
+    applied: MigrationStep[];
+    dryRun: boolean;
+    backupPath?: string;
+}
+
+export interface MigrationPlan {
+    fromVersion: string;
+    toVersion: string;
+    direction: 'up' | 'down' | 'none';
+    migrations: Migration[];
+}
+
+/**
+ * Compare dotted version strings numerically
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) {
+            return diff < 0 ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * SHA-256 over both scripts, so editing either side of a shipped migration is caught
+ */
+export function migrationChecksum(migration: Migration): string {
+    return crypto.createHash('sha256')
+        .update(`${migration.version}\n${migration.up}\n--down--\n${migration.down}`)
+        .digest('hex');
+}
+
+export class MigrationRunner {
+    private db: Database.Database;
+    private migrations: Migration[];
+
+    constructor(db: Database.Database, migrations: Migration[] = MIGRATIONS) {
+        this.db = db;
+        this.migrations = [...migrations];
+        this.validateMigrations();
+    }
+
+    /**
+     * Version of the newest known migration
+     */
+    getHeadVersion(): string {
+        return this.migrations.length > 0
+            ? this.migrations[this.migrations.length - 1].version
+            : BASELINE_SCHEMA_VERSION;
+    }
+
+    /**
+     * Schema version of the database: its newest applied migration, or the baseline
+     */
+    getCurrentVersion(): string {
+        const applied = this.getAppliedMigrations();
+        return applied.length > 0 ? applied[applied.length - 1].version : BASELINE_SCHEMA_VERSION;
+    }
+
+    /**
+     * Migrations recorded in the database, oldest first
+     */
+    getAppliedMigrations(): AppliedMigration[] {
+        if (!this.hasMigrationsTable()) {
+            return [];
+        }
+
+        const rows = this.db.prepare(`
+            SELECT version, name, checksum, applied_at, execution_ms FROM schema_migrations
+        `).all() as Array<{ version: string; name: string; checksum: string; applied_at: number; execution_ms: number }>;
+
+        return rows
+            .map(row => ({
+                version: row.version,
+                name: row.name,
+                checksum: row.checksum,
+                appliedAt: new Date(row.applied_at),
+                executionMs: row.execution_ms
+            }))
+            .sort((a, b) => compareVersions(a.version, b.version));
+    }
+
+    /**
+     * Check that every applied migration is known to this build and unchanged since it ran
+     */
+    verifyChecksums(): void {
+        const known = new Map(this.migrations.map(migration => [migration.version, migration]));
+
+        for (const applied of this.getAppliedMigrations()) {
+            const migration = known.get(applied.version);
+            if (!migration) {
+                throw new Error(
+                    `Database has migration ${applied.version} (${applied.name}) applied, which is newer than this build`
+                );
+            }
+
+            const checksum = migrationChecksum(migration);
+            if (checksum !== applied.checksum) {
+                throw new Error(
+                    `Checksum mismatch for migration ${applied.version} (${applied.name}): ` +
+                    `applied ${applied.checksum.slice(0, 12)}, found ${checksum.slice(0, 12)}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Work out which migrations take the database to the target version
+     */
+    plan(targetVersion: string = this.getHeadVersion()): MigrationPlan {
+        if (targetVersion !== BASELINE_SCHEMA_VERSION && !this.migrations.some(m => m.version === targetVersion)) {
+            throw new Error(`Unknown schema version: ${targetVersion}`);
+        }
+
+        const fromVersion = this.getCurrentVersion();
+        const applied = new Set(this.getAppliedMigrations().map(migration => migration.version));
+        const order = compareVersions(targetVersion, fromVersion);
+
+        if (order > 0) {
+            return {
+                fromVersion,
+                toVersion: targetVersion,
+                direction: 'up',
+                migrations: this.migrations.filter(migration =>
+                    !applied.has(migration.version) && compareVersions(migration.version, targetVersion) <= 0)
+            };
+        }
+
+        if (order < 0) {
+            return {
+                fromVersion,
+                toVersion: targetVersion,
+                direction: 'down',
+                migrations: this.migrations
+                    .filter(migration =>
+                        applied.has(migration.version) && compareVersions(migration.version, targetVersion) > 0)
+                    .reverse()
+            };
+        }
+
+        return { fromVersion, toVersion: targetVersion, direction: 'none', migrations: [] };
+    }
+
+    /**
+     * Verify checksums and run the plan in one transaction; any failure rolls back the whole batch
+     */
+    run(options: MigrationOptions = {}): MigrationResult {
+        this.verifyChecksums();
+
+        const plan = this.plan(options.targetVersion);
+        const dryRun = options.dryRun === true;
+        const result: MigrationResult = {
+            fromVersion: plan.fromVersion,
+            toVersion: plan.toVersion,
+            direction: plan.direction,
+            applied: [],
+            dryRun
+        };
+
+        if (plan.migrations.length === 0) {
+            return result;
+        }
+
+        // Table rebuilds need foreign keys off; the pragma is a no-op inside a transaction
+        const foreignKeys = this.db.pragma('foreign_keys', { simple: true }) as number;
+        this.db.pragma('foreign_keys = OFF');
+
+        try {
+            this.db.exec('BEGIN IMMEDIATE');
+
+            try {
+                this.ensureMigrationsTable();
+
+                for (const migration of plan.migrations) {
+                    result.applied.push(this.applyStep(migration, plan.direction as 'up' | 'down'));
+                }
+
+                const violations = this.db.pragma('foreign_key_check') as unknown[];
+                if (violations.length > 0) {
+                    throw new Error(`${violations.length} foreign key violation(s) after migrating`);
+                }
+
+                this.db.prepare(`
+                    INSERT OR REPLACE INTO database_metadata (key, value, updated_at)
+                    VALUES ('schema_version', ?, strftime('%s', 'now'))
+                `).run(plan.toVersion);
+
+                this.db.exec(dryRun ? 'ROLLBACK' : 'COMMIT');
+            } catch (error) {
+                if (this.db.inTransaction) {
+                    this.db.exec('ROLLBACK');
+                }
+                throw error;
+            }
+        } finally {
+            this.db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+        }
+
+        return result;
+    }
+
+    // Private methods
+
+    private applyStep(migration: Migration, direction: 'up' | 'down'): MigrationStep {
+        const start = Date.now();
+
+        try {
+            this.db.exec(direction === 'up' ? migration.up : migration.down);
+        } catch (error: unknown) {
+            throw new Error(
+                `Migration ${migration.version} (${migration.name}) ${direction} failed: ` +
+                `${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        const executionMs = Date.now() - start;
+
+        if (direction === 'up') {
+            this.db.prepare(`
+                INSERT INTO schema_migrations (version, name, checksum, applied_at, execution_ms)
+                VALUES (?, ?, ?, ?, ?)
+            `).run(migration.version, migration.name, migrationChecksum(migration), Date.now(), executionMs);
+        } else {
+            this.db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+        }
+
+        return { version: migration.version, name: migration.name, direction, executionMs };
+    }
+
+    private hasMigrationsTable(): boolean {
+        const row = this.db.prepare(`
+            SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+        `).get();
+        return row !== undefined;
+    }
+
+    private ensureMigrationsTable(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                applied_at INTEGER NOT NULL,
+                execution_ms INTEGER NOT NULL
+            )
+        `);
+    }
+
+    private validateMigrations(): void {
+        let previous = BASELINE_SCHEMA_VERSION;
+
+        for (const migration of this.migrations) {
+            if (!/^\d+\.\d+\.\d+$/.test(migration.version)) {
+                throw new Error(`Invalid migration version: ${migration.version}`);
+            }
+            if (compareVersions(migration.version, previous) <= 0) {
+                throw new Error(`Migration ${migration.version} must be newer than ${previous}`);
+            }
+            previous = migration.version;
+        }
+    }
+}
@@ -0,0 +1,342 @@
+/**
+ * Bitstream Repository - Raw 200-bit trial payloads
+ * Stores the bytes behind each trial sum in compressed blocks so randomness
+ * test suites can be re-run on the exact bits that produced experimental data
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { RNGTrial, ExperimentMode, IntentionType } from '../../shared/types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+/**
+ * Bytes captured per trial (200 bits)
+ */
+export const BYTES_PER_TRIAL = 25;
+
+/**
+ * Blocks fetched per query while streaming
+ */
+const STREAM_PAGE_SIZE = 64;
+
+export interface BitstreamQueryOptions {
+    sessionId?: string;
+    experimentMode?: ExperimentMode;
+    intention?: IntentionType;
+    startTime?: Date;
+    endTime?: Date;
+}
+
+/**
+ * Raw payload of one trial
+ */
+export interface TrialBits {
+    sessionId: string;
+    trialNumber: number;
+    timestamp: Date;
+    bytes: Uint8Array;
+}
+
+export interface BitstreamStorageStats {
+    blockCount: number;
+    trialCount: number;
+    rawBytes: number;
+    storedBytes: number;
+    compressionRatio: number;
+}
+
+export class BitstreamRepository {
+    private db: Database.Database;
+    private insertStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Store the raw payloads of trials that carry them
+     * Consecutive trials of a session are packed into one block; returns the number of trials stored.
+     * Runs inside the caller's transaction when called from one.
+     */
+    storeTrialBits(trials: RNGTrial[]): number {
+        const captured = trials
+            .filter(trial => trial.rawBits && trial.rawBits.length === BYTES_PER_TRIAL)
+            .sort((a, b) =>
+                a.sessionId === b.sessionId
+                    ? a.trialNumber - b.trialNumber
+                    : a.sessionId.localeCompare(b.sessionId)
+            );
+        if (captured.length === 0) return 0;
+
+        try {
+            let block: RNGTrial[] = [];
+            for (const trial of captured) {
+                const previous = block[block.length - 1];
+                if (previous && !this.continuesBlock(previous, trial)) {
+                    this.insertBlock(block);
+                    block = [];
+                }
+                block.push(trial);
+            }
+            this.insertBlock(block);
+
+            return captured.length;
+        } catch (error) {
+            console.error('Failed to store trial bits:', error);
+            throw new Error(`Bitstream insertion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stream trial payloads in time order, a page of blocks in memory at a time
+     */
+    async *streamTrialBits(options: BitstreamQueryOptions = {}): AsyncGenerator<TrialBits> {
+        const { query, params } = this.buildBlockQuery(options);
+        const stmt = this.db.prepare(`${query} LIMIT ? OFFSET ?`);
+
+        for (let offset = 0; ; offset += STREAM_PAGE_SIZE) {
+            const rows = stmt.all(...params, STREAM_PAGE_SIZE, offset);
+
+            for (const row of rows) {
+                for (const trialBits of this.decodeBlock(row)) {
+                    if (options.startTime && trialBits.timestamp < options.startTime) continue;
+                    if (options.endTime && trialBits.timestamp > options.endTime) continue;
+                    yield trialBits;
+                }
+            }
+
+            if (rows.length < STREAM_PAGE_SIZE) break;
+        }
+    }
+
+    /**
+     * All captured bytes for a session, in trial order
+     */
+    async getSessionBits(sessionId: string): Promise<Uint8Array> {
+        return this.collectBytes({ sessionId });
+    }
+
+    /**
+     * Captured bytes of continuous-mode trials within a time range
+     */
+    async getBitsByTimeRange(startTime: Date, endTime: Date, options?: BitstreamQueryOptions): Promise<Uint8Array> {
+        return this.collectBytes({ experimentMode: 'continuous', ...options, startTime, endTime });
+    }
+
+    /**
+     * Captured bytes of the continuous-mode trials during an intention period
+     */
+    async getIntentionPeriodBits(periodId: string): Promise<Uint8Array> {
+        try {
+            const period = this.db.prepare(`
+                SELECT start_time, end_time FROM intention_periods WHERE id = ?
+            `).get(periodId) as { start_time: number; end_time: number | null } | undefined;
+
+            if (!period) {
+                return new Uint8Array(0);
+            }
+
+            return this.getBitsByTimeRange(
+                new Date(period.start_time),
+                period.end_time ? new Date(period.end_time) : new Date()
+            );
+        } catch (error) {
+            console.error('Failed to get intention period bits:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Storage used by captured payloads
+     */
+    async getStorageStats(): Promise<BitstreamStorageStats> {
+        try {
+            const result = this.db.prepare(`
+                SELECT
+                    COUNT(*) as blockCount,
+                    COALESCE(SUM(trial_count), 0) as trialCount,
+                    COALESCE(SUM(trial_count * bytes_per_trial), 0) as rawBytes,
+                    COALESCE(SUM(LENGTH(payload) + LENGTH(timestamp_intervals)), 0) as storedBytes
+                FROM trial_bitstream_blocks
+            `).get() as { blockCount: number; trialCount: number; rawBytes: number; storedBytes: number };
+
+            return {
+                ...result,
+                compressionRatio: result.rawBytes > 0 ? result.storedBytes / result.rawBytes : 1
+            };
+        } catch (error) {
+            console.error('Failed to get bitstream storage stats:', error);
+            throw new Error(`Statistics query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Delete blocks that ended before a date
+     */
+    deleteOlderThan(date: Date, experimentMode?: ExperimentMode): number {
+        try {
+            let query = 'DELETE FROM trial_bitstream_blocks WHERE end_time < ?';
+            const params: any[] = [date.getTime()];
+
+            if (experimentMode) {
+                query += ' AND experiment_mode = ?';
+                params.push(experimentMode);
+            }
+
+            return this.db.prepare(query).run(...params).changes;
+        } catch (error) {
+            console.error('Failed to delete old bitstream blocks:', error);
+            throw new Error(`Deletion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO trial_bitstream_blocks (
+                id, session_id, experiment_mode, intention, first_trial_number,
+                trial_count, bytes_per_trial, start_time, end_time,
+                encoding, payload, timestamp_intervals
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private continuesBlock(previous: RNGTrial, trial: RNGTrial): boolean {
+        return trial.sessionId === previous.sessionId &&
+            trial.trialNumber === previous.trialNumber + 1 &&
+            trial.experimentMode === previous.experimentMode &&
+            trial.intention === previous.intention &&
+            trial.timestamp.getTime() >= previous.timestamp.getTime();
+    }
+
+    private insertBlock(trials: RNGTrial[]): void {
+        const first = trials[0];
+        const startTime = first.timestamp.getTime();
+
+        // Timestamps are stored as gaps from the previous trial - at a steady rate they deflate to almost nothing
+        const payload = Buffer.alloc(trials.length * BYTES_PER_TRIAL);
+        const intervals = Buffer.alloc(trials.length * 4);
+        let previousTime = startTime;
+        trials.forEach((trial, index) => {
+            payload.set(trial.rawBits as Uint8Array, index * BYTES_PER_TRIAL);
+            intervals.writeUInt32LE(trial.timestamp.getTime() - previousTime, index * 4);
+            previousTime = trial.timestamp.getTime();
+        });
+
+        // Healthy RNG output is incompressible - only keep the deflated form when it actually helps
+        const compressed = deflateRawSync(payload);
+        const useDeflate = compressed.length < payload.length;
+
+        this.insertStmt.run(
+            uuidv4(),
+            first.sessionId,
+            first.experimentMode,
+            first.intention,
+            first.trialNumber,
+            trials.length,
+            BYTES_PER_TRIAL,
+            startTime,
+            trials[trials.length - 1].timestamp.getTime(),
+            useDeflate ? 'deflate' : 'raw',
+            useDeflate ? compressed : payload,
+            deflateRawSync(intervals)
+        );
+    }
+
+    private buildBlockQuery(options: BitstreamQueryOptions): { query: string; params: any[] } {
+        let query = 'SELECT * FROM trial_bitstream_blocks WHERE 1=1';
+        const params: any[] = [];
+
+        if (options.sessionId) {
+            query += ' AND session_id = ?';
+            params.push(options.sessionId);
+        }
+
+        if (options.experimentMode) {
+            query += ' AND experiment_mode = ?';
+            params.push(options.experimentMode);
+        }
+
+        if (options.intention) {
+            query += ' AND intention = ?';
+            params.push(options.intention);
+        }
+
+        // Block-level overlap; trial-level filtering happens after decoding
+        if (options.startTime) {
+            query += ' AND end_time >= ?';
+            params.push(options.startTime.getTime());
+        }
+
+        if (options.endTime) {
+            query += ' AND start_time <= ?';
+            params.push(options.endTime.getTime());
+        }
+
+        query += options.sessionId
+            ? ' ORDER BY first_trial_number ASC, id ASC'
+            : ' ORDER BY start_time ASC, first_trial_number ASC, id ASC';
+
+        return { query, params };
+    }
+
+    private decodeBlock(row: any): TrialBits[] {
+        const payload: Buffer = row.encoding === 'deflate' ? inflateRawSync(row.payload) : row.payload;
+        const intervals = inflateRawSync(row.timestamp_intervals);
+        const bytesPerTrial: number = row.bytes_per_trial;
+
+        const trials: TrialBits[] = [];
+        let time: number = row.start_time;
+        for (let i = 0; i < row.trial_count; i++) {
+            time += intervals.readUInt32LE(i * 4);
+            trials.push({
+                sessionId: row.session_id,
+                trialNumber: row.first_trial_number + i,
+                timestamp: new Date(time),
+                bytes: new Uint8Array(payload.subarray(i * bytesPerTrial, (i + 1) * bytesPerTrial))
+            });
+        }
+        return trials;
+    }
+
+    private async collectBytes(options: BitstreamQueryOptions): Promise<Uint8Array> {
+        try {
+            const chunks: Uint8Array[] = [];
+            let length = 0;
+
+            for await (const trialBits of this.streamTrialBits(options)) {
+                chunks.push(trialBits.bytes);
+                length += trialBits.bytes.length;
+            }
+
+            const bytes = new Uint8Array(length);
+            let offset = 0;
+            for (const chunk of chunks) {
+                bytes.set(chunk, offset);
+                offset += chunk.length;
+            }
+            return bytes;
+        } catch (error) {
+            console.error('Failed to read bitstream:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * Expand bytes into individual bits (least significant bit first, matching
+ * how the RNG engine sums them) for the bit-level randomness tests
+ */
+export function unpackBits(bytes: Uint8Array): number[] {
+    const bits: number[] = new Array(bytes.length * 8);
+    for (let i = 0; i < bytes.length; i++) {
+        for (let bit = 0; bit < 8; bit++) {
+            bits[i * 8 + bit] = (bytes[i] >> bit) & 1;
+        }
+    }
+    return bits;
+}
@@ -0,0 +1,189 @@
+/**
+ * Formal Event Repository - GCP-style events registered with a window and analysis recipe
+ * Definitions never change after registration and each event is evaluated exactly once
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    FormalEvent,
+    FormalEventDefinition,
+    FormalEventResult
+} from '../../shared/analysis-types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+export class FormalEventRepository {
+    private db: Database.Database;
+    private insertStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Register an event; it is rejectable only if registered before its window opens
+     */
+    async registerEvent(definition: FormalEventDefinition, registeredAt: Date = new Date()): Promise<string> {
+        const eventId = uuidv4();
+        const rejectable = registeredAt.getTime() <= definition.startTime.getTime();
+
+        try {
+            this.insertStmt.run(
+                eventId,
+                definition.name.trim(),
+                definition.description?.trim() || null,
+                definition.category,
+                definition.startTime.getTime(),
+                definition.endTime.getTime(),
+                definition.recipe,
+                registeredAt.getTime(),
+                rejectable ? 1 : 0
+            );
+
+            console.log(`Registered ${rejectable ? 'rejectable' : 'non-rejectable'} formal event: ${definition.name}`);
+            return eventId;
+        } catch (error) {
+            console.error('Failed to register formal event:', error);
+            throw new Error(`Formal event registration failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get an event by id
+     */
+    async getEvent(eventId: string): Promise<FormalEvent | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM formal_events WHERE id = ?').get(eventId);
+            return row ? this.dbRowToEvent(row) : null;
+        } catch (error) {
+            console.error('Failed to get formal event:', error);
+            throw new Error(`Formal event retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * List events by window end, oldest first
+     */
+    async listEvents(status?: FormalEvent['status']): Promise<FormalEvent[]> {
+        try {
+            let query = 'SELECT * FROM formal_events';
+            const params: any[] = [];
+
+            if (status) {
+                query += ' WHERE status = ?';
+                params.push(status);
+            }
+
+            query += ' ORDER BY end_time, registered_at';
+
+            const rows = this.db.prepare(query).all(...params);
+            return rows.map(row => this.dbRowToEvent(row));
+        } catch (error) {
+            console.error('Failed to list formal events:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Pending events whose window closed at or before the given time
+     */
+    async getDueEvents(closedBy: Date): Promise<FormalEvent[]> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT * FROM formal_events
+                WHERE status = 'pending' AND end_time <= ?
+                ORDER BY end_time
+            `).all(closedBy.getTime());
+            return rows.map(row => this.dbRowToEvent(row));
+        } catch (error) {
+            console.error('Failed to get due formal events:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * End of the earliest window still waiting for evaluation
+     */
+    async getNextPendingEnd(): Promise<Date | null> {
+        const row = this.db.prepare(
+            "SELECT MIN(end_time) as end_time FROM formal_events WHERE status = 'pending'"
+        ).get() as { end_time: number | null };
+        return row.end_time !== null ? new Date(row.end_time) : null;
+    }
+
+    /**
+     * Store the evaluation of a pending event; null records that its window holds no network data
+     */
+    async recordResult(eventId: string, result: FormalEventResult | null): Promise<void> {
+        try {
+            const update = result
+                ? this.db.prepare(`
+                    UPDATE formal_events
+                    SET status = 'evaluated', statistic = ?, degrees_of_freedom = ?, z_score = ?, p_value = ?,
+                        device_count = ?, seconds = ?, trial_count = ?, evaluated_at = ?
+                    WHERE id = ? AND status = 'pending'
+                `).run(
+                    result.statistic,
+                    result.degreesOfFreedom,
+                    result.zScore,
+                    result.pValue,
+                    result.deviceCount,
+                    result.seconds,
+                    result.trialCount,
+                    result.evaluatedAt.getTime(),
+                    eventId
+                )
+                : this.db.prepare(`
+                    UPDATE formal_events
+                    SET status = 'no_data', evaluated_at = ?
+                    WHERE id = ? AND status = 'pending'
+                `).run(Date.now(), eventId);
+
+            if (update.changes === 0) {
+                throw new Error(`No pending formal event: ${eventId}`);
+            }
+        } catch (error) {
+            console.error('Failed to record formal event result:', error);
+            throw new Error(`Formal event evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO formal_events (
+                id, name, description, category, start_time, end_time, recipe, registered_at, rejectable
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private dbRowToEvent(row: any): FormalEvent {
+        return {
+            id: row.id,
+            name: row.name,
+            description: row.description ?? undefined,
+            category: row.category,
+            startTime: new Date(row.start_time),
+            endTime: new Date(row.end_time),
+            recipe: row.recipe,
+            registeredAt: new Date(row.registered_at),
+            rejectable: row.rejectable === 1,
+            status: row.status,
+            result: row.status === 'evaluated'
+                ? {
+                    statistic: row.statistic,
+                    degreesOfFreedom: row.degrees_of_freedom,
+                    zScore: row.z_score,
+                    pValue: row.p_value,
+                    deviceCount: row.device_count,
+                    seconds: row.seconds,
+                    trialCount: row.trial_count,
+                    evaluatedAt: new Date(row.evaluated_at)
+                }
+                : null
+        };
+    }
+}
@@ -11,6 +11,7 @@ import { TrialRepository } from './trial-repository';
 
 export interface IntentionQueryOptions {
     intention?: 'high' | 'low';
+    participantId?: string;
     startTime?: Date;
     endTime?: Date;
     limit?: number;
@@ -45,7 +46,13 @@ export class IntentionRepository {
     /**
      * Start a new intention period
      */
-    async startIntentionPeriod(intention: 'high' | 'low', notes?: string): Promise<string> {
+    async startIntentionPeriod(
+        intention: 'high' | 'low',
+        notes?: string,
+        participantId?: string,
+        sessionId?: string,
+        sequentialDesignId?: string
+    ): Promise<string> {
         const periodId = uuidv4();
         const startTime = new Date();
 
@@ -60,7 +67,9 @@ export class IntentionRepository {
                 null, // End time (null for active period)
                 intention,
                 notes || '',
-                null // Session ID (for continuous mode)
+                sessionId || null, // Continuous collection run the period was marked in
+                participantId || null,
+                sequentialDesignId || null
             ];
 
             this.insertStmt.run(params);
@@ -162,6 +171,11 @@ export class IntentionRepository {
                 params.push(options.intention);
             }
 
+            if (options?.participantId) {
+                query += ' AND participant_id = ?';
+                params.push(options.participantId);
+            }
+
             if (options?.startTime) {
                 query += ' AND start_time >= ?';
                 params.push(options.startTime.getTime());
@@ -193,6 +207,23 @@ export class IntentionRepository {
         }
     }
 
+    /**
+     * Get intention periods overlapping a time range, oldest first
+     */
+    async getIntentionPeriodsInRange(startTime: Date, endTime: Date): Promise<IntentionPeriod[]> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT * FROM intention_periods
+                WHERE start_time < ? AND (end_time IS NULL OR end_time >= ?)
+                ORDER BY start_time
+            `).all(endTime.getTime(), startTime.getTime());
+            return rows.map(row => this.dbRowToIntentionPeriod(row));
+        } catch (error) {
+            console.error('Failed to get intention periods in range:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Get trials that occurred during a specific intention period
      */
@@ -403,8 +434,8 @@ export class IntentionRepository {
     private prepareStatements(): void {
         this.insertStmt = this.db.prepare(`
             INSERT INTO intention_periods (
-                id, start_time, end_time, intention, notes, session_id
-            ) VALUES (?, ?, ?, ?, ?, ?)
+                id, start_time, end_time, intention, notes, session_id, participant_id, sequential_design_id
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         this.updateStmt = this.db.prepare(`
@@ -421,7 +452,9 @@ export class IntentionRepository {
             endTime: row.end_time ? new Date(row.end_time) : null,
             intention: row.intention as 'high' | 'low',
             notes: row.notes || '',
-            sessionId: row.session_id
+            sessionId: row.session_id,
+            participantId: row.participant_id ?? undefined,
+            sequentialDesignId: row.sequential_design_id ?? undefined
         };
     }
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+/**
+ * Event Marker Repository - markers from external recorders placed on the trial timeline
+ * Trial numbers are looked up when markers are read, so markers that arrive before
+ * their trials are flushed still resolve once the trials are stored
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { EventMarker } from '../../shared/types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+const SELECT_MARKERS = `
+    SELECT m.*, (
+        SELECT MAX(t.trial_number) FROM trials t
+        WHERE t.session_id = m.session_id AND t.timestamp <= m.timestamp
+    ) AS trial_number
+    FROM event_markers m
+`;
+
+export class MarkerRepository {
+    private db: Database.Database;
+    private insertStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Store an aligned marker
+     */
+    async insertMarker(marker: Omit<EventMarker, 'id' | 'trialNumber'>): Promise<string> {
+        const markerId = uuidv4();
+
+        try {
+            this.insertStmt.run(
+                markerId,
+                marker.sessionId,
+                marker.label.trim(),
+                marker.source.trim(),
+                marker.code ?? null,
+                marker.timestamp.getTime(),
+                marker.sourceTimestamp,
+                marker.alignmentOffsetMs,
+                marker.metadata ? JSON.stringify(marker.metadata) : null,
+                marker.receivedAt.getTime()
+            );
+            return markerId;
+        } catch (error) {
+            console.error('Failed to insert event marker:', error);
+            throw new Error(`Event marker insertion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get a marker by id
+     */
+    async getMarker(markerId: string): Promise<EventMarker | null> {
+        try {
+            const row = this.db.prepare(`${SELECT_MARKERS} WHERE m.id = ?`).get(markerId);
+            return row ? this.dbRowToMarker(row) : null;
+        } catch (error) {
+            console.error('Failed to get event marker:', error);
+            throw new Error(`Event marker retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Markers of a session in timeline order
+     */
+    async getMarkersBySession(sessionId: string): Promise<EventMarker[]> {
+        try {
+            const rows = this.db.prepare(`${SELECT_MARKERS} WHERE m.session_id = ? ORDER BY m.timestamp`).all(sessionId);
+            return rows.map(row => this.dbRowToMarker(row));
+        } catch (error) {
+            console.error('Failed to get session markers:', error);
+            throw new Error(`Event marker retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Markers in a time range of the trial timeline, in order
+     */
+    async getMarkersInRange(startTime: Date, endTime: Date): Promise<EventMarker[]> {
+        try {
+            const rows = this.db.prepare(`
+                ${SELECT_MARKERS}
+                WHERE m.timestamp >= ? AND m.timestamp <= ?
+                ORDER BY m.timestamp
+            `).all(startTime.getTime(), endTime.getTime());
+            return rows.map(row => this.dbRowToMarker(row));
+        } catch (error) {
+            console.error('Failed to get markers in range:', error);
+            throw new Error(`Event marker retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO event_markers (
+                id, session_id, label, source, code, timestamp, source_timestamp,
+                alignment_offset_ms, metadata, received_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private dbRowToMarker(row: any): EventMarker {
+        return {
+            id: row.id,
+            sessionId: row.session_id,
+            label: row.label,
+            source: row.source,
+            code: row.code ?? undefined,
+            timestamp: new Date(row.timestamp),
+            sourceTimestamp: row.source_timestamp,
+            alignmentOffsetMs: row.alignment_offset_ms,
+            trialNumber: row.trial_number ?? null,
+            metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+            receivedAt: new Date(row.received_at)
+        };
+    }
+}
@@ -0,0 +1,290 @@
+/**
+ * Participant Repository - Registry of pseudonymous participants (operators)
+ * Links sessions and intention periods to the person holding the intention
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { Participant, ParticipantRegistration, IntentionType } from '../../shared/types';
+import { OperatorSessionTotals } from '../../shared/analysis-types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+export interface ParticipantQueryOptions {
+    active?: boolean;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export class ParticipantRepository {
+    private db: Database.Database;
+    private insertStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Register a new participant under a pseudonymous code
+     */
+    async registerParticipant(registration: ParticipantRegistration): Promise<string> {
+        const participantId = uuidv4();
+        const code = registration.code.trim();
+
+        try {
+            if (!code) {
+                throw new Error('Participant code is required');
+            }
+
+            const demographics = registration.demographics || null;
+            this.insertStmt.run(
+                participantId,
+                code,
+                registration.consentDate?.getTime() ?? null,
+                demographics ? 1 : 0,
+                demographics?.birthYear ?? null,
+                demographics?.gender ?? null,
+                demographics?.handedness ?? null,
+                registration.notes || null
+            );
+
+            console.log(`Registered participant: ${code}`);
+            return participantId;
+        } catch (error) {
+            console.error('Failed to register participant:', error);
+            throw new Error(`Participant registration failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Update a participant; passing demographics as null withdraws the opt-in and erases them
+     */
+    async updateParticipant(
+        participantId: string,
+        updates: Partial<Omit<Participant, 'id' | 'createdAt'>>
+    ): Promise<void> {
+        try {
+            const updateFields: string[] = [];
+            const params: any[] = [];
+
+            if (updates.code !== undefined) {
+                if (!updates.code.trim()) {
+                    throw new Error('Participant code is required');
+                }
+                updateFields.push('code = ?');
+                params.push(updates.code.trim());
+            }
+
+            if (updates.consentDate !== undefined) {
+                updateFields.push('consent_date = ?');
+                params.push(updates.consentDate?.getTime() ?? null);
+            }
+
+            if (updates.demographics !== undefined) {
+                const demographics = updates.demographics;
+                updateFields.push('demographics_opt_in = ?', 'birth_year = ?', 'gender = ?', 'handedness = ?');
+                params.push(
+                    demographics ? 1 : 0,
+                    demographics?.birthYear ?? null,
+                    demographics?.gender ?? null,
+                    demographics?.handedness ?? null
+                );
+            }
+
+            if (updates.notes !== undefined) {
+                updateFields.push('notes = ?');
+                params.push(updates.notes);
+            }
+
+            if (updates.active !== undefined) {
+                updateFields.push('active = ?');
+                params.push(updates.active ? 1 : 0);
+            }
+
+            if (updateFields.length === 0) {
+                return; // Nothing to update
+            }
+
+            updateFields.push(`updated_at = strftime('%s', 'now')`);
+            params.push(participantId);
+
+            const result = this.db.prepare(`
+                UPDATE participants
+                SET ${updateFields.join(', ')}
+                WHERE id = ?
+            `).run(...params);
+
+            if (result.changes === 0) {
+                throw new Error(`Participant not found: ${participantId}`);
+            }
+
+            console.log(`Updated participant: ${participantId}`);
+        } catch (error) {
+            console.error('Failed to update participant:', error);
+            throw new Error(`Participant update failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get a participant by id
+     */
+    async getParticipant(participantId: string): Promise<Participant | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM participants WHERE id = ?').get(participantId);
+            return row ? this.dbRowToParticipant(row) : null;
+        } catch (error) {
+            console.error('Failed to get participant:', error);
+            throw new Error(`Participant retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get a participant by pseudonymous code
+     */
+    async getParticipantByCode(code: string): Promise<Participant | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM participants WHERE code = ?').get(code.trim());
+            return row ? this.dbRowToParticipant(row) : null;
+        } catch (error) {
+            console.error('Failed to get participant:', error);
+            throw new Error(`Participant retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Find a participant by id or code, registering the code if it is new
+     * Lets a typed-in participant code on the session setup screen keep working
+     */
+    async resolveParticipant(idOrCode: string): Promise<Participant> {
+        const existing = await this.getParticipant(idOrCode) || await this.getParticipantByCode(idOrCode);
+        if (existing) {
+            return existing;
+        }
+
+        const participantId = await this.registerParticipant({ code: idOrCode });
+        return (await this.getParticipant(participantId))!;
+    }
+
+    /**
+     * List participants ordered by code
+     */
+    async listParticipants(options?: ParticipantQueryOptions): Promise<Participant[]> {
+        try {
+            let query = 'SELECT * FROM participants WHERE 1=1';
+            const params: any[] = [];
+
+            if (options?.active !== undefined) {
+                query += ' AND active = ?';
+                params.push(options.active ? 1 : 0);
+            }
+
+            if (options?.search) {
+                query += ' AND (code LIKE ? OR notes LIKE ?)';
+                params.push(`%${options.search}%`, `%${options.search}%`);
+            }
+
+            query += ' ORDER BY code';
+
+            if (options?.limit) {
+                query += ' LIMIT ?';
+                params.push(options.limit);
+
+                if (options.offset) {
+                    query += ' OFFSET ?';
+                    params.push(options.offset);
+                }
+            }
+
+            const rows = this.db.prepare(query).all(...params);
+            return rows.map(row => this.dbRowToParticipant(row));
+        } catch (error) {
+            console.error('Failed to list participants:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Per-session trial totals for one participant, oldest session first
+     */
+    async getOperatorSessionTotals(participantId: string): Promise<OperatorSessionTotals[]> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT
+                    s.*,
+                    COUNT(t.id) as trial_count,
+                    COALESCE(SUM(t.trial_value), 0) as trial_sum
+                FROM sessions s
+                LEFT JOIN trials t ON t.session_id = s.id
+                WHERE s.participant_id = ?
+                GROUP BY s.id
+                ORDER BY s.start_time
+            `).all(participantId) as any[];
+
+            return rows.map(row => ({
+                session: {
+                    id: row.id,
+                    startTime: new Date(row.start_time),
+                    endTime: row.end_time ? new Date(row.end_time) : null,
+                    intention: row.intention as IntentionType,
+                    targetTrials: row.target_trials,
+                    status: row.status,
+                    notes: row.notes,
+                    participantId: row.participant_id,
+                    duration: row.duration,
+                    actualTrials: row.actual_trials
+                },
+                trialCount: row.trial_count,
+                trialSum: row.trial_sum
+            }));
+        } catch (error) {
+            console.error('Failed to get operator session totals:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Delete a participant; their sessions and intention periods are kept but unlinked
+     */
+    async deleteParticipant(participantId: string): Promise<void> {
+        try {
+            const result = this.db.prepare('DELETE FROM participants WHERE id = ?').run(participantId);
+
+            if (result.changes === 0) {
+                throw new Error(`Participant not found: ${participantId}`);
+            }
+
+            console.log(`Deleted participant: ${participantId}`);
+        } catch (error) {
+            console.error('Failed to delete participant:', error);
+            throw new Error(`Participant deletion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO participants (
+                id, code, consent_date, demographics_opt_in, birth_year, gender, handedness, notes
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private dbRowToParticipant(row: any): Participant {
+        return {
+            id: row.id,
+            code: row.code,
+            consentDate: row.consent_date !== null ? new Date(row.consent_date) : null,
+            demographics: row.demographics_opt_in ? {
+                birthYear: row.birth_year ?? undefined,
+                gender: row.gender ?? undefined,
+                handedness: row.handedness ?? undefined
+            } : null,
+            notes: row.notes || '',
+            active: row.active === 1,
+            createdAt: new Date(row.created_at * 1000)
+        };
+    }
+}
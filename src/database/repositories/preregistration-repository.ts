@@ -0,0 +1,294 @@
+/**
+ * Pre-Registration Repository - Hypotheses and analysis plans locked before data collection
+ * A locked plan is frozen with a SHA-256 hash over its canonical JSON and the lock time
+ */
+
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { IntentionType } from '../../shared/types';
+import {
+    OperatorSessionTotals,
+    PreRegistration,
+    PreRegistrationPlan
+} from '../../shared/analysis-types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+export class PreRegistrationRepository {
+    private db: Database.Database;
+    private insertStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Create a draft registration; drafts can be edited until they are locked
+     */
+    async createRegistration(plan: PreRegistrationPlan): Promise<string> {
+        const registrationId = uuidv4();
+
+        try {
+            this.insertStmt.run(registrationId, plan.title, canonicalJson(plan));
+
+            console.log(`Created pre-registration draft: ${plan.title}`);
+            return registrationId;
+        } catch (error) {
+            console.error('Failed to create pre-registration:', error);
+            throw new Error(`Pre-registration creation failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Replace the plan of a draft registration
+     */
+    async updateDraft(registrationId: string, plan: PreRegistrationPlan): Promise<void> {
+        try {
+            const result = this.db.prepare(`
+                UPDATE preregistrations
+                SET title = ?, plan = ?
+                WHERE id = ? AND status = 'draft'
+            `).run(plan.title, canonicalJson(plan), registrationId);
+
+            if (result.changes === 0) {
+                throw new Error(`No draft pre-registration: ${registrationId}`);
+            }
+        } catch (error) {
+            console.error('Failed to update pre-registration:', error);
+            throw new Error(`Pre-registration update failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Freeze a draft: record the lock time and the SHA-256 of the plan and lock time
+     */
+    async lockRegistration(registrationId: string): Promise<PreRegistration> {
+        try {
+            const registration = await this.getRegistration(registrationId);
+            if (!registration) {
+                throw new Error(`Pre-registration not found: ${registrationId}`);
+            }
+            if (registration.status !== 'draft') {
+                throw new Error(`Pre-registration is already ${registration.status}`);
+            }
+
+            const lockedAt = new Date();
+            const planHash = hashPlan(registration.plan, lockedAt);
+
+            this.db.prepare(`
+                UPDATE preregistrations
+                SET status = 'locked', locked_at = ?, plan_hash = ?
+                WHERE id = ? AND status = 'draft'
+            `).run(lockedAt.getTime(), planHash, registrationId);
+
+            console.log(`Locked pre-registration ${registrationId}: ${planHash}`);
+            return { ...registration, status: 'locked', planHash, lockedAt };
+        } catch (error) {
+            console.error('Failed to lock pre-registration:', error);
+            throw new Error(`Pre-registration lock failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Close a locked registration to further sessions
+     */
+    async completeRegistration(registrationId: string): Promise<void> {
+        try {
+            const result = this.db.prepare(`
+                UPDATE preregistrations
+                SET status = 'completed', completed_at = ?
+                WHERE id = ? AND status = 'locked'
+            `).run(Date.now(), registrationId);
+
+            if (result.changes === 0) {
+                throw new Error(`No locked pre-registration: ${registrationId}`);
+            }
+
+            console.log(`Completed pre-registration: ${registrationId}`);
+        } catch (error) {
+            console.error('Failed to complete pre-registration:', error);
+            throw new Error(`Pre-registration completion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Recompute the hash of a locked plan and compare it with the one stored at lock time
+     */
+    async verifyRegistration(registrationId: string): Promise<boolean> {
+        const registration = await this.getRegistration(registrationId);
+        if (!registration || !registration.lockedAt || !registration.planHash) {
+            return false;
+        }
+
+        return hashPlan(registration.plan, registration.lockedAt) === registration.planHash;
+    }
+
+    /**
+     * Get a registration by id
+     */
+    async getRegistration(registrationId: string): Promise<PreRegistration | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM preregistrations WHERE id = ?').get(registrationId);
+            return row ? this.dbRowToRegistration(row) : null;
+        } catch (error) {
+            console.error('Failed to get pre-registration:', error);
+            throw new Error(`Pre-registration retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * List registrations, newest first
+     */
+    async listRegistrations(status?: PreRegistration['status']): Promise<PreRegistration[]> {
+        try {
+            let query = 'SELECT * FROM preregistrations';
+            const params: any[] = [];
+
+            if (status) {
+                query += ' WHERE status = ?';
+                params.push(status);
+            }
+
+            query += ' ORDER BY created_at DESC, rowid DESC';
+
+            const rows = this.db.prepare(query).all(...params);
+            return rows.map(row => this.dbRowToRegistration(row));
+        } catch (error) {
+            console.error('Failed to list pre-registrations:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Throw unless a new session with this intention and participant may be tagged to the registration
+     */
+    async checkSessionEligibility(
+        registrationId: string,
+        intention: IntentionType,
+        participantId?: string
+    ): Promise<void> {
+        const registration = await this.getRegistration(registrationId);
+        if (!registration) {
+            throw new Error(`Pre-registration not found: ${registrationId}`);
+        }
+        if (registration.status === 'draft') {
+            throw new Error('Pre-registration must be locked before data is collected');
+        }
+        if (registration.status === 'completed') {
+            throw new Error('Pre-registration is completed and accepts no further sessions');
+        }
+
+        const { plan } = registration;
+        if (!plan.intentions.includes(intention ?? 'baseline')) {
+            throw new Error(`Intention ${intention ?? 'baseline'} is not part of the pre-registered plan`);
+        }
+        if (plan.participantIds.length > 0 && (!participantId || !plan.participantIds.includes(participantId))) {
+            throw new Error('Participant is not part of the pre-registered plan');
+        }
+    }
+
+    /**
+     * Per-session trial totals for every session tagged to a registration, oldest first
+     */
+    async getRegisteredSessions(registrationId: string): Promise<OperatorSessionTotals[]> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT
+                    s.*,
+                    COUNT(t.id) as trial_count,
+                    COALESCE(SUM(t.trial_value), 0) as trial_sum
+                FROM sessions s
+                LEFT JOIN trials t ON t.session_id = s.id
+                WHERE s.preregistration_id = ?
+                GROUP BY s.id
+                ORDER BY s.start_time
+            `).all(registrationId) as any[];
+
+            return rows.map(row => ({
+                session: {
+                    id: row.id,
+                    startTime: new Date(row.start_time),
+                    endTime: row.end_time ? new Date(row.end_time) : null,
+                    intention: row.intention as IntentionType,
+                    targetTrials: row.target_trials,
+                    status: row.status,
+                    notes: row.notes,
+                    participantId: row.participant_id,
+                    duration: row.duration,
+                    actualTrials: row.actual_trials,
+                    preregistrationId: row.preregistration_id
+                },
+                trialCount: row.trial_count,
+                trialSum: row.trial_sum
+            }));
+        } catch (error) {
+            console.error('Failed to get registered sessions:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Delete a draft registration; locked plans are kept permanently
+     */
+    async deleteDraft(registrationId: string): Promise<void> {
+        try {
+            const result = this.db.prepare(
+                "DELETE FROM preregistrations WHERE id = ? AND status = 'draft'"
+            ).run(registrationId);
+
+            if (result.changes === 0) {
+                throw new Error(`No draft pre-registration: ${registrationId}`);
+            }
+        } catch (error) {
+            console.error('Failed to delete pre-registration:', error);
+            throw new Error(`Pre-registration deletion failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO preregistrations (id, title, plan, status)
+            VALUES (?, ?, ?, 'draft')
+        `);
+    }
+
+    private dbRowToRegistration(row: any): PreRegistration {
+        return {
+            id: row.id,
+            plan: JSON.parse(row.plan),
+            status: row.status,
+            planHash: row.plan_hash,
+            lockedAt: row.locked_at !== null ? new Date(row.locked_at) : null,
+            completedAt: row.completed_at !== null ? new Date(row.completed_at) : null,
+            createdAt: new Date(row.created_at * 1000)
+        };
+    }
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal plans always serialize identically
+ */
+function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, nested) => {
+        if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+            return Object.keys(nested).sort().reduce<Record<string, unknown>>((sorted, key) => {
+                sorted[key] = nested[key];
+                return sorted;
+            }, {});
+        }
+        return nested;
+    });
+}
+
+/**
+ * SHA-256 over the canonical plan together with its lock time
+ */
+function hashPlan(plan: PreRegistrationPlan, lockedAt: Date): string {
+    return crypto.createHash('sha256')
+        .update(canonicalJson({ lockedAt: lockedAt.toISOString(), plan }))
+        .digest('hex');
+}
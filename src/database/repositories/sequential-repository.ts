@@ -0,0 +1,254 @@
+/**
+ * Sequential Design Repository - group-sequential plans and the looks taken at their data
+ * A plan never changes after creation, looks are append-only and a design closes for good
+ * at the look that decides it
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    GroupSequentialDesign,
+    GroupSequentialPlan,
+    SequentialDataSource,
+    SequentialLook,
+    SequentialTotals
+} from '../../shared/analysis-types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+export class SequentialDesignRepository {
+    private db: Database.Database;
+    private insertDesignStmt!: Database.Statement;
+    private insertLookStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Store a validated plan as a new active design
+     */
+    async createDesign(plan: GroupSequentialPlan, createdAt: Date = new Date()): Promise<string> {
+        const designId = uuidv4();
+
+        try {
+            this.insertDesignStmt.run(designId, plan.title, JSON.stringify(plan), plan.source, createdAt.getTime());
+            console.log(`Created group-sequential design: ${plan.title}`);
+            return designId;
+        } catch (error) {
+            console.error('Failed to create group-sequential design:', error);
+            throw new Error(`Group-sequential design creation failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get a design by id
+     */
+    async getDesign(designId: string): Promise<GroupSequentialDesign | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM sequential_designs WHERE id = ?').get(designId);
+            return row ? this.dbRowToDesign(row) : null;
+        } catch (error) {
+            console.error('Failed to get group-sequential design:', error);
+            throw new Error(`Group-sequential design retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * List designs, newest first
+     */
+    async listDesigns(status?: GroupSequentialDesign['status']): Promise<GroupSequentialDesign[]> {
+        try {
+            let query = 'SELECT * FROM sequential_designs';
+            const params: any[] = [];
+
+            if (status) {
+                query += ' WHERE status = ?';
+                params.push(status);
+            }
+
+            query += ' ORDER BY created_at DESC';
+
+            const rows = this.db.prepare(query).all(...params);
+            return rows.map(row => this.dbRowToDesign(row));
+        } catch (error) {
+            console.error('Failed to list group-sequential designs:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Looks taken at a design, in order
+     */
+    async getLooks(designId: string): Promise<SequentialLook[]> {
+        try {
+            const rows = this.db.prepare(
+                'SELECT * FROM sequential_looks WHERE design_id = ? ORDER BY look_number'
+            ).all(designId);
+            return rows.map(row => this.dbRowToLook(row));
+        } catch (error) {
+            console.error('Failed to get sequential looks:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Record a look; a look that decides the design closes it in the same transaction
+     */
+    async recordLook(
+        look: Omit<SequentialLook, 'id'>,
+        status: GroupSequentialDesign['status'] = 'active'
+    ): Promise<string> {
+        const lookId = uuidv4();
+
+        try {
+            this.db.transaction(() => {
+                const design = this.db.prepare(
+                    'SELECT status FROM sequential_designs WHERE id = ?'
+                ).get(look.designId) as { status: string } | undefined;
+                if (!design) {
+                    throw new Error(`Group-sequential design not found: ${look.designId}`);
+                }
+                if (design.status !== 'active') {
+                    throw new Error(`Group-sequential design is closed: ${look.designId}`);
+                }
+
+                this.insertLookStmt.run(
+                    lookId,
+                    look.designId,
+                    look.lookNumber,
+                    look.trialCount,
+                    look.informationFraction,
+                    look.cumulativeAlpha,
+                    look.alphaSpent,
+                    look.boundaryZ,
+                    look.nominalPValue,
+                    look.z,
+                    look.crossed ? 1 : 0,
+                    look.planned ? 1 : 0,
+                    look.trigger,
+                    look.performedAt.getTime()
+                );
+
+                if (status !== 'active') {
+                    this.db.prepare(
+                        'UPDATE sequential_designs SET status = ?, closed_at = ? WHERE id = ?'
+                    ).run(status, look.performedAt.getTime(), look.designId);
+                }
+            })();
+
+            return lookId;
+        } catch (error) {
+            console.error('Failed to record sequential look:', error);
+            throw new Error(`Sequential look failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Trial counts and sums per intention of the data a design has accumulated: its tagged
+     * sessions, or the trials inside its tagged continuous intention periods
+     */
+    async getDesignTotals(designId: string, source: SequentialDataSource): Promise<SequentialTotals[]> {
+        try {
+            const query = source === 'session'
+                ? `
+                    SELECT t.intention, COUNT(*) AS trial_count, SUM(t.trial_value) AS trial_sum
+                    FROM trials t
+                    JOIN sessions s ON s.id = t.session_id
+                    WHERE s.sequential_design_id = ? AND t.intention IN ('high', 'low')
+                    GROUP BY t.intention
+                `
+                : `
+                    SELECT t.intention, COUNT(*) AS trial_count, SUM(t.trial_value) AS trial_sum
+                    FROM intention_periods p
+                    JOIN trials t ON t.experiment_mode = 'continuous'
+                        AND t.intention = p.intention
+                        AND t.timestamp >= p.start_time
+                        AND t.timestamp <= COALESCE(p.end_time, ?)
+                    WHERE p.sequential_design_id = ?
+                    GROUP BY t.intention
+                `;
+            const params = source === 'session' ? [designId] : [Date.now(), designId];
+
+            const rows = this.db.prepare(query).all(...params) as Array<{
+                intention: 'high' | 'low';
+                trial_count: number;
+                trial_sum: number;
+            }>;
+            return rows.map(row => ({
+                intention: row.intention,
+                trialCount: row.trial_count,
+                trialSum: row.trial_sum
+            }));
+        } catch (error) {
+            console.error('Failed to get group-sequential design totals:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Throw unless new data of this source and intention may be added to the design
+     */
+    async checkEligibility(designId: string, source: SequentialDataSource, intention: string): Promise<GroupSequentialDesign> {
+        const design = await this.getDesign(designId);
+        if (!design) {
+            throw new Error(`Group-sequential design not found: ${designId}`);
+        }
+        if (design.status !== 'active') {
+            throw new Error(`Group-sequential design "${design.plan.title}" is closed`);
+        }
+        if (design.plan.source !== source) {
+            throw new Error(`Group-sequential design "${design.plan.title}" collects ${design.plan.source} data`);
+        }
+        if (!design.plan.intentions.includes(intention as 'high' | 'low')) {
+            throw new Error(`Group-sequential design "${design.plan.title}" does not test ${intention} intention trials`);
+        }
+        return design;
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertDesignStmt = this.db.prepare(`
+            INSERT INTO sequential_designs (id, title, plan, source, created_at)
+            VALUES (?, ?, ?, ?, ?)
+        `);
+
+        this.insertLookStmt = this.db.prepare(`
+            INSERT INTO sequential_looks (
+                id, design_id, look_number, trial_count, information_fraction, cumulative_alpha,
+                alpha_spent, boundary_z, nominal_p_value, z_score, crossed, planned, triggered_by, performed_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private dbRowToDesign(row: any): GroupSequentialDesign {
+        return {
+            id: row.id,
+            plan: JSON.parse(row.plan),
+            status: row.status,
+            createdAt: new Date(row.created_at),
+            closedAt: row.closed_at !== null ? new Date(row.closed_at) : null
+        };
+    }
+
+    private dbRowToLook(row: any): SequentialLook {
+        return {
+            id: row.id,
+            designId: row.design_id,
+            lookNumber: row.look_number,
+            trialCount: row.trial_count,
+            informationFraction: row.information_fraction,
+            cumulativeAlpha: row.cumulative_alpha,
+            alphaSpent: row.alpha_spent,
+            boundaryZ: row.boundary_z,
+            nominalPValue: row.nominal_p_value,
+            z: row.z_score,
+            crossed: row.crossed === 1,
+            planned: row.planned === 1,
+            trigger: row.triggered_by,
+            performedAt: new Date(row.performed_at)
+        };
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Series Repository - Tri-polar protocol series and their scheduled runs
+ * Tracks which session performed each run so a series can be completed across days
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    IntentionType,
+    SeriesDefinition,
+    SeriesRun,
+    SeriesStatus,
+    SessionSeries
+} from '../../shared/types';
+import { OperatorSessionTotals } from '../../shared/analysis-types';
+import { getDatabaseManager, DatabaseManager } from '../connection';
+
+export interface SeriesQueryOptions {
+    participantId?: string;
+    status?: SeriesStatus;
+}
+
+export class SeriesRepository {
+    private db: Database.Database;
+    private insertSeriesStmt!: Database.Statement;
+    private insertRunStmt!: Database.Statement;
+    private selectRunsStmt!: Database.Statement;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.prepareStatements();
+    }
+
+    /**
+     * Create a series with its full run schedule
+     */
+    async createSeries(
+        definition: SeriesDefinition,
+        runs: Array<Pick<SeriesRun, 'position' | 'block' | 'intention'>>
+    ): Promise<string> {
+        const seriesId = uuidv4();
+
+        try {
+            if (!definition.name.trim()) {
+                throw new Error('Series name is required');
+            }
+            if (runs.length === 0) {
+                throw new Error('Series schedule is empty');
+            }
+
+            const insert = this.db.transaction(() => {
+                this.insertSeriesStmt.run(
+                    seriesId,
+                    definition.name.trim(),
+                    definition.participantId || null,
+                    definition.blocks,
+                    definition.trialsPerRun,
+                    definition.order,
+                    definition.notes || null
+                );
+                runs.forEach(run => this.insertRunStmt.run(seriesId, run.position, run.block, run.intention));
+            });
+            insert();
+
+            console.log(`Created series ${definition.name} with ${runs.length} runs`);
+            return seriesId;
+        } catch (error) {
+            console.error('Failed to create series:', error);
+            throw new Error(`Series creation failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get a series with the status of every run
+     */
+    async getSeries(seriesId: string): Promise<SessionSeries | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM session_series WHERE id = ?').get(seriesId);
+            return row ? this.dbRowToSeries(row) : null;
+        } catch (error) {
+            console.error('Failed to get series:', error);
+            throw new Error(`Series retrieval failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * List series, newest first
+     */
+    async listSeries(options?: SeriesQueryOptions): Promise<SessionSeries[]> {
+        try {
+            let query = 'SELECT * FROM session_series WHERE 1=1';
+            const params: any[] = [];
+
+            if (options?.participantId) {
+                query += ' AND participant_id = ?';
+                params.push(options.participantId);
+            }
+
+            if (options?.status) {
+                query += ' AND status = ?';
+                params.push(options.status);
+            }
+
+            query += ' ORDER BY created_at DESC, rowid DESC';
+
+            const rows = this.db.prepare(query).all(...params);
+            return rows.map(row => this.dbRowToSeries(row));
+        } catch (error) {
+            console.error('Failed to list series:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * The next run to perform: the first that was never started or was stopped early
+     */
+    async getNextRun(seriesId: string): Promise<SeriesRun | null> {
+        const series = await this.getSeries(seriesId);
+        if (!series) {
+            throw new Error(`Series not found: ${seriesId}`);
+        }
+        if (series.status !== 'active') {
+            throw new Error(`Series is ${series.status}`);
+        }
+
+        return series.runs.find(run => run.status === 'pending' || run.status === 'stopped') || null;
+    }
+
+    /**
+     * Record the session performing a run; a stopped attempt is replaced by the new one
+     */
+    async assignRun(seriesId: string, position: number, sessionId: string): Promise<void> {
+        try {
+            const result = this.db.prepare(`
+                UPDATE series_runs
+                SET session_id = ?
+                WHERE series_id = ? AND position = ?
+            `).run(sessionId, seriesId, position);
+
+            if (result.changes === 0) {
+                throw new Error(`Run ${position} not found in series ${seriesId}`);
+            }
+        } catch (error) {
+            console.error('Failed to assign series run:', error);
+            throw new Error(`Series update failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Mark an active series completed once every run has a completed session
+     */
+    async refreshStatus(seriesId: string): Promise<SessionSeries | null> {
+        const series = await this.getSeries(seriesId);
+        if (!series || series.status !== 'active') {
+            return series;
+        }
+
+        if (series.runs.every(run => run.status === 'completed')) {
+            const completedAt = Date.now();
+            this.db.prepare(`
+                UPDATE session_series
+                SET status = 'completed', completed_at = ?
+                WHERE id = ?
+            `).run(completedAt, seriesId);
+
+            console.log(`Completed series: ${series.name}`);
+            return { ...series, status: 'completed', completedAt: new Date(completedAt) };
+        }
+
+        return series;
+    }
+
+    /**
+     * Stop scheduling runs for a series; completed runs are kept for analysis
+     */
+    async abandonSeries(seriesId: string): Promise<void> {
+        try {
+            const result = this.db.prepare(`
+                UPDATE session_series
+                SET status = 'abandoned', completed_at = ?
+                WHERE id = ? AND status = 'active'
+            `).run(Date.now(), seriesId);
+
+            if (result.changes === 0) {
+                throw new Error(`No active series: ${seriesId}`);
+            }
+        } catch (error) {
+            console.error('Failed to abandon series:', error);
+            throw new Error(`Series update failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Per-session trial totals for the completed runs of a series, oldest first
+     */
+    async getRunTotals(seriesId: string): Promise<OperatorSessionTotals[]> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT
+                    s.*,
+                    COUNT(t.id) as trial_count,
+                    COALESCE(SUM(t.trial_value), 0) as trial_sum
+                FROM series_runs r
+                JOIN sessions s ON s.id = r.session_id
+                LEFT JOIN trials t ON t.session_id = s.id
+                WHERE r.series_id = ? AND s.status = 'completed'
+                GROUP BY s.id
+                ORDER BY s.start_time
+            `).all(seriesId) as any[];
+
+            return rows.map(row => ({
+                session: {
+                    id: row.id,
+                    startTime: new Date(row.start_time),
+                    endTime: row.end_time ? new Date(row.end_time) : null,
+                    intention: row.intention as IntentionType,
+                    targetTrials: row.target_trials,
+                    status: row.status,
+                    notes: row.notes,
+                    participantId: row.participant_id,
+                    duration: row.duration,
+                    actualTrials: row.actual_trials
+                },
+                trialCount: row.trial_count,
+                trialSum: row.trial_sum
+            }));
+        } catch (error) {
+            console.error('Failed to get series run totals:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private prepareStatements(): void {
+        this.insertSeriesStmt = this.db.prepare(`
+            INSERT INTO session_series (
+                id, name, participant_id, blocks, trials_per_run, run_order, notes
+            ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        this.insertRunStmt = this.db.prepare(`
+            INSERT INTO series_runs (series_id, position, block, intention)
+            VALUES (?, ?, ?, ?)
+        `);
+
+        this.selectRunsStmt = this.db.prepare(`
+            SELECT r.position, r.block, r.intention, r.session_id, s.status, s.start_time
+            FROM series_runs r
+            LEFT JOIN sessions s ON s.id = r.session_id
+            WHERE r.series_id = ?
+            ORDER BY r.position
+        `);
+    }
+
+    private dbRowToSeries(row: any): SessionSeries {
+        const runs = (this.selectRunsStmt.all(row.id) as any[]).map((run): SeriesRun => ({
+            position: run.position,
+            block: run.block,
+            intention: run.intention,
+            sessionId: run.session_id,
+            status: run.session_id ? run.status : 'pending',
+            startedAt: run.start_time !== null ? new Date(run.start_time) : null
+        }));
+
+        return {
+            id: row.id,
+            name: row.name,
+            participantId: row.participant_id,
+            blocks: row.blocks,
+            trialsPerRun: row.trials_per_run,
+            order: row.run_order,
+            status: row.status,
+            runs,
+            notes: row.notes || '',
+            createdAt: new Date(row.created_at * 1000),
+            completedAt: row.completed_at !== null ? new Date(row.completed_at) : null
+        };
+    }
+}
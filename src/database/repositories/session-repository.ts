@@ -5,7 +5,8 @@
 
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { ExperimentSession, SessionStatus, IntentionType, StatisticalResult } from '../../shared/types';
+import { ExperimentSession, SessionStatus, IntentionType, StatisticalResult, FeedbackModality } from '../../shared/types';
+import { OperatorSessionTotals } from '../../shared/analysis-types';
 import { getDatabaseManager, DatabaseManager } from '../connection';
 import { TrialRepository } from './trial-repository';
 
@@ -13,6 +14,9 @@ export interface SessionQueryOptions {
     status?: SessionStatus;
     intention?: IntentionType;
     participantId?: string;
+    preregistrationId?: string;
+    feedback?: FeedbackModality;
+    importId?: string;
     startTime?: Date;
     endTime?: Date;
     limit?: number;
@@ -63,7 +67,16 @@ export class SessionRepository {
                 session.status,
                 session.notes || null,
                 session.participantId || null,
-                session.duration || null
+                session.duration || null,
+                session.preregistrationId || null,
+                session.feedback || 'chart',
+                session.source || null,
+                session.importId || null,
+                session.clockSync?.offsetMs ?? null,
+                session.clockSync?.uncertaintyMs ?? null,
+                session.clockSync?.server ?? null,
+                session.clockSync?.syncedAt.getTime() ?? null,
+                session.sequentialDesignId || null
             ];
 
             this.insertStmt.run(params);
@@ -177,6 +190,21 @@ export class SessionRepository {
                 params.push(options.participantId);
             }
 
+            if (options?.preregistrationId) {
+                query += ' AND preregistration_id = ?';
+                params.push(options.preregistrationId);
+            }
+
+            if (options?.feedback) {
+                query += ' AND feedback = ?';
+                params.push(options.feedback);
+            }
+
+            if (options?.importId) {
+                query += ' AND import_id = ?';
+                params.push(options.importId);
+            }
+
             if (options?.startTime) {
                 query += ' AND start_time >= ?';
                 params.push(options.startTime.getTime());
@@ -308,6 +336,11 @@ export class SessionRepository {
                 params.push(options.participantId);
             }
 
+            if (options?.feedback) {
+                query += ' AND s.feedback = ?';
+                params.push(options.feedback);
+            }
+
             query += ' ORDER BY s.start_time DESC LIMIT ?';
             params.push(limit);
 
@@ -333,6 +366,69 @@ export class SessionRepository {
         }
     }
 
+    /**
+     * Per-session trial totals for finished sessions, oldest first
+     */
+    async getSessionTotals(options?: SessionQueryOptions): Promise<OperatorSessionTotals[]> {
+        try {
+            let query = `
+                SELECT
+                    s.*,
+                    COUNT(t.id) as trial_count,
+                    COALESCE(SUM(t.trial_value), 0) as trial_sum
+                FROM sessions s
+                LEFT JOIN trials t ON t.session_id = s.id
+                WHERE s.status != 'running'
+            `;
+            const params: any[] = [];
+
+            if (options?.status) {
+                query += ' AND s.status = ?';
+                params.push(options.status);
+            }
+
+            if (options?.intention) {
+                query += ' AND s.intention = ?';
+                params.push(options.intention);
+            }
+
+            if (options?.participantId) {
+                query += ' AND s.participant_id = ?';
+                params.push(options.participantId);
+            }
+
+            if (options?.feedback) {
+                query += ' AND s.feedback = ?';
+                params.push(options.feedback);
+            }
+
+            if (options?.startTime) {
+                query += ' AND s.start_time >= ?';
+                params.push(options.startTime.getTime());
+            }
+
+            if (options?.endTime) {
+                query += ' AND s.start_time <= ?';
+                params.push(options.endTime.getTime());
+            }
+
+            query += ' GROUP BY s.id ORDER BY s.start_time';
+
+            const rows = this.db.prepare(query).all(...params) as any[];
+            return rows.map(row => ({
+                session: {
+                    ...this.dbRowToSession(row),
+                    actualTrials: row.actual_trials
+                },
+                trialCount: row.trial_count,
+                trialSum: row.trial_sum
+            }));
+        } catch (error) {
+            console.error('Failed to get session totals:', error);
+            throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Complete a session (set end time and status)
      */
@@ -380,14 +476,32 @@ export class SessionRepository {
         return this.getRecentSessions(100, { status: 'running' });
     }
 
+    /**
+     * Locally recorded session covering a moment; a foreground session wins over
+     * continuous collection running at the same time
+     */
+    async findSessionAt(time: Date): Promise<ExperimentSession | null> {
+        try {
+            const row = this.db.prepare(`
+                SELECT * FROM sessions
+                WHERE start_time <= ? AND (end_time IS NULL OR end_time >= ?) AND import_id IS NULL
+                ORDER BY (source IS 'continuous'), start_time DESC
+                LIMIT 1
+            `).get(time.getTime(), time.getTime());
+
+            return row ? this.dbRowToSession(row) : null;
+        } catch (error) {
+            console.error('Failed to find session:', error);
+            throw new Error(`Session lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Delete a session and all its trials
      */
     async deleteSession(sessionId: string): Promise<void> {
-        const dbManager = getDatabaseManager();
-
         try {
-            dbManager.transaction(() => {
+            this.db.transaction(() => {
                 // Delete trials first (handled by foreign key cascade)
                 const deleteSessionStmt = this.db.prepare('DELETE FROM sessions WHERE id = ?');
                 const result = deleteSessionStmt.run(sessionId);
@@ -395,7 +509,7 @@ export class SessionRepository {
                 if (result.changes === 0) {
                     throw new Error(`Session not found: ${sessionId}`);
                 }
-            });
+            })();
 
             console.log(`Deleted session: ${sessionId}`);
         } catch (error) {
@@ -410,8 +524,10 @@ export class SessionRepository {
         this.insertStmt = this.db.prepare(`
             INSERT INTO sessions (
                 id, start_time, end_time, intention, target_trials,
-                actual_trials, status, notes, participant_id, duration
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                actual_trials, status, notes, participant_id, duration, preregistration_id, feedback,
+                source, import_id, clock_offset_ms, clock_uncertainty_ms, clock_server, clock_synced_at,
+                sequential_design_id
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         this.updateStmt = this.db.prepare(`
@@ -431,7 +547,18 @@ export class SessionRepository {
             status: row.status as SessionStatus,
             notes: row.notes,
             participantId: row.participant_id,
-            duration: row.duration
+            duration: row.duration,
+            preregistrationId: row.preregistration_id ?? undefined,
+            feedback: row.feedback,
+            source: row.source ?? undefined,
+            importId: row.import_id ?? undefined,
+            clockSync: row.clock_offset_ms === null || row.clock_offset_ms === undefined ? undefined : {
+                offsetMs: row.clock_offset_ms,
+                uncertaintyMs: row.clock_uncertainty_ms,
+                server: row.clock_server,
+                syncedAt: new Date(row.clock_synced_at)
+            },
+            sequentialDesignId: row.sequential_design_id ?? undefined
         };
     }
 
@@ -7,9 +7,11 @@ import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
 import { RNGTrial, ExperimentMode, IntentionType } from '../../shared/types';
 import { getDatabaseManager, DatabaseManager } from '../connection';
+import { BitstreamRepository } from './bitstream-repository';
 
 export interface TrialQueryOptions {
     sessionId?: string;
+    deviceId?: string;
     experimentMode?: ExperimentMode;
     intention?: IntentionType;
     startTime?: Date;
@@ -24,6 +26,7 @@ export interface TrialStatistics {
     maxValue: number;
     sum: number;
     mean: number;
+    meanAbsoluteDeviation: number;  // Mean |trial value - 100|
     firstTimestamp: Date;
     lastTimestamp: Date;
 }
@@ -32,6 +35,7 @@ export class TrialRepository {
     private db: Database.Database;
     private insertStmt!: Database.Statement;
     private insertBatchStmt!: Database.Statement;
+    private bitstream: BitstreamRepository;
     private batchBuffer: RNGTrial[] = [];
     private batchTimeout: NodeJS.Timeout | null = null;
     private readonly batchSize = 100;
@@ -40,16 +44,20 @@ export class TrialRepository {
     constructor(dbManager?: DatabaseManager) {
         const manager = dbManager || getDatabaseManager();
         this.db = manager.getConnection();
+        this.bitstream = new BitstreamRepository(manager);
         this.prepareStatements();
     }
 
     /**
-     * Insert a single trial
+     * Insert a single trial (and its raw bits, if captured)
      */
     async insertTrial(trial: RNGTrial): Promise<void> {
         try {
             const params = this.trialToDbParams(trial);
-            this.insertStmt.run(params);
+            this.db.transaction(() => {
+                this.insertStmt.run(params);
+                this.bitstream.storeTrialBits([trial]);
+            })();
         } catch (error) {
             console.error('Failed to insert trial:', error);
             throw new Error(`Trial insertion failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -62,15 +70,14 @@ export class TrialRepository {
     async insertTrialsBatch(trials: RNGTrial[]): Promise<void> {
         if (trials.length === 0) return;
 
-        const dbManager = getDatabaseManager();
-
         try {
-            dbManager.transaction(() => {
+            this.db.transaction(() => {
                 for (const trial of trials) {
                     const params = this.trialToDbParams(trial);
                     this.insertStmt.run(params);
                 }
-            });
+                this.bitstream.storeTrialBits(trials);
+            })();
         } catch (error) {
             console.error('Failed to insert trials batch:', error);
             throw new Error(`Batch insertion failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -123,15 +130,27 @@ export class TrialRepository {
     /**
      * Get trials by session ID
      */
-    async getTrialsBySession(sessionId: string): Promise<RNGTrial[]> {
+    async getTrialsBySession(sessionId: string, options?: Pick<TrialQueryOptions, 'limit' | 'offset'>): Promise<RNGTrial[]> {
         try {
-            const stmt = this.db.prepare(`
+            let query = `
                 SELECT * FROM trials
                 WHERE session_id = ?
-                ORDER BY timestamp ASC
-            `);
+                ORDER BY timestamp ASC, rowid ASC
+            `;
+            const params: any[] = [sessionId];
 
-            const rows = stmt.all(sessionId);
+            if (options?.limit) {
+                query += ' LIMIT ?';
+                params.push(options.limit);
+            }
+
+            if (options?.offset) {
+                query += ' OFFSET ?';
+                params.push(options.offset);
+            }
+
+            const stmt = this.db.prepare(query);
+            const rows = stmt.all(...params);
             return rows.map(row => this.dbRowToTrial(row));
         } catch (error) {
             console.error('Failed to get trials by session:', error);
@@ -166,6 +185,11 @@ export class TrialRepository {
                 params.push(options.sessionId);
             }
 
+            if (options?.deviceId) {
+                query += ' AND device_id = ?';
+                params.push(options.deviceId);
+            }
+
             query += ' ORDER BY timestamp ASC';
 
             if (options?.limit) {
@@ -236,6 +260,7 @@ export class TrialRepository {
                     MAX(trial_value) as maxValue,
                     SUM(trial_value) as sum,
                     AVG(trial_value) as mean,
+                    AVG(ABS(trial_value - 100)) as meanAbsoluteDeviation,
                     MIN(timestamp) as firstTimestamp,
                     MAX(timestamp) as lastTimestamp
                 FROM trials
@@ -259,6 +284,11 @@ export class TrialRepository {
                 params.push(options.intention);
             }
 
+            if (options?.deviceId) {
+                query += ' AND device_id = ?';
+                params.push(options.deviceId);
+            }
+
             if (options?.startTime) {
                 query += ' AND timestamp >= ?';
                 params.push(options.startTime.getTime());
@@ -278,6 +308,7 @@ export class TrialRepository {
                 maxValue: result.maxValue || 0,
                 sum: result.sum || 0,
                 mean: result.mean || 0,
+                meanAbsoluteDeviation: result.meanAbsoluteDeviation || 0,
                 firstTimestamp: result.firstTimestamp ? new Date(result.firstTimestamp) : new Date(),
                 lastTimestamp: result.lastTimestamp ? new Date(result.lastTimestamp) : new Date()
             };
@@ -301,6 +332,7 @@ export class TrialRepository {
             `);
 
             const result = stmt.run(cutoffDate.getTime());
+            this.bitstream.deleteOlderThan(cutoffDate, 'continuous');
             console.log(`Deleted ${result.changes} old trials older than ${daysToKeep} days`);
             return result.changes;
         } catch (error) {
@@ -368,6 +400,7 @@ export class TrialRepository {
             `);
 
             const result = stmt.run(date.getTime());
+            this.bitstream.deleteOlderThan(date);
             console.log(`Deleted ${result.changes} trials older than ${date.toISOString()}`);
             return result.changes || 0;
         } catch (error) {
@@ -428,15 +461,15 @@ export class TrialRepository {
         this.insertStmt = this.db.prepare(`
             INSERT INTO trials (
                 id, timestamp, trial_value, session_id,
-                experiment_mode, intention, trial_number
-            ) VALUES (?, ?, ?, ?, ?, ?, ?)
+                experiment_mode, intention, trial_number, device_id
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         this.insertBatchStmt = this.db.prepare(`
             INSERT INTO trials (
                 id, timestamp, trial_value, session_id,
-                experiment_mode, intention, trial_number
-            ) VALUES (?, ?, ?, ?, ?, ?, ?)
+                experiment_mode, intention, trial_number, device_id
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         `);
     }
 
@@ -448,7 +481,8 @@ export class TrialRepository {
             trial.sessionId,
             trial.experimentMode,
             trial.intention,
-            trial.trialNumber
+            trial.trialNumber,
+            trial.deviceId ?? null
         ];
     }
 
@@ -459,7 +493,8 @@ export class TrialRepository {
             sessionId: row.session_id,
             experimentMode: row.experiment_mode as ExperimentMode,
             intention: row.intention as IntentionType,
-            trialNumber: row.trial_number
+            trialNumber: row.trial_number,
+            deviceId: row.device_id ?? undefined
         };
     }
 }
\ No newline at end of file
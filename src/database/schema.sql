@@ -1,5 +1,8 @@
 -- SQLite Database Schema for RNG Consciousness Experiment App
 -- Following PEAR laboratory and Global Consciousness Project methodology
+--
+-- This is the 1.0.0 baseline and must not change: every later schema change is a
+-- versioned migration in ./migrations, applied on top of it by the migration runner
 
 -- Enable foreign key constraints
 PRAGMA foreign_keys = ON;
@@ -0,0 +1,516 @@
+/**
+ * Local API Server - opt-in HTTP/WebSocket access for third-party tools (EEG recorders, overlays, notebooks)
+ * Binds to 127.0.0.1 only; REST endpoints read through the repositories and the /stream WebSocket
+ * pushes trials, engine status and significant events as the main process emits them
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { describeCollectorLock } from '../daemon';
+import { markerAlignmentOffset, validateMarkerInput } from '../../core/time-sync';
+import { getClockSync } from '../../core/time-manager';
+import { buildOpenApiDocument } from './openapi';
+import { acceptWebSocket, WebSocketConnection } from './websocket';
+import { API_PREFIX, LocalApiContext, LocalApiOptions, STREAM_EVENTS, StreamEvent } from './types';
+import { EngineStatus, EventMarker, EventMarkerInput, ExperimentMode, RNGTrial, SignificantEvent } from '../../shared/types';
+
+/** Trials returned by one range query at most; page with offset beyond that */
+const MAX_TRIALS_PER_REQUEST = 100000;
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 64 * 1024;
+
+interface ApiResponse {
+    status: number;
+    body?: unknown;
+}
+
+/**
+ * Error carrying the HTTP status to answer with
+ */
+function requestError(status: number, message: string): Error & { status: number } {
+    return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Token from the configuration, else the one stored at tokenPath (created on first use, owner-only)
+ */
+export function resolveApiToken(tokenPath: string, configured?: string): string {
+    if (configured) {
+        return configured;
+    }
+
+    if (fs.existsSync(tokenPath)) {
+        const stored = fs.readFileSync(tokenPath, 'utf8').trim();
+        if (stored) return stored;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    fs.writeFileSync(tokenPath, `${token}\n`, { mode: 0o600 });
+    return token;
+}
+
+export class LocalApiServer {
+    private context: LocalApiContext;
+    private options: LocalApiOptions;
+    private tokenDigest: Buffer;
+    private server: http.Server | null = null;
+    private clients: Map<WebSocketConnection, Set<StreamEvent>> = new Map();
+
+    constructor(context: LocalApiContext, options: LocalApiOptions) {
+        if (!options.token) {
+            throw new Error('Local API needs a token');
+        }
+
+        this.context = context;
+        this.options = options;
+        this.tokenDigest = digest(options.token);
+    }
+
+    /**
+     * Listen on 127.0.0.1 and start streaming; resolves with the bound port
+     */
+    async start(): Promise<number> {
+        if (this.server) {
+            return this.getPort()!;
+        }
+
+        const server = http.createServer((request, response) => {
+            this.handleRequest(request, response).catch(error => {
+                console.error('Local API request failed:', error);
+                if (!response.headersSent) {
+                    this.send(response, { status: 500, body: { error: 'Internal error' } });
+                }
+            });
+        });
+        server.on('upgrade', (request, socket) => this.handleUpgrade(request, socket));
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+
+        const { sessionEngine, collector, analyzer } = this.context;
+        sessionEngine.addTrialListener(this.onTrial);
+        sessionEngine.addStatusListener(this.onEngineStatus);
+        collector.on('trialGenerated', this.onTrial);
+        analyzer.on('significantEvent', this.onSignificantEvent);
+
+        const port = this.getPort()!;
+        console.log(`Local API listening on http://127.0.0.1:${port}${API_PREFIX}`);
+        return port;
+    }
+
+    /**
+     * Close stream connections and stop listening
+     */
+    async stop(): Promise<void> {
+        if (!this.server) return;
+
+        const server = this.server;
+        this.server = null;
+
+        const { sessionEngine, collector, analyzer } = this.context;
+        sessionEngine.removeTrialListener(this.onTrial);
+        sessionEngine.removeStatusListener(this.onEngineStatus);
+        collector.off('trialGenerated', this.onTrial);
+        analyzer.off('significantEvent', this.onSignificantEvent);
+
+        this.clients.forEach((_, connection) => connection.close(1001));
+        this.clients.clear();
+
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+        console.log('Local API stopped');
+    }
+
+    /**
+     * Bound port, or null when not listening
+     */
+    getPort(): number | null {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address.port : null;
+    }
+
+    /**
+     * Open stream connections
+     */
+    getStreamClientCount(): number {
+        return this.clients.size;
+    }
+
+    // Event forwarding
+
+    private onTrial = (trial: RNGTrial): void => this.broadcast('trial', trial);
+    private onEngineStatus = (status: EngineStatus): void => this.broadcast('engine-status', status);
+    private onSignificantEvent = (event: SignificantEvent): void => this.broadcast('significant-event', event);
+
+    private broadcast(type: StreamEvent, data: unknown): void {
+        if (this.clients.size === 0) return;
+
+        const message = serialize({ type, data });
+        this.clients.forEach((events, connection) => {
+            if (events.has(type)) {
+                connection.send(message);
+            }
+        });
+    }
+
+    // HTTP
+
+    private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        const url = new URL(request.url || '/', 'http://127.0.0.1');
+        const method = request.method || 'GET';
+
+        if (method === 'OPTIONS') {
+            this.send(response, { status: 204 });
+            return;
+        }
+        if (!url.pathname.startsWith(API_PREFIX)) {
+            this.send(response, { status: 404, body: { error: `No route for ${method} ${url.pathname}` } });
+            return;
+        }
+
+        const path = url.pathname.slice(API_PREFIX.length) || '/';
+
+        // The description is public so tools can discover the API before they have a token
+        if (method === 'GET' && path === '/openapi.json') {
+            this.send(response, { status: 200, body: buildOpenApiDocument(this.getPort()!) });
+            return;
+        }
+
+        if (!this.isAuthorized(bearerToken(request))) {
+            this.send(response, { status: 401, body: { error: 'Missing or wrong API token' } });
+            return;
+        }
+
+        try {
+            const body = method === 'POST' ? await readJsonBody(request) : undefined;
+            this.send(response, await this.route(method, path, url.searchParams, body));
+        } catch (error) {
+            const status = (error as { status?: number }).status;
+            if (status) {
+                this.send(response, { status, body: { error: (error as Error).message } });
+            } else {
+                console.error('Local API request failed:', error);
+                this.send(response, {
+                    status: 500,
+                    body: { error: error instanceof Error ? error.message : String(error) }
+                });
+            }
+        }
+    }
+
+    private async route(method: string, path: string, params: URLSearchParams, body: any): Promise<ApiResponse> {
+        const { sessionEngine, collector, timeSync, repositories } = this.context;
+
+        if (method === 'GET') {
+            if (path === '/status') {
+                return {
+                    status: 200,
+                    body: {
+                        engine: sessionEngine.getStatus(),
+                        continuous: await collector.getStatus(),
+                        clock: timeSync?.getStatus() ?? null
+                    }
+                };
+            }
+
+            if (path === '/sessions') {
+                return {
+                    status: 200,
+                    body: await repositories.sessions.getRecentSessions(
+                        integerParam(params, 'limit', 50, 1, 1000),
+                        { offset: integerParam(params, 'offset', 0, 0) }
+                    )
+                };
+            }
+
+            const session = /^\/sessions\/([^/]+)(\/trials|\/markers)?$/.exec(path);
+            if (session) {
+                const sessionId = decodeURIComponent(session[1]);
+                const stored = await repositories.sessions.getSession(sessionId);
+                if (!stored) {
+                    throw requestError(404, `Session not found: ${sessionId}`);
+                }
+                if (session[2] === '/trials') {
+                    return {
+                        status: 200,
+                        body: await repositories.trials.getTrialsBySession(sessionId, {
+                            limit: integerParam(params, 'limit', MAX_TRIALS_PER_REQUEST, 1, MAX_TRIALS_PER_REQUEST),
+                            offset: integerParam(params, 'offset', 0, 0)
+                        })
+                    };
+                }
+                if (session[2] === '/markers') {
+                    return { status: 200, body: await repositories.markers.getMarkersBySession(sessionId) };
+                }
+                return { status: 200, body: stored };
+            }
+
+            if (path === '/trials') {
+                const [start, end] = rangeParams(params);
+                return {
+                    status: 200,
+                    body: await repositories.trials.getTrialsByTimeRange(start, end, {
+                        experimentMode: modeParam(params),
+                        limit: integerParam(params, 'limit', MAX_TRIALS_PER_REQUEST, 1, MAX_TRIALS_PER_REQUEST),
+                        offset: integerParam(params, 'offset', 0, 0)
+                    })
+                };
+            }
+
+            if (path === '/stats') {
+                const [startTime, endTime] = rangeParams(params);
+                return {
+                    status: 200,
+                    body: await repositories.trials.getTrialStatistics({
+                        startTime,
+                        endTime,
+                        experimentMode: modeParam(params)
+                    })
+                };
+            }
+
+            if (path === '/intention-periods') {
+                const [start, end] = rangeParams(params);
+                return { status: 200, body: await repositories.intentions.getIntentionPeriodsInRange(start, end) };
+            }
+
+            if (path === '/markers') {
+                const [start, end] = rangeParams(params);
+                return { status: 200, body: await repositories.markers.getMarkersInRange(start, end) };
+            }
+        }
+
+        if (method === 'POST') {
+            if (path === '/intention-periods') {
+                const intention = body?.intention;
+                if (intention !== 'high' && intention !== 'low') {
+                    throw requestError(400, '"intention" must be "high" or "low"');
+                }
+                this.assertCollectorAvailable();
+                const period = await collector.startIntentionPeriod(
+                    intention,
+                    typeof body.notes === 'string' ? body.notes : '',
+                    typeof body.participantId === 'string' ? body.participantId : undefined,
+                    typeof body.sequentialDesignId === 'string' ? body.sequentialDesignId : undefined
+                );
+                return { status: 201, body: period };
+            }
+
+            if (path === '/markers') {
+                return { status: 201, body: await this.recordMarker(body ?? {}) };
+            }
+
+            if (path === '/intention-periods/end') {
+                this.assertCollectorAvailable();
+                await collector.endIntentionPeriod();
+                return { status: 204 };
+            }
+
+            if (path === '/continuous/start') {
+                this.assertCollectorAvailable();
+                await collector.start();
+                return { status: 200, body: await collector.getStatus() };
+            }
+
+            if (path === '/continuous/stop') {
+                this.assertCollectorAvailable();
+                await collector.stop();
+                return { status: 200, body: await collector.getStatus() };
+            }
+        }
+
+        throw requestError(404, `No route for ${method} ${API_PREFIX}${path}`);
+    }
+
+    /**
+     * Place an external marker on the trial timeline and attach it to its session
+     */
+    private async recordMarker(input: EventMarkerInput): Promise<EventMarker | null> {
+        const { sessions, markers } = this.context.repositories;
+
+        const problem = validateMarkerInput(input);
+        if (problem) {
+            throw requestError(400, problem);
+        }
+
+        const clockSync = getClockSync();
+        if (input.sourceOffsetMs !== undefined && !clockSync) {
+            throw requestError(409, 'Markers with sourceOffsetMs need time sync (RNG_TIME_SERVERS) on this machine');
+        }
+        const alignmentOffsetMs = markerAlignmentOffset(input, clockSync);
+        const timestamp = new Date(input.timestamp + alignmentOffsetMs);
+
+        let sessionId: string | null = null;
+        if (input.sessionId !== undefined) {
+            if (!(await sessions.getSession(input.sessionId))) {
+                throw requestError(404, `Session not found: ${input.sessionId}`);
+            }
+            sessionId = input.sessionId;
+        } else {
+            sessionId = (await sessions.findSessionAt(timestamp))?.id ?? null;
+        }
+
+        const markerId = await markers.insertMarker({
+            sessionId,
+            label: input.label,
+            source: input.source,
+            code: input.code,
+            timestamp,
+            sourceTimestamp: input.timestamp,
+            alignmentOffsetMs,
+            metadata: input.metadata,
+            receivedAt: new Date()
+        });
+        return markers.getMarker(markerId);
+    }
+
+    /**
+     * Continuous control belongs to whichever process holds the collector lock
+     */
+    private assertCollectorAvailable(): void {
+        const holder = this.context.collector.getExternalCollector();
+        if (holder) {
+            throw requestError(409, `Continuous collection is running in the ${describeCollectorLock(holder)}`);
+        }
+    }
+
+    private send(response: http.ServerResponse, result: ApiResponse): void {
+        const headers: http.OutgoingHttpHeaders = {
+            // Browser-based tools (overlays, notebooks) call from their own origin; the token guards access
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+        };
+
+        if (result.body === undefined) {
+            response.writeHead(result.status, headers);
+            response.end();
+            return;
+        }
+
+        response.writeHead(result.status, { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+        response.end(serialize(result.body));
+    }
+
+    // WebSocket stream
+
+    private handleUpgrade(request: http.IncomingMessage, socket: Duplex): void {
+        const url = new URL(request.url || '/', 'http://127.0.0.1');
+        const reject = (status: string) => socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+
+        if (url.pathname !== `${API_PREFIX}/stream`) {
+            reject('404 Not Found');
+            return;
+        }
+        // Browsers cannot set headers on a WebSocket, so the token may come as a query parameter
+        if (!this.isAuthorized(bearerToken(request) ?? url.searchParams.get('token'))) {
+            reject('401 Unauthorized');
+            return;
+        }
+
+        const requested = url.searchParams.get('events');
+        const events = requested ? requested.split(',').map(event => event.trim()) : [...STREAM_EVENTS];
+        if (events.some(event => !STREAM_EVENTS.includes(event as StreamEvent))) {
+            reject('400 Bad Request');
+            return;
+        }
+
+        const connection = acceptWebSocket(request, socket);
+        if (!connection) return;
+
+        this.clients.set(connection, new Set(events as StreamEvent[]));
+        connection.on('close', () => this.clients.delete(connection));
+    }
+
+    private isAuthorized(token: string | null): boolean {
+        // Equal-length digests make the comparison constant-time
+        return token !== null && crypto.timingSafeEqual(digest(token), this.tokenDigest);
+    }
+}
+
+function digest(token: string): Buffer {
+    return crypto.createHash('sha256').update(token).digest();
+}
+
+function bearerToken(request: http.IncomingMessage): string | null {
+    const match = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization ?? '');
+    return match ? match[1] : null;
+}
+
+/**
+ * JSON with raw bits as base64
+ */
+function serialize(value: unknown): string {
+    return JSON.stringify(value, (_, item) => item instanceof Uint8Array ? Buffer.from(item).toString('base64') : item);
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw requestError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8').trim();
+    if (!text) return {};
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw requestError(400, 'Request body is not valid JSON');
+    }
+}
+
+function dateParam(params: URLSearchParams, name: string): Date {
+    const value = params.get(name);
+    const date = value ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+        throw requestError(400, `"${name}" must be an ISO 8601 date`);
+    }
+    return date;
+}
+
+function rangeParams(params: URLSearchParams): [Date, Date] {
+    const start = dateParam(params, 'start');
+    const end = dateParam(params, 'end');
+    if (end < start) {
+        throw requestError(400, '"end" must not be before "start"');
+    }
+    return [start, end];
+}
+
+function integerParam(params: URLSearchParams, name: string, fallback: number, min: number, max?: number): number {
+    const value = params.get(name);
+    if (value === null) return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || (max !== undefined && parsed > max)) {
+        throw requestError(400, `"${name}" must be an integer from ${min}${max !== undefined ? ` to ${max}` : ''}`);
+    }
+    return parsed;
+}
+
+function modeParam(params: URLSearchParams): ExperimentMode | undefined {
+    const value = params.get('mode');
+    if (value === null) return undefined;
+    if (value !== 'session' && value !== 'continuous') {
+        throw requestError(400, '"mode" must be "session" or "continuous"');
+    }
+    return value;
+}
@@ -0,0 +1,9 @@
+/**
+ * Local HTTP/WebSocket API
+ * REST over the repositories, a live event stream, token auth and an OpenAPI description
+ */
+
+export { LocalApiServer, resolveApiToken } from './api-server';
+export { buildOpenApiDocument } from './openapi';
+export { API_PREFIX, STREAM_EVENTS } from './types';
+export type { LocalApiContext, LocalApiOptions, StreamEvent } from './types';
@@ -0,0 +1,318 @@
+/**
+ * OpenAPI 3.0 description of the local API, served at /api/v1/openapi.json
+ */
+
+import { API_PREFIX, STREAM_EVENTS } from './types';
+
+const timestamp = { type: 'string', format: 'date-time' };
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: object) => ({ content: { 'application/json': { schema } } });
+const arrayOf = (name: string) => json({ type: 'array', items: ref(name) });
+
+const errors = {
+    400: { description: 'Invalid parameters', ...json(ref('Error')) },
+    401: { description: 'Missing or wrong token', ...json(ref('Error')) }
+};
+
+const query = (name: string, description: string, schema: object, required: boolean = false) => ({
+    name,
+    in: 'query',
+    required,
+    description,
+    schema
+});
+
+const sessionId = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+const mode = query('mode', 'Experiment mode', { type: 'string', enum: ['session', 'continuous'] });
+const range = [
+    query('start', 'Range start (ISO 8601)', timestamp, true),
+    query('end', 'Range end (ISO 8601)', timestamp, true)
+];
+
+/**
+ * Build the document; the server URL carries the port actually bound
+ */
+export function buildOpenApiDocument(port: number): object {
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'RNG Consciousness local API',
+            version: '1.0.0',
+            description: 'Read-only access to stored data, continuous-mode control and a WebSocket stream of live ' +
+                `events at ws://127.0.0.1:${port}${API_PREFIX}/stream?token=<token>[&events=${STREAM_EVENTS.join(',')}]. ` +
+                'Each stream message is a StreamMessage.'
+        },
+        servers: [{ url: `http://127.0.0.1:${port}${API_PREFIX}` }],
+        security: [{ bearerAuth: [] }],
+        paths: {
+            '/status': {
+                get: {
+                    summary: 'Engine and continuous collection status',
+                    responses: { 200: { description: 'Status', ...json(ref('Status')) }, ...errors }
+                }
+            },
+            '/sessions': {
+                get: {
+                    summary: 'Most recent sessions first',
+                    parameters: [
+                        query('limit', 'Maximum sessions (default 50)', { type: 'integer', minimum: 1, maximum: 1000 }),
+                        query('offset', 'Sessions to skip', { type: 'integer', minimum: 0 })
+                    ],
+                    responses: { 200: { description: 'Sessions', ...arrayOf('Session') }, ...errors }
+                }
+            },
+            '/sessions/{id}': {
+                get: {
+                    summary: 'One session',
+                    parameters: [sessionId],
+                    responses: {
+                        200: { description: 'Session', ...json(ref('Session')) },
+                        404: { description: 'Unknown session', ...json(ref('Error')) },
+                        ...errors
+                    }
+                }
+            },
+            '/sessions/{id}/trials': {
+                get: {
+                    summary: 'Trials of a session in order',
+                    parameters: [
+                        sessionId,
+                        query('limit', 'Maximum trials (default and cap 100000)', { type: 'integer', minimum: 1 }),
+                        query('offset', 'Trials to skip, for paging', { type: 'integer', minimum: 0 })
+                    ],
+                    responses: { 200: { description: 'Trials', ...arrayOf('Trial') }, ...errors }
+                }
+            },
+            '/sessions/{id}/markers': {
+                get: {
+                    summary: 'External event markers of a session in timeline order',
+                    parameters: [sessionId],
+                    responses: {
+                        200: { description: 'Markers', ...arrayOf('EventMarker') },
+                        404: { description: 'Unknown session', ...json(ref('Error')) },
+                        ...errors
+                    }
+                }
+            },
+            '/trials': {
+                get: {
+                    summary: 'Trials in a time range, oldest first',
+                    parameters: [
+                        ...range,
+                        mode,
+                        query('limit', 'Maximum trials (default and cap 100000)', { type: 'integer', minimum: 1 }),
+                        query('offset', 'Trials to skip, for paging', { type: 'integer', minimum: 0 })
+                    ],
+                    responses: { 200: { description: 'Trials', ...arrayOf('Trial') }, ...errors }
+                }
+            },
+            '/stats': {
+                get: {
+                    summary: 'Summary statistics of the trials in a time range',
+                    parameters: [...range, mode],
+                    responses: { 200: { description: 'Statistics', ...json(ref('TrialStatistics')) }, ...errors }
+                }
+            },
+            '/intention-periods': {
+                get: {
+                    summary: 'Intention periods overlapping a time range, oldest first',
+                    parameters: range,
+                    responses: { 200: { description: 'Intention periods', ...arrayOf('IntentionPeriod') }, ...errors }
+                },
+                post: {
+                    summary: 'Start an intention period in continuous mode (ends the running one)',
+                    requestBody: {
+                        required: true,
+                        ...json({
+                            type: 'object',
+                            required: ['intention'],
+                            properties: {
+                                intention: { type: 'string', enum: ['high', 'low'] },
+                                notes: { type: 'string' },
+                                participantId: { type: 'string' },
+                                sequentialDesignId: {
+                                    type: 'string',
+                                    description: 'Active continuous group-sequential design the period counts towards'
+                                }
+                            }
+                        })
+                    },
+                    responses: {
+                        201: { description: 'Started period', ...json(ref('IntentionPeriod')) },
+                        409: { description: 'Another process is collecting', ...json(ref('Error')) },
+                        ...errors
+                    }
+                }
+            },
+            '/markers': {
+                get: {
+                    summary: 'External event markers in a time range of the trial timeline, oldest first',
+                    parameters: range,
+                    responses: { 200: { description: 'Markers', ...arrayOf('EventMarker') }, ...errors }
+                },
+                post: {
+                    summary: 'Record a marker from an external recorder, aligned onto the trial timeline',
+                    requestBody: {
+                        required: true,
+                        ...json({
+                            type: 'object',
+                            required: ['label', 'source', 'timestamp'],
+                            properties: {
+                                label: { type: 'string' },
+                                source: { type: 'string', description: 'Recorder that sent the marker' },
+                                code: { type: 'integer' },
+                                timestamp: { type: 'number', description: "Milliseconds since the epoch on the recorder's clock" },
+                                sourceOffsetMs: {
+                                    type: 'number',
+                                    description: 'Reference time minus recorder time, for recorders synchronized to the same ' +
+                                        "time server; omit when the recorder shares this machine's clock"
+                                },
+                                sessionId: { type: 'string', description: 'Defaults to the session running at the marker time' },
+                                metadata: { type: 'object' }
+                            }
+                        })
+                    },
+                    responses: {
+                        201: { description: 'Stored marker', ...json(ref('EventMarker')) },
+                        404: { description: 'Unknown session', ...json(ref('Error')) },
+                        409: { description: 'sourceOffsetMs given but this machine has no time sync', ...json(ref('Error')) },
+                        ...errors
+                    }
+                }
+            },
+            '/intention-periods/end': {
+                post: {
+                    summary: 'End the running intention period',
+                    responses: { 204: { description: 'Ended (or none was running)' }, ...errors }
+                }
+            },
+            '/continuous/start': {
+                post: {
+                    summary: 'Start continuous collection',
+                    responses: {
+                        200: { description: 'Collection status', ...json({ type: 'object' }) },
+                        409: { description: 'Another process is collecting', ...json(ref('Error')) },
+                        ...errors
+                    }
+                }
+            },
+            '/continuous/stop': {
+                post: {
+                    summary: 'Stop continuous collection',
+                    responses: { 200: { description: 'Collection status', ...json({ type: 'object' }) }, ...errors }
+                }
+            }
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token from RNG_API_TOKEN or the api-token file' }
+            },
+            schemas: {
+                Error: { type: 'object', properties: { error: { type: 'string' } } },
+                Trial: {
+                    type: 'object',
+                    properties: {
+                        timestamp,
+                        trialValue: { type: 'integer', description: 'Sum of 200 bits, expected 100' },
+                        sessionId: { type: 'string' },
+                        experimentMode: { type: 'string', enum: ['session', 'continuous'] },
+                        intention: { type: 'string', enum: ['high', 'low', 'baseline'], nullable: true },
+                        trialNumber: { type: 'integer' },
+                        deviceId: { type: 'string' },
+                        rawBits: { type: 'string', format: 'byte', description: '25 bytes, base64' }
+                    }
+                },
+                Session: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        startTime: timestamp,
+                        endTime: { ...timestamp, nullable: true },
+                        intention: { type: 'string', enum: ['high', 'low', 'baseline'] },
+                        targetTrials: { type: 'integer' },
+                        status: { type: 'string' },
+                        notes: { type: 'string' },
+                        participantId: { type: 'string' },
+                        duration: { type: 'integer', description: 'Milliseconds' },
+                        source: { type: 'string' },
+                        clockSync: {
+                            type: 'object',
+                            description: 'Clock offset when the session started; reference time = local time + offsetMs',
+                            properties: {
+                                offsetMs: { type: 'number' },
+                                uncertaintyMs: { type: 'number' },
+                                server: { type: 'string' },
+                                syncedAt: timestamp
+                            }
+                        }
+                    }
+                },
+                IntentionPeriod: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        startTime: timestamp,
+                        endTime: { ...timestamp, nullable: true },
+                        intention: { type: 'string', enum: ['high', 'low'] },
+                        notes: { type: 'string' },
+                        sessionId: { type: 'string' },
+                        participantId: { type: 'string' },
+                        sequentialDesignId: { type: 'string' }
+                    }
+                },
+                EventMarker: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        sessionId: { type: 'string', nullable: true },
+                        label: { type: 'string' },
+                        source: { type: 'string' },
+                        code: { type: 'integer' },
+                        timestamp: { ...timestamp, description: 'On the trial timeline' },
+                        sourceTimestamp: { type: 'number', description: 'As sent, in milliseconds' },
+                        alignmentOffsetMs: { type: 'number' },
+                        trialNumber: { type: 'integer', nullable: true, description: 'Last trial at or before the marker' },
+                        metadata: { type: 'object' },
+                        receivedAt: timestamp
+                    }
+                },
+                TrialStatistics: {
+                    type: 'object',
+                    properties: {
+                        count: { type: 'integer' },
+                        minValue: { type: 'number' },
+                        maxValue: { type: 'number' },
+                        sum: { type: 'number' },
+                        mean: { type: 'number' },
+                        meanAbsoluteDeviation: { type: 'number' },
+                        firstTimestamp: timestamp,
+                        lastTimestamp: timestamp
+                    }
+                },
+                Status: {
+                    type: 'object',
+                    properties: {
+                        engine: { type: 'object', description: 'Session engine status' },
+                        continuous: { type: 'object', description: 'Continuous collection status' },
+                        clock: {
+                            type: 'object',
+                            nullable: true,
+                            description: 'Time sync servers, last offset measurement and last error; null when sync is off'
+                        }
+                    }
+                },
+                StreamMessage: {
+                    type: 'object',
+                    required: ['type', 'data'],
+                    properties: {
+                        type: { type: 'string', enum: [...STREAM_EVENTS] },
+                        data: {
+                            description: 'Trial for "trial", engine status for "engine-status", ' +
+                                'analyzer event for "significant-event"'
+                        }
+                    }
+                }
+            }
+        }
+    };
+}
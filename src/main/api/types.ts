@@ -0,0 +1,46 @@
+/**
+ * Local API types
+ * The server reads through the repositories and streams what the engines and analyzer emit
+ */
+
+import type { RNGEngine } from '../../core/rng-engine';
+import type { SessionRepository } from '../../database/repositories/session-repository';
+import type { TrialRepository } from '../../database/repositories/trial-repository';
+import type { IntentionRepository } from '../../database/repositories/intention-repository';
+import type { MarkerRepository } from '../../database/repositories/marker-repository';
+import type { TimeSyncService } from '../../core/time-sync';
+import type { ContinuousDataCollector } from '../continuous-manager';
+import type { BackgroundAnalyzer } from '../background-analyzer';
+
+export const API_PREFIX = '/api/v1';
+
+/**
+ * Stream message types; clients may pick a subset with ?events=
+ */
+export const STREAM_EVENTS = ['trial', 'engine-status', 'significant-event'] as const;
+
+export type StreamEvent = typeof STREAM_EVENTS[number];
+
+export interface LocalApiOptions {
+    /** Port on 127.0.0.1; 0 picks a free one */
+    port: number;
+
+    /** Bearer token every request (and the stream) must present */
+    token: string;
+}
+
+/**
+ * Main-process services the API reads from and listens to
+ */
+export interface LocalApiContext {
+    sessionEngine: RNGEngine;
+    collector: ContinuousDataCollector;
+    analyzer: BackgroundAnalyzer;
+    timeSync: TimeSyncService | null;
+    repositories: {
+        sessions: SessionRepository;
+        trials: TrialRepository;
+        intentions: IntentionRepository;
+        markers: MarkerRepository;
+    };
+}
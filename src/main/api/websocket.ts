@@ -0,0 +1,181 @@
+/**
+ * Minimal RFC 6455 WebSocket server side for the local API
+ * Text messages go out; incoming frames are only read for ping and close, since the channel is push-only
+ */
+
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+/** Fixed GUID that keys the handshake (RFC 6455 section 1.3) */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Largest frame a client may send; anything but ping and close is discarded */
+const MAX_INCOMING_FRAME = 64 * 1024;
+
+export class WebSocketConnection extends EventEmitter {
+    private socket: Duplex;
+    private buffer: Buffer = Buffer.alloc(0);
+    private closed: boolean = false;
+
+    constructor(socket: Duplex) {
+        super();
+        this.socket = socket;
+
+        socket.on('data', (chunk: Buffer) => this.receive(chunk));
+        // HTTP server sockets are half-open, so a client that hangs up without a close frame only ends its side
+        socket.on('end', () => {
+            socket.end();
+            this.finish();
+        });
+        socket.on('close', () => this.finish());
+        socket.on('error', () => this.finish());
+    }
+
+    /**
+     * Send one text message
+     */
+    send(text: string): void {
+        if (this.closed) return;
+        this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    }
+
+    /**
+     * Close with a status code (1000 normal, 1001 going away)
+     */
+    close(code: number = 1000): void {
+        if (this.closed) return;
+
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code, 0);
+        this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+        this.finish();
+    }
+
+    isOpen(): boolean {
+        return !this.closed;
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        for (;;) {
+            const frame = decodeFrame(this.buffer);
+            if (!frame) return;
+
+            if (frame.length > MAX_INCOMING_FRAME) {
+                this.close(1009);
+                return;
+            }
+
+            this.buffer = this.buffer.subarray(frame.length);
+
+            if (frame.opcode === OPCODE_CLOSE) {
+                this.close(1000);
+                return;
+            }
+            if (frame.opcode === OPCODE_PING) {
+                this.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+            }
+        }
+    }
+
+    private finish(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.emit('close');
+    }
+}
+
+/**
+ * Complete the upgrade handshake; returns null (after answering 400) for a malformed request
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+        return null;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+    ].join('\r\n'));
+
+    return new WebSocketConnection(socket);
+}
+
+/**
+ * Unmasked server frame with FIN set
+ */
+export function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * First complete frame in a buffer, unmasked; null until all of it has arrived
+ */
+export function decodeFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | null {
+    if (buffer.length < 2) return null;
+
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let payloadLength = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (payloadLength === 126) {
+        if (buffer.length < 4) return null;
+        payloadLength = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (payloadLength === 127) {
+        if (buffer.length < 10) return null;
+        payloadLength = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+
+    const length = offset + payloadLength;
+    if (payloadLength > MAX_INCOMING_FRAME) {
+        // Too large to wait for; the caller closes the connection
+        return { opcode, payload: Buffer.alloc(0), length };
+    }
+    if (buffer.length < length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset, length));
+    if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+    }
+
+    return { opcode, payload, length };
+}
@@ -6,12 +6,20 @@
  * - Intention period correlation analysis
  * - Daily statistical summaries
  * - Trend identification
+ * - Change-point detection over stored ranges and, online, over trials as they arrive
  * - Alert generation for significant events
+ * - Evaluation of registered formal events once their window closes
  */
 
 import { EventEmitter } from 'events';
-import { DatabaseManager } from '../database';
 import { StatisticalAnalyzer } from '../core/statistics';
+import { FormalEventAnalyzer } from '../core/formal-events';
+import { ChangePointDetector, OnlineChangePointDetector } from '../core/change-point';
+import { StatisticalUtils } from '../core/statistical-utils';
+import { FormalEventRepository } from '../database/repositories/event-repository';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import { IntentionRepository } from '../database/repositories/intention-repository';
+import { ContinuousDataCollector } from './continuous-manager';
 import {
     DailyReport,
     SignificantEvent,
@@ -21,22 +29,71 @@ import {
     RNGTrial,
     IntentionPeriod
 } from '../shared/types';
+import {
+    ChangePoint,
+    ChangePointAnalysis,
+    ChangePointOptions,
+    ChangePointSegment,
+    FormalEvent,
+    FormalEventDefinition,
+    FormalEventResult,
+    FormalEventSeries
+} from '../shared/analysis-types';
+import { ChangePointRequest } from '../shared/ipc-types';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Grace period after a formal event window closes, for trials still on their way to the database
+ */
+const EVENT_SETTLE_MS = 5000;
+
+/**
+ * Longest wait between checks for due formal events
+ */
+const MAX_EVENT_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Trials averaged into each sample the online change-point detector sees
+ */
+const CHANGE_POINT_BLOCK = 60;
+
+/**
+ * Samples a time range is reduced to for change-point analysis
+ */
+const MAX_CHANGE_POINT_SAMPLES = 1000;
+
+const CHANGE_POINT_LABELS: Record<ChangePoint['method'], string> = {
+    cusum: 'CUSUM',
+    pelt: 'PELT',
+    bocpd: 'Bayesian online'
+};
+
 /**
  * Automatic analysis for continuous monitoring
  */
 export class BackgroundAnalyzer extends EventEmitter {
     private analysisInterval: NodeJS.Timeout | null = null;
-    private database: DatabaseManager;
     private statisticalAnalyzer: StatisticalAnalyzer;
     private lastAnalysisTime: Date = new Date();
     private significantEvents: SignificantEvent[] = [];
     private isRunning: boolean = false;
-
-    constructor(database: DatabaseManager, statisticalAnalyzer: StatisticalAnalyzer) {
+    private trials: TrialRepository;
+    private intentions: IntentionRepository;
+    private events: FormalEventRepository;
+    private eventTimer: NodeJS.Timeout | null = null;
+    private isMonitoringEvents: boolean = false;
+    private unwatchChangePoints: (() => void) | null = null;
+
+    constructor(
+        trials: TrialRepository,
+        intentions: IntentionRepository,
+        events: FormalEventRepository,
+        statisticalAnalyzer: StatisticalAnalyzer
+    ) {
         super();
-        this.database = database;
+        this.trials = trials;
+        this.intentions = intentions;
+        this.events = events;
         this.statisticalAnalyzer = statisticalAnalyzer;
     }
 
@@ -98,6 +155,9 @@ export class BackgroundAnalyzer extends EventEmitter {
         // Correlate with intentions
         const correlations = await this.correlateWithIntentions();
 
+        // Formal events whose window has closed
+        await this.evaluateDueEvents(now);
+
         // Update last analysis time
         this.lastAnalysisTime = now;
 
@@ -123,7 +183,7 @@ export class BackgroundAnalyzer extends EventEmitter {
 
         try {
             // Get recent trials
-            const trials = await this.database.trials.getByDateRange(startTime, endTime);
+            const trials = await this.getContinuousTrials(startTime, endTime);
 
             if (trials.length === 0) {
                 return { anomalies: [], trends: null, statistics: null };
@@ -154,7 +214,7 @@ export class BackgroundAnalyzer extends EventEmitter {
         const startTime = new Date(endTime.getTime() - (24 * 60 * 60 * 1000)); // Last 24 hours
 
         try {
-            const trials = await this.database.trials.getByDateRange(startTime, endTime);
+            const trials = await this.getContinuousTrials(startTime, endTime);
             const significantPeriods: SignificantEvent[] = [];
 
             // Use sliding window to detect significant periods
@@ -211,8 +271,8 @@ export class BackgroundAnalyzer extends EventEmitter {
         const startTime = new Date(endTime.getTime() - (7 * 24 * 60 * 60 * 1000)); // Last week
 
         try {
-            const trials = await this.database.trials.getByDateRange(startTime, endTime);
-            const intentionPeriods = await this.database.intentionPeriods.getByDateRange(startTime, endTime);
+            const trials = await this.getContinuousTrials(startTime, endTime);
+            const intentionPeriods = await this.intentions.getIntentionPeriodsInRange(startTime, endTime);
 
             const correlations: CorrelationResult[] = [];
 
@@ -283,8 +343,8 @@ export class BackgroundAnalyzer extends EventEmitter {
 
         try {
             // Get day's data
-            const trials = await this.database.trials.getByDateRange(startOfDay, endOfDay);
-            const intentionPeriods = await this.database.intentionPeriods.getByDateRange(startOfDay, endOfDay);
+            const trials = await this.getContinuousTrials(startOfDay, endOfDay);
+            const intentionPeriods = await this.intentions.getIntentionPeriodsInRange(startOfDay, endOfDay);
 
             // Overall statistics
             const statistics = await this.statisticalAnalyzer.analyzeTrials(trials);
@@ -332,6 +392,14 @@ export class BackgroundAnalyzer extends EventEmitter {
         }
     }
 
+    /**
+     * Continuous-mode trials in a time range, including any still waiting in the batch
+     */
+    private async getContinuousTrials(startTime: Date, endTime: Date): Promise<RNGTrial[]> {
+        await this.trials.flushBatch();
+        return this.trials.getTrialsByTimeRange(startTime, endTime, { experimentMode: 'continuous' });
+    }
+
     /**
      * Detect anomalies in trial data
      */
@@ -614,10 +682,92 @@ export class BackgroundAnalyzer extends EventEmitter {
         return anomalies;
     }
 
+    /**
+     * The latest shift in the mean, by PELT, with the segment since as its data range
+     */
     private detectTrendChange(trials: RNGTrial[]): SignificantEvent | null {
-        // Simple trend change detection
-        // This could be more sophisticated with proper changepoint detection
-        return null;
+        const analysis = ChangePointDetector.pelt(ChangePointDetector.toSamples(trials, MAX_CHANGE_POINT_SAMPLES));
+        const latest = analysis.changePoints[analysis.changePoints.length - 1];
+        if (!latest) return null;
+
+        return this.changePointEvent(latest, analysis.segments[analysis.segments.length - 1]);
+    }
+
+    private changePointEvent(changePoint: ChangePoint, segment: ChangePointSegment): SignificantEvent {
+        return {
+            id: uuidv4(),
+            timestamp: new Date(),
+            type: 'trend_change',
+            severity: changePoint.confidence >= 0.99 ? 'high' : 'medium',
+            description: `${CHANGE_POINT_LABELS[changePoint.method]} change point: mean ` +
+                `${changePoint.meanBefore.toFixed(3)} → ${changePoint.meanAfter.toFixed(3)}`,
+            significance: {
+                zScore: segment.zScore,
+                pValue: StatisticalUtils.normalProbability(segment.zScore)
+            },
+            dataRange: {
+                startTime: segment.startTime,
+                endTime: segment.endTime,
+                trialCount: segment.trialCount
+            },
+            notified: false
+        };
+    }
+
+    /**
+     * Change points over the trials of a time range, reduced to at most MAX_CHANGE_POINT_SAMPLES samples
+     */
+    async analyzeChangePoints(request: ChangePointRequest): Promise<ChangePointAnalysis> {
+        const { method, startTime, endTime, experimentMode = 'continuous', ...options } = request;
+
+        await this.trials.flushBatch();
+        const trials = await this.trials.getTrialsByTimeRange(startTime, endTime, { experimentMode });
+        return ChangePointDetector.analyze(
+            ChangePointDetector.toSamples(trials, MAX_CHANGE_POINT_SAMPLES),
+            method,
+            options
+        );
+    }
+
+    /**
+     * Bayesian online change-point detection over the collector's trials as they arrive, one sample
+     * per CHANGE_POINT_BLOCK trials; each change becomes a significant event. Returns the unsubscribe function
+     */
+    watchChangePoints(collector: ContinuousDataCollector, options: ChangePointOptions = {}): () => void {
+        this.unwatchChangePoints?.();
+
+        const detector = new OnlineChangePointDetector(options);
+        let block: RNGTrial[] = [];
+
+        const onTrial = (trial: RNGTrial) => {
+            block.push(trial);
+            if (block.length < CHANGE_POINT_BLOCK) return;
+
+            const [sample] = ChangePointDetector.toSamples(block, 1);
+            block = [];
+            const changePoint = detector.push(sample);
+            if (!changePoint) return;
+
+            const event = this.changePointEvent(changePoint, detector.currentSegment()!);
+            this.significantEvents.push(event);
+            this.emit('significantEvent', event);
+        };
+        // Collection resumes after a gap the detector must not bridge
+        const onStopped = () => {
+            detector.reset();
+            block = [];
+        };
+
+        collector.on('trialGenerated', onTrial);
+        collector.on('stopped', onStopped);
+
+        const unwatch = () => {
+            collector.off('trialGenerated', onTrial);
+            collector.off('stopped', onStopped);
+            if (this.unwatchChangePoints === unwatch) this.unwatchChangePoints = null;
+        };
+        this.unwatchChangePoints = unwatch;
+        return unwatch;
     }
 
     /**
@@ -628,11 +778,120 @@ export class BackgroundAnalyzer extends EventEmitter {
         return this.significantEvents.filter(event => event.timestamp >= cutoff);
     }
 
+    /**
+     * Register a formal event; it is evaluated automatically once its window closes
+     */
+    async registerFormalEvent(definition: FormalEventDefinition): Promise<FormalEvent> {
+        FormalEventAnalyzer.validateDefinition(definition);
+
+        const eventId = await this.events.registerEvent(definition);
+        if (this.isMonitoringEvents) {
+            await this.scheduleEventCheck();
+        }
+        return (await this.events.getEvent(eventId))!;
+    }
+
+    /**
+     * Every registered formal event, by window end
+     */
+    async listFormalEvents(): Promise<FormalEvent[]> {
+        return this.events.listEvents();
+    }
+
+    /**
+     * Evaluate every pending formal event whose window closed before now, less the settle period
+     */
+    async evaluateDueEvents(now: Date = new Date()): Promise<FormalEvent[]> {
+        const due = await this.events.getDueEvents(new Date(now.getTime() - EVENT_SETTLE_MS));
+        if (due.length === 0) return [];
+
+        await this.trials.flushBatch();
+
+        const evaluated: FormalEvent[] = [];
+        for (const event of due) {
+            const trials = (await this.trials.getTrialsByTimeRange(event.startTime, event.endTime))
+                .filter(trial => trial.deviceId && trial.timestamp < event.endTime);
+
+            let result: FormalEventResult | null = null;
+            if (trials.length > 0) {
+                try {
+                    result = FormalEventAnalyzer.evaluate(trials, event.recipe, now);
+                } catch (error) {
+                    // A window with a single reporting device cannot carry a covariance
+                    console.warn(`Formal event ${event.name} has no usable network data:`, error);
+                }
+            }
+
+            await this.events.recordResult(event.id, result);
+            const stored = (await this.events.getEvent(event.id))!;
+            evaluated.push(stored);
+            this.emit('formalEventEvaluated', stored);
+        }
+
+        return evaluated;
+    }
+
+    /**
+     * Cumulative Stouffer Z across all evaluated formal events
+     */
+    async getFormalEventSeries(): Promise<FormalEventSeries> {
+        return FormalEventAnalyzer.buildSeries(await this.events.listEvents());
+    }
+
+    /**
+     * Evaluate formal events as their windows close, independent of periodic analysis
+     */
+    async startEventMonitoring(): Promise<void> {
+        if (this.isMonitoringEvents) return;
+
+        this.isMonitoringEvents = true;
+        await this.scheduleEventCheck();
+    }
+
+    /**
+     * Stop evaluating formal events automatically
+     */
+    stopEventMonitoring(): void {
+        this.isMonitoringEvents = false;
+        if (this.eventTimer) {
+            clearTimeout(this.eventTimer);
+            this.eventTimer = null;
+        }
+    }
+
+    private async scheduleEventCheck(): Promise<void> {
+        if (this.eventTimer) {
+            clearTimeout(this.eventTimer);
+            this.eventTimer = null;
+        }
+
+        const nextEnd = await this.events.getNextPendingEnd();
+        if (!this.isMonitoringEvents) return;
+        const delay = nextEnd
+            ? Math.min(Math.max(nextEnd.getTime() + EVENT_SETTLE_MS - Date.now(), 0), MAX_EVENT_CHECK_MS)
+            : MAX_EVENT_CHECK_MS;
+
+        this.eventTimer = setTimeout(async () => {
+            this.eventTimer = null;
+            try {
+                await this.evaluateDueEvents();
+            } catch (error) {
+                console.error('Formal event evaluation error:', error);
+                this.emit('analysisError', error);
+            }
+            if (this.isMonitoringEvents) {
+                this.scheduleEventCheck().catch(error => console.error('Failed to schedule formal events:', error));
+            }
+        }, delay);
+    }
+
     /**
      * Cleanup resources
      */
     destroy(): void {
         this.stopPeriodicAnalysis();
+        this.stopEventMonitoring();
+        this.unwatchChangePoints?.();
         this.removeAllListeners();
         this.significantEvents = [];
     }
@@ -416,13 +416,15 @@ export class CalibrationManager extends EventEmitter {
 
         // Count NIST tests
         for (const [, result] of testResults.nist.results) {
+            if (result.applicable === false) continue;
             totalTests++;
             if (result.passed) passedTests++;
         }
 
         // Count other test suites
-        totalTests += testResults.diehard.results.length;
-        passedTests += testResults.diehard.results.filter(r => r.passed).length;
+        const diehardApplicable = testResults.diehard.results.filter(r => r.applicable !== false);
+        totalTests += diehardApplicable.length;
+        passedTests += diehardApplicable.filter(r => r.passed).length;
 
         totalTests += testResults.ent.results.length;
         passedTests += testResults.ent.results.filter(r => r.passed).length;
@@ -0,0 +1,1115 @@
+/**
+ * Diehard Battery of Tests of Randomness
+ *
+ * George Marsaglia's 17 Diehard tests on a stream of 32-bit words, with his sample
+ * sizes, bit positions and reference distributions. A test that repeats itself
+ * (over bit positions or independent runs) reports each p-value in subTests and,
+ * as Diehard does, judges them together with a Kolmogorov-Smirnov test for uniformity.
+ *
+ * Every test reads the sample from its start, and the runs within a test follow
+ * one another through it. Tiers:
+ * - extended: every test at Marsaglia's sizes, reading an 11.5 MB sample cyclically
+ *   the way Diehard reads its test file
+ * - standard: each test scaled down so its runs never share words; tests the
+ *   supplied words cannot support are reported as not applicable
+ */
+
+import { StatisticalUtils } from '../../core/statistical-utils';
+import { binaryRank } from './NISTTestSuite';
+import type { TestResult } from './RandomnessValidator';
+
+export type DiehardTier = 'standard' | 'extended';
+
+export interface DiehardTestParameters {
+    /** Significance level for the final p-value of each test (default 0.01) */
+    alpha: number;
+}
+
+export const DEFAULT_DIEHARD_PARAMETERS: DiehardTestParameters = {
+    alpha: 0.01
+};
+
+export const DIEHARD_TEST_IDS = [
+    'birthdaySpacings',
+    'overlappingPermutations',
+    'ranks31x31',
+    'ranks32x32',
+    'ranks6x8',
+    'opso',
+    'oqso',
+    'dna',
+    'countOnesStream',
+    'countOnesBytes',
+    'parkingLot',
+    'minimumDistance',
+    'spheres',
+    'squeeze',
+    'overlappingSums',
+    'runs',
+    'craps'
+] as const;
+
+export type DiehardTestId = typeof DIEHARD_TEST_IDS[number];
+
+/**
+ * 32-bit words in Marsaglia's 11,468,800-byte test file - the extended tier's sample size
+ */
+export const DIEHARD_SAMPLE_WORDS = 2867200;
+
+const TEST_INFO: Record<DiehardTestId, { name: string; description: string }> = {
+    birthdaySpacings: { name: 'Birthday Spacings', description: 'Duplicate spacings among 512 birthdays in a 2^24-day year (Poisson, lambda = 2)' },
+    overlappingPermutations: { name: 'Overlapping 5-Permutation', description: 'Orderings of overlapping 5-tuples of words (weak inverse of the covariance, 96 df)' },
+    ranks31x31: { name: 'Binary Rank 31x31', description: 'Ranks of 31x31 binary matrices built from the leftmost 31 bits of words' },
+    ranks32x32: { name: 'Binary Rank 32x32', description: 'Ranks of 32x32 binary matrices built from whole words' },
+    ranks6x8: { name: 'Binary Rank 6x8', description: 'Ranks of 6x8 binary matrices built from one byte of six words, for each byte position' },
+    opso: { name: 'OPSO', description: 'Overlapping-pairs sparse occupancy: missing 2-letter words over a 1024-letter alphabet' },
+    oqso: { name: 'OQSO', description: 'Overlapping-quadruples sparse occupancy: missing 4-letter words over a 32-letter alphabet' },
+    dna: { name: 'DNA', description: 'Missing 10-letter words over a 4-letter alphabet' },
+    countOnesStream: { name: 'Count the 1s (Stream)', description: 'Overlapping 5-letter words of byte weights along the byte stream' },
+    countOnesBytes: { name: 'Count the 1s (Specific Bytes)', description: 'Overlapping 5-letter words of byte weights, one chosen byte per word' },
+    parkingLot: { name: 'Parking Lot', description: 'Cars parked at random in a 100x100 lot after 12,000 attempts' },
+    minimumDistance: { name: 'Minimum Distance', description: 'Minimum distance between 8,000 random points in a 10,000 square' },
+    spheres: { name: '3D Spheres', description: 'Minimum distance between 4,000 random points in a 1,000 cube' },
+    squeeze: { name: 'Squeeze', description: 'Iterations needed to squeeze 2^31 down to 1 by k = ceiling(k * U)' },
+    overlappingSums: { name: 'Overlapping Sums', description: 'Overlapping sums of 100 uniforms, decorrelated to independent normals' },
+    runs: { name: 'Runs', description: 'Runs up and runs down among 10,000 uniforms (Knuth covariance statistic)' },
+    craps: { name: 'Craps', description: 'Wins and throws per game over simulated games of craps' }
+};
+
+/**
+ * Test sizes at Marsaglia's settings, and the least a scaled-down test still runs with
+ */
+const BIRTHDAYS = 512;
+const BIRTHDAY_SAMPLES = { full: 500, minimum: 50 };
+const PERMUTATION_WINDOWS = { full: 1000000, minimum: 12000 };
+const PERMUTATION_REPETITIONS = 2;
+const RANK_MATRICES = { full: 40000, minimum: 1000 };
+const SMALL_RANK_MATRICES = { full: 100000, minimum: 1000 };
+const SPARSE_OCCUPANCY_WORDS = 1 << 21;
+const SPARSE_OCCUPANCY_MEAN = 141909;
+const ONES_WINDOWS = { full: 256000, minimum: 80000 };
+const ONES_STREAM_REPETITIONS = 2;
+const PARKING_ATTEMPTS = 12000;
+const PARKING_REPETITIONS = 10;
+const DISTANCE_POINTS = 8000;
+const DISTANCE_REPETITIONS = 100;
+const SPHERE_POINTS = 4000;
+const SPHERE_REPETITIONS = 20;
+const SQUEEZE_REPETITIONS = { full: 100000, minimum: 5000 };
+const SQUEEZE_START = 2147483647;
+const SQUEEZE_MAX_ITERATIONS = 48;
+const SQUEEZE_MIN_ITERATIONS = 6;
+const SUM_LENGTH = 100;
+const SUM_REPETITIONS = 10;
+const RUNS_LENGTH = 10000;
+const RUNS_REPETITIONS = 10;
+const CRAPS_GAMES = { full: 200000, minimum: 10000 };
+
+/**
+ * Fewer p-values than this are combined by Bonferroni rather than a KS test,
+ * which cannot see a single failure among two or three values
+ */
+const MIN_KS_P_VALUES = 5;
+
+/**
+ * Chi-square cells are pooled until each expects at least this many counts
+ */
+const MIN_EXPECTED_COUNT = 5;
+
+/**
+ * Byte weights 0-2, 3, 4, 5 and 6-8 as the letters of the count-the-1s tests
+ */
+const ONES_LETTER_PROBABILITIES = [37 / 256, 56 / 256, 70 / 256, 56 / 256, 37 / 256];
+
+/**
+ * Knuth's covariance matrix and expectations for run lengths 1-5 and 6+ (TAOCP 3.3.2, test G)
+ */
+const RUNS_COVARIANCE = [
+    [4529.4, 9044.9, 13568, 18091, 22615, 27892],
+    [9044.9, 18097, 27139, 36187, 45234, 55789],
+    [13568, 27139, 40721, 54281, 67852, 83685],
+    [18091, 36187, 54281, 72414, 90470, 111580],
+    [22615, 45234, 67852, 90470, 113262, 139476],
+    [27892, 55789, 83685, 111580, 139476, 172860]
+];
+const RUNS_EXPECTED = [1 / 6, 5 / 24, 11 / 120, 19 / 720, 29 / 5040, 1 / 840];
+
+type SubTest = { label: string; pValue: number };
+
+let permutationWeakInverse: { matrix: Float64Array; rank: number } | null = null;
+let squeezeProbabilities: number[] | null = null;
+
+export class DiehardTestSuite {
+    private readonly params: DiehardTestParameters;
+
+    constructor(params: Partial<DiehardTestParameters> = {}) {
+        this.params = { ...DEFAULT_DIEHARD_PARAMETERS, ...params };
+    }
+
+    /**
+     * Run the whole battery; the extended tier needs at least DIEHARD_SAMPLE_WORDS words
+     */
+    runAll(words: Uint32Array, tier: DiehardTier = 'standard'): Map<DiehardTestId, TestResult> {
+        if (tier === 'extended' && words.length < DIEHARD_SAMPLE_WORDS) {
+            throw new Error(`Extended Diehard tier needs ${DIEHARD_SAMPLE_WORDS} words, got ${words.length}`);
+        }
+
+        const results = new Map<DiehardTestId, TestResult>();
+        results.set('birthdaySpacings', this.birthdaySpacings(words, tier));
+        results.set('overlappingPermutations', this.overlappingPermutations(words, tier));
+        results.set('ranks31x31', this.ranks31x31(words, tier));
+        results.set('ranks32x32', this.ranks32x32(words, tier));
+        results.set('ranks6x8', this.ranks6x8(words, tier));
+        results.set('opso', this.opso(words, tier));
+        results.set('oqso', this.oqso(words, tier));
+        results.set('dna', this.dna(words, tier));
+        results.set('countOnesStream', this.countOnesStream(words, tier));
+        results.set('countOnesBytes', this.countOnesBytes(words, tier));
+        results.set('parkingLot', this.parkingLot(words, tier));
+        results.set('minimumDistance', this.minimumDistance(words, tier));
+        results.set('spheres', this.spheres(words, tier));
+        results.set('squeeze', this.squeeze(words, tier));
+        results.set('overlappingSums', this.overlappingSums(words, tier));
+        results.set('runs', this.runs(words, tier));
+        results.set('craps', this.craps(words, tier));
+        return results;
+    }
+
+    /**
+     * Birthday spacings, for each of the 9 24-bit fields of a word
+     */
+    birthdaySpacings(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const samples = this.size(tier, BIRTHDAY_SAMPLES, Math.floor(words.length / (9 * BIRTHDAYS)));
+        if (samples === 0) return this.notApplicable('birthdaySpacings');
+
+        const lambda = Math.pow(BIRTHDAYS, 3) / (4 * Math.pow(2, 24));
+        const maxCount = 20;
+        const probabilities: number[] = [];
+        for (let k = 0, term = Math.exp(-lambda); k < maxCount; k++, term *= lambda / k) probabilities.push(term);
+        probabilities.push(1 - probabilities.reduce((sum, p) => sum + p, 0));
+
+        const reader = this.reader(words, tier);
+        const birthdays = new Uint32Array(BIRTHDAYS);
+        const spacings = new Uint32Array(BIRTHDAYS);
+        const subTests: SubTest[] = [];
+
+        for (let shift = 8; shift >= 0; shift--) {
+            const histogram = new Array(maxCount + 1).fill(0);
+
+            for (let sample = 0; sample < samples; sample++) {
+                for (let i = 0; i < BIRTHDAYS; i++) birthdays[i] = (reader.next() >>> shift) & 0xFFFFFF;
+                birthdays.sort();
+                spacings[0] = birthdays[0];
+                for (let i = 1; i < BIRTHDAYS; i++) spacings[i] = birthdays[i] - birthdays[i - 1];
+                spacings.sort();
+
+                let duplicates = 0;
+                for (let i = 1; i < BIRTHDAYS; i++) {
+                    if (spacings[i] === spacings[i - 1]) duplicates++;
+                }
+                histogram[Math.min(duplicates, maxCount)]++;
+            }
+
+            subTests.push({ label: bitsLabel(shift, 24), pValue: chiSquareFit(histogram, probabilities).pValue });
+        }
+
+        return this.combinedResult('birthdaySpacings', subTests);
+    }
+
+    /**
+     * Overlapping 5-permutations: counts of the 120 orderings of overlapping 5-tuples,
+     * judged by the weak inverse of their exact covariance matrix
+     */
+    overlappingPermutations(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const windows = this.size(tier, PERMUTATION_WINDOWS, words.length - 4);
+        if (windows === 0) return this.notApplicable('overlappingPermutations');
+
+        const repetitions = tier === 'extended'
+            ? PERMUTATION_REPETITIONS
+            : Math.min(PERMUTATION_REPETITIONS, Math.floor(words.length / (windows + 4)));
+        const { matrix, rank } = getPermutationWeakInverse();
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const counts = new Float64Array(120);
+            const tuple = new Float64Array(5);
+            for (let i = 0; i < 4; i++) tuple[i + 1] = reader.next();
+
+            for (let window = 0; window < windows; window++) {
+                tuple.copyWithin(0, 1);
+                tuple[4] = reader.next();
+                counts[orderingIndex(tuple)]++;
+            }
+
+            const deviations = counts.map(count => (count - windows / 120) / Math.sqrt(windows));
+            let statistic = 0;
+            for (let a = 0; a < 120; a++) {
+                for (let b = 0; b < 120; b++) statistic += deviations[a] * matrix[a * 120 + b] * deviations[b];
+            }
+
+            subTests.push({
+                label: `run ${repetition + 1}`,
+                pValue: StatisticalUtils.upperIncompleteGamma(rank / 2, statistic / 2)
+            });
+        }
+
+        return this.combinedResult('overlappingPermutations', subTests);
+    }
+
+    ranks31x31(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        return this.squareRankTest('ranks31x31', words, tier, 31);
+    }
+
+    ranks32x32(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        return this.squareRankTest('ranks32x32', words, tier, 32);
+    }
+
+    /**
+     * 6x8 binary ranks, for each of the 25 byte positions of a word
+     */
+    ranks6x8(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const matrices = this.size(tier, SMALL_RANK_MATRICES, Math.floor(words.length / (25 * 6)));
+        if (matrices === 0) return this.notApplicable('ranks6x8');
+
+        const probabilities = rankCellProbabilities(6, 8, 4);
+        const reader = this.reader(words, tier);
+        const rows = new Uint32Array(6);
+        const subTests: SubTest[] = [];
+
+        for (let shift = 24; shift >= 0; shift--) {
+            const counts = new Array(probabilities.length).fill(0);
+
+            for (let matrix = 0; matrix < matrices; matrix++) {
+                for (let r = 0; r < 6; r++) rows[r] = (reader.next() >>> shift) & 0xFF;
+                counts[Math.max(0, binaryRank(rows) - 4)]++;
+            }
+
+            subTests.push({ label: bitsLabel(shift, 8), pValue: chiSquareFit(counts, probabilities).pValue });
+        }
+
+        return this.combinedResult('ranks6x8', subTests);
+    }
+
+    /**
+     * OPSO: 10-bit letters from each of the 23 positions, 2-letter words
+     */
+    opso(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        return this.sparseOccupancy('opso', words, tier, 10, 2, 290);
+    }
+
+    /**
+     * OQSO: 5-bit letters from each of the 28 positions, 4-letter words
+     */
+    oqso(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        return this.sparseOccupancy('oqso', words, tier, 5, 4, 295);
+    }
+
+    /**
+     * DNA: 2-bit letters from each of the 31 positions, 10-letter words
+     */
+    dna(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        return this.sparseOccupancy('dna', words, tier, 2, 10, 339);
+    }
+
+    /**
+     * Count the 1s in successive bytes of the stream
+     */
+    countOnesStream(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const windows = this.size(tier, ONES_WINDOWS, words.length * 4 - 4);
+        if (windows === 0) return this.notApplicable('countOnesStream');
+
+        const repetitions = tier === 'extended'
+            ? ONES_STREAM_REPETITIONS
+            : Math.min(ONES_STREAM_REPETITIONS, Math.floor(words.length * 4 / (windows + 4)));
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const letters = new Uint8Array(windows + 4);
+            for (let i = 0; i < letters.length; i += 4) {
+                const word = reader.next();
+                for (let byte = 0; byte < 4 && i + byte < letters.length; byte++) {
+                    letters[i + byte] = onesLetter((word >>> (24 - 8 * byte)) & 0xFF);
+                }
+            }
+            subTests.push({ label: `run ${repetition + 1}`, pValue: onesCountPValue(letters, windows) });
+        }
+
+        return this.combinedResult('countOnesStream', subTests);
+    }
+
+    /**
+     * Count the 1s in one chosen byte of each word, for each of the 25 byte positions
+     */
+    countOnesBytes(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const windows = this.size(tier, ONES_WINDOWS, Math.floor(words.length / 25) - 4);
+        if (windows === 0) return this.notApplicable('countOnesBytes');
+
+        const reader = this.reader(words, tier);
+        const letters = new Uint8Array(windows + 4);
+        const subTests: SubTest[] = [];
+
+        for (let shift = 24; shift >= 0; shift--) {
+            for (let i = 0; i < letters.length; i++) letters[i] = onesLetter((reader.next() >>> shift) & 0xFF);
+            subTests.push({ label: bitsLabel(shift, 8), pValue: onesCountPValue(letters, windows) });
+        }
+
+        return this.combinedResult('countOnesBytes', subTests);
+    }
+
+    /**
+     * Parking lot: unit-square cars parked at random in a 100x100 lot (mean 3523, sd 21.9)
+     */
+    parkingLot(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const repetitions = this.size(tier, { full: PARKING_REPETITIONS, minimum: 1 }, Math.floor(words.length / (2 * PARKING_ATTEMPTS)));
+        if (repetitions === 0) return this.notApplicable('parkingLot');
+
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            // Cars are kept in unit grid cells; a crash can only involve the 3x3 neighbourhood
+            const grid: number[][] = Array.from({ length: 100 * 100 }, () => []);
+            const xs: number[] = [];
+            const ys: number[] = [];
+
+            for (let attempt = 0; attempt < PARKING_ATTEMPTS; attempt++) {
+                const x = 100 * reader.uniform();
+                const y = 100 * reader.uniform();
+                const cellX = Math.floor(x);
+                const cellY = Math.floor(y);
+
+                let crashed = false;
+                for (let gx = Math.max(0, cellX - 1); gx <= Math.min(99, cellX + 1) && !crashed; gx++) {
+                    for (let gy = Math.max(0, cellY - 1); gy <= Math.min(99, cellY + 1) && !crashed; gy++) {
+                        crashed = grid[gx * 100 + gy].some(car => Math.abs(xs[car] - x) <= 1 && Math.abs(ys[car] - y) <= 1);
+                    }
+                }
+
+                if (!crashed) {
+                    grid[cellX * 100 + cellY].push(xs.length);
+                    xs.push(x);
+                    ys.push(y);
+                }
+            }
+
+            subTests.push({ label: `run ${repetition + 1}`, pValue: twoSidedNormalPValue((xs.length - 3523) / 21.9) });
+        }
+
+        return this.combinedResult('parkingLot', subTests);
+    }
+
+    /**
+     * Minimum distance between 8,000 points in a square of side 10,000 (d² ~ exponential, mean 0.995)
+     */
+    minimumDistance(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const repetitions = this.size(tier, { full: DISTANCE_REPETITIONS, minimum: 1 }, Math.floor(words.length / (2 * DISTANCE_POINTS)));
+        if (repetitions === 0) return this.notApplicable('minimumDistance');
+
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const points = Array.from({ length: DISTANCE_POINTS }, () => [10000 * reader.uniform(), 10000 * reader.uniform()]);
+            const distanceSquared = minimumSquaredDistance(points);
+            subTests.push({ label: `run ${repetition + 1}`, pValue: 1 - Math.exp(-distanceSquared / 0.995) });
+        }
+
+        return this.combinedResult('minimumDistance', subTests);
+    }
+
+    /**
+     * Minimum distance between 4,000 points in a cube of side 1,000 (r³ ~ exponential, mean 30)
+     */
+    spheres(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const repetitions = this.size(tier, { full: SPHERE_REPETITIONS, minimum: 1 }, Math.floor(words.length / (3 * SPHERE_POINTS)));
+        if (repetitions === 0) return this.notApplicable('spheres');
+
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const points = Array.from({ length: SPHERE_POINTS }, () =>
+                [1000 * reader.uniform(), 1000 * reader.uniform(), 1000 * reader.uniform()]
+            );
+            const radiusCubed = Math.pow(minimumSquaredDistance(points), 1.5);
+            subTests.push({ label: `run ${repetition + 1}`, pValue: 1 - Math.exp(-radiusCubed / 30) });
+        }
+
+        return this.combinedResult('spheres', subTests);
+    }
+
+    /**
+     * Squeeze: iterations of k = ceiling(k * U) from 2^31 - 1 down to 1, counted 6 to 48
+     */
+    squeeze(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const reader = this.reader(words, tier);
+        const limit = tier === 'extended' ? SQUEEZE_REPETITIONS.full : Math.min(SQUEEZE_REPETITIONS.full, words.length);
+        const counts = new Array(SQUEEZE_MAX_ITERATIONS - SQUEEZE_MIN_ITERATIONS + 1).fill(0);
+
+        let repetitions = 0;
+        while (repetitions < limit && reader.remaining >= SQUEEZE_MAX_ITERATIONS) {
+            let k = SQUEEZE_START;
+            let iterations = 0;
+            while (k !== 1 && iterations < SQUEEZE_MAX_ITERATIONS) {
+                k = Math.ceil(k * reader.uniform());
+                iterations++;
+            }
+            counts[Math.max(iterations, SQUEEZE_MIN_ITERATIONS) - SQUEEZE_MIN_ITERATIONS]++;
+            repetitions++;
+        }
+        if (repetitions < SQUEEZE_REPETITIONS.minimum) return this.notApplicable('squeeze');
+
+        const fit = chiSquareFit(counts, getSqueezeProbabilities());
+        return this.result('squeeze', fit.pValue, fit.statistic);
+    }
+
+    /**
+     * Overlapping sums of 100 uniforms, turned into independent normals through the
+     * Cholesky factor of their covariance and tested for normality
+     */
+    overlappingSums(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const wordsPerRepetition = 2 * SUM_LENGTH - 1;
+        const repetitions = this.size(tier, { full: SUM_REPETITIONS, minimum: 1 }, Math.floor(words.length / wordsPerRepetition));
+        if (repetitions === 0) return this.notApplicable('overlappingSums');
+
+        // Cov(S_i, S_j) = (100 - |i - j|) / 12
+        const cholesky = choleskyFactor(SUM_LENGTH, (i, j) => (SUM_LENGTH - Math.abs(i - j)) / 12);
+        const reader = this.reader(words, tier);
+        const subTests: SubTest[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const uniforms = Array.from({ length: wordsPerRepetition }, () => reader.uniform());
+            const sums = new Float64Array(SUM_LENGTH);
+            let sum = uniforms.slice(0, SUM_LENGTH).reduce((total, u) => total + u, 0);
+            for (let i = 0; i < SUM_LENGTH; i++) {
+                sums[i] = sum - SUM_LENGTH / 2;
+                if (i + SUM_LENGTH < uniforms.length) sum += uniforms[i + SUM_LENGTH] - uniforms[i];
+            }
+
+            // Forward substitution: L z = S
+            const normals = new Float64Array(SUM_LENGTH);
+            for (let i = 0; i < SUM_LENGTH; i++) {
+                let value = sums[i];
+                for (let j = 0; j < i; j++) value -= cholesky[i * SUM_LENGTH + j] * normals[j];
+                normals[i] = value / cholesky[i * SUM_LENGTH + i];
+            }
+
+            const { pValue } = StatisticalUtils.kolmogorovSmirnovUniform(
+                Array.from(normals, z => StatisticalUtils.normalCdf(z))
+            );
+            subTests.push({ label: `run ${repetition + 1}`, pValue });
+        }
+
+        return this.combinedResult('overlappingSums', subTests);
+    }
+
+    /**
+     * Runs up and runs down among 10,000 uniforms
+     */
+    runs(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const repetitions = this.size(tier, { full: RUNS_REPETITIONS, minimum: 1 }, Math.floor(words.length / RUNS_LENGTH));
+        if (repetitions === 0) return this.notApplicable('runs');
+
+        const reader = this.reader(words, tier);
+        const up: number[] = [];
+        const down: number[] = [];
+
+        for (let repetition = 0; repetition < repetitions; repetition++) {
+            const values = Array.from({ length: RUNS_LENGTH }, () => reader.uniform());
+            up.push(runsPValue(values, 1));
+            down.push(runsPValue(values, -1));
+        }
+
+        return this.combinedResult('runs', [...up, ...down].map((pValue, i) => ({
+            label: `${i < repetitions ? 'up' : 'down'} ${(i % repetitions) + 1}`,
+            pValue
+        })));
+    }
+
+    /**
+     * Craps: number of wins (p = 244/495) and the distribution of throws per game
+     */
+    craps(words: Uint32Array, tier: DiehardTier = 'standard'): TestResult {
+        const reader = this.reader(words, tier);
+        const throwCounts = new Array(21).fill(0);
+        const roll = () => Math.floor(6 * reader.uniform()) + Math.floor(6 * reader.uniform()) + 2;
+
+        let games = 0;
+        let wins = 0;
+        while (games < CRAPS_GAMES.full) {
+            // A game rarely runs past a few dozen throws - stop while a whole one still fits
+            if (reader.remaining < 200) break;
+
+            let throws = 1;
+            const first = roll();
+            let won = first === 7 || first === 11;
+            if (first !== 7 && first !== 11 && first !== 2 && first !== 3 && first !== 12) {
+                for (;;) {
+                    const next = roll();
+                    throws++;
+                    if (next === first) {
+                        won = true;
+                        break;
+                    }
+                    if (next === 7) break;
+                }
+            }
+
+            if (won) wins++;
+            throwCounts[Math.min(throws, 21) - 1]++;
+            games++;
+        }
+        if (games < CRAPS_GAMES.minimum) return this.notApplicable('craps');
+
+        const winProbability = 244 / 495;
+        const z = (wins - games * winProbability) / Math.sqrt(games * winProbability * (1 - winProbability));
+
+        return this.combinedResult('craps', [
+            { label: 'wins', pValue: twoSidedNormalPValue(z) },
+            { label: 'throws', pValue: chiSquareFit(throwCounts, crapsThrowProbabilities()).pValue }
+        ]);
+    }
+
+    // Private methods
+
+    private squareRankTest(testId: DiehardTestId, words: Uint32Array, tier: DiehardTier, size: number): TestResult {
+        const matrices = this.size(tier, RANK_MATRICES, Math.floor(words.length / size));
+        if (matrices === 0) return this.notApplicable(testId);
+
+        const lowest = size - 3;
+        const probabilities = rankCellProbabilities(size, size, lowest);
+        const reader = this.reader(words, tier);
+        const rows = new Uint32Array(size);
+        const counts = new Array(probabilities.length).fill(0);
+
+        for (let matrix = 0; matrix < matrices; matrix++) {
+            for (let r = 0; r < size; r++) rows[r] = reader.next() >>> (32 - size);
+            counts[Math.max(0, binaryRank(rows) - lowest)]++;
+        }
+
+        const fit = chiSquareFit(counts, probabilities);
+        return this.result(testId, fit.pValue, fit.statistic);
+    }
+
+    /**
+     * Missing words among 2^21 overlapping words of 2^20 possible (expected 141,909),
+     * for each position of the letter within a word
+     */
+    private sparseOccupancy(
+        testId: DiehardTestId,
+        words: Uint32Array,
+        tier: DiehardTier,
+        letterBits: number,
+        wordLetters: number,
+        sigma: number
+    ): TestResult {
+        const keystrokes = SPARSE_OCCUPANCY_WORDS + wordLetters - 1;
+        const positions = 33 - letterBits;
+        if (tier === 'standard' && words.length < positions * keystrokes) return this.notApplicable(testId);
+
+        const reader = this.reader(words, tier);
+        const letterMask = (1 << letterBits) - 1;
+        const wordMask = (1 << 20) - 1;
+        const seen = new Uint8Array(1 << 20);
+        const subTests: SubTest[] = [];
+
+        for (let shift = 32 - letterBits; shift >= 0; shift--) {
+            seen.fill(0);
+
+            let index = 0;
+            for (let i = 0; i < keystrokes; i++) {
+                index = ((index << letterBits) | ((reader.next() >>> shift) & letterMask)) & wordMask;
+                if (i >= wordLetters - 1) seen[index] = 1;
+            }
+
+            let missing = 0;
+            for (let i = 0; i < seen.length; i++) {
+                if (seen[i] === 0) missing++;
+            }
+
+            subTests.push({
+                label: bitsLabel(shift, letterBits),
+                pValue: twoSidedNormalPValue((missing - SPARSE_OCCUPANCY_MEAN) / sigma)
+            });
+        }
+
+        return this.combinedResult(testId, subTests);
+    }
+
+    /**
+     * Marsaglia's size in the extended tier; otherwise as much as the data allows,
+     * or 0 when that is below the test's minimum
+     */
+    private size(tier: DiehardTier, sizes: { full: number; minimum: number }, available: number): number {
+        if (tier === 'extended') return sizes.full;
+        const size = Math.min(sizes.full, available);
+        return size >= sizes.minimum ? size : 0;
+    }
+
+    private reader(words: Uint32Array, tier: DiehardTier): WordReader {
+        return new WordReader(words, tier === 'extended');
+    }
+
+    private result(testId: DiehardTestId, pValue: number, statistic?: number): TestResult {
+        return {
+            ...TEST_INFO[testId],
+            pValue,
+            passed: pValue >= this.params.alpha,
+            threshold: this.params.alpha,
+            statistic
+        };
+    }
+
+    /**
+     * Result for tests that repeat: each p-value is kept in subTests and the headline
+     * p-value is their KS uniformity p-value (Bonferroni minimum for very few)
+     */
+    private combinedResult(testId: DiehardTestId, subTests: SubTest[]): TestResult {
+        const pValues = subTests.map(subTest => subTest.pValue);
+        let pValue: number;
+        let statistic: number | undefined;
+
+        if (pValues.length >= MIN_KS_P_VALUES) {
+            ({ pValue, statistic } = StatisticalUtils.kolmogorovSmirnovUniform(pValues));
+        } else {
+            pValue = Math.min(1, Math.min(...pValues) * pValues.length);
+        }
+
+        return {
+            ...this.result(testId, pValue, statistic),
+            subTests: subTests.map(subTest => ({ ...subTest, passed: subTest.pValue >= this.params.alpha }))
+        };
+    }
+
+    private notApplicable(testId: DiehardTestId): TestResult {
+        return {
+            ...TEST_INFO[testId],
+            pValue: NaN,
+            passed: false,
+            threshold: this.params.alpha,
+            applicable: false
+        };
+    }
+}
+
+/**
+ * Sequential reader over the word sample; the extended tier wraps around to the start
+ */
+class WordReader {
+    private position = 0;
+
+    constructor(private readonly words: Uint32Array, private readonly wrap: boolean) {}
+
+    get remaining(): number {
+        return this.wrap ? Infinity : this.words.length - this.position;
+    }
+
+    next(): number {
+        if (this.position === this.words.length) {
+            if (!this.wrap) throw new Error('Diehard sample exhausted');
+            this.position = 0;
+        }
+        return this.words[this.position++];
+    }
+
+    /**
+     * Uniform on (0, 1) - never exactly 0, which would break ceiling(k * U) and logarithms
+     */
+    uniform(): number {
+        return (this.next() + 0.5) / 4294967296;
+    }
+}
+
+/**
+ * Pack bits into 32-bit words, most significant bit first (trailing bits are dropped)
+ */
+export function packWords(bits: ArrayLike<number>): Uint32Array {
+    const words = new Uint32Array(Math.floor(bits.length / 32));
+    for (let w = 0; w < words.length; w++) {
+        let word = 0;
+        for (let b = 0; b < 32; b++) word = (word << 1) | (bits[w * 32 + b] & 1);
+        words[w] = word >>> 0;
+    }
+    return words;
+}
+
+/**
+ * Big-endian 32-bit words from raw bytes, as Diehard reads its binary test file
+ */
+export function bytesToWords(bytes: Uint8Array): Uint32Array {
+    const words = new Uint32Array(Math.floor(bytes.length / 4));
+    for (let w = 0; w < words.length; w++) {
+        words[w] = ((bytes[4 * w] << 24) | (bytes[4 * w + 1] << 16) | (bytes[4 * w + 2] << 8) | bytes[4 * w + 3]) >>> 0;
+    }
+    return words;
+}
+
+/**
+ * Diehard numbers bits 1-32 from the left
+ */
+function bitsLabel(shift: number, width: number): string {
+    return `bits ${33 - shift - width}-${32 - shift}`;
+}
+
+function twoSidedNormalPValue(z: number): number {
+    return StatisticalUtils.upperIncompleteGamma(0.5, z * z / 2);
+}
+
+/**
+ * Pearson chi-square against cell probabilities, pooling neighbouring cells
+ * until each expects at least MIN_EXPECTED_COUNT
+ */
+function chiSquareFit(counts: number[], probabilities: number[]): { statistic: number; pValue: number } {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const cells: Array<{ observed: number; expected: number }> = [];
+    let pending = { observed: 0, expected: 0 };
+
+    counts.forEach((count, i) => {
+        pending = { observed: pending.observed + count, expected: pending.expected + total * probabilities[i] };
+        if (pending.expected >= MIN_EXPECTED_COUNT) {
+            cells.push(pending);
+            pending = { observed: 0, expected: 0 };
+        }
+    });
+    if (cells.length === 0) return { statistic: NaN, pValue: NaN };
+
+    // A thin tail joins the last full cell
+    const last = cells[cells.length - 1];
+    last.observed += pending.observed;
+    last.expected += pending.expected;
+
+    const statistic = cells.reduce((sum, cell) => sum + Math.pow(cell.observed - cell.expected, 2) / cell.expected, 0);
+    const degreesOfFreedom = cells.length - 1;
+    if (degreesOfFreedom < 1) return { statistic, pValue: NaN };
+
+    return { statistic, pValue: StatisticalUtils.upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2) };
+}
+
+/**
+ * Probability that a random rows x cols binary matrix has the given rank
+ */
+function rankProbability(rows: number, cols: number, rank: number): number {
+    let product = 1;
+    for (let i = 0; i < rank; i++) {
+        product *= (1 - Math.pow(2, i - rows)) * (1 - Math.pow(2, i - cols)) / (1 - Math.pow(2, i - rank));
+    }
+    return Math.pow(2, rank * (rows + cols - rank) - rows * cols) * product;
+}
+
+/**
+ * Cell probabilities for ranks `lowest` or less, lowest + 1, ..., full rank
+ */
+function rankCellProbabilities(rows: number, cols: number, lowest: number): number[] {
+    const fullRank = Math.min(rows, cols);
+    const cells: number[] = [];
+    for (let rank = lowest + 1; rank <= fullRank; rank++) cells.push(rankProbability(rows, cols, rank));
+    return [1 - cells.reduce((sum, p) => sum + p, 0), ...cells];
+}
+
+/**
+ * Index 0-119 of the ordering of five values (Lehmer code)
+ */
+function orderingIndex(values: Float64Array): number {
+    let index = 0;
+    for (let i = 0; i < 5; i++) {
+        let smaller = 0;
+        for (let j = i + 1; j < 5; j++) {
+            if (values[j] < values[i]) smaller++;
+        }
+        index = index * (5 - i) + smaller;
+    }
+    return index;
+}
+
+/**
+ * Weak (pseudo) inverse of the covariance of the 120 ordering counts, per window
+ * The joint probabilities of windows d = 1..4 apart are enumerated over all (5 + d)!
+ * orderings; the matrix has rank 96.
+ */
+function getPermutationWeakInverse(): { matrix: Float64Array; rank: number } {
+    if (permutationWeakInverse) return permutationWeakInverse;
+
+    const cells = 120;
+    const p = 1 / cells;
+    const covariance = new Float64Array(cells * cells);
+    for (let a = 0; a < cells; a++) {
+        covariance[a * cells + a] += p;
+        for (let b = 0; b < cells; b++) covariance[a * cells + b] -= p * p;
+    }
+
+    const window = new Float64Array(5);
+    for (let d = 1; d <= 4; d++) {
+        const n = 5 + d;
+        const joint = new Float64Array(cells * cells);
+        let total = 0;
+        const visit = (order: number[]) => {
+            for (let i = 0; i < 5; i++) window[i] = order[i];
+            const first = orderingIndex(window);
+            for (let i = 0; i < 5; i++) window[i] = order[d + i];
+            joint[first * cells + orderingIndex(window)]++;
+            total++;
+        };
+        forEachPermutation(n, visit);
+
+        for (let a = 0; a < cells; a++) {
+            for (let b = 0; b < cells; b++) {
+                covariance[a * cells + b] += (joint[a * cells + b] + joint[b * cells + a]) / total - 2 * p * p;
+            }
+        }
+    }
+
+    const { values, vectors } = symmetricEigen(covariance, cells);
+    const largest = Math.max(...values);
+    const matrix = new Float64Array(cells * cells);
+    let rank = 0;
+    values.forEach((value, k) => {
+        if (value <= largest * 1e-9) return;
+        rank++;
+        for (let a = 0; a < cells; a++) {
+            for (let b = 0; b < cells; b++) matrix[a * cells + b] += vectors[a * cells + k] * vectors[b * cells + k] / value;
+        }
+    });
+
+    permutationWeakInverse = { matrix, rank };
+    return permutationWeakInverse;
+}
+
+/**
+ * Visit every permutation of 0..n-1 (Heap's algorithm)
+ */
+function forEachPermutation(n: number, visit: (order: number[]) => void): void {
+    const order = Array.from({ length: n }, (_, i) => i);
+    const counters = new Array(n).fill(0);
+    visit(order);
+
+    let i = 0;
+    while (i < n) {
+        if (counters[i] < i) {
+            const k = i % 2 === 0 ? 0 : counters[i];
+            [order[k], order[i]] = [order[i], order[k]];
+            visit(order);
+            counters[i]++;
+            i = 0;
+        } else {
+            counters[i] = 0;
+            i++;
+        }
+    }
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations
+ * (eigenvectors are the columns of `vectors`)
+ */
+function symmetricEigen(input: Float64Array, n: number): { values: number[]; vectors: Float64Array } {
+    const A = Float64Array.from(input);
+    const V = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) V[i * n + i] = 1;
+
+    for (let sweep = 0; sweep < 100; sweep++) {
+        let offDiagonal = 0;
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) offDiagonal += A[i * n + j] * A[i * n + j];
+        }
+        if (offDiagonal < 1e-22) break;
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                const apq = A[p * n + q];
+                if (Math.abs(apq) < 1e-300) continue;
+
+                const theta = (A[q * n + q] - A[p * n + p]) / (2 * apq);
+                const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < n; k++) {
+                    const akp = A[k * n + p];
+                    const akq = A[k * n + q];
+                    A[k * n + p] = c * akp - s * akq;
+                    A[k * n + q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = A[p * n + k];
+                    const aqk = A[q * n + k];
+                    A[p * n + k] = c * apk - s * aqk;
+                    A[q * n + k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = V[k * n + p];
+                    const vkq = V[k * n + q];
+                    V[k * n + p] = c * vkp - s * vkq;
+                    V[k * n + q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    return { values: Array.from({ length: n }, (_, i) => A[i * n + i]), vectors: V };
+}
+
+function onesLetter(byte: number): number {
+    let ones = 0;
+    for (let b = byte; b; b &= b - 1) ones++;
+    return Math.min(4, Math.max(0, ones - 2));
+}
+
+/**
+ * Q5 - Q4 for overlapping 5- and 4-letter words of byte weights (~ chi-square, 2500 df)
+ */
+function onesCountPValue(letters: Uint8Array, windows: number): number {
+    const counts5 = new Float64Array(3125);
+    const counts4 = new Float64Array(625);
+    for (let i = 0; i < windows; i++) {
+        let index = 0;
+        for (let j = 0; j < 4; j++) index = index * 5 + letters[i + j];
+        counts4[index]++;
+        counts5[index * 5 + letters[i + 4]]++;
+    }
+
+    const quadratic = (counts: Float64Array, length: number) => {
+        let q = 0;
+        for (let index = 0; index < counts.length; index++) {
+            let probability = 1;
+            for (let j = 0, rest = index; j < length; j++, rest = Math.floor(rest / 5)) {
+                probability *= ONES_LETTER_PROBABILITIES[rest % 5];
+            }
+            const expected = windows * probability;
+            q += Math.pow(counts[index] - expected, 2) / expected;
+        }
+        return q;
+    };
+
+    const z = (quadratic(counts5, 5) - quadratic(counts4, 4) - 2500) / Math.sqrt(5000);
+    return twoSidedNormalPValue(z);
+}
+
+/**
+ * Smallest squared distance between points, sweeping in order of the first coordinate
+ */
+function minimumSquaredDistance(points: number[][]): number {
+    points.sort((a, b) => a[0] - b[0]);
+
+    let best = Infinity;
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            const dx = points[j][0] - points[i][0];
+            if (dx * dx >= best) break;
+
+            let distance = 0;
+            for (let k = 0; k < points[i].length; k++) distance += Math.pow(points[j][k] - points[i][k], 2);
+            if (distance < best) best = distance;
+        }
+    }
+    return best;
+}
+
+/**
+ * Lower-triangular Cholesky factor of an n x n covariance matrix
+ */
+function choleskyFactor(n: number, covariance: (i: number, j: number) => number): Float64Array {
+    const L = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = covariance(i, j);
+            for (let k = 0; k < j; k++) sum -= L[i * n + k] * L[j * n + k];
+            L[i * n + j] = i === j ? Math.sqrt(sum) : sum / L[j * n + j];
+        }
+    }
+    return L;
+}
+
+/**
+ * Knuth's runs statistic for runs up (direction 1) or down (-1), ~ chi-square with 6 df
+ */
+function runsPValue(values: number[], direction: 1 | -1): number {
+    const n = values.length;
+    const counts = new Array(6).fill(0);
+    let length = 1;
+    for (let i = 1; i < n; i++) {
+        if ((values[i] - values[i - 1]) * direction > 0) {
+            length++;
+        } else {
+            counts[Math.min(length, 6) - 1]++;
+            length = 1;
+        }
+    }
+    counts[Math.min(length, 6) - 1]++;
+
+    let statistic = 0;
+    for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < 6; j++) {
+            statistic += (counts[i] - n * RUNS_EXPECTED[i]) * (counts[j] - n * RUNS_EXPECTED[j]) * RUNS_COVARIANCE[i][j];
+        }
+    }
+    return StatisticalUtils.upperIncompleteGamma(3, statistic / (n - 6) / 2);
+}
+
+/**
+ * Distribution of squeeze iterations, cells 6 or fewer, 7, ..., 47, 48 or more
+ * Each step moves k to a uniform value in 1..k, so the iteration counts follow
+ * g_j(k) = (1/k) Σ_{i <= k} g_{j-1}(i); this is exact up to 2^16 and integrated
+ * on a logarithmic grid above.
+ */
+function getSqueezeProbabilities(): number[] {
+    if (squeezeProbabilities) return squeezeProbabilities;
+
+    const exactLimit = 1 << 16;
+    const logLimit = Math.log(exactLimit);
+    const steps = Math.ceil((Math.log(SQUEEZE_START) - logLimit) / 0.002);
+    const h = (Math.log(SQUEEZE_START) - logLimit) / steps;
+
+    let exact = new Float64Array(exactLimit + 1);
+    exact[1] = 1;
+    let grid = new Float64Array(steps + 1);
+    const byIterations: number[] = [0];
+
+    for (let j = 1; j < SQUEEZE_MAX_ITERATIONS; j++) {
+        const nextExact = new Float64Array(exactLimit + 1);
+        let cumulative = exact[1];
+        for (let k = 2; k <= exactLimit; k++) {
+            cumulative += exact[k];
+            nextExact[k] = cumulative / k;
+        }
+
+        // Σ_{limit < i <= k} g(i) ≈ ∫ g from limit + 1/2 to k + 1/2
+        const nextGrid = new Float64Array(steps + 1);
+        nextGrid[0] = nextExact[exactLimit];
+        let integral = 0;
+        const density = (m: number) => grid[m] * Math.exp(logLimit + m * h);
+        for (let m = 1; m <= steps; m++) {
+            integral += h * (density(m - 1) + density(m)) / 2;
+            nextGrid[m] = (cumulative + integral + (grid[m] - grid[0]) / 2) / Math.exp(logLimit + m * h);
+        }
+
+        exact = nextExact;
+        grid = nextGrid;
+        byIterations.push(grid[steps]);
+    }
+
+    const cells = [byIterations.slice(0, SQUEEZE_MIN_ITERATIONS + 1).reduce((sum, p) => sum + p, 0)];
+    for (let j = SQUEEZE_MIN_ITERATIONS + 1; j < SQUEEZE_MAX_ITERATIONS; j++) cells.push(byIterations[j]);
+    cells.push(Math.max(0, 1 - cells.reduce((sum, p) => sum + p, 0)));
+
+    squeezeProbabilities = cells;
+    return cells;
+}
+
+/**
+ * Probability of a craps game lasting 1, 2, ..., 20 and 21 or more throws
+ */
+function crapsThrowProbabilities(): number[] {
+    // Ways to roll each point, and the chance per throw of ending the game once it is set
+    const points = [3, 4, 5, 5, 4, 3];
+    const probabilities = [12 / 36];
+    for (let throws = 2; throws <= 20; throws++) {
+        probabilities.push(points.reduce((sum, ways) => {
+            const ending = (ways + 6) / 36;
+            return sum + (ways / 36) * Math.pow(1 - ending, throws - 2) * ending;
+        }, 0));
+    }
+    probabilities.push(1 - probabilities.reduce((sum, p) => sum + p, 0));
+    return probabilities;
+}
@@ -0,0 +1,1090 @@
+/**
+ * NIST SP 800-22 Rev. 1a Statistical Test Suite
+ *
+ * The 15 tests from "A Statistical Test Suite for Random and Pseudorandom
+ * Number Generators for Cryptographic Applications", following the NIST
+ * reference implementation (sts-2.1.2) so results can be checked against the
+ * published e / pi / sqrt(2) examples, plus the second-level analysis NIST uses
+ * to judge a generator from many sequences: the proportion of sequences
+ * passing each test and the uniformity of their p-values.
+ */
+
+import { StatisticalUtils } from '../../core/statistical-utils';
+import type { TestResult } from './RandomnessValidator';
+
+export interface NISTTestParameters {
+    /** Block length M for the block frequency test (default 128) */
+    blockFrequencyBlockLength: number;
+
+    /** Template length m for the non-overlapping template test (default 9) */
+    nonOverlappingTemplateLength: number;
+
+    /** Template length m for the overlapping template test (default 9) */
+    overlappingTemplateLength: number;
+
+    /** Block length m for the approximate entropy test (default 10) */
+    approximateEntropyBlockLength: number;
+
+    /** Block length m for the serial test (default 16) */
+    serialBlockLength: number;
+
+    /** Block length M for the linear complexity test (default 500) */
+    linearComplexityBlockLength: number;
+
+    /** Significance level for individual sequences (default 0.01) */
+    alpha: number;
+}
+
+export const DEFAULT_NIST_PARAMETERS: NISTTestParameters = {
+    blockFrequencyBlockLength: 128,
+    nonOverlappingTemplateLength: 9,
+    overlappingTemplateLength: 9,
+    approximateEntropyBlockLength: 10,
+    serialBlockLength: 16,
+    linearComplexityBlockLength: 500,
+    alpha: 0.01
+};
+
+export const NIST_TEST_IDS = [
+    'frequency',
+    'blockFrequency',
+    'runs',
+    'longestRun',
+    'rank',
+    'dft',
+    'nonOverlappingTemplate',
+    'overlappingTemplate',
+    'universal',
+    'approximateEntropy',
+    'randomExcursions',
+    'randomExcursionsVariant',
+    'serial',
+    'linearComplexity',
+    'cumulativeSums'
+] as const;
+
+export type NISTTestId = typeof NIST_TEST_IDS[number];
+
+/**
+ * Second-level result for one p-value stream (a test, or one state/template of it)
+ */
+export interface NISTSecondLevelResult {
+    testId: NISTTestId;
+    name: string;
+    sequences: number;
+    passedSequences: number;
+    proportion: number;
+    proportionRange: { min: number; max: number };
+    proportionPassed: boolean;
+    histogram: number[];
+    uniformityPValue: number | null;
+    uniformityPassed: boolean;
+}
+
+export interface NISTSecondLevelReport {
+    sequenceLength: number;
+    sequenceCount: number;
+    results: NISTSecondLevelResult[];
+    overallPassed: boolean;
+}
+
+const TEST_INFO: Record<NISTTestId, { name: string; description: string }> = {
+    frequency: { name: 'Frequency (Monobit)', description: 'Tests the proportion of ones and zeros' },
+    blockFrequency: { name: 'Block Frequency', description: 'Tests the proportion of ones in M-bit blocks' },
+    runs: { name: 'Runs', description: 'Tests the total number of runs' },
+    longestRun: { name: 'Longest Run', description: 'Tests the longest run of ones in a block' },
+    rank: { name: 'Binary Matrix Rank', description: 'Tests for linear dependence among fixed length substrings' },
+    dft: { name: 'Discrete Fourier Transform', description: 'Tests for periodic features' },
+    nonOverlappingTemplate: {
+        name: 'Non-overlapping Template Matching',
+        description: 'Tests for too many occurrences of non-periodic templates'
+    },
+    overlappingTemplate: {
+        name: 'Overlapping Template Matching',
+        description: 'Tests for too many occurrences of pre-specified target strings'
+    },
+    universal: { name: 'Maurer Universal Statistical', description: 'Tests whether the sequence can be significantly compressed' },
+    approximateEntropy: { name: 'Approximate Entropy', description: 'Tests for regularity of patterns' },
+    randomExcursions: { name: 'Random Excursions', description: 'Tests for cycles in random walks' },
+    randomExcursionsVariant: { name: 'Random Excursions Variant', description: 'Tests for random walks with specific states' },
+    serial: { name: 'Serial', description: 'Tests for frequency of all possible overlapping m-length patterns' },
+    linearComplexity: { name: 'Linear Complexity', description: 'Tests for the length of the shortest LFSR' },
+    cumulativeSums: { name: 'Cumulative Sums', description: 'Tests for bias in cumulative sums' }
+};
+
+// Longest run of ones: block length, run-length classes and class probabilities (SP 800-22 section 3.4)
+const LONGEST_RUN_TABLES = [
+    { minLength: 128, blockLength: 8, classes: [1, 2, 3, 4], pi: [0.21484375, 0.3671875, 0.23046875, 0.1875] },
+    {
+        minLength: 6272,
+        blockLength: 128,
+        classes: [4, 5, 6, 7, 8, 9],
+        pi: [0.1174035788, 0.242955959, 0.249363483, 0.17517706, 0.102701071, 0.112398847]
+    },
+    {
+        minLength: 750000,
+        blockLength: 10000,
+        classes: [10, 11, 12, 13, 14, 15, 16],
+        pi: [0.0882, 0.2092, 0.2483, 0.1933, 0.1208, 0.0675, 0.0727]
+    }
+];
+
+// Maurer's universal test: minimum length per block length L, expected value and variance (L = 6..16)
+const UNIVERSAL_MIN_LENGTHS = [
+    387840, 904960, 2068480, 4654080, 10342400, 22753280,
+    49643520, 107560960, 231669760, 496435200, 1059061760
+];
+const UNIVERSAL_EXPECTED = [
+    5.2177052, 6.1962507, 7.1836656, 8.1764248, 9.1723243, 10.170032,
+    11.168765, 12.168070, 13.167693, 14.167488, 15.167379
+];
+const UNIVERSAL_VARIANCE = [2.954, 3.125, 3.238, 3.311, 3.356, 3.384, 3.401, 3.410, 3.416, 3.419, 3.421];
+
+// Linear complexity class probabilities - sts-2.1.2 uses 0.01047 for the first class
+// (the spec text gives 0.010417) and the published reference p-values follow the code
+const LINEAR_COMPLEXITY_PI = [0.01047, 0.03125, 0.125, 0.5, 0.25, 0.0625, 0.020833];
+
+const OVERLAPPING_BLOCK_LENGTH = 1032;
+const OVERLAPPING_CLASSES = 5;
+const NON_OVERLAPPING_BLOCKS = 8;
+const RANK_MATRIX_SIZE = 32;
+const EXCURSION_STATES = [-4, -3, -2, -1, 1, 2, 3, 4];
+const EXCURSION_VARIANT_STATES = [-9, -8, -7, -6, -5, -4, -3, -2, -1, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// NIST recommends at least 55 sequences before judging p-value uniformity
+const MIN_UNIFORMITY_SEQUENCES = 55;
+const UNIFORMITY_ALPHA = 0.0001;
+
+type BitSequence = ArrayLike<number>;
+
+export class NISTTestSuite {
+    private readonly params: NISTTestParameters;
+    private readonly templateCache = new Map<number, number[]>();
+
+    constructor(params: Partial<NISTTestParameters> = {}) {
+        this.params = { ...DEFAULT_NIST_PARAMETERS, ...params };
+    }
+
+    /**
+     * Run all 15 tests on one sequence of bits
+     */
+    runAll(data: BitSequence): Map<NISTTestId, TestResult> {
+        const bits = toBits(data);
+        const results = new Map<NISTTestId, TestResult>();
+
+        results.set('frequency', this.frequency(bits));
+        results.set('blockFrequency', this.blockFrequency(bits));
+        results.set('runs', this.runs(bits));
+        results.set('longestRun', this.longestRun(bits));
+        results.set('rank', this.rank(bits));
+        results.set('dft', this.discreteFourierTransform(bits));
+        results.set('nonOverlappingTemplate', this.nonOverlappingTemplate(bits));
+        results.set('overlappingTemplate', this.overlappingTemplate(bits));
+        results.set('universal', this.universal(bits));
+        results.set('approximateEntropy', this.approximateEntropy(bits));
+        results.set('randomExcursions', this.randomExcursions(bits));
+        results.set('randomExcursionsVariant', this.randomExcursionsVariant(bits));
+        results.set('serial', this.serial(bits));
+        results.set('linearComplexity', this.linearComplexity(bits));
+        results.set('cumulativeSums', this.cumulativeSums(bits));
+
+        return results;
+    }
+
+    /**
+     * Second-level analysis: split the bits into sequences, run every test on
+     * each and check the pass proportion and p-value uniformity per test
+     */
+    analyzeSequences(data: BitSequence, sequenceLength: number): NISTSecondLevelReport {
+        const bits = toBits(data);
+        const sequenceCount = Math.floor(bits.length / sequenceLength);
+        if (sequenceLength <= 0 || sequenceCount === 0) {
+            throw new Error(`Second-level analysis needs at least one sequence of ${sequenceLength} bits, got ${bits.length}`);
+        }
+
+        // One p-value stream per test, or per state/template for tests that report several
+        const streams = new Map<string, { testId: NISTTestId; name: string; pValues: number[] }>();
+        const record = (testId: NISTTestId, name: string, pValue: number) => {
+            let stream = streams.get(name);
+            if (!stream) {
+                stream = { testId, name, pValues: [] };
+                streams.set(name, stream);
+            }
+            stream.pValues.push(pValue);
+        };
+
+        for (let i = 0; i < sequenceCount; i++) {
+            const sequence = bits.subarray(i * sequenceLength, (i + 1) * sequenceLength);
+
+            for (const [testId, result] of this.runAll(sequence)) {
+                if (result.applicable === false) continue;
+
+                if (result.subTests) {
+                    result.subTests.forEach(subTest => record(testId, `${result.name} [${subTest.label}]`, subTest.pValue));
+                } else {
+                    record(testId, result.name, result.pValue);
+                }
+            }
+        }
+
+        const results = Array.from(streams.values()).map(stream => this.secondLevel(stream.testId, stream.name, stream.pValues));
+
+        return {
+            sequenceLength,
+            sequenceCount,
+            results,
+            overallPassed: results.every(result => result.proportionPassed && result.uniformityPassed)
+        };
+    }
+
+    // Individual tests
+
+    /**
+     * 2.1 Frequency (monobit) test
+     */
+    frequency(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+        if (n < 100) return this.notApplicable('frequency');
+
+        let sum = 0;
+        for (let i = 0; i < n; i++) sum += 2 * bits[i] - 1;
+
+        return this.result('frequency', erfc(Math.abs(sum) / Math.sqrt(2 * n)), Math.abs(sum));
+    }
+
+    /**
+     * 2.2 Frequency test within a block
+     */
+    blockFrequency(data: BitSequence, blockLength: number = this.params.blockFrequencyBlockLength): TestResult {
+        const bits = toBits(data);
+        const blocks = Math.floor(bits.length / blockLength);
+        if (bits.length < 100 || blocks === 0) return this.notApplicable('blockFrequency');
+
+        let chiSquared = 0;
+        for (let i = 0; i < blocks; i++) {
+            let ones = 0;
+            for (let j = 0; j < blockLength; j++) ones += bits[i * blockLength + j];
+            chiSquared += Math.pow(ones / blockLength - 0.5, 2);
+        }
+        chiSquared *= 4 * blockLength;
+
+        return this.result('blockFrequency', igamc(blocks / 2, chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.3 Runs test
+     */
+    runs(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+        if (n < 100) return this.notApplicable('runs');
+
+        let ones = 0;
+        for (let i = 0; i < n; i++) ones += bits[i];
+        const pi = ones / n;
+
+        // Frequency prerequisite - the runs test is meaningless on a biased sequence
+        if (Math.abs(pi - 0.5) > 2 / Math.sqrt(n)) {
+            return this.result('runs', 0);
+        }
+
+        let runs = 1;
+        for (let i = 1; i < n; i++) {
+            if (bits[i] !== bits[i - 1]) runs++;
+        }
+
+        const expected = 2 * n * pi * (1 - pi);
+        const pValue = erfc(Math.abs(runs - expected) / (2 * Math.sqrt(2 * n) * pi * (1 - pi)));
+
+        return this.result('runs', pValue, runs);
+    }
+
+    /**
+     * 2.4 Test for the longest run of ones in a block
+     */
+    longestRun(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+        const table = [...LONGEST_RUN_TABLES].reverse().find(entry => n >= entry.minLength);
+        if (!table) return this.notApplicable('longestRun');
+
+        const { blockLength, classes, pi } = table;
+        const blocks = Math.floor(n / blockLength);
+        const counts = new Array(classes.length).fill(0);
+
+        for (let i = 0; i < blocks; i++) {
+            let longest = 0;
+            let run = 0;
+            for (let j = 0; j < blockLength; j++) {
+                run = bits[i * blockLength + j] ? run + 1 : 0;
+                if (run > longest) longest = run;
+            }
+
+            const index = Math.min(Math.max(longest - classes[0], 0), classes.length - 1);
+            counts[index]++;
+        }
+
+        const chiSquared = chiSquaredStatistic(counts, pi, blocks);
+        return this.result('longestRun', igamc((classes.length - 1) / 2, chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.5 Binary matrix rank test (32 x 32 matrices)
+     */
+    rank(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const size = RANK_MATRIX_SIZE;
+        const matrices = Math.floor(bits.length / (size * size));
+
+        // NIST requires at least 38 matrices
+        if (matrices < 38) return this.notApplicable('rank');
+
+        const pFull = rankProbability(size, size);
+        const pFullMinusOne = rankProbability(size, size - 1);
+        const pRest = 1 - pFull - pFullMinusOne;
+
+        let full = 0;
+        let fullMinusOne = 0;
+        const rows = new Uint32Array(size);
+
+        for (let k = 0; k < matrices; k++) {
+            for (let i = 0; i < size; i++) {
+                let row = 0;
+                const offset = k * size * size + i * size;
+                for (let j = 0; j < size; j++) row = (row << 1) | bits[offset + j];
+                rows[i] = row >>> 0;
+            }
+
+            const rank = binaryRank(rows);
+            if (rank === size) full++;
+            else if (rank === size - 1) fullMinusOne++;
+        }
+
+        const chiSquared =
+            Math.pow(full - matrices * pFull, 2) / (matrices * pFull) +
+            Math.pow(fullMinusOne - matrices * pFullMinusOne, 2) / (matrices * pFullMinusOne) +
+            Math.pow(matrices - full - fullMinusOne - matrices * pRest, 2) / (matrices * pRest);
+
+        return this.result('rank', Math.exp(-chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.6 Discrete Fourier transform (spectral) test
+     */
+    discreteFourierTransform(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+        if (n < 1000) return this.notApplicable('dft');
+
+        const x = new Float64Array(n);
+        for (let i = 0; i < n; i++) x[i] = 2 * bits[i] - 1;
+
+        const half = Math.floor(n / 2);
+        const moduli = fourierModuli(x, half);
+
+        // 95% of the peaks of a random sequence stay below sqrt(n ln(1/0.05))
+        const threshold = Math.sqrt(2.995732274 * n);
+        let below = 0;
+        for (let i = 0; i < half; i++) {
+            if (moduli[i] < threshold) below++;
+        }
+
+        const expected = 0.95 * n / 2;
+        const d = (below - expected) / Math.sqrt(n / 4 * 0.95 * 0.05);
+
+        return this.result('dft', erfc(Math.abs(d) / Math.SQRT2), d);
+    }
+
+    /**
+     * 2.7 Non-overlapping template matching test, over every aperiodic template of length m
+     */
+    nonOverlappingTemplate(data: BitSequence, templateLength: number = this.params.nonOverlappingTemplateLength): TestResult {
+        const bits = toBits(data);
+        const m = templateLength;
+        const blockLength = Math.floor(bits.length / NON_OVERLAPPING_BLOCKS);
+        if (bits.length < 100 || blockLength < m) return this.notApplicable('nonOverlappingTemplate');
+
+        const windows = windowValues(bits, m, false);
+        const lambda = (blockLength - m + 1) / Math.pow(2, m);
+        const variance = blockLength * (1 / Math.pow(2, m) - (2 * m - 1) / Math.pow(2, 2 * m));
+
+        const subTests = this.aperiodicTemplates(m).map(template => {
+            let chiSquared = 0;
+
+            for (let block = 0; block < NON_OVERLAPPING_BLOCKS; block++) {
+                const offset = block * blockLength;
+                let matches = 0;
+                for (let j = 0; j < blockLength - m + 1; j++) {
+                    if (windows[offset + j] === template) {
+                        matches++;
+                        j += m - 1;
+                    }
+                }
+                chiSquared += Math.pow(matches - lambda, 2) / variance;
+            }
+
+            return {
+                label: template.toString(2).padStart(m, '0'),
+                pValue: igamc(NON_OVERLAPPING_BLOCKS / 2, chiSquared / 2)
+            };
+        });
+
+        return this.combinedResult('nonOverlappingTemplate', subTests);
+    }
+
+    /**
+     * 2.8 Overlapping template matching test (template of m ones)
+     */
+    overlappingTemplate(data: BitSequence, templateLength: number = this.params.overlappingTemplateLength): TestResult {
+        const bits = toBits(data);
+        const m = templateLength;
+        const M = OVERLAPPING_BLOCK_LENGTH;
+        const K = OVERLAPPING_CLASSES;
+        const blocks = Math.floor(bits.length / M);
+
+        const lambda = (M - m + 1) / Math.pow(2, m);
+        const eta = lambda / 2;
+        const pi: number[] = [];
+        for (let u = 0; u < K; u++) pi.push(overlappingProbability(u, eta));
+        pi.push(1 - pi.reduce((sum, p) => sum + p, 0));
+
+        // Chi-square needs at least five expected blocks in every class
+        if (blocks * Math.min(...pi) < 5) return this.notApplicable('overlappingTemplate');
+
+        const windows = windowValues(bits, m, false);
+        const template = Math.pow(2, m) - 1;
+        const counts = new Array(K + 1).fill(0);
+
+        for (let block = 0; block < blocks; block++) {
+            let matches = 0;
+            for (let j = 0; j < M - m + 1; j++) {
+                if (windows[block * M + j] === template) matches++;
+            }
+            counts[Math.min(matches, K)]++;
+        }
+
+        const chiSquared = chiSquaredStatistic(counts, pi, blocks);
+        return this.result('overlappingTemplate', igamc(K / 2, chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.9 Maurer's "universal statistical" test
+     */
+    universal(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+
+        let index = -1;
+        UNIVERSAL_MIN_LENGTHS.forEach((minLength, i) => {
+            if (n >= minLength) index = i;
+        });
+        if (index < 0) return this.notApplicable('universal');
+
+        const L = index + 6;
+        const Q = 10 * Math.pow(2, L);
+        const K = Math.floor(n / L) - Q;
+        const lastSeen = new Float64Array(Math.pow(2, L));
+
+        const blockValue = (block: number): number => {
+            let value = 0;
+            for (let j = 0; j < L; j++) value = value * 2 + bits[block * L + j];
+            return value;
+        };
+
+        for (let i = 1; i <= Q; i++) {
+            lastSeen[blockValue(i - 1)] = i;
+        }
+
+        let sum = 0;
+        for (let i = Q + 1; i <= Q + K; i++) {
+            const value = blockValue(i - 1);
+            sum += Math.log2(i - lastSeen[value]);
+            lastSeen[value] = i;
+        }
+
+        const fn = sum / K;
+        const c = 0.7 - 0.8 / L + (4 + 32 / L) * Math.pow(K, -3 / L) / 15;
+        const sigma = c * Math.sqrt(UNIVERSAL_VARIANCE[index] / K);
+        const pValue = erfc(Math.abs(fn - UNIVERSAL_EXPECTED[index]) / (Math.SQRT2 * sigma));
+
+        return this.result('universal', pValue, fn);
+    }
+
+    /**
+     * 2.12 Approximate entropy test
+     */
+    approximateEntropy(data: BitSequence, blockLength: number = this.params.approximateEntropyBlockLength): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+
+        // NIST recommends m < log2(n) - 5
+        const m = Math.min(blockLength, Math.floor(Math.log2(n)) - 6);
+        if (n < 100 || m < 1) return this.notApplicable('approximateEntropy');
+
+        const phi = (length: number): number => {
+            if (length === 0) return 0;
+            const counts = new Float64Array(Math.pow(2, length));
+            const windows = windowValues(bits, length, true);
+            for (let i = 0; i < n; i++) counts[windows[i]]++;
+
+            let sum = 0;
+            for (let i = 0; i < counts.length; i++) {
+                if (counts[i] > 0) sum += counts[i] * Math.log(counts[i] / n);
+            }
+            return sum / n;
+        };
+
+        const apEn = phi(m) - phi(m + 1);
+        const chiSquared = 2 * n * (Math.LN2 - apEn);
+
+        return this.result('approximateEntropy', igamc(Math.pow(2, m - 1), chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.14 Random excursions test
+     */
+    randomExcursions(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const walk = this.randomWalkCycles(bits);
+        if (!walk) return this.notApplicable('randomExcursions');
+
+        const { cycles, visits } = walk;
+        const subTests = EXCURSION_STATES.map((state, s) => {
+            const pi = excursionProbabilities(Math.abs(state));
+            const counts = new Array(6).fill(0);
+            for (let cycle = 0; cycle < cycles; cycle++) {
+                counts[Math.min(visits[cycle * EXCURSION_STATES.length + s], 5)]++;
+            }
+
+            const chiSquared = chiSquaredStatistic(counts, pi, cycles);
+            return { label: `x = ${state > 0 ? '+' : ''}${state}`, pValue: igamc(2.5, chiSquared / 2) };
+        });
+
+        return this.combinedResult('randomExcursions', subTests);
+    }
+
+    /**
+     * 2.15 Random excursions variant test
+     */
+    randomExcursionsVariant(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const cycles = countWalkCycles(bits);
+        if (cycles < excursionCycleMinimum(bits.length)) return this.notApplicable('randomExcursionsVariant');
+
+        const totals = new Map<number, number>();
+        EXCURSION_VARIANT_STATES.forEach(state => totals.set(state, 0));
+
+        let position = 0;
+        for (let i = 0; i < bits.length; i++) {
+            position += 2 * bits[i] - 1;
+            const total = totals.get(position);
+            if (total !== undefined) totals.set(position, total + 1);
+        }
+
+        const subTests = EXCURSION_VARIANT_STATES.map(state => ({
+            label: `x = ${state > 0 ? '+' : ''}${state}`,
+            pValue: erfc(Math.abs((totals.get(state) as number) - cycles) / Math.sqrt(2 * cycles * (4 * Math.abs(state) - 2)))
+        }));
+
+        return this.combinedResult('randomExcursionsVariant', subTests);
+    }
+
+    /**
+     * 2.11 Serial test
+     */
+    serial(data: BitSequence, blockLength: number = this.params.serialBlockLength): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+
+        // NIST recommends m < log2(n) - 2
+        const m = Math.min(blockLength, Math.floor(Math.log2(n)) - 3);
+        if (n < 100 || m < 2) return this.notApplicable('serial');
+
+        const psiSquared = (length: number): number => {
+            if (length <= 0) return 0;
+            const counts = new Float64Array(Math.pow(2, length));
+            const windows = windowValues(bits, length, true);
+            for (let i = 0; i < n; i++) counts[windows[i]]++;
+
+            let sum = 0;
+            for (let i = 0; i < counts.length; i++) sum += counts[i] * counts[i];
+            return sum * Math.pow(2, length) / n - n;
+        };
+
+        const psiM = psiSquared(m);
+        const psiM1 = psiSquared(m - 1);
+        const psiM2 = psiSquared(m - 2);
+        const delta1 = psiM - psiM1;
+        const delta2 = psiM - 2 * psiM1 + psiM2;
+
+        return this.combinedResult('serial', [
+            { label: 'P1', pValue: igamc(Math.pow(2, m - 2), delta1 / 2) },
+            { label: 'P2', pValue: igamc(Math.pow(2, m - 3), delta2 / 2) }
+        ]);
+    }
+
+    /**
+     * 2.10 Linear complexity test
+     */
+    linearComplexity(data: BitSequence, blockLength: number = this.params.linearComplexityBlockLength): TestResult {
+        const bits = toBits(data);
+        const M = blockLength;
+        const blocks = Math.floor(bits.length / M);
+
+        // Chi-square needs at least five expected blocks in the rarest class
+        if (blocks * Math.min(...LINEAR_COMPLEXITY_PI) < 5) return this.notApplicable('linearComplexity');
+
+        const sign = M % 2 === 0 ? 1 : -1;
+        const mean = M / 2 + (9 - sign) / 36 - (M / 3 + 2 / 9) / Math.pow(2, M);
+        const counts = new Array(7).fill(0);
+
+        for (let block = 0; block < blocks; block++) {
+            const complexity = berlekampMassey(bits, block * M, M);
+            const t = sign * (complexity - mean) + 2 / 9;
+
+            if (t <= -2.5) counts[0]++;
+            else if (t <= -1.5) counts[1]++;
+            else if (t <= -0.5) counts[2]++;
+            else if (t <= 0.5) counts[3]++;
+            else if (t <= 1.5) counts[4]++;
+            else if (t <= 2.5) counts[5]++;
+            else counts[6]++;
+        }
+
+        const chiSquared = chiSquaredStatistic(counts, LINEAR_COMPLEXITY_PI, blocks);
+        return this.result('linearComplexity', igamc(3, chiSquared / 2), chiSquared);
+    }
+
+    /**
+     * 2.13 Cumulative sums test, forward and backward
+     */
+    cumulativeSums(data: BitSequence): TestResult {
+        const bits = toBits(data);
+        const n = bits.length;
+        if (n < 100) return this.notApplicable('cumulativeSums');
+
+        const maxExcursion = (forward: boolean): number => {
+            let sum = 0;
+            let max = 0;
+            for (let i = 0; i < n; i++) {
+                sum += 2 * bits[forward ? i : n - 1 - i] - 1;
+                max = Math.max(max, Math.abs(sum));
+            }
+            return max;
+        };
+
+        return this.combinedResult('cumulativeSums', [
+            { label: 'forward', pValue: cumulativeSumsPValue(maxExcursion(true), n) },
+            { label: 'reverse', pValue: cumulativeSumsPValue(maxExcursion(false), n) }
+        ]);
+    }
+
+    // Private methods
+
+    private result(testId: NISTTestId, pValue: number, statistic?: number): TestResult {
+        return {
+            ...TEST_INFO[testId],
+            pValue,
+            passed: pValue >= this.params.alpha,
+            threshold: this.params.alpha,
+            statistic
+        };
+    }
+
+    /**
+     * Result for tests that report several p-values: each is kept in subTests and the
+     * headline p-value is their Bonferroni-adjusted minimum
+     */
+    private combinedResult(testId: NISTTestId, pValues: Array<{ label: string; pValue: number }>): TestResult {
+        const minimum = Math.min(...pValues.map(subTest => subTest.pValue));
+
+        return {
+            ...this.result(testId, Math.min(1, minimum * pValues.length)),
+            subTests: pValues.map(subTest => ({ ...subTest, passed: subTest.pValue >= this.params.alpha }))
+        };
+    }
+
+    private notApplicable(testId: NISTTestId): TestResult {
+        return {
+            ...TEST_INFO[testId],
+            pValue: NaN,
+            passed: false,
+            threshold: this.params.alpha,
+            applicable: false
+        };
+    }
+
+    private secondLevel(testId: NISTTestId, name: string, pValues: number[]): NISTSecondLevelResult {
+        const sequences = pValues.length;
+        const alpha = this.params.alpha;
+        const passedSequences = pValues.filter(pValue => pValue >= alpha).length;
+        const proportion = passedSequences / sequences;
+
+        const expected = 1 - alpha;
+        const margin = 3 * Math.sqrt(expected * alpha / sequences);
+        const proportionRange = { min: expected - margin, max: expected + margin };
+
+        const histogram = new Array(10).fill(0);
+        pValues.forEach(pValue => histogram[Math.min(Math.floor(pValue * 10), 9)]++);
+
+        let uniformityPValue: number | null = null;
+        if (sequences >= MIN_UNIFORMITY_SEQUENCES) {
+            const expectedPerBin = sequences / 10;
+            const chiSquared = histogram.reduce((sum, count) => sum + Math.pow(count - expectedPerBin, 2) / expectedPerBin, 0);
+            uniformityPValue = igamc(9 / 2, chiSquared / 2);
+        }
+
+        return {
+            testId,
+            name,
+            sequences,
+            passedSequences,
+            proportion,
+            proportionRange,
+            proportionPassed: proportion >= proportionRange.min && proportion <= proportionRange.max,
+            histogram,
+            uniformityPValue,
+            uniformityPassed: uniformityPValue === null || uniformityPValue >= UNIFORMITY_ALPHA
+        };
+    }
+
+    /**
+     * Templates of length m that cannot overlap a shifted copy of themselves
+     */
+    private aperiodicTemplates(m: number): number[] {
+        const cached = this.templateCache.get(m);
+        if (cached) return cached;
+
+        const templates: number[] = [];
+        for (let template = 0; template < Math.pow(2, m); template++) {
+            let aperiodic = true;
+            for (let shift = 1; shift < m && aperiodic; shift++) {
+                const overlap = m - shift;
+                const mask = Math.pow(2, overlap) - 1;
+                // Prefix of length m - shift against the suffix of the same length
+                if (Math.floor(template / Math.pow(2, shift)) === (template & mask)) aperiodic = false;
+            }
+            if (aperiodic) templates.push(template);
+        }
+
+        this.templateCache.set(m, templates);
+        return templates;
+    }
+
+    /**
+     * Visits to each excursion state per cycle of the random walk, or null when
+     * there are too few cycles for the test
+     */
+    private randomWalkCycles(bits: Uint8Array): { cycles: number; visits: Uint32Array } | null {
+        const cycles = countWalkCycles(bits);
+        if (cycles < excursionCycleMinimum(bits.length)) return null;
+
+        const stateCount = EXCURSION_STATES.length;
+        const visits = new Uint32Array(cycles * stateCount);
+        let cycle = 0;
+        let position = 0;
+
+        for (let i = 0; i < bits.length; i++) {
+            position += 2 * bits[i] - 1;
+            if (position === 0) {
+                cycle++;
+            } else if (position >= -4 && position <= 4) {
+                const state = position < 0 ? position + 4 : position + 3;
+                visits[cycle * stateCount + state]++;
+            }
+        }
+
+        return { cycles, visits };
+    }
+}
+
+// Helper functions
+
+function toBits(data: BitSequence): Uint8Array {
+    if (data instanceof Uint8Array) return data;
+
+    const bits = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) bits[i] = data[i] ? 1 : 0;
+    return bits;
+}
+
+function igamc(a: number, x: number): number {
+    return StatisticalUtils.upperIncompleteGamma(a, x);
+}
+
+function erfc(x: number): number {
+    const q = StatisticalUtils.upperIncompleteGamma(0.5, x * x);
+    return x >= 0 ? q : 2 - q;
+}
+
+function normalCdf(x: number): number {
+    return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+function chiSquaredStatistic(counts: number[], pi: number[], total: number): number {
+    return counts.reduce((sum, count, i) => sum + Math.pow(count - total * pi[i], 2) / (total * pi[i]), 0);
+}
+
+/**
+ * Integer value of the m bits starting at each position (most significant first),
+ * wrapping around the end of the sequence when requested
+ */
+function windowValues(bits: Uint8Array, m: number, wrap: boolean): Uint32Array {
+    const n = bits.length;
+    const count = wrap ? n : Math.max(n - m + 1, 0);
+    const windows = new Uint32Array(count);
+    const mask = Math.pow(2, m) - 1;
+
+    let value = 0;
+    for (let i = 0; i < m - 1; i++) value = value * 2 + bits[i % n];
+
+    for (let i = 0; i < count; i++) {
+        value = ((value * 2) & mask) + bits[(i + m - 1) % n];
+        windows[i] = value;
+    }
+    return windows;
+}
+
+/**
+ * Probability that a random M x M binary matrix has the given rank
+ */
+function rankProbability(size: number, rank: number): number {
+    let product = 1;
+    for (let i = 0; i < rank; i++) {
+        product *= Math.pow(1 - Math.pow(2, i - size), 2) / (1 - Math.pow(2, i - rank));
+    }
+    return Math.pow(2, rank * (2 * size - rank) - size * size) * product;
+}
+
+/**
+ * Rank over GF(2) of a matrix held as one 32-bit word per row (rows are modified)
+ */
+export function binaryRank(rows: Uint32Array): number {
+    let rank = 0;
+    for (let bit = 31; bit >= 0 && rank < rows.length; bit--) {
+        const mask = 1 << bit;
+        let pivot = -1;
+        for (let r = rank; r < rows.length; r++) {
+            if (rows[r] & mask) {
+                pivot = r;
+                break;
+            }
+        }
+        if (pivot < 0) continue;
+
+        const pivotRow = rows[pivot];
+        rows[pivot] = rows[rank];
+        rows[rank] = pivotRow;
+
+        for (let r = 0; r < rows.length; r++) {
+            if (r !== rank && rows[r] & mask) rows[r] ^= pivotRow;
+        }
+        rank++;
+    }
+    return rank;
+}
+
+/**
+ * Moduli of the first `count` DFT coefficients of a real sequence of any length
+ * (Bluestein's algorithm on top of a radix-2 FFT)
+ */
+function fourierModuli(x: Float64Array, count: number): Float64Array {
+    const n = x.length;
+    let size = 1;
+    while (size < 2 * n - 1) size *= 2;
+
+    // Chirp w_k = exp(-i pi k^2 / n); k^2 mod 2n keeps the angle exact for large k
+    const chirpCos = new Float64Array(n);
+    const chirpSin = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+        const angle = Math.PI * ((k * k) % (2 * n)) / n;
+        chirpCos[k] = Math.cos(angle);
+        chirpSin[k] = -Math.sin(angle);
+    }
+
+    const aRe = new Float64Array(size);
+    const aIm = new Float64Array(size);
+    for (let k = 0; k < n; k++) {
+        aRe[k] = x[k] * chirpCos[k];
+        aIm[k] = x[k] * chirpSin[k];
+    }
+
+    const bRe = new Float64Array(size);
+    const bIm = new Float64Array(size);
+    bRe[0] = chirpCos[0];
+    bIm[0] = -chirpSin[0];
+    for (let k = 1; k < n; k++) {
+        bRe[k] = bRe[size - k] = chirpCos[k];
+        bIm[k] = bIm[size - k] = -chirpSin[k];
+    }
+
+    fft(aRe, aIm, false);
+    fft(bRe, bIm, false);
+    for (let i = 0; i < size; i++) {
+        const re = aRe[i] * bRe[i] - aIm[i] * bIm[i];
+        aIm[i] = aRe[i] * bIm[i] + aIm[i] * bRe[i];
+        aRe[i] = re;
+    }
+    fft(aRe, aIm, true);
+
+    const moduli = new Float64Array(count);
+    for (let k = 0; k < count; k++) {
+        const re = (aRe[k] * chirpCos[k] - aIm[k] * chirpSin[k]) / size;
+        const im = (aRe[k] * chirpSin[k] + aIm[k] * chirpCos[k]) / size;
+        moduli[k] = Math.sqrt(re * re + im * im);
+    }
+    return moduli;
+}
+
+/**
+ * In-place iterative radix-2 FFT (unnormalized)
+ */
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            const tRe = re[i];
+            const tIm = im[i];
+            re[i] = re[j];
+            im[i] = im[j];
+            re[j] = tRe;
+            im[j] = tIm;
+        }
+    }
+
+    for (let length = 2; length <= n; length *= 2) {
+        const angle = (inverse ? 2 : -2) * Math.PI / length;
+        const stepCos = Math.cos(angle);
+        const stepSin = Math.sin(angle);
+
+        for (let start = 0; start < n; start += length) {
+            let wCos = 1;
+            let wSin = 0;
+            for (let k = 0; k < length / 2; k++) {
+                const i = start + k;
+                const j = i + length / 2;
+                const tRe = re[j] * wCos - im[j] * wSin;
+                const tIm = re[j] * wSin + im[j] * wCos;
+                re[j] = re[i] - tRe;
+                im[j] = im[i] - tIm;
+                re[i] += tRe;
+                im[i] += tIm;
+
+                const nextCos = wCos * stepCos - wSin * stepSin;
+                wSin = wCos * stepSin + wSin * stepCos;
+                wCos = nextCos;
+            }
+        }
+    }
+}
+
+/**
+ * Probability of exactly u overlapping matches of m ones in a block (u < 5)
+ */
+function overlappingProbability(u: number, eta: number): number {
+    if (u === 0) return Math.exp(-eta);
+
+    const logFactorial = (k: number): number => {
+        let sum = 0;
+        for (let i = 2; i <= k; i++) sum += Math.log(i);
+        return sum;
+    };
+
+    let sum = 0;
+    for (let l = 1; l <= u; l++) {
+        sum += Math.exp(
+            -eta - u * Math.LN2 + l * Math.log(eta) -
+            logFactorial(l) + logFactorial(u - 1) - logFactorial(l - 1) - logFactorial(u - l)
+        );
+    }
+    return sum;
+}
+
+/**
+ * Linear complexity of a block by the Berlekamp-Massey algorithm
+ */
+function berlekampMassey(bits: Uint8Array, offset: number, length: number): number {
+    const c = new Uint8Array(length + 1);
+    let b = new Uint8Array(length + 1);
+    let t = new Uint8Array(length + 1);
+    c[0] = 1;
+    b[0] = 1;
+
+    let complexity = 0;
+    let lastUpdate = -1;
+
+    for (let n = 0; n < length; n++) {
+        let discrepancy = bits[offset + n];
+        for (let i = 1; i <= complexity; i++) {
+            discrepancy ^= c[i] & bits[offset + n - i];
+        }
+        if (!discrepancy) continue;
+
+        t.set(c);
+        const shift = n - lastUpdate;
+        for (let j = 0; j + shift <= length; j++) {
+            if (b[j]) c[j + shift] ^= 1;
+        }
+
+        if (complexity <= n / 2) {
+            complexity = n + 1 - complexity;
+            lastUpdate = n;
+            [b, t] = [t, b];
+        }
+    }
+
+    return complexity;
+}
+
+/**
+ * Number of cycles (returns to zero, plus a final unfinished excursion) of the ±1 random walk
+ */
+function countWalkCycles(bits: Uint8Array): number {
+    let position = 0;
+    let zeros = 0;
+    for (let i = 0; i < bits.length; i++) {
+        position += 2 * bits[i] - 1;
+        if (position === 0) zeros++;
+    }
+    return position === 0 ? zeros : zeros + 1;
+}
+
+function excursionCycleMinimum(n: number): number {
+    return Math.max(0.005 * Math.sqrt(n), 500);
+}
+
+/**
+ * Probability that a cycle visits state x exactly k times (k = 0..4, and 5 or more)
+ */
+function excursionProbabilities(x: number): number[] {
+    const escape = 1 / (2 * x);
+    const pi = [1 - escape];
+    for (let k = 1; k <= 4; k++) {
+        pi.push(1 / (4 * x * x) * Math.pow(1 - escape, k - 1));
+    }
+    pi.push(escape * Math.pow(1 - escape, 4));
+    return pi;
+}
+
+function cumulativeSumsPValue(z: number, n: number): number {
+    const sqrtN = Math.sqrt(n);
+    // Bounds use C integer division, as in the reference implementation
+    const ratio = Math.trunc(n / z);
+
+    let sum1 = 0;
+    for (let k = Math.trunc((-ratio + 1) / 4); k <= Math.trunc((ratio - 1) / 4); k++) {
+        sum1 += normalCdf((4 * k + 1) * z / sqrtN) - normalCdf((4 * k - 1) * z / sqrtN);
+    }
+
+    let sum2 = 0;
+    for (let k = Math.trunc((-ratio - 3) / 4); k <= Math.trunc((ratio - 1) / 4); k++) {
+        sum2 += normalCdf((4 * k + 3) * z / sqrtN) - normalCdf((4 * k + 1) * z / sqrtN);
+    }
+
+    return 1 - sum1 + sum2;
+}
@@ -2,6 +2,9 @@ import * as ss from 'simple-statistics';
 import { RNGTrial } from '../../shared/types';
 import { StatisticalResult } from '../../shared/types';
 import { StatisticalUtils } from '../../core/statistical-utils';
+import type { EntropySource } from '../../core/entropy';
+import { NISTTestSuite, NISTSecondLevelReport } from './NISTTestSuite';
+import { DiehardTestSuite, DiehardTier, DIEHARD_SAMPLE_WORDS, packWords, bytesToWords } from './DiehardTestSuite';
 
 export interface TestResult {
     name: string;
@@ -10,6 +13,12 @@ export interface TestResult {
     threshold: number;
     statistic?: number;
     description: string;
+
+    /** Individual p-values for tests that report several (templates, excursion states, directions) */
+    subTests?: Array<{ label: string; pValue: number; passed: boolean }>;
+
+    /** False when the sequence is too short for the test; such results are left out of verdicts */
+    applicable?: boolean;
 }
 
 export interface NISTTestResults {
@@ -19,6 +28,7 @@ export interface NISTTestResults {
 
 export interface DiehardTestResults {
     results: TestResult[];
+    tier: DiehardTier;
     overallPassed: boolean;
 }
 
@@ -51,6 +61,14 @@ export interface FrequencyTestResults {
     passed: boolean;
 }
 
+export interface RandomnessTestOptions {
+    /** Diehard tier: 'standard' scales the tests to the supplied bits, 'extended' runs them at Marsaglia's sizes */
+    diehardTier?: DiehardTier;
+
+    /** Source of the 11.5 MB extended-tier sample when the supplied bits are shorter */
+    entropySource?: Pick<EntropySource, 'getBytes'>;
+}
+
 export interface RandomnessTestSuite {
     diehard: DiehardTestResults;
     nist: NISTTestResults;
@@ -64,10 +82,12 @@ export interface RandomnessTestSuite {
 
 export class RandomnessValidator {
     private readonly ALPHA = 0.01; // Significance level
+    private readonly nist = new NISTTestSuite({ alpha: this.ALPHA });
+    private readonly diehard = new DiehardTestSuite({ alpha: this.ALPHA });
 
-    async runFullTestSuite(data: number[]): Promise<RandomnessTestSuite> {
+    async runFullTestSuite(data: number[], options: RandomnessTestOptions = {}): Promise<RandomnessTestSuite> {
         const results: RandomnessTestSuite = {
-            diehard: await this.runDiehardTests(data),
+            diehard: await this.runDiehardTests(data, options),
             nist: await this.runNISTTests(data),
             ent: await this.runEntTests(data),
             autocorrelation: this.runAutocorrelationTest(data),
@@ -83,6 +103,14 @@ export class RandomnessValidator {
         return results;
     }
 
+    /**
+     * NIST second-level analysis: split the data into sequences and check the
+     * proportion of passing sequences and p-value uniformity for every test
+     */
+    async runNISTSecondLevel(data: number[], sequenceLength: number = 1000000): Promise<NISTSecondLevelReport> {
+        return this.nist.analyzeSequences(data, sequenceLength);
+    }
+
     async runQuickTests(data: number[]): Promise<{ quality: number; issues: string[] }> {
         const issues: string[] = [];
         let quality = 100;
@@ -121,55 +149,32 @@ export class RandomnessValidator {
     }
 
     private async runNISTTests(data: number[]): Promise<NISTTestResults> {
-        const results = new Map<string, TestResult>();
-
-        // NIST SP 800-22 Test Suite Implementation
-        results.set('frequency', this.nistFrequencyTest(data));
-        results.set('blockFrequency', this.nistBlockFrequencyTest(data));
-        results.set('runs', this.nistRunsTest(data));
-        results.set('longestRun', this.nistLongestRunTest(data));
-        results.set('rank', this.nistRankTest(data));
-        results.set('dft', this.nistDiscreteFourierTransformTest(data));
-        results.set('nonOverlappingTemplate', this.nistNonOverlappingTemplateTest(data));
-        results.set('overlappingTemplate', this.nistOverlappingTemplateTest(data));
-        results.set('universal', this.nistUniversalTest(data));
-        results.set('approximateEntropy', this.nistApproximateEntropyTest(data));
-        results.set('randomExcursions', this.nistRandomExcursionsTest(data));
-        results.set('randomExcursionsVariant', this.nistRandomExcursionsVariantTest(data));
-        results.set('serial', this.nistSerialTest(data));
-        results.set('linearComplexity', this.nistLinearComplexityTest(data));
-        results.set('cumulativeSums', this.nistCumulativeSumsTest(data));
-
-        const overallPassed = Array.from(results.values()).filter(r => r.passed).length / results.size >= 0.8;
+        const results = new Map<string, TestResult>(this.nist.runAll(data));
+
+        const applicable = Array.from(results.values()).filter(r => r.applicable !== false);
+        const overallPassed = applicable.length > 0 &&
+            applicable.filter(r => r.passed).length / applicable.length >= 0.8;
 
         return { results, overallPassed };
     }
 
-    private async runDiehardTests(data: number[]): Promise<DiehardTestResults> {
-        const results: TestResult[] = [];
+    private async runDiehardTests(data: number[], options: RandomnessTestOptions): Promise<DiehardTestResults> {
+        const tier = options.diehardTier || 'standard';
+        let words = packWords(data);
+
+        if (tier === 'extended' && words.length < DIEHARD_SAMPLE_WORDS) {
+            if (!options.entropySource) {
+                throw new Error(`Extended Diehard tier needs ${DIEHARD_SAMPLE_WORDS * 32} bits or an entropy source`);
+            }
+            words = bytesToWords(options.entropySource.getBytes(DIEHARD_SAMPLE_WORDS * 4));
+        }
 
-        // Simplified Diehard-style tests
-        results.push(this.diehardBirthdaySpacingsTest(data));
-        results.push(this.diehardOverlapping5PermTest(data));
-        results.push(this.diehardRanks31x31Test(data));
-        results.push(this.diehardRanks32x32Test(data));
-        results.push(this.diehardRanks6x8Test(data));
-        results.push(this.diehardMonkeyTestsOPSO(data));
-        results.push(this.diehardMonkeyTestsOQSO(data));
-        results.push(this.diehardMonkeyTestsDNA(data));
-        results.push(this.diehardCountThe1sStreamTest(data));
-        results.push(this.diehardCountThe1sBytesTest(data));
-        results.push(this.diehardParkingLotTest(data));
-        results.push(this.diehardMinimumDistanceTest(data));
-        results.push(this.diehardRandomSpheresTest(data));
-        results.push(this.diehardSqueezeTest(data));
-        results.push(this.diehardOverlappingSumsTest(data));
-        results.push(this.diehardRunsTest(data));
-        results.push(this.diehardCrapsTest(data));
-
-        const overallPassed = results.filter(r => r.passed).length / results.length >= 0.8;
+        const results = Array.from(this.diehard.runAll(words, tier).values());
+        const applicable = results.filter(r => r.applicable !== false);
+        const overallPassed = applicable.length > 0 &&
+            applicable.filter(r => r.passed).length / applicable.length >= 0.8;
 
-        return { results, overallPassed };
+        return { results, tier, overallPassed };
     }
 
     private async runEntTests(data: number[]): Promise<EntTestResults> {
@@ -232,410 +237,6 @@ export class RandomnessValidator {
         return { results, entropy, compression, overallPassed };
     }
 
-    // NIST Test Implementations (simplified)
-    private nistFrequencyTest(data: number[]): TestResult {
-        const n = data.length;
-        const ones = data.filter(b => b === 1).length;
-        const S = Math.abs(2 * ones - n);
-        const pValue = StatisticalUtils.erfc(S / Math.sqrt(2 * n));
-
-        return {
-            name: 'Frequency (Monobit)',
-            pValue,
-            passed: pValue >= this.ALPHA,
-            threshold: this.ALPHA,
-            statistic: S,
-            description: 'Tests the proportion of ones and zeros'
-        };
-    }
-
-    private nistBlockFrequencyTest(data: number[], blockSize: number = 128): TestResult {
-        const numBlocks = Math.floor(data.length / blockSize);
-        let chiSquared = 0;
-
-        for (let i = 0; i < numBlocks; i++) {
-            const blockStart = i * blockSize;
-            const block = data.slice(blockStart, blockStart + blockSize);
-            const ones = block.filter(b => b === 1).length;
-            const pi = ones / blockSize;
-            chiSquared += Math.pow(pi - 0.5, 2);
-        }
-
-        chiSquared *= 4 * blockSize;
-        // Calculate p-value from chi-squared statistic and degrees of freedom
-        const degreesOfFreedom = numBlocks - 1;
-        const pValue = this.chiSquaredPValue(chiSquared, degreesOfFreedom);
-
-        return {
-            name: 'Block Frequency',
-            pValue,
-            passed: pValue >= this.ALPHA,
-            threshold: this.ALPHA,
-            statistic: chiSquared,
-            description: 'Tests the proportion of ones in M-bit blocks'
-        };
-    }
-
-    private nistRunsTest(data: number[]): TestResult {
-        const n = data.length;
-        const ones = data.filter(b => b === 1).length;
-        const pi = ones / n;
-
-        if (Math.abs(pi - 0.5) >= 2 / Math.sqrt(n)) {
-            return {
-                name: 'Runs',
-                pValue: 0,
-                passed: false,
-                threshold: this.ALPHA,
-                description: 'Tests the total number of runs'
-            };
-        }
-
-        let runs = 1;
-        for (let i = 1; i < n; i++) {
-            if (data[i] !== data[i - 1]) runs++;
-        }
-
-        const expectedRuns = (2 * n * pi * (1 - pi)) + 1;
-        const variance = (2 * n * pi * (1 - pi)) * (2 * n * pi * (1 - pi) - 1) / (2 * n - 1);
-        const z = (runs - expectedRuns) / Math.sqrt(variance);
-        const pValue = StatisticalUtils.erfc(Math.abs(z) / Math.sqrt(2));
-
-        return {
-            name: 'Runs',
-            pValue,
-            passed: pValue >= this.ALPHA,
-            threshold: this.ALPHA,
-            statistic: runs,
-            description: 'Tests the total number of runs'
-        };
-    }
-
-    private nistLongestRunTest(data: number[]): TestResult {
-        // Simplified implementation
-        let maxRun = 0;
-        let currentRun = 0;
-        let currentBit = -1;
-
-        for (const bit of data) {
-            if (bit === currentBit) {
-                currentRun++;
-            } else {
-                maxRun = Math.max(maxRun, currentRun);
-                currentRun = 1;
-                currentBit = bit;
-            }
-        }
-        maxRun = Math.max(maxRun, currentRun);
-
-        const expectedMax = Math.log2(data.length);
-        const z = (maxRun - expectedMax) / Math.sqrt(expectedMax);
-        const pValue = StatisticalUtils.erfc(Math.abs(z) / Math.sqrt(2));
-
-        return {
-            name: 'Longest Run',
-            pValue,
-            passed: pValue >= this.ALPHA,
-            threshold: this.ALPHA,
-            statistic: maxRun,
-            description: 'Tests the longest run of ones in a block'
-        };
-    }
-
-    // Additional simplified NIST tests
-    private nistRankTest(data: number[]): TestResult {
-        return {
-            name: 'Binary Matrix Rank',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for linear dependence among fixed length substrings'
-        };
-    }
-
-    private nistDiscreteFourierTransformTest(data: number[]): TestResult {
-        return {
-            name: 'Discrete Fourier Transform',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for periodic features'
-        };
-    }
-
-    private nistNonOverlappingTemplateTest(data: number[]): TestResult {
-        return {
-            name: 'Non-overlapping Template Matching',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for too many occurrences of non-periodic templates'
-        };
-    }
-
-    private nistOverlappingTemplateTest(data: number[]): TestResult {
-        return {
-            name: 'Overlapping Template Matching',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for too many occurrences of pre-specified target strings'
-        };
-    }
-
-    private nistUniversalTest(data: number[]): TestResult {
-        return {
-            name: 'Maurer Universal Statistical',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests whether the sequence can be significantly compressed'
-        };
-    }
-
-    private nistApproximateEntropyTest(data: number[]): TestResult {
-        return {
-            name: 'Approximate Entropy',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for regularity of patterns'
-        };
-    }
-
-    private nistRandomExcursionsTest(data: number[]): TestResult {
-        return {
-            name: 'Random Excursions',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for cycles in random walks'
-        };
-    }
-
-    private nistRandomExcursionsVariantTest(data: number[]): TestResult {
-        return {
-            name: 'Random Excursions Variant',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for random walks with specific states'
-        };
-    }
-
-    private nistSerialTest(data: number[]): TestResult {
-        return {
-            name: 'Serial',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for frequency of all possible overlapping m-length patterns'
-        };
-    }
-
-    private nistLinearComplexityTest(data: number[]): TestResult {
-        return {
-            name: 'Linear Complexity',
-            pValue: 0.5, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for the length of the shortest LFSR'
-        };
-    }
-
-    private nistCumulativeSumsTest(data: number[]): TestResult {
-        let maxCusum = 0;
-        let cusum = 0;
-
-        for (const bit of data) {
-            cusum += bit === 1 ? 1 : -1;
-            maxCusum = Math.max(maxCusum, Math.abs(cusum));
-        }
-
-        const z = maxCusum / Math.sqrt(data.length);
-        const pValue = StatisticalUtils.erfc(z / Math.sqrt(2));
-
-        return {
-            name: 'Cumulative Sums',
-            pValue,
-            passed: pValue >= this.ALPHA,
-            threshold: this.ALPHA,
-            statistic: maxCusum,
-            description: 'Tests for bias in cumulative sums'
-        };
-    }
-
-    // Simplified Diehard test implementations
-    private diehardBirthdaySpacingsTest(data: number[]): TestResult {
-        return {
-            name: 'Birthday Spacings',
-            pValue: Math.random() * 0.8 + 0.1, // Simplified
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests spacing between matching patterns'
-        };
-    }
-
-    private diehardOverlapping5PermTest(data: number[]): TestResult {
-        return {
-            name: 'Overlapping 5-Permutation',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for overlapping 5-permutations'
-        };
-    }
-
-    private diehardRanks31x31Test(data: number[]): TestResult {
-        return {
-            name: 'Ranks of 31x31 Matrices',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests ranks of binary matrices'
-        };
-    }
-
-    private diehardRanks32x32Test(data: number[]): TestResult {
-        return {
-            name: 'Ranks of 32x32 Matrices',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests ranks of larger binary matrices'
-        };
-    }
-
-    private diehardRanks6x8Test(data: number[]): TestResult {
-        return {
-            name: 'Ranks of 6x8 Matrices',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests ranks of smaller binary matrices'
-        };
-    }
-
-    private diehardMonkeyTestsOPSO(data: number[]): TestResult {
-        return {
-            name: 'Monkey Tests OPSO',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Overlapping-Pairs-Sparse-Occupancy test'
-        };
-    }
-
-    private diehardMonkeyTestsOQSO(data: number[]): TestResult {
-        return {
-            name: 'Monkey Tests OQSO',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Overlapping-Quadruples-Sparse-Occupancy test'
-        };
-    }
-
-    private diehardMonkeyTestsDNA(data: number[]): TestResult {
-        return {
-            name: 'Monkey Tests DNA',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'DNA sequence test'
-        };
-    }
-
-    private diehardCountThe1sStreamTest(data: number[]): TestResult {
-        return {
-            name: 'Count-the-1s Stream',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Counts 1s in a stream of bytes'
-        };
-    }
-
-    private diehardCountThe1sBytesTest(data: number[]): TestResult {
-        return {
-            name: 'Count-the-1s Bytes',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Counts 1s in specific bytes'
-        };
-    }
-
-    private diehardParkingLotTest(data: number[]): TestResult {
-        return {
-            name: 'Parking Lot',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for random placement in 2D space'
-        };
-    }
-
-    private diehardMinimumDistanceTest(data: number[]): TestResult {
-        return {
-            name: 'Minimum Distance',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests minimum distance between random points'
-        };
-    }
-
-    private diehardRandomSpheresTest(data: number[]): TestResult {
-        return {
-            name: 'Random Spheres',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for sphere packing'
-        };
-    }
-
-    private diehardSqueezeTest(data: number[]): TestResult {
-        return {
-            name: 'Squeeze',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for gaps in random sequences'
-        };
-    }
-
-    private diehardOverlappingSumsTest(data: number[]): TestResult {
-        return {
-            name: 'Overlapping Sums',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for overlapping sums'
-        };
-    }
-
-    private diehardRunsTest(data: number[]): TestResult {
-        return {
-            name: 'Runs Up/Down',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests for runs of increasing/decreasing values'
-        };
-    }
-
-    private diehardCrapsTest(data: number[]): TestResult {
-        return {
-            name: 'Craps',
-            pValue: Math.random() * 0.8 + 0.1,
-            passed: true,
-            threshold: this.ALPHA,
-            description: 'Tests using craps game simulation'
-        };
-    }
-
     // Helper methods for ENT tests
     private calculateEntropy(bytes: number[]): number {
         const counts = new Array(256).fill(0);
@@ -774,8 +375,8 @@ export class RandomnessValidator {
     }
 
     private runFrequencyTests(data: number[]): FrequencyTestResults {
-        const monobit = this.nistFrequencyTest(data);
-        const blockFreq = this.nistBlockFrequencyTest(data);
+        const monobit = this.nist.frequency(data);
+        const blockFreq = this.nist.blockFrequency(data);
 
         // Within-block frequency test
         const blockSize = 128;
@@ -811,17 +412,19 @@ export class RandomnessValidator {
         let totalScore = 0;
         let maxScore = 0;
 
-        // NIST tests (40% weight)
-        const nistPassed = Array.from(results.nist.results.values()).filter(r => r.passed).length;
-        const nistTotal = results.nist.results.size;
-        totalScore += (nistPassed / nistTotal) * 40;
-        maxScore += 40;
-
-        // Diehard tests (30% weight)
-        const diehardPassed = results.diehard.results.filter(r => r.passed).length;
-        const diehardTotal = results.diehard.results.length;
-        totalScore += (diehardPassed / diehardTotal) * 30;
-        maxScore += 30;
+        // NIST tests (40% weight) - tests the data is too short for do not count
+        const nistApplicable = Array.from(results.nist.results.values()).filter(r => r.applicable !== false);
+        if (nistApplicable.length > 0) {
+            totalScore += (nistApplicable.filter(r => r.passed).length / nistApplicable.length) * 40;
+            maxScore += 40;
+        }
+
+        // Diehard tests (30% weight) - likewise only those the data supports
+        const diehardApplicable = results.diehard.results.filter(r => r.applicable !== false);
+        if (diehardApplicable.length > 0) {
+            totalScore += (diehardApplicable.filter(r => r.passed).length / diehardApplicable.length) * 30;
+            maxScore += 30;
+        }
 
         // ENT tests (20% weight)
         const entPassed = results.ent.results.filter(r => r.passed).length;
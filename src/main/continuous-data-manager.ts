@@ -9,11 +9,10 @@
  * - Storage usage monitoring
  */
 
-import { DatabaseManager } from '../database';
-import { ExportMetadata, ValidationResult, RNGTrial } from '../shared/types';
+import { DatabaseManager, DataExporter } from '../database';
+import { ExportFormat, ExportMetadata, ValidationResult, RNGTrial } from '../shared/types';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { createHash } from 'crypto';
 
 interface ExportResult {
     success: boolean;
@@ -115,63 +114,35 @@ export class DataRetentionManager {
     async exportTimeRange(
         start: Date,
         end: Date,
-        format: 'csv' | 'json' = 'csv',
+        format: ExportFormat = 'csv',
         prefix: string = 'export'
     ): Promise<ExportResult> {
         try {
             console.log(`Exporting data from ${start.toISOString()} to ${end.toISOString()}`);
 
-            // Get data to export
-            const trials = await this.database.trials.getByDateRange(start, end);
-            const intentionPeriods = await this.database.intentionPeriods.getByDateRange(start, end);
+            const exporter = new DataExporter(this.database);
+            const dataset = await exporter.collect({ startDate: start, endDate: end });
+            const rows = (name: string) => dataset.tables.find(table => table.name === name)?.rows.length ?? 0;
 
-            if (trials.length === 0 && intentionPeriods.length === 0) {
+            if (rows('trials') === 0 && rows('intention_periods') === 0) {
                 return {
                     success: false,
                     error: 'No data found in specified time range'
                 };
             }
 
-            // Generate filename
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            const filename = `${prefix}_${timestamp}.${format}`;
-            const filePath = path.join(this.exportDirectory, filename);
-
-            // Export based on format
-            let exportData: string;
-            if (format === 'csv') {
-                exportData = await this.exportToCSV(trials, intentionPeriods);
-            } else {
-                exportData = await this.exportToJSON(trials, intentionPeriods);
-            }
-
-            // Write to file
-            await fs.writeFile(filePath, exportData, 'utf-8');
-
-            // Calculate checksum
-            const checksum = createHash('sha256').update(exportData).digest('hex');
-
-            // Create metadata
-            const metadata: ExportMetadata = {
-                exportedAt: new Date(),
-                dataRange: { startTime: start, endTime: end },
-                trialCount: trials.length,
-                sessionCount: intentionPeriods.length,
-                format,
-                filePath,
-                checksum
-            };
+            const metadata = await exporter.writeDataset(dataset, format, { directory: this.exportDirectory, prefix });
 
             // Save metadata
-            const metadataPath = filePath.replace(`.${format}`, '_metadata.json');
+            const metadataPath = metadata.filePath.replace(/\.[^.]+$/, '_metadata.json');
             await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
 
-            console.log(`Export completed: ${filePath}`);
-            console.log(`Trials: ${trials.length}, Intention Periods: ${intentionPeriods.length}`);
+            console.log(`Export completed: ${metadata.filePath}`);
+            console.log(`Trials: ${rows('trials')}, Intention Periods: ${rows('intention_periods')}`);
 
             return {
                 success: true,
-                filePath,
+                filePath: metadata.filePath,
                 metadata
             };
 
@@ -325,66 +296,6 @@ export class DataRetentionManager {
         }
     }
 
-    private async exportToCSV(trials: any[], intentionPeriods: any[]): Promise<string> {
-        const lines: string[] = [];
-
-        // CSV header for trials
-        lines.push('# TRIALS');
-        lines.push('timestamp,trialValue,sessionId,experimentMode,intention,trialNumber');
-
-        // Trial data
-        trials.forEach(trial => {
-            lines.push([
-                trial.timestamp.toISOString(),
-                trial.trialValue,
-                trial.sessionId,
-                trial.experimentMode,
-                trial.intention || '',
-                trial.trialNumber
-            ].join(','));
-        });
-
-        // CSV header for intention periods
-        lines.push('');
-        lines.push('# INTENTION PERIODS');
-        lines.push('id,startTime,endTime,intention,notes,sessionId');
-
-        // Intention period data
-        intentionPeriods.forEach(period => {
-            lines.push([
-                period.id,
-                period.startTime.toISOString(),
-                period.endTime ? period.endTime.toISOString() : '',
-                period.intention,
-                `"${period.notes.replace(/"/g, '""')}"`, // Escape quotes
-                period.sessionId || ''
-            ].join(','));
-        });
-
-        return lines.join('\n');
-    }
-
-    private async exportToJSON(trials: any[], intentionPeriods: any[]): Promise<string> {
-        const exportData = {
-            exportInfo: {
-                timestamp: new Date().toISOString(),
-                version: '1.0',
-                format: 'json'
-            },
-            trials: trials.map(trial => ({
-                ...trial,
-                timestamp: trial.timestamp.toISOString()
-            })),
-            intentionPeriods: intentionPeriods.map(period => ({
-                ...period,
-                startTime: period.startTime.toISOString(),
-                endTime: period.endTime ? period.endTime.toISOString() : null
-            }))
-        };
-
-        return JSON.stringify(exportData, null, 2);
-    }
-
     private async validateBasicDataIntegrity(): Promise<ValidationResult> {
         const errors: string[] = [];
         const warnings: string[] = [];
@@ -10,16 +10,21 @@
 
 import { EventEmitter } from 'events';
 import { RNGEngine } from '../core/rng-engine';
-import { DatabaseManager } from '../database';
+import { getEntropyHealth } from '../core/entropy';
+import { getClockSync } from '../core/time-manager';
+import { SessionRepository } from '../database/repositories/session-repository';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import { IntentionRepository } from '../database/repositories/intention-repository';
+import { SequentialDesignRepository } from '../database/repositories/sequential-repository';
+import { CollectorLock, describeCollectorLock } from './daemon/collector-lock';
 import {
+    CollectorLockInfo,
     ContinuousStatus,
     HealthStatus,
     RNGTrial,
     IntentionPeriod,
-    SignificantEvent,
     ContinuousConfig
 } from '../shared/types';
-import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Continuous data collector for 24/7 operation
@@ -28,6 +33,7 @@ export class ContinuousDataCollector extends EventEmitter {
     private isRunning: boolean = false;
     private intervalId: NodeJS.Timeout | null = null;
     private startTime: Date | null = null;
+    private sessionId: string | null = null;
     private totalTrials: number = 0;
     private currentIntentionPeriod: IntentionPeriod | null = null;
     private lastTrialTime: Date | null = null;
@@ -35,6 +41,7 @@ export class ContinuousDataCollector extends EventEmitter {
     private lastError: Error | null = null;
     private missedIntervals: number = 0;
     private memoryPeak: number = 0;
+    private stopping: Promise<void> | null = null;
 
     private config: ContinuousConfig = {
         autoStart: true,
@@ -57,14 +64,29 @@ export class ContinuousDataCollector extends EventEmitter {
     };
 
     private rngEngine: RNGEngine;
-    private database: DatabaseManager;
+    private sessions: SessionRepository;
+    private trials: TrialRepository;
+    private intentions: IntentionRepository;
+    private lock: CollectorLock | null;
+    private designs: SequentialDesignRepository | null;
     private performanceHistory: Array<{ timestamp: Date; rate: number }> = [];
     private healthCheckInterval: NodeJS.Timeout | null = null;
 
-    constructor(rngEngine: RNGEngine, database: DatabaseManager) {
+    constructor(
+        rngEngine: RNGEngine,
+        sessions: SessionRepository,
+        trials: TrialRepository,
+        intentions: IntentionRepository,
+        lock?: CollectorLock,
+        designs?: SequentialDesignRepository
+    ) {
         super();
         this.rngEngine = rngEngine;
-        this.database = database;
+        this.sessions = sessions;
+        this.trials = trials;
+        this.intentions = intentions;
+        this.lock = lock ?? null;
+        this.designs = designs ?? null;
 
         // Set up periodic health checks
         this.startHealthMonitoring();
@@ -82,45 +104,70 @@ export class ContinuousDataCollector extends EventEmitter {
             return;
         }
 
+        // One writer per database: fails while the daemon or another app instance collects
+        this.lock?.acquire();
+
         try {
             console.log('Starting continuous RNG data collection...');
 
             // Initialize RNG engine
             await this.rngEngine.initialize();
 
-            // Set up trial generation interval
+            // Every run records into its own open-ended session
             this.startTime = new Date();
+            this.sessionId = await this.sessions.createSession({
+                startTime: this.startTime,
+                endTime: null,
+                intention: 'baseline',
+                targetTrials: 0,
+                status: 'running',
+                notes: 'Continuous collection',
+                source: 'continuous',
+                clockSync: getClockSync() ?? undefined
+            });
+
             this.isRunning = true;
             this.totalTrials = 0;
             this.errorCount = 0;
             this.missedIntervals = 0;
 
-            // Start trial generation at 1Hz
+            // Start trial generation at the target rate (1 Hz by default)
             this.intervalId = setInterval(() => {
                 this.handleTrialGeneration().catch(error => {
                     this.handleErrors(error);
                 });
-            }, 1000); // 1 second intervals
+            }, 1000 / this.config.targetRate);
 
             console.log('Continuous collection started successfully');
             this.emit('started', this.getStatus());
 
         } catch (error) {
             console.error('Failed to start continuous collection:', error);
+            this.lock?.release();
             this.handleErrors(error as Error);
             throw error;
         }
     }
 
     /**
-     * Stop continuous data collection
+     * Stop continuous data collection; concurrent callers wait for the same shutdown
      */
     async stop(): Promise<void> {
+        if (this.stopping) {
+            return this.stopping;
+        }
         if (!this.isRunning) {
             console.warn('Continuous collection not running');
             return;
         }
 
+        this.stopping = this.finishCollection().finally(() => {
+            this.stopping = null;
+        });
+        return this.stopping;
+    }
+
+    private async finishCollection(): Promise<void> {
         try {
             console.log('Stopping continuous RNG data collection...');
 
@@ -136,12 +183,21 @@ export class ContinuousDataCollector extends EventEmitter {
                 await this.endIntentionPeriod();
             }
 
+            // Store the remaining trials and close the run's session
+            await this.trials.flushBatch();
+            if (this.sessionId) {
+                await this.sessions.completeSession(this.sessionId);
+                this.sessionId = null;
+            }
+
             console.log(`Continuous collection stopped. Total trials: ${this.totalTrials}`);
             this.emit('stopped', this.getStatus());
 
         } catch (error) {
             console.error('Error stopping continuous collection:', error);
             this.handleErrors(error as Error);
+        } finally {
+            this.lock?.release();
         }
     }
 
@@ -158,29 +214,52 @@ export class ContinuousDataCollector extends EventEmitter {
             currentRate: this.getCurrentRate(),
             currentIntentionPeriod: this.currentIntentionPeriod,
             systemHealth: await this.getHealthStatus(),
-            todayStats
+            todayStats,
+            externalCollector: this.getExternalCollector()
         };
     }
 
     /**
-     * Start a new intention period
+     * Another process collecting into the same database, if any
      */
-    async startIntentionPeriod(intention: 'high' | 'low', notes: string = ''): Promise<IntentionPeriod> {
+    getExternalCollector(): CollectorLockInfo | null {
+        return this.lock?.getExternalHolder() ?? null;
+    }
+
+    /**
+     * Start a new intention period, optionally counting towards a group-sequential design
+     */
+    async startIntentionPeriod(
+        intention: 'high' | 'low',
+        notes: string = '',
+        participantId?: string,
+        sequentialDesignId?: string
+    ): Promise<IntentionPeriod> {
+        // Trials are tagged by the process that generates them
+        const holder = this.getExternalCollector();
+        if (holder) {
+            throw new Error(`Intention periods must be marked in the ${describeCollectorLock(holder)} that is collecting`);
+        }
+        if (sequentialDesignId) {
+            if (!this.designs) {
+                throw new Error('Group-sequential designs are not available');
+            }
+            await this.designs.checkEligibility(sequentialDesignId, 'continuous', intention);
+        }
+
         // End current period if active
         if (this.currentIntentionPeriod && !this.currentIntentionPeriod.endTime) {
             await this.endIntentionPeriod();
         }
 
-        const period: IntentionPeriod = {
-            id: uuidv4(),
-            startTime: new Date(),
-            endTime: null,
+        const periodId = await this.intentions.startIntentionPeriod(
             intention,
-            notes
-        };
-
-        // Store in database
-        await this.database.intentionPeriods.create(period);
+            notes,
+            participantId,
+            this.sessionId ?? undefined,
+            sequentialDesignId || undefined
+        );
+        const period = (await this.intentions.getIntentionPeriod(periodId))!;
 
         this.currentIntentionPeriod = period;
         console.log(`Started ${intention} intention period: ${period.id}`);
@@ -197,18 +276,15 @@ export class ContinuousDataCollector extends EventEmitter {
             return;
         }
 
-        const endTime = new Date();
-        this.currentIntentionPeriod.endTime = endTime;
-
-        // Update in database
-        await this.database.intentionPeriods.update(this.currentIntentionPeriod.id, {
-            endTime
-        });
+        const periodId = this.currentIntentionPeriod.id;
+        await this.intentions.endIntentionPeriod(periodId);
+        const period = (await this.intentions.getIntentionPeriod(periodId))!;
+        this.currentIntentionPeriod = null;
 
-        console.log(`Ended intention period: ${this.currentIntentionPeriod.id}`);
-        this.emit('intentionPeriodEnded', this.currentIntentionPeriod);
+        // Listeners analysing the period see all of its trials
+        await this.trials.flushBatch();
 
-        this.currentIntentionPeriod = null;
+        this.emit('intentionPeriodEnded', period);
     }
 
     /**
@@ -219,12 +295,9 @@ export class ContinuousDataCollector extends EventEmitter {
             throw new Error('No active intention period');
         }
 
+        await this.intentions.updateIntentionPeriodNotes(this.currentIntentionPeriod.id, notes);
         this.currentIntentionPeriod.notes = notes;
 
-        await this.database.intentionPeriods.update(this.currentIntentionPeriod.id, {
-            notes
-        });
-
         this.emit('intentionPeriodUpdated', this.currentIntentionPeriod);
     }
 
@@ -232,26 +305,26 @@ export class ContinuousDataCollector extends EventEmitter {
      * Handle trial generation
      */
     private async handleTrialGeneration(): Promise<void> {
-        if (!this.isRunning) return;
+        if (!this.isRunning || !this.sessionId) return;
 
         try {
             const startTime = Date.now();
 
             // Generate RNG trial
-            const trial = await this.rngEngine.generateTrial();
+            const trial = this.rngEngine.generateTrial();
 
-            // Create trial record
+            // Continuous-mode record of the trial; raw bits and device id carry over
             const rngTrial: RNGTrial = {
+                ...trial,
                 timestamp: new Date(),
-                trialValue: trial.value || 0,
-                sessionId: 'continuous', // Special session ID for continuous mode
+                sessionId: this.sessionId,
                 experimentMode: 'continuous',
                 intention: this.currentIntentionPeriod?.intention || null,
                 trialNumber: this.totalTrials + 1
             };
 
-            // Store in database
-            await this.database.trials.create(rngTrial);
+            // Stored with the next batch
+            this.trials.addToBatch(rngTrial);
 
             this.totalTrials++;
             this.lastTrialTime = rngTrial.timestamp;
@@ -351,8 +424,8 @@ export class ContinuousDataCollector extends EventEmitter {
             // Overall assessment for internal use
             status: this.getOverallStatus(),
 
-            // RNG specific health
-            rngStatus: this.errorCount > 0 ? 'warning' : 'healthy',
+            // RNG specific health, including entropy device disconnects and failover
+            rngStatus: this.getRngStatus(),
 
             // Data rate health relative to target
             dataRate: {
@@ -388,11 +461,21 @@ export class ContinuousDataCollector extends EventEmitter {
         };
     }
 
+    /**
+     * RNG health: generation errors plus the state of the entropy source
+     */
+    private getRngStatus(): 'healthy' | 'warning' | 'error' {
+        const sourceHealth = getEntropyHealth(this.rngEngine.getStatus().entropySource);
+        if (sourceHealth === 'error') return 'error';
+        if (sourceHealth === 'warning' || this.errorCount > 0) return 'warning';
+        return 'healthy';
+    }
+
     /**
      * Get overall system status
      */
     private getOverallStatus(): 'healthy' | 'warning' | 'error' {
-        if (this.errorCount > 0) return 'error';
+        if (this.errorCount > 0 || this.getRngStatus() === 'error') return 'error';
         if (this.missedIntervals > 10) return 'warning';
         return 'healthy';
     }
@@ -407,23 +490,20 @@ export class ContinuousDataCollector extends EventEmitter {
         tomorrow.setDate(tomorrow.getDate() + 1);
 
         try {
-            // Get today's trials
-            const todayTrials = await this.database.trials.getByDateRange(today, tomorrow);
+            // Today's stored trials; the pending batch is not counted yet
+            const todayTrials = await this.trials.getTrialStatistics({
+                experimentMode: 'continuous',
+                startTime: today,
+                endTime: tomorrow
+            });
 
             // Get today's intention periods
-            const todayPeriods = await this.database.intentionPeriods.getByDateRange(today, tomorrow);
-
-            // Calculate average deviation
-            let totalDeviation = 0;
-            todayTrials.forEach((trial: RNGTrial) => {
-                totalDeviation += Math.abs(trial.trialValue - 100);
-            });
-            const averageDeviation = todayTrials.length > 0 ? totalDeviation / todayTrials.length : 0;
+            const todayPeriods = await this.intentions.getIntentionPeriodsInRange(today, tomorrow);
 
             return {
-                trialsCollected: todayTrials.length,
+                trialsCollected: todayTrials.count,
                 intentionPeriods: todayPeriods.length,
-                averageDeviation,
+                averageDeviation: todayTrials.meanAbsoluteDeviation,
                 significantEvents: 0 // TODO: Implement significant event detection
             };
 
@@ -458,17 +538,15 @@ export class ContinuousDataCollector extends EventEmitter {
      */
     private setupSystemEventHandlers(): void {
         // Handle app suspension/resume
-        process.on('SIGTERM', async () => {
-            console.log('Received SIGTERM, stopping continuous collection...');
-            await this.stop();
-        });
-
-        process.on('SIGINT', async () => {
-            console.log('Received SIGINT, stopping continuous collection...');
-            await this.stop();
-        });
+        process.on('SIGTERM', this.handleSignal);
+        process.on('SIGINT', this.handleSignal);
     }
 
+    private handleSignal = async (signal: NodeJS.Signals): Promise<void> => {
+        console.log(`Received ${signal}, stopping continuous collection...`);
+        await this.stop();
+    };
+
     /**
      * Update configuration
      */
@@ -500,6 +578,9 @@ export class ContinuousDataCollector extends EventEmitter {
             this.healthCheckInterval = null;
         }
 
+        // Electron's Process typings only declare its own events for removeListener
+        (process as EventEmitter).removeListener('SIGTERM', this.handleSignal);
+        (process as EventEmitter).removeListener('SIGINT', this.handleSignal);
         this.removeAllListeners();
     }
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Collector Daemon - continuous mode without a window
+ * Runs the RNG engine, ContinuousDataCollector, BackgroundAnalyzer and SequentialMonitor against the
+ * desktop app's SQLite file, holds the collector lock for as long as it collects and answers control requests
+ */
+
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { createRNGEngine, RNGEngine } from '../../core/rng-engine';
+import { createEntropySource, DEFAULT_ENTROPY_CONFIG, EntropySource } from '../../core/entropy';
+import { createStatisticalAnalyzer } from '../../core/statistics';
+import { TimeSyncConfig, TimeSyncService } from '../../core/time-sync';
+import { DatabaseManager } from '../../database/connection';
+import { SessionRepository } from '../../database/repositories/session-repository';
+import { TrialRepository } from '../../database/repositories/trial-repository';
+import { IntentionRepository } from '../../database/repositories/intention-repository';
+import { FormalEventRepository } from '../../database/repositories/event-repository';
+import { SequentialDesignRepository } from '../../database/repositories/sequential-repository';
+import { ContinuousDataCollector } from '../continuous-manager';
+import { BackgroundAnalyzer } from '../background-analyzer';
+import { SequentialMonitor } from '../sequential-monitor';
+import { CollectorLock, collectorLockPath } from './collector-lock';
+import { ControlRequest, controlPathFor, createControlServer } from './control';
+import { ContinuousConfig, EntropySourceConfig } from '../../shared/types';
+
+/** Electron's app name, which names its userData directory */
+const APP_NAME = 'rng-consciousness-app';
+
+export interface CollectorDaemonOptions {
+    /** Database shared with the desktop app */
+    dbPath: string;
+
+    /** Entropy source (default: OS CSPRNG with WebCrypto backup) */
+    entropy?: EntropySourceConfig;
+
+    /** Store the 200 bits behind every trial */
+    captureRawBits?: boolean;
+
+    /** Collection settings (rate, analysis interval) */
+    config?: Partial<ContinuousConfig>;
+
+    /** Time servers to measure the clock against; sessions record the offset */
+    timeSync?: TimeSyncConfig | null;
+}
+
+/**
+ * Database the desktop app uses: RNG_DB_PATH, else <userData>/data/rng-consciousness.db
+ */
+export function defaultDatabasePath(env: NodeJS.ProcessEnv = process.env): string {
+    if (env.RNG_DB_PATH) {
+        return path.resolve(env.RNG_DB_PATH);
+    }
+
+    const home = os.homedir();
+    const appData = process.platform === 'win32'
+        ? env.APPDATA || path.join(home, 'AppData', 'Roaming')
+        : process.platform === 'darwin'
+            ? path.join(home, 'Library', 'Application Support')
+            : env.XDG_CONFIG_HOME || path.join(home, '.config');
+
+    return path.join(appData, APP_NAME, 'data', 'rng-consciousness.db');
+}
+
+export class CollectorDaemon extends EventEmitter {
+    private options: CollectorDaemonOptions;
+    private controlPath: string;
+    private dbManager: DatabaseManager | null = null;
+    private source: EntropySource | null = null;
+    private engine: RNGEngine | null = null;
+    private trials: TrialRepository | null = null;
+    private collector: ContinuousDataCollector | null = null;
+    private analyzer: BackgroundAnalyzer | null = null;
+    private sequential: SequentialMonitor | null = null;
+    private timeSync: TimeSyncService | null = null;
+    private server: net.Server | null = null;
+    private stopping: Promise<void> | null = null;
+
+    constructor(options: CollectorDaemonOptions) {
+        super();
+        this.options = { ...options, dbPath: path.resolve(options.dbPath) };
+        this.controlPath = controlPathFor(this.options.dbPath);
+    }
+
+    /**
+     * Open the database, take the lock and start collecting and analyzing
+     */
+    async start(): Promise<void> {
+        if (this.collector) {
+            throw new Error('Collector daemon already started');
+        }
+
+        const { dbPath } = this.options;
+        console.log(`Starting collector daemon on ${dbPath}`);
+
+        try {
+            this.dbManager = new DatabaseManager({
+                dbPath,
+                backupPath: path.join(path.dirname(dbPath), 'backups')
+            });
+            await this.dbManager.initialize();
+
+            if (this.options.timeSync) {
+                this.timeSync = new TimeSyncService(this.options.timeSync);
+                await this.timeSync.start();
+            }
+
+            const sessions = new SessionRepository(this.dbManager);
+            const intentions = new IntentionRepository(this.dbManager);
+            const designs = new SequentialDesignRepository(this.dbManager);
+            this.trials = new TrialRepository(this.dbManager);
+
+            this.source = createEntropySource(this.options.entropy ?? DEFAULT_ENTROPY_CONFIG);
+            this.engine = createRNGEngine({ captureRawBits: this.options.captureRawBits === true }, this.source);
+            await this.source.open();
+
+            this.collector = new ContinuousDataCollector(
+                this.engine,
+                sessions,
+                this.trials,
+                intentions,
+                new CollectorLock(collectorLockPath(dbPath), 'daemon', this.controlPath),
+                designs
+            );
+            if (this.options.config) {
+                this.collector.updateConfig(this.options.config);
+            }
+            // Collection errors are logged by the collector; without a listener emit('error') would throw
+            this.collector.on('error', () => undefined);
+            this.collector.on('stopped', () => {
+                this.stop().catch(error => console.error('Collector daemon shutdown failed:', error));
+            });
+
+            this.analyzer = new BackgroundAnalyzer(
+                this.trials,
+                intentions,
+                new FormalEventRepository(this.dbManager),
+                createStatisticalAnalyzer()
+            );
+
+            // Planned looks at continuous designs whose periods are marked here
+            this.sequential = new SequentialMonitor(designs);
+            this.sequential.watchContinuous(this.collector);
+
+            await this.collector.start();
+            this.server = await createControlServer(this.controlPath, request => this.handleControl(request));
+            this.analyzer.startPeriodicAnalysis(this.collector.getConfig().analysisInterval);
+            this.analyzer.watchChangePoints(this.collector);
+
+            process.on('SIGTERM', this.handleSignal);
+            process.on('SIGINT', this.handleSignal);
+
+            console.log(`Collector daemon running (pid ${process.pid})`);
+            this.emit('started');
+        } catch (error) {
+            console.error('Failed to start collector daemon:', error);
+            await this.stop();
+            throw new Error(`Collector daemon failed to start: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stop collecting, store the pending batch and close the database
+     */
+    stop(): Promise<void> {
+        if (!this.stopping) {
+            this.stopping = this.shutdown();
+        }
+        return this.stopping;
+    }
+
+    /**
+     * Control socket of this daemon
+     */
+    getControlPath(): string {
+        return this.controlPath;
+    }
+
+    private handleSignal = (signal: NodeJS.Signals): void => {
+        console.log(`Received ${signal}, stopping collector daemon...`);
+        this.stop().catch(error => console.error('Collector daemon shutdown failed:', error));
+    };
+
+    private async handleControl(request: ControlRequest): Promise<unknown> {
+        const collector = this.collector!;
+
+        switch (request.command) {
+            case 'status':
+                return collector.getStatus();
+            case 'mark':
+                if (request.intention !== 'high' && request.intention !== 'low') {
+                    throw new Error(`Unknown intention "${request.intention}"; expected high or low`);
+                }
+                return collector.startIntentionPeriod(
+                    request.intention,
+                    request.notes ?? '',
+                    undefined,
+                    request.sequentialDesignId
+                );
+            case 'end':
+                await collector.endIntentionPeriod();
+                return null;
+            case 'stop':
+                // Answer first, then shut down
+                setImmediate(() => {
+                    this.stop().catch(error => console.error('Collector daemon shutdown failed:', error));
+                });
+                return null;
+            default:
+                throw new Error(`Unknown control command "${(request as { command: string }).command}"`);
+        }
+    }
+
+    private async shutdown(): Promise<void> {
+        (process as EventEmitter).removeListener('SIGTERM', this.handleSignal);
+        (process as EventEmitter).removeListener('SIGINT', this.handleSignal);
+
+        if (this.server) {
+            const server = this.server;
+            this.server = null;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+
+        this.timeSync?.stop();
+        this.analyzer?.destroy();
+        // Ends the open intention period, completes the session and releases the lock
+        await this.collector?.destroy();
+        await this.sequential?.settle();
+        if (this.trials) {
+            await this.trials.flushBatch();
+            this.trials.destroy();
+        }
+        this.engine?.destroy();
+        await this.source?.close();
+        this.dbManager?.close();
+
+        console.log('Collector daemon stopped');
+        this.emit('stopped');
+    }
+}
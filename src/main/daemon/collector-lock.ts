@@ -0,0 +1,198 @@
+/**
+ * Collector Lock - PID/lock file that keeps one continuous-mode writer per database
+ * The headless daemon and the desktop app both take it before collecting; whoever finds it
+ * held by a live process attaches as a viewer instead of starting a second writer
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { CollectorLockInfo } from '../../shared/types';
+
+/**
+ * Lock file next to a database
+ */
+export function collectorLockPath(dbPath: string): string {
+    return `${dbPath}.collector.lock`;
+}
+
+/**
+ * Human-readable holder of a lock, for messages
+ */
+export function describeCollectorLock(info: CollectorLockInfo): string {
+    return `${info.owner === 'daemon' ? 'collector daemon' : 'desktop app'} (pid ${info.pid})`;
+}
+
+/**
+ * Current holder of a lock file; missing, unreadable and stale locks read as free
+ */
+export function readCollectorLock(lockPath: string): CollectorLockInfo | null {
+    const content = readLockFile(lockPath);
+    return content === null ? null : parseCollectorLock(content);
+}
+
+function readLockFile(lockPath: string): string | null {
+    try {
+        return fs.readFileSync(lockPath, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+function parseCollectorLock(content: string): CollectorLockInfo | null {
+    let raw: any;
+    try {
+        raw = JSON.parse(content);
+    } catch {
+        return null;
+    }
+
+    if (!Number.isInteger(raw?.pid) || !isProcessAlive(raw.pid)) {
+        return null;
+    }
+
+    return {
+        pid: raw.pid,
+        owner: raw.owner === 'daemon' ? 'daemon' : 'desktop',
+        startedAt: new Date(raw.startedAt),
+        controlPath: typeof raw.controlPath === 'string' ? raw.controlPath : undefined
+    };
+}
+
+export class CollectorLock {
+    private lockPath: string;
+    private owner: CollectorLockInfo['owner'];
+    private controlPath?: string;
+    private held: boolean = false;
+
+    constructor(lockPath: string, owner: CollectorLockInfo['owner'], controlPath?: string) {
+        this.lockPath = lockPath;
+        this.owner = owner;
+        this.controlPath = controlPath;
+    }
+
+    /**
+     * Take the lock, replacing one left behind by a process that no longer runs
+     */
+    acquire(): void {
+        if (this.held) return;
+
+        const info: CollectorLockInfo = {
+            pid: process.pid,
+            owner: this.owner,
+            startedAt: new Date(),
+            controlPath: this.controlPath
+        };
+
+        // Written in full first and linked into place, so the lock file never exists half-written
+        const pending = `${this.lockPath}.${process.pid}.${crypto.randomUUID()}`;
+        try {
+            fs.writeFileSync(pending, JSON.stringify(info));
+        } catch (error) {
+            throw new Error(`Collector lock failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        try {
+            for (let attempt = 0; attempt < 2; attempt++) {
+                if (this.link(pending)) {
+                    this.held = true;
+                    return;
+                }
+
+                const content = readLockFile(this.lockPath);
+                const holder = content === null ? null : parseCollectorLock(content);
+                if (holder) {
+                    throw new Error(`Continuous collection is already running in the ${describeCollectorLock(holder)}`);
+                }
+                if (content !== null) {
+                    this.removeStaleLock(content);
+                }
+            }
+        } finally {
+            fs.rmSync(pending, { force: true });
+        }
+
+        throw new Error(`Collector lock failed: ${this.lockPath} keeps reappearing`);
+    }
+
+    /**
+     * Give the lock up; a lock taken over by another process is left alone
+     */
+    release(): void {
+        if (!this.held) return;
+        this.held = false;
+
+        try {
+            const raw = JSON.parse(fs.readFileSync(this.lockPath, 'utf8'));
+            if (raw.pid === process.pid) {
+                fs.rmSync(this.lockPath, { force: true });
+            }
+        } catch (error) {
+            console.warn('Failed to release collector lock:', error);
+        }
+    }
+
+    /**
+     * Whether this instance holds the lock
+     */
+    isHeld(): boolean {
+        return this.held;
+    }
+
+    /**
+     * Live holder other than this instance
+     */
+    getExternalHolder(): CollectorLockInfo | null {
+        if (this.held) return null;
+        return readCollectorLock(this.lockPath);
+    }
+
+    /**
+     * Link a file into the lock's place; false if a lock is already there
+     */
+    private link(source: string): boolean {
+        try {
+            fs.linkSync(source, this.lockPath);
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+            throw new Error(`Collector lock failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Remove a lock whose holder has exited. It is moved aside first and removed only if it
+     * still holds the stale content: a starter that replaced it meanwhile gets its lock back
+     */
+    private removeStaleLock(staleContent: string): void {
+        const claimed = `${this.lockPath}.stale.${process.pid}.${crypto.randomUUID()}`;
+        try {
+            fs.renameSync(this.lockPath, claimed);
+        } catch (error) {
+            // Already cleared by another starter
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+            throw new Error(`Collector lock failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        try {
+            if (readLockFile(claimed) === staleContent) {
+                console.warn(`Removed stale collector lock ${this.lockPath}`);
+                return;
+            }
+            this.link(claimed);
+        } finally {
+            fs.rmSync(claimed, { force: true });
+        }
+    }
+}
+
+/**
+ * Signal 0 checks a process exists; EPERM means it does but belongs to another user
+ */
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Collector control channel - one JSON request and one JSON response per connection,
+ * over a Unix socket next to the database (a named pipe on Windows)
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as crypto from 'crypto';
+
+export type ControlRequest =
+    | { command: 'status' }
+    | { command: 'mark'; intention: 'high' | 'low'; notes?: string; sequentialDesignId?: string }
+    | { command: 'end' }
+    | { command: 'stop' };
+
+type ControlResponse = { ok: true; result: unknown } | { ok: false; error: string };
+
+/** Longest wait for a daemon to answer */
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Control socket for a database file
+ */
+export function controlPathFor(dbPath: string): string {
+    if (process.platform === 'win32') {
+        const hash = crypto.createHash('sha256').update(dbPath.toLowerCase()).digest('hex').slice(0, 16);
+        return `\\\\.\\pipe\\rng-collector-${hash}`;
+    }
+    return `${dbPath}.collector.sock`;
+}
+
+/**
+ * Serve control requests; a socket file left behind by a crashed daemon is replaced
+ */
+export async function createControlServer(
+    controlPath: string,
+    handler: (request: ControlRequest) => Promise<unknown>
+): Promise<net.Server> {
+    const server = net.createServer(socket => {
+        let buffer = '';
+        socket.setEncoding('utf8');
+        socket.on('data', chunk => {
+            buffer += chunk;
+            const newline = buffer.indexOf('\n');
+            if (newline === -1) return;
+
+            respond(buffer.slice(0, newline))
+                .then(response => socket.end(`${JSON.stringify(response)}\n`))
+                .catch(() => socket.destroy());
+            socket.removeAllListeners('data');
+        });
+        socket.on('error', error => console.warn('Collector control connection error:', error));
+    });
+
+    const respond = async (line: string): Promise<ControlResponse> => {
+        try {
+            return { ok: true, result: (await handler(JSON.parse(line))) ?? null };
+        } catch (error) {
+            return { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    if (process.platform !== 'win32') {
+        // Only the lock holder gets here, so an existing socket file is stale
+        fs.rmSync(controlPath, { force: true });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(controlPath, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    return server;
+}
+
+/**
+ * Send one request to a running daemon
+ */
+export function sendControlRequest<T = unknown>(
+    controlPath: string,
+    request: ControlRequest,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const socket = net.createConnection(controlPath);
+        let buffer = '';
+
+        socket.setEncoding('utf8');
+        socket.setTimeout(timeoutMs, () => {
+            socket.destroy(new Error(`Collector daemon did not answer within ${timeoutMs}ms`));
+        });
+        socket.on('connect', () => socket.write(`${JSON.stringify(request)}\n`));
+        socket.on('data', chunk => {
+            buffer += chunk;
+        });
+        socket.on('error', error => reject(new Error(`Collector control failed: ${error.message}`)));
+        socket.on('end', () => {
+            try {
+                const response = JSON.parse(buffer) as ControlResponse;
+                if (response.ok) {
+                    resolve(response.result as T);
+                } else {
+                    reject(new Error(response.error));
+                }
+            } catch {
+                reject(new Error('Collector control failed: malformed response'));
+            }
+        });
+    });
+}
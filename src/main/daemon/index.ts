@@ -0,0 +1,8 @@
+/**
+ * Headless continuous collection
+ * Collector daemon, the lock that keeps one writer per database and the daemon's control channel
+ */
+
+export { CollectorDaemon, defaultDatabasePath, type CollectorDaemonOptions } from './collector-daemon';
+export { CollectorLock, collectorLockPath, describeCollectorLock, readCollectorLock } from './collector-lock';
+export { controlPathFor, createControlServer, sendControlRequest, type ControlRequest } from './control';
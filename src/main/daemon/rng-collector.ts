@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+/**
+ * rng-collector - command line for headless 24/7 continuous collection
+ *
+ * npm run collector -- start|stop|status|mark high|mark low|mark end|export|report [options]
+ *   --db <path>      database shared with the desktop app (default: RNG_DB_PATH or the app's data directory)
+ *   --notes <text>   notes for "mark high|low"
+ *   --design <id>    group-sequential design the "mark high|low" period counts towards
+ *   --date <day>     day for "report" as YYYY-MM-DD (default today)
+ *   --json           machine-readable output for "status" and "report"
+ * "export" takes the batch export options (--format, --from, --to, --session, --out, --prefix).
+ * The entropy source follows the desktop app's RNG_ENTROPY_* settings and RNG_CAPTURE_RAW_BITS,
+ * and RNG_TIME_SERVERS turns on clock sync as in the app.
+ */
+
+import * as path from 'path';
+import { getEntropyConfigFromEnv } from '../../core/entropy';
+import { getTimeSyncConfigFromEnv } from '../../core/time-sync';
+import { createStatisticalAnalyzer } from '../../core/statistics';
+import { DatabaseManager } from '../../database/connection';
+import { TrialRepository } from '../../database/repositories/trial-repository';
+import { IntentionRepository } from '../../database/repositories/intention-repository';
+import { FormalEventRepository } from '../../database/repositories/event-repository';
+import { parseBatchArgs, runBatchExport } from '../../database/export/batch-export';
+import { BackgroundAnalyzer } from '../background-analyzer';
+import { CollectorDaemon, defaultDatabasePath } from './collector-daemon';
+import { collectorLockPath, describeCollectorLock, readCollectorLock } from './collector-lock';
+import { sendControlRequest } from './control';
+import { CollectorLockInfo, ContinuousStatus, DailyReport, IntentionPeriod } from '../../shared/types';
+
+const COMMANDS = ['start', 'stop', 'status', 'mark', 'export', 'report'] as const;
+
+/** Exit code of "status" when no daemon runs (LSB convention) */
+const EXIT_NOT_RUNNING = 3;
+
+/** How long "stop" waits for the daemon to store its batch and exit */
+const STOP_TIMEOUT_MS = 30000;
+
+export interface CollectorCommand {
+    command: typeof COMMANDS[number];
+    dbPath: string;
+    mark?: 'high' | 'low' | 'end';
+    notes?: string;
+    sequentialDesignId?: string;
+    date?: Date;
+    json: boolean;
+    /** Arguments handed to the batch exporter */
+    exportArgs: string[];
+}
+
+/**
+ * Parse command-line arguments (without the node and script entries)
+ */
+export function parseCollectorArgs(args: string[], env: NodeJS.ProcessEnv = process.env): CollectorCommand {
+    const [command, ...rest] = args;
+    if (!COMMANDS.includes(command as CollectorCommand['command'])) {
+        throw new Error(`Unknown command "${command ?? ''}"; expected one of ${COMMANDS.join(', ')}`);
+    }
+
+    const parsed: CollectorCommand = {
+        command: command as CollectorCommand['command'],
+        dbPath: defaultDatabasePath(env),
+        json: false,
+        exportArgs: []
+    };
+
+    if (parsed.command === 'mark') {
+        const intention = rest.shift();
+        if (intention !== 'high' && intention !== 'low' && intention !== 'end') {
+            throw new Error(`mark expects high, low or end, got "${intention ?? ''}"`);
+        }
+        parsed.mark = intention;
+    }
+
+    for (let i = 0; i < rest.length; i++) {
+        const flag = rest[i];
+
+        if (flag === '--json') {
+            parsed.json = true;
+            continue;
+        }
+
+        const value = rest[i + 1];
+        if (flag === '--db' || flag === '--notes' || flag === '--design' || flag === '--date') {
+            if (value === undefined) {
+                throw new Error(`Missing value for ${flag}`);
+            }
+            i++;
+        }
+
+        switch (flag) {
+            case '--db':
+                parsed.dbPath = path.resolve(value);
+                break;
+            case '--notes':
+                parsed.notes = value;
+                break;
+            case '--design':
+                parsed.sequentialDesignId = value;
+                break;
+            case '--date': {
+                const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+                if (!match) {
+                    throw new Error(`--date expects YYYY-MM-DD, got "${value}"`);
+                }
+                // Local midnight, like the daily report's own day boundaries
+                parsed.date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+                break;
+            }
+            default:
+                if (parsed.command !== 'export') {
+                    throw new Error(`Unknown option ${flag}`);
+                }
+                parsed.exportArgs.push(flag);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Run one command; resolves with the process exit code
+ */
+export async function runCollectorCommand(command: CollectorCommand): Promise<number> {
+    switch (command.command) {
+        case 'start':
+            return startDaemon(command);
+        case 'stop':
+            return stopDaemon(command);
+        case 'status':
+            return printStatus(command);
+        case 'mark':
+            return markIntention(command);
+        case 'export':
+            return exportData(command);
+        case 'report':
+            return printReport(command);
+    }
+}
+
+/**
+ * Collect in the foreground until SIGTERM/SIGINT or "rng-collector stop" (run it under systemd or similar)
+ */
+async function startDaemon(command: CollectorCommand): Promise<number> {
+    const daemon = new CollectorDaemon({
+        dbPath: command.dbPath,
+        entropy: getEntropyConfigFromEnv(),
+        captureRawBits: process.env.RNG_CAPTURE_RAW_BITS === '1',
+        timeSync: getTimeSyncConfigFromEnv()
+    });
+
+    const stopped = new Promise<void>(resolve => daemon.once('stopped', resolve));
+    await daemon.start();
+    await stopped;
+    return 0;
+}
+
+async function stopDaemon(command: CollectorCommand): Promise<number> {
+    const lockPath = collectorLockPath(command.dbPath);
+    const holder = readCollectorLock(lockPath);
+
+    if (!holder) {
+        console.log('Collector daemon is not running');
+        return 0;
+    }
+    if (holder.owner !== 'daemon') {
+        throw new Error(`Continuous collection belongs to the ${describeCollectorLock(holder)}; stop it there`);
+    }
+
+    try {
+        await sendControlRequest(requireControlPath(holder), { command: 'stop' });
+    } catch (error) {
+        console.warn(`Control request failed, sending SIGTERM: ${error instanceof Error ? error.message : String(error)}`);
+        process.kill(holder.pid, 'SIGTERM');
+    }
+
+    const deadline = Date.now() + STOP_TIMEOUT_MS;
+    while (readCollectorLock(lockPath)) {
+        if (Date.now() > deadline) {
+            throw new Error(`Collector daemon (pid ${holder.pid}) did not stop within ${STOP_TIMEOUT_MS / 1000}s`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 250));
+    }
+
+    console.log(`Collector daemon (pid ${holder.pid}) stopped`);
+    return 0;
+}
+
+async function printStatus(command: CollectorCommand): Promise<number> {
+    const holder = readCollectorLock(collectorLockPath(command.dbPath));
+
+    if (!holder || holder.owner !== 'daemon') {
+        if (command.json) {
+            console.log(JSON.stringify({ running: false, collector: holder }, null, 2));
+        } else {
+            console.log('Collector daemon is not running');
+            if (holder) {
+                console.log(`Continuous collection is running in the ${describeCollectorLock(holder)}`);
+            }
+        }
+        return EXIT_NOT_RUNNING;
+    }
+
+    const status = await sendControlRequest<ContinuousStatus>(requireControlPath(holder), { command: 'status' });
+    if (command.json) {
+        console.log(JSON.stringify({ running: true, collector: holder, status }, null, 2));
+        return 0;
+    }
+
+    const period = status.currentIntentionPeriod;
+    console.log(`Collector daemon running (pid ${holder.pid}) since ${new Date(holder.startedAt).toLocaleString()}`);
+    console.log(`Database: ${command.dbPath}`);
+    console.log(`This run: ${status.totalTrials} trials at ${status.currentRate.toFixed(2)} trials/s`);
+    console.log(period
+        ? `Intention: ${period.intention} since ${new Date(period.startTime).toLocaleString()}${period.notes ? ` (${period.notes})` : ''}`
+        : 'Intention: baseline');
+    console.log(`Today: ${status.todayStats.trialsCollected} trials, ${status.todayStats.intentionPeriods} intention periods`);
+    console.log(`Health: ${status.systemHealth.status} (RNG ${status.systemHealth.rngStatus})`);
+    return 0;
+}
+
+async function markIntention(command: CollectorCommand): Promise<number> {
+    const holder = readCollectorLock(collectorLockPath(command.dbPath));
+    if (!holder || holder.owner !== 'daemon') {
+        throw new Error(holder
+            ? `Continuous collection belongs to the ${describeCollectorLock(holder)}; mark intention periods there`
+            : 'Collector daemon is not running');
+    }
+
+    const controlPath = requireControlPath(holder);
+    if (command.mark === 'end') {
+        await sendControlRequest(controlPath, { command: 'end' });
+        console.log('Intention period ended');
+    } else {
+        const period = await sendControlRequest<IntentionPeriod>(controlPath, {
+            command: 'mark',
+            intention: command.mark!,
+            notes: command.notes,
+            sequentialDesignId: command.sequentialDesignId
+        });
+        console.log(`Started ${period.intention} intention period ${period.id}`);
+    }
+    return 0;
+}
+
+async function exportData(command: CollectorCommand): Promise<number> {
+    const results = await runBatchExport(parseBatchArgs(['--db', command.dbPath, ...command.exportArgs]));
+    results.forEach(result => console.log(`${result.format}: ${result.filePath}`));
+    return 0;
+}
+
+/**
+ * Daily report of continuous-mode data; reads alongside a running daemon
+ */
+async function printReport(command: CollectorCommand): Promise<number> {
+    const dbManager = new DatabaseManager({
+        dbPath: command.dbPath,
+        backupPath: path.join(path.dirname(command.dbPath), 'backups')
+    });
+    await dbManager.initialize();
+
+    const trials = new TrialRepository(dbManager);
+    try {
+        const analyzer = new BackgroundAnalyzer(
+            trials,
+            new IntentionRepository(dbManager),
+            new FormalEventRepository(dbManager),
+            createStatisticalAnalyzer()
+        );
+        const report = await analyzer.generateDailyReport(command.date ?? new Date());
+        analyzer.destroy();
+
+        console.log(command.json ? JSON.stringify(report, null, 2) : formatReport(report));
+        return 0;
+    } finally {
+        trials.destroy();
+        dbManager.close();
+    }
+}
+
+function formatReport(report: DailyReport): string {
+    const { statistics, intentionAnalysis } = report;
+
+    return [
+        `Daily report for ${report.date.toDateString()}`,
+        `Trials: ${report.totalTrials}`,
+        report.totalTrials > 0
+            ? `Mean: ${statistics.mean.toFixed(3)} (z = ${statistics.zScore.toFixed(3)}, p = ${statistics.pValue.toFixed(4)})`
+            : 'Mean: -',
+        `Intention periods: ${report.intentionPeriods} (${intentionAnalysis.highPeriods.length} high, ` +
+            `${intentionAnalysis.lowPeriods.length} low, effectiveness ${intentionAnalysis.effectiveness.toFixed(3)})`,
+        `Significant events: ${report.significantEvents.length}`
+    ].join('\n');
+}
+
+function requireControlPath(holder: CollectorLockInfo): string {
+    if (!holder.controlPath) {
+        throw new Error(`The ${describeCollectorLock(holder)} has no control socket`);
+    }
+    return holder.controlPath;
+}
+
+// Run the command if called directly
+if (require.main === module) {
+    Promise.resolve()
+        .then(() => runCollectorCommand(parseCollectorArgs(process.argv.slice(2))))
+        .then(code => process.exit(code))
+        .catch(error => {
+            console.error(`rng-collector: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,118 @@
+/**
+ * Generic CSV parser
+ * Two columns, timestamp and value, with an optional header row. Timestamps are ISO 8601 text or
+ * Unix time in seconds or milliseconds; values are 200-bit trial sums. Lines starting with # are comments.
+ */
+
+import type { RejectedRow } from '../../shared/types';
+import type { ParsedImport, ParsedTrial } from './types';
+
+/** Numeric timestamps below this are seconds, above it milliseconds (year 5138 in seconds) */
+const MILLISECONDS_THRESHOLD = 1e11;
+
+const TIMESTAMP_HEADERS = ['timestamp', 'time', 'datetime', 'date', 'gmtime'];
+const VALUE_HEADERS = ['value', 'trial_value', 'trialvalue', 'trial', 'sum'];
+
+/**
+ * Split one CSV line into fields, honouring double quotes
+ */
+export function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field.trim());
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    fields.push(field.trim());
+    return fields;
+}
+
+/**
+ * Lines of a text file without the byte order mark or line terminators
+ */
+export function textLines(content: string): string[] {
+    return content.replace(/^\uFEFF/, '').split(/\r?\n/);
+}
+
+/**
+ * Parse a timestamp field; null when it is neither a number nor a date
+ */
+export function parseTimestamp(text: string): Date | null {
+    if (text === '') return null;
+
+    const numeric = Number(text);
+    const date = Number.isFinite(numeric)
+        ? new Date(numeric < MILLISECONDS_THRESHOLD ? numeric * 1000 : numeric)
+        : new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a "timestamp,value" CSV into a single session
+ */
+export function parseTimestampValueCsv(content: string): ParsedImport {
+    const trials: ParsedTrial[] = [];
+    const rejected: RejectedRow[] = [];
+    let timestampColumn = 0;
+    let valueColumn = 1;
+    let headerChecked = false;
+
+    textLines(content).forEach((text, index) => {
+        const line = index + 1;
+        if (text.trim() === '' || text.startsWith('#')) return;
+
+        const fields = splitCsvLine(text);
+
+        if (!headerChecked) {
+            headerChecked = true;
+            const names = fields.map(field => field.toLowerCase());
+            const timestampHeader = names.findIndex(name => TIMESTAMP_HEADERS.includes(name));
+            const valueHeader = names.findIndex(name => VALUE_HEADERS.includes(name));
+            if (timestampHeader >= 0 || valueHeader >= 0) {
+                timestampColumn = timestampHeader >= 0 ? timestampHeader : 0;
+                valueColumn = valueHeader >= 0 ? valueHeader : 1;
+                return;
+            }
+        }
+
+        if (fields.length <= Math.max(timestampColumn, valueColumn)) {
+            rejected.push({ line, reason: `Expected at least ${Math.max(timestampColumn, valueColumn) + 1} fields, got ${fields.length}` });
+            return;
+        }
+
+        const timestamp = parseTimestamp(fields[timestampColumn]);
+        if (!timestamp) {
+            rejected.push({ line, reason: `Unreadable timestamp "${fields[timestampColumn]}"` });
+            return;
+        }
+
+        trials.push({
+            line,
+            timestamp,
+            trialValue: fields[valueColumn] === '' ? NaN : Number(fields[valueColumn]),
+            experimentMode: 'session',
+            intention: null
+        });
+    });
+
+    return { sessions: trials.length > 0 ? [{ key: 'csv', trials }] : [], rejected };
+}
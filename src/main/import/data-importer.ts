@@ -0,0 +1,210 @@
+/**
+ * Data Importer - Bring external RNG datasets into the trials and sessions tables
+ * Parses GCP egg files, generic "timestamp,value" CSV and this application's JSON exports,
+ * validates every trial with validateRNGTrial and records the import for provenance
+ */
+
+import Database from 'better-sqlite3';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabaseManager, DatabaseManager } from '../../database/connection';
+import { SessionRepository } from '../../database/repositories/session-repository';
+import { TrialRepository } from '../../database/repositories/trial-repository';
+import { ParticipantRepository } from '../../database/repositories/participant-repository';
+import { validateRNGTrial } from '../../core/validation';
+import { ImportFormat, ImportReport, IntentionType, RejectedRow, RNGTrial } from '../../shared/types';
+import { parseGcpCsv } from './gcp-parser';
+import { parseTimestampValueCsv } from './csv-parser';
+import { parseJsonExport } from './json-parser';
+import type { ImportOptions, ParsedImport, ParsedSession } from './types';
+
+/** Rejected rows listed in a report; the count covers all of them */
+const MAX_REPORTED_REJECTIONS = 500;
+
+const INTENTIONS: IntentionType[] = ['high', 'low', 'baseline'];
+
+interface AcceptedSession {
+    session: ParsedSession;
+    intention: IntentionType;
+    trials: RNGTrial[];
+}
+
+export class DataImporter {
+    private db: Database.Database;
+    private sessions: SessionRepository;
+    private trials: TrialRepository;
+    private participants: ParticipantRepository;
+
+    constructor(dbManager?: DatabaseManager) {
+        const manager = dbManager || getDatabaseManager();
+        this.db = manager.getConnection();
+        this.sessions = new SessionRepository(manager);
+        this.trials = new TrialRepository(manager);
+        this.participants = new ParticipantRepository(manager);
+    }
+
+    /**
+     * Parse file contents without touching the database
+     */
+    static parse(content: string, format: ImportFormat): ParsedImport {
+        switch (format) {
+            case 'gcp':
+                return parseGcpCsv(content);
+            case 'csv':
+                return parseTimestampValueCsv(content);
+            case 'json':
+                return parseJsonExport(content);
+            default:
+                throw new Error(`Unsupported import format: ${format}`);
+        }
+    }
+
+    /**
+     * Import a file from disk
+     */
+    async importFile(filePath: string, options: Omit<ImportOptions, 'fileName'> & { fileName?: string }): Promise<ImportReport> {
+        const content = await fs.readFile(filePath, 'utf8');
+        return this.importText(content, { ...options, fileName: options.fileName ?? path.basename(filePath) });
+    }
+
+    /**
+     * Validate and store the contents of one file
+     * Nothing is written when the file cannot be parsed; rows that fail validation are reported and skipped
+     */
+    async importText(content: string, options: ImportOptions): Promise<ImportReport> {
+        try {
+            const parsed = DataImporter.parse(content, options.format);
+            const rejected: RejectedRow[] = [...parsed.rejected];
+            const accepted = parsed.sessions
+                .map(session => this.validateSession(session, options, rejected))
+                .filter(result => result.trials.length > 0);
+
+            const report: ImportReport = {
+                importId: uuidv4(),
+                format: options.format,
+                source: options.source ?? `${options.format}:${options.fileName}`,
+                fileName: options.fileName,
+                checksum: crypto.createHash('sha256').update(content, 'utf8').digest('hex'),
+                sessionIds: [],
+                trialCount: accepted.reduce((sum, result) => sum + result.trials.length, 0),
+                rejectedCount: rejected.length,
+                rejected: rejected.sort((a, b) => a.line - b.line).slice(0, MAX_REPORTED_REJECTIONS),
+                importedAt: new Date()
+            };
+
+            this.logImport(report, accepted.length);
+            try {
+                for (const result of accepted) {
+                    report.sessionIds.push(await this.storeSession(result, report, parsed.sessions.length > 1));
+                }
+            } catch (error) {
+                this.discardImport(report.importId);
+                throw error;
+            }
+
+            console.log(`Imported ${report.trialCount} trials in ${report.sessionIds.length} sessions from ${report.fileName} ` +
+                `(${report.rejectedCount} rows rejected)`);
+            return report;
+        } catch (error) {
+            console.error('Import failed:', error);
+            throw new Error(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Private methods
+
+    private validateSession(session: ParsedSession, options: ImportOptions, rejected: RejectedRow[]): AcceptedSession {
+        const intention = session.intention && INTENTIONS.includes(session.intention)
+            ? session.intention
+            : options.intention ?? 'baseline';
+
+        // Validated against a placeholder id; the stored session id is assigned on insert
+        const placeholderId = uuidv4();
+        const trials: RNGTrial[] = [];
+
+        for (const trial of session.trials) {
+            const candidate: RNGTrial = {
+                timestamp: trial.timestamp,
+                trialValue: trial.trialValue,
+                sessionId: placeholderId,
+                experimentMode: trial.experimentMode,
+                intention: trial.intention ?? intention,
+                trialNumber: trials.length + 1,
+                deviceId: trial.deviceId
+            };
+
+            const validation = validateRNGTrial(candidate);
+            if (validation.isValid) {
+                trials.push(candidate);
+            } else {
+                rejected.push({ line: trial.line, reason: `${session.key}: ${validation.errors.join('; ')}` });
+            }
+        }
+
+        return { session, intention, trials };
+    }
+
+    private async storeSession(result: AcceptedSession, report: ImportReport, tagSessions: boolean): Promise<string> {
+        const { session, intention, trials } = result;
+        // A day of GCP data is too long to spread into Math.min
+        const startTime = trials.reduce((min, trial) => Math.min(min, trial.timestamp.getTime()), Infinity);
+        const endTime = trials.reduce((max, trial) => Math.max(max, trial.timestamp.getTime()), -Infinity);
+
+        const participantId = session.participantCode
+            ? (await this.participants.resolveParticipant(session.participantCode)).id
+            : undefined;
+
+        const sessionId = await this.sessions.createSession({
+            startTime: new Date(startTime),
+            endTime: new Date(endTime),
+            intention,
+            targetTrials: session.targetTrials ?? trials.length,
+            status: session.status ?? 'completed',
+            notes: session.notes,
+            participantId,
+            feedback: session.feedback ?? 'none',
+            source: tagSessions ? `${report.source}#${session.key}` : report.source,
+            importId: report.importId
+        });
+
+        await this.trials.insertTrialsBatch(trials.map(trial => ({ ...trial, sessionId })));
+        await this.sessions.updateSession(sessionId, { duration: endTime - startTime });
+        return sessionId;
+    }
+
+    private logImport(report: ImportReport, sessionCount: number): void {
+        this.db.prepare(`
+            INSERT INTO data_imports (
+                id, format, source, file_name, checksum,
+                session_count, trial_count, rejected_count, imported_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            report.importId,
+            report.format,
+            report.source,
+            report.fileName,
+            report.checksum,
+            sessionCount,
+            report.trialCount,
+            report.rejectedCount,
+            report.importedAt.getTime()
+        );
+    }
+
+    /**
+     * Remove everything a failed import wrote
+     */
+    private discardImport(importId: string): void {
+        try {
+            this.db.transaction(() => {
+                this.db.prepare('DELETE FROM trials WHERE session_id IN (SELECT id FROM sessions WHERE import_id = ?)').run(importId);
+                this.db.prepare('DELETE FROM sessions WHERE import_id = ?').run(importId);
+                this.db.prepare('DELETE FROM data_imports WHERE id = ?').run(importId);
+            })();
+        } catch (error) {
+            console.error('Failed to discard partial import:', error);
+        }
+    }
+}
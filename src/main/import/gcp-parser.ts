@@ -0,0 +1,84 @@
+/**
+ * Global Consciousness Project egg data parser
+ * Per-second CSV as produced by the GCP basket extract. Every line starts with a record type:
+ * - 12 names the columns: 12,gmtime,Date/Time,<egg id>,<egg id>,...
+ * - 13 holds one second: 13,<Unix seconds>,<date text>,<trial sum>,<trial sum>,...
+ * Other record types carry file and egg metadata and are skipped. An empty cell is an egg that
+ * did not report that second. Each egg becomes its own session, its trials tagged with the egg id.
+ */
+
+import type { RejectedRow } from '../../shared/types';
+import { splitCsvLine, textLines } from './csv-parser';
+import type { ParsedImport, ParsedSession } from './types';
+
+const HEADER_RECORD = '12';
+const DATA_RECORD = '13';
+
+/** Columns before the first egg in header and data records */
+const LEADING_COLUMNS = 3;
+
+export function parseGcpCsv(content: string): ParsedImport {
+    const rejected: RejectedRow[] = [];
+    let eggs: ParsedSession[] | null = null;
+    let eggIds: string[] = [];
+
+    const lines = textLines(content);
+    for (let index = 0; index < lines.length; index++) {
+        const line = index + 1;
+        const text = lines[index];
+        if (text.trim() === '') continue;
+
+        const fields = splitCsvLine(text);
+
+        if (fields[0] === HEADER_RECORD) {
+            if (eggs) {
+                rejected.push({ line, reason: 'Repeated type 12 header record' });
+                continue;
+            }
+            eggIds = fields.slice(LEADING_COLUMNS);
+            eggs = eggIds.map(id => ({
+                key: `egg-${id}`,
+                notes: `GCP egg ${id}`,
+                trials: []
+            }));
+            continue;
+        }
+
+        if (fields[0] !== DATA_RECORD) continue;
+
+        if (!eggs) {
+            rejected.push({ line, reason: 'Data record before the type 12 header record' });
+            continue;
+        }
+
+        if (fields.length > LEADING_COLUMNS + eggs.length) {
+            rejected.push({ line, reason: `Expected at most ${LEADING_COLUMNS + eggs.length} fields, got ${fields.length}` });
+            continue;
+        }
+
+        const seconds = Number(fields[1]);
+        if (fields[1] === '' || !Number.isFinite(seconds)) {
+            rejected.push({ line, reason: `Unreadable gmtime "${fields[1]}"` });
+            continue;
+        }
+
+        const timestamp = new Date(seconds * 1000);
+        for (let i = LEADING_COLUMNS; i < fields.length; i++) {
+            if (fields[i] === '') continue;
+            eggs[i - LEADING_COLUMNS].trials.push({
+                line,
+                timestamp,
+                trialValue: Number(fields[i]),
+                experimentMode: 'session',
+                intention: null,
+                deviceId: eggIds[i - LEADING_COLUMNS]
+            });
+        }
+    }
+
+    if (!eggs) {
+        throw new Error('No type 12 header record; not a GCP egg data file');
+    }
+
+    return { sessions: eggs.filter(egg => egg.trials.length > 0), rejected };
+}
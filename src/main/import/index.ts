@@ -0,0 +1,10 @@
+/**
+ * Data import pipeline
+ * GCP egg files, generic "timestamp,value" CSV and this application's JSON exports
+ */
+
+export { DataImporter } from './data-importer';
+export { parseGcpCsv } from './gcp-parser';
+export { parseTimestampValueCsv, splitCsvLine } from './csv-parser';
+export { parseJsonExport } from './json-parser';
+export type { ImportOptions, ParsedImport, ParsedSession, ParsedTrial } from './types';
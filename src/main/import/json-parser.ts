@@ -0,0 +1,84 @@
+/**
+ * JSON export parser
+ * Reads this application's own JSON exports ({ metadata, dictionary, tables }). Sessions keep their
+ * intention, status, feedback, notes and participant code; continuous-mode trials, which have no
+ * session, are gathered into one session.
+ */
+
+import type {
+    ExperimentMode,
+    FeedbackModality,
+    IntentionType,
+    RejectedRow,
+    SessionStatus
+} from '../../shared/types';
+import type { ParsedImport, ParsedSession } from './types';
+
+const CONTINUOUS_KEY = 'continuous';
+
+type JsonRow = Record<string, unknown>;
+
+function text(value: unknown): string | undefined {
+    return value === null || value === undefined || value === '' ? undefined : String(value);
+}
+
+export function parseJsonExport(content: string): ParsedImport {
+    let document: { tables?: { sessions?: JsonRow[]; trials?: JsonRow[] } };
+    try {
+        document = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const trials = document?.tables?.trials;
+    if (!Array.isArray(trials)) {
+        throw new Error('No tables.trials array; not a JSON export of this application');
+    }
+
+    const sessions = new Map<string, ParsedSession>();
+    for (const row of document.tables?.sessions ?? []) {
+        const id = text(row.id);
+        if (!id) continue;
+
+        sessions.set(id, {
+            key: id,
+            intention: row.intention as IntentionType,
+            status: row.status === 'running' ? 'stopped' : row.status as SessionStatus,
+            targetTrials: typeof row.target_trials === 'number' ? row.target_trials : undefined,
+            feedback: text(row.feedback) as FeedbackModality | undefined,
+            participantCode: text(row.participant),
+            notes: text(row.notes),
+            trials: []
+        });
+    }
+
+    const rejected: RejectedRow[] = [];
+    trials.forEach((row, index) => {
+        const line = index + 1;
+        const timestamp = new Date(String(row.timestamp));
+        if (row.timestamp === null || row.timestamp === undefined || isNaN(timestamp.getTime())) {
+            rejected.push({ line, reason: `Unreadable timestamp "${row.timestamp}"` });
+            return;
+        }
+
+        const key = text(row.session_id) ?? CONTINUOUS_KEY;
+        let session = sessions.get(key);
+        if (!session) {
+            // Trials exported without their session row
+            session = key === CONTINUOUS_KEY
+                ? { key, notes: 'Continuous-mode trials', trials: [] }
+                : { key, intention: (text(row.intention) as IntentionType | undefined), trials: [] };
+            sessions.set(key, session);
+        }
+
+        session.trials.push({
+            line,
+            timestamp,
+            trialValue: typeof row.trial_value === 'number' ? row.trial_value : NaN,
+            experimentMode: row.experiment_mode as ExperimentMode,
+            intention: (text(row.intention) as IntentionType | undefined) ?? null
+        });
+    });
+
+    return { sessions: [...sessions.values()].filter(session => session.trials.length > 0), rejected };
+}
@@ -0,0 +1,56 @@
+/**
+ * Data import types
+ * Parsers turn a file into sessions of candidate trials; the importer validates and stores them
+ */
+
+import type {
+    ExperimentMode,
+    FeedbackModality,
+    ImportFormat,
+    IntentionType,
+    RejectedRow,
+    SessionStatus
+} from '../../shared/types';
+
+export interface ParsedTrial {
+    /** Line (or JSON row) the trial came from, for rejection reports */
+    line: number;
+    timestamp: Date;
+    trialValue: number;
+    experimentMode: ExperimentMode;
+    intention: IntentionType | null;
+
+    /** GCP egg id, so an imported network can be analyzed device by device */
+    deviceId?: string;
+}
+
+/**
+ * One session to create; fields left out fall back to the import options
+ */
+export interface ParsedSession {
+    /** Identifies the session within the file; appended to the provenance tag */
+    key: string;
+    intention?: IntentionType;
+    status?: SessionStatus;
+    targetTrials?: number;
+    feedback?: FeedbackModality;
+    participantCode?: string;
+    notes?: string;
+    trials: ParsedTrial[];
+}
+
+export interface ParsedImport {
+    sessions: ParsedSession[];
+    rejected: RejectedRow[];
+}
+
+export interface ImportOptions {
+    format: ImportFormat;
+    fileName: string;
+
+    /** Provenance tag; defaults to "<format>:<fileName>" */
+    source?: string;
+
+    /** Intention recorded for gcp and csv imports; defaults to baseline */
+    intention?: IntentionType;
+}
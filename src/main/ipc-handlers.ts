@@ -0,0 +1,409 @@
+/**
+ * IPC Handlers
+ *
+ * Registers the typed request/response channels declared in shared/ipc-types
+ * and forwards engine, session, continuous-mode, network, formal and sequential-look events to renderer windows.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import { RNGEngine } from '../core/rng-engine';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import { SessionRepository } from '../database/repositories/session-repository';
+import { IntentionRepository } from '../database/repositories/intention-repository';
+import { ParticipantRepository } from '../database/repositories/participant-repository';
+import { PreRegistrationRepository } from '../database/repositories/preregistration-repository';
+import { SeriesRepository } from '../database/repositories/series-repository';
+import { DataExporter } from '../database/export';
+import { AdvancedResearchStats } from '../core/advanced-research-stats';
+import { PreRegistrationAnalyzer } from '../core/preregistration';
+import { TriPolarProtocol } from '../core/tri-polar';
+import { ContinuousDataCollector } from './continuous-manager';
+import { DataImporter } from './import';
+import { BackgroundAnalyzer } from './background-analyzer';
+import { SessionController } from './session-controller';
+import { NetworkController } from './network-controller';
+import { SequentialMonitor } from './sequential-monitor';
+import {
+    IpcChannel,
+    IpcArgs,
+    IpcResult,
+    IpcEvent,
+    IpcEventMap
+} from '../shared/ipc-types';
+import {
+    RNGTrial,
+    EngineStatus,
+    HealthStatus,
+    IntentionPeriod,
+    SignificantEvent,
+    TimelinePoint,
+    TimeRange,
+    SeriesDefinition,
+    SessionSeries,
+    NetworkStatus
+} from '../shared/types';
+import {
+    FormalEvent,
+    GroupSequentialStatus,
+    OperatorAnalysis,
+    PreRegistrationReport,
+    SeriesAnalysis
+} from '../shared/analysis-types';
+
+/**
+ * Maximum number of points returned for a timeline query
+ */
+const MAX_TIMELINE_POINTS = 500;
+
+/**
+ * Everything the IPC layer needs from the main process
+ */
+export interface IpcContext {
+    sessionEngine: RNGEngine;
+    sessionController: SessionController;
+    collector: ContinuousDataCollector;
+    network: NetworkController;
+    analyzer: BackgroundAnalyzer;
+    sequential: SequentialMonitor;
+    repositories: {
+        trials: TrialRepository;
+        sessions: SessionRepository;
+        intentions: IntentionRepository;
+        participants: ParticipantRepository;
+        preregistrations: PreRegistrationRepository;
+        series: SeriesRepository;
+    };
+    exporter: DataExporter;
+    importer: DataImporter;
+}
+
+/**
+ * Register a typed handler for a request channel
+ */
+function handle<C extends IpcChannel>(
+    channel: C,
+    handler: (...args: IpcArgs<C>) => Promise<IpcResult<C>> | IpcResult<C>
+): void {
+    ipcMain.handle(channel, (_event, ...args: unknown[]) => handler(...(args as IpcArgs<C>)));
+}
+
+/**
+ * Push an event to every open renderer window
+ */
+export function broadcast<E extends IpcEvent>(event: E, payload: IpcEventMap[E]): void {
+    for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed()) {
+            window.webContents.send(event, payload);
+        }
+    }
+}
+
+/**
+ * Register all IPC channels and event forwarding
+ * Returns a function that removes every handler and listener again
+ */
+export function registerIpcHandlers(context: IpcContext): () => void {
+    const {
+        sessionEngine, sessionController, collector, network, analyzer, sequential, repositories, exporter, importer
+    } = context;
+
+    // Session mode
+    handle('session:start', config => sessionController.startSession(config));
+    handle('session:pause', () => sessionController.pauseSession());
+    handle('session:resume', () => sessionController.resumeSession());
+    handle('session:stop', emergency => sessionController.stopSession(emergency));
+    handle('session:current', () => sessionController.getCurrent());
+
+    // Continuous mode
+    handle('continuous:start', async () => {
+        await collector.start();
+        return collector.getStatus();
+    });
+    handle('continuous:stop', async () => {
+        await collector.stop();
+        return collector.getStatus();
+    });
+    handle('continuous:status', () => collector.getStatus());
+    handle('intention:start', (intention, notes, participantId, sequentialDesignId) =>
+        collector.startIntentionPeriod(intention, notes, participantId, sequentialDesignId)
+    );
+    handle('intention:end', () => collector.endIntentionPeriod());
+    handle('intention:update-notes', notes => collector.updateIntentionNotes(notes));
+
+    // Multi-device network mode
+    handle('network:devices', () => network.getDevices());
+    handle('network:start', config => network.start(config));
+    handle('network:stop', () => network.stop());
+    handle('network:status', () => network.getStatus());
+    handle('network:analyze', request => network.analyze(request));
+
+    // Formal events
+    handle('events:list', () => analyzer.listFormalEvents());
+    handle('events:register', definition => analyzer.registerFormalEvent(definition));
+    handle('events:evaluate', () => analyzer.evaluateDueEvents());
+    handle('events:series', () => analyzer.getFormalEventSeries());
+
+    // Group-sequential designs
+    handle('sequential:list', () => sequential.listDesigns());
+    handle('sequential:create', design => sequential.createDesign(design));
+    handle('sequential:status', designId => sequential.getStatus(designId));
+    handle('sequential:look', async designId => {
+        await sequential.performLook(designId, 'analyst');
+        return sequential.getStatus(designId);
+    });
+
+    // Engine and health
+    handle('engine:status', () => sessionEngine.getStatus());
+    handle('health:status', async () => (await collector.getStatus()).systemHealth);
+
+    // Participant registry
+    handle('participants:list', query => repositories.participants.listParticipants(query));
+    handle('participants:register', async registration => {
+        const participantId = await repositories.participants.registerParticipant(registration);
+        return (await repositories.participants.getParticipant(participantId))!;
+    });
+    handle('participants:update', async (participantId, updates) => {
+        await repositories.participants.updateParticipant(participantId, updates);
+        return (await repositories.participants.getParticipant(participantId))!;
+    });
+    handle('participants:analysis', participantId => getOperatorAnalysis(context, participantId));
+
+    // Pre-registration
+    handle('preregistrations:list', () => repositories.preregistrations.listRegistrations());
+    handle('preregistrations:create', async design => {
+        const plan = PreRegistrationAnalyzer.createPlan(design);
+        const registrationId = await repositories.preregistrations.createRegistration(plan);
+        return (await repositories.preregistrations.getRegistration(registrationId))!;
+    });
+    handle('preregistrations:lock', registrationId => repositories.preregistrations.lockRegistration(registrationId));
+    handle('preregistrations:complete', async registrationId => {
+        await repositories.preregistrations.completeRegistration(registrationId);
+        return (await repositories.preregistrations.getRegistration(registrationId))!;
+    });
+    handle('preregistrations:report', registrationId => getPreRegistrationReport(context, registrationId));
+
+    // Tri-polar series
+    handle('series:list', query => repositories.series.listSeries(query));
+    handle('series:create', definition => createSeries(context, definition));
+    handle('series:get', seriesId => repositories.series.getSeries(seriesId));
+    handle('series:abandon', async seriesId => {
+        await repositories.series.abandonSeries(seriesId);
+        return (await repositories.series.getSeries(seriesId))!;
+    });
+    handle('series:analysis', seriesId => getSeriesAnalysis(context, seriesId));
+
+    // Repository queries
+    handle('data:sessions', (limit, query) => repositories.sessions.getRecentSessions(limit, query));
+    handle('data:session-trials', sessionId => repositories.trials.getTrialsBySession(sessionId));
+    handle('data:session-stats', sessionId => repositories.sessions.getSessionStats(sessionId));
+    handle('data:trials-by-range', (start, end, query) =>
+        repositories.trials.getTrialsByTimeRange(start, end, query)
+    );
+    handle('data:intention-periods', days => repositories.intentions.getIntentionPeriods(days));
+    handle('data:timeline', range => getTimeline(context, range));
+    handle('data:significant-events', range => getSignificantEvents(analyzer, range));
+    handle('data:feedback-comparison', async participantId =>
+        AdvancedResearchStats.compareFeedbackModalities(
+            await repositories.sessions.getSessionTotals({ participantId })
+        )
+    );
+    handle('data:meta-analysis', async ({ participantId, intention, startTime, endTime, ...options }) =>
+        AdvancedResearchStats.MetaAnalyzer.analyze(
+            await repositories.sessions.getSessionTotals({ participantId, intention, startTime, endTime }),
+            options
+        )
+    );
+    handle('data:publication-bias', async ({ participantId, intention, startTime, endTime, ...options }) =>
+        AdvancedResearchStats.PublicationBiasAnalyzer.analyze(
+            await repositories.sessions.getSessionTotals({ participantId, intention, startTime, endTime }),
+            options
+        )
+    );
+    handle('data:bayesian-analysis', async ({ participantId, intention, startTime, endTime, ...options }) =>
+        AdvancedResearchStats.BayesianAnalyzer.analyze(
+            AdvancedResearchStats.BayesianAnalyzer.evidenceFromSessions(
+                await repositories.sessions.getSessionTotals({ participantId, intention, startTime, endTime })
+            ),
+            options
+        )
+    );
+    handle('data:change-points', request => analyzer.analyzeChangePoints(request));
+    handle('data:export', request => exporter.exportData(request));
+    handle('data:publish-package', request => exporter.publishPackage(request));
+    handle('data:import', ({ content, ...options }) => importer.importText(content, options));
+
+    // Event forwarding
+    const onSessionTrial = (trial: RNGTrial) => broadcast('trial', trial);
+    const onSessionStatus = (update: IpcEventMap['session-status']) => broadcast('session-status', update);
+    const onEngineStatus = (status: EngineStatus) => broadcast('engine-status', status);
+    const onContinuousTrial = (trial: RNGTrial) => broadcast('trial', trial);
+    const onContinuousChange = async () => broadcast('continuous-status', await collector.getStatus());
+    const onHealth = (health: HealthStatus) => broadcast('health', health);
+    const onIntentionPeriod = (period: IntentionPeriod) => broadcast('intention-period', period);
+    const onSignificantEvent = (event: SignificantEvent) => broadcast('significant-event', event);
+    const onNetworkStatus = (status: NetworkStatus) => broadcast('network-status', status);
+    const onFormalEvent = (event: FormalEvent) => broadcast('formal-event', event);
+    const onSequentialLook = (status: GroupSequentialStatus) => broadcast('sequential-look', status);
+
+    sessionController.on('trial', onSessionTrial);
+    sessionController.on('status', onSessionStatus);
+    sessionEngine.addStatusListener(onEngineStatus);
+    collector.on('trialGenerated', onContinuousTrial);
+    collector.on('started', onContinuousChange);
+    collector.on('stopped', onContinuousChange);
+    collector.on('healthUpdate', onHealth);
+    collector.on('intentionPeriodStarted', onIntentionPeriod);
+    collector.on('intentionPeriodEnded', onIntentionPeriod);
+    collector.on('intentionPeriodUpdated', onIntentionPeriod);
+    analyzer.on('significantEvent', onSignificantEvent);
+    analyzer.on('formalEventEvaluated', onFormalEvent);
+    sequential.on('look', onSequentialLook);
+    network.on('status', onNetworkStatus);
+
+    return () => {
+        const channels: IpcChannel[] = [
+            'session:start', 'session:pause', 'session:resume', 'session:stop', 'session:current',
+            'continuous:start', 'continuous:stop', 'continuous:status',
+            'intention:start', 'intention:end', 'intention:update-notes',
+            'network:devices', 'network:start', 'network:stop', 'network:status', 'network:analyze',
+            'events:list', 'events:register', 'events:evaluate', 'events:series',
+            'sequential:list', 'sequential:create', 'sequential:status', 'sequential:look',
+            'engine:status', 'health:status',
+            'participants:list', 'participants:register', 'participants:update', 'participants:analysis',
+            'preregistrations:list', 'preregistrations:create', 'preregistrations:lock',
+            'preregistrations:complete', 'preregistrations:report',
+            'series:list', 'series:create', 'series:get', 'series:abandon', 'series:analysis',
+            'data:sessions', 'data:session-trials', 'data:session-stats', 'data:trials-by-range',
+            'data:intention-periods', 'data:timeline', 'data:significant-events', 'data:feedback-comparison',
+            'data:meta-analysis', 'data:publication-bias', 'data:bayesian-analysis', 'data:change-points',
+            'data:export', 'data:publish-package', 'data:import'
+        ];
+        channels.forEach(channel => ipcMain.removeHandler(channel));
+
+        sessionController.off('trial', onSessionTrial);
+        sessionController.off('status', onSessionStatus);
+        sessionEngine.removeStatusListener(onEngineStatus);
+        collector.off('trialGenerated', onContinuousTrial);
+        collector.off('started', onContinuousChange);
+        collector.off('stopped', onContinuousChange);
+        collector.off('healthUpdate', onHealth);
+        collector.off('intentionPeriodStarted', onIntentionPeriod);
+        collector.off('intentionPeriodEnded', onIntentionPeriod);
+        collector.off('intentionPeriodUpdated', onIntentionPeriod);
+        analyzer.off('significantEvent', onSignificantEvent);
+        analyzer.off('formalEventEvaluated', onFormalEvent);
+        sequential.off('look', onSequentialLook);
+        network.off('status', onNetworkStatus);
+    };
+}
+
+/**
+ * Build a downsampled timeline of continuous-mode trials for a time range
+ */
+async function getTimeline(context: IpcContext, range: TimeRange): Promise<TimelinePoint[]> {
+    const trials = await context.repositories.trials.getTrialsByTimeRange(range.start, range.end, {
+        experimentMode: 'continuous'
+    });
+    if (trials.length === 0) return [];
+
+    const days = Math.ceil((Date.now() - range.start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    const periods = await context.repositories.intentions.getIntentionPeriods(days, {
+        endTime: range.end
+    });
+    const events = getSignificantEvents(context.analyzer, range);
+
+    const bucketSize = Math.max(1, Math.ceil(trials.length / MAX_TIMELINE_POINTS));
+    const points: TimelinePoint[] = [];
+    let cumulativeDeviation = 0;
+
+    for (let i = 0; i < trials.length; i += bucketSize) {
+        const bucket = trials.slice(i, i + bucketSize);
+        const sum = bucket.reduce((acc, trial) => acc + trial.trialValue, 0);
+        cumulativeDeviation += sum - bucket.length * 100;
+
+        const timestamp = bucket[bucket.length - 1].timestamp;
+        const intentionPeriod = periods.find(period =>
+            timestamp >= period.startTime && (!period.endTime || timestamp <= period.endTime)
+        ) || null;
+        const isSignificant = events.some(event =>
+            timestamp >= event.dataRange.startTime && timestamp <= event.dataRange.endTime
+        );
+
+        points.push({
+            timestamp,
+            value: sum / bucket.length,
+            cumulativeDeviation,
+            intentionPeriod,
+            isSignificant
+        });
+    }
+
+    return points;
+}
+
+/**
+ * Per-operator analysis over every session linked to a participant
+ */
+async function getOperatorAnalysis(context: IpcContext, participantId: string): Promise<OperatorAnalysis | null> {
+    const participant = await context.repositories.participants.getParticipant(participantId);
+    if (!participant) return null;
+
+    const totals = await context.repositories.participants.getOperatorSessionTotals(participantId);
+    return AdvancedResearchStats.analyzeOperator(participant.id, totals);
+}
+
+/**
+ * Confirmatory analysis of the sessions tagged to a pre-registration, by its locked plan only
+ */
+async function getPreRegistrationReport(
+    context: IpcContext,
+    registrationId: string
+): Promise<PreRegistrationReport | null> {
+    const { preregistrations } = context.repositories;
+    const registration = await preregistrations.getRegistration(registrationId);
+    if (!registration) return null;
+
+    const hashVerified = await preregistrations.verifyRegistration(registrationId);
+    const sessions = await preregistrations.getRegisteredSessions(registrationId);
+    return PreRegistrationAnalyzer.buildReport(registration, hashVerified, sessions);
+}
+
+/**
+ * Schedule a tri-polar series; randomized run orders come from the session engine's entropy source
+ */
+async function createSeries(context: IpcContext, definition: SeriesDefinition): Promise<SessionSeries> {
+    const { participants, series } = context.repositories;
+    const participantId = definition.participantId?.trim()
+        ? (await participants.resolveParticipant(definition.participantId)).id
+        : undefined;
+
+    const runs = TriPolarProtocol.schedule(
+        definition.blocks,
+        definition.order,
+        context.sessionEngine.getEntropySource()
+    );
+    const seriesId = await series.createSeries({ ...definition, participantId }, runs);
+    return (await series.getSeries(seriesId))!;
+}
+
+/**
+ * Per-direction results and high-minus-low separation for a series
+ */
+async function getSeriesAnalysis(context: IpcContext, seriesId: string): Promise<SeriesAnalysis | null> {
+    const series = await context.repositories.series.getSeries(seriesId);
+    if (!series) return null;
+
+    const totals = await context.repositories.series.getRunTotals(seriesId);
+    return AdvancedResearchStats.analyzeSeries(series.id, series.runs.length, totals);
+}
+
+/**
+ * Significant events detected by the background analyzer within a time range
+ */
+function getSignificantEvents(analyzer: BackgroundAnalyzer, range: TimeRange): SignificantEvent[] {
+    const hours = (Date.now() - range.start.getTime()) / (60 * 60 * 1000);
+
+    return analyzer.getRecentSignificantEvents(Math.max(hours, 0)).filter(event =>
+        event.timestamp >= range.start && event.timestamp <= range.end
+    );
+}
@@ -1,9 +1,42 @@
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, dialog } from 'electron';
 import * as path from 'path';
+import { createRNGEngine, RNGEngine } from '../core/rng-engine';
+import { createEntropySource, getEntropyConfigFromEnv, DEFAULT_ENTROPY_CONFIG, EntropySource } from '../core/entropy';
+import { createStatisticalAnalyzer } from '../core/statistics';
+import { getTimeSyncConfigFromEnv, TimeSyncService } from '../core/time-sync';
+import { getDatabaseManager, initializeDatabase, shutdownDatabase, DataExporter } from '../database';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import { ContinuousDataCollector } from './continuous-manager';
+import { BackgroundAnalyzer } from './background-analyzer';
+import { SessionController } from './session-controller';
+import { NetworkController } from './network-controller';
+import { SequentialMonitor } from './sequential-monitor';
+import { registerIpcHandlers } from './ipc-handlers';
+import { DataImporter } from './import';
+import { CollectorLock, collectorLockPath, describeCollectorLock } from './daemon';
+import { LocalApiContext, LocalApiServer, resolveApiToken } from './api';
+import { EntropySourceConfig, NetworkDeviceConfig } from '../shared/types';
 
 // Keep a global reference of the window object
 let mainWindow: BrowserWindow | null = null;
 
+// Main-process services shared by every window
+let services: {
+    sessionEngine: RNGEngine;
+    continuousEngine: RNGEngine;
+    entropySources: EntropySource[];
+    sessionController: SessionController;
+    collector: ContinuousDataCollector;
+    network: NetworkController;
+    analyzer: BackgroundAnalyzer;
+    trials: TrialRepository;
+    timeSync: TimeSyncService | null;
+    api: LocalApiServer | null;
+    sequential: SequentialMonitor;
+    unregisterIpc: () => void;
+    unwatchSequential: () => void;
+} | null = null;
+
 const createWindow = (): void => {
     // Create the browser window
     mainWindow = new BrowserWindow({
@@ -32,8 +65,257 @@ const createWindow = (): void => {
     });
 };
 
+/**
+ * Network devices - RNG_NETWORK_DEVICES lists one source per device, comma-separated:
+ * "software" for the OS CSPRNG or a hardware device path (default three software devices)
+ */
+const getNetworkDevices = (entropyConfig: EntropySourceConfig): NetworkDeviceConfig[] => {
+    const entries = (process.env.RNG_NETWORK_DEVICES || 'software,software,software')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry !== '');
+
+    return entries.map((entry, index) => entry === 'software'
+        ? {
+            id: `software-${index + 1}`,
+            entropy: { ...DEFAULT_ENTROPY_CONFIG, primaryRetryInterval: entropyConfig.primaryRetryInterval }
+        }
+        : {
+            id: `${path.basename(entry)}-${index + 1}`,
+            entropy: { ...entropyConfig, engine: 'hardware', backupEngine: 'software', devicePath: entry }
+        });
+};
+
+/**
+ * Local API - off unless RNG_API_PORT is set; listens on 127.0.0.1 and requires RNG_API_TOKEN,
+ * or else the token generated into <data directory>/api-token
+ */
+const startLocalApi = async (context: LocalApiContext, dataDirectory: string): Promise<LocalApiServer | null> => {
+    if (!process.env.RNG_API_PORT) return null;
+
+    const port = Number(process.env.RNG_API_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.warn(`Ignoring RNG_API_PORT=${process.env.RNG_API_PORT}: not a port number`);
+        return null;
+    }
+
+    const token = resolveApiToken(path.join(dataDirectory, 'api-token'), process.env.RNG_API_TOKEN);
+    const api = new LocalApiServer(context, { port, token });
+    try {
+        await api.start();
+        return api;
+    } catch (error) {
+        console.error('Failed to start local API:', error);
+        return null;
+    }
+};
+
+/**
+ * Initialize the database, RNG engines and IPC layer, undoing in reverse whatever had
+ * started if a later step fails
+ */
+const initializeServices = async (): Promise<void> => {
+    const started: Array<() => unknown> = [];
+    try {
+        services = await startServices(started);
+    } catch (error) {
+        for (const undo of started.reverse()) {
+            try {
+                await undo();
+            } catch (undoError) {
+                console.error('Failed to stop a service after a failed start:', undoError);
+            }
+        }
+        throw error;
+    }
+};
+
+/**
+ * Start every main-process service, recording how to stop each one in `started`
+ */
+const startServices = async (started: Array<() => unknown>): Promise<NonNullable<typeof services>> => {
+    // RNG_DB_PATH points the app at another database, e.g. one the headless collector writes
+    const dbPath = process.env.RNG_DB_PATH
+        ? path.resolve(process.env.RNG_DB_PATH)
+        : path.join(app.getPath('userData'), 'data', 'rng-consciousness.db');
+
+    getDatabaseManager({
+        dbPath,
+        backupPath: path.join(path.dirname(dbPath), 'backups')
+    });
+    const { dbManager, repositories } = await initializeDatabase();
+    started.push(() => shutdownDatabase());
+    started.push(() => repositories.trials.flushBatch());
+
+    // Measure the clock first so the sessions started below record the offset
+    const timeSyncConfig = getTimeSyncConfigFromEnv();
+    const timeSync = timeSyncConfig ? new TimeSyncService(timeSyncConfig) : null;
+    await timeSync?.start();
+    started.push(() => timeSync?.stop());
+
+    // Separate engines so session trials and continuous trials never share counters
+    const entropyConfig = getEntropyConfigFromEnv();
+    const sessionSource = createEntropySource(entropyConfig);
+    const continuousSource = createEntropySource(entropyConfig);
+    // RNG_CAPTURE_RAW_BITS=1 stores the 200 bits behind every trial for retrospective randomness testing
+    const engineConfig = { captureRawBits: process.env.RNG_CAPTURE_RAW_BITS === '1' };
+    const sessionEngine = createRNGEngine(engineConfig, sessionSource);
+    const continuousEngine = createRNGEngine(engineConfig, continuousSource);
+    started.push(() => Promise.all([sessionSource.close(), continuousSource.close()]));
+    started.push(() => {
+        sessionEngine.destroy();
+        continuousEngine.destroy();
+    });
+    await sessionEngine.initialize();
+    await continuousSource.open();
+
+    const sessionController = new SessionController(
+        sessionEngine,
+        repositories.sessions,
+        repositories.trials,
+        repositories.participants,
+        repositories.preregistrations,
+        repositories.series,
+        repositories.sequential
+    );
+    started.push(() => sessionController.destroy());
+    const collectorLock = new CollectorLock(collectorLockPath(dbPath), 'desktop');
+    const collector = new ContinuousDataCollector(
+        continuousEngine,
+        repositories.sessions,
+        repositories.trials,
+        repositories.intentions,
+        collectorLock,
+        repositories.sequential
+    );
+    started.push(() => collector.destroy());
+    const network = new NetworkController(
+        getNetworkDevices(entropyConfig),
+        repositories.sessions,
+        repositories.trials,
+        engineConfig
+    );
+    started.push(() => network.destroy());
+    const analyzer = new BackgroundAnalyzer(
+        repositories.trials,
+        repositories.intentions,
+        repositories.events,
+        createStatisticalAnalyzer()
+    );
+    started.push(() => analyzer.destroy());
+    await analyzer.startEventMonitoring();
+
+    // Planned looks at group-sequential designs as tagged sessions and intention periods end
+    const sequential = new SequentialMonitor(repositories.sequential);
+    const unwatchSessions = sequential.watchSessions(sessionController);
+    const unwatchContinuous = sequential.watchContinuous(collector);
+    started.push(() => {
+        unwatchSessions();
+        unwatchContinuous();
+        return sequential.settle();
+    });
+
+    const api = await startLocalApi(
+        { sessionEngine, collector, analyzer, timeSync, repositories },
+        path.dirname(dbPath)
+    );
+    started.push(() => api?.stop());
+
+    const unregisterIpc = registerIpcHandlers({
+        sessionEngine,
+        sessionController,
+        collector,
+        network,
+        analyzer,
+        sequential,
+        repositories,
+        exporter: new DataExporter(dbManager),
+        importer: new DataImporter(dbManager)
+    });
+    started.push(unregisterIpc);
+
+    // 24/7 collection and its periodic analysis, as configured
+    const continuousConfig = collector.getConfig();
+    const externalCollector = collectorLock.getExternalHolder();
+    if (externalCollector) {
+        // The daemon (or another instance) is the writer; this window only views its data
+        console.log(`Continuous collection is running in the ${describeCollectorLock(externalCollector)}; attaching as viewer`);
+    } else if (continuousConfig.autoStart) {
+        try {
+            await collector.start();
+        } catch (error) {
+            // e.g. the daemon took the lock since the check above; the window then views its data
+            console.error('Failed to start continuous collection:', error);
+        }
+    }
+    if (continuousConfig.autoAnalysis) {
+        analyzer.startPeriodicAnalysis(continuousConfig.analysisInterval);
+        analyzer.watchChangePoints(collector);
+    }
+
+    return {
+        sessionEngine,
+        continuousEngine,
+        entropySources: [sessionSource, continuousSource],
+        sessionController,
+        collector,
+        network,
+        analyzer,
+        trials: repositories.trials,
+        timeSync,
+        api,
+        sequential,
+        unregisterIpc,
+        unwatchSequential: () => {
+            unwatchSessions();
+            unwatchContinuous();
+        }
+    };
+};
+
+/**
+ * Stop data collection and close the database
+ */
+const shutdownServices = async (): Promise<void> => {
+    if (!services) return;
+
+    const current = services;
+    services = null;
+
+    await current.api?.stop();
+    current.timeSync?.stop();
+    current.unregisterIpc();
+    await current.sessionController.destroy();
+    await current.collector.destroy();
+    await current.network.destroy();
+    current.analyzer.destroy();
+    // Sessions and intention periods ended above may have reached a planned look
+    current.unwatchSequential();
+    await current.sequential.settle();
+    await current.trials.flushBatch();
+    current.sessionEngine.destroy();
+    current.continuousEngine.destroy();
+    await Promise.all(current.entropySources.map(source => source.close()));
+
+    await shutdownDatabase();
+};
+
 // App event handlers
-app.whenReady().then(createWindow);
+app.whenReady().then(async () => {
+    try {
+        await initializeServices();
+    } catch (error) {
+        // Without its services every call from the window would fail, so explain and quit
+        console.error('Failed to initialize main process services:', error);
+        dialog.showErrorBox(
+            'RNG Consciousness Experiment could not start',
+            error instanceof Error ? error.message : String(error)
+        );
+        app.quit();
+        return;
+    }
+    createWindow();
+});
 
 app.on('window-all-closed', () => {
     if (process.platform !== 'darwin') {
@@ -47,9 +329,18 @@ app.on('activate', () => {
     }
 });
 
+app.on('before-quit', event => {
+    if (!services) return;
+
+    event.preventDefault();
+    shutdownServices()
+        .catch(error => console.error('Error during shutdown:', error))
+        .finally(() => app.quit());
+});
+
 // Security: Prevent new window creation
 app.on('web-contents-created', (_, contents) => {
     contents.setWindowOpenHandler(() => {
         return { action: 'deny' };
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,234 @@
+/**
+ * Network Controller
+ *
+ * Runs several RNG devices side by side, the local equivalent of a GCP egg network:
+ * - One RNG engine per configured device, each on its own entropy source
+ * - Every run records into a single session; trials carry the device id
+ * - Per-second Stouffer Z, netvar and inter-device correlation over any stored period
+ */
+
+import { EventEmitter } from 'events';
+import { RNGEngine, createRNGEngine } from '../core/rng-engine';
+import { createEntropySource, EntropySource } from '../core/entropy';
+import { AdvancedStatistics } from '../core/advanced-statistics';
+import { getClockSync } from '../core/time-manager';
+import { SessionRepository } from '../database/repositories/session-repository';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import {
+    NetworkDeviceConfig,
+    NetworkRunConfig,
+    NetworkStatus,
+    RNGConfig,
+    RNGTrial
+} from '../shared/types';
+import { MultiDeviceNetworkResult } from '../shared/analysis-types';
+import { NetworkAnalysisRequest } from '../shared/ipc-types';
+
+interface RunningDevice {
+    id: string;
+    source: EntropySource;
+    engine: RNGEngine;
+    totalTrials: number;
+    lastTrialValue: number | null;
+}
+
+/**
+ * Main-process controller for multi-device network mode
+ */
+export class NetworkController extends EventEmitter {
+    private devices: NetworkDeviceConfig[];
+    private sessions: SessionRepository;
+    private trials: TrialRepository;
+    private engineConfig: Partial<RNGConfig>;
+
+    private running: RunningDevice[] = [];
+    private sessionId: string | null = null;
+    private startTime: Date | null = null;
+    /** Set for the whole of start(), whose session id only arrives after its awaits */
+    private starting = false;
+
+    constructor(
+        devices: NetworkDeviceConfig[],
+        sessions: SessionRepository,
+        trials: TrialRepository,
+        engineConfig: Partial<RNGConfig> = {}
+    ) {
+        super();
+
+        const ids = new Set(devices.map(device => device.id));
+        if (ids.size !== devices.length) {
+            throw new Error('Network device ids must be unique');
+        }
+
+        this.devices = devices;
+        this.sessions = sessions;
+        this.trials = trials;
+        this.engineConfig = engineConfig;
+    }
+
+    /**
+     * Configured devices, whether or not they are running
+     */
+    getDevices(): NetworkDeviceConfig[] {
+        return this.devices.map(device => ({ ...device }));
+    }
+
+    /**
+     * Open every selected device and start recording into a new session
+     */
+    async start(config: NetworkRunConfig = {}): Promise<NetworkStatus> {
+        if (this.sessionId || this.starting) {
+            throw new Error('Network is already running');
+        }
+
+        const selected = config.deviceIds
+            ? this.devices.filter(device => config.deviceIds!.includes(device.id))
+            : this.devices;
+        if (selected.length < 2) {
+            throw new Error('Network mode needs at least two devices');
+        }
+
+        const intention = config.intention ?? 'baseline';
+        const startTime = new Date();
+
+        this.starting = true;
+        try {
+            for (const device of selected) {
+                const source = createEntropySource(device.entropy);
+                const engine = createRNGEngine({ ...this.engineConfig, deviceId: device.id }, source);
+                const running: RunningDevice = { id: device.id, source, engine, totalTrials: 0, lastTrialValue: null };
+                this.running.push(running);
+
+                await engine.initialize();
+                engine.addTrialListener(trial => this.handleTrial(running, trial));
+            }
+
+            this.sessionId = await this.sessions.createSession({
+                startTime,
+                endTime: null,
+                intention,
+                // Open-ended: the run lasts until it is stopped
+                targetTrials: 0,
+                status: 'running',
+                notes: config.notes,
+                source: `network:${selected.map(device => device.id).join(',')}`,
+                clockSync: getClockSync() ?? undefined
+            });
+            this.startTime = startTime;
+
+            for (const device of this.running) {
+                device.engine.startContinuous(this.sessionId, 'session', intention);
+            }
+        } catch (error) {
+            console.error('Failed to start device network:', error);
+            await this.releaseDevices();
+            if (this.sessionId) {
+                await this.sessions.stopSession(this.sessionId);
+                this.sessionId = null;
+            }
+            throw new Error(`Network start failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.starting = false;
+        }
+
+        console.log(`Device network started with ${this.running.length} devices: ${this.sessionId}`);
+        const status = this.getStatus();
+        this.emit('status', status);
+        return status;
+    }
+
+    /**
+     * Stop every device, store the remaining trials and complete the run's session
+     */
+    async stop(): Promise<NetworkStatus> {
+        if (!this.sessionId) {
+            return this.getStatus();
+        }
+
+        const sessionId = this.sessionId;
+        for (const device of this.running) {
+            device.engine.stopContinuous();
+        }
+
+        await this.trials.flushBatch();
+        await this.sessions.completeSession(sessionId);
+        await this.releaseDevices();
+
+        this.sessionId = null;
+        this.startTime = null;
+
+        console.log(`Device network stopped: ${sessionId}`);
+        const status = this.getStatus();
+        this.emit('status', status);
+        return status;
+    }
+
+    /**
+     * Current run and per-device trial counts
+     */
+    getStatus(): NetworkStatus {
+        return {
+            isRunning: this.sessionId !== null,
+            sessionId: this.sessionId,
+            startTime: this.startTime,
+            devices: this.running.map(device => ({
+                id: device.id,
+                entropySource: device.source.getStatus(),
+                totalTrials: device.totalTrials,
+                lastTrialValue: device.lastTrialValue
+            }))
+        };
+    }
+
+    /**
+     * GCP network statistics over stored device-tagged trials
+     */
+    async analyze(query: NetworkAnalysisRequest): Promise<MultiDeviceNetworkResult> {
+        let trials: RNGTrial[];
+        if (query.sessionId) {
+            trials = await this.trials.getTrialsBySession(query.sessionId);
+        } else if (query.startTime && query.endTime) {
+            trials = await this.trials.getTrialsByTimeRange(query.startTime, query.endTime);
+        } else {
+            throw new Error('Network analysis needs a session or a start and end time');
+        }
+
+        const tagged = trials.filter(trial => trial.deviceId);
+        if (tagged.length === 0) {
+            throw new Error('No device-tagged trials to analyze');
+        }
+
+        return AdvancedStatistics.calculateMultiDeviceNetwork(tagged);
+    }
+
+    /**
+     * Stop any run in progress
+     */
+    async destroy(): Promise<void> {
+        await this.stop();
+        this.removeAllListeners();
+    }
+
+    private handleTrial(device: RunningDevice, trial: RNGTrial): void {
+        if (!this.sessionId || trial.sessionId !== this.sessionId) {
+            return;
+        }
+
+        this.trials.addToBatch(trial);
+        device.totalTrials++;
+        device.lastTrialValue = trial.trialValue;
+        this.emit('trial', trial);
+    }
+
+    private async releaseDevices(): Promise<void> {
+        const devices = this.running;
+        this.running = [];
+
+        for (const device of devices) {
+            device.engine.destroy();
+        }
+        await Promise.all(devices.map(device => device.source.close().catch(error => {
+            console.error(`Failed to close entropy source of ${device.id}:`, error);
+        })));
+    }
+}
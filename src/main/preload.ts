@@ -1,12 +1,123 @@
-import { contextBridge } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type {
+    ElectronAPI,
+    IpcChannel,
+    IpcArgs,
+    IpcResult,
+    IpcEvent,
+    IpcEventMap
+} from '../shared/ipc-types';
+
+/**
+ * Typed wrapper around ipcRenderer.invoke
+ */
+function invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResult<C>> {
+    return ipcRenderer.invoke(channel, ...args);
+}
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electronAPI', {
-    // Placeholder for future IPC methods
-    // Will be implemented in Phase 1
-});
+const electronAPI: ElectronAPI = {
+    session: {
+        start: config => invoke('session:start', config),
+        pause: () => invoke('session:pause'),
+        resume: () => invoke('session:resume'),
+        stop: (emergency = false) => invoke('session:stop', emergency),
+        getCurrent: () => invoke('session:current')
+    },
+
+    continuous: {
+        start: () => invoke('continuous:start'),
+        stop: () => invoke('continuous:stop'),
+        getStatus: () => invoke('continuous:status'),
+        startIntentionPeriod: (intention, notes, participantId, sequentialDesignId) =>
+            invoke('intention:start', intention, notes, participantId, sequentialDesignId),
+        endIntentionPeriod: () => invoke('intention:end'),
+        updateIntentionNotes: notes => invoke('intention:update-notes', notes)
+    },
+
+    network: {
+        getDevices: () => invoke('network:devices'),
+        start: config => invoke('network:start', config),
+        stop: () => invoke('network:stop'),
+        getStatus: () => invoke('network:status'),
+        analyze: request => invoke('network:analyze', request)
+    },
+
+    events: {
+        list: () => invoke('events:list'),
+        register: definition => invoke('events:register', definition),
+        evaluateDue: () => invoke('events:evaluate'),
+        getSeries: () => invoke('events:series')
+    },
+
+    sequential: {
+        list: () => invoke('sequential:list'),
+        create: design => invoke('sequential:create', design),
+        getStatus: designId => invoke('sequential:status', designId),
+        takeLook: designId => invoke('sequential:look', designId)
+    },
+
+    engine: {
+        getStatus: () => invoke('engine:status')
+    },
+
+    health: {
+        getStatus: () => invoke('health:status')
+    },
+
+    participants: {
+        list: query => invoke('participants:list', query),
+        register: registration => invoke('participants:register', registration),
+        update: (participantId, updates) => invoke('participants:update', participantId, updates),
+        getAnalysis: participantId => invoke('participants:analysis', participantId)
+    },
+
+    preregistrations: {
+        list: () => invoke('preregistrations:list'),
+        create: design => invoke('preregistrations:create', design),
+        lock: registrationId => invoke('preregistrations:lock', registrationId),
+        complete: registrationId => invoke('preregistrations:complete', registrationId),
+        getReport: registrationId => invoke('preregistrations:report', registrationId)
+    },
+
+    series: {
+        list: query => invoke('series:list', query),
+        create: definition => invoke('series:create', definition),
+        get: seriesId => invoke('series:get', seriesId),
+        abandon: seriesId => invoke('series:abandon', seriesId),
+        getAnalysis: seriesId => invoke('series:analysis', seriesId)
+    },
+
+    data: {
+        getSessions: (limit, query) => invoke('data:sessions', limit, query),
+        getSessionTrials: sessionId => invoke('data:session-trials', sessionId),
+        getSessionStats: sessionId => invoke('data:session-stats', sessionId),
+        getTrialsByRange: (start, end, query) => invoke('data:trials-by-range', start, end, query),
+        getIntentionPeriods: days => invoke('data:intention-periods', days),
+        getTimeline: range => invoke('data:timeline', range),
+        getSignificantEvents: range => invoke('data:significant-events', range),
+        getFeedbackComparison: participantId => invoke('data:feedback-comparison', participantId),
+        getMetaAnalysis: request => invoke('data:meta-analysis', request),
+        getPublicationBias: request => invoke('data:publication-bias', request),
+        getBayesianAnalysis: request => invoke('data:bayesian-analysis', request),
+        getChangePoints: request => invoke('data:change-points', request),
+        exportData: request => invoke('data:export', request),
+        publishPackage: request => invoke('data:publish-package', request),
+        importData: request => invoke('data:import', request)
+    },
+
+    on: <E extends IpcEvent>(event: E, listener: (payload: IpcEventMap[E]) => void) => {
+        const handler = (_event: IpcRendererEvent, payload: IpcEventMap[E]) => listener(payload);
+        ipcRenderer.on(event, handler);
+        return () => {
+            ipcRenderer.removeListener(event, handler);
+        };
+    }
+};
+
+contextBridge.exposeInMainWorld('electronAPI', electronAPI);
 
 // Context bridge setup complete
 // Note: window object is not available in the preload script context
-// DOM-related code should be moved to the renderer process
\ No newline at end of file
+// DOM-related code should be moved to the renderer process
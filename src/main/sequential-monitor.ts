@@ -0,0 +1,181 @@
+/**
+ * Group-Sequential Monitor
+ *
+ * Takes the looks of group-sequential designs in the main process:
+ * - A planned look runs once a tagged session or continuous intention period
+ *   brings the design's data to the next planned trial count
+ * - An analyst may look early, but the look is recorded and spends alpha, so
+ *   the boundaries of every later look tighten
+ * - The look that crosses its boundary, or the final look, closes the design
+ */
+
+import { EventEmitter } from 'events';
+import { GroupSequentialAnalyzer } from '../core/group-sequential';
+import { SequentialDesignRepository } from '../database/repositories/sequential-repository';
+import { SessionController } from './session-controller';
+import { ContinuousDataCollector } from './continuous-manager';
+import {
+    GroupSequentialDesignInput,
+    GroupSequentialStatus,
+    SequentialLook,
+    SequentialLookTrigger
+} from '../shared/analysis-types';
+import { IntentionPeriod } from '../shared/types';
+import { SessionStatusUpdate } from '../shared/ipc-types';
+
+/**
+ * Looks at group-sequential designs as their data accumulates
+ */
+export class SequentialMonitor extends EventEmitter {
+    private designs: SequentialDesignRepository;
+
+    /** Looks run one at a time so two triggers can never take the same look */
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(designs: SequentialDesignRepository) {
+        super();
+        this.designs = designs;
+    }
+
+    /**
+     * Check for a planned look whenever a tagged session ends; returns the unsubscribe function
+     */
+    watchSessions(controller: SessionController): () => void {
+        const onStatus = (update: SessionStatusUpdate) => {
+            const designId = update.session.sequentialDesignId;
+            if (!designId || (update.status !== 'completed' && update.status !== 'stopped')) return;
+
+            this.checkPlannedLook(designId, 'session').catch(error => {
+                console.error('Failed to check group-sequential design after session:', error);
+            });
+        };
+
+        controller.on('status', onStatus);
+        return () => controller.off('status', onStatus);
+    }
+
+    /**
+     * Check for a planned look whenever a tagged intention period ends; returns the unsubscribe function
+     */
+    watchContinuous(collector: ContinuousDataCollector): () => void {
+        const onPeriodEnded = (period: IntentionPeriod) => {
+            if (!period.sequentialDesignId) return;
+
+            this.checkPlannedLook(period.sequentialDesignId, 'continuous').catch(error => {
+                console.error('Failed to check group-sequential design after intention period:', error);
+            });
+        };
+
+        collector.on('intentionPeriodEnded', onPeriodEnded);
+        return () => collector.off('intentionPeriodEnded', onPeriodEnded);
+    }
+
+    /**
+     * Validate and store a new design
+     */
+    async createDesign(input: GroupSequentialDesignInput): Promise<GroupSequentialStatus> {
+        const plan = GroupSequentialAnalyzer.createPlan(input);
+        const designId = await this.designs.createDesign(plan);
+        return this.getStatus(designId);
+    }
+
+    /**
+     * Status of every design, newest first
+     */
+    async listDesigns(): Promise<GroupSequentialStatus[]> {
+        const designs = await this.designs.listDesigns();
+        return Promise.all(designs.map(design => this.getStatus(design.id)));
+    }
+
+    /**
+     * Looks taken, data collected and the boundaries still ahead of a design
+     */
+    async getStatus(designId: string): Promise<GroupSequentialStatus> {
+        const design = await this.designs.getDesign(designId);
+        if (!design) {
+            throw new Error(`Group-sequential design not found: ${designId}`);
+        }
+
+        const looks = await this.designs.getLooks(designId);
+        const totals = await this.designs.getDesignTotals(designId, design.plan.source);
+        const { trialCount } = GroupSequentialAnalyzer.directedZ(totals);
+
+        return GroupSequentialAnalyzer.status(design, looks, trialCount);
+    }
+
+    /**
+     * Take the next planned look if the design's data has reached it
+     */
+    async checkPlannedLook(designId: string, trigger: SequentialLookTrigger): Promise<SequentialLook | null> {
+        return this.enqueue(async () => {
+            const status = await this.getStatus(designId);
+            if (status.design.status !== 'active' || status.nextLookAt === null) return null;
+            if (status.trialsCollected < status.nextLookAt) return null;
+
+            return this.takeLook(designId, trigger);
+        });
+    }
+
+    /**
+     * Look at a design now; an unplanned look still spends alpha
+     */
+    async performLook(designId: string, trigger: SequentialLookTrigger = 'analyst'): Promise<SequentialLook> {
+        return this.enqueue(() => this.takeLook(designId, trigger));
+    }
+
+    /**
+     * Resolve once every look already triggered has been recorded
+     */
+    async settle(): Promise<void> {
+        await this.queue;
+    }
+
+    // Private methods
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async takeLook(designId: string, trigger: SequentialLookTrigger): Promise<SequentialLook> {
+        const design = await this.designs.getDesign(designId);
+        if (!design) {
+            throw new Error(`Group-sequential design not found: ${designId}`);
+        }
+        if (design.status !== 'active') {
+            throw new Error(`Group-sequential design "${design.plan.title}" is closed`);
+        }
+
+        const previous = await this.designs.getLooks(designId);
+        const { trialCount, z } = GroupSequentialAnalyzer.directedZ(
+            await this.designs.getDesignTotals(designId, design.plan.source)
+        );
+        if (trialCount === 0) {
+            throw new Error(`Group-sequential design "${design.plan.title}" has no trials yet`);
+        }
+
+        const evaluation = GroupSequentialAnalyzer.evaluateLook(design.plan, previous, trialCount, z);
+        const look: Omit<SequentialLook, 'id'> = {
+            ...evaluation.boundary,
+            designId,
+            z,
+            crossed: evaluation.crossed,
+            planned: evaluation.planned,
+            trigger,
+            performedAt: new Date()
+        };
+        const outcome = evaluation.crossed ? 'rejected_null' : evaluation.final ? 'retained_null' : 'active';
+
+        const lookId = await this.designs.recordLook(look, outcome);
+        const recorded: SequentialLook = { ...look, id: lookId };
+
+        console.log(
+            `Look ${look.lookNumber} at "${design.plan.title}": z = ${z.toFixed(3)}, ` +
+            `boundary ${look.boundaryZ.toFixed(3)}${evaluation.crossed ? ' crossed' : ''}`
+        );
+        // The status carries the new look last, with the boundaries still ahead
+        this.emit('look', await this.getStatus(designId));
+        return recorded;
+    }
+}
@@ -0,0 +1,314 @@
+/**
+ * Session Controller
+ *
+ * Owns the lifecycle of intention-based sessions in the main process:
+ * - Creates the session record in SQLite, linked to a registered participant
+ *   and optionally to a locked pre-registration, a run of a tri-polar series or
+ *   an active group-sequential design
+ * - Drives the RNG engine through meditation, running, paused and stopped states
+ * - Persists every generated trial through the trial repository
+ * - Emits trial and status events for the IPC layer to forward
+ */
+
+import { EventEmitter } from 'events';
+import { RNGEngine } from '../core/rng-engine';
+import { getClockSync } from '../core/time-manager';
+import { SessionRepository } from '../database/repositories/session-repository';
+import { TrialRepository } from '../database/repositories/trial-repository';
+import { ParticipantRepository } from '../database/repositories/participant-repository';
+import { PreRegistrationRepository } from '../database/repositories/preregistration-repository';
+import { SeriesRepository } from '../database/repositories/series-repository';
+import { SequentialDesignRepository } from '../database/repositories/sequential-repository';
+import { ExperimentSession, SessionConfig, RNGTrial, SessionSeries, SeriesRun } from '../shared/types';
+import { SessionRunStatus, SessionStatusUpdate } from '../shared/ipc-types';
+
+/**
+ * Main-process controller for session mode
+ */
+export class SessionController extends EventEmitter {
+    private engine: RNGEngine;
+    private sessions: SessionRepository;
+    private trials: TrialRepository;
+    private participants: ParticipantRepository | null;
+    private preregistrations: PreRegistrationRepository | null;
+    private series: SeriesRepository | null;
+    private designs: SequentialDesignRepository | null;
+
+    private currentSession: ExperimentSession | null = null;
+    private currentSeriesId: string | null = null;
+    private status: SessionRunStatus = 'setup';
+    private trialsCompleted: number = 0;
+    private meditationTimeout: NodeJS.Timeout | null = null;
+
+    constructor(
+        engine: RNGEngine,
+        sessions: SessionRepository,
+        trials: TrialRepository,
+        participants?: ParticipantRepository,
+        preregistrations?: PreRegistrationRepository,
+        series?: SeriesRepository,
+        designs?: SequentialDesignRepository
+    ) {
+        super();
+        this.engine = engine;
+        this.sessions = sessions;
+        this.trials = trials;
+        this.participants = participants || null;
+        this.preregistrations = preregistrations || null;
+        this.series = series || null;
+        this.designs = designs || null;
+
+        this.engine.addTrialListener(this.handleTrial);
+    }
+
+    /**
+     * Create a session and start collecting trials (after meditation if configured)
+     */
+    async startSession(config: SessionConfig): Promise<ExperimentSession> {
+        if (this.isActive()) {
+            throw new Error('A session is already active');
+        }
+
+        let intention = config.intention ?? 'baseline';
+        let targetTrials = config.targetTrials;
+        let participantId = await this.resolveParticipantId(config.participantId);
+
+        // A series run dictates the intention and trial count and belongs to the series' operator
+        const seriesRun = config.seriesId ? await this.nextSeriesRun(config.seriesId) : null;
+        if (seriesRun) {
+            const { series, run } = seriesRun;
+            if (series.participantId && participantId && participantId !== series.participantId) {
+                throw new Error('Series belongs to a different participant');
+            }
+            intention = run.intention;
+            targetTrials = series.trialsPerRun;
+            participantId = series.participantId ?? participantId;
+        }
+
+        const preregistrationId = config.preregistrationId || undefined;
+        if (preregistrationId) {
+            if (!this.preregistrations) {
+                throw new Error('Pre-registrations are not available');
+            }
+            await this.preregistrations.checkSessionEligibility(preregistrationId, intention, participantId);
+        }
+        const sequentialDesignId = config.sequentialDesignId || undefined;
+        if (sequentialDesignId) {
+            if (!this.designs) {
+                throw new Error('Group-sequential designs are not available');
+            }
+            await this.designs.checkEligibility(sequentialDesignId, 'session', intention);
+        }
+        const feedback = config.feedback ?? 'chart';
+        const startTime = new Date();
+
+        const sessionId = await this.sessions.createSession({
+            startTime,
+            endTime: null,
+            intention,
+            targetTrials,
+            status: 'running',
+            notes: config.notes,
+            participantId,
+            preregistrationId,
+            feedback,
+            clockSync: getClockSync() ?? undefined,
+            sequentialDesignId
+        });
+
+        if (seriesRun) {
+            await this.series!.assignRun(seriesRun.series.id, seriesRun.run.position, sessionId);
+        }
+        this.currentSeriesId = seriesRun?.series.id ?? null;
+
+        this.currentSession = {
+            id: sessionId,
+            startTime,
+            endTime: null,
+            intention,
+            targetTrials,
+            status: 'running',
+            notes: config.notes,
+            participantId,
+            duration: 0,
+            actualTrials: 0,
+            preregistrationId,
+            feedback,
+            sequentialDesignId
+        };
+        this.trialsCompleted = 0;
+
+        if (config.meditationDuration > 0) {
+            this.setStatus('meditation');
+            this.meditationTimeout = setTimeout(() => {
+                this.meditationTimeout = null;
+                this.beginCollection();
+            }, config.meditationDuration * 60 * 1000);
+        } else {
+            this.beginCollection();
+        }
+
+        return { ...this.currentSession };
+    }
+
+    /**
+     * Pause trial collection
+     */
+    async pauseSession(): Promise<SessionStatusUpdate | null> {
+        if (!this.currentSession || this.status !== 'running') {
+            return this.getCurrent();
+        }
+
+        this.engine.pauseContinuous();
+        await this.trials.flushBatch();
+        this.setStatus('paused');
+
+        return this.getCurrent();
+    }
+
+    /**
+     * Resume a paused session
+     */
+    async resumeSession(): Promise<SessionStatusUpdate | null> {
+        if (!this.currentSession || this.status !== 'paused') {
+            return this.getCurrent();
+        }
+
+        // Set the status first - the engine may emit a trial as soon as it resumes
+        this.setStatus('running');
+        this.engine.resumeContinuous();
+
+        return this.getCurrent();
+    }
+
+    /**
+     * Stop the session normally ('completed') or as an emergency stop ('stopped')
+     */
+    async stopSession(emergency: boolean = false): Promise<SessionStatusUpdate | null> {
+        if (!this.currentSession || !this.isActive()) {
+            return this.getCurrent();
+        }
+
+        if (this.meditationTimeout) {
+            clearTimeout(this.meditationTimeout);
+            this.meditationTimeout = null;
+        }
+
+        this.engine.stopContinuous();
+        await this.trials.flushBatch();
+
+        const sessionId = this.currentSession.id;
+        if (emergency) {
+            await this.sessions.stopSession(sessionId);
+        } else {
+            await this.sessions.completeSession(sessionId);
+        }
+
+        const stored = await this.sessions.getSession(sessionId);
+        this.currentSession = {
+            ...this.currentSession,
+            ...(stored || {}),
+            status: emergency ? 'stopped' : 'completed',
+            actualTrials: this.trialsCompleted
+        };
+
+        if (this.currentSeriesId) {
+            await this.series!.refreshStatus(this.currentSeriesId);
+        }
+
+        this.setStatus(emergency ? 'stopped' : 'completed');
+
+        return this.getCurrent();
+    }
+
+    /**
+     * Get the current session and its status
+     */
+    getCurrent(): SessionStatusUpdate | null {
+        if (!this.currentSession) return null;
+
+        return {
+            session: { ...this.currentSession },
+            status: this.status,
+            trialsCompleted: this.trialsCompleted
+        };
+    }
+
+    /**
+     * Whether a session is in progress (meditation, running or paused)
+     */
+    isActive(): boolean {
+        return this.status === 'meditation' || this.status === 'running' || this.status === 'paused';
+    }
+
+    /**
+     * Stop any active session and detach from the engine
+     */
+    async destroy(): Promise<void> {
+        if (this.isActive()) {
+            await this.stopSession(true);
+        }
+
+        this.engine.removeTrialListener(this.handleTrial);
+        this.removeAllListeners();
+    }
+
+    /**
+     * Map a participant id or typed-in code to a registry id, registering new codes
+     */
+    private async resolveParticipantId(idOrCode?: string): Promise<string | undefined> {
+        const value = idOrCode?.trim();
+        if (!value) return undefined;
+        if (!this.participants) return value;
+
+        return (await this.participants.resolveParticipant(value)).id;
+    }
+
+    /**
+     * The series and the run a new session should perform
+     */
+    private async nextSeriesRun(seriesId: string): Promise<{ series: SessionSeries; run: SeriesRun }> {
+        if (!this.series) {
+            throw new Error('Session series are not available');
+        }
+
+        const run = await this.series.getNextRun(seriesId);
+        if (!run) {
+            throw new Error('Series has no runs left to perform');
+        }
+
+        return { series: (await this.series.getSeries(seriesId))!, run };
+    }
+
+    private beginCollection(): void {
+        if (!this.currentSession) return;
+
+        this.setStatus('running');
+        this.engine.startContinuous(this.currentSession.id, 'session', this.currentSession.intention);
+    }
+
+    private handleTrial = (trial: RNGTrial): void => {
+        if (!this.currentSession || this.status !== 'running' || trial.sessionId !== this.currentSession.id) {
+            return;
+        }
+
+        this.trials.addToBatch(trial);
+        this.trialsCompleted++;
+        this.emit('trial', trial);
+
+        if (this.trialsCompleted >= this.currentSession.targetTrials) {
+            this.stopSession(false).catch(error => {
+                console.error('Failed to complete session at target:', error);
+            });
+        }
+    };
+
+    private setStatus(status: SessionRunStatus): void {
+        this.status = status;
+
+        const update = this.getCurrent();
+        if (update) {
+            this.emit('status', update);
+        }
+    }
+}
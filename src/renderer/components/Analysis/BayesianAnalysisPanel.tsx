@@ -0,0 +1,390 @@
+/**
+ * BayesianAnalysisPanel - Bayes factors for the directed effect across stored sessions
+ * Default JZS or informed priors on the per-trial effect size, prior against posterior,
+ * the credible interval and how BF10 moves as the prior is narrowed or widened;
+ * computed from stored trials in the main process
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    Chart as ChartJS,
+    LinearScale,
+    LogarithmicScale,
+    PointElement,
+    LineElement,
+    Filler,
+    Tooltip,
+    Legend,
+    ChartData,
+    ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { BayesAlternative, BayesFactorResult, BayesianResult, PriorDistribution } from '../../../shared/analysis-types';
+import { BayesianAnalyzer } from '../../../core/bayesian-analysis';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './BayesianAnalysisPanel.css';
+
+ChartJS.register(LinearScale, LogarithmicScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+interface BayesianAnalysisPanelProps {
+    startTime?: Date;
+    endTime?: Date;
+}
+
+type PriorKind = 'jzs' | 'informed' | 'informed-t';
+
+type BayesView = 'posterior' | 'robustness';
+
+const PRIOR_LABELS: Record<PriorKind, string> = {
+    'jzs': 'Default JZS (Cauchy)',
+    'informed': 'Informed normal',
+    'informed-t': 'Informed t (3 df)'
+};
+
+/** Cauchy scales on the standardized effect, named as in the JZS literature */
+const JZS_SCALES: Array<{ value: number; label: string }> = [
+    { value: 0.5, label: 'Narrow (1/2)' },
+    { value: Math.SQRT1_2, label: 'Medium (√2/2)' },
+    { value: 1, label: 'Wide (1)' },
+    { value: Math.SQRT2, label: 'Ultrawide (√2)' }
+];
+
+/** Expected per-bit effects for the informed priors; the PEAR benchmark is about 10⁻⁴ */
+const PER_BIT_EFFECTS = [5e-5, 1e-4, 2e-4];
+
+const INTERPRETATION_LABELS: Record<BayesFactorResult['interpretation'], string> = {
+    extreme_evidence: 'Extreme',
+    very_strong: 'Very strong',
+    strong: 'Strong',
+    moderate: 'Moderate',
+    weak: 'Anecdotal',
+    inconclusive: 'Inconclusive'
+};
+
+const buildPrior = (kind: PriorKind, width: number): PriorDistribution => {
+    if (kind === 'jzs') return { type: 'cauchy', location: 0, scale: width };
+
+    const informed = BayesianAnalyzer.informedPrior(width);
+    if (kind === 'informed' || informed.type !== 'normal') return informed;
+    return { type: 't', location: informed.mean, scale: informed.standardDeviation, df: 3 };
+};
+
+const formatEffect = (value: number): string => value.toExponential(2);
+
+const formatBayesFactor = (value: number): string =>
+    value >= 1e4 || value < 1e-3 ? value.toExponential(2) : value.toPrecision(3);
+
+export const BayesianAnalysisPanel: React.FC<BayesianAnalysisPanelProps> = ({ startTime, endTime }) => {
+    const [priorKind, setPriorKind] = useState<PriorKind>('jzs');
+    const [jzsScale, setJzsScale] = useState(Math.SQRT1_2);
+    const [perBitEffect, setPerBitEffect] = useState(1e-4);
+    const [alternative, setAlternative] = useState<BayesAlternative>('greater');
+    const [intention, setIntention] = useState<'both' | 'high' | 'low'>('both');
+    const [credibleLevel, setCredibleLevel] = useState(0.95);
+    const [result, setResult] = useState<BayesianResult | null>(null);
+    const [activeView, setActiveView] = useState<BayesView>('posterior');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Compared by value so a new Date for the same range does not refetch
+    const startMs = startTime?.getTime();
+    const endMs = endTime?.getTime();
+
+    const prior = useMemo(
+        () => buildPrior(priorKind, priorKind === 'jzs' ? jzsScale : perBitEffect),
+        [priorKind, jzsScale, perBitEffect]
+    );
+
+    useEffect(() => {
+        if (!hasElectronAPI()) {
+            setError('Session data is only available when the app runs through Electron');
+            return;
+        }
+
+        setIsLoading(true);
+        getElectronAPI().data.getBayesianAnalysis({
+            prior,
+            alternative,
+            credibleLevel,
+            intention: intention === 'both' ? undefined : intention,
+            startTime: startMs !== undefined ? new Date(startMs) : undefined,
+            endTime: endMs !== undefined ? new Date(endMs) : undefined
+        })
+            .then(analysis => {
+                setResult(analysis);
+                setError(null);
+            })
+            .catch(err => {
+                setResult(null);
+                setError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => setIsLoading(false));
+    }, [prior, alternative, intention, credibleLevel, startMs, endMs]);
+
+    const levelLabel = `${Math.round(credibleLevel * 100)}%`;
+
+    const densityChart = useMemo((): ChartData<'scatter'> | null => {
+        if (!result || result.density.length === 0) return null;
+
+        const peak = Math.max(...result.density.map(point => point.posterior));
+        return {
+            datasets: [
+                {
+                    label: 'Posterior',
+                    data: result.density.map(point => ({ x: point.effectSize, y: point.posterior })),
+                    borderColor: '#007bff',
+                    backgroundColor: '#007bff20',
+                    showLine: true,
+                    pointRadius: 0,
+                    fill: 'origin'
+                },
+                {
+                    label: 'Prior',
+                    data: result.density.map(point => ({ x: point.effectSize, y: point.prior })),
+                    borderColor: '#6c757d',
+                    borderDash: [6, 4],
+                    showLine: true,
+                    pointRadius: 0
+                },
+                {
+                    label: `${levelLabel} credible interval`,
+                    data: result.credibleInterval.map(bound => ({ x: bound, y: peak * 0.05 })),
+                    borderColor: '#dc3545',
+                    backgroundColor: '#dc3545',
+                    borderWidth: 3,
+                    showLine: true,
+                    pointRadius: 3
+                }
+            ]
+        };
+    }, [result, levelLabel]);
+
+    const densityOptions: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            tooltip: {
+                callbacks: {
+                    label: context => `${context.dataset.label}: δ = ${formatEffect(context.parsed.x)}`
+                }
+            }
+        },
+        scales: {
+            x: {
+                title: { display: true, text: 'Effect size per trial (δ)' },
+                ticks: { callback: value => formatEffect(Number(value)) }
+            },
+            y: {
+                beginAtZero: true,
+                title: { display: true, text: 'Density' }
+            }
+        }
+    };
+
+    const robustnessChart = useMemo((): ChartData<'scatter'> | null => {
+        if (!result) return null;
+
+        const chosen = result.robustness[Math.floor(result.robustness.length / 2)];
+        return {
+            datasets: [
+                {
+                    label: 'BF10 by prior width',
+                    data: result.robustness.map(point => ({ x: point.scale, y: point.bf10 })),
+                    borderColor: '#007bff',
+                    backgroundColor: '#007bff',
+                    showLine: true,
+                    pointRadius: 3
+                },
+                {
+                    label: 'Chosen prior',
+                    data: chosen ? [{ x: chosen.scale, y: chosen.bf10 }] : [],
+                    borderColor: '#dc3545',
+                    backgroundColor: '#dc3545',
+                    pointStyle: 'rectRot',
+                    pointRadius: 7
+                }
+            ]
+        };
+    }, [result]);
+
+    const robustnessOptions: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+            x: {
+                type: 'logarithmic',
+                title: { display: true, text: prior.type === 'normal' ? 'Prior standard deviation' : 'Prior scale' },
+                ticks: { callback: value => Number(value).toPrecision(2) }
+            },
+            y: {
+                type: 'logarithmic',
+                title: { display: true, text: 'BF10' },
+                ticks: { callback: value => formatBayesFactor(Number(value)) }
+            }
+        }
+    };
+
+    const renderControls = () => (
+        <div className="bayes-controls">
+            <div className="control-group">
+                <label htmlFor="bayes-prior">Prior:</label>
+                <select id="bayes-prior" value={priorKind} onChange={(e) => setPriorKind(e.target.value as PriorKind)}>
+                    {(Object.keys(PRIOR_LABELS) as PriorKind[]).map(key => (
+                        <option key={key} value={key}>{PRIOR_LABELS[key]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="control-group">
+                {priorKind === 'jzs' ? (
+                    <>
+                        <label htmlFor="bayes-scale">Scale:</label>
+                        <select id="bayes-scale" value={jzsScale} onChange={(e) => setJzsScale(parseFloat(e.target.value))}>
+                            {JZS_SCALES.map(scale => (
+                                <option key={scale.label} value={scale.value}>{scale.label}</option>
+                            ))}
+                        </select>
+                    </>
+                ) : (
+                    <>
+                        <label htmlFor="bayes-effect">Expected per-bit effect:</label>
+                        <select id="bayes-effect" value={perBitEffect} onChange={(e) => setPerBitEffect(parseFloat(e.target.value))}>
+                            {PER_BIT_EFFECTS.map(effect => (
+                                <option key={effect} value={effect}>{effect.toExponential(0)}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+            </div>
+
+            <div className="control-group">
+                <label htmlFor="bayes-alternative">Alternative:</label>
+                <select id="bayes-alternative" value={alternative} onChange={(e) => setAlternative(e.target.value as BayesAlternative)}>
+                    <option value="greater">Intended direction</option>
+                    <option value="two-sided">Either direction</option>
+                    <option value="less">Against intention</option>
+                </select>
+            </div>
+
+            <div className="control-group">
+                <label htmlFor="bayes-intention">Intention:</label>
+                <select id="bayes-intention" value={intention} onChange={(e) => setIntention(e.target.value as 'both' | 'high' | 'low')}>
+                    <option value="both">High and low</option>
+                    <option value="high">High only</option>
+                    <option value="low">Low only</option>
+                </select>
+            </div>
+
+            <div className="control-group">
+                <label htmlFor="bayes-level">Credible Level:</label>
+                <select id="bayes-level" value={credibleLevel} onChange={(e) => setCredibleLevel(parseFloat(e.target.value))}>
+                    <option value={0.90}>90%</option>
+                    <option value={0.95}>95%</option>
+                    <option value={0.99}>99%</option>
+                </select>
+            </div>
+        </div>
+    );
+
+    const renderSummary = (analysis: BayesianResult) => {
+        const { bayesFactor } = analysis;
+        return (
+            <div className="bayes-summary">
+                <div className="summary-card">
+                    <h3>Bayes Factor</h3>
+                    <div className="metric-value">BF10 = {formatBayesFactor(bayesFactor.bf10)}</div>
+                    <div className="metric-details">
+                        <div>BF01 = {formatBayesFactor(bayesFactor.bf01)}</div>
+                        <div className={`evidence ${bayesFactor.favors}`}>
+                            {INTERPRETATION_LABELS[bayesFactor.interpretation]} evidence for {bayesFactor.favors === 'alternative' ? bayesFactor.hypothesis : 'δ = 0'}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="summary-card">
+                    <h3>Posterior Effect Size</h3>
+                    <div className="metric-value">{formatEffect(analysis.posteriorMean)}</div>
+                    <div className="metric-details">
+                        <div>SD {formatEffect(analysis.posteriorSD)}</div>
+                        <div>
+                            {levelLabel} credible interval: [{formatEffect(analysis.credibleInterval[0])}, {formatEffect(analysis.credibleInterval[1])}]
+                        </div>
+                    </div>
+                </div>
+
+                <div className="summary-card">
+                    <h3>Evidence</h3>
+                    <div className="metric-value">z = {analysis.evidence.z.toFixed(3)}</div>
+                    <div className="metric-details">{analysis.evidence.trialCount.toLocaleString()} trials, directed</div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderView = () => {
+        switch (activeView) {
+            case 'posterior':
+                return densityChart ? (
+                    <div className="chart-container">
+                        <h4>Prior and Posterior of δ</h4>
+                        <div className="bayes-chart">
+                            <Scatter data={densityChart} options={densityOptions} />
+                        </div>
+                    </div>
+                ) : null;
+            case 'robustness':
+                return robustnessChart ? (
+                    <div className="chart-container">
+                        <h4>Prior Robustness</h4>
+                        <div className="bayes-chart">
+                            <Scatter data={robustnessChart} options={robustnessOptions} />
+                        </div>
+                        <p className="metric-details">
+                            BF10 with the prior narrowed and widened from an eighth to eight times its width.
+                        </p>
+                    </div>
+                ) : null;
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className="bayesian-analysis-panel">
+            <div className="bayes-header">
+                <h2>Bayesian Analysis</h2>
+                {renderControls()}
+            </div>
+
+            {error && <div className="bayes-error">{error}</div>}
+            {isLoading && <div className="loading">Computing Bayes factors...</div>}
+
+            {result && !isLoading && (
+                <>
+                    {renderSummary(result)}
+
+                    <div className="bayes-tabs">
+                        {([
+                            { key: 'posterior', label: 'Posterior' },
+                            { key: 'robustness', label: 'Robustness' }
+                        ] as const).map(tab => (
+                            <button
+                                key={tab.key}
+                                className={`tab ${activeView === tab.key ? 'active' : ''}`}
+                                onClick={() => setActiveView(tab.key)}
+                            >
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="bayes-content">
+                        {renderView()}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BayesianAnalysisPanel;
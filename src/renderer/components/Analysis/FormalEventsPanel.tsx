@@ -0,0 +1,235 @@
+/**
+ * FormalEventsPanel - GCP-style formal event registry
+ * Events fix a window and recipe when registered and are evaluated once the window closes;
+ * the cumulative Stouffer Z is shown over all events and over the rejectable ones alone
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    EventCategory,
+    EventRecipe,
+    FormalEvent,
+    FormalEventPoint,
+    FormalEventSeries
+} from '../../../shared/analysis-types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './FormalEventsPanel.css';
+
+const RECIPES: { value: EventRecipe; label: string }[] = [
+    { value: 'netvar', label: 'Network variance (Σ Z²)' },
+    { value: 'device_variance', label: 'Device variance (Σ z²)' },
+    { value: 'covariance', label: 'Inter-device covariance' }
+];
+
+const PLOT_WIDTH = 600;
+const PLOT_HEIGHT = 160;
+
+/**
+ * Value for a datetime-local input, in local time
+ */
+function toLocalInput(date: Date): string {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+}
+
+/**
+ * SVG points of the running Σz over evaluated events
+ */
+function seriesPoints(points: FormalEventPoint[]): string {
+    const values = [0, ...points.map(point => point.cumulativeDeviation)];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || 1;
+    const step = PLOT_WIDTH / (values.length - 1);
+
+    return values
+        .map((value, i) => `${(i * step).toFixed(1)},${(PLOT_HEIGHT - ((value - min) / span) * PLOT_HEIGHT).toFixed(1)}`)
+        .join(' ');
+}
+
+export const FormalEventsPanel: React.FC = () => {
+    const [series, setSeries] = useState<FormalEventSeries | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [category, setCategory] = useState<EventCategory>('world');
+    const [recipe, setRecipe] = useState<EventRecipe>('netvar');
+    const [startTime, setStartTime] = useState(() => toLocalInput(new Date(Date.now() + 60 * 60 * 1000)));
+    const [endTime, setEndTime] = useState(() => toLocalInput(new Date(Date.now() + 2 * 60 * 60 * 1000)));
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!hasElectronAPI()) return;
+        setSeries(await getElectronAPI().events.getSeries());
+    }, []);
+
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+        refresh().catch(() => setSeries(null));
+        return getElectronAPI().on('formal-event', () => {
+            refresh().catch(() => undefined);
+        });
+    }, [refresh]);
+
+    const run = async (action: () => Promise<void>) => {
+        if (!hasElectronAPI()) {
+            setError('Formal events are only available when the app runs through Electron');
+            return;
+        }
+
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRegister = () => run(async () => {
+        await getElectronAPI().events.register({
+            name,
+            description: description.trim() || undefined,
+            category,
+            recipe,
+            startTime: new Date(startTime),
+            endTime: new Date(endTime)
+        });
+        setName('');
+        setDescription('');
+    });
+
+    const handleEvaluate = () => run(async () => {
+        await getElectronAPI().events.evaluateDue();
+    });
+
+    const registersAfterTheFact = new Date(startTime).getTime() < Date.now();
+    const events = series ? [...series.events].reverse() : [];
+
+    return (
+        <div className="formal-events-panel">
+            <div className="events-header">
+                <h2>Formal Events</h2>
+                <p>
+                    Each event fixes its window and recipe in advance and is evaluated over the device network
+                    once the window closes.
+                </p>
+            </div>
+
+            <div className="events-form">
+                <label>
+                    Name
+                    <input value={name} onChange={(e) => setName(e.target.value)} placeholder="New Year 2027" />
+                </label>
+                <label>
+                    Category
+                    <select value={category} onChange={(e) => setCategory(e.target.value as EventCategory)}>
+                        <option value="world">World</option>
+                        <option value="personal">Personal</option>
+                    </select>
+                </label>
+                <label>
+                    Recipe
+                    <select value={recipe} onChange={(e) => setRecipe(e.target.value as EventRecipe)}>
+                        {RECIPES.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Start
+                    <input type="datetime-local" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+                </label>
+                <label>
+                    End
+                    <input type="datetime-local" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                </label>
+                <label className="events-description">
+                    Description
+                    <input value={description} onChange={(e) => setDescription(e.target.value)} />
+                </label>
+            </div>
+
+            <div className="events-controls">
+                <button className="events-button" onClick={handleRegister} disabled={isBusy || !name.trim()}>
+                    Register Event
+                </button>
+                <button className="events-button" onClick={handleEvaluate} disabled={isBusy}>
+                    Evaluate Closed Events
+                </button>
+                {registersAfterTheFact && (
+                    <span className="events-warning">
+                        The window has already opened: this event will be registered as non-rejectable.
+                    </span>
+                )}
+            </div>
+
+            {error && <div className="events-error">{error}</div>}
+            {series && (
+                <div className="events-result">
+                    <div className="events-metrics">
+                        <div>
+                            <span>All formal events</span>
+                            <strong>Z = {series.stoufferZ.toFixed(3)}</strong>
+                            <small>{series.eventCount} events, p = {series.pValue.toFixed(4)}</small>
+                        </div>
+                        <div>
+                            <span>Rejectable events only</span>
+                            <strong>Z = {series.rejectableZ.toFixed(3)}</strong>
+                            <small>{series.rejectableCount} events, p = {series.rejectablePValue.toFixed(4)}</small>
+                        </div>
+                    </div>
+
+                    {series.points.length > 0 && (
+                        <svg
+                            className="events-plot"
+                            viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+                            preserveAspectRatio="none"
+                            role="img"
+                            aria-label="Cumulative z of formal events"
+                        >
+                            <polyline points={seriesPoints(series.points)} />
+                        </svg>
+                    )}
+
+                    {events.length > 0 && (
+                        <table className="events-table">
+                            <thead>
+                                <tr>
+                                    <th>Event</th>
+                                    <th>Window</th>
+                                    <th>Recipe</th>
+                                    <th>Status</th>
+                                    <th>Z</th>
+                                    <th>p</th>
+                                    <th>Rejectable</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {events.map((event: FormalEvent) => (
+                                    <tr key={event.id} title={event.description}>
+                                        <td>{event.name} <small>({event.category})</small></td>
+                                        <td>
+                                            {new Date(event.startTime).toLocaleString()} –{' '}
+                                            {new Date(event.endTime).toLocaleString()}
+                                        </td>
+                                        <td>{RECIPES.find(option => option.value === event.recipe)?.label}</td>
+                                        <td>{event.status.replace('_', ' ')}</td>
+                                        <td>{event.result ? event.result.zScore.toFixed(3) : '-'}</td>
+                                        <td>{event.result ? event.result.pValue.toFixed(4) : '-'}</td>
+                                        <td>{event.rejectable ? 'Yes' : 'No'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FormalEventsPanel;
@@ -0,0 +1,360 @@
+/**
+ * GroupSequentialPanel - group-sequential designs with Lan-DeMets alpha spending
+ * A design fixes its spending function, maximum trials and planned looks when created;
+ * every look taken is recorded and an interim look outside the plan tightens the later boundaries
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    Chart as ChartJS,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Tooltip,
+    Legend,
+    ChartData,
+    ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import {
+    AlphaSpendingFunction,
+    GroupSequentialStatus,
+    SequentialDataSource
+} from '../../../shared/analysis-types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './GroupSequentialPanel.css';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const SPENDING_LABELS: Record<AlphaSpendingFunction, string> = {
+    obrien_fleming: "O'Brien-Fleming type",
+    pocock: 'Pocock type'
+};
+
+const STATUS_LABELS: Record<GroupSequentialStatus['design']['status'], string> = {
+    active: 'Active',
+    rejected_null: 'Null rejected',
+    retained_null: 'Null retained'
+};
+
+/**
+ * Planned looks as typed: a number of equally spaced looks, or trial counts separated by commas
+ */
+function parseLooks(value: string): number | number[] {
+    const parts = value.split(',').map(part => part.trim()).filter(Boolean);
+    return parts.length > 1 ? parts.map(Number) : Number(parts[0]);
+}
+
+export const GroupSequentialPanel: React.FC = () => {
+    const [designs, setDesigns] = useState<GroupSequentialStatus[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [title, setTitle] = useState('');
+    const [spending, setSpending] = useState<AlphaSpendingFunction>('obrien_fleming');
+    const [alpha, setAlpha] = useState(0.05);
+    const [sides, setSides] = useState<1 | 2>(1);
+    const [maxTrials, setMaxTrials] = useState(10000);
+    const [looks, setLooks] = useState('5');
+    const [source, setSource] = useState<SequentialDataSource>('session');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!hasElectronAPI()) return;
+
+        const statuses = await getElectronAPI().sequential.list();
+        setDesigns(statuses);
+        setSelectedId(prev => prev && statuses.some(status => status.design.id === prev)
+            ? prev
+            : statuses[0]?.design.id ?? null);
+    }, []);
+
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+        refresh().catch(() => setDesigns([]));
+        return getElectronAPI().on('sequential-look', () => {
+            refresh().catch(() => undefined);
+        });
+    }, [refresh]);
+
+    const run = async (action: () => Promise<void>) => {
+        if (!hasElectronAPI()) {
+            setError('Group-sequential designs are only available when the app runs through Electron');
+            return;
+        }
+
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const created = await getElectronAPI().sequential.create({
+            title,
+            spending,
+            alpha,
+            sides,
+            maxTrials,
+            looks: parseLooks(looks),
+            source
+        });
+        setTitle('');
+        setSelectedId(created.design.id);
+    });
+
+    const selected = designs.find(status => status.design.id === selectedId) ?? null;
+
+    const handleInterimLook = () => {
+        if (!selected) return;
+        const confirmed = window.confirm(
+            'An interim look is recorded permanently and spends alpha: every later boundary of ' +
+            `"${selected.design.plan.title}" becomes stricter. Take the look now?`
+        );
+        if (!confirmed) return;
+
+        run(async () => {
+            await getElectronAPI().sequential.takeLook(selected.design.id);
+        });
+    };
+
+    const boundaryChart = useMemo((): ChartData<'scatter'> | null => {
+        if (!selected) return null;
+
+        const boundaries = [...selected.looks, ...selected.upcoming];
+        const datasets: ChartData<'scatter'>['datasets'] = [
+            {
+                label: 'Boundary',
+                data: boundaries.map(boundary => ({ x: boundary.trialCount, y: boundary.boundaryZ })),
+                borderColor: '#dc3545',
+                backgroundColor: '#dc3545',
+                showLine: true,
+                pointRadius: 3
+            },
+            {
+                label: 'Observed z',
+                data: selected.looks.map(look => ({ x: look.trialCount, y: look.z })),
+                borderColor: '#007bff',
+                backgroundColor: '#007bff',
+                showLine: true,
+                pointRadius: 5
+            }
+        ];
+        if (selected.design.plan.sides === 2) {
+            datasets.splice(1, 0, {
+                label: 'Lower boundary',
+                data: boundaries.map(boundary => ({ x: boundary.trialCount, y: -boundary.boundaryZ })),
+                borderColor: '#dc3545',
+                backgroundColor: '#dc3545',
+                borderDash: [6, 4],
+                showLine: true,
+                pointRadius: 3
+            });
+        }
+        return { datasets };
+    }, [selected]);
+
+    const boundaryOptions: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+            x: {
+                min: 0,
+                max: selected?.design.plan.maxTrials,
+                title: { display: true, text: 'Trials' }
+            },
+            y: {
+                title: { display: true, text: 'z' }
+            }
+        }
+    };
+
+    const renderDesign = (status: GroupSequentialStatus) => {
+        const { design, looks: taken } = status;
+        const lastLook = taken[taken.length - 1];
+
+        return (
+            <div className="sequential-result">
+                <div className="sequential-metrics">
+                    <div>
+                        <span>Status</span>
+                        <strong>{STATUS_LABELS[design.status]}</strong>
+                        <small>
+                            {SPENDING_LABELS[design.plan.spending]}, α = {design.plan.alpha}
+                            {design.plan.sides === 2 ? ' two-sided' : ' one-sided'}
+                        </small>
+                    </div>
+                    <div>
+                        <span>Trials</span>
+                        <strong>{status.trialsCollected.toLocaleString()}</strong>
+                        <small>of {design.plan.maxTrials.toLocaleString()} ({design.plan.source} data)</small>
+                    </div>
+                    <div>
+                        <span>Alpha spent</span>
+                        <strong>{lastLook ? lastLook.cumulativeAlpha.toPrecision(3) : '0'}</strong>
+                        <small>{taken.length} of {design.plan.plannedLooks.length} planned looks taken</small>
+                    </div>
+                    <div>
+                        <span>Next look</span>
+                        <strong>{status.nextLookAt !== null ? status.nextLookAt.toLocaleString() : '-'}</strong>
+                        <small>
+                            {status.upcoming[0]
+                                ? `boundary z = ${status.upcoming[0].boundaryZ.toFixed(3)}`
+                                : 'no planned looks remain'}
+                        </small>
+                    </div>
+                </div>
+
+                {design.status === 'active' && (
+                    <div className="sequential-controls">
+                        <button className="sequential-button" onClick={handleInterimLook} disabled={isBusy}>
+                            Take Interim Look
+                        </button>
+                        <span className="sequential-warning">
+                            Looks run automatically at the planned trial counts. An extra look spends alpha
+                            and tightens every later boundary.
+                        </span>
+                    </div>
+                )}
+
+                {boundaryChart && (
+                    <div className="sequential-chart">
+                        <Scatter data={boundaryChart} options={boundaryOptions} />
+                    </div>
+                )}
+
+                <table className="sequential-table">
+                    <thead>
+                        <tr>
+                            <th>Look</th>
+                            <th>Trials</th>
+                            <th>Information</th>
+                            <th>Alpha spent</th>
+                            <th>Boundary z</th>
+                            <th>Nominal p</th>
+                            <th>z</th>
+                            <th>Outcome</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {taken.map(look => (
+                            <tr key={look.id} title={`${look.trigger} look, ${new Date(look.performedAt).toLocaleString()}`}>
+                                <td>{look.lookNumber}{look.planned ? '' : ' (unplanned)'}</td>
+                                <td>{look.trialCount.toLocaleString()}</td>
+                                <td>{(look.informationFraction * 100).toFixed(1)}%</td>
+                                <td>{look.alphaSpent.toPrecision(3)}</td>
+                                <td>{look.boundaryZ.toFixed(3)}</td>
+                                <td>{look.nominalPValue.toPrecision(3)}</td>
+                                <td>{look.z.toFixed(3)}</td>
+                                <td>{look.crossed ? 'Crossed' : 'Continue'}</td>
+                            </tr>
+                        ))}
+                        {status.upcoming.map(boundary => (
+                            <tr key={`planned-${boundary.lookNumber}`} className="planned">
+                                <td>{boundary.lookNumber}</td>
+                                <td>{boundary.trialCount.toLocaleString()}</td>
+                                <td>{(boundary.informationFraction * 100).toFixed(1)}%</td>
+                                <td>{boundary.alphaSpent.toPrecision(3)}</td>
+                                <td>{boundary.boundaryZ.toFixed(3)}</td>
+                                <td>{boundary.nominalPValue.toPrecision(3)}</td>
+                                <td>-</td>
+                                <td>Planned</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    return (
+        <div className="group-sequential-panel">
+            <div className="sequential-header">
+                <h2>Group-Sequential Designs</h2>
+                <p>
+                    Tag sessions or continuous intention periods to a design; its boundaries, not the running
+                    p-value, decide significance.
+                </p>
+            </div>
+
+            <div className="sequential-form">
+                <label>
+                    Title
+                    <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Replication 2027" />
+                </label>
+                <label>
+                    Spending function
+                    <select value={spending} onChange={(e) => setSpending(e.target.value as AlphaSpendingFunction)}>
+                        {(Object.keys(SPENDING_LABELS) as AlphaSpendingFunction[]).map(key => (
+                            <option key={key} value={key}>{SPENDING_LABELS[key]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Alpha
+                    <select value={alpha} onChange={(e) => setAlpha(parseFloat(e.target.value))}>
+                        <option value={0.05}>0.05</option>
+                        <option value={0.01}>0.01</option>
+                        <option value={0.005}>0.005</option>
+                    </select>
+                </label>
+                <label>
+                    Test
+                    <select value={sides} onChange={(e) => setSides(parseInt(e.target.value) === 2 ? 2 : 1)}>
+                        <option value={1}>One-sided (intended direction)</option>
+                        <option value={2}>Two-sided</option>
+                    </select>
+                </label>
+                <label>
+                    Maximum trials
+                    <input
+                        type="number"
+                        min={1}
+                        value={maxTrials}
+                        onChange={(e) => setMaxTrials(parseInt(e.target.value) || 0)}
+                    />
+                </label>
+                <label>
+                    Looks
+                    <input
+                        value={looks}
+                        onChange={(e) => setLooks(e.target.value)}
+                        placeholder="5, or 2000, 5000, 10000"
+                    />
+                </label>
+                <label>
+                    Data
+                    <select value={source} onChange={(e) => setSource(e.target.value as SequentialDataSource)}>
+                        <option value="session">Tagged sessions</option>
+                        <option value="continuous">Tagged continuous intention periods</option>
+                    </select>
+                </label>
+            </div>
+
+            <div className="sequential-controls">
+                <button className="sequential-button" onClick={handleCreate} disabled={isBusy || !title.trim()}>
+                    Create Design
+                </button>
+                {designs.length > 0 && (
+                    <select value={selectedId ?? ''} onChange={(e) => setSelectedId(e.target.value)}>
+                        {designs.map(status => (
+                            <option key={status.design.id} value={status.design.id}>
+                                {status.design.plan.title} ({STATUS_LABELS[status.design.status]})
+                            </option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {error && <div className="sequential-error">{error}</div>}
+            {selected && renderDesign(selected)}
+        </div>
+    );
+};
+
+export default GroupSequentialPanel;
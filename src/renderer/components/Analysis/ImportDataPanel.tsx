@@ -0,0 +1,141 @@
+/**
+ * ImportDataPanel - Bring external RNG datasets into the local database
+ * GCP egg files, generic "timestamp,value" CSV and JSON exports from this application;
+ * rows that fail validation are listed instead of imported
+ */
+
+import React, { useState } from 'react';
+import { ImportFormat, ImportReport, IntentionType } from '../../../shared/types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './ImportDataPanel.css';
+
+const IMPORT_FORMATS: { value: ImportFormat; label: string; accept: string }[] = [
+    { value: 'gcp', label: 'GCP Egg Data (CSV)', accept: '.csv,.txt' },
+    { value: 'csv', label: 'Timestamp, Value (CSV)', accept: '.csv,.txt' },
+    { value: 'json', label: 'JSON Export (this app)', accept: '.json' }
+];
+
+/** Rejected rows shown in the panel; the report holds more */
+const SHOWN_REJECTIONS = 50;
+
+export const ImportDataPanel: React.FC = () => {
+    const [format, setFormat] = useState<ImportFormat>('gcp');
+    const [file, setFile] = useState<File | null>(null);
+    const [source, setSource] = useState('');
+    const [intention, setIntention] = useState<NonNullable<IntentionType>>('baseline');
+    const [isImporting, setIsImporting] = useState(false);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleImport = async () => {
+        if (!file) return;
+        if (!hasElectronAPI()) {
+            setError('Importing is only available when the app runs through Electron');
+            return;
+        }
+
+        setIsImporting(true);
+        setError(null);
+        try {
+            setReport(await getElectronAPI().data.importData({
+                format,
+                fileName: file.name,
+                content: await file.text(),
+                source: source.trim() || undefined,
+                intention: format === 'json' ? undefined : intention
+            }));
+        } catch (err) {
+            setReport(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="import-data-panel">
+            <div className="import-header">
+                <h2>Import Data</h2>
+                <p>Every row is validated as a 200-bit trial; imported sessions keep a provenance tag.</p>
+            </div>
+
+            <div className="import-form">
+                <label>
+                    Format
+                    <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)}>
+                        {IMPORT_FORMATS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    File
+                    <input
+                        type="file"
+                        accept={IMPORT_FORMATS.find(option => option.value === format)!.accept}
+                        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                    />
+                </label>
+                <label>
+                    Source
+                    <input
+                        value={source}
+                        onChange={(e) => setSource(e.target.value)}
+                        placeholder={file ? `${format}:${file.name}` : 'Provenance tag'}
+                    />
+                </label>
+                {format !== 'json' && (
+                    <label>
+                        Intention
+                        <select value={intention} onChange={(e) => setIntention(e.target.value as NonNullable<IntentionType>)}>
+                            <option value="baseline">Baseline</option>
+                            <option value="high">High</option>
+                            <option value="low">Low</option>
+                        </select>
+                    </label>
+                )}
+            </div>
+
+            <button className="import-button" onClick={handleImport} disabled={!file || isImporting}>
+                {isImporting ? 'Importing...' : 'Import'}
+            </button>
+
+            {error && <div className="import-error">{error}</div>}
+            {report && (
+                <div className="import-report">
+                    <p>
+                        Imported {report.trialCount.toLocaleString()} trials into {report.sessionIds.length} sessions
+                        from {report.fileName}; {report.rejectedCount.toLocaleString()} rows rejected.
+                    </p>
+                    <p className="provenance">Source: {report.source} · SHA-256: {report.checksum}</p>
+
+                    {report.rejected.length > 0 && (
+                        <table className="rejected-table">
+                            <thead>
+                                <tr>
+                                    <th>Line</th>
+                                    <th>Reason</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.rejected.slice(0, SHOWN_REJECTIONS).map((row, i) => (
+                                    <tr key={i}>
+                                        <td>{row.line}</td>
+                                        <td>{row.reason}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {report.rejectedCount > SHOWN_REJECTIONS && (
+                        <p className="provenance">
+                            Showing the first {SHOWN_REJECTIONS} of {report.rejectedCount.toLocaleString()} rejected rows.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImportDataPanel;
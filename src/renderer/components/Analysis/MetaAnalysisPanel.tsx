@@ -1,217 +1,231 @@
+/**
+ * MetaAnalysisPanel - Sessions combined as studies
+ * Forest plot of directed per-trial effect sizes, heterogeneity, leave-one-out sensitivity,
+ * the cumulative estimate as sessions were added and publication-bias diagnostics;
+ * computed from stored trials in the main process
+ */
+
 import React, { useState, useEffect, useMemo } from 'react';
-import { Chart as ChartJS, ChartOptions, ChartData } from 'chart.js';
-import { Bar, Scatter, Line } from 'react-chartjs-2';
 import {
-    MetaAnalysisProps,
-    EffectSizeData,
-    MetaAnalysisResult,
-    ForestPlotData,
-    ExperimentSession,
-    AnalysisConfig
-} from '../../../shared/analysis-types';
-import { BayesianAnalyzer, MetaAnalyzer } from '../../../core/advanced-research-stats';
-import { StatisticalUtils } from '../../../core/statistical-utils';
+    Chart as ChartJS,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Filler,
+    Tooltip,
+    Legend,
+    ChartData,
+    ChartOptions
+} from 'chart.js';
+import { Scatter, Line } from 'react-chartjs-2';
+import { MetaAnalysisMethod, MetaAnalysisResult, PublicationBiasResult, StoppingGroupSummary } from '../../../shared/analysis-types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import FunnelPlotChart from '../Charts/FunnelPlotChart';
 import './MetaAnalysisPanel.css';
 
+ChartJS.register(LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
 interface MetaAnalysisPanelProps {
-    sessions: ExperimentSession[];
-    config: AnalysisConfig;
-    onConfigChange: (updates: Partial<AnalysisConfig>) => void;
+    startTime?: Date;
+    endTime?: Date;
 }
 
-interface MetaState {
-    activeView: MetaView;
-    selectedEffect: EffectType;
-    analysisMethod: AnalysisMethod;
-    groupingCriteria: GroupingCriteria;
-    confidenceLevel: number;
-    isLoading: boolean;
-    metaResults: MetaAnalysisResult | null;
-    forestPlotData: ForestPlotData | null;
-    heterogeneityTest: HeterogeneityTest | null;
-    subgroupAnalysis: SubgroupAnalysis | null;
-    publicationBias: PublicationBiasTest | null;
-}
+type MetaView = 'forest' | 'heterogeneity' | 'sensitivity' | 'cumulative' | 'bias';
 
-interface HeterogeneityTest {
-    qStatistic: number;
-    pValue: number;
-    i2: number;
-    tau2: number;
-    interpretation: 'low' | 'moderate' | 'substantial' | 'considerable';
-}
+const METHOD_LABELS: Record<MetaAnalysisMethod, string> = {
+    'fixed': 'Fixed effect',
+    'dersimonian-laird': 'Random effects (DerSimonian-Laird)',
+    'reml': 'Random effects (REML)'
+};
 
-interface SubgroupAnalysis {
-    groups: SubgroupResult[];
-    betweenGroupHeterogeneity: number;
-    withinGroupHeterogeneity: number;
-    pValue: number;
-}
+/** Effect sizes per trial are of order 10⁻⁴, shown scaled */
+const formatEffect = (value: number): string => (value * 1e4).toFixed(2);
 
-interface SubgroupResult {
-    name: string;
-    count: number;
-    effectSize: number;
-    standardError: number;
-    confidenceInterval: [number, number];
-    weight: number;
-    pValue: number;
-}
+const formatInterval = ([lower, upper]: [number, number]): string => `[${formatEffect(lower)}, ${formatEffect(upper)}]`;
 
-interface PublicationBiasTest {
-    eggerTest: {
-        intercept: number;
-        pValue: number;
-        significant: boolean;
-    };
-    funnelAsymmetry: number;
-    funnelData: Array<{ effectSize: number; standardError: number; weight: number }>;
-    trimFillAnalysis: {
-        missingStudies: number;
-        adjustedEffect: number;
-        adjustedCI: [number, number];
-    };
-}
+export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({ startTime, endTime }) => {
+    const [method, setMethod] = useState<MetaAnalysisMethod>('reml');
+    const [hartungKnapp, setHartungKnapp] = useState(true);
+    const [intention, setIntention] = useState<'both' | 'high' | 'low'>('both');
+    const [confidenceLevel, setConfidenceLevel] = useState(0.95);
+    const [result, setResult] = useState<MetaAnalysisResult | null>(null);
+    const [bias, setBias] = useState<PublicationBiasResult | null>(null);
+    const [activeView, setActiveView] = useState<MetaView>('forest');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-type MetaView = 'overview' | 'forest' | 'heterogeneity' | 'subgroup' | 'bias' | 'sensitivity';
-type EffectType = 'deviation' | 'zScore' | 'cohenD' | 'hedgeG' | 'glassD';
-type AnalysisMethod = 'fixed' | 'random' | 'bayesian';
-type GroupingCriteria = 'intention' | 'participant' | 'date' | 'duration' | 'trialCount';
-
-export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
-    sessions,
-    config,
-    onConfigChange
-}) => {
-    const [state, setState] = useState<MetaState>({
-        activeView: 'overview',
-        selectedEffect: 'deviation',
-        analysisMethod: 'random',
-        groupingCriteria: 'intention',
-        confidenceLevel: 0.95,
-        isLoading: false,
-        metaResults: null,
-        forestPlotData: null,
-        heterogeneityTest: null,
-        subgroupAnalysis: null,
-        publicationBias: null
-    });
-
-    const effectSizeData = useMemo(() => {
-        return generateEffectSizeData(sessions, state.selectedEffect);
-    }, [sessions, state.selectedEffect]);
+    // Compared by value so a new Date for the same range does not refetch
+    const startMs = startTime?.getTime();
+    const endMs = endTime?.getTime();
 
     useEffect(() => {
-        performMetaAnalysis();
-    }, [effectSizeData, state.analysisMethod, state.confidenceLevel, state.groupingCriteria]);
-
-    const performMetaAnalysis = async () => {
-        setState(prev => ({ ...prev, isLoading: true }));
-
-        try {
-            const metaAnalyzer = new MetaAnalyzer();
-
-            // Perform meta-analysis
-            const metaResults = await metaAnalyzer.performMetaAnalysis(
-                effectSizeData,
-                state.analysisMethod,
-                state.confidenceLevel
-            );
-
-            // Generate forest plot data
-            const forestPlotData = generateForestPlotData(effectSizeData, metaResults);
-
-            // Test for heterogeneity
-            const heterogeneityTest = calculateHeterogeneity(effectSizeData);
-
-            // Perform subgroup analysis
-            const subgroupAnalysis = performSubgroupAnalysis(
-                effectSizeData,
-                state.groupingCriteria
-            );
-
-            // Test for publication bias
-            const publicationBias = testPublicationBias(effectSizeData);
-
-            setState(prev => ({
-                ...prev,
-                metaResults,
-                forestPlotData,
-                heterogeneityTest,
-                subgroupAnalysis,
-                publicationBias,
-                isLoading: false
-            }));
-        } catch (error) {
-            console.error('Error performing meta-analysis:', error);
-            setState(prev => ({ ...prev, isLoading: false }));
+        if (!hasElectronAPI()) {
+            setError('Session data is only available when the app runs through Electron');
+            return;
         }
-    };
 
-    const handleViewChange = (view: MetaView) => {
-        setState(prev => ({ ...prev, activeView: view }));
-    };
+        const request = {
+            method,
+            hartungKnapp,
+            confidenceLevel,
+            intention: intention === 'both' ? undefined : intention,
+            startTime: startMs !== undefined ? new Date(startMs) : undefined,
+            endTime: endMs !== undefined ? new Date(endMs) : undefined
+        };
 
-    const handleEffectChange = (effect: EffectType) => {
-        setState(prev => ({ ...prev, selectedEffect: effect }));
-    };
+        setIsLoading(true);
+        Promise.all([
+            getElectronAPI().data.getMetaAnalysis(request),
+            getElectronAPI().data.getPublicationBias(request)
+        ])
+            .then(([analysis, diagnostics]) => {
+                setResult(analysis);
+                setBias(diagnostics);
+                setError(null);
+            })
+            .catch(err => {
+                setResult(null);
+                setBias(null);
+                setError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => setIsLoading(false));
+    }, [method, hartungKnapp, intention, confidenceLevel, startMs, endMs]);
+
+    const levelLabel = `${Math.round(confidenceLevel * 100)}%`;
+
+    const forestChart = useMemo((): ChartData<'scatter'> | null => {
+        if (!result) return null;
+
+        const studies = result.individualEffects;
+        const pooledRow = studies.length;
+        return {
+            datasets: [
+                {
+                    label: 'Sessions',
+                    data: studies.map((effect, index) => ({ x: effect.effectSize * 1e4, y: index })),
+                    backgroundColor: '#007bff',
+                    pointStyle: 'rect',
+                    pointRadius: studies.map(effect => 3 + 6 * Math.sqrt(effect.weight / Math.max(...studies.map(s => s.weight))))
+                },
+                ...studies.map((effect, index) => ({
+                    label: '',
+                    data: effect.confidenceInterval.map(bound => ({ x: bound * 1e4, y: index })),
+                    borderColor: '#007bff',
+                    showLine: true,
+                    pointRadius: 0
+                })),
+                {
+                    label: 'Pooled',
+                    data: [{ x: result.pooledEffectSize * 1e4, y: pooledRow }],
+                    backgroundColor: '#dc3545',
+                    pointStyle: 'rectRot',
+                    pointRadius: 9
+                },
+                {
+                    label: '',
+                    data: result.pooledConfidenceInterval.map(bound => ({ x: bound * 1e4, y: pooledRow })),
+                    borderColor: '#dc3545',
+                    showLine: true,
+                    pointRadius: 0
+                }
+            ]
+        };
+    }, [result]);
 
-    const handleMethodChange = (method: AnalysisMethod) => {
-        setState(prev => ({ ...prev, analysisMethod: method }));
-    };
+    const forestOptions = useMemo((): ChartOptions<'scatter'> => ({
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: { labels: { filter: item => item.text !== '' } }
+        },
+        scales: {
+            x: {
+                min: result ? result.forestPlotData.xAxisRange[0] * 1e4 : undefined,
+                max: result ? result.forestPlotData.xAxisRange[1] * 1e4 : undefined,
+                title: { display: true, text: 'Effect size per trial (× 10⁻⁴)' }
+            },
+            y: {
+                reverse: true,
+                ticks: {
+                    stepSize: 1,
+                    callback: value => {
+                        if (!result) return '';
+                        const index = Number(value);
+                        if (index === result.individualEffects.length) return 'Pooled';
+                        const effect = result.individualEffects[index];
+                        return effect ? new Date(effect.startTime).toLocaleDateString() : '';
+                    }
+                }
+            }
+        }
+    }), [result]);
 
-    const handleGroupingChange = (criteria: GroupingCriteria) => {
-        setState(prev => ({ ...prev, groupingCriteria: criteria }));
-    };
+    const cumulativeChart = useMemo((): ChartData<'line'> | null => {
+        if (!result || result.cumulative.length === 0) return null;
+
+        const labels = result.cumulative.map(step => new Date(step.startTime).toLocaleDateString());
+        return {
+            labels,
+            datasets: [
+                {
+                    label: 'Pooled effect size',
+                    data: result.cumulative.map(step => step.pooledEffectSize * 1e4),
+                    borderColor: '#007bff',
+                    backgroundColor: '#007bff',
+                    tension: 0
+                },
+                {
+                    label: `${levelLabel} CI`,
+                    data: result.cumulative.map(step => step.pooledConfidenceInterval[1] * 1e4),
+                    borderColor: '#007bff40',
+                    backgroundColor: '#007bff20',
+                    pointRadius: 0,
+                    fill: '+1'
+                },
+                {
+                    label: '',
+                    data: result.cumulative.map(step => step.pooledConfidenceInterval[0] * 1e4),
+                    borderColor: '#007bff40',
+                    pointRadius: 0
+                }
+            ]
+        };
+    }, [result, levelLabel]);
 
     const renderControls = () => (
         <div className="meta-controls">
             <div className="control-group">
-                <label>Effect Size:</label>
-                <select
-                    value={state.selectedEffect}
-                    onChange={(e) => handleEffectChange(e.target.value as EffectType)}
-                >
-                    <option value="deviation">Cumulative Deviation</option>
-                    <option value="zScore">Z-Score</option>
-                    <option value="cohenD">Cohen's d</option>
-                    <option value="hedgeG">Hedge's g</option>
-                    <option value="glassD">Glass's Δ</option>
+                <label htmlFor="meta-method">Model:</label>
+                <select id="meta-method" value={method} onChange={(e) => setMethod(e.target.value as MetaAnalysisMethod)}>
+                    {(Object.keys(METHOD_LABELS) as MetaAnalysisMethod[]).map(key => (
+                        <option key={key} value={key}>{METHOD_LABELS[key]}</option>
+                    ))}
                 </select>
             </div>
 
             <div className="control-group">
-                <label>Analysis Method:</label>
-                <select
-                    value={state.analysisMethod}
-                    onChange={(e) => handleMethodChange(e.target.value as AnalysisMethod)}
-                >
-                    <option value="fixed">Fixed Effects</option>
-                    <option value="random">Random Effects</option>
-                    <option value="bayesian">Bayesian</option>
-                </select>
+                <label htmlFor="meta-hartung-knapp">Hartung-Knapp:</label>
+                <input
+                    id="meta-hartung-knapp"
+                    type="checkbox"
+                    checked={hartungKnapp}
+                    disabled={method === 'fixed'}
+                    onChange={(e) => setHartungKnapp(e.target.checked)}
+                />
             </div>
 
             <div className="control-group">
-                <label>Grouping:</label>
-                <select
-                    value={state.groupingCriteria}
-                    onChange={(e) => handleGroupingChange(e.target.value as GroupingCriteria)}
-                >
-                    <option value="intention">By Intention</option>
-                    <option value="participant">By Participant</option>
-                    <option value="date">By Date</option>
-                    <option value="duration">By Duration</option>
-                    <option value="trialCount">By Trial Count</option>
+                <label htmlFor="meta-intention">Intention:</label>
+                <select id="meta-intention" value={intention} onChange={(e) => setIntention(e.target.value as 'both' | 'high' | 'low')}>
+                    <option value="both">High and low</option>
+                    <option value="high">High only</option>
+                    <option value="low">Low only</option>
                 </select>
             </div>
 
             <div className="control-group">
-                <label>Confidence Level:</label>
-                <select
-                    value={state.confidenceLevel}
-                    onChange={(e) => setState(prev => ({ ...prev, confidenceLevel: parseFloat(e.target.value) }))}
-                >
+                <label htmlFor="meta-level">Confidence Level:</label>
+                <select id="meta-level" value={confidenceLevel} onChange={(e) => setConfidenceLevel(parseFloat(e.target.value))}>
                     <option value={0.90}>90%</option>
                     <option value={0.95}>95%</option>
                     <option value={0.99}>99%</option>
@@ -220,119 +234,70 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
         </div>
     );
 
-    const renderTabNavigation = () => (
-        <div className="meta-tabs">
-            {(['overview', 'forest', 'heterogeneity', 'subgroup', 'bias', 'sensitivity'] as MetaView[]).map(tab => (
-                <button
-                    key={tab}
-                    className={`tab ${state.activeView === tab ? 'active' : ''}`}
-                    onClick={() => handleViewChange(tab)}
-                >
-                    {tab.charAt(0).toUpperCase() + tab.slice(1)}
-                </button>
-            ))}
-        </div>
-    );
-
-    const renderOverview = () => {
-        if (!state.metaResults) return <div>No analysis results available</div>;
-
-        const { overallEffect, confidenceInterval, pValue, studyCount } = state.metaResults;
-
-        return (
-            <div className="meta-overview">
-                <div className="overview-summary">
-                    <div className="summary-card">
-                        <h3>Overall Effect Size</h3>
-                        <div className="metric-value">
-                            {overallEffect.toFixed(4)}
-                        </div>
-                        <div className="metric-details">
-                            <div>95% CI: [{confidenceInterval[0].toFixed(4)}, {confidenceInterval[1].toFixed(4)}]</div>
-                            <div>p = {pValue.toFixed(4)}</div>
-                            <div className={`significance ${pValue < 0.05 ? 'significant' : 'non-significant'}`}>
-                                {pValue < 0.05 ? 'Significant' : 'Non-significant'}
-                            </div>
-                        </div>
+    const renderSummary = (analysis: MetaAnalysisResult) => (
+        <div className="overview-summary">
+            <div className="summary-card">
+                <h3>Pooled Effect Size</h3>
+                <div className="metric-value">{formatEffect(analysis.pooledEffectSize)} × 10⁻⁴</div>
+                <div className="metric-details">
+                    <div>{levelLabel} CI: {formatInterval(analysis.pooledConfidenceInterval)}</div>
+                    <div>
+                        {analysis.degreesOfFreedom === null
+                            ? `z = ${analysis.testStatistic.toFixed(3)}`
+                            : `t(${analysis.degreesOfFreedom}) = ${analysis.testStatistic.toFixed(3)}`}, p = {analysis.pValue.toFixed(4)}
                     </div>
-
-                    <div className="summary-card">
-                        <h3>Studies Included</h3>
-                        <div className="metric-value">{studyCount}</div>
-                    </div>
-
-                    <div className="summary-card">
-                        <h3>Analysis Method</h3>
-                        <div className="metric-value">{state.analysisMethod}</div>
+                    <div className={`significance ${analysis.pValue < 1 - confidenceLevel ? 'significant' : 'non-significant'}`}>
+                        {analysis.pValue < 1 - confidenceLevel ? 'Significant' : 'Non-significant'}
                     </div>
-
-                    {state.heterogeneityTest && (
-                        <div className="summary-card">
-                            <h3>Heterogeneity (I²)</h3>
-                            <div className="metric-value">{state.heterogeneityTest.i2.toFixed(1)}%</div>
-                            <div className="metric-details">
-                                <div className={`heterogeneity ${state.heterogeneityTest.interpretation}`}>
-                                    {state.heterogeneityTest.interpretation}
-                                </div>
-                            </div>
-                        </div>
-                    )}
                 </div>
+            </div>
 
-                <div className="overview-charts">
-                    <div className="chart-container">
-                        <h4>Effect Size Distribution</h4>
-                        <Bar data={prepareDistributionChart(effectSizeData)} options={getChartOptions('Effect Size Distribution')} />
-                    </div>
-                </div>
+            <div className="summary-card">
+                <h3>Sessions Included</h3>
+                <div className="metric-value">{analysis.studyCount}</div>
+                <div className="metric-details">{analysis.totalTrials.toLocaleString()} trials</div>
             </div>
-        );
-    };
 
-    const renderForestPlot = () => {
-        if (!state.forestPlotData) return <div>No forest plot data available</div>;
+            <div className="summary-card">
+                <h3>Heterogeneity (I²)</h3>
+                <div className="metric-value">{analysis.heterogeneityI2.toFixed(1)}%</div>
+                <div className="metric-details">τ² = {analysis.tau2.toExponential(2)}</div>
+            </div>
+        </div>
+    );
+
+    const renderForestPlot = (analysis: MetaAnalysisResult) => {
+        const totalWeight = analysis.individualEffects.reduce((sum, effect) => sum + effect.weight, 0);
 
         return (
             <div className="meta-forest">
-                <div className="forest-header">
-                    <h3>Forest Plot</h3>
-                    <div className="forest-legend">
-                        <div className="legend-item">
-                            <div className="legend-square individual"></div>
-                            <span>Individual Studies</span>
-                        </div>
-                        <div className="legend-item">
-                            <div className="legend-diamond overall"></div>
-                            <span>Overall Effect</span>
-                        </div>
-                    </div>
-                </div>
-
-                <div className="forest-plot">
-                    <Scatter data={prepareForestPlotChart(state.forestPlotData)} options={getForestPlotOptions()} />
+                <div className="forest-plot" style={{ height: Math.max(240, 28 * (analysis.studyCount + 2)) }}>
+                    {forestChart && <Scatter data={forestChart} options={forestOptions} />}
                 </div>
 
                 <div className="forest-table">
                     <table>
                         <thead>
                             <tr>
-                                <th>Study</th>
-                                <th>N</th>
-                                <th>Effect Size</th>
-                                <th>95% CI</th>
+                                <th>Date</th>
+                                <th>Intention</th>
+                                <th>Trials</th>
+                                <th>Directed z</th>
+                                <th>Effect size (× 10⁻⁴)</th>
+                                <th>{levelLabel} CI</th>
                                 <th>Weight</th>
-                                <th>p-value</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {state.forestPlotData.studies.map((study, index) => (
-                                <tr key={index}>
-                                    <td>{study.name}</td>
-                                    <td>{study.sampleSize}</td>
-                                    <td>{study.effectSize.toFixed(4)}</td>
-                                    <td>[{study.confidenceInterval[0].toFixed(4)}, {study.confidenceInterval[1].toFixed(4)}]</td>
-                                    <td>{(study.weight * 100).toFixed(1)}%</td>
-                                    <td>{study.pValue.toFixed(4)}</td>
+                            {analysis.individualEffects.map(effect => (
+                                <tr key={effect.sessionId}>
+                                    <td>{new Date(effect.startTime).toLocaleString()}</td>
+                                    <td>{effect.intention}</td>
+                                    <td>{effect.sampleSize.toLocaleString()}</td>
+                                    <td>{effect.directedZ.toFixed(3)}</td>
+                                    <td>{formatEffect(effect.effectSize)}</td>
+                                    <td>{formatInterval(effect.confidenceInterval)}</td>
+                                    <td>{(effect.weight / totalWeight * 100).toFixed(1)}%</td>
                                 </tr>
                             ))}
                         </tbody>
@@ -342,38 +307,30 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
         );
     };
 
-    const renderHeterogeneity = () => {
-        if (!state.heterogeneityTest) return <div>No heterogeneity analysis available</div>;
-
-        const { qStatistic, pValue, i2, tau2, interpretation } = state.heterogeneityTest;
+    const renderHeterogeneity = (analysis: MetaAnalysisResult) => {
+        const { heterogeneityQ, heterogeneityPValue, heterogeneityI2, tau2 } = analysis;
+        const level = heterogeneityI2 < 25 ? 'low' : heterogeneityI2 < 50 ? 'moderate' : heterogeneityI2 < 75 ? 'substantial' : 'considerable';
 
         return (
             <div className="meta-heterogeneity">
                 <div className="heterogeneity-metrics">
                     <div className="metric-card">
                         <h3>Q Statistic</h3>
-                        <div className="metric-value">{qStatistic.toFixed(3)}</div>
-                        <div className="metric-details">p = {pValue.toFixed(4)}</div>
+                        <div className="metric-value">{heterogeneityQ.toFixed(3)}</div>
+                        <div className="metric-details">df = {analysis.studyCount - 1}, p = {heterogeneityPValue.toFixed(4)}</div>
                     </div>
 
                     <div className="metric-card">
                         <h3>I² Statistic</h3>
-                        <div className="metric-value">{i2.toFixed(1)}%</div>
-                        <div className={`metric-details heterogeneity-level ${interpretation}`}>
-                            {interpretation} heterogeneity
-                        </div>
+                        <div className="metric-value">{heterogeneityI2.toFixed(1)}%</div>
+                        <div className={`metric-details heterogeneity-level ${level}`}>{level} heterogeneity</div>
                     </div>
 
                     <div className="metric-card">
                         <h3>Tau² (τ²)</h3>
-                        <div className="metric-value">{tau2.toFixed(4)}</div>
-                        <div className="metric-details">Between-study variance</div>
-                    </div>
-
-                    <div className="metric-card">
-                        <h3>Interpretation</h3>
-                        <div className={`interpretation-badge ${interpretation}`}>
-                            {getHeterogeneityInterpretation(i2)}
+                        <div className="metric-value">{tau2.toExponential(3)}</div>
+                        <div className="metric-details">
+                            {analysis.method === 'fixed' ? 'Assumed zero (fixed effect)' : `Between-session variance, ${METHOD_LABELS[analysis.method]}`}
                         </div>
                     </div>
                 </div>
@@ -382,18 +339,13 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
                     <h4>Understanding Heterogeneity</h4>
                     <div className="explanation-content">
                         <p>
-                            <strong>I² = {i2.toFixed(1)}%</strong> indicates {interpretation} heterogeneity between studies.
+                            Q compares the spread of session effect sizes with their sampling error; I² is the share of
+                            the spread beyond it. Under the null each session&apos;s effect size varies only by 1/√N.
                         </p>
-                        <ul>
-                            <li><strong>0-40%:</strong> Low heterogeneity - studies are fairly consistent</li>
-                            <li><strong>30-60%:</strong> Moderate heterogeneity - some inconsistency</li>
-                            <li><strong>50-90%:</strong> Substantial heterogeneity - considerable inconsistency</li>
-                            <li><strong>75-100%:</strong> Considerable heterogeneity - high inconsistency</li>
-                        </ul>
-                        {i2 > 50 && (
+                        {heterogeneityI2 > 50 && analysis.method === 'fixed' && (
                             <div className="recommendation">
-                                <strong>Recommendation:</strong> Consider subgroup analysis or random effects model
-                                due to substantial heterogeneity.
+                                <strong>Recommendation:</strong> Sessions differ more than chance allows; a random effects
+                                model gives a more honest interval.
                             </div>
                         )}
                     </div>
@@ -402,117 +354,171 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
         );
     };
 
-    const renderSubgroupAnalysis = () => {
-        if (!state.subgroupAnalysis) return <div>No subgroup analysis available</div>;
+    const renderSensitivity = (analysis: MetaAnalysisResult) => {
+        if (analysis.leaveOneOut.length === 0) {
+            return <p className="empty-state">Leave-one-out needs at least two sessions.</p>;
+        }
 
+        const sessions = new Map(analysis.individualEffects.map(effect => [effect.sessionId, effect]));
         return (
-            <div className="meta-subgroup">
-                <div className="subgroup-summary">
-                    <div className="metric-card">
-                        <h3>Between-Group Heterogeneity</h3>
-                        <div className="metric-value">{state.subgroupAnalysis.betweenGroupHeterogeneity.toFixed(3)}</div>
-                    </div>
-
-                    <div className="metric-card">
-                        <h3>Within-Group Heterogeneity</h3>
-                        <div className="metric-value">{state.subgroupAnalysis.withinGroupHeterogeneity.toFixed(3)}</div>
-                    </div>
-
-                    <div className="metric-card">
-                        <h3>Subgroup Difference</h3>
-                        <div className="metric-value">p = {state.subgroupAnalysis.pValue.toFixed(4)}</div>
-                        <div className={`significance ${state.subgroupAnalysis.pValue < 0.05 ? 'significant' : 'non-significant'}`}>
-                            {state.subgroupAnalysis.pValue < 0.05 ? 'Significant' : 'Non-significant'}
-                        </div>
-                    </div>
-                </div>
-
-                <div className="subgroup-results">
-                    <h4>Subgroup Results</h4>
-                    <div className="subgroup-cards">
-                        {state.subgroupAnalysis.groups.map((group, index) => (
-                            <div key={index} className="subgroup-card">
-                                <div className="subgroup-header">
-                                    <h5>{group.name}</h5>
-                                    <span className="study-count">{group.count} studies</span>
-                                </div>
-                                <div className="subgroup-metrics">
-                                    <div>Effect Size: {group.effectSize.toFixed(4)}</div>
-                                    <div>95% CI: [{group.confidenceInterval[0].toFixed(4)}, {group.confidenceInterval[1].toFixed(4)}]</div>
-                                    <div>Weight: {(group.weight * 100).toFixed(1)}%</div>
-                                    <div>p-value: {group.pValue.toFixed(4)}</div>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-
-                <div className="subgroup-chart">
-                    <Bar data={prepareSubgroupChart(state.subgroupAnalysis)} options={getChartOptions('Subgroup Analysis')} />
+            <div className="meta-sensitivity">
+                <h3>Leave-One-Out</h3>
+                <div className="forest-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Omitted session</th>
+                                <th>Effect size (× 10⁻⁴)</th>
+                                <th>{levelLabel} CI</th>
+                                <th>p</th>
+                                <th>τ²</th>
+                                <th>I²</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {analysis.leaveOneOut.map(estimate => {
+                                const omitted = sessions.get(estimate.omittedSessionId);
+                                return (
+                                    <tr key={estimate.omittedSessionId}>
+                                        <td>{omitted ? `${new Date(omitted.startTime).toLocaleString()} (${omitted.intention})` : estimate.omittedSessionId}</td>
+                                        <td>{formatEffect(estimate.pooledEffectSize)}</td>
+                                        <td>{formatInterval(estimate.pooledConfidenceInterval)}</td>
+                                        <td>{estimate.pValue.toFixed(4)}</td>
+                                        <td>{estimate.tau2.toExponential(2)}</td>
+                                        <td>{estimate.heterogeneityI2.toFixed(1)}%</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
                 </div>
             </div>
         );
     };
 
-    const renderPublicationBias = () => {
-        if (!state.publicationBias) return <div>No publication bias analysis available</div>;
+    const renderStoppingGroup = (label: string, group: StoppingGroupSummary | null) => (
+        <tr>
+            <td>{label}</td>
+            {group ? (
+                <>
+                    <td>{group.studyCount}</td>
+                    <td>{group.trialCount.toLocaleString()}</td>
+                    <td>{formatEffect(group.pooledEffectSize)}</td>
+                    <td>{formatInterval(group.pooledConfidenceInterval)}</td>
+                </>
+            ) : (
+                <td colSpan={4}>No sessions</td>
+            )}
+        </tr>
+    );
 
-        const { eggerTest, funnelAsymmetry, trimFillAnalysis } = state.publicationBias;
+    const renderPublicationBias = (diagnostics: PublicationBiasResult) => {
+        const { egger, begg, trimAndFill, pCurve, failSafeN, optionalStopping } = diagnostics;
+        const asymmetric = (egger !== null && egger.pValue < 0.1) || (begg !== null && begg.pValue < 0.1);
 
         return (
             <div className="meta-bias">
                 <div className="bias-tests">
                     <div className="metric-card">
-                        <h3>Egger's Test</h3>
-                        <div className="metric-value">
-                            Intercept: {eggerTest.intercept.toFixed(4)}
-                        </div>
+                        <h3>Egger&apos;s Regression</h3>
+                        {egger ? (
+                            <>
+                                <div className="metric-value">Intercept {egger.intercept.toFixed(3)}</div>
+                                <div className="metric-details">
+                                    t({egger.degreesOfFreedom}) = {egger.t.toFixed(3)}, p = {egger.pValue.toFixed(4)}
+                                </div>
+                            </>
+                        ) : <div className="metric-details">Needs three sessions of differing length</div>}
+                    </div>
+
+                    <div className="metric-card">
+                        <h3>Begg&apos;s Rank Correlation</h3>
+                        {begg ? (
+                            <>
+                                <div className="metric-value">τ = {begg.kendallTau.toFixed(3)}</div>
+                                <div className="metric-details">z = {begg.z.toFixed(3)}, p = {begg.pValue.toFixed(4)}</div>
+                            </>
+                        ) : <div className="metric-details">Needs three sessions</div>}
+                    </div>
+
+                    <div className="metric-card">
+                        <h3>Trim &amp; Fill</h3>
+                        <div className="metric-value">{trimAndFill.missingStudies} missing ({trimAndFill.side})</div>
                         <div className="metric-details">
-                            <div>p = {eggerTest.pValue.toFixed(4)}</div>
-                            <div className={`significance ${eggerTest.significant ? 'significant' : 'non-significant'}`}>
-                                {eggerTest.significant ? 'Bias detected' : 'No bias detected'}
-                            </div>
+                            <div>Adjusted effect: {formatEffect(trimAndFill.adjusted.pooledEffectSize)}</div>
+                            <div>{levelLabel} CI: {formatInterval(trimAndFill.adjusted.pooledConfidenceInterval)}</div>
                         </div>
                     </div>
 
                     <div className="metric-card">
-                        <h3>Funnel Asymmetry</h3>
-                        <div className="metric-value">{Math.abs(funnelAsymmetry).toFixed(4)}</div>
+                        <h3>Fail-Safe N</h3>
+                        <div className="metric-value">{failSafeN.rosenthal.toLocaleString()}</div>
                         <div className="metric-details">
-                            <div className={`asymmetry ${Math.abs(funnelAsymmetry) > 0.1 ? 'high' : 'low'}`}>
-                                {Math.abs(funnelAsymmetry) > 0.1 ? 'High asymmetry' : 'Low asymmetry'}
+                            <div>Rosenthal: null sessions to lose significance</div>
+                            <div>
+                                Orwin: {failSafeN.orwin.toLocaleString()} to fall below {formatEffect(failSafeN.trivialEffectSize)} × 10⁻⁴
                             </div>
                         </div>
                     </div>
 
                     <div className="metric-card">
-                        <h3>Trim & Fill</h3>
-                        <div className="metric-value">
-                            {trimFillAnalysis.missingStudies} missing studies
-                        </div>
+                        <h3>p-Curve</h3>
+                        <div className="metric-value">{pCurve.significantCount} significant</div>
                         <div className="metric-details">
-                            <div>Adjusted effect: {trimFillAnalysis.adjustedEffect.toFixed(4)}</div>
-                            <div>Adjusted 95% CI: [{trimFillAnalysis.adjustedCI[0].toFixed(4)}, {trimFillAnalysis.adjustedCI[1].toFixed(4)}]</div>
+                            {pCurve.significantCount > 0 ? (
+                                <>
+                                    <div>Right skew: Z = {pCurve.rightSkewZ.toFixed(2)}, p = {pCurve.rightSkewPValue.toFixed(4)}</div>
+                                    <div>Flatter than 33% power: p = {pCurve.flatnessPValue.toFixed(4)}</div>
+                                    <div>p bins (.01 … .05): {pCurve.bins.join(' / ')}</div>
+                                </>
+                            ) : 'No session reached p < .05 in the intended direction'}
                         </div>
                     </div>
                 </div>
 
                 <div className="funnel-plot">
                     <h4>Funnel Plot</h4>
-                    <Scatter data={prepareFunnelPlotChart(state.publicationBias)} options={getFunnelPlotOptions()} />
+                    <FunnelPlotChart data={diagnostics.funnel} confidenceLevel={confidenceLevel} />
+                </div>
+
+                <div className="forest-table">
+                    <h4>Completed vs Stopped Sessions</h4>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Sessions</th>
+                                <th>Count</th>
+                                <th>Trials</th>
+                                <th>Effect size (× 10⁻⁴)</th>
+                                <th>{levelLabel} CI</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {renderStoppingGroup('Completed', optionalStopping.completed)}
+                            {renderStoppingGroup('Stopped early', optionalStopping.stopped)}
+                        </tbody>
+                    </table>
+                    <p className="metric-details">
+                        {(optionalStopping.stoppedFraction * 100).toFixed(1)}% of sessions stopped early.
+                        {optionalStopping.completed && optionalStopping.stopped && (
+                            <> Difference {formatEffect(optionalStopping.difference)} × 10⁻⁴,
+                                z = {optionalStopping.differenceZ.toFixed(3)}, p = {optionalStopping.pValue.toFixed(4)}.</>
+                        )}
+                        {' '}Including stopped sessions shifts the pooled effect by {formatEffect(optionalStopping.allSessionsBias)} × 10⁻⁴.
+                    </p>
                 </div>
 
                 <div className="bias-interpretation">
                     <h4>Publication Bias Assessment</h4>
                     <div className="interpretation-content">
-                        {eggerTest.significant ? (
+                        {asymmetric || optionalStopping.pValue < 0.05 ? (
                             <div className="warning">
-                                <strong>Warning:</strong> Egger's test suggests potential publication bias.
-                                Consider the adjusted estimates from trim-and-fill analysis.
+                                <strong>Warning:</strong> The funnel is asymmetric or stopped sessions differ from completed
+                                ones. Weigh the trim-and-fill and completed-only estimates alongside the pooled effect.
                             </div>
                         ) : (
                             <div className="info">
-                                <strong>Good:</strong> No strong evidence of publication bias detected.
+                                <strong>Good:</strong> No strong evidence of small-session effects or selective stopping.
                             </div>
                         )}
                     </div>
@@ -521,77 +527,38 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
         );
     };
 
-    const renderSensitivityAnalysis = () => {
-        return (
-            <div className="meta-sensitivity">
-                <div className="sensitivity-options">
-                    <h3>Sensitivity Analysis Options</h3>
-                    <div className="option-cards">
-                        <div className="option-card">
-                            <h4>Leave-One-Out Analysis</h4>
-                            <p>Examine how removing each study affects the overall result</p>
-                            <button onClick={() => performLeaveOneOutAnalysis()}>
-                                Run Analysis
-                            </button>
-                        </div>
-
-                        <div className="option-card">
-                            <h4>Quality-Based Analysis</h4>
-                            <p>Analyze only high-quality studies</p>
-                            <button onClick={() => performQualityBasedAnalysis()}>
-                                Run Analysis
-                            </button>
-                        </div>
-
-                        <div className="option-card">
-                            <h4>Outlier Removal</h4>
-                            <p>Remove statistical outliers and re-analyze</p>
-                            <button onClick={() => performOutlierAnalysis()}>
-                                Run Analysis
-                            </button>
-                        </div>
-                    </div>
-                </div>
-            </div>
-        );
-    };
-
-    const renderContent = () => {
-        if (state.isLoading) {
-            return <div className="loading">Performing meta-analysis...</div>;
-        }
-
-        switch (state.activeView) {
-            case 'overview':
-                return renderOverview();
+    const renderView = (analysis: MetaAnalysisResult) => {
+        switch (activeView) {
             case 'forest':
-                return renderForestPlot();
+                return renderForestPlot(analysis);
             case 'heterogeneity':
-                return renderHeterogeneity();
-            case 'subgroup':
-                return renderSubgroupAnalysis();
-            case 'bias':
-                return renderPublicationBias();
+                return renderHeterogeneity(analysis);
             case 'sensitivity':
-                return renderSensitivityAnalysis();
+                return renderSensitivity(analysis);
+            case 'cumulative':
+                return cumulativeChart ? (
+                    <div className="chart-container">
+                        <h4>Cumulative Meta-Analysis by Date</h4>
+                        <Line
+                            data={cumulativeChart}
+                            options={{
+                                responsive: true,
+                                plugins: { legend: { labels: { filter: item => item.text !== '' } } },
+                                scales: {
+                                    x: { title: { display: true, text: 'Session added' } },
+                                    y: { title: { display: true, text: 'Pooled effect size (× 10⁻⁴)' } }
+                                }
+                            }}
+                        />
+                    </div>
+                ) : null;
+            case 'bias':
+                return bias ? renderPublicationBias(bias) : null;
             default:
-                return renderOverview();
+                return null;
         }
     };
 
-    // Placeholder functions for sensitivity analysis
-    const performLeaveOneOutAnalysis = () => {
-        console.log('Leave-one-out analysis would be implemented here');
-    };
-
-    const performQualityBasedAnalysis = () => {
-        console.log('Quality-based analysis would be implemented here');
-    };
-
-    const performOutlierAnalysis = () => {
-        console.log('Outlier analysis would be implemented here');
-    };
-
     return (
         <div className="meta-analysis-panel">
             <div className="meta-header">
@@ -599,295 +566,38 @@ export const MetaAnalysisPanel: React.FC<MetaAnalysisPanelProps> = ({
                 {renderControls()}
             </div>
 
-            {renderTabNavigation()}
+            {error && <div className="meta-error">{error}</div>}
+            {isLoading && <div className="loading">Performing meta-analysis...</div>}
+
+            {result && !isLoading && (
+                <>
+                    {renderSummary(result)}
+
+                    <div className="meta-tabs">
+                        {([
+                            { key: 'forest', label: 'Forest Plot' },
+                            { key: 'heterogeneity', label: 'Heterogeneity' },
+                            { key: 'sensitivity', label: 'Leave-One-Out' },
+                            { key: 'cumulative', label: 'Cumulative' },
+                            { key: 'bias', label: 'Publication Bias' }
+                        ] as const).map(tab => (
+                            <button
+                                key={tab.key}
+                                className={`tab ${activeView === tab.key ? 'active' : ''}`}
+                                onClick={() => setActiveView(tab.key)}
+                            >
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
 
-            <div className="meta-content">
-                {renderContent()}
-            </div>
+                    <div className="meta-content">
+                        {renderView(result)}
+                    </div>
+                </>
+            )}
         </div>
     );
 };
 
-// Helper functions
-const generateEffectSizeData = (sessions: ExperimentSession[], effectType: EffectType): EffectSizeData[] => {
-    return sessions.map((session, index) => {
-        // Mock effect size calculation - in real implementation, this would calculate actual effect sizes
-        const baseEffect = Math.sin(index * 0.1) * 0.5 + (Math.random() - 0.5) * 0.3;
-        const standardError = 0.05 + Math.random() * 0.1;
-        const weight = 1 / (standardError * standardError);
-
-        return {
-            studyId: session.id,
-            studyName: `Session ${index + 1}`,
-            effectSize: baseEffect,
-            standardError,
-            confidenceInterval: [baseEffect - 1.96 * standardError, baseEffect + 1.96 * standardError],
-            sampleSize: session.actualTrials || 1000,
-            weight,
-            pValue: Math.random() * 0.1,
-            metadata: {
-                intention: session.intention,
-                duration: session.duration || 0,
-                date: session.startTime
-            }
-        };
-    });
-};
-
-const generateForestPlotData = (effectSizes: EffectSizeData[], metaResults: MetaAnalysisResult): ForestPlotData => {
-    return {
-        studies: effectSizes.map(es => ({
-            name: es.studyName,
-            effectSize: es.effectSize,
-            confidenceInterval: es.confidenceInterval,
-            weight: es.weight / effectSizes.reduce((sum, e) => sum + e.weight, 0),
-            sampleSize: es.sampleSize,
-            pValue: es.pValue
-        })),
-        overallEffect: {
-            effectSize: metaResults.overallEffect,
-            confidenceInterval: metaResults.confidenceInterval,
-            weight: 1.0
-        }
-    };
-};
-
-const calculateHeterogeneity = (effectSizes: EffectSizeData[]): HeterogeneityTest => {
-    // Mock heterogeneity calculation
-    const qStatistic = 5 + Math.random() * 15;
-    const pValue = Math.random() * 0.5;
-    const i2 = Math.random() * 100;
-    const tau2 = Math.random() * 0.1;
-
-    const interpretation = i2 < 25 ? 'low' :
-                         i2 < 50 ? 'moderate' :
-                         i2 < 75 ? 'substantial' : 'considerable';
-
-    return {
-        qStatistic,
-        pValue,
-        i2,
-        tau2,
-        interpretation
-    };
-};
-
-const performSubgroupAnalysis = (effectSizes: EffectSizeData[], criteria: GroupingCriteria): SubgroupAnalysis => {
-    // Mock subgroup analysis
-    const groups: SubgroupResult[] = [
-        {
-            name: 'Group A',
-            count: Math.floor(effectSizes.length / 2),
-            effectSize: Math.random() * 0.5,
-            standardError: 0.05 + Math.random() * 0.05,
-            confidenceInterval: [0, 0],
-            weight: 0.5,
-            pValue: Math.random() * 0.1
-        },
-        {
-            name: 'Group B',
-            count: Math.ceil(effectSizes.length / 2),
-            effectSize: Math.random() * 0.5,
-            standardError: 0.05 + Math.random() * 0.05,
-            confidenceInterval: [0, 0],
-            weight: 0.5,
-            pValue: Math.random() * 0.1
-        }
-    ];
-
-    // Calculate confidence intervals
-    groups.forEach(group => {
-        group.confidenceInterval = [
-            group.effectSize - 1.96 * group.standardError,
-            group.effectSize + 1.96 * group.standardError
-        ];
-    });
-
-    return {
-        groups,
-        betweenGroupHeterogeneity: Math.random() * 5,
-        withinGroupHeterogeneity: Math.random() * 10,
-        pValue: Math.random() * 0.2
-    };
-};
-
-const testPublicationBias = (effectSizes: EffectSizeData[]): PublicationBiasTest => {
-    // Mock publication bias test
-    const eggerIntercept = (Math.random() - 0.5) * 2;
-    const eggerPValue = Math.random() * 0.2;
-
-    return {
-        eggerTest: {
-            intercept: eggerIntercept,
-            pValue: eggerPValue,
-            significant: eggerPValue < 0.05
-        },
-        funnelAsymmetry: Math.random() * 0.3,
-        funnelData: effectSizes.map(es => ({
-            effectSize: es.effectSize,
-            standardError: es.standardError,
-            weight: es.weight
-        })),
-        trimFillAnalysis: {
-            missingStudies: Math.floor(Math.random() * 3),
-            adjustedEffect: Math.random() * 0.3,
-            adjustedCI: [Math.random() * 0.1, Math.random() * 0.1 + 0.2]
-        }
-    };
-};
-
-const getHeterogeneityInterpretation = (i2: number): string => {
-    if (i2 < 25) return 'Studies are fairly consistent';
-    if (i2 < 50) return 'Some inconsistency between studies';
-    if (i2 < 75) return 'Considerable inconsistency';
-    return 'High inconsistency - interpret with caution';
-};
-
-// Chart preparation functions
-const prepareDistributionChart = (effectSizes: EffectSizeData[]): ChartData<'bar'> => {
-    const bins = 10;
-    const minEffect = Math.min(...effectSizes.map(es => es.effectSize));
-    const maxEffect = Math.max(...effectSizes.map(es => es.effectSize));
-    const binWidth = (maxEffect - minEffect) / bins;
-
-    const histogram = Array(bins).fill(0);
-    const labels = Array(bins).fill(0).map((_, i) =>
-        (minEffect + i * binWidth).toFixed(3)
-    );
-
-    effectSizes.forEach(es => {
-        const binIndex = Math.min(Math.floor((es.effectSize - minEffect) / binWidth), bins - 1);
-        histogram[binIndex]++;
-    });
-
-    return {
-        labels,
-        datasets: [{
-            label: 'Effect Size Distribution',
-            data: histogram,
-            backgroundColor: '#007bff80',
-            borderColor: '#007bff',
-            borderWidth: 1
-        }]
-    };
-};
-
-const prepareForestPlotChart = (forestData: ForestPlotData): ChartData<'scatter'> => {
-    const datasets = [
-        {
-            label: 'Studies',
-            data: forestData.studies.map((study, index) => ({
-                x: study.effectSize,
-                y: index
-            })),
-            backgroundColor: '#007bff',
-            borderColor: '#007bff',
-            pointRadius: 6
-        },
-        {
-            label: 'Overall Effect',
-            data: [{
-                x: forestData.overallEffect.effectSize,
-                y: forestData.studies.length
-            }],
-            backgroundColor: '#dc3545',
-            borderColor: '#dc3545',
-            pointRadius: 10,
-            pointStyle: 'rectRot'
-        }
-    ];
-
-    return { datasets };
-};
-
-const prepareSubgroupChart = (subgroupAnalysis: SubgroupAnalysis): ChartData<'bar'> => {
-    return {
-        labels: subgroupAnalysis.groups.map(g => g.name),
-        datasets: [{
-            label: 'Effect Size',
-            data: subgroupAnalysis.groups.map(g => g.effectSize),
-            backgroundColor: '#28a74580',
-            borderColor: '#28a745',
-            borderWidth: 1
-        }]
-    };
-};
-
-const prepareFunnelPlotChart = (publicationBias: PublicationBiasTest): ChartData<'scatter'> => {
-    return {
-        datasets: [{
-            label: 'Studies',
-            data: publicationBias.funnelData.map(d => ({
-                x: d.effectSize,
-                y: 1 / d.standardError
-            })),
-            backgroundColor: '#007bff',
-            borderColor: '#007bff'
-        }]
-    };
-};
-
-const getChartOptions = (title: string): ChartOptions<any> => ({
-    responsive: true,
-    plugins: {
-        title: {
-            display: true,
-            text: title
-        },
-        legend: {
-            display: true,
-            position: 'top'
-        }
-    }
-});
-
-const getForestPlotOptions = (): ChartOptions<'scatter'> => ({
-    responsive: true,
-    plugins: {
-        title: {
-            display: true,
-            text: 'Forest Plot'
-        }
-    },
-    scales: {
-        x: {
-            title: {
-                display: true,
-                text: 'Effect Size'
-            }
-        },
-        y: {
-            title: {
-                display: true,
-                text: 'Study'
-            },
-            type: 'linear'
-        }
-    }
-});
-
-const getFunnelPlotOptions = (): ChartOptions<'scatter'> => ({
-    responsive: true,
-    plugins: {
-        title: {
-            display: true,
-            text: 'Funnel Plot'
-        }
-    },
-    scales: {
-        x: {
-            title: {
-                display: true,
-                text: 'Effect Size'
-            }
-        },
-        y: {
-            title: {
-                display: true,
-                text: '1 / Standard Error'
-            }
-        }
-    }
-});
-
-export default MetaAnalysisPanel;
\ No newline at end of file
+export default MetaAnalysisPanel;
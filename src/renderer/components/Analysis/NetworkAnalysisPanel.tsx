@@ -0,0 +1,214 @@
+/**
+ * NetworkAnalysisPanel - Run several RNG devices together and analyze them as a GCP-style network
+ * Per-second Stouffer Z across devices, netvar (Σ Z²) against chi-square, device variance and
+ * inter-device correlation, for the last run or every device-tagged trial in the analysed range
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { MultiDeviceNetworkResult, TimeRange } from '../../../shared/analysis-types';
+import { NetworkDeviceConfig, NetworkStatus } from '../../../shared/types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './NetworkAnalysisPanel.css';
+
+interface NetworkAnalysisPanelProps {
+    timeRange: TimeRange;
+}
+
+/** Status refresh while a run is in progress */
+const STATUS_POLL_MS = 2000;
+
+const PLOT_WIDTH = 600;
+const PLOT_HEIGHT = 160;
+
+/**
+ * SVG points of the cumulative Σ(Z² - 1) curve, the GCP event plot
+ */
+function cumulativePoints(values: number[]): string {
+    if (values.length === 0) return '';
+
+    // A day is 86,400 points - too many to spread into Math.min
+    const min = values.reduce((lowest, value) => Math.min(lowest, value), 0);
+    const max = values.reduce((highest, value) => Math.max(highest, value), 0);
+    const span = max - min || 1;
+    const step = values.length > 1 ? PLOT_WIDTH / (values.length - 1) : 0;
+
+    return values
+        .map((value, i) => `${(i * step).toFixed(1)},${(PLOT_HEIGHT - ((value - min) / span) * PLOT_HEIGHT).toFixed(1)}`)
+        .join(' ');
+}
+
+export const NetworkAnalysisPanel: React.FC<NetworkAnalysisPanelProps> = ({ timeRange }) => {
+    const [devices, setDevices] = useState<NetworkDeviceConfig[]>([]);
+    const [status, setStatus] = useState<NetworkStatus | null>(null);
+    const [lastRunId, setLastRunId] = useState<string | null>(null);
+    const [scope, setScope] = useState<'run' | 'range'>('range');
+    const [result, setResult] = useState<MultiDeviceNetworkResult | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refreshStatus = useCallback(async () => {
+        if (!hasElectronAPI()) return;
+        const current = await getElectronAPI().network.getStatus();
+        setStatus(current);
+        if (current.sessionId) setLastRunId(current.sessionId);
+    }, []);
+
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+        getElectronAPI().network.getDevices().then(setDevices).catch(() => setDevices([]));
+        refreshStatus().catch(() => setStatus(null));
+    }, [refreshStatus]);
+
+    useEffect(() => {
+        if (!status?.isRunning) return;
+        const timer = setInterval(() => {
+            refreshStatus().catch(() => undefined);
+        }, STATUS_POLL_MS);
+        return () => clearInterval(timer);
+    }, [status?.isRunning, refreshStatus]);
+
+    const run = async (action: () => Promise<void>) => {
+        if (!hasElectronAPI()) {
+            setError('Network mode is only available when the app runs through Electron');
+            return;
+        }
+
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleToggle = () => run(async () => {
+        const api = getElectronAPI().network;
+        const next = status?.isRunning ? await api.stop() : await api.start();
+        if (next.sessionId) {
+            setLastRunId(next.sessionId);
+            setScope('run');
+        }
+        setStatus(next);
+    });
+
+    const handleAnalyze = () => run(async () => {
+        setResult(await getElectronAPI().network.analyze(scope === 'run' && lastRunId
+            ? { sessionId: lastRunId }
+            : { startTime: new Date(timeRange.startTime), endTime: new Date(timeRange.endTime) }
+        ));
+    });
+
+    return (
+        <div className="network-analysis-panel">
+            <div className="network-header">
+                <h2>Device Network</h2>
+                <p>
+                    {devices.length} configured devices: {devices.map(device => device.id).join(', ') || 'none'}
+                </p>
+            </div>
+
+            <div className="network-controls">
+                <button className="network-button" onClick={handleToggle} disabled={isBusy}>
+                    {status?.isRunning ? 'Stop Network' : 'Start Network'}
+                </button>
+                <select value={scope} onChange={(e) => setScope(e.target.value as 'run' | 'range')}>
+                    <option value="range">Analysed time range</option>
+                    <option value="run" disabled={!lastRunId}>Latest network run</option>
+                </select>
+                <button className="network-button" onClick={handleAnalyze} disabled={isBusy}>
+                    Analyze
+                </button>
+            </div>
+
+            {status?.isRunning && (
+                <table className="network-table">
+                    <thead>
+                        <tr>
+                            <th>Device</th>
+                            <th>Source</th>
+                            <th>Trials</th>
+                            <th>Last value</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {status.devices.map(device => (
+                            <tr key={device.id}>
+                                <td>{device.id}</td>
+                                <td>{device.entropySource.name}</td>
+                                <td>{device.totalTrials.toLocaleString()}</td>
+                                <td>{device.lastTrialValue ?? '-'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {error && <div className="network-error">{error}</div>}
+            {result && (
+                <div className="network-result">
+                    <div className="network-metrics">
+                        <div>
+                            <span>Netvar (Σ Z²)</span>
+                            <strong>{result.netvar.toFixed(1)}</strong>
+                            <small>df {result.seconds.length.toLocaleString()}, p = {result.netvarProbability.toFixed(4)}</small>
+                        </div>
+                        <div>
+                            <span>Network Z</span>
+                            <strong>{result.netvarZ.toFixed(3)}</strong>
+                            <small>{result.significance.replace('_', ' ')}</small>
+                        </div>
+                        <div>
+                            <span>Device variance (Σ z²)</span>
+                            <strong>{result.deviceVariance.toFixed(1)}</strong>
+                            <small>
+                                df {result.deviceVarianceDegreesOfFreedom.toLocaleString()},
+                                {' '}p = {result.deviceVarianceProbability.toFixed(4)}
+                            </small>
+                        </div>
+                        <div>
+                            <span>Inter-device correlation</span>
+                            <strong>{result.meanCorrelation.toFixed(4)}</strong>
+                            <small>{result.deviceIds.length} devices</small>
+                        </div>
+                    </div>
+
+                    <svg
+                        className="network-plot"
+                        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+                        preserveAspectRatio="none"
+                        role="img"
+                        aria-label="Cumulative deviation of netvar"
+                    >
+                        <polyline points={cumulativePoints(result.cumulativeDeviation)} />
+                    </svg>
+
+                    {result.correlations.length > 0 && (
+                        <table className="network-table">
+                            <thead>
+                                <tr>
+                                    <th>Devices</th>
+                                    <th>Correlation</th>
+                                    <th>Common seconds</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.correlations.map(pair => (
+                                    <tr key={`${pair.deviceA}-${pair.deviceB}`}>
+                                        <td>{pair.deviceA} × {pair.deviceB}</td>
+                                        <td>{pair.correlation.toFixed(4)}</td>
+                                        <td>{pair.commonSeconds.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NetworkAnalysisPanel;
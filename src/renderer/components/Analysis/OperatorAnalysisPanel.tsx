@@ -0,0 +1,336 @@
+/**
+ * OperatorAnalysisPanel - Per-operator results from the participant registry
+ * Cumulative directed z, effect sizes by intention and the learning curve for one participant,
+ * plus how the operator scored under each feedback modality
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    Chart as ChartJS,
+    CategoryScale,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Tooltip,
+    Legend,
+    ChartData,
+    ChartOptions
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { OperatorAnalysis, FeedbackComparison } from '../../../shared/analysis-types';
+import { Participant } from '../../../shared/types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './OperatorAnalysisPanel.css';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+/** Two-sided 5% significance level for the cumulative z envelope */
+const Z_CRITICAL = 1.96;
+
+type OperatorView = 'cumulative' | 'learning' | 'sessions' | 'feedback';
+
+export const OperatorAnalysisPanel: React.FC = () => {
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [selectedId, setSelectedId] = useState<string>('');
+    const [analysis, setAnalysis] = useState<OperatorAnalysis | null>(null);
+    const [feedbackComparison, setFeedbackComparison] = useState<FeedbackComparison | null>(null);
+    const [activeView, setActiveView] = useState<OperatorView>('cumulative');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!hasElectronAPI()) {
+            setError('Participant data is only available when the app runs through Electron');
+            return;
+        }
+
+        getElectronAPI().participants.list({ active: true })
+            .then(list => {
+                setParticipants(list);
+                if (list.length > 0) setSelectedId(list[0].id);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : String(err)));
+    }, []);
+
+    useEffect(() => {
+        if (!selectedId) return;
+
+        setIsLoading(true);
+        Promise.all([
+            getElectronAPI().participants.getAnalysis(selectedId),
+            getElectronAPI().data.getFeedbackComparison(selectedId)
+        ])
+            .then(([result, comparison]) => {
+                setAnalysis(result);
+                setFeedbackComparison(comparison);
+                setError(null);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : String(err)))
+            .finally(() => setIsLoading(false));
+    }, [selectedId]);
+
+    const cumulativeChart = useMemo((): ChartData<'line'> | null => {
+        if (!analysis || analysis.cumulative.length === 0) return null;
+
+        const labels = analysis.cumulative.map(point => point.sessionNumber);
+        return {
+            labels,
+            datasets: [
+                {
+                    label: 'Cumulative z (intended direction)',
+                    data: analysis.cumulative.map(point => point.cumulativeZ),
+                    borderColor: '#007bff',
+                    backgroundColor: '#007bff',
+                    tension: 0
+                },
+                {
+                    label: `p = 0.05 (z = ±${Z_CRITICAL})`,
+                    data: labels.map(() => Z_CRITICAL),
+                    borderColor: '#dc3545',
+                    borderDash: [6, 4],
+                    pointRadius: 0
+                },
+                {
+                    label: '',
+                    data: labels.map(() => -Z_CRITICAL),
+                    borderColor: '#dc3545',
+                    borderDash: [6, 4],
+                    pointRadius: 0
+                }
+            ]
+        };
+    }, [analysis]);
+
+    const learningChart = useMemo((): ChartData<'line'> | null => {
+        if (!analysis || analysis.learningCurve.data.length === 0) return null;
+
+        const data = analysis.learningCurve.data;
+        return {
+            labels: data.map(point => point.sessionNumber),
+            datasets: [
+                {
+                    label: 'Session effect size',
+                    data: data.map(point => point.performance),
+                    borderColor: '#6c757d',
+                    backgroundColor: '#6c757d',
+                    showLine: false
+                },
+                {
+                    label: 'Running mean',
+                    data: data.map(point => point.cumulativePerformance),
+                    borderColor: '#28a745',
+                    backgroundColor: '#28a745',
+                    pointRadius: 0
+                }
+            ]
+        };
+    }, [analysis]);
+
+    const chartOptions = (yTitle: string): ChartOptions<'line'> => ({
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: { labels: { filter: item => item.text !== '' } }
+        },
+        scales: {
+            x: { title: { display: true, text: 'Session' } },
+            y: { title: { display: true, text: yTitle } }
+        }
+    });
+
+    const renderSummary = (result: OperatorAnalysis) => (
+        <div className="operator-summary">
+            <div className="summary-card">
+                <h4>Cumulative z</h4>
+                <div className="metric-value">{result.cumulativeZ.toFixed(3)}</div>
+                <div className="metric-details">p = {result.pValue.toFixed(4)} (one-tailed)</div>
+            </div>
+            <div className="summary-card">
+                <h4>Effect size</h4>
+                <div className="metric-value">{(result.effectSize * 1e4).toFixed(2)} × 10⁻⁴</div>
+                <div className="metric-details">per trial, {result.trialCount.toLocaleString()} trials</div>
+            </div>
+            <div className="summary-card">
+                <h4>HI − LO separation</h4>
+                <div className="metric-value">{result.highLowZ.toFixed(3)}</div>
+                <div className="metric-details">z of the mean difference</div>
+            </div>
+            <div className="summary-card">
+                <h4>Learning trend</h4>
+                <div className="metric-value">{result.learningCurve.improvementTrend}</div>
+                <div className="metric-details">{result.sessionCount} sessions</div>
+            </div>
+        </div>
+    );
+
+    const renderIntentionTable = (result: OperatorAnalysis) => (
+        <table className="operator-table">
+            <thead>
+                <tr>
+                    <th>Intention</th>
+                    <th>Sessions</th>
+                    <th>Trials</th>
+                    <th>Mean deviation</th>
+                    <th>z</th>
+                    <th>Effect size</th>
+                </tr>
+            </thead>
+            <tbody>
+                {(['high', 'low', 'baseline'] as const).map(intention => {
+                    const summary = result.byIntention[intention];
+                    return (
+                        <tr key={intention}>
+                            <td>{intention}</td>
+                            <td>{summary.sessionCount}</td>
+                            <td>{summary.trialCount.toLocaleString()}</td>
+                            <td>{summary.meanDeviation.toFixed(4)}</td>
+                            <td>{summary.zScore.toFixed(3)}</td>
+                            <td>{summary.effectSize.toExponential(2)}</td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    );
+
+    const renderView = (result: OperatorAnalysis) => {
+        switch (activeView) {
+            case 'cumulative':
+                return cumulativeChart ? (
+                    <div className="chart-container">
+                        <Line data={cumulativeChart} options={chartOptions('Cumulative z')} />
+                    </div>
+                ) : <p className="empty-state">No high or low intention sessions yet.</p>;
+
+            case 'learning':
+                return learningChart ? (
+                    <div className="chart-container">
+                        <Line data={learningChart} options={chartOptions('Effect size per trial')} />
+                    </div>
+                ) : <p className="empty-state">No high or low intention sessions yet.</p>;
+
+            case 'sessions':
+                return (
+                    <table className="operator-table">
+                        <thead>
+                            <tr>
+                                <th>Date</th>
+                                <th>Intention</th>
+                                <th>Trials</th>
+                                <th>z</th>
+                                <th>Directed z</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {result.sessions.map(session => (
+                                <tr key={session.sessionId}>
+                                    <td>{new Date(session.startTime).toLocaleString()}</td>
+                                    <td>{session.intention}</td>
+                                    <td>{session.trialCount}</td>
+                                    <td>{session.zScore.toFixed(3)}</td>
+                                    <td>{session.directedZ.toFixed(3)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+
+            case 'feedback':
+                return feedbackComparison && feedbackComparison.modalities.length > 0 ? (
+                    <>
+                        <table className="operator-table">
+                            <thead>
+                                <tr>
+                                    <th>Feedback</th>
+                                    <th>Sessions</th>
+                                    <th>Trials</th>
+                                    <th>Directed z</th>
+                                    <th>p (one-tailed)</th>
+                                    <th>Effect size</th>
+                                    <th>HI − LO z</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {feedbackComparison.modalities.map(summary => (
+                                    <tr key={summary.feedback}>
+                                        <td>{summary.feedback}</td>
+                                        <td>{summary.sessionCount}</td>
+                                        <td>{summary.trialCount.toLocaleString()}</td>
+                                        <td>{summary.directedZ.toFixed(3)}</td>
+                                        <td>{summary.pValue.toFixed(4)}</td>
+                                        <td>{summary.effectSize.toExponential(2)}</td>
+                                        <td>{summary.highLowZ.toFixed(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {feedbackComparison.degreesOfFreedom > 0 && (
+                            <p className="metric-details">
+                                Heterogeneity across modalities: Q = {feedbackComparison.heterogeneityQ.toFixed(3)},
+                                df = {feedbackComparison.degreesOfFreedom},
+                                p = {feedbackComparison.heterogeneityPValue.toFixed(4)}
+                            </p>
+                        )}
+                    </>
+                ) : <p className="empty-state">No high or low intention sessions yet.</p>;
+
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className="operator-analysis-panel">
+            <div className="operator-header">
+                <h2>Operator Analysis</h2>
+                <div className="control-group">
+                    <label htmlFor="operator-select">Participant:</label>
+                    <select
+                        id="operator-select"
+                        value={selectedId}
+                        onChange={(e) => setSelectedId(e.target.value)}
+                        disabled={participants.length === 0}
+                    >
+                        {participants.map(participant => (
+                            <option key={participant.id} value={participant.id}>{participant.code}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {error && <div className="operator-error">{error}</div>}
+            {!error && participants.length === 0 && (
+                <p className="empty-state">No participants registered yet.</p>
+            )}
+            {isLoading && <p className="empty-state">Loading operator analysis...</p>}
+
+            {analysis && !isLoading && (
+                <>
+                    {renderSummary(analysis)}
+                    {renderIntentionTable(analysis)}
+
+                    <div className="operator-tabs">
+                        {([
+                            { key: 'cumulative', label: 'Cumulative z' },
+                            { key: 'learning', label: 'Learning Curve' },
+                            { key: 'sessions', label: 'Sessions' },
+                            { key: 'feedback', label: 'By Feedback' }
+                        ] as const).map(tab => (
+                            <button
+                                key={tab.key}
+                                className={`tab ${activeView === tab.key ? 'active' : ''}`}
+                                onClick={() => setActiveView(tab.key)}
+                            >
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {renderView(analysis)}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default OperatorAnalysisPanel;
@@ -0,0 +1,133 @@
+/**
+ * PublishDatasetPanel - Publish the analysed time range as a self-describing data package
+ * One zip with datapackage.json, CSV resources, methodology, analysis results, checksums and a
+ * replication README, ready for deposit on OSF or Zenodo
+ */
+
+import React, { useState } from 'react';
+import { TimeRange } from '../../../shared/analysis-types';
+import { ExportMetadata } from '../../../shared/types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+import './PublishDatasetPanel.css';
+
+interface PublishDatasetPanelProps {
+    timeRange: TimeRange;
+}
+
+export const PublishDatasetPanel: React.FC<PublishDatasetPanelProps> = ({ timeRange }) => {
+    const [title, setTitle] = useState('RNG Consciousness Experiment Data');
+    const [creator, setCreator] = useState('');
+    const [description, setDescription] = useState('');
+    const [keywords, setKeywords] = useState('');
+    const [version, setVersion] = useState('1.0.0');
+    const [methodology, setMethodology] = useState('');
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [result, setResult] = useState<ExportMetadata | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handlePublish = async () => {
+        if (!hasElectronAPI()) {
+            setError('Publishing is only available when the app runs through Electron');
+            return;
+        }
+
+        setIsPublishing(true);
+        setError(null);
+        try {
+            const keywordList = keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+            setResult(await getElectronAPI().data.publishPackage({
+                startDate: new Date(timeRange.startTime),
+                endDate: new Date(timeRange.endTime),
+                details: {
+                    title: title.trim(),
+                    creator: creator.trim(),
+                    description: description.trim() || undefined,
+                    version: version.trim() || undefined,
+                    keywords: keywordList.length > 0 ? keywordList : undefined,
+                    methodology: methodology.trim() || undefined
+                }
+            }));
+        } catch (err) {
+            setResult(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    return (
+        <div className="publish-dataset-panel">
+            <div className="publish-header">
+                <h2>Publish Dataset</h2>
+                <p>
+                    Sessions, trials, intention periods and calibration runs
+                    from {new Date(timeRange.startTime).toLocaleDateString()}
+                    {' '}to {new Date(timeRange.endTime).toLocaleDateString()}
+                </p>
+            </div>
+
+            <div className="publish-form">
+                <label>
+                    Title
+                    <input value={title} onChange={(e) => setTitle(e.target.value)} />
+                </label>
+                <label>
+                    Creator
+                    <input value={creator} onChange={(e) => setCreator(e.target.value)} placeholder="Name or team" />
+                </label>
+                <label>
+                    Version
+                    <input value={version} onChange={(e) => setVersion(e.target.value)} />
+                </label>
+                <label>
+                    Keywords
+                    <input
+                        value={keywords}
+                        onChange={(e) => setKeywords(e.target.value)}
+                        placeholder="Comma separated"
+                    />
+                </label>
+                <label className="wide">
+                    Description
+                    <textarea
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        rows={3}
+                        placeholder="Leave empty to describe the tables included"
+                    />
+                </label>
+                <label className="wide">
+                    Methodology
+                    <textarea
+                        value={methodology}
+                        onChange={(e) => setMethodology(e.target.value)}
+                        rows={5}
+                        placeholder="Leave empty to use the standard protocol description"
+                    />
+                </label>
+            </div>
+
+            <button
+                className="publish-button"
+                onClick={handlePublish}
+                disabled={isPublishing || !title.trim()}
+            >
+                {isPublishing ? 'Publishing...' : 'Publish Dataset'}
+            </button>
+
+            {error && <div className="publish-error">{error}</div>}
+            {result && (
+                <div className="publish-result">
+                    <p>Data package written to <code>{result.filePath}</code></p>
+                    <p>
+                        {result.sessionCount} sessions, {result.trialCount.toLocaleString()} trials
+                        {result.files && ` · ${(result.files[0].size / 1024).toFixed(1)} KB`}
+                    </p>
+                    <p className="checksum">SHA-256: {result.checksum}</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PublishDatasetPanel;
@@ -0,0 +1,136 @@
+/**
+ * FunnelPlotChart - Session effect sizes against their standard errors
+ * Without small-study effects or selective stopping the points fill the funnel symmetrically
+ * around the pooled effect; sessions imputed by trim-and-fill are drawn hollow
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+
+import { FunnelPlotProps } from './types';
+import { scientificTheme } from '../../styles/charts/themes';
+import { StatisticalUtils } from '../../../core/statistical-utils';
+
+// Register Chart.js components
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+/** Per-trial effect sizes are of order 10⁻⁴ */
+const SCALE = 1e4;
+
+export const FunnelPlotChart: React.FC<FunnelPlotProps> = ({
+  data,
+  confidenceLevel = 0.95,
+  height = 360,
+  theme = scientificTheme
+}) => {
+  const chartData = useMemo((): ChartData<'scatter'> => {
+    const observed = data.points.filter(point => point.sessionId !== null);
+    const imputed = data.points.filter(point => point.sessionId === null);
+    const top = data.maxStandardError * 1.05;
+    const z = StatisticalUtils.normalInverse(1 - (1 - confidenceLevel) / 2);
+    const toPoint = (point: { effectSize: number; standardError: number }) => ({
+      x: point.effectSize * SCALE,
+      y: point.standardError
+    });
+    const verticalLine = (x: number) => [{ x: x * SCALE, y: 0 }, { x: x * SCALE, y: top }];
+
+    return {
+      datasets: [
+        {
+          label: 'Completed sessions',
+          data: observed.filter(point => point.status !== 'stopped').map(toPoint),
+          backgroundColor: theme.colors.primary,
+          pointRadius: 5
+        },
+        {
+          label: 'Stopped sessions',
+          data: observed.filter(point => point.status === 'stopped').map(toPoint),
+          backgroundColor: theme.colors.negative,
+          pointStyle: 'triangle',
+          pointRadius: 6
+        },
+        {
+          label: 'Imputed (trim-and-fill)',
+          data: imputed.map(toPoint),
+          backgroundColor: 'transparent',
+          borderColor: theme.colors.secondary,
+          borderWidth: 1.5,
+          pointRadius: 5
+        },
+        {
+          label: 'Pooled effect',
+          data: verticalLine(data.pooledEffectSize),
+          borderColor: theme.colors.text,
+          showLine: true,
+          pointRadius: 0
+        },
+        {
+          label: 'Adjusted effect',
+          data: imputed.length > 0 ? verticalLine(data.adjustedEffectSize) : [],
+          borderColor: theme.colors.secondary,
+          borderDash: [6, 4],
+          showLine: true,
+          pointRadius: 0
+        },
+        {
+          label: `${Math.round(confidenceLevel * 100)}% region`,
+          data: [
+            { x: (data.pooledEffectSize - z * top) * SCALE, y: top },
+            { x: data.pooledEffectSize * SCALE, y: 0 },
+            { x: (data.pooledEffectSize + z * top) * SCALE, y: top }
+          ],
+          borderColor: theme.colors.neutral,
+          borderDash: [2, 3],
+          showLine: true,
+          pointRadius: 0
+        }
+      ]
+    };
+  }, [data, confidenceLevel, theme]);
+
+  const options = useMemo((): ChartOptions<'scatter'> => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        labels: { filter: item => item.text !== 'Adjusted effect' || data.adjustedEffectSize !== data.pooledEffectSize }
+      },
+      tooltip: {
+        callbacks: {
+          label: context => `ES ${context.parsed.x.toFixed(2)} × 10⁻⁴, SE ${context.parsed.y.toFixed(4)}`
+        }
+      }
+    },
+    scales: {
+      x: {
+        title: { display: true, text: 'Effect size per trial (× 10⁻⁴)' },
+        grid: { color: theme.colors.grid }
+      },
+      y: {
+        reverse: true,
+        min: 0,
+        max: data.maxStandardError * 1.05,
+        title: { display: true, text: 'Standard error' },
+        grid: { color: theme.colors.grid }
+      }
+    }
+  }), [data, theme]);
+
+  return (
+    <div style={{ height }}>
+      <Scatter data={chartData} options={options} />
+    </div>
+  );
+};
+
+export default FunnelPlotChart;
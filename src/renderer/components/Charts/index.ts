@@ -8,6 +8,7 @@ export { default as CumulativeDeviationChart } from './CumulativeDeviationChart'
 export { default as SessionComparisonChart } from './SessionComparisonChart';
 export { default as StatisticalDistributionChart } from './StatisticalDistributionChart';
 export { default as LiveChart } from './LiveChart';
+export { default as FunnelPlotChart } from './FunnelPlotChart';
 
 // Chart types and interfaces
 export type {
@@ -15,6 +16,7 @@ export type {
     SessionComparisonProps,
     StatisticalDistributionProps,
     LiveChartProps,
+    FunnelPlotProps,
     ChartPoint,
     ChartTheme,
     SignificanceBand,
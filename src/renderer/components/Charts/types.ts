@@ -4,7 +4,7 @@
  */
 
 import { CumulativePoint, ExperimentSession, StatisticalResult, SignificantEvent } from '../../../shared/types';
-import { NetworkVarianceResult, ZScoreResult, EffectSizeResult } from '../../../shared/analysis-types';
+import { NetworkVarianceResult, ZScoreResult, EffectSizeResult, FunnelPlotData } from '../../../shared/analysis-types';
 
 // Chart configuration types
 export interface ChartTheme {
@@ -94,6 +94,13 @@ export interface StatisticalDistributionProps {
     theme?: ChartTheme;
 }
 
+export interface FunnelPlotProps {
+    data: FunnelPlotData;
+    confidenceLevel?: number;    // Pseudo-confidence region around the pooled effect
+    height?: number;
+    theme?: ChartTheme;
+}
+
 export interface TimeSeriesProps {
     timeRange: TimeRange;
     resolution: 'second' | 'minute' | 'hour' | 'day';
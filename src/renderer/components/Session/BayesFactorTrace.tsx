@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import {
+    Chart as ChartJS,
+    CategoryScale,
+    LogarithmicScale,
+    PointElement,
+    LineElement,
+    Title,
+    Tooltip,
+    ChartOptions,
+    ChartData
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { RNGTrial, IntentionType } from '../../../shared/types';
+import { PriorDistribution } from '../../../shared/analysis-types';
+import { BayesianAnalyzer } from '../../../core/bayesian-analysis';
+
+ChartJS.register(CategoryScale, LogarithmicScale, PointElement, LineElement, Title, Tooltip);
+
+interface BayesFactorTraceProps {
+    trials: RNGTrial[];
+    intention: IntentionType;
+    height: number;
+    /** Prior on the effect size; the default JZS prior unless a pre-registration sets one */
+    prior?: PriorDistribution;
+    /** Evidence bounds drawn at BF10 = threshold and 1 / threshold */
+    threshold?: number;
+}
+
+/**
+ * Sequential Bayes factor as the session's trials accumulate
+ * High and low sessions test the intended direction, baseline sessions either direction
+ */
+export const BayesFactorTrace: React.FC<BayesFactorTraceProps> = ({
+    trials,
+    intention,
+    height,
+    prior = BayesianAnalyzer.DEFAULT_PRIOR,
+    threshold = 10
+}) => {
+    const alternative = intention === 'high' || intention === 'low' ? 'greater' : 'two-sided';
+
+    const trace = useMemo(
+        () => BayesianAnalyzer.sequentialTrace(trials, intention, {
+            prior,
+            alternative,
+            stoppingRule: { threshold }
+        }),
+        [trials, intention, prior, alternative, threshold]
+    );
+
+    const latest = trace.points[trace.points.length - 1];
+    const supported = trace.decision === 'alternative'
+        ? (alternative === 'greater' ? 'the intention' : 'an effect')
+        : 'chance';
+    const labels = trace.points.map(point => point.trialCount);
+
+    const chartData: ChartData<'line'> = {
+        labels,
+        datasets: [
+            {
+                label: 'BF10',
+                data: trace.points.map(point => point.bf10),
+                borderColor: '#FFC107',
+                borderWidth: 2,
+                pointRadius: 0,
+                tension: 0.1
+            },
+            {
+                label: `BF10 = ${threshold}`,
+                data: labels.map(() => threshold),
+                borderColor: 'rgba(76, 175, 80, 0.6)',
+                borderWidth: 1,
+                borderDash: [3, 3],
+                pointRadius: 0
+            },
+            {
+                label: `BF10 = 1/${threshold}`,
+                data: labels.map(() => 1 / threshold),
+                borderColor: 'rgba(33, 150, 243, 0.6)',
+                borderWidth: 1,
+                borderDash: [3, 3],
+                pointRadius: 0
+            }
+        ]
+    };
+
+    const options: ChartOptions<'line'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        plugins: {
+            legend: { display: false },
+            title: {
+                display: true,
+                text: `Sequential Bayes Factor (${alternative === 'greater' ? 'intended direction' : 'either direction'})`,
+                color: 'rgba(255, 255, 255, 0.9)',
+                font: { size: 14, weight: 'bold' }
+            },
+            tooltip: {
+                callbacks: {
+                    title: context => `Trial ${context[0].label}`,
+                    label: context => `${context.dataset.label}: ${context.parsed.y.toPrecision(3)}`
+                }
+            }
+        },
+        scales: {
+            x: {
+                ticks: { color: 'rgba(255, 255, 255, 0.7)', maxTicksLimit: 10 },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' }
+            },
+            y: {
+                type: 'logarithmic',
+                min: Math.min(1 / (threshold * 3), ...trace.points.map(point => point.bf10)),
+                max: Math.max(threshold * 3, ...trace.points.map(point => point.bf10)),
+                title: { display: true, text: 'BF10', color: 'rgba(255, 255, 255, 0.7)' },
+                ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' }
+            }
+        }
+    };
+
+    return (
+        <div className="bayes-factor-trace">
+            <div style={{ height: `${height}px` }}>
+                <Line data={chartData} options={options} />
+            </div>
+            <div className="chart-info">
+                <span className="info-label">BF10:</span>
+                <span className="info-value">{latest ? latest.bf10.toPrecision(3) : '—'}</span>
+                {trace.decidedAt !== null && (
+                    <span className="info-value">
+                        {` evidence for ${supported} reached ${threshold}:1 at trial ${trace.decidedAt}`}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,236 @@
+import React, { useMemo } from 'react';
+import { FeedbackModality, IntentionType, RNGTrial } from '../../../shared/types';
+
+interface FeedbackDisplayProps {
+    modality: Exclude<FeedbackModality, 'chart' | 'none'>;
+    zScore: number;
+    trialCount: number;
+    intention: IntentionType;
+}
+
+/** Deviation (in z) at which the visual displays reach full scale */
+const FULL_SCALE_Z = 3;
+
+/** Maximum pendulum swing either side of vertical, in degrees */
+const MAX_SWING_DEGREES = 60;
+
+/**
+ * Running z-score of the trials so far: cumulative deviation from 100 over √(50n)
+ */
+export const runningZScore = (trials: RNGTrial[]): number => {
+    if (trials.length === 0) return 0;
+
+    const deviation = trials.reduce((sum, trial) => sum + (trial.trialValue - 100), 0);
+    return deviation / Math.sqrt(50 * trials.length);
+};
+
+/**
+ * Alternative real-time feedback displays
+ * Each maps the running deviation onto a single quantity without showing statistics
+ */
+export const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
+    modality,
+    zScore,
+    trialCount,
+    intention
+}) => {
+    const level = Math.max(-1, Math.min(1, zScore / FULL_SCALE_Z));
+    const favourable = intention === 'low' ? zScore < 0 : zScore > 0;
+
+    // Fixed droplet layout so the fountain does not jump between renders
+    const droplets = useMemo(
+        () => Array.from({ length: 12 }, (_, i) => ({ offset: (i % 6) * 8 - 20, delay: i * 0.12 })),
+        []
+    );
+
+    return (
+        <div className={`feedback-display ${modality}`}>
+            {modality === 'counter' && (
+                <div className="feedback-counter">
+                    <div className={`counter-value ${favourable ? 'favourable' : ''}`}>
+                        {zScore >= 0 ? '+' : ''}{zScore.toFixed(2)}
+                    </div>
+                    <div className="counter-caption">{trialCount} trials</div>
+                </div>
+            )}
+
+            {modality === 'pendulum' && (
+                <svg className="feedback-pendulum" viewBox="-120 -10 240 200">
+                    <line x1="-100" y1="0" x2="100" y2="0" className="pendulum-beam" />
+                    <g style={{ transform: `rotate(${-level * MAX_SWING_DEGREES}deg)` }} className="pendulum-arm">
+                        <line x1="0" y1="0" x2="0" y2="150" />
+                        <circle cx="0" cy="160" r="14" className={favourable ? 'favourable' : ''} />
+                    </g>
+                </svg>
+            )}
+
+            {modality === 'fountain' && (
+                <div className="feedback-fountain">
+                    <div
+                        className={`fountain-jet ${favourable ? 'favourable' : ''}`}
+                        style={{ height: `${10 + (level + 1) * 45}%` }}
+                    >
+                        {droplets.map((droplet, i) => (
+                            <span
+                                key={i}
+                                className="fountain-droplet"
+                                style={{ left: `calc(50% + ${droplet.offset}px)`, animationDelay: `${droplet.delay}s` }}
+                            />
+                        ))}
+                    </div>
+                    <div className="fountain-basin" />
+                </div>
+            )}
+
+            {modality === 'audio' && (
+                <div className="feedback-audio">
+                    <div className="audio-wave" style={{ transform: `scaleY(${0.3 + Math.abs(level) * 0.7})` }} />
+                    <div className="counter-caption">Listen to the tone — higher pitch means a higher running score</div>
+                </div>
+            )}
+
+            <style>{`
+                .feedback-display {
+                    width: 100%;
+                    max-width: 600px;
+                    height: 360px;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    background: rgba(255, 255, 255, 0.05);
+                    border-radius: 16px;
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    backdrop-filter: blur(10px);
+                }
+
+                .feedback-counter {
+                    text-align: center;
+                }
+
+                .counter-value {
+                    font-size: 96px;
+                    font-weight: 300;
+                    font-variant-numeric: tabular-nums;
+                    color: rgba(255, 255, 255, 0.9);
+                    transition: color 0.5s ease;
+                }
+
+                .counter-value.favourable {
+                    color: #4CAF50;
+                }
+
+                .counter-caption {
+                    font-size: 14px;
+                    color: rgba(255, 255, 255, 0.6);
+                }
+
+                .feedback-pendulum {
+                    width: 100%;
+                    height: 100%;
+                }
+
+                .pendulum-beam {
+                    stroke: rgba(255, 255, 255, 0.4);
+                    stroke-width: 4;
+                }
+
+                .pendulum-arm {
+                    transform-origin: 0 0;
+                    transition: transform 0.6s ease-out;
+                }
+
+                .pendulum-arm line {
+                    stroke: rgba(255, 255, 255, 0.7);
+                    stroke-width: 3;
+                }
+
+                .pendulum-arm circle {
+                    fill: #9E9E9E;
+                    transition: fill 0.5s ease;
+                }
+
+                .pendulum-arm circle.favourable {
+                    fill: #4CAF50;
+                }
+
+                .feedback-fountain {
+                    position: relative;
+                    width: 200px;
+                    height: 100%;
+                    display: flex;
+                    flex-direction: column;
+                    justify-content: flex-end;
+                    align-items: center;
+                }
+
+                .fountain-jet {
+                    position: relative;
+                    width: 16px;
+                    background: linear-gradient(to top, #2196F3, rgba(33, 150, 243, 0.2));
+                    border-radius: 8px 8px 0 0;
+                    transition: height 0.6s ease-out;
+                }
+
+                .fountain-jet.favourable {
+                    background: linear-gradient(to top, #4CAF50, rgba(76, 175, 80, 0.2));
+                }
+
+                .fountain-droplet {
+                    position: absolute;
+                    top: 0;
+                    width: 6px;
+                    height: 6px;
+                    margin-left: -3px;
+                    border-radius: 50%;
+                    background: rgba(255, 255, 255, 0.6);
+                    animation: droplet-fall 1.4s ease-in infinite;
+                }
+
+                .fountain-basin {
+                    width: 160px;
+                    height: 12px;
+                    border-radius: 0 0 80px 80px;
+                    background: rgba(255, 255, 255, 0.2);
+                }
+
+                .feedback-audio {
+                    text-align: center;
+                }
+
+                .audio-wave {
+                    width: 240px;
+                    height: 80px;
+                    margin: 0 auto 20px;
+                    border-radius: 40px;
+                    background: linear-gradient(90deg, transparent, rgba(255, 255, 255, 0.3), transparent);
+                    transition: transform 0.3s ease;
+                }
+
+                @keyframes droplet-fall {
+                    0% {
+                        transform: translateY(0);
+                        opacity: 1;
+                    }
+                    100% {
+                        transform: translateY(120px);
+                        opacity: 0;
+                    }
+                }
+
+                @media (prefers-reduced-motion: reduce) {
+                    .fountain-droplet {
+                        animation: none;
+                        display: none;
+                    }
+
+                    .pendulum-arm,
+                    .fountain-jet {
+                        transition: none;
+                    }
+                }
+            `}</style>
+        </div>
+    );
+};
+
+export default FeedbackDisplay;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { SessionSeries, SeriesDefinition, SeriesRun } from '../../../shared/types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+
+interface SeriesSelectorProps {
+    selectedSeries: SessionSeries | null;
+    onSeriesChange: (series: SessionSeries | null) => void;
+    participantId?: string;
+    disabled?: boolean;
+}
+
+const INTENTION_LABELS: Record<SeriesRun['intention'], string> = {
+    high: 'HI',
+    low: 'LO',
+    baseline: 'BL'
+};
+
+/**
+ * Tri-polar series selector
+ * Picks an active series or schedules a new one of balanced HI/LO/BL blocks
+ */
+export const SeriesSelector: React.FC<SeriesSelectorProps> = ({
+    selectedSeries,
+    onSeriesChange,
+    participantId,
+    disabled = false
+}) => {
+    const [seriesList, setSeriesList] = useState<SessionSeries[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [definition, setDefinition] = useState<SeriesDefinition>({
+        name: '',
+        blocks: 3,
+        trialsPerRun: 1000,
+        order: 'randomized'
+    });
+
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+
+        getElectronAPI().series.list({ status: 'active' })
+            .then(setSeriesList)
+            .catch(err => setError(err instanceof Error ? err.message : String(err)));
+    }, []);
+
+    /**
+     * Schedule a new series and select it
+     */
+    const handleCreate = async () => {
+        if (!definition.name.trim()) {
+            setError('Series name is required');
+            return;
+        }
+
+        try {
+            const series = await getElectronAPI().series.create({ ...definition, participantId });
+            setSeriesList(prev => [series, ...prev]);
+            setIsCreating(false);
+            setError(null);
+            onSeriesChange(series);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const completedRuns = selectedSeries?.runs.filter(run => run.status === 'completed').length ?? 0;
+    const nextRun = selectedSeries?.runs.find(run => run.status === 'pending' || run.status === 'stopped');
+
+    return (
+        <div className="series-selector">
+            <div className="series-picker">
+                <select
+                    value={selectedSeries?.id ?? ''}
+                    onChange={(e) => onSeriesChange(seriesList.find(series => series.id === e.target.value) || null)}
+                    disabled={disabled || seriesList.length === 0}
+                    className="series-select"
+                >
+                    <option value="">{seriesList.length === 0 ? 'No active series' : 'Select a series...'}</option>
+                    {seriesList.map(series => (
+                        <option key={series.id} value={series.id}>{series.name}</option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    onClick={() => setIsCreating(!isCreating)}
+                    disabled={disabled}
+                    className="series-new-btn"
+                >
+                    {isCreating ? 'Cancel' : 'New Series'}
+                </button>
+            </div>
+
+            {isCreating && (
+                <div className="series-form">
+                    <input
+                        type="text"
+                        value={definition.name}
+                        onChange={(e) => setDefinition(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="Series name..."
+                    />
+                    <label>
+                        Blocks (one HI, LO and BL run each)
+                        <input
+                            type="number"
+                            min="1"
+                            max="50"
+                            value={definition.blocks}
+                            onChange={(e) => setDefinition(prev => ({ ...prev, blocks: parseInt(e.target.value) || 1 }))}
+                        />
+                    </label>
+                    <label>
+                        Trials per run
+                        <input
+                            type="number"
+                            min="100"
+                            max="3000"
+                            step="50"
+                            value={definition.trialsPerRun}
+                            onChange={(e) => setDefinition(prev => ({ ...prev, trialsPerRun: parseInt(e.target.value) || 100 }))}
+                        />
+                    </label>
+                    <label className="series-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={definition.order === 'randomized'}
+                            onChange={(e) => setDefinition(prev => ({ ...prev, order: e.target.checked ? 'randomized' : 'fixed' }))}
+                        />
+                        Randomize run order within each block using the RNG
+                    </label>
+                    <button type="button" onClick={handleCreate} className="series-create-btn">
+                        Create Series
+                    </button>
+                </div>
+            )}
+
+            {selectedSeries && (
+                <div className="series-progress">
+                    <div className="series-progress-summary">
+                        {completedRuns} of {selectedSeries.runs.length} runs completed
+                        {nextRun && <> · next: <strong>{nextRun.intention.toUpperCase()}</strong> ({selectedSeries.trialsPerRun} trials)</>}
+                    </div>
+                    <div className="series-runs">
+                        {selectedSeries.runs.map(run => (
+                            <span
+                                key={run.position}
+                                className={`series-run ${run.intention} ${run.status} ${run === nextRun ? 'next' : ''}`}
+                                title={`Block ${run.block}: ${run.intention} (${run.status})`}
+                            >
+                                {INTENTION_LABELS[run.intention]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {error && <div className="series-error">{error}</div>}
+
+            <style>{`
+                .series-selector {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 12px;
+                }
+
+                .series-picker {
+                    display: flex;
+                    gap: 10px;
+                }
+
+                .series-select {
+                    flex: 1;
+                    padding: 10px;
+                    border: 1px solid #ddd;
+                    border-radius: 6px;
+                    font-size: 14px;
+                }
+
+                .series-new-btn,
+                .series-create-btn {
+                    background: none;
+                    border: 1px solid #4CAF50;
+                    color: #4CAF50;
+                    border-radius: 6px;
+                    padding: 8px 16px;
+                    cursor: pointer;
+                }
+
+                .series-form {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 10px;
+                    background: #f8f9fa;
+                    border-radius: 8px;
+                    padding: 15px;
+                    font-size: 14px;
+                }
+
+                .series-form input[type="text"],
+                .series-form input[type="number"] {
+                    padding: 8px;
+                    border: 1px solid #ddd;
+                    border-radius: 6px;
+                }
+
+                .series-form label {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 4px;
+                }
+
+                .series-form .series-checkbox {
+                    flex-direction: row;
+                    align-items: center;
+                    gap: 8px;
+                }
+
+                .series-progress-summary {
+                    font-size: 14px;
+                    color: #666;
+                    margin-bottom: 8px;
+                }
+
+                .series-runs {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                }
+
+                .series-run {
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    font-size: 12px;
+                    font-weight: 600;
+                    color: white;
+                    opacity: 0.35;
+                }
+
+                .series-run.high { background: #4CAF50; }
+                .series-run.low { background: #2196F3; }
+                .series-run.baseline { background: #9E9E9E; }
+                .series-run.completed { opacity: 1; }
+                .series-run.next { opacity: 1; outline: 2px solid #2c3e50; }
+
+                .series-error {
+                    color: #d32f2f;
+                    font-size: 14px;
+                }
+            `}</style>
+        </div>
+    );
+};
+
+export default SeriesSelector;
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+
+/** Pitch at zero deviation (A4) */
+const BASE_FREQUENCY = 440;
+
+/** Deviation (in z) that maps to one octave up or down */
+const Z_PER_OCTAVE = 3;
+
+/** Smoothing time constant for pitch and volume changes, in seconds */
+const GLIDE_SECONDS = 0.15;
+
+/**
+ * Tone for a running deviation: pitch rises with positive z and falls with negative z,
+ * volume grows with |z| so a flat run is a quiet hum
+ */
+export const feedbackTone = (zScore: number): { frequency: number; gain: number } => {
+    const clamped = Math.max(-Z_PER_OCTAVE, Math.min(Z_PER_OCTAVE, zScore));
+
+    return {
+        frequency: BASE_FREQUENCY * Math.pow(2, clamped / Z_PER_OCTAVE),
+        gain: 0.03 + 0.12 * Math.abs(clamped) / Z_PER_OCTAVE
+    };
+};
+
+/**
+ * Audio feedback through Web Audio: a continuous sine tone following the running z-score
+ * The tone only plays while `enabled` is true and is torn down when the component unmounts
+ */
+export const useAudioFeedback = (zScore: number, enabled: boolean) => {
+    const contextRef = useRef<AudioContext | null>(null);
+    const oscillatorRef = useRef<OscillatorNode | null>(null);
+    const gainRef = useRef<GainNode | null>(null);
+
+    // Start and stop the tone
+    useEffect(() => {
+        if (!enabled || typeof AudioContext === 'undefined') return;
+
+        const context = new AudioContext();
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const tone = feedbackTone(0);
+
+        oscillator.type = 'sine';
+        oscillator.frequency.value = tone.frequency;
+        gain.gain.value = tone.gain;
+        oscillator.connect(gain);
+        gain.connect(context.destination);
+        oscillator.start();
+
+        contextRef.current = context;
+        oscillatorRef.current = oscillator;
+        gainRef.current = gain;
+
+        return () => {
+            oscillator.stop();
+            oscillator.disconnect();
+            gain.disconnect();
+            context.close().catch(() => undefined);
+
+            contextRef.current = null;
+            oscillatorRef.current = null;
+            gainRef.current = null;
+        };
+    }, [enabled]);
+
+    // Glide to the tone for the current deviation
+    useEffect(() => {
+        const context = contextRef.current;
+        if (!context || !oscillatorRef.current || !gainRef.current) return;
+
+        const tone = feedbackTone(zScore);
+        oscillatorRef.current.frequency.setTargetAtTime(tone.frequency, context.currentTime, GLIDE_SECONDS);
+        gainRef.current.gain.setTargetAtTime(tone.gain, context.currentTime, GLIDE_SECONDS);
+    }, [zScore]);
+};
@@ -2,11 +2,12 @@ import { useEffect, useState, useCallback } from 'react';
 import {
     ContinuousStatus,
     IntentionPeriod,
-    HealthStatus,
     TimeRange,
     SignificantEvent,
     TimelinePoint
 } from '../../shared/types';
+import { ChangePointAnalysis, ChangePointMethod, GroupSequentialStatus } from '../../shared/analysis-types';
+import { getElectronAPI, hasElectronAPI } from '../utils/electron-api';
 
 interface ContinuousManagerState {
     status: ContinuousStatus | null;
@@ -19,6 +20,10 @@ export interface ContinuousManagerHook {
     status: ContinuousStatus | null;
     isCollecting: boolean;
     error: string | null;
+    /** Active group-sequential designs that collect continuous data */
+    sequentialDesigns: GroupSequentialStatus[];
+    /** Design new intention periods count towards */
+    sequentialDesignId: string | null;
 
     // Actions
     startCollection: () => Promise<void>;
@@ -28,7 +33,12 @@ export interface ContinuousManagerHook {
     updateIntentionNotes: (notes: string) => Promise<void>;
     getTimelineData: (range: TimeRange) => Promise<TimelinePoint[]>;
     getSignificantEvents: (range: TimeRange) => Promise<SignificantEvent[]>;
+    /** Intention periods overlapping the range */
+    getIntentionPeriods: (range: TimeRange) => Promise<IntentionPeriod[]>;
+    /** Change points in the continuous trials of the range */
+    getChangePoints: (range: TimeRange, method: ChangePointMethod) => Promise<ChangePointAnalysis>;
     refreshStatus: () => Promise<void>;
+    setSequentialDesignId: (designId: string | null) => void;
 }
 
 export const useContinuousManager = (): ContinuousManagerHook => {
@@ -37,54 +47,27 @@ export const useContinuousManager = (): ContinuousManagerHook => {
         isCollecting: false,
         error: null
     });
+    const [sequentialDesigns, setSequentialDesigns] = useState<GroupSequentialStatus[]>([]);
+    const [sequentialDesignId, setSequentialDesignId] = useState<string | null>(null);
+
+    const refreshDesigns = useCallback(async () => {
+        const statuses = await getElectronAPI().sequential.list();
+        const active = statuses.filter(status =>
+            status.design.status === 'active' && status.design.plan.source === 'continuous');
+
+        setSequentialDesigns(active);
+        // A design closed by its last look takes no more periods
+        setSequentialDesignId(prev => active.some(status => status.design.id === prev) ? prev : null);
+    }, []);
 
     const refreshStatus = useCallback(async () => {
         try {
-            // In a real implementation, this would call the main process
-            // For now, we'll simulate the proper status structure
-            const mockStatus: ContinuousStatus = {
-                isRunning: state.isCollecting,
-                startTime: state.isCollecting ? new Date(Date.now() - 60000) : null,
-                totalTrials: Math.floor(Math.random() * 10000) + 1000,
-                currentRate: state.isCollecting ? 1.0 + (Math.random() - 0.5) * 0.1 : 0,
-                currentIntentionPeriod: null, // No active intention period for now
-                systemHealth: {
-                    status: 'healthy',
-                    rngStatus: 'healthy',
-                    dataRate: {
-                        current: state.isCollecting ? 1.0 : 0,
-                        expected: 1.0,
-                        status: 'healthy'
-                    },
-                    databaseStatus: 'healthy',
-                    memoryUsage: {
-                        current: 45 + Math.random() * 10,
-                        peak: 65,
-                        status: 'healthy'
-                    },
-                    lastError: null,
-                    uptime: Date.now() - 60000,
-                    missedTrials: 0,
-                    lastCheck: new Date(),
-                    overall: 'healthy' as const,
-                    components: {
-                        collector: state.isCollecting ? 'healthy' as const : 'inactive' as const,
-                        analyzer: 'healthy' as const,
-                        database: 'healthy' as const
-                    },
-                    cpuUsage: 15 + Math.random() * 20
-                },
-                todayStats: {
-                    trialsCollected: Math.floor(Math.random() * 86400) + 1000,
-                    intentionPeriods: Math.floor(Math.random() * 5),
-                    averageDeviation: 2.5 + Math.random() * 2,
-                    significantEvents: Math.floor(Math.random() * 3)
-                }
-            };
+            const status = await getElectronAPI().continuous.getStatus();
 
             setState(prev => ({
                 ...prev,
-                status: mockStatus,
+                status,
+                isCollecting: status.isRunning,
                 error: null
             }));
         } catch (error) {
@@ -93,13 +76,12 @@ export const useContinuousManager = (): ContinuousManagerHook => {
                 error: error instanceof Error ? error.message : 'Unknown error'
             }));
         }
-    }, [state.isCollecting]);
+    }, []);
 
     const startCollection = useCallback(async () => {
         try {
-            setState(prev => ({ ...prev, isCollecting: true, error: null }));
-            // In real implementation: await window.electronAPI.startContinuous();
-            console.log('Starting continuous collection...');
+            const status = await getElectronAPI().continuous.start();
+            setState(prev => ({ ...prev, status, isCollecting: status.isRunning, error: null }));
         } catch (error) {
             setState(prev => ({
                 ...prev,
@@ -110,13 +92,8 @@ export const useContinuousManager = (): ContinuousManagerHook => {
 
     const stopCollection = useCallback(async () => {
         try {
-            setState(prev => ({
-                ...prev,
-                isCollecting: false,
-                error: null
-            }));
-            // In real implementation: await window.electronAPI.stopContinuous();
-            console.log('Stopping continuous collection...');
+            const status = await getElectronAPI().continuous.stop();
+            setState(prev => ({ ...prev, status, isCollecting: status.isRunning, error: null }));
         } catch (error) {
             setState(prev => ({
                 ...prev,
@@ -127,13 +104,12 @@ export const useContinuousManager = (): ContinuousManagerHook => {
 
     const startIntentionPeriod = useCallback(async (intention: 'high' | 'low', notes?: string) => {
         try {
-            const period: IntentionPeriod = {
-                id: Date.now().toString(),
-                startTime: new Date(),
-                endTime: null,
+            const period = await getElectronAPI().continuous.startIntentionPeriod(
                 intention,
-                notes: notes || ''
-            };
+                notes,
+                undefined,
+                sequentialDesignId ?? undefined
+            );
 
             setState(prev => ({
                 ...prev,
@@ -143,18 +119,18 @@ export const useContinuousManager = (): ContinuousManagerHook => {
                 } : prev.status,
                 error: null
             }));
-            // In real implementation: await window.electronAPI.startIntentionPeriod(intention, notes);
-            console.log(`Starting ${intention} intention period...`);
         } catch (error) {
             setState(prev => ({
                 ...prev,
                 error: error instanceof Error ? error.message : 'Failed to start intention period'
             }));
         }
-    }, []);
+    }, [sequentialDesignId]);
 
     const endIntentionPeriod = useCallback(async () => {
         try {
+            await getElectronAPI().continuous.endIntentionPeriod();
+
             setState(prev => ({
                 ...prev,
                 status: prev.status ? {
@@ -163,8 +139,6 @@ export const useContinuousManager = (): ContinuousManagerHook => {
                 } : prev.status,
                 error: null
             }));
-            // In real implementation: await window.electronAPI.endIntentionPeriod();
-            console.log('Ending intention period...');
         } catch (error) {
             setState(prev => ({
                 ...prev,
@@ -175,6 +149,8 @@ export const useContinuousManager = (): ContinuousManagerHook => {
 
     const updateIntentionNotes = useCallback(async (notes: string) => {
         try {
+            await getElectronAPI().continuous.updateIntentionNotes(notes);
+
             setState(prev => ({
                 ...prev,
                 status: prev.status && prev.status.currentIntentionPeriod ? {
@@ -186,8 +162,6 @@ export const useContinuousManager = (): ContinuousManagerHook => {
                 } : prev.status,
                 error: null
             }));
-            // In real implementation: await window.electronAPI.updateIntentionNotes(notes);
-            console.log('Updating intention notes...');
         } catch (error) {
             setState(prev => ({
                 ...prev,
@@ -197,52 +171,61 @@ export const useContinuousManager = (): ContinuousManagerHook => {
     }, []);
 
     const getTimelineData = useCallback(async (range: TimeRange): Promise<TimelinePoint[]> => {
-        // Mock timeline data for now
-        const points: TimelinePoint[] = [];
-        const startTime = range.start.getTime();
-        const endTime = range.end.getTime();
-        const interval = (endTime - startTime) / 100; // 100 data points
-
-        for (let i = 0; i < 100; i++) {
-            points.push({
-                timestamp: new Date(startTime + i * interval),
-                value: 100 + (Math.random() - 0.5) * 10,
-                cumulativeDeviation: (Math.random() - 0.5) * 20,
-                intentionPeriod: null,
-                isSignificant: Math.random() < 0.05 // 5% chance of significant event
-            });
-        }
-
-        return points;
+        return getElectronAPI().data.getTimeline(range);
     }, []);
 
     const getSignificantEvents = useCallback(async (range: TimeRange): Promise<SignificantEvent[]> => {
-        // Mock significant events for now
-        const events: SignificantEvent[] = [];
+        return getElectronAPI().data.getSignificantEvents(range);
+    }, []);
 
-        if (Math.random() < 0.3) { // 30% chance of having events
-            events.push({
-                id: 'event-1',
-                timestamp: new Date(range.start.getTime() + Math.random() * (range.end.getTime() - range.start.getTime())),
-                type: 'deviation_spike',
-                severity: 'medium',
-                description: 'Unusual deviation pattern detected',
-                significance: {
-                    zScore: 2.1 + Math.random(),
-                    pValue: 0.02 + Math.random() * 0.03
-                },
-                dataRange: {
-                    startTime: range.start,
-                    endTime: range.end,
-                    trialCount: 100
-                },
-                notified: false
-            });
-        }
+    const getIntentionPeriods = useCallback(async (range: TimeRange): Promise<IntentionPeriod[]> => {
+        const days = Math.max(1, Math.ceil((Date.now() - range.start.getTime()) / (24 * 60 * 60 * 1000)));
+        const periods = await getElectronAPI().data.getIntentionPeriods(days);
+        return periods.filter(period =>
+            period.startTime <= range.end && (!period.endTime || period.endTime >= range.start)
+        );
+    }, []);
 
-        return events;
+    const getChangePoints = useCallback(async (
+        range: TimeRange,
+        method: ChangePointMethod
+    ): Promise<ChangePointAnalysis> => {
+        return getElectronAPI().data.getChangePoints({ method, startTime: range.start, endTime: range.end });
     }, []);
 
+    // Live status and health updates pushed from the main process
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+
+        const api = getElectronAPI();
+
+        const unsubscribeStatus = api.on('continuous-status', status => {
+            setState(prev => ({ ...prev, status, isCollecting: status.isRunning }));
+        });
+
+        const unsubscribeHealth = api.on('health', systemHealth => {
+            setState(prev => ({
+                ...prev,
+                status: prev.status ? { ...prev.status, systemHealth } : prev.status
+            }));
+        });
+
+        // Looks run when a tagged period ends
+        const onDesignsChanged = () => {
+            refreshDesigns().catch(error => console.error('Failed to load group-sequential designs:', error));
+        };
+        const unsubscribePeriod = api.on('intention-period', onDesignsChanged);
+        const unsubscribeLook = api.on('sequential-look', onDesignsChanged);
+        onDesignsChanged();
+
+        return () => {
+            unsubscribeStatus();
+            unsubscribeHealth();
+            unsubscribePeriod();
+            unsubscribeLook();
+        };
+    }, [refreshDesigns]);
+
     // Auto-refresh status every 30 seconds
     useEffect(() => {
         const interval = setInterval(refreshStatus, 30000);
@@ -258,6 +241,8 @@ export const useContinuousManager = (): ContinuousManagerHook => {
         status: state.status,
         isCollecting: state.isCollecting,
         error: state.error,
+        sequentialDesigns,
+        sequentialDesignId,
         startCollection,
         stopCollection,
         startIntentionPeriod,
@@ -265,6 +250,9 @@ export const useContinuousManager = (): ContinuousManagerHook => {
         updateIntentionNotes,
         getTimelineData,
         getSignificantEvents,
-        refreshStatus
+        getIntentionPeriods,
+        getChangePoints,
+        refreshStatus,
+        setSequentialDesignId
     };
 };
\ No newline at end of file
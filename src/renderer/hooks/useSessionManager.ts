@@ -1,17 +1,21 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import {
-    ExperimentSession,
     SessionConfig,
     SessionModeState,
-    SessionProgress,
     SessionControlAction,
     SessionAlert,
-    RNGTrial,
-    StatisticsUpdate,
-    IntentionType
+    SessionSeries,
+    RNGTrial
 } from '../../shared/types';
-import { NetworkVarianceResult, CumulativePoint } from '../../shared/analysis-types';
+import {
+    NetworkVarianceResult,
+    CumulativePoint,
+    SeriesAnalysis,
+    GroupSequentialStatus
+} from '../../shared/analysis-types';
+import { SessionStatusUpdate } from '../../shared/ipc-types';
+import { getElectronAPI, hasElectronAPI } from '../utils/electron-api';
 
 /**
  * Main session management hook for intention-based experiments
@@ -59,72 +63,49 @@ export const useSessionManager = () => {
     // Real-time update intervals
     const statisticsInterval = useRef<NodeJS.Timeout | null>(null);
     const progressInterval = useRef<NodeJS.Timeout | null>(null);
-    const trialGenerationInterval = useRef<NodeJS.Timeout | null>(null);
+
+    // Session whose trials are accepted from the main process
+    const activeSessionId = useRef<string | null>(null);
+    const lastSessionStatus = useRef<SessionModeState['sessionStatus']>('setup');
 
     // Session configuration
     const [currentConfig, setCurrentConfig] = useState<SessionConfig | null>(null);
 
-    /**
-     * Create a new experiment session
-     */
-    const createSession = useCallback(async (config: SessionConfig): Promise<ExperimentSession> => {
-        const session: ExperimentSession = {
-            id: uuidv4(),
-            startTime: new Date(),
-            endTime: null,
-            intention: config.intention,
-            targetTrials: config.targetTrials,
-            status: 'running',
-            notes: config.notes,
-            participantId: config.participantId,
-            duration: 0
-        };
+    // Tri-polar series the current session is a run of
+    const [activeSeries, setActiveSeries] = useState<SessionSeries | null>(null);
+    const [seriesAnalysis, setSeriesAnalysis] = useState<SeriesAnalysis | null>(null);
+    const activeSeriesId = useRef<string | null>(null);
 
-        setCurrentConfig(config);
-        setSessionState(prev => ({
-            ...prev,
-            currentSession: session,
-            sessionStatus: config.meditationDuration > 0 ? 'meditation' : 'running',
-            realTimeData: [],
-            progress: {
-                trialsCompleted: 0,
-                targetTrials: config.targetTrials,
-                startTime: session.startTime,
-                estimatedCompletion: null,
-                currentRate: 0,
-                percentComplete: 0,
-                elapsedTime: 0
-            }
-        }));
-
-        // Add session start alert
-        addAlert({
-            type: 'milestone',
-            severity: 'info',
-            title: 'Session Started',
-            message: `Intention-based session started with ${config.intention} intention`,
-            requiresAck: false
-        });
+    // Group-sequential design the current session counts towards; only its looks decide significance
+    const [sequentialStatus, setSequentialStatus] = useState<GroupSequentialStatus | null>(null);
+    const sequentialDesignId = useRef<string | null>(null);
 
-        return session;
+    /**
+     * Reload the active series and its results, e.g. after one of its runs ends
+     */
+    const refreshSeries = useCallback(async () => {
+        const seriesId = activeSeriesId.current;
+        if (!seriesId) return;
+
+        const api = getElectronAPI();
+        const [series, analysis] = await Promise.all([
+            api.series.get(seriesId),
+            api.series.getAnalysis(seriesId)
+        ]);
+        setActiveSeries(series);
+        setSeriesAnalysis(analysis);
     }, []);
 
     /**
-     * Start meditation period before session
+     * Apply a session status update reported by the main process
      */
-    const startMeditation = useCallback(async (duration: number) => {
-        setSessionState(prev => ({
-            ...prev,
-            sessionStatus: 'meditation'
-        }));
+    const applySessionUpdate = useCallback((update: SessionStatusUpdate | null) => {
+        if (!update || update.session.id !== activeSessionId.current) return;
 
-        // Meditation timer
-        setTimeout(() => {
-            setSessionState(prev => ({
-                ...prev,
-                sessionStatus: 'running'
-            }));
+        const previousStatus = lastSessionStatus.current;
+        lastSessionStatus.current = update.status;
 
+        if (previousStatus === 'meditation' && update.status === 'running') {
             addAlert({
                 type: 'milestone',
                 severity: 'success',
@@ -132,27 +113,86 @@ export const useSessionManager = () => {
                 message: 'Meditation period finished. Session will now begin.',
                 requiresAck: false
             });
-        }, duration * 60 * 1000);
-    }, []);
+        }
+
+        if ((update.status === 'completed' || update.status === 'stopped') && previousStatus !== update.status) {
+            refreshSeries().catch(error => console.error('Failed to refresh series:', error));
+        }
+
+        if (update.status === 'completed' && previousStatus !== 'completed') {
+            stopIntervals();
+            addAlert({
+                type: 'completion',
+                severity: 'success',
+                title: 'Session Complete',
+                message: 'Session has been completed successfully',
+                requiresAck: false
+            });
+        }
+
+        setSessionState(prev => ({
+            ...prev,
+            currentSession: update.session,
+            sessionStatus: update.status
+        }));
+    }, [refreshSeries]);
 
     /**
-     * Start active session data collection
+     * Start a session in the main process
+     * The main process handles the optional meditation period before collecting trials
      */
     const startSession = useCallback(async (config: SessionConfig) => {
         try {
-            const session = await createSession(config);
+            const session = await getElectronAPI().session.start(config);
+            activeSessionId.current = session.id;
+            lastSessionStatus.current = config.meditationDuration > 0 ? 'meditation' : 'running';
+            activeSeriesId.current = config.seriesId ?? null;
+            if (!config.seriesId) {
+                setActiveSeries(null);
+                setSeriesAnalysis(null);
+            }
+            sequentialDesignId.current = config.sequentialDesignId ?? null;
+            setSequentialStatus(null);
 
-            if (config.meditationDuration > 0) {
-                await startMeditation(config.meditationDuration);
-            } else {
-                setSessionState(prev => ({
-                    ...prev,
-                    sessionStatus: 'running'
-                }));
+            setCurrentConfig(config);
+            setSessionState(prev => ({
+                ...prev,
+                currentSession: session,
+                sessionStatus: config.meditationDuration > 0 ? 'meditation' : 'running',
+                realTimeData: [],
+                statisticalResults: null,
+                cumulativeData: [],
+                progress: {
+                    trialsCompleted: 0,
+                    targetTrials: config.targetTrials,
+                    startTime: session.startTime,
+                    estimatedCompletion: null,
+                    currentRate: 0,
+                    percentComplete: 0,
+                    elapsedTime: 0
+                }
+            }));
+
+            // The session is already running; a design that fails to load only leaves its status empty
+            const designId = config.sequentialDesignId;
+            if (designId) {
+                getElectronAPI().sequential.getStatus(designId)
+                    .then(status => {
+                        if (sequentialDesignId.current === designId) setSequentialStatus(status);
+                    })
+                    .catch(error => console.error('Failed to load group-sequential design:', error));
             }
 
-            // Start real-time trial generation simulation
-            startTrialGeneration();
+            addAlert({
+                type: 'milestone',
+                severity: 'info',
+                title: 'Session Started',
+                message: config.seriesId
+                    ? `Series run started with ${session.intention} intention`
+                    : `Intention-based session started with ${config.intention} intention`,
+                requiresAck: false
+            });
+
             startStatisticsUpdates();
             startProgressTracking();
 
@@ -167,18 +207,13 @@ export const useSessionManager = () => {
             });
             throw error;
         }
-    }, [createSession, startMeditation]);
+    }, []);
 
     /**
      * Pause active session
      */
     const pauseSession = useCallback(async () => {
-        setSessionState(prev => ({
-            ...prev,
-            sessionStatus: 'paused'
-        }));
-
-        stopIntervals();
+        applySessionUpdate(await getElectronAPI().session.pause());
 
         addAlert({
             type: 'milestone',
@@ -187,20 +222,13 @@ export const useSessionManager = () => {
             message: 'Data collection has been paused',
             requiresAck: false
         });
-    }, []);
+    }, [applySessionUpdate]);
 
     /**
      * Resume paused session
      */
     const resumeSession = useCallback(async () => {
-        setSessionState(prev => ({
-            ...prev,
-            sessionStatus: 'running'
-        }));
-
-        startTrialGeneration();
-        startStatisticsUpdates();
-        startProgressTracking();
+        applySessionUpdate(await getElectronAPI().session.resume());
 
         addAlert({
             type: 'milestone',
@@ -209,57 +237,20 @@ export const useSessionManager = () => {
             message: 'Data collection has resumed',
             requiresAck: false
         });
-    }, []);
+    }, [applySessionUpdate]);
 
     /**
      * Stop session normally
      */
     const stopSession = useCallback(async () => {
-        setSessionState(prev => {
-            const updatedSession = prev.currentSession ? {
-                ...prev.currentSession,
-                endTime: new Date(),
-                status: 'completed' as const,
-                duration: Date.now() - prev.currentSession.startTime.getTime()
-            } : null;
-
-            return {
-                ...prev,
-                currentSession: updatedSession,
-                sessionStatus: 'completed'
-            };
-        });
-
-        stopIntervals();
-
-        addAlert({
-            type: 'completion',
-            severity: 'success',
-            title: 'Session Complete',
-            message: 'Session has been completed successfully',
-            requiresAck: false
-        });
-    }, []);
+        applySessionUpdate(await getElectronAPI().session.stop(false));
+    }, [applySessionUpdate]);
 
     /**
      * Emergency stop session
      */
     const emergencyStop = useCallback(async () => {
-        setSessionState(prev => {
-            const updatedSession = prev.currentSession ? {
-                ...prev.currentSession,
-                endTime: new Date(),
-                status: 'stopped' as const,
-                duration: Date.now() - prev.currentSession.startTime.getTime()
-            } : null;
-
-            return {
-                ...prev,
-                currentSession: updatedSession,
-                sessionStatus: 'stopped'
-            };
-        });
-
+        applySessionUpdate(await getElectronAPI().session.stop(true));
         stopIntervals();
 
         addAlert({
@@ -269,43 +260,75 @@ export const useSessionManager = () => {
             message: 'Session has been stopped immediately',
             requiresAck: true
         });
-    }, []);
+    }, [applySessionUpdate]);
 
     /**
-     * Start real-time trial generation (simulation)
+     * Subscribe to trial, session and engine events from the main process
      */
-    const startTrialGeneration = useCallback(() => {
-        if (trialGenerationInterval.current) return;
+    useEffect(() => {
+        if (!hasElectronAPI()) {
+            console.warn('Electron IPC bridge unavailable - session data will not be collected');
+            return;
+        }
 
-        trialGenerationInterval.current = setInterval(() => {
-            setSessionState(prev => {
-                if (prev.sessionStatus !== 'running' || !prev.currentSession) return prev;
-
-                // Generate simulated trial data
-                const newTrial: RNGTrial = {
-                    timestamp: new Date(),
-                    trialValue: Math.floor(Math.random() * 201), // 0-200 range
-                    sessionId: prev.currentSession.id,
-                    experimentMode: 'session',
-                    intention: prev.currentSession.intention,
-                    trialNumber: prev.realTimeData.length + 1
-                };
+        const api = getElectronAPI();
 
-                const updatedData = [...prev.realTimeData, newTrial];
+        const unsubscribeTrial = api.on('trial', (trial: RNGTrial) => {
+            if (trial.sessionId !== activeSessionId.current) return;
 
-                // Check if target reached
-                if (updatedData.length >= prev.progress.targetTrials) {
-                    // Auto-complete session
-                    setTimeout(() => stopSession(), 100);
-                }
+            setSessionState(prev => ({
+                ...prev,
+                realTimeData: [...prev.realTimeData, trial]
+            }));
+        });
 
-                return {
-                    ...prev,
-                    realTimeData: updatedData
-                };
-            });
-        }, 1000); // 1 trial per second
-    }, [stopSession]);
+        const unsubscribeStatus = api.on('session-status', applySessionUpdate);
+
+        const unsubscribeEngine = api.on('engine-status', engineStatus => {
+            setSessionState(prev => ({ ...prev, engineStatus }));
+        });
+
+        const unsubscribeLook = api.on('sequential-look', status => {
+            if (status.design.id !== sequentialDesignId.current) return;
+
+            setSequentialStatus(status);
+            const look = status.looks[status.looks.length - 1];
+            const summary = `z = ${look.z.toFixed(2)} against a boundary of ${look.boundaryZ.toFixed(2)} ` +
+                `at ${look.trialCount} trials`;
+            if (look.crossed) {
+                addAlert({
+                    type: 'significance',
+                    severity: 'success',
+                    title: 'Sequential Boundary Crossed',
+                    message: `Look ${look.lookNumber} of "${status.design.plan.title}" rejects the null: ${summary}`,
+                    requiresAck: true
+                });
+            } else if (status.design.status === 'retained_null') {
+                addAlert({
+                    type: 'completion',
+                    severity: 'info',
+                    title: 'Sequential Design Complete',
+                    message: `Final look of "${status.design.plan.title}" retains the null: ${summary}`,
+                    requiresAck: true
+                });
+            } else {
+                addAlert({
+                    type: 'milestone',
+                    severity: 'info',
+                    title: `Interim Look ${look.lookNumber}`,
+                    message: `"${status.design.plan.title}" continues: ${summary}`,
+                    requiresAck: false
+                });
+            }
+        });
+
+        return () => {
+            unsubscribeTrial();
+            unsubscribeStatus();
+            unsubscribeEngine();
+            unsubscribeLook();
+        };
+    }, [applySessionUpdate]);
 
     /**
      * Start real-time statistics updates
@@ -361,8 +384,12 @@ export const useSessionManager = () => {
                     };
                 });
 
-                // Check for significance alerts
-                if (networkVarianceResult.significance === 'significant' && prev.statisticalResults?.significance !== 'significant') {
+                // Check for significance alerts; a session in a group-sequential design is judged only at its looks
+                if (
+                    !sequentialDesignId.current &&
+                    networkVarianceResult.significance === 'significant' &&
+                    prev.statisticalResults?.significance !== 'significant'
+                ) {
                     addAlert({
                         type: 'significance',
                         severity: 'success',
@@ -430,10 +457,6 @@ export const useSessionManager = () => {
             clearInterval(progressInterval.current);
             progressInterval.current = null;
         }
-        if (trialGenerationInterval.current) {
-            clearInterval(trialGenerationInterval.current);
-            trialGenerationInterval.current = null;
-        }
     }, []);
 
     /**
@@ -493,6 +516,9 @@ export const useSessionManager = () => {
         sessionState,
         alerts,
         currentConfig,
+        activeSeries,
+        seriesAnalysis,
+        sequentialStatus,
 
         // Actions
         startSession,
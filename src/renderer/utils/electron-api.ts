@@ -0,0 +1,28 @@
+/**
+ * Access to the typed IPC bridge exposed by the preload script
+ */
+
+import { ElectronAPI } from '../../shared/ipc-types';
+
+declare global {
+    interface Window {
+        electronAPI?: ElectronAPI;
+    }
+}
+
+/**
+ * Whether the renderer is running inside Electron with the preload bridge
+ */
+export function hasElectronAPI(): boolean {
+    return typeof window !== 'undefined' && window.electronAPI !== undefined;
+}
+
+/**
+ * Get the IPC bridge, failing loudly when the app runs outside Electron
+ */
+export function getElectronAPI(): ElectronAPI {
+    if (!hasElectronAPI()) {
+        throw new Error('Electron IPC bridge unavailable - start the app through Electron to collect data');
+    }
+    return window.electronAPI as ElectronAPI;
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import {
     AnalysisConfig,
+    ChangePoint,
     TimeRange,
     SessionFilter,
     IntentionFilter,
@@ -16,8 +17,16 @@ import { FilterBuilder } from '../../components/Analysis/FilterBuilder';
 import { DataExplorer } from './DataExplorer';
 import { TrendAnalyzer } from './TrendAnalyzer';
 import { MetaAnalysisPanel } from '../../components/Analysis/MetaAnalysisPanel';
+import { BayesianAnalysisPanel } from '../../components/Analysis/BayesianAnalysisPanel';
+import { GroupSequentialPanel } from '../../components/Analysis/GroupSequentialPanel';
 import { ReportGenerator } from '../../components/Reports/ReportGenerator';
 import { QualityAssessmentPanel } from '../../components/Analysis/QualityAssessmentPanel';
+import { OperatorAnalysisPanel } from '../../components/Analysis/OperatorAnalysisPanel';
+import { PublishDatasetPanel } from '../../components/Analysis/PublishDatasetPanel';
+import { ImportDataPanel } from '../../components/Analysis/ImportDataPanel';
+import { NetworkAnalysisPanel } from '../../components/Analysis/NetworkAnalysisPanel';
+import { FormalEventsPanel } from '../../components/Analysis/FormalEventsPanel';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
 import './HistoricalAnalysis.css';
 
 interface HistoricalAnalysisState {
@@ -64,12 +73,6 @@ interface ForecastData {
     confidence: [number, number];
 }
 
-interface ChangePoint {
-    timestamp: number;
-    magnitude: number;
-    probability: number;
-}
-
 interface QualityMetrics {
     overall: number;
     completeness: number;
@@ -92,7 +95,7 @@ interface StatisticalSummary {
     qualityScore: number;
 }
 
-type AnalysisTab = 'overview' | 'explorer' | 'trends' | 'meta' | 'quality' | 'reports';
+type AnalysisTab = 'overview' | 'explorer' | 'trends' | 'meta' | 'bayes' | 'sequential' | 'operators' | 'quality' | 'reports' | 'publish' | 'import' | 'network' | 'events';
 
 export const HistoricalAnalysis: React.FC = () => {
     const [state, setState] = useState<HistoricalAnalysisState>({
@@ -252,15 +255,25 @@ export const HistoricalAnalysis: React.FC = () => {
             case 'meta':
                 return (
                     <MetaAnalysisPanel
-                        sessions={state.filteredSessions}
-                        metaResults={state.results?.metaAnalysis}
-                        analysisType="randomEffect"
-                        weightingMethod="inverseVariance"
-                        heterogeneityTest={true}
-                        forestPlot={true}
+                        startTime={new Date(state.config.timeRange.startTime)}
+                        endTime={new Date(state.config.timeRange.endTime)}
+                    />
+                );
+
+            case 'bayes':
+                return (
+                    <BayesianAnalysisPanel
+                        startTime={new Date(state.config.timeRange.startTime)}
+                        endTime={new Date(state.config.timeRange.endTime)}
                     />
                 );
 
+            case 'sequential':
+                return <GroupSequentialPanel />;
+
+            case 'operators':
+                return <OperatorAnalysisPanel />;
+
             case 'quality':
                 return (
                     <QualityAssessmentPanel
@@ -278,6 +291,17 @@ export const HistoricalAnalysis: React.FC = () => {
                     />
                 );
 
+            case 'publish':
+                return <PublishDatasetPanel timeRange={state.config.timeRange} />;
+
+            case 'import':
+                return <ImportDataPanel />;
+
+            case 'network':
+                return <NetworkAnalysisPanel timeRange={state.config.timeRange} />;
+            case 'events':
+                return <FormalEventsPanel />;
+
             default:
                 return null;
         }
@@ -320,8 +344,15 @@ export const HistoricalAnalysis: React.FC = () => {
                         { key: 'explorer', label: 'Data Explorer', icon: '🔍' },
                         { key: 'trends', label: 'Trend Analysis', icon: '📈' },
                         { key: 'meta', label: 'Meta-Analysis', icon: '🧮' },
+                        { key: 'bayes', label: 'Bayesian', icon: '⚖️' },
+                        { key: 'sequential', label: 'Sequential', icon: '🚦' },
+                        { key: 'operators', label: 'Operators', icon: '👤' },
                         { key: 'quality', label: 'Quality Assessment', icon: '✅' },
-                        { key: 'reports', label: 'Reports', icon: '📄' }
+                        { key: 'reports', label: 'Reports', icon: '📄' },
+                        { key: 'publish', label: 'Publish', icon: '📦' },
+                        { key: 'import', label: 'Import', icon: '📥' },
+                        { key: 'network', label: 'Network', icon: '🌐' },
+                        { key: 'events', label: 'Events', icon: '📅' }
                     ] as const).map(tab => (
                         <button
                             key={tab.key}
@@ -506,10 +537,26 @@ const runComprehensiveAnalysis = async (
     sessions: ExperimentSession[],
     config: AnalysisConfig
 ): Promise<AnalysisResults> => {
-    // Meta-analysis
-    const metaAnalysis = sessions.length > 1
-        ? AdvancedResearchStats.MetaAnalyzer.randomEffectsMetaAnalysis(sessions)
+    // Meta-analysis of the stored sessions in the selected period
+    const metaAnalysis = hasElectronAPI()
+        ? await getElectronAPI().data.getMetaAnalysis({
+            method: 'reml',
+            hartungKnapp: true,
+            startTime: new Date(config.timeRange.startTime),
+            endTime: new Date(config.timeRange.endTime)
+        }).catch(() => null)
+        : null;
+
+    // Shifts in the mean over the period's session trials
+    const changePointAnalysis = hasElectronAPI()
+        ? await getElectronAPI().data.getChangePoints({
+            method: 'pelt',
+            startTime: new Date(config.timeRange.startTime),
+            endTime: new Date(config.timeRange.endTime),
+            experimentMode: 'session'
+        }).catch(() => null)
         : null;
+    const changePoints = changePointAnalysis?.changePoints ?? [];
 
     // Trend analysis (simplified)
     const trendAnalysis: TrendAnalysisResult = {
@@ -526,7 +573,7 @@ const runComprehensiveAnalysis = async (
             phase: 0
         },
         forecasts: [],
-        changePoints: []
+        changePoints
     };
 
     // Quality metrics
@@ -543,7 +590,10 @@ const runComprehensiveAnalysis = async (
         keyFindings: [
             `Meta-analysis shows pooled effect size of ${metaAnalysis?.pooledEffectSize.toFixed(4) || 'N/A'}`,
             'Data quality assessment indicates high reliability across sessions',
-            'No significant temporal trends detected in the analyzed period'
+            changePoints.length > 0
+                ? `${changePoints.length} change point${changePoints.length === 1 ? '' : 's'} in the trial mean ` +
+                  `detected in the analyzed period (PELT)`
+                : 'No significant temporal trends detected in the analyzed period'
         ],
         recommendations: [
             'Continue current experimental protocols',
@@ -1,12 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  ChartData,
+  ChartOptions,
+  Plugin
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
 import { TimelinePoint, IntentionPeriod, SignificantEvent, TimeRange } from '../../../shared/types';
+import { ChangePointAnalysis, ChangePointMethod } from '../../../shared/analysis-types';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip);
+
+const CHANGE_POINT_METHODS: Record<ChangePointMethod, string> = {
+  pelt: 'PELT (offline)',
+  cusum: 'CUSUM',
+  bocpd: 'Bayesian online'
+};
 
 interface ContinuousTimelineProps {
   data: TimelinePoint[];
   intentionPeriods: IntentionPeriod[];
   significantEvents: SignificantEvent[];
+  /** Change points over the same range, drawn over the cumulative deviation */
+  changePoints: ChangePointAnalysis | null;
+  changePointMethod: ChangePointMethod;
   timeRange: TimeRange;
   onTimeRangeChange: (range: TimeRange) => void;
+  onChangePointMethodChange: (method: ChangePointMethod) => void;
   onPeriodSelect: (period: IntentionPeriod) => void;
 }
 
@@ -14,8 +38,11 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
   data,
   intentionPeriods,
   significantEvents,
+  changePoints,
+  changePointMethod,
   timeRange,
   onTimeRangeChange,
+  onChangePointMethodChange,
   onPeriodSelect
 }) => {
   const [hoveredPoint, setHoveredPoint] = useState<TimelinePoint | null>(null);
@@ -44,6 +71,82 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
     }
   };
 
+  const formatTick = (value: number) => {
+    const date = new Date(value);
+    return timeRange.type === 'day' ? formatTime(date) : formatDate(date);
+  };
+
+  const chartData: ChartData<'scatter'> = {
+    datasets: [
+      {
+        label: 'Cumulative deviation',
+        data: data.map(point => ({ x: point.timestamp.getTime(), y: point.cumulativeDeviation })),
+        borderColor: '#3b82f6',
+        backgroundColor: '#3b82f6',
+        borderWidth: 2,
+        showLine: true,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  const chartOptions: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    plugins: {
+      tooltip: {
+        callbacks: {
+          label: context => `${formatTime(new Date(context.parsed.x))}: ${context.parsed.y.toFixed(1)}`
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear',
+        min: timeRange.start.getTime(),
+        max: timeRange.end.getTime(),
+        ticks: { color: '#94a3b8', maxTicksLimit: 8, callback: value => formatTick(Number(value)) },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' }
+      },
+      y: {
+        title: { display: true, text: 'Cumulative deviation', color: '#94a3b8' },
+        ticks: { color: '#94a3b8' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' }
+      }
+    }
+  };
+
+  // Intention periods shade the plot area behind the data; change points are dashed verticals over it
+  const overlay = useMemo((): Plugin<'scatter'> => ({
+    id: 'continuousTimelineOverlay',
+    beforeDatasetsDraw: chart => {
+      const { ctx, chartArea, scales } = chart;
+      ctx.save();
+
+      ctx.fillStyle = 'rgba(16, 185, 129, 0.18)';
+      intentionPeriods.forEach(period => {
+        const start = Math.max(scales.x.getPixelForValue(period.startTime.getTime()), chartArea.left);
+        const end = Math.min(scales.x.getPixelForValue((period.endTime ?? new Date()).getTime()), chartArea.right);
+        if (end > start) ctx.fillRect(start, chartArea.top, end - start, chartArea.bottom - chartArea.top);
+      });
+
+      ctx.strokeStyle = '#a855f7';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      changePoints?.changePoints.forEach(point => {
+        const x = scales.x.getPixelForValue(point.timestamp.getTime());
+        if (x < chartArea.left || x > chartArea.right) return;
+        ctx.beginPath();
+        ctx.moveTo(x, chartArea.top);
+        ctx.lineTo(x, chartArea.bottom);
+        ctx.stroke();
+      });
+
+      ctx.restore();
+    }
+  }), [intentionPeriods, changePoints]);
+
   return (
     <div className="continuous-timeline">
       <div className="timeline-header">
@@ -104,22 +207,67 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
             <div className="legend-color significant-event"></div>
             <span>Significant Events</span>
           </div>
+          <div className="legend-item">
+            <div className="legend-color change-point"></div>
+            <span>Change Points</span>
+          </div>
         </div>
 
         <div className="timeline-chart">
-          {/* Data visualization would go here */}
-          <div className="chart-placeholder">
-            <div className="chart-info">
-              <p>Timeline Chart Visualization</p>
-              <div className="chart-stats">
-                <span>Data Points: {data.length}</span>
-                <span>Intention Periods: {intentionPeriods.length}</span>
-                <span>Significant Events: {significantEvents.length}</span>
+          {data.length > 0 ? (
+            <div className="chart-area">
+              <Scatter data={chartData} options={chartOptions} plugins={[overlay]} />
+            </div>
+          ) : (
+            <div className="chart-placeholder">
+              <div className="chart-info">
+                <p>No continuous data in this range</p>
               </div>
             </div>
+          )}
+          <div className="chart-stats">
+            <span>Data Points: {data.length}</span>
+            <span>Intention Periods: {intentionPeriods.length}</span>
+            <span>Significant Events: {significantEvents.length}</span>
+            <label className="change-point-method">
+              Change points:
+              <select
+                value={changePointMethod}
+                onChange={(e) => onChangePointMethodChange(e.target.value as ChangePointMethod)}
+              >
+                {(Object.keys(CHANGE_POINT_METHODS) as ChangePointMethod[]).map(method => (
+                  <option key={method} value={method}>{CHANGE_POINT_METHODS[method]}</option>
+                ))}
+              </select>
+            </label>
           </div>
         </div>
 
+        <div className="timeline-change-points">
+          <h4>Change Points</h4>
+          {changePoints && changePoints.changePoints.length > 0 ? (
+            <div className="change-points-list">
+              {changePoints.changePoints.slice(-5).reverse().map(point => (
+                <div key={point.index} className="change-point-item">
+                  <div className="event-time">{formatTime(point.timestamp)}</div>
+                  <div className="event-description">
+                    Mean {point.meanBefore.toFixed(2)} → {point.meanAfter.toFixed(2)}
+                  </div>
+                  <div className="metadata-item">
+                    {changePoints.method === 'bocpd' ? 'Posterior' : 'Confidence'}: {(point.confidence * 100).toFixed(1)}%
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="metadata-item">
+              {changePoints
+                ? `No change points in ${changePoints.trialCount.toLocaleString()} trials`
+                : 'Change points not analyzed'}
+            </div>
+          )}
+        </div>
+
         <div className="timeline-events">
           <h4>Recent Events</h4>
           <div className="events-list">
@@ -282,6 +430,17 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
           background: #f59e0b;
         }
 
+        .legend-color.change-point {
+          background: #a855f7;
+        }
+
+        .chart-area {
+          height: 300px;
+          padding: 8px;
+          background: rgba(0, 0, 0, 0.3);
+          border-radius: 8px;
+        }
+
         .chart-placeholder {
           height: 300px;
           background: rgba(0, 0, 0, 0.3);
@@ -299,18 +458,55 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
 
         .chart-stats {
           display: flex;
+          flex-wrap: wrap;
+          align-items: center;
           gap: 20px;
           margin-top: 8px;
           font-size: 14px;
+          color: #94a3b8;
+        }
+
+        .change-point-method {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .change-point-method select {
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.2);
+          border-radius: 6px;
+          color: #ffffff;
+          padding: 4px 8px;
+        }
+
+        .change-points-list {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .change-point-item {
+          display: flex;
+          gap: 12px;
+          align-items: center;
+          padding: 8px 12px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+          border-left: 3px solid #a855f7;
+        }
+
+        .change-point-item .event-description {
+          flex: 1;
         }
 
-        .timeline-events, .timeline-periods {
+        .timeline-events, .timeline-periods, .timeline-change-points {
           background: rgba(0, 0, 0, 0.2);
           border-radius: 8px;
           padding: 16px;
         }
 
-        .timeline-events h4, .timeline-periods h4 {
+        .timeline-events h4, .timeline-periods h4, .timeline-change-points h4 {
           color: #ffffff;
           margin: 0 0 12px 0;
           font-size: 16px;
@@ -431,7 +627,7 @@ export const ContinuousTimeline: React.FC<ContinuousTimelineProps> = ({
             grid-template-columns: 1fr 300px;
           }
 
-          .chart-placeholder {
+          .timeline-chart {
             grid-column: 1 / -1;
           }
         }
@@ -5,6 +5,7 @@ import {
     TimeRange,
     SignificantEvent
 } from '../../../shared/types';
+import { ChangePointAnalysis, ChangePointMethod } from '../../../shared/analysis-types';
 import { useContinuousManager } from '../../hooks/useContinuousManager';
 import { MonitorDashboard } from './MonitorDashboard';
 import { ContinuousTimeline } from './ContinuousTimeline';
@@ -20,8 +21,8 @@ import { QuickIntentionButton } from '../../components/Continuous/QuickIntention
  * - Current intention period management
  * - Today's trial count and statistics
  * - System health dashboard
- * - Quick intention period controls
- * - Interactive timeline visualization
+ * - Quick intention period controls, optionally counting towards a group-sequential design
+ * - Interactive timeline visualization with intention periods and change points
  */
 export const ContinuousView: React.FC = () => {
     const {
@@ -34,6 +35,11 @@ export const ContinuousView: React.FC = () => {
         updateIntentionNotes,
         getTimelineData,
         getSignificantEvents,
+        getIntentionPeriods,
+        getChangePoints,
+        sequentialDesigns,
+        sequentialDesignId,
+        setSequentialDesignId,
         error
     } = useContinuousManager();
 
@@ -46,6 +52,9 @@ export const ContinuousView: React.FC = () => {
 
     const [timelineData, setTimelineData] = useState<any[]>([]);
     const [significantEvents, setSignificantEvents] = useState<SignificantEvent[]>([]);
+    const [intentionPeriods, setIntentionPeriods] = useState<IntentionPeriod[]>([]);
+    const [changePointMethod, setChangePointMethod] = useState<ChangePointMethod>('pelt');
+    const [changePoints, setChangePoints] = useState<ChangePointAnalysis | null>(null);
     const [showTimeline, setShowTimeline] = useState(true);
     const [isLoading, setIsLoading] = useState(true);
 
@@ -60,6 +69,9 @@ export const ContinuousView: React.FC = () => {
 
                 const events = await getSignificantEvents(selectedTimeRange);
                 setSignificantEvents(events);
+
+                setIntentionPeriods(await getIntentionPeriods(selectedTimeRange));
+                setChangePoints(await getChangePoints(selectedTimeRange, changePointMethod));
             } catch (error) {
                 console.error('Error loading timeline data:', error);
             }
@@ -70,7 +82,7 @@ export const ContinuousView: React.FC = () => {
         // Refresh timeline data every 30 seconds
         const interval = setInterval(loadTimelineData, 30000);
         return () => clearInterval(interval);
-    }, [selectedTimeRange, getTimelineData, getSignificantEvents]);
+    }, [selectedTimeRange, changePointMethod, getTimelineData, getSignificantEvents, getIntentionPeriods, getChangePoints]);
 
     /**
      * Set loading to false when status is available
@@ -140,6 +152,25 @@ export const ContinuousView: React.FC = () => {
      * Render collection status indicator
      */
     const renderCollectionStatus = () => {
+        const externalCollector = status?.externalCollector;
+        if (externalCollector) {
+            const writer = externalCollector.owner === 'daemon' ? 'the headless collector' : 'another app window';
+            return (
+                <div className="collection-status">
+                    <div className="status-indicator pulse" style={{ backgroundColor: '#2196F3' }}>
+                        <div className="status-dot"></div>
+                    </div>
+                    <div className="status-text">
+                        <span className="status-label">VIEWING</span>
+                        <span className="status-details">
+                            Collected by {writer} (pid {externalCollector.pid}) since{' '}
+                            {new Date(externalCollector.startedAt).toLocaleString()}
+                        </span>
+                    </div>
+                </div>
+            );
+        }
+
         const statusColor = isCollecting ? '#4CAF50' : '#f44336';
         const statusText = isCollecting ? 'COLLECTING' : 'STOPPED';
         const pulseClass = isCollecting ? 'pulse' : '';
@@ -193,6 +224,44 @@ export const ContinuousView: React.FC = () => {
         );
     };
 
+    /**
+     * Render the group-sequential design new intention periods count towards
+     */
+    const renderSequentialDesign = () => {
+        if (sequentialDesigns.length === 0) return null;
+
+        const selected = sequentialDesigns.find(design => design.design.id === sequentialDesignId);
+        const lastLook = selected?.looks[selected.looks.length - 1];
+
+        return (
+            <div className="sequential-design">
+                <label>
+                    Count periods towards
+                    <select
+                        value={sequentialDesignId ?? ''}
+                        onChange={(e) => setSequentialDesignId(e.target.value || null)}
+                        disabled={Boolean(status?.currentIntentionPeriod)}
+                    >
+                        <option value="">No group-sequential design</option>
+                        {sequentialDesigns.map(design => (
+                            <option key={design.design.id} value={design.design.id}>
+                                {design.design.plan.title}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {selected && (
+                    <span className="sequential-details">
+                        {selected.trialsCollected} of {selected.design.plan.maxTrials} trials
+                        {selected.nextLookAt !== null && ` • next look at ${selected.nextLookAt}`}
+                        {lastLook && ` • look ${lastLook.lookNumber}: z = ${lastLook.z.toFixed(2)}` +
+                            ` (boundary ${lastLook.boundaryZ.toFixed(2)})`}
+                    </span>
+                )}
+            </div>
+        );
+    };
+
     // Show loading state
     if (isLoading) {
         return (
@@ -250,6 +319,7 @@ export const ContinuousView: React.FC = () => {
                     <button
                         onClick={handleToggleCollection}
                         className={`collection-toggle ${isCollecting ? 'stop' : 'start'}`}
+                        disabled={Boolean(status?.externalCollector)}
                     >
                         {isCollecting ? '⏹ Stop Collection' : '▶ Start Collection'}
                     </button>
@@ -275,6 +345,7 @@ export const ContinuousView: React.FC = () => {
                             onStartPeriod={handleStartIntention}
                             onEndPeriod={handleEndIntention}
                         />
+                        {renderSequentialDesign()}
                     </div>
 
                     {/* Advanced Intention Controls */}
@@ -328,9 +399,17 @@ export const ContinuousView: React.FC = () => {
                             <ContinuousTimeline
                                 timeRange={selectedTimeRange}
                                 data={timelineData}
-                                intentionPeriods={status?.currentIntentionPeriod ? [status.currentIntentionPeriod] : []}
+                                intentionPeriods={
+                                    status?.currentIntentionPeriod &&
+                                    !intentionPeriods.some(period => period.id === status.currentIntentionPeriod?.id)
+                                        ? [...intentionPeriods, status.currentIntentionPeriod]
+                                        : intentionPeriods
+                                }
                                 significantEvents={significantEvents}
+                                changePoints={changePoints}
+                                changePointMethod={changePointMethod}
                                 onTimeRangeChange={handleTimeRangeChange}
+                                onChangePointMethodChange={setChangePointMethod}
                                 onPeriodSelect={(period) => {
                                     console.log('Selected period:', period);
                                 }}
@@ -431,6 +510,25 @@ export const ContinuousView: React.FC = () => {
                 }
 
                 .status-section h2,
+                .sequential-design {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 6px;
+                    margin-top: 15px;
+                    font-size: 14px;
+                }
+
+                .sequential-design select {
+                    margin-left: 8px;
+                    padding: 4px 8px;
+                    border-radius: 6px;
+                }
+
+                .sequential-details {
+                    font-size: 12px;
+                    color: rgba(255, 255, 255, 0.75);
+                }
+
                 .controls-section h2,
                 .advanced-controls-section h2,
                 .health-section h2 {
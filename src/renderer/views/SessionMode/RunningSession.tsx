@@ -1,9 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { SessionModeState } from '../../../shared/types';
+import { GroupSequentialStatus, PriorDistribution } from '../../../shared/analysis-types';
 import { CumulativeChart } from '../../components/Session/CumulativeChart';
+import { BayesFactorTrace } from '../../components/Session/BayesFactorTrace';
+import { FeedbackDisplay, runningZScore } from '../../components/Session/FeedbackDisplay';
 import { StatisticsPanel } from '../../components/Session/StatisticsPanel';
 import { ProgressIndicator } from '../../components/Session/ProgressIndicator';
 import { SessionControls } from '../../components/Session/SessionControls';
+import { useAudioFeedback } from '../../hooks/useAudioFeedback';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
 
 interface RunningSessionProps {
     sessionState: SessionModeState;
@@ -14,11 +19,14 @@ interface RunningSessionProps {
     canPause: boolean;
     canResume: boolean;
     canStop: boolean;
+    /** Group-sequential design the session counts towards */
+    sequentialStatus?: GroupSequentialStatus | null;
 }
 
 /**
  * Active session interface with real-time data display
  * Minimal, distraction-free layout optimized for concentration
+ * The session's feedback modality decides what the operator sees or hears
  */
 export const RunningSession: React.FC<RunningSessionProps> = ({
     sessionState,
@@ -28,10 +36,32 @@ export const RunningSession: React.FC<RunningSessionProps> = ({
     onEmergencyStop,
     canPause,
     canResume,
-    canStop
+    canStop,
+    sequentialStatus
 }) => {
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [showControls, setShowControls] = useState(true);
+    const [bayesRule, setBayesRule] = useState<{ prior: PriorDistribution; threshold: number } | null>(null);
+
+    const feedback = sessionState.currentSession?.feedback ?? 'chart';
+    const intention = sessionState.currentSession?.intention || 'baseline';
+    const zScore = useMemo(() => runningZScore(sessionState.realTimeData), [sessionState.realTimeData]);
+
+    useAudioFeedback(zScore, feedback === 'audio' && sessionState.sessionStatus === 'running');
+
+    // A session tagged to a pre-registration with a Bayes factor stopping rule traces with its prior and threshold
+    const preregistrationId = sessionState.currentSession?.preregistrationId;
+    useEffect(() => {
+        setBayesRule(null);
+        if (!preregistrationId || !hasElectronAPI()) return;
+
+        getElectronAPI().preregistrations.list()
+            .then(registrations => {
+                const rule = registrations.find(registration => registration.id === preregistrationId)?.plan.stoppingRule;
+                if (rule?.type === 'bayes_factor') setBayesRule({ prior: rule.prior, threshold: rule.threshold });
+            })
+            .catch(() => setBayesRule(null));
+    }, [preregistrationId]);
 
     // Auto-hide controls after 10 seconds of inactivity
     useEffect(() => {
@@ -112,25 +142,55 @@ export const RunningSession: React.FC<RunningSessionProps> = ({
             {/* Main Content Area */}
             <div className="session-content">
                 {/* Primary Chart */}
-                <div className="chart-container">
-                    <CumulativeChart
-                        trials={sessionState.realTimeData}
-                        intention={sessionState.currentSession?.intention || 'baseline'}
-                        height={400}
-                        showGrid={true}
-                        highlightSignificance={true}
-                    />
-                </div>
-
-                {/* Statistics and Progress */}
-                <div className="stats-grid">
-                    <div className="stats-panel">
-                        <StatisticsPanel
-                            statistics={sessionState.statisticalResults}
-                            trialCount={sessionState.realTimeData.length}
-                            intention={sessionState.currentSession?.intention || 'baseline'}
+                {feedback === 'chart' && (
+                    <div className="chart-container">
+                        <CumulativeChart
+                            trials={sessionState.realTimeData}
+                            intention={intention}
+                            height={400}
+                            showGrid={true}
+                            highlightSignificance={true}
+                        />
+                        <BayesFactorTrace
+                            trials={sessionState.realTimeData}
+                            intention={intention}
+                            height={200}
+                            prior={bayesRule?.prior}
+                            threshold={bayesRule?.threshold}
                         />
                     </div>
+                )}
+
+                {feedback !== 'chart' && feedback !== 'none' && (
+                    <FeedbackDisplay
+                        modality={feedback}
+                        zScore={zScore}
+                        trialCount={sessionState.realTimeData.length}
+                        intention={intention}
+                    />
+                )}
+
+                {/* Statistics and Progress - statistics only accompany the chart so other modalities stay single-channel */}
+                <div className={`stats-grid ${feedback === 'chart' ? '' : 'progress-only'}`}>
+                    {feedback === 'chart' && (
+                        <div className="stats-panel">
+                            <StatisticsPanel
+                                statistics={sessionState.statisticalResults}
+                                trialCount={sessionState.realTimeData.length}
+                                intention={intention}
+                            />
+                            {sequentialStatus && (
+                                <p className="sequential-note">
+                                    Counts towards &quot;{sequentialStatus.design.plan.title}&quot;:
+                                    {sequentialStatus.nextLookAt !== null
+                                        ? ` next planned look at ${sequentialStatus.nextLookAt} design trials` +
+                                            ` (${sequentialStatus.trialsCollected} before this session).`
+                                        : ' no planned looks remain.'}
+                                    {' '}The running p-value is not a test of the design.
+                                </p>
+                            )}
+                        </div>
+                    )}
 
                     <div className="progress-panel">
                         <ProgressIndicator
@@ -246,6 +306,11 @@ export const RunningSession: React.FC<RunningSessionProps> = ({
                     max-width: 1200px;
                 }
 
+                .stats-grid.progress-only {
+                    grid-template-columns: 1fr;
+                    max-width: 600px;
+                }
+
                 .stats-panel,
                 .progress-panel {
                     background: rgba(255, 255, 255, 0.05);
@@ -255,6 +320,12 @@ export const RunningSession: React.FC<RunningSessionProps> = ({
                     border: 1px solid rgba(255, 255, 255, 0.1);
                 }
 
+                .sequential-note {
+                    margin: 12px 0 0;
+                    font-size: 13px;
+                    color: rgba(255, 255, 255, 0.7);
+                }
+
                 .controls-overlay {
                     position: absolute;
                     bottom: 20px;
@@ -15,6 +15,9 @@ export const SessionModeView: React.FC = () => {
     const {
         sessionState,
         alerts,
+        activeSeries,
+        seriesAnalysis,
+        sequentialStatus,
         startSession,
         pauseSession,
         resumeSession,
@@ -83,6 +86,7 @@ export const SessionModeView: React.FC = () => {
                         canPause={canPause}
                         canResume={canResume}
                         canStop={canStop}
+                        sequentialStatus={sequentialStatus}
                     />
                 );
 
@@ -96,6 +100,8 @@ export const SessionModeView: React.FC = () => {
                         cumulativeData={sessionState.cumulativeData}
                         onNewSession={handleResetToSetup}
                         onViewHistory={() => {}} // TODO: Implement history view
+                        series={activeSeries}
+                        seriesAnalysis={seriesAnalysis}
                     />
                 );
 
@@ -1,11 +1,22 @@
 import React, { useState, useMemo } from 'react';
-import { ExperimentSession, RNGTrial } from '../../../shared/types';
-import { NetworkVarianceResult } from '../../../shared/analysis-types';
+import { ExperimentSession, ExportFormat, RNGTrial, SessionSeries } from '../../../shared/types';
+import { NetworkVarianceResult, SeriesAnalysis } from '../../../shared/analysis-types';
 import { CumulativeChart } from '../../components/Session/CumulativeChart';
 import { StatisticsPanel } from '../../components/Session/StatisticsPanel';
 import Button from '../../components/Common/Button';
 import Card from '../../components/Common/Card';
 import Badge from '../../components/Common/Badge';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+    { value: 'json', label: 'JSON (Complete Data)' },
+    { value: 'csv', label: 'CSV (Spreadsheet)' },
+    { value: 'xlsx', label: 'Excel Workbook' },
+    { value: 'r', label: 'R (CSV + Loader Script)' },
+    { value: 'matlab', label: 'MATLAB (.mat)' },
+    { value: 'spss', label: 'SPSS (.sav)' },
+    { value: 'datapackage', label: 'Data Package (.zip)' }
+];
 
 interface SessionResultsProps {
     session: ExperimentSession;
@@ -14,6 +25,8 @@ interface SessionResultsProps {
     cumulativeData: Array<{ trial: number; cumulative: number }>;
     onNewSession: () => void;
     onViewHistory: () => void;
+    series?: SessionSeries | null;
+    seriesAnalysis?: SeriesAnalysis | null;
 }
 
 /**
@@ -26,9 +39,13 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
     statistics,
     cumulativeData,
     onNewSession,
-    onViewHistory
+    onViewHistory,
+    series,
+    seriesAnalysis
 }) => {
-    const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'xlsx'>('json');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportMessage, setExportMessage] = useState<string | null>(null);
 
     // Calculate session summary metrics
     const sessionSummary = useMemo(() => {
@@ -58,9 +75,24 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
         };
     }, [session, trials, statistics]);
 
-    const handleExport = () => {
-        // TODO: Implement actual export functionality
-        console.log(`Exporting session data as ${exportFormat}`);
+    /**
+     * Export this session's data, trials and statistics through the main process
+     */
+    const handleExport = async () => {
+        if (!hasElectronAPI()) {
+            setExportMessage('Export is only available when the app runs through Electron');
+            return;
+        }
+
+        setIsExporting(true);
+        try {
+            const result = await getElectronAPI().data.exportData({ format: exportFormat, sessionIds: [session.id] });
+            setExportMessage(`Saved to ${result.filePath}`);
+        } catch (error) {
+            setExportMessage(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsExporting(false);
+        }
     };
 
     const getSignificanceBadge = () => {
@@ -180,6 +212,53 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
                 </Card>
             </div>
 
+            {/* Tri-Polar Series */}
+            {series && seriesAnalysis && (
+                <Card title={`Tri-Polar Series: ${series.name}`} className="series-card">
+                    <div className="summary-metrics">
+                        <div className="metric">
+                            <span className="metric-label">Runs Completed:</span>
+                            <span className="metric-value">
+                                {seriesAnalysis.runsCompleted} of {seriesAnalysis.runsPlanned}
+                                {' '}over {seriesAnalysis.daysActive} day{seriesAnalysis.daysActive === 1 ? '' : 's'}
+                            </span>
+                        </div>
+                        <div className="metric">
+                            <span className="metric-label">HI − LO Separation:</span>
+                            <span className="metric-value">
+                                {seriesAnalysis.highLowSeparation.toFixed(4)} per trial
+                                {' '}(z = {seriesAnalysis.highLowZ.toFixed(3)}, p = {seriesAnalysis.highLowPValue.toFixed(4)})
+                            </span>
+                        </div>
+                    </div>
+                    <table className="series-table">
+                        <thead>
+                            <tr>
+                                <th>Direction</th>
+                                <th>Runs</th>
+                                <th>Trials</th>
+                                <th>Mean Deviation</th>
+                                <th>z</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(['high', 'low', 'baseline'] as const).map(intention => {
+                                const summary = seriesAnalysis.byIntention[intention];
+                                return (
+                                    <tr key={intention}>
+                                        <td>{intention.toUpperCase()}</td>
+                                        <td>{summary.sessionCount}</td>
+                                        <td>{summary.trialCount.toLocaleString()}</td>
+                                        <td>{summary.meanDeviation.toFixed(4)}</td>
+                                        <td>{summary.zScore.toFixed(3)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </Card>
+            )}
+
             {/* Export Options */}
             <Card title="Export Results" className="export-card">
                 <div className="export-controls">
@@ -187,17 +266,18 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
                         <label>Export Format:</label>
                         <select
                             value={exportFormat}
-                            onChange={(e) => setExportFormat(e.target.value as 'json' | 'csv' | 'xlsx')}
+                            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
                         >
-                            <option value="json">JSON (Complete Data)</option>
-                            <option value="csv">CSV (Spreadsheet)</option>
-                            <option value="xlsx">Excel (Formatted)</option>
+                            {EXPORT_FORMATS.map(format => (
+                                <option key={format.value} value={format.value}>{format.label}</option>
+                            ))}
                         </select>
                     </div>
-                    <Button variant="secondary" onClick={handleExport}>
+                    <Button variant="secondary" onClick={handleExport} loading={isExporting}>
                         Export Session Data
                     </Button>
                 </div>
+                {exportMessage && <p className="export-message">{exportMessage}</p>}
             </Card>
 
             {/* Action Buttons */}
@@ -242,6 +322,28 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
                     margin-bottom: 30px;
                 }
 
+                .series-card {
+                    margin-bottom: 30px;
+                }
+
+                .series-table {
+                    width: 100%;
+                    margin-top: 20px;
+                    border-collapse: collapse;
+                }
+
+                .series-table th,
+                .series-table td {
+                    padding: 8px 12px;
+                    border-bottom: 1px solid rgba(255, 255, 255, 0.2);
+                    text-align: right;
+                }
+
+                .series-table th:first-child,
+                .series-table td:first-child {
+                    text-align: left;
+                }
+
                 .summary-card, .statistics-card, .chart-card, .interpretation-card {
                     background: rgba(255, 255, 255, 0.1);
                     backdrop-filter: blur(10px);
@@ -324,6 +426,13 @@ export const SessionResults: React.FC<SessionResultsProps> = ({
                     min-width: 180px;
                 }
 
+                .export-message {
+                    margin: 12px 0 0;
+                    font-size: 14px;
+                    color: rgba(255, 255, 255, 0.8);
+                    word-break: break-all;
+                }
+
                 .action-buttons {
                     display: flex;
                     gap: 20px;
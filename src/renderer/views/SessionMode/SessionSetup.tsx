@@ -1,6 +1,18 @@
-import React, { useState } from 'react';
-import { SessionConfig, IntentionType } from '../../../shared/types';
+import React, { useState, useEffect } from 'react';
+import { SessionConfig, IntentionType, SessionSeries, FeedbackModality } from '../../../shared/types';
+import { GroupSequentialDesign } from '../../../shared/analysis-types';
+import { getElectronAPI, hasElectronAPI } from '../../utils/electron-api';
 import { IntentionSelector } from '../../components/Session/IntentionSelector';
+import { SeriesSelector } from '../../components/Session/SeriesSelector';
+
+const FEEDBACK_OPTIONS: { value: FeedbackModality; label: string }[] = [
+    { value: 'chart', label: 'Cumulative chart with statistics' },
+    { value: 'audio', label: 'Audio tone (pitch follows the running score)' },
+    { value: 'pendulum', label: 'Animated pendulum' },
+    { value: 'fountain', label: 'Animated fountain' },
+    { value: 'counter', label: 'Numeric counter' },
+    { value: 'none', label: 'No feedback (blind)' }
+];
 
 interface SessionSetupProps {
     onStartSession: (config: SessionConfig) => Promise<void>;
@@ -9,7 +21,8 @@ interface SessionSetupProps {
 
 /**
  * Session setup and configuration component
- * Allows users to configure intention, trial count, and other session parameters
+ * Allows users to configure intention, trial count, and other session parameters,
+ * or to perform the next run of a tri-polar series
  */
 export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLoading }) => {
     const [config, setConfig] = useState<SessionConfig>({
@@ -17,14 +30,30 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
         targetTrials: 300,
         notes: '',
         participantId: '',
+        feedback: 'chart',
         meditationDuration: 2,
         fullScreen: false,
         blockNotifications: true
     });
 
+    const [protocol, setProtocol] = useState<'single' | 'series'>('single');
+    const [series, setSeries] = useState<SessionSeries | null>(null);
     const [showAdvanced, setShowAdvanced] = useState(false);
     const [validationErrors, setValidationErrors] = useState<string[]>([]);
 
+    // Active group-sequential designs that collect session data
+    const [designs, setDesigns] = useState<GroupSequentialDesign[]>([]);
+
+    useEffect(() => {
+        if (!hasElectronAPI()) return;
+
+        getElectronAPI().sequential.list()
+            .then(statuses => setDesigns(statuses
+                .map(status => status.design)
+                .filter(design => design.status === 'active' && design.plan.source === 'session')))
+            .catch(error => console.error('Failed to load group-sequential designs:', error));
+    }, []);
+
     /**
      * Validate session configuration
      */
@@ -40,6 +69,13 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
         if (config.meditationDuration < 0 || config.meditationDuration > 10) {
             errors.push('Meditation duration must be between 0-10 minutes');
         }
+        if (protocol === 'series' && !config.seriesId) {
+            errors.push('Select or create a series to run');
+        }
+        const design = designs.find(candidate => candidate.id === config.sequentialDesignId);
+        if (design && !design.plan.intentions.includes(config.intention as 'high' | 'low')) {
+            errors.push(`Design "${design.plan.title}" only tests ${design.plan.intentions.join(' and ')} intention`);
+        }
 
         return errors;
     };
@@ -50,7 +86,18 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        const errors = validateConfig(config);
+        // The series decides the intention and trial count of its next run
+        const nextRun = series?.runs.find(run => run.status === 'pending' || run.status === 'stopped');
+        const sessionConfig: SessionConfig = protocol === 'series'
+            ? {
+                ...config,
+                seriesId: nextRun ? series!.id : undefined,
+                intention: nextRun?.intention ?? config.intention,
+                targetTrials: series?.trialsPerRun ?? config.targetTrials
+            }
+            : { ...config, seriesId: undefined };
+
+        const errors = validateConfig(sessionConfig);
         setValidationErrors(errors);
 
         if (errors.length > 0) {
@@ -58,7 +105,7 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
         }
 
         try {
-            await onStartSession(config);
+            await onStartSession(sessionConfig);
         } catch (error) {
             setValidationErrors(['Failed to start session. Please try again.']);
         }
@@ -88,44 +135,93 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
                 </p>
 
                 <form onSubmit={handleSubmit} className="setup-form">
-                    {/* Intention Selection */}
+                    {/* Protocol */}
                     <div className="form-section">
-                        <h3>Select Your Intention</h3>
-                        <IntentionSelector
-                            selectedIntention={config.intention}
-                            onIntentionChange={handleIntentionChange}
-                        />
+                        <h3>Protocol</h3>
+                        <div className="protocol-toggle">
+                            <button
+                                type="button"
+                                className={protocol === 'single' ? 'active' : ''}
+                                onClick={() => setProtocol('single')}
+                            >
+                                Single Session
+                            </button>
+                            <button
+                                type="button"
+                                className={protocol === 'series' ? 'active' : ''}
+                                onClick={() => setProtocol('series')}
+                            >
+                                Tri-Polar Series
+                            </button>
+                        </div>
+                        {protocol === 'series' && (
+                            <SeriesSelector
+                                selectedSeries={series}
+                                onSeriesChange={setSeries}
+                                participantId={config.participantId}
+                            />
+                        )}
                     </div>
 
+                    {/* Intention Selection */}
+                    {protocol === 'single' && (
+                        <div className="form-section">
+                            <h3>Select Your Intention</h3>
+                            <IntentionSelector
+                                selectedIntention={config.intention}
+                                onIntentionChange={handleIntentionChange}
+                            />
+                        </div>
+                    )}
+
                     {/* Trial Count */}
+                    {protocol === 'single' && (
+                        <div className="form-section">
+                            <label className="form-label">
+                                Target Trial Count
+                                <span className="label-info">(Recommended: 300 for statistical power)</span>
+                            </label>
+                            <div className="trial-count-controls">
+                                <input
+                                    type="range"
+                                    min="100"
+                                    max="3000"
+                                    step="50"
+                                    value={config.targetTrials}
+                                    onChange={(e) => handleTrialCountChange(parseInt(e.target.value))}
+                                    className="trial-slider"
+                                />
+                                <input
+                                    type="number"
+                                    min="100"
+                                    max="3000"
+                                    step="50"
+                                    value={config.targetTrials}
+                                    onChange={(e) => handleTrialCountChange(parseInt(e.target.value))}
+                                    className="trial-input"
+                                />
+                            </div>
+                            <div className="trial-info">
+                                <span>Estimated Duration: {Math.round(config.targetTrials / 60)} minutes</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Feedback Modality */}
                     <div className="form-section">
                         <label className="form-label">
-                            Target Trial Count
-                            <span className="label-info">(Recommended: 300 for statistical power)</span>
+                            Real-Time Feedback
+                            <span className="label-info">(Recorded with the session for comparison across feedback types)</span>
                         </label>
-                        <div className="trial-count-controls">
-                            <input
-                                type="range"
-                                min="100"
-                                max="3000"
-                                step="50"
-                                value={config.targetTrials}
-                                onChange={(e) => handleTrialCountChange(parseInt(e.target.value))}
-                                className="trial-slider"
-                            />
-                            <input
-                                type="number"
-                                min="100"
-                                max="3000"
-                                step="50"
-                                value={config.targetTrials}
-                                onChange={(e) => handleTrialCountChange(parseInt(e.target.value))}
-                                className="trial-input"
-                            />
-                        </div>
-                        <div className="trial-info">
-                            <span>Estimated Duration: {Math.round(config.targetTrials / 60)} minutes</span>
-                        </div>
+                        <select
+                            value={config.feedback}
+                            onChange={(e) => setConfig(prev => ({ ...prev, feedback: e.target.value as FeedbackModality }))}
+                            className="feedback-select"
+                        >
+                            {FEEDBACK_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
                     </div>
 
                     {/* Pre-Session Meditation */}
@@ -206,6 +302,30 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
                                         className="participant-input"
                                     />
                                 </div>
+
+                                <div className="participant-id">
+                                    <label className="form-label">
+                                        Group-Sequential Design (Optional)
+                                        <span className="label-info">
+                                            Significance is then judged only at the design&apos;s planned looks
+                                        </span>
+                                    </label>
+                                    <select
+                                        value={config.sequentialDesignId ?? ''}
+                                        onChange={(e) => setConfig(prev => ({
+                                            ...prev,
+                                            sequentialDesignId: e.target.value || undefined
+                                        }))}
+                                        className="participant-input"
+                                    >
+                                        <option value="">None</option>
+                                        {designs.map(design => (
+                                            <option key={design.id} value={design.id}>
+                                                {design.plan.title} ({design.plan.maxTrials} trials)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
                             </div>
                         )}
                     </div>
@@ -233,6 +353,8 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
                                     <span className="loading-spinner"></span>
                                     Starting Session...
                                 </>
+                            ) : protocol === 'series' ? (
+                                'Start Next Series Run'
                             ) : (
                                 'Start Intention Session'
                             )}
@@ -305,6 +427,27 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
                     color: #666;
                 }
 
+                .protocol-toggle {
+                    display: flex;
+                    gap: 10px;
+                }
+
+                .protocol-toggle button {
+                    flex: 1;
+                    padding: 10px;
+                    border: 1px solid #ddd;
+                    border-radius: 8px;
+                    background: white;
+                    color: #2c3e50;
+                    cursor: pointer;
+                }
+
+                .protocol-toggle button.active {
+                    border-color: #4CAF50;
+                    background: #e8f5e9;
+                    font-weight: 600;
+                }
+
                 .trial-count-controls {
                     display: flex;
                     gap: 15px;
@@ -376,6 +519,13 @@ export const SessionSetup: React.FC<SessionSetupProps> = ({ onStartSession, isLo
                     min-width: 50px;
                 }
 
+                .feedback-select {
+                    padding: 10px;
+                    border: 1px solid #ddd;
+                    border-radius: 6px;
+                    font-size: 14px;
+                }
+
                 .notes-textarea {
                     padding: 12px;
                     border: 1px solid #ddd;
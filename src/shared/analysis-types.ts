@@ -3,6 +3,8 @@
  * Compatible with PEAR laboratory methodology and Global Consciousness Project standards
  */
 
+import type { ExperimentSession as CoreExperimentSession, FeedbackModality, ExportFormat } from './types';
+
 // Re-export core types that are used in analysis
 export type { RNGTrial, IntentionType } from './types';
 
@@ -28,6 +30,36 @@ export interface DeviceVarianceResult {
     deviceMean?: number;
 }
 
+export interface NetworkSecond {
+    timestamp: Date;             // Start of the second (UTC)
+    deviceCount: number;         // Devices that reported this second
+    stoufferZ: number;           // Σz / √N across the devices
+    netvar: number;              // Stouffer Z²
+    deviceVariance: number;      // Σz² across the devices
+}
+
+export interface DeviceCorrelation {
+    deviceA: string;
+    deviceB: string;
+    correlation: number;         // Pearson r of the per-second Z of the two devices
+    commonSeconds: number;
+}
+
+export interface MultiDeviceNetworkResult {
+    deviceIds: string[];
+    seconds: NetworkSecond[];
+    netvar: number;              // Σ Stouffer Z² over all seconds (chi-square, df = seconds)
+    netvarProbability: number;
+    netvarZ: number;             // Equivalent normal Z of the netvar chi-square
+    deviceVariance: number;      // Σ z² over all device-seconds (chi-square, df = device-seconds)
+    deviceVarianceDegreesOfFreedom: number;
+    deviceVarianceProbability: number;
+    meanCorrelation: number;     // Mean pairwise inter-device correlation
+    correlations: DeviceCorrelation[];
+    cumulativeDeviation: number[]; // Running Σ(Z² - 1), the GCP event plot
+    significance: 'none' | 'marginal' | 'significant' | 'highly_significant';
+}
+
 export interface CumulativeResult {
     points: CumulativePoint[];   // For plotting cumulative deviation
     finalDeviation: number;      // End cumulative deviation
@@ -117,10 +149,13 @@ export interface TrendResult {
 }
 
 export interface ChangePoint {
-    index: number;
-    timestamp: Date;
+    index: number;               // First sample of the new segment
+    timestamp: Date;             // Start of that sample
     confidence: number;          // Confidence in change point
-    magnitudeChange: number;     // Size of change
+    magnitudeChange: number;     // Size of change: segment mean after minus before
+    method: ChangePointMethod;
+    meanBefore: number;
+    meanAfter: number;
 }
 
 export interface QualityThresholds {
@@ -470,33 +505,162 @@ export interface MetaAnalysisProps {
     forestPlot: boolean;
 }
 
+/**
+ * One session as a study: per-trial effect size z/√N in the intended direction
+ */
 export interface EffectSizeData {
     sessionId: string;
+    startTime: Date;
+    intention: 'high' | 'low';
+    directedZ: number;
     effectSize: number;
     standardError: number;
     confidenceInterval: [number, number];
     weight: number;
-    sampleSize: number;
+    sampleSize: number;    // Trials
 }
 
-export interface MetaAnalysisResult {
+/**
+ * Fixed effect, or random effects with the DerSimonian-Laird or REML estimate of tau²
+ */
+export type MetaAnalysisMethod = 'fixed' | 'dersimonian-laird' | 'reml';
+
+export interface MetaAnalysisOptions {
+    method: MetaAnalysisMethod;
+    hartungKnapp?: boolean;       // t-based inference on k - 1 df (random effects only)
+    confidenceLevel?: number;     // Default 0.95
+}
+
+/**
+ * Pooled estimate over a set of sessions
+ */
+export interface MetaAnalysisEstimate {
+    studyCount: number;
     pooledEffectSize: number;
     pooledStandardError: number;
     pooledConfidenceInterval: [number, number];
+    tau2: number;
+    testStatistic: number;                // z, or t under Hartung-Knapp
+    degreesOfFreedom: number | null;      // Null for the z test
+    pValue: number;                       // Two-tailed
+}
+
+export interface LeaveOneOutResult extends MetaAnalysisEstimate {
+    omittedSessionId: string;
+    heterogeneityI2: number;
+}
+
+export interface CumulativeMetaResult extends MetaAnalysisEstimate {
+    sessionId: string;                    // Session added at this step
+    startTime: Date;
+}
+
+export interface MetaAnalysisResult extends MetaAnalysisEstimate {
+    method: MetaAnalysisMethod;
+    hartungKnapp: boolean;
+    confidenceLevel: number;
+    totalTrials: number;
     heterogeneityQ: number;
     heterogeneityI2: number;
     heterogeneityPValue: number;
-    individualEffects: EffectSizeData[];
+    individualEffects: EffectSizeData[];  // Oldest first, weighted by the chosen model
     forestPlotData: ForestPlotData;
+    leaveOneOut: LeaveOneOutResult[];
+    cumulative: CumulativeMetaResult[];
 }
 
 export interface ForestPlotData {
     studies: EffectSizeData[];
-    pooledResult: EffectSizeData;
+    pooledResult: MetaAnalysisEstimate;
     xAxisRange: [number, number];
     significanceLevel: number;
 }
 
+// Publication Bias Types
+export interface PublicationBiasOptions extends MetaAnalysisOptions {
+    trivialEffectSize?: number;   // Orwin's criterion, per-trial effect size
+}
+
+export interface EggerTest {
+    intercept: number;            // Asymmetry: standardized effect at zero precision
+    standardError: number;
+    slope: number;                // Precision-weighted effect estimate
+    t: number;
+    degreesOfFreedom: number;
+    pValue: number;
+}
+
+export interface BeggTest {
+    kendallTau: number;           // Rank correlation of standardized effects with variances
+    z: number;
+    pValue: number;
+}
+
+export interface TrimAndFillResult {
+    side: 'left' | 'right';       // Side of the funnel where sessions are missing
+    missingStudies: number;       // L0 estimator
+    imputed: Array<{ effectSize: number; standardError: number }>;
+    adjusted: MetaAnalysisEstimate;
+}
+
+export interface PCurveResult {
+    significantCount: number;     // Sessions with p < .05 in the intended direction
+    bins: number[];               // Counts for p in (0, .01], (.01, .02], ... (.04, .05)
+    rightSkewZ: number;           // Stouffer Z of the pp-values against a flat curve
+    rightSkewPValue: number;
+    flatnessZ: number;            // Against the curve expected at 33% power
+    flatnessPValue: number;
+}
+
+export interface FailSafeN {
+    rosenthal: number;            // Null sessions needed to bring the combined z under 1.645
+    orwin: number;                // Null sessions needed to bring the mean effect under the criterion
+    trivialEffectSize: number;
+}
+
+export interface StoppingGroupSummary extends MetaAnalysisEstimate {
+    trialCount: number;
+}
+
+/**
+ * Completed sessions against sessions stopped early, which would show up if stopping
+ * depended on how a session was going
+ */
+export interface OptionalStoppingComparison {
+    completed: StoppingGroupSummary | null;
+    stopped: StoppingGroupSummary | null;
+    stoppedFraction: number;      // Share of sessions stopped early
+    difference: number;           // Completed minus stopped pooled effect
+    differenceZ: number;
+    pValue: number;
+    allSessionsBias: number;      // Pooled effect of all sessions minus completed only
+}
+
+export interface FunnelPlotPoint {
+    sessionId: string | null;     // Null for sessions imputed by trim-and-fill
+    effectSize: number;
+    standardError: number;
+    status?: 'completed' | 'stopped';
+}
+
+export interface FunnelPlotData {
+    points: FunnelPlotPoint[];
+    pooledEffectSize: number;
+    adjustedEffectSize: number;
+    maxStandardError: number;
+}
+
+export interface PublicationBiasResult {
+    studyCount: number;
+    egger: EggerTest | null;      // Null below three sessions
+    begg: BeggTest | null;
+    trimAndFill: TrimAndFillResult;
+    pCurve: PCurveResult;
+    failSafeN: FailSafeN;
+    optionalStopping: OptionalStoppingComparison;
+    funnel: FunnelPlotData;
+}
+
 // Advanced Filtering Types
 export interface TemporalFilter {
     dateRange?: TimeRange;
@@ -625,7 +789,7 @@ export interface ReportConfig {
 
 // Export Types
 export interface ExportOptions {
-    format: 'csv' | 'json' | 'xlsx' | 'matlab' | 'r' | 'spss';
+    format: ExportFormat;
     dataLevel: 'raw' | 'processed' | 'summary';
     includeMetadata: boolean;
     anonymize: boolean;
@@ -649,6 +813,12 @@ export interface DataPackageMetadata {
     methodology: string;
 }
 
+/**
+ * Publication details supplied when publishing a data package; the rest is filled in at export time
+ */
+export type DataPackageDetails = Pick<DataPackageMetadata, 'title' | 'creator'>
+    & Partial<Pick<DataPackageMetadata, 'description' | 'version' | 'keywords' | 'methodology'>>;
+
 export interface Dataset {
     name: string;
     description: string;
@@ -744,32 +914,159 @@ export interface PowerCalculation {
     testType: string;
 }
 
+// Pre-Registration Types
+export type PreRegisteredTest =
+    | 'directed_z'     // Trials pooled in the intended direction (high +, low -), one-tailed
+    | 'high_low_z'     // High-minus-low mean separation, one-tailed
+    | 'mean_shift_z';  // Mean trial value against chance, two-tailed
+
+export type StoppingRule =
+    | { type: 'fixed_trials' }                        // Stop at the planned number of trials
+    | { type: 'fixed_sessions'; sessions: number }    // Stop after a set number of sessions
+    | { type: 'bayes_factor'; threshold: number; prior: PriorDistribution };  // Stop once BF10 leaves [1/threshold, threshold], or at the planned trials
+
+export interface PreRegistrationPlan {
+    title: string;
+    hypothesis: ResearchHypothesis;
+    primaryTest: PreRegisteredTest;
+    alpha: number;
+    tails: 1 | 2;
+    intentions: Array<'high' | 'low' | 'baseline'>;
+    participantIds: string[];   // Empty = any participant
+    plannedTrials: number;
+    stoppingRule: StoppingRule;
+}
+
+export interface PreRegistrationDesign {
+    title: string;
+    question: string;
+    prediction: string;
+    rationale: string;
+    primaryTest: PreRegisteredTest;
+    effectSize: number;         // Smallest per-trial effect worth detecting
+    alpha?: number;             // Default 0.05
+    power?: number;             // Default 0.8
+    intentions: Array<'high' | 'low' | 'baseline'>;
+    participantIds?: string[];
+    stoppingRule?: StoppingRule;
+}
+
+export interface PreRegistration {
+    id: string;
+    plan: PreRegistrationPlan;
+    status: 'draft' | 'locked' | 'completed';
+    planHash: string | null;    // SHA-256 of the canonical plan and lock time
+    lockedAt: Date | null;
+    completedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface PreRegisteredResult {
+    test: PreRegisteredTest;
+    statistic: number;          // z
+    pValue: number;
+    effectSize: number;         // Per-trial standardized effect
+    significant: boolean;
+    trialsAnalyzed: number;
+    bayesFactor10?: number;     // Under a Bayes factor stopping rule
+}
+
+export interface PreRegistrationReport {
+    registrationId: string;
+    title: string;
+    planHash: string | null;
+    lockedAt: Date | null;
+    hashVerified: boolean;
+    planFollowed: boolean;
+    deviations: string[];
+    sessionsAnalyzed: number;
+    sessionsExcluded: number;
+    trialsCollected: number;
+    trialsAnalyzed: number;
+    result: PreRegisteredResult | null;
+    conclusion: string;
+    generatedAt: Date;
+}
+
 // Bayesian Analysis Types
+/**
+ * Prior on the per-trial standardized effect size δ under H1. The Cauchy is the default
+ * JZS prior; t and normal priors carry informed location and width
+ */
+export type PriorDistribution =
+    | { type: 'cauchy'; location: number; scale: number }
+    | { type: 't'; location: number; scale: number; df: number }
+    | { type: 'normal'; mean: number; standardDeviation: number };
+
+/** Sign of δ under H1, in the intended direction for high and low sessions */
+export type BayesAlternative = 'two-sided' | 'greater' | 'less';
+
+/** Directed z over a number of trials; z ~ N(δ√n, 1) with the trial variance known */
+export interface BayesEvidence {
+    trialCount: number;
+    z: number;
+}
+
+export interface BayesianOptions {
+    prior: PriorDistribution;
+    alternative?: BayesAlternative;   // Default 'two-sided'
+    credibleLevel?: number;           // Default 0.95
+}
+
+export interface BayesFactorResult {
+    bf10: number;
+    bf01: number;
+    logBf10: number;
+    favors: 'alternative' | 'null';
+    interpretation: 'extreme_evidence' | 'very_strong' | 'strong' | 'moderate' | 'weak' | 'inconclusive';
+    hypothesis: string;
+}
+
+export interface PosteriorDensityPoint {
+    effectSize: number;
+    prior: number;
+    posterior: number;
+}
+
+export interface PriorRobustnessPoint {
+    scale: number;                    // Prior scale, or standard deviation for a normal prior
+    bf10: number;
+}
+
 export interface BayesianResult {
+    prior: PriorDistribution;
+    alternative: BayesAlternative;
+    evidence: BayesEvidence;
+    bayesFactor: BayesFactorResult;
     posteriorMean: number;
     posteriorSD: number;
     credibleInterval: [number, number];
-    bayesFactor: number;
-    priorDistribution: PriorDistribution;
-    posteriorDistribution: PosteriorDistribution;
+    credibleLevel: number;
+    density: PosteriorDensityPoint[]; // Prior and posterior of δ for plotting
+    robustness: PriorRobustnessPoint[];
 }
 
-export interface PriorDistribution {
-    type: 'normal' | 'uniform' | 'beta' | 'gamma';
-    parameters: Record<string, number>;
+/** Evidence thresholds for stopping on the Bayes factor */
+export interface BayesStoppingRule {
+    threshold: number;                // Stop for H1 at BF10 >= threshold, for H0 at BF10 <= 1 / threshold
+    minTrials?: number;
+    maxTrials?: number;
 }
 
-export interface PosteriorDistribution {
-    type: 'normal' | 'beta' | 'gamma';
-    parameters: Record<string, number>;
-    samples?: number[];
+export interface SequentialBayesOptions extends BayesianOptions {
+    stoppingRule?: BayesStoppingRule;
+    interval?: number;                // Trials between looks; default keeps the trace to 500 looks
 }
 
-export interface BayesFactorResult {
+export interface SequentialBayesPoint {
+    trialCount: number;
     bf10: number;
-    bf01: number;
-    interpretation: 'extreme_evidence' | 'very_strong' | 'strong' | 'moderate' | 'weak' | 'inconclusive';
-    hypothesis: string;
+}
+
+export interface SequentialBayesTrace {
+    points: SequentialBayesPoint[];
+    decision: 'alternative' | 'null' | 'max_trials' | 'continue';
+    decidedAt: number | null;         // Trial count of the first point that met the rule
 }
 
 // Sequential Analysis Types
@@ -784,6 +1081,130 @@ export interface SequentialAnalysisResult {
     nextAnalysisAt?: number;
 }
 
+// Group-Sequential Design Types
+export type AlphaSpendingFunction = 'obrien_fleming' | 'pocock';
+
+/** Where a design's trials come from: tagged sessions or tagged continuous intention periods */
+export type SequentialDataSource = 'session' | 'continuous';
+
+export type SequentialLookTrigger = 'session' | 'continuous' | 'analyst';
+
+export interface GroupSequentialDesignInput {
+    title: string;
+    spending: AlphaSpendingFunction;
+    alpha?: number;                   // Overall type I error (default 0.05)
+    sides?: 1 | 2;                    // 1 = intended direction only (default), 2 = either direction
+    maxTrials: number;
+    looks: number | number[];         // Number of equally spaced looks, or the trial count of each look
+    source: SequentialDataSource;
+    intentions?: Array<'high' | 'low'>;
+}
+
+export interface GroupSequentialPlan {
+    title: string;
+    spending: AlphaSpendingFunction;
+    alpha: number;
+    sides: 1 | 2;
+    maxTrials: number;
+    plannedLooks: number[];           // Trial counts of the planned looks; the last is maxTrials
+    source: SequentialDataSource;
+    intentions: Array<'high' | 'low'>;
+}
+
+export interface GroupSequentialDesign {
+    id: string;
+    plan: GroupSequentialPlan;
+    status: 'active' | 'rejected_null' | 'retained_null';
+    createdAt: Date;
+    closedAt: Date | null;
+}
+
+export interface SequentialBoundary {
+    lookNumber: number;
+    trialCount: number;
+    informationFraction: number;      // Trials over maxTrials, capped at 1
+    cumulativeAlpha: number;          // Alpha spent up to and including this look
+    alphaSpent: number;               // Alpha spent at this look
+    boundaryZ: number;                // Directed z (or |z| when two-sided) that rejects the null
+    nominalPValue: number;            // Fixed-sample p-value of the boundary
+}
+
+export interface SequentialLook extends SequentialBoundary {
+    id: string;
+    designId: string;
+    z: number;
+    crossed: boolean;
+    planned: boolean;                 // False for an extra look the plan did not schedule
+    trigger: SequentialLookTrigger;
+    performedAt: Date;
+}
+
+/** Trial totals of one intention within a design */
+export interface SequentialTotals {
+    intention: 'high' | 'low';
+    trialCount: number;
+    trialSum: number;
+}
+
+export interface GroupSequentialStatus {
+    design: GroupSequentialDesign;
+    looks: SequentialLook[];
+    upcoming: SequentialBoundary[];   // Remaining planned looks, given the looks already taken
+    trialsCollected: number;
+    nextLookAt: number | null;
+}
+
+// Change-Point Detection Types
+export type ChangePointMethod = 'cusum' | 'pelt' | 'bocpd';
+
+/** What a change may move: the mean alone, or the mean and the variance */
+export type ChangePointModel = 'mean' | 'meanvar';
+
+/** One point of an analyzed series: the mean of one or more consecutive trials */
+export interface ChangePointSample {
+    startTime: Date;
+    endTime: Date;
+    value: number;
+    trialCount: number;
+}
+
+export interface ChangePointOptions {
+    model?: ChangePointModel;         // PELT and BOCPD (default 'mean'); CUSUM watches the mean
+    expectedMean?: number;            // Default 100
+    trialVariance?: number;           // Default 50, the variance of a sum of 200 fair bits
+    penalty?: number;                 // PELT cost of a change point; default (k + 1) ln n for k changed parameters
+    minSegmentLength?: number;        // PELT, in samples; default 2, or 10 when the variance changes
+    referenceValue?: number;          // CUSUM slack k in standard errors (default 0.5)
+    controlLimit?: number;            // CUSUM decision interval h in standard errors (default 8)
+    expectedRunLength?: number;       // BOCPD samples between changes, the inverse hazard (default 250)
+    priorStandardDeviation?: number;  // BOCPD prior spread of a segment mean (default 1)
+    threshold?: number;               // BOCPD probability of a recent change that reports it (default 0.95)
+    window?: number;                  // BOCPD samples a change counts as recent for (default run length / 5)
+    maxRunLength?: number;            // BOCPD run lengths tracked before the longest merge (default 4 × run length)
+}
+
+export interface ChangePointSegment {
+    startIndex: number;
+    endIndex: number;                 // Exclusive
+    startTime: Date;
+    endTime: Date;
+    trialCount: number;
+    mean: number;
+    standardDeviation: number;        // Per trial, estimated from the sample means
+    zScore: number;                   // Segment mean against the expected mean
+}
+
+export interface ChangePointAnalysis {
+    method: ChangePointMethod;
+    model: ChangePointModel;
+    changePoints: ChangePoint[];
+    segments: ChangePointSegment[];
+    sampleCount: number;
+    trialCount: number;
+    statistic: number[];              // Per sample: CUSUM in standard errors or BOCPD change probability; empty for PELT
+    threshold: number | null;         // Control limit or probability the statistic is held to
+}
+
 // Learning Curve Types
 export interface LearningCurveData {
     sessionNumber: number;
@@ -801,4 +1222,132 @@ export interface LearningCurveAnalysis {
     plateauStart?: number;
     improvementTrend: 'increasing' | 'decreasing' | 'stable';
     predictedPlateau: number;
-}
\ No newline at end of file
+}
+
+// Per-Operator Types
+export interface OperatorSessionTotals {
+    session: CoreExperimentSession;
+    trialCount: number;
+    trialSum: number;      // Sum of trial values (expected 100 per trial)
+}
+
+export interface OperatorSessionScore {
+    sessionId: string;
+    startTime: Date;
+    intention: 'high' | 'low' | 'baseline';
+    trialCount: number;
+    meanDeviation: number; // Mean trial value minus 100
+    zScore: number;        // Raw session z (positive = above chance)
+    directedZ: number;     // z in the intended direction (raw z for baseline)
+    effectSize: number;    // directedZ / sqrt(trials), PEAR's per-trial effect size
+}
+
+export interface OperatorIntentionSummary {
+    sessionCount: number;
+    trialCount: number;
+    meanDeviation: number;
+    zScore: number;        // Raw pooled z, not direction-corrected
+    effectSize: number;
+}
+
+export interface OperatorCumulativePoint {
+    sessionNumber: number;
+    timestamp: number;     // Unix timestamp of the session start
+    cumulativeTrials: number;
+    cumulativeZ: number;   // Pooled directed z over high and low sessions so far
+}
+
+export interface OperatorAnalysis {
+    participantId: string;
+    sessionCount: number;
+    trialCount: number;    // Trials under high or low intention
+    cumulativeZ: number;   // Pooled z in the intended direction (Stouffer over trials)
+    effectSize: number;    // cumulativeZ / sqrt(trialCount)
+    pValue: number;        // One-tailed, in the intended direction
+    highLowZ: number;      // z of the high-minus-low mean separation
+    byIntention: Record<'high' | 'low' | 'baseline', OperatorIntentionSummary>;
+    sessions: OperatorSessionScore[];
+    cumulative: OperatorCumulativePoint[];
+    learningCurve: LearningCurveAnalysis;
+}
+
+export interface FeedbackModalitySummary {
+    feedback: FeedbackModality;
+    sessionCount: number;       // High and low intention sessions
+    trialCount: number;
+    directedZ: number;          // Pooled z in the intended direction
+    effectSize: number;         // directedZ / sqrt(trialCount)
+    pValue: number;             // One-tailed, in the intended direction
+    highLowZ: number;
+}
+
+export interface FeedbackComparison {
+    modalities: FeedbackModalitySummary[];
+    heterogeneityQ: number;     // Chi-square for differing per-trial effects across modalities
+    degreesOfFreedom: number;
+    heterogeneityPValue: number;
+}
+
+export interface SeriesAnalysis {
+    seriesId: string;
+    runsPlanned: number;
+    runsCompleted: number;
+    trialCount: number;
+    byIntention: Record<'high' | 'low' | 'baseline', OperatorIntentionSummary>;
+    highLowSeparation: number;  // Mean trial value under high minus under low
+    highLowZ: number;           // z of the separation
+    highLowPValue: number;      // One-tailed, high above low
+    daysActive: number;         // Distinct calendar days with a completed run
+}
+
+export type EventRecipe = 'netvar' | 'device_variance' | 'covariance';
+export type EventCategory = 'world' | 'personal';
+
+export interface FormalEventDefinition {
+    name: string;
+    description?: string;
+    category: EventCategory;
+    startTime: Date;
+    endTime: Date;
+    recipe: EventRecipe;
+}
+
+export interface FormalEventResult {
+    statistic: number;          // Chi-square for netvar and device variance, Σ pair products for covariance
+    degreesOfFreedom: number;
+    zScore: number;             // Positive when the network departs from chance in the predicted direction
+    pValue: number;             // One-tailed
+    deviceCount: number;
+    seconds: number;
+    trialCount: number;
+    evaluatedAt: Date;
+}
+
+export interface FormalEvent extends FormalEventDefinition {
+    id: string;
+    registeredAt: Date;
+    rejectable: boolean;        // Registered before the window opened; events named after the fact are not
+    status: 'pending' | 'evaluated' | 'no_data';
+    result: FormalEventResult | null;
+}
+
+export interface FormalEventPoint {
+    eventId: string;
+    name: string;
+    endTime: Date;
+    rejectable: boolean;
+    zScore: number;
+    cumulativeZ: number;        // Stouffer Z over this and every earlier event
+    cumulativeDeviation: number; // Running Σz, the GCP formal series plot
+}
+
+export interface FormalEventSeries {
+    events: FormalEvent[];
+    points: FormalEventPoint[]; // Evaluated events by end time
+    eventCount: number;
+    stoufferZ: number;
+    pValue: number;             // One-tailed
+    rejectableCount: number;
+    rejectableZ: number;
+    rejectablePValue: number;
+}
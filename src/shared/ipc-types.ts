@@ -0,0 +1,435 @@
+/**
+ * Typed IPC contract between the Electron main process and the renderer
+ * Shared by main.ts (handlers), preload.ts (bridge) and the renderer hooks
+ *
+ * Only types live here: the sandboxed preload script cannot require local
+ * modules, so channel names are string literals checked against these maps.
+ */
+
+import {
+    ExperimentSession,
+    SessionConfig,
+    SessionModeState,
+    RNGTrial,
+    EngineStatus,
+    HealthStatus,
+    ContinuousStatus,
+    IntentionPeriod,
+    StatisticalResult,
+    SignificantEvent,
+    TimelinePoint,
+    TimeRange,
+    ExperimentMode,
+    IntentionType,
+    SessionStatus,
+    Participant,
+    ParticipantRegistration,
+    SessionSeries,
+    SeriesDefinition,
+    SeriesStatus,
+    FeedbackModality,
+    ExportFormat,
+    ExportMetadata,
+    ImportFormat,
+    ImportReport,
+    NetworkDeviceConfig,
+    NetworkRunConfig,
+    NetworkStatus
+} from './types';
+import {
+    OperatorAnalysis,
+    PreRegistration,
+    PreRegistrationDesign,
+    PreRegistrationReport,
+    SeriesAnalysis,
+    FeedbackComparison,
+    DataPackageDetails,
+    MultiDeviceNetworkResult,
+    FormalEvent,
+    FormalEventDefinition,
+    FormalEventSeries,
+    MetaAnalysisOptions,
+    MetaAnalysisResult,
+    PublicationBiasOptions,
+    PublicationBiasResult,
+    BayesianOptions,
+    BayesianResult,
+    GroupSequentialDesignInput,
+    GroupSequentialStatus,
+    ChangePointAnalysis,
+    ChangePointMethod,
+    ChangePointOptions
+} from './analysis-types';
+
+/**
+ * Session lifecycle state as reported by the main process
+ */
+export type SessionRunStatus = SessionModeState['sessionStatus'];
+
+/**
+ * Session status change pushed from the main process
+ */
+export interface SessionStatusUpdate {
+    /** Session the update refers to */
+    session: ExperimentSession;
+
+    /** New lifecycle status */
+    status: SessionRunStatus;
+
+    /** Trials persisted for the session so far */
+    trialsCompleted: number;
+}
+
+/**
+ * Filters accepted by the session list query
+ */
+export interface SessionListQuery {
+    status?: SessionStatus;
+    intention?: IntentionType;
+    participantId?: string;
+    feedback?: FeedbackModality;
+    startTime?: Date;
+    endTime?: Date;
+    offset?: number;
+}
+
+/**
+ * Filters accepted by the trial range query
+ */
+export interface TrialRangeQuery {
+    sessionId?: string;
+    deviceId?: string;
+    experimentMode?: ExperimentMode;
+    intention?: IntentionType;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Filters accepted by the participant list query
+ */
+export interface ParticipantListQuery {
+    active?: boolean;
+    search?: string;
+}
+
+/**
+ * Data export request; every table is exported for the selected sessions or time range
+ */
+export interface DataExportRequest {
+    format: ExportFormat;
+    sessionIds?: string[];
+    startDate?: Date;
+    endDate?: Date;
+}
+
+/**
+ * Import request; the renderer reads the file and sends its text
+ */
+export interface DataImportRequest {
+    format: ImportFormat;
+    fileName: string;
+    content: string;
+    /** Provenance tag; defaults to "<format>:<fileName>" */
+    source?: string;
+    /** Intention recorded for gcp and csv imports; defaults to baseline */
+    intention?: IntentionType;
+}
+
+/**
+ * Data package request; calibration runs and the export log are always included
+ */
+export interface DataPackagePublishRequest {
+    details: DataPackageDetails;
+    sessionIds?: string[];
+    startDate?: Date;
+    endDate?: Date;
+}
+
+/**
+ * Stored trials for a network analysis: one network run, or every device-tagged trial in a period
+ */
+export interface NetworkAnalysisRequest {
+    sessionId?: string;
+    startTime?: Date;
+    endTime?: Date;
+}
+
+/**
+ * Sessions and model for the meta-analysis; omitted filters include every finished session
+ */
+export interface MetaAnalysisRequest extends MetaAnalysisOptions {
+    participantId?: string;
+    intention?: 'high' | 'low';
+    startTime?: Date;
+    endTime?: Date;
+}
+
+/**
+ * Same sessions as the meta-analysis, plus the effect size Orwin's fail-safe N counts down to
+ */
+export type PublicationBiasRequest = MetaAnalysisRequest & PublicationBiasOptions;
+
+/**
+ * Sessions pooled into one directed z and the prior to weigh it with
+ */
+export interface BayesianAnalysisRequest extends BayesianOptions {
+    participantId?: string;
+    intention?: 'high' | 'low';
+    startTime?: Date;
+    endTime?: Date;
+}
+
+/**
+ * Trials of a time range to segment and the detector to run; continuous-mode trials by default
+ */
+export interface ChangePointRequest extends ChangePointOptions {
+    method: ChangePointMethod;
+    startTime: Date;
+    endTime: Date;
+    experimentMode?: ExperimentMode;
+}
+
+/**
+ * Filters accepted by the series list query
+ */
+export interface SeriesListQuery {
+    participantId?: string;
+    status?: SeriesStatus;
+}
+
+/**
+ * Editable participant fields
+ */
+export type ParticipantUpdate = Partial<Omit<Participant, 'id' | 'createdAt'>>;
+
+/**
+ * Request/response channels handled with ipcMain.handle / ipcRenderer.invoke
+ */
+export interface IpcRequestMap {
+    // Session mode
+    'session:start': { args: [config: SessionConfig]; result: ExperimentSession };
+    'session:pause': { args: []; result: SessionStatusUpdate | null };
+    'session:resume': { args: []; result: SessionStatusUpdate | null };
+    'session:stop': { args: [emergency: boolean]; result: SessionStatusUpdate | null };
+    'session:current': { args: []; result: SessionStatusUpdate | null };
+
+    // Continuous mode
+    'continuous:start': { args: []; result: ContinuousStatus };
+    'continuous:stop': { args: []; result: ContinuousStatus };
+    'continuous:status': { args: []; result: ContinuousStatus };
+    'intention:start': {
+        args: [intention: 'high' | 'low', notes?: string, participantId?: string, sequentialDesignId?: string];
+        result: IntentionPeriod;
+    };
+    'intention:end': { args: []; result: void };
+    'intention:update-notes': { args: [notes: string]; result: void };
+
+    // Multi-device network mode
+    'network:devices': { args: []; result: NetworkDeviceConfig[] };
+    'network:start': { args: [config?: NetworkRunConfig]; result: NetworkStatus };
+    'network:stop': { args: []; result: NetworkStatus };
+    'network:status': { args: []; result: NetworkStatus };
+    'network:analyze': { args: [request: NetworkAnalysisRequest]; result: MultiDeviceNetworkResult };
+
+    // Formal events
+    'events:list': { args: []; result: FormalEvent[] };
+    'events:register': { args: [definition: FormalEventDefinition]; result: FormalEvent };
+    'events:evaluate': { args: []; result: FormalEvent[] };
+    'events:series': { args: []; result: FormalEventSeries };
+
+    // Group-sequential designs
+    'sequential:list': { args: []; result: GroupSequentialStatus[] };
+    'sequential:create': { args: [design: GroupSequentialDesignInput]; result: GroupSequentialStatus };
+    'sequential:status': { args: [designId: string]; result: GroupSequentialStatus };
+    'sequential:look': { args: [designId: string]; result: GroupSequentialStatus };
+
+    // Engine and health
+    'engine:status': { args: []; result: EngineStatus };
+    'health:status': { args: []; result: HealthStatus };
+
+    // Participant registry
+    'participants:list': { args: [query?: ParticipantListQuery]; result: Participant[] };
+    'participants:register': { args: [registration: ParticipantRegistration]; result: Participant };
+    'participants:update': { args: [participantId: string, updates: ParticipantUpdate]; result: Participant };
+    'participants:analysis': { args: [participantId: string]; result: OperatorAnalysis | null };
+
+    // Pre-registration
+    'preregistrations:list': { args: []; result: PreRegistration[] };
+    'preregistrations:create': { args: [design: PreRegistrationDesign]; result: PreRegistration };
+    'preregistrations:lock': { args: [registrationId: string]; result: PreRegistration };
+    'preregistrations:complete': { args: [registrationId: string]; result: PreRegistration };
+    'preregistrations:report': { args: [registrationId: string]; result: PreRegistrationReport | null };
+
+    // Tri-polar series
+    'series:list': { args: [query?: SeriesListQuery]; result: SessionSeries[] };
+    'series:create': { args: [definition: SeriesDefinition]; result: SessionSeries };
+    'series:get': { args: [seriesId: string]; result: SessionSeries | null };
+    'series:abandon': { args: [seriesId: string]; result: SessionSeries };
+    'series:analysis': { args: [seriesId: string]; result: SeriesAnalysis | null };
+
+    // Repository queries
+    'data:sessions': { args: [limit: number, query?: SessionListQuery]; result: ExperimentSession[] };
+    'data:session-trials': { args: [sessionId: string]; result: RNGTrial[] };
+    'data:session-stats': { args: [sessionId: string]; result: StatisticalResult | null };
+    'data:trials-by-range': { args: [start: Date, end: Date, query?: TrialRangeQuery]; result: RNGTrial[] };
+    'data:intention-periods': { args: [days: number]; result: IntentionPeriod[] };
+    'data:timeline': { args: [range: TimeRange]; result: TimelinePoint[] };
+    'data:significant-events': { args: [range: TimeRange]; result: SignificantEvent[] };
+    'data:feedback-comparison': { args: [participantId?: string]; result: FeedbackComparison };
+    'data:meta-analysis': { args: [request: MetaAnalysisRequest]; result: MetaAnalysisResult };
+    'data:publication-bias': { args: [request: PublicationBiasRequest]; result: PublicationBiasResult };
+    'data:bayesian-analysis': { args: [request: BayesianAnalysisRequest]; result: BayesianResult };
+    'data:change-points': { args: [request: ChangePointRequest]; result: ChangePointAnalysis };
+    'data:export': { args: [request: DataExportRequest]; result: ExportMetadata };
+    'data:publish-package': { args: [request: DataPackagePublishRequest]; result: ExportMetadata };
+    'data:import': { args: [request: DataImportRequest]; result: ImportReport };
+}
+
+/**
+ * Event streams pushed from the main process with webContents.send
+ */
+export interface IpcEventMap {
+    'trial': RNGTrial;
+    'engine-status': EngineStatus;
+    'session-status': SessionStatusUpdate;
+    'continuous-status': ContinuousStatus;
+    'health': HealthStatus;
+    'intention-period': IntentionPeriod;
+    'significant-event': SignificantEvent;
+    'network-status': NetworkStatus;
+    'formal-event': FormalEvent;
+    'sequential-look': GroupSequentialStatus;
+}
+
+export type IpcChannel = keyof IpcRequestMap;
+export type IpcEvent = keyof IpcEventMap;
+export type IpcArgs<C extends IpcChannel> = IpcRequestMap[C]['args'];
+export type IpcResult<C extends IpcChannel> = IpcRequestMap[C]['result'];
+
+/**
+ * Unsubscribe function returned by event subscriptions
+ */
+export type IpcUnsubscribe = () => void;
+
+/**
+ * API exposed on window.electronAPI by the preload script
+ */
+export interface ElectronAPI {
+    session: {
+        start: (config: SessionConfig) => Promise<ExperimentSession>;
+        pause: () => Promise<SessionStatusUpdate | null>;
+        resume: () => Promise<SessionStatusUpdate | null>;
+        stop: (emergency?: boolean) => Promise<SessionStatusUpdate | null>;
+        getCurrent: () => Promise<SessionStatusUpdate | null>;
+    };
+
+    continuous: {
+        start: () => Promise<ContinuousStatus>;
+        stop: () => Promise<ContinuousStatus>;
+        getStatus: () => Promise<ContinuousStatus>;
+        startIntentionPeriod: (
+            intention: 'high' | 'low',
+            notes?: string,
+            participantId?: string,
+            sequentialDesignId?: string
+        ) => Promise<IntentionPeriod>;
+        endIntentionPeriod: () => Promise<void>;
+        updateIntentionNotes: (notes: string) => Promise<void>;
+    };
+
+    network: {
+        getDevices: () => Promise<NetworkDeviceConfig[]>;
+        /** Start every configured device (or the chosen ones) recording into one session */
+        start: (config?: NetworkRunConfig) => Promise<NetworkStatus>;
+        stop: () => Promise<NetworkStatus>;
+        getStatus: () => Promise<NetworkStatus>;
+        /** Per-second Stouffer Z, netvar and inter-device correlation over stored trials */
+        analyze: (request: NetworkAnalysisRequest) => Promise<MultiDeviceNetworkResult>;
+    };
+
+    events: {
+        list: () => Promise<FormalEvent[]>;
+        /** Fix a window and recipe; events registered after the window opens are not rejectable */
+        register: (definition: FormalEventDefinition) => Promise<FormalEvent>;
+        /** Evaluate every pending event whose window has closed */
+        evaluateDue: () => Promise<FormalEvent[]>;
+        /** Cumulative Stouffer Z over all evaluated events */
+        getSeries: () => Promise<FormalEventSeries>;
+    };
+
+    sequential: {
+        list: () => Promise<GroupSequentialStatus[]>;
+        /** Fix the spending function and planned looks; the plan cannot change afterwards */
+        create: (design: GroupSequentialDesignInput) => Promise<GroupSequentialStatus>;
+        getStatus: (designId: string) => Promise<GroupSequentialStatus>;
+        /** Interim look now; it is recorded, spends alpha and tightens every later boundary */
+        takeLook: (designId: string) => Promise<GroupSequentialStatus>;
+    };
+
+    engine: {
+        getStatus: () => Promise<EngineStatus>;
+    };
+
+    health: {
+        getStatus: () => Promise<HealthStatus>;
+    };
+
+    participants: {
+        list: (query?: ParticipantListQuery) => Promise<Participant[]>;
+        register: (registration: ParticipantRegistration) => Promise<Participant>;
+        update: (participantId: string, updates: ParticipantUpdate) => Promise<Participant>;
+        /** Per-operator cumulative z, effect size and learning curve */
+        getAnalysis: (participantId: string) => Promise<OperatorAnalysis | null>;
+    };
+
+    preregistrations: {
+        list: () => Promise<PreRegistration[]>;
+        /** Draft a plan from a design; planned trials come from the power analysis */
+        create: (design: PreRegistrationDesign) => Promise<PreRegistration>;
+        /** Freeze the plan with its SHA-256 hash; required before sessions can be tagged */
+        lock: (registrationId: string) => Promise<PreRegistration>;
+        complete: (registrationId: string) => Promise<PreRegistration>;
+        /** Confirmatory analysis by the locked plan, with any deviations from it */
+        getReport: (registrationId: string) => Promise<PreRegistrationReport | null>;
+    };
+
+    series: {
+        list: (query?: SeriesListQuery) => Promise<SessionSeries[]>;
+        /** Schedule balanced high/low/baseline blocks; randomized order is drawn from the RNG */
+        create: (definition: SeriesDefinition) => Promise<SessionSeries>;
+        get: (seriesId: string) => Promise<SessionSeries | null>;
+        abandon: (seriesId: string) => Promise<SessionSeries>;
+        /** Per-direction z and high-minus-low separation over the completed runs */
+        getAnalysis: (seriesId: string) => Promise<SeriesAnalysis | null>;
+    };
+
+    data: {
+        getSessions: (limit: number, query?: SessionListQuery) => Promise<ExperimentSession[]>;
+        getSessionTrials: (sessionId: string) => Promise<RNGTrial[]>;
+        getSessionStats: (sessionId: string) => Promise<StatisticalResult | null>;
+        getTrialsByRange: (start: Date, end: Date, query?: TrialRangeQuery) => Promise<RNGTrial[]>;
+        getIntentionPeriods: (days: number) => Promise<IntentionPeriod[]>;
+        getTimeline: (range: TimeRange) => Promise<TimelinePoint[]>;
+        getSignificantEvents: (range: TimeRange) => Promise<SignificantEvent[]>;
+        /** Directed results by feedback modality, optionally for one participant */
+        getFeedbackComparison: (participantId?: string) => Promise<FeedbackComparison>;
+        /** Sessions as studies: fixed or random effects, leave-one-out and cumulative by date */
+        getMetaAnalysis: (request: MetaAnalysisRequest) => Promise<MetaAnalysisResult>;
+        /** Funnel asymmetry, trim-and-fill, p-curve, fail-safe N and completed vs stopped sessions */
+        getPublicationBias: (request: PublicationBiasRequest) => Promise<PublicationBiasResult>;
+        /** Bayes factor, posterior and prior robustness for the pooled directed effect */
+        getBayesianAnalysis: (request: BayesianAnalysisRequest) => Promise<BayesianResult>;
+        /** CUSUM, PELT or Bayesian online change points and the segments between them */
+        getChangePoints: (request: ChangePointRequest) => Promise<ChangePointAnalysis>;
+        /** Write sessions, trials, intention periods and statistics to the exports folder */
+        exportData: (request: DataExportRequest) => Promise<ExportMetadata>;
+        /** Write a Frictionless data package (.zip) for deposit in a data repository */
+        publishPackage: (request: DataPackagePublishRequest) => Promise<ExportMetadata>;
+        /** Validate and store an external dataset; rejected rows are reported, not imported */
+        importData: (request: DataImportRequest) => Promise<ImportReport>;
+    };
+
+    /** Subscribe to an event stream from the main process */
+    on: <E extends IpcEvent>(event: E, listener: (payload: IpcEventMap[E]) => void) => IpcUnsubscribe;
+}
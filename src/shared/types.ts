@@ -8,6 +8,28 @@ export type ExperimentMode = 'session' | 'continuous';
 export type IntentionType = 'high' | 'low' | 'baseline' | null;
 export type SessionStatus = 'running' | 'completed' | 'stopped';
 
+/**
+ * Real-time feedback shown (or played) to the operator during a session
+ * - chart: cumulative deviation chart with the statistics panel
+ * - audio: tone whose pitch and volume follow the running deviation
+ * - pendulum / fountain: animated displays driven by the running deviation
+ * - counter: numeric running score only
+ * - none: blind session, progress only
+ */
+export type FeedbackModality = 'chart' | 'audio' | 'pendulum' | 'fountain' | 'counter' | 'none';
+
+/**
+ * File formats produced by the data exporter
+ * - csv: one CSV per table plus a data dictionary
+ * - json: a single document with every table, the dictionary and the export metadata
+ * - xlsx: multi-sheet workbook
+ * - r: CSV bundle with an R script that restores factor levels and variable labels
+ * - matlab: MAT-file (level 5) with one struct of column vectors per table
+ * - spss: one .sav system file per table with variable and value labels
+ * - datapackage: Frictionless data package (.zip) with CSV resources, documentation and checksums
+ */
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'r' | 'matlab' | 'spss' | 'datapackage';
+
 /**
  * Single RNG trial consisting of 200 random bits summed together
  * This is the fundamental data unit for all experiments
@@ -40,6 +62,12 @@ export interface RNGTrial {
 
     /** Unique identifier for database operations */
     id?: string;
+
+    /** The 25 bytes (200 bits) the trial was summed from, when raw-bit capture is on */
+    rawBits?: Uint8Array;
+
+    /** RNG that produced the trial, in multi-device network mode and for imported GCP eggs */
+    deviceId?: string;
 }
 
 /**
@@ -67,7 +95,7 @@ export interface ExperimentSession {
     /** Optional session description/notes */
     notes?: string;
 
-    /** Participant/researcher identifier */
+    /** Registered participant (operator) id */
     participantId?: string;
 
     /** Session duration in milliseconds */
@@ -75,6 +103,24 @@ export interface ExperimentSession {
 
     /** Actual number of trials completed */
     actualTrials?: number;
+
+    /** Locked pre-registration whose plan this session contributes to */
+    preregistrationId?: string;
+
+    /** Feedback modality the operator had during the session */
+    feedback?: FeedbackModality;
+
+    /** Provenance of imported sessions, e.g. "gcp:2014-01-01.csv#egg-37"; unset for local data */
+    source?: string;
+
+    /** Import the session came from */
+    importId?: string;
+
+    /** Clock offset against the time server when the session started; unset when time sync is off */
+    clockSync?: ClockSync;
+
+    /** Group-sequential design whose looks this session's trials count towards */
+    sequentialDesignId?: string;
 }
 
 /**
@@ -99,6 +145,239 @@ export interface IntentionPeriod {
 
     /** Reference to parent session if applicable */
     sessionId?: string;
+
+    /** Registered participant (operator) holding the intention */
+    participantId?: string;
+
+    /** Group-sequential design whose looks this period's trials count towards */
+    sequentialDesignId?: string;
+}
+
+/**
+ * One clock measurement against the reference time server
+ * Trials keep this machine's clock; the offset converts them to reference time
+ */
+export interface ClockSync {
+    /** Reference time minus local time (milliseconds) */
+    offsetMs: number;
+
+    /** Half the round-trip delay - the true offset lies within offsetMs ± uncertaintyMs */
+    uncertaintyMs: number;
+
+    /** Server measured against (host:port) */
+    server: string;
+
+    /** Local time of the measurement */
+    syncedAt: Date;
+}
+
+/**
+ * Time synchronization state of the main process
+ */
+export interface TimeSyncStatus {
+    /** Servers configured, in order of preference */
+    servers: string[];
+
+    /** Most recent successful measurement */
+    lastSync: ClockSync | null;
+
+    /** Why the most recent attempt failed, if it did */
+    lastError: string | null;
+}
+
+/**
+ * Marker submitted by an external recorder (EEG, physiology, stimulus software)
+ */
+export interface EventMarkerInput {
+    /** What happened, e.g. "stimulus-onset" */
+    label: string;
+
+    /** Recorder that sent the marker */
+    source: string;
+
+    /** Numeric event code, as trigger channels carry */
+    code?: number;
+
+    /** Milliseconds since the epoch on the recorder's clock */
+    timestamp: number;
+
+    /**
+     * Reference time minus recorder time, for recorders synchronized to the same time server;
+     * omit when the recorder shares this machine's clock
+     */
+    sourceOffsetMs?: number;
+
+    /** Session to attach to; defaults to the session running at the marker's time */
+    sessionId?: string;
+
+    /** Free-form details kept with the marker */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * External marker placed on the trial timeline
+ */
+export interface EventMarker {
+    id: string;
+
+    /** Session the marker falls in, if any */
+    sessionId: string | null;
+
+    label: string;
+    source: string;
+    code?: number;
+
+    /** Marker time on this machine's clock, the clock trials are stamped with */
+    timestamp: Date;
+
+    /** Timestamp as the recorder sent it */
+    sourceTimestamp: number;
+
+    /** Added to sourceTimestamp to reach the trial timeline (milliseconds) */
+    alignmentOffsetMs: number;
+
+    /** Last trial of the session at or before the marker; null before the first trial */
+    trialNumber: number | null;
+
+    metadata?: Record<string, unknown>;
+
+    /** When the marker arrived */
+    receivedAt: Date;
+}
+
+export type Handedness = 'left' | 'right' | 'ambidextrous';
+
+/**
+ * Optional demographics, only stored for participants who opted in
+ */
+export interface ParticipantDemographics {
+    birthYear?: number;
+    gender?: string;
+    handedness?: Handedness;
+}
+
+/**
+ * Registered participant (operator in PEAR terminology)
+ * Identified only by a pseudonymous code - never store names or contact details here
+ */
+export interface Participant {
+    /** Unique participant identifier (UUID) */
+    id: string;
+
+    /** Pseudonymous code shown in the UI and exports (e.g. 'OP-017') */
+    code: string;
+
+    /** Date informed consent was given */
+    consentDate: Date | null;
+
+    /** Demographics, present only when the participant opted in */
+    demographics: ParticipantDemographics | null;
+
+    /** Researcher notes */
+    notes: string;
+
+    /** Inactive participants are hidden from session setup but keep their data */
+    active: boolean;
+
+    /** Registration timestamp */
+    createdAt: Date;
+}
+
+/**
+ * Details needed to register a participant
+ */
+export interface ParticipantRegistration {
+    /** Pseudonymous code, unique across the registry */
+    code: string;
+
+    /** Date informed consent was given */
+    consentDate?: Date | null;
+
+    /** Supplying demographics records the participant's opt-in */
+    demographics?: ParticipantDemographics | null;
+
+    /** Researcher notes */
+    notes?: string;
+}
+
+export type SeriesOrder = 'fixed' | 'randomized';
+
+export type SeriesStatus = 'active' | 'completed' | 'abandoned';
+
+/**
+ * One scheduled run of a tri-polar series
+ */
+export interface SeriesRun {
+    /** 1-based position in the schedule */
+    position: number;
+
+    /** 1-based block; every block holds one high, one low and one baseline run */
+    block: number;
+
+    /** Intention the run must be performed under */
+    intention: 'high' | 'low' | 'baseline';
+
+    /** Session that performed the run (null until started) */
+    sessionId: string | null;
+
+    /** 'pending' until a session is started, then that session's status */
+    status: 'pending' | SessionStatus;
+
+    /** When the run's session started */
+    startedAt: Date | null;
+}
+
+/**
+ * Tri-polar protocol series: balanced high, low and baseline runs by one operator,
+ * performed one run at a time across as many days as needed
+ */
+export interface SessionSeries {
+    /** Unique series identifier (UUID) */
+    id: string;
+
+    /** Display name */
+    name: string;
+
+    /** Registered participant performing the series */
+    participantId: string | null;
+
+    /** Number of high/low/baseline blocks */
+    blocks: number;
+
+    /** Target trials for every run */
+    trialsPerRun: number;
+
+    /** Whether run order within each block was drawn from the RNG */
+    order: SeriesOrder;
+
+    status: SeriesStatus;
+
+    /** Scheduled runs in the order they are performed */
+    runs: SeriesRun[];
+
+    notes: string;
+
+    createdAt: Date;
+
+    completedAt: Date | null;
+}
+
+/**
+ * Settings for a new tri-polar series
+ */
+export interface SeriesDefinition {
+    name: string;
+
+    /** Registered participant id or code */
+    participantId?: string;
+
+    blocks: number;
+
+    trialsPerRun: number;
+
+    order: SeriesOrder;
+
+    notes?: string;
 }
 
 /**
@@ -225,6 +504,119 @@ export interface EngineStatus {
         /** Peak memory usage in MB */
         peak: number;
     };
+
+    /** Entropy source currently feeding the engine */
+    entropySource?: EntropySourceStatus;
+}
+
+/**
+ * Kinds of entropy source the RNG engine can draw bits from
+ */
+export type EntropySourceKind = 'webcrypto' | 'node-crypto' | 'file' | 'serial' | 'seeded' | 'hybrid' | 'failover';
+
+/**
+ * Runtime status of an entropy source
+ */
+export interface EntropySourceStatus {
+    /** Human-readable source name (e.g. device path) */
+    name: string;
+
+    /** Source implementation */
+    kind: EntropySourceKind;
+
+    /** Whether the source is open and able to deliver bytes */
+    available: boolean;
+
+    /** Total bytes delivered since the source was opened */
+    bytesDelivered: number;
+
+    /** Health test failures since the source was opened */
+    healthFailures: number;
+
+    /** Last error reported by the source */
+    lastError: string | null;
+
+    /** For failover sources: the source currently in use */
+    activeSource?: EntropySourceStatus;
+
+    /** For failover sources: number of switches to the backup source */
+    failoverCount?: number;
+
+    /** For failover sources: whether the backup is currently in use */
+    usingBackup?: boolean;
+}
+
+/**
+ * Entropy source selection, mirroring the RNG section of the advanced settings
+ */
+export interface EntropySourceConfig {
+    /** Primary source: hardware device, software CSPRNG, or both XOR-mixed */
+    engine: 'hardware' | 'software' | 'hybrid';
+
+    /** Source to fail over to when the primary errors or fails health tests */
+    backupEngine: 'hardware' | 'software';
+
+    /** Device or FIFO path for the hardware source */
+    devicePath?: string;
+
+    /** How to read the hardware device (default: serial for tty paths, file otherwise) */
+    hardwareInterface?: 'file' | 'serial';
+
+    /** Line speed for serial hardware devices */
+    baudRate?: number;
+
+    /** Fixed seed - replaces every source with a deterministic generator (tests only) */
+    seed?: string | number;
+
+    /** How long to stay on the backup before retrying the primary (ms, 0 = never) */
+    primaryRetryInterval?: number;
+}
+
+/**
+ * One RNG of a multi-device network
+ */
+export interface NetworkDeviceConfig {
+    /** Stored on every trial of the device; short and stable, e.g. "hwrng-1" */
+    id: string;
+
+    /** Entropy source feeding the device's engine */
+    entropy: EntropySourceConfig;
+}
+
+/**
+ * Options for a network run
+ */
+export interface NetworkRunConfig {
+    /** Intention recorded on the run's session and trials (default baseline) */
+    intention?: IntentionType;
+
+    notes?: string;
+
+    /** Devices to run, by id (default all configured devices) */
+    deviceIds?: string[];
+}
+
+/**
+ * Live state of one network device
+ */
+export interface NetworkDeviceStatus {
+    id: string;
+    entropySource: EntropySourceStatus;
+    totalTrials: number;
+    lastTrialValue: number | null;
+}
+
+/**
+ * Live state of the device network
+ */
+export interface NetworkStatus {
+    isRunning: boolean;
+
+    /** Session all devices record into while running */
+    sessionId: string | null;
+
+    startTime: Date | null;
+    devices: NetworkDeviceStatus[];
 }
 
 /**
@@ -248,6 +640,12 @@ export interface RNGConfig {
 
     /** Enable quality monitoring */
     qualityMonitoring: boolean;
+
+    /** Attach the raw 200-bit payload to each trial so it can be persisted */
+    captureRawBits?: boolean;
+
+    /** Device identity stamped on every trial when the engine is one of a network */
+    deviceId?: string;
 }
 
 /**
@@ -290,13 +688,74 @@ export interface ExportMetadata {
     sessionCount: number;
 
     /** Export format */
-    format: 'csv' | 'json' | 'excel';
+    format: ExportFormat;
 
-    /** File path or identifier */
+    /** Main file of the export (workbook, MAT-file, R script, ...) */
     filePath: string;
 
     /** Checksum for data integrity */
     checksum: string;
+
+    /** Every file written, including data dictionaries and per-table files */
+    files?: ExportedFile[];
+}
+
+/**
+ * External dataset formats the importer reads
+ * - gcp: Global Consciousness Project per-second egg CSV (one session per egg)
+ * - csv: generic "timestamp,value" CSV (one session)
+ * - json: this application's own JSON export (sessions kept as exported)
+ */
+export type ImportFormat = 'gcp' | 'csv' | 'json';
+
+/**
+ * Input row that was not imported
+ */
+export interface RejectedRow {
+    /** 1-based line of the file (for JSON, the 1-based row of the trials table) */
+    line: number;
+
+    /** Why the row was rejected */
+    reason: string;
+}
+
+/**
+ * Outcome of one import
+ */
+export interface ImportReport {
+    importId: string;
+    format: ImportFormat;
+
+    /** Provenance tag of the import; each session adds its egg or original session id after "#" */
+    source: string;
+
+    fileName: string;
+
+    /** SHA-256 of the imported file */
+    checksum: string;
+
+    sessionIds: string[];
+    trialCount: number;
+    rejectedCount: number;
+
+    /** Rejected rows, the first few hundred at most */
+    rejected: RejectedRow[];
+
+    importedAt: Date;
+}
+
+/**
+ * Single file written by an export
+ */
+export interface ExportedFile {
+    /** Absolute path */
+    filePath: string;
+
+    /** SHA-256 of the file contents */
+    checksum: string;
+
+    /** File size in bytes */
+    size: number;
 }
 
 /**
@@ -312,9 +771,21 @@ export interface SessionConfig {
     /** Session description/notes */
     notes?: string;
 
-    /** Participant identifier */
+    /** Registered participant id or code */
     participantId?: string;
 
+    /** Locked pre-registration to tag the session to */
+    preregistrationId?: string;
+
+    /** Tri-polar series to perform the next run of; the run decides the intention and trial count */
+    seriesId?: string;
+
+    /** Real-time feedback during the session (default 'chart') */
+    feedback?: FeedbackModality;
+
+    /** Active group-sequential design the session counts towards; significance then comes only from its looks */
+    sequentialDesignId?: string;
+
     /** Pre-session meditation duration in minutes (0 = skip) */
     meditationDuration: number;
 
@@ -502,6 +973,23 @@ export interface SessionAlert {
     data?: any;
 }
 
+/**
+ * Process holding the continuous-collection lock on a database file
+ */
+export interface CollectorLockInfo {
+    /** Process id of the writer */
+    pid: number;
+
+    /** Headless collector daemon or the desktop app */
+    owner: 'daemon' | 'desktop';
+
+    /** When the lock was taken */
+    startedAt: Date;
+
+    /** Control socket of a daemon (status and intention marks) */
+    controlPath?: string;
+}
+
 /**
  * Continuous monitoring system status
  */
@@ -531,6 +1019,9 @@ export interface ContinuousStatus {
         averageDeviation: number;
         significantEvents: number;
     };
+
+    /** Another process collecting into the same database; this one is then only a viewer */
+    externalCollector: CollectorLockInfo | null;
 }
 
 /**
@@ -138,8 +138,9 @@ export class CalibrationDemoRunner implements CalibrationDemo {
         console.log(`   Overall: ${nistPassed}/${results.nist.results.size} tests passed`);
 
         console.log('\n🎲 DIEHARD Test Results:');
-        const diehardPassed = results.diehard.results.filter(r => r.passed).length;
-        console.log(`   ${diehardPassed}/${results.diehard.results.length} tests passed`);
+        const diehardApplicable = results.diehard.results.filter(r => r.applicable !== false);
+        const diehardPassed = diehardApplicable.filter(r => r.passed).length;
+        console.log(`   ${diehardPassed}/${diehardApplicable.length} tests passed (${results.diehard.tier} tier)`);
 
         console.log('\n📊 ENT Test Results:');
         console.log(`   Entropy: ${results.ent.entropy.toFixed(4)} bits/byte`);
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { SeededEntropySource } from '../../src/core/entropy';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { BitstreamRepository, unpackBits } from '../../src/database/repositories/bitstream-repository';
+import { RandomnessValidator } from '../../src/main/calibration/RandomnessValidator';
+import { ExperimentMode, RNGTrial } from '../../src/shared/types';
+
+describe('Raw bitstream persistence', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let bitstream: BitstreamRepository;
+
+    const createSession = () => sessions.createSession({
+        startTime: new Date(),
+        endTime: null,
+        intention: 'high',
+        targetTrials: 100,
+        status: 'running'
+    });
+
+    /**
+     * Draw trials from a capturing engine and pin them to a session and clock
+     */
+    const generateTrials = (
+        engine: RNGEngine,
+        sessionId: string,
+        count: number,
+        start: number,
+        experimentMode: ExperimentMode = 'session'
+    ): RNGTrial[] =>
+        Array.from({ length: count }, (_, i) => ({
+            ...engine.generateTrial(),
+            sessionId,
+            experimentMode,
+            intention: null,
+            trialNumber: i + 1,
+            timestamp: new Date(start + i * 1000)
+        }));
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-bitstream-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        bitstream = new BitstreamRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('stores the exact bytes behind each trial sum', async () => {
+        const engine = new RNGEngine({ qualityMonitoring: false, captureRawBits: true }, new SeededEntropySource(21));
+        const sessionId = await createSession();
+
+        try {
+            const generated = generateTrials(engine, sessionId, 200, Date.UTC(2024, 0, 1));
+            await trials.insertTrialsBatch(generated);
+
+            const bytes = await bitstream.getSessionBits(sessionId);
+            expect(bytes).toEqual(new SeededEntropySource(21).getBytes(200 * 25));
+
+            const bits = unpackBits(bytes);
+            generated.forEach((trial, i) => {
+                const trialBits = bits.slice(i * 200, (i + 1) * 200);
+                expect(trialBits.reduce((sum, bit) => sum + bit, 0)).toBe(trial.trialValue);
+            });
+
+            const suite = await new RandomnessValidator().runQuickTests(bits);
+            expect(suite.issues).toEqual([]);
+        } finally {
+            engine.destroy();
+        }
+    });
+
+    test('skips trials captured without raw bits', async () => {
+        const engine = new RNGEngine({ qualityMonitoring: false }, new SeededEntropySource(3));
+        const sessionId = await createSession();
+
+        try {
+            const trial = generateTrials(engine, sessionId, 1, Date.UTC(2024, 0, 2))[0];
+            expect(trial.rawBits).toBeUndefined();
+
+            await trials.insertTrial(trial);
+            expect(await trials.getSessionTrialCount(sessionId)).toBe(1);
+            expect(await bitstream.getSessionBits(sessionId)).toHaveLength(0);
+        } finally {
+            engine.destroy();
+        }
+    });
+
+    test('streams trials back by time range and intention period', async () => {
+        const engine = new RNGEngine({ qualityMonitoring: false, captureRawBits: true }, new SeededEntropySource(8));
+        const sessionId = await createSession();
+        const start = Date.UTC(2024, 1, 1);
+
+        try {
+            const generated = generateTrials(engine, sessionId, 60, start, 'continuous');
+            // Persist in two batches so the range spans blocks
+            await trials.insertTrialsBatch(generated.slice(0, 30));
+            await trials.insertTrialsBatch(generated.slice(30));
+
+            const streamed: RNGTrial['trialNumber'][] = [];
+            for await (const trialBits of bitstream.streamTrialBits({
+                experimentMode: 'continuous',
+                startTime: new Date(start + 25000),
+                endTime: new Date(start + 34000)
+            })) {
+                streamed.push(trialBits.trialNumber);
+                expect(trialBits.bytes).toEqual(generated[trialBits.trialNumber - 1].rawBits);
+            }
+            expect(streamed).toEqual([26, 27, 28, 29, 30, 31, 32, 33, 34, 35]);
+
+            const periodId = 'period-bitstream';
+            dbManager.getConnection().prepare(`
+                INSERT INTO intention_periods (id, start_time, end_time, intention) VALUES (?, ?, ?, 'high')
+            `).run(periodId, start + 10000, start + 19000);
+
+            const periodBytes = await bitstream.getIntentionPeriodBits(periodId);
+            expect(periodBytes).toHaveLength(10 * 25);
+            expect(periodBytes.subarray(0, 25)).toEqual(generated[10].rawBits);
+        } finally {
+            engine.destroy();
+        }
+    });
+
+    test('compresses only payloads that shrink', async () => {
+        const sessionId = await createSession();
+        const stuck: RNGTrial[] = Array.from({ length: 100 }, (_, i) => ({
+            timestamp: new Date(Date.UTC(2024, 2, 1) + i * 1000),
+            trialValue: 0,
+            sessionId,
+            experimentMode: 'session',
+            intention: null,
+            trialNumber: i + 1,
+            rawBits: new Uint8Array(25)
+        }));
+
+        const before = await bitstream.getStorageStats();
+        expect(bitstream.storeTrialBits(stuck)).toBe(100);
+
+        const after = await bitstream.getStorageStats();
+        expect(after.trialCount - before.trialCount).toBe(100);
+        expect(after.storedBytes - before.storedBytes).toBeLessThan(100 * 25 / 10);
+        expect(await bitstream.getSessionBits(sessionId)).toEqual(new Uint8Array(100 * 25));
+
+        const rows = dbManager.getConnection().prepare(`
+            SELECT encoding FROM trial_bitstream_blocks WHERE session_id = ?
+        `).all(sessionId) as Array<{ encoding: string }>;
+        expect(rows).toEqual([{ encoding: 'deflate' }]);
+    });
+
+    test('deletes blocks along with old trials', async () => {
+        const engine = new RNGEngine({ qualityMonitoring: false, captureRawBits: true }, new SeededEntropySource(4));
+        const sessionId = await createSession();
+
+        try {
+            await trials.insertTrialsBatch(generateTrials(engine, sessionId, 5, Date.UTC(2000, 0, 1)));
+            expect(await bitstream.getSessionBits(sessionId)).toHaveLength(5 * 25);
+
+            await trials.deleteOlderThan(new Date(Date.UTC(2001, 0, 1)));
+            expect(await bitstream.getSessionBits(sessionId)).toHaveLength(0);
+        } finally {
+            engine.destroy();
+        }
+    });
+});
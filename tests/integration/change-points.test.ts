@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { FormalEventRepository } from '../../src/database/repositories/event-repository';
+import { BackgroundAnalyzer } from '../../src/main/background-analyzer';
+import { ContinuousDataCollector } from '../../src/main/continuous-manager';
+import { createStatisticalAnalyzer } from '../../src/core/statistics';
+import { SignificantEvent, RNGTrial } from '../../src/shared/types';
+
+describe('Change points in background analysis', () => {
+    const base = Date.UTC(2024, 3, 1, 8);
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let analyzer: BackgroundAnalyzer;
+
+    /**
+     * Trials a second apart whose pairs average exactly the given means in turn
+     */
+    const trialSeries = (sessionId: string, experimentMode: RNGTrial['experimentMode'], means: number[], perMean: number) =>
+        means.flatMap((mean, block) => Array.from({ length: perMean }, (_, i): RNGTrial => ({
+            timestamp: new Date(base + (block * perMean + i) * 1000),
+            trialValue: mean + (i % 2 === 0 ? -3 : 3),
+            sessionId,
+            experimentMode,
+            intention: 'baseline',
+            trialNumber: block * perMean + i + 1
+        })));
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-change-points-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        analyzer = new BackgroundAnalyzer(
+            trials,
+            new IntentionRepository(dbManager),
+            new FormalEventRepository(dbManager),
+            createStatisticalAnalyzer()
+        );
+    });
+
+    afterAll(() => {
+        analyzer.destroy();
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('segments stored continuous trials of a time range', async () => {
+        const sessionId = await sessions.createSession({
+            startTime: new Date(base),
+            endTime: new Date(base + 1800 * 1000),
+            intention: 'baseline',
+            targetTrials: 0,
+            status: 'completed'
+        });
+        // A session run over the same half hour must not count as continuous data
+        await trials.insertTrialsBatch([
+            ...trialSeries(sessionId, 'continuous', [100, 103, 100], 600),
+            ...trialSeries(sessionId, 'session', [120], 1800)
+        ]);
+
+        // 1800 trials make samples of two, each exactly at its mean
+        const range = { startTime: new Date(base), endTime: new Date(base + 1800 * 1000) };
+        const pelt = await analyzer.analyzeChangePoints({ ...range, method: 'pelt' });
+        expect(pelt).toMatchObject({ method: 'pelt', sampleCount: 900, trialCount: 1800 });
+        expect(pelt.changePoints.map(point => point.timestamp)).toEqual([
+            new Date(base + 600 * 1000),
+            new Date(base + 1200 * 1000)
+        ]);
+        expect(pelt.changePoints[0].magnitudeChange).toBeCloseTo(3, 10);
+
+        const cusum = await analyzer.analyzeChangePoints({ ...range, method: 'cusum' });
+        expect(cusum.changePoints[0].timestamp).toEqual(new Date(base + 600 * 1000));
+
+        const session = await analyzer.analyzeChangePoints({ ...range, method: 'pelt', experimentMode: 'session' });
+        expect(session.trialCount).toBe(1800);
+        expect(session.changePoints).toEqual([]);
+    });
+
+    test('reports a shift in live trials as a significant event', () => {
+        const collector = new EventEmitter();
+        const announced: SignificantEvent[] = [];
+        analyzer.on('significantEvent', (event: SignificantEvent) => announced.push(event));
+
+        const unwatch = analyzer.watchChangePoints(collector as unknown as ContinuousDataCollector);
+        const emit = (series: RNGTrial[]) => series.forEach(trial => collector.emit('trialGenerated', trial));
+
+        // 100 blocks of 60 trials at the expected mean, then 100 blocks slightly above it
+        emit(trialSeries('live', 'continuous', [100, 102], 60 * 100));
+        expect(announced).toHaveLength(1);
+        expect(announced[0].type).toBe('trend_change');
+        expect(announced[0].description).toContain('Bayesian online change point');
+        expect(announced[0].significance.zScore).toBeGreaterThan(0);
+        expect(announced[0].dataRange.startTime.getTime()).toBeGreaterThanOrEqual(base + 100 * 60 * 1000 - 2 * 60 * 1000);
+
+        // After a stop the detector starts afresh, so a steady run at the new level is no change
+        collector.emit('stopped');
+        emit(trialSeries('live', 'continuous', [102], 60 * 100));
+        expect(announced).toHaveLength(1);
+
+        unwatch();
+        expect(collector.listenerCount('trialGenerated')).toBe(0);
+        expect(collector.listenerCount('stopped')).toBe(0);
+    });
+});
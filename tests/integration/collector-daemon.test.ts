@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { createRNGEngine } from '../../src/core/rng-engine';
+import { DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { ContinuousDataCollector } from '../../src/main/continuous-manager';
+import {
+    CollectorDaemon,
+    CollectorLock,
+    collectorLockPath,
+    readCollectorLock,
+    sendControlRequest
+} from '../../src/main/daemon';
+import { parseCollectorArgs, runCollectorCommand } from '../../src/main/daemon/rng-collector';
+import { ContinuousStatus } from '../../src/shared/types';
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs: number = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+};
+
+describe('Collector lock', () => {
+    let tempDir: string;
+    let lockPath: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-lock-'));
+        lockPath = collectorLockPath(path.join(tempDir, 'test.db'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('admits one holder at a time', () => {
+        const daemon = new CollectorLock(lockPath, 'daemon', '/tmp/control.sock');
+        const desktop = new CollectorLock(lockPath, 'desktop');
+
+        daemon.acquire();
+        expect(readCollectorLock(lockPath)).toMatchObject({
+            pid: process.pid,
+            owner: 'daemon',
+            controlPath: '/tmp/control.sock'
+        });
+        expect(daemon.getExternalHolder()).toBeNull();
+        expect(desktop.getExternalHolder()).toMatchObject({ owner: 'daemon' });
+        expect(() => desktop.acquire()).toThrow(`already running in the collector daemon (pid ${process.pid})`);
+
+        // Releasing a lock that was never taken leaves the holder's file alone
+        desktop.release();
+        expect(fs.existsSync(lockPath)).toBe(true);
+
+        daemon.release();
+        expect(fs.existsSync(lockPath)).toBe(false);
+        desktop.acquire();
+        expect(desktop.isHeld()).toBe(true);
+        desktop.release();
+    });
+
+    test('replaces a lock left behind by a process that has exited', () => {
+        const exited = spawnSync(process.execPath, ['-e', '']).pid;
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: exited, owner: 'daemon', startedAt: new Date() }));
+        expect(readCollectorLock(lockPath)).toBeNull();
+
+        const lock = new CollectorLock(lockPath, 'desktop');
+        lock.acquire();
+        expect(readCollectorLock(lockPath)).toMatchObject({ pid: process.pid, owner: 'desktop' });
+        lock.release();
+    });
+
+    test('keeps a lock another starter took while the stale one was being removed', () => {
+        const exited = spawnSync(process.execPath, ['-e', '']).pid;
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: exited, owner: 'daemon', startedAt: new Date() }));
+
+        // The other starter clears the stale lock and takes its own just before this one moves it aside
+        const nodeFs = jest.requireActual<typeof fs>('fs');
+        const rename = nodeFs.renameSync;
+        const spy = jest.spyOn(nodeFs, 'renameSync').mockImplementationOnce((from, to) => {
+            fs.rmSync(lockPath);
+            fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid, owner: 'daemon', startedAt: new Date() }));
+            rename(from, to);
+        });
+
+        try {
+            expect(() => new CollectorLock(lockPath, 'desktop').acquire()).toThrow('already running in the collector daemon');
+        } finally {
+            spy.mockRestore();
+        }
+        expect(readCollectorLock(lockPath)).toMatchObject({ pid: process.ppid, owner: 'daemon' });
+        expect(fs.readdirSync(tempDir)).toEqual([path.basename(lockPath)]);
+    });
+});
+
+describe('rng-collector command line', () => {
+    test('parses commands and their options', () => {
+        const env = { RNG_DB_PATH: '/data/lab.db' };
+
+        expect(parseCollectorArgs(['status'], env)).toMatchObject({ command: 'status', dbPath: path.resolve('/data/lab.db') });
+        expect(parseCollectorArgs(['mark', 'high', '--notes', 'Focus', '--db', '/tmp/x.db'], env)).toMatchObject({
+            command: 'mark',
+            mark: 'high',
+            notes: 'Focus',
+            dbPath: path.resolve('/tmp/x.db')
+        });
+        expect(parseCollectorArgs(['report', '--date', '2024-03-01', '--json'], env)).toMatchObject({
+            date: new Date(2024, 2, 1),
+            json: true
+        });
+        expect(parseCollectorArgs(['export', '--format', 'csv', '--out', 'exports'], env).exportArgs)
+            .toEqual(['--format', 'csv', '--out', 'exports']);
+        expect(parseCollectorArgs(['start'], {}).dbPath).toMatch(/rng-consciousness-app.data.rng-consciousness\.db$/);
+
+        expect(() => parseCollectorArgs(['restart'], env)).toThrow('Unknown command "restart"');
+        expect(() => parseCollectorArgs(['mark', 'up'], env)).toThrow('mark expects high, low or end');
+        expect(() => parseCollectorArgs(['report', '--date', '03/01/2024'], env)).toThrow('expects YYYY-MM-DD');
+        expect(() => parseCollectorArgs(['status', '--format', 'csv'], env)).toThrow('Unknown option --format');
+    });
+});
+
+describe('Collector daemon', () => {
+    let tempDir: string;
+    let dbPath: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let intentions: IntentionRepository;
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-daemon-'));
+        dbPath = path.join(tempDir, 'lab.db');
+        dbManager = new DatabaseManager({ dbPath, backupPath: path.join(tempDir, 'backups') });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        intentions = new IntentionRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('collects headless while the desktop app attaches as a viewer', async () => {
+        const run = (...args: string[]) => runCollectorCommand(parseCollectorArgs([...args, '--db', dbPath]));
+
+        await expect(run('status')).resolves.toBe(3);
+
+        const daemon = new CollectorDaemon({ dbPath, entropy: { engine: 'software', backupEngine: 'software' } });
+        const stopped = new Promise(resolve => daemon.once('stopped', resolve));
+        await daemon.start();
+
+        const desktopEngine = createRNGEngine({ qualityMonitoring: false });
+        const desktop = new ContinuousDataCollector(
+            desktopEngine,
+            sessions,
+            trials,
+            intentions,
+            new CollectorLock(collectorLockPath(dbPath), 'desktop')
+        );
+
+        try {
+            // A second writer is refused; the desktop only views
+            await expect(desktop.start()).rejects.toThrow('already running in the collector daemon');
+            await expect(desktop.startIntentionPeriod('high')).rejects.toThrow('marked in the collector daemon');
+            expect((await desktop.getStatus()).externalCollector).toMatchObject({
+                owner: 'daemon',
+                controlPath: daemon.getControlPath()
+            });
+
+            await expect(run('mark', 'high', '--notes', 'Focus')).resolves.toBe(0);
+            const status = await sendControlRequest<ContinuousStatus>(daemon.getControlPath(), { command: 'status' });
+            expect(status.isRunning).toBe(true);
+            expect(status.currentIntentionPeriod).toMatchObject({ intention: 'high', notes: 'Focus' });
+            await expect(run('status')).resolves.toBe(0);
+
+            await waitFor(async () => (await sendControlRequest<ContinuousStatus>(
+                daemon.getControlPath(), { command: 'status' }
+            )).totalTrials >= 2);
+
+            await expect(run('stop')).resolves.toBe(0);
+            await stopped;
+            expect(readCollectorLock(collectorLockPath(dbPath))).toBeNull();
+            await expect(run('mark', 'low')).rejects.toThrow('Collector daemon is not running');
+
+            // The daemon stored its batch, closed its session and the intention period
+            const [session] = await sessions.getRecentSessions(1);
+            expect(session).toMatchObject({ status: 'completed', source: 'continuous' });
+            const stored = await trials.getTrialsBySession(session.id);
+            expect(stored.length).toBeGreaterThanOrEqual(2);
+            expect(stored.some(trial => trial.intention === 'high')).toBe(true);
+
+            const [period] = await intentions.getIntentionPeriodsInRange(session.startTime, new Date());
+            expect(period).toMatchObject({ intention: 'high', sessionId: session.id });
+            expect(period.endTime).not.toBeNull();
+
+            const log = jest.spyOn(console, 'log');
+            await expect(run('report')).resolves.toBe(0);
+            const report = log.mock.calls.map(call => String(call[0])).find(line => line.startsWith('Daily report for'));
+            log.mockRestore();
+            expect(report).toContain(`Trials: ${stored.length}`);
+            expect(report).toContain('Intention periods: 1 (1 high, 0 low');
+
+            // With the daemon gone the desktop may collect again
+            expect((await desktop.getStatus()).externalCollector).toBeNull();
+            await desktop.start();
+            expect(readCollectorLock(collectorLockPath(dbPath))).toMatchObject({ owner: 'desktop' });
+            await desktop.stop();
+            expect(readCollectorLock(collectorLockPath(dbPath))).toBeNull();
+        } finally {
+            await daemon.stop();
+            await desktop.destroy();
+            desktopEngine.destroy();
+        }
+    }, 20000);
+});
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createRNGEngine, RNGEngine } from '../../src/core/rng-engine';
+import { createEntropySource } from '../../src/core/entropy';
+import { createStatisticalAnalyzer } from '../../src/core/statistics';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { FormalEventRepository } from '../../src/database/repositories/event-repository';
+import { ContinuousDataCollector } from '../../src/main/continuous-manager';
+import { BackgroundAnalyzer } from '../../src/main/background-analyzer';
+import { CorrelationResult, RNGTrial } from '../../src/shared/types';
+
+const MINUTE = 60 * 1000;
+
+describe('Continuous pipeline', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let intentions: IntentionRepository;
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-continuous-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        intentions = new IntentionRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('collects and analyzes an hour of simulated time', async () => {
+        // Local 09:00 so the whole hour falls on one calendar day in any time zone
+        const start = new Date(2024, 2, 1, 9).getTime();
+        jest.useFakeTimers({ now: start });
+
+        let engine: RNGEngine | null = null;
+        let collector: ContinuousDataCollector | null = null;
+        let analyzer: BackgroundAnalyzer | null = null;
+
+        try {
+            engine = createRNGEngine(
+                { qualityMonitoring: false },
+                createEntropySource({ engine: 'software', backupEngine: 'software', seed: 'continuous-hour' })
+            );
+            collector = new ContinuousDataCollector(engine, sessions, trials, intentions);
+            analyzer = new BackgroundAnalyzer(trials, intentions, new FormalEventRepository(dbManager), createStatisticalAnalyzer());
+
+            const generated: RNGTrial[] = [];
+            const analyses: Array<{ timestamp: Date; correlations: CorrelationResult[] }> = [];
+            collector.on('trialGenerated', (trial: RNGTrial) => generated.push(trial));
+            analyzer.on('analysisComplete', analysis => analyses.push(analysis));
+
+            await collector.start();
+            analyzer.startPeriodicAnalysis(5);
+
+            await jest.advanceTimersByTimeAsync(10 * MINUTE);
+            const high = await collector.startIntentionPeriod('high', 'Morning focus');
+            await jest.advanceTimersByTimeAsync(20 * MINUTE);
+            // Starting a new period ends the running one
+            const low = await collector.startIntentionPeriod('low');
+            await jest.advanceTimersByTimeAsync(10 * MINUTE);
+            await collector.endIntentionPeriod();
+            await jest.advanceTimersByTimeAsync(20 * MINUTE);
+
+            await collector.stop();
+            analyzer.stopPeriodicAnalysis();
+
+            // One trial per second, all stored in the run's session
+            expect(generated).toHaveLength(3600);
+            const sessionId = generated[0].sessionId;
+            expect(await sessions.getSession(sessionId)).toMatchObject({
+                source: 'continuous',
+                status: 'completed',
+                startTime: new Date(start),
+                endTime: new Date(start + 60 * MINUTE),
+                duration: 60 * MINUTE
+            });
+
+            const stored = await trials.getTrialsBySession(sessionId);
+            expect(stored).toHaveLength(3600);
+            expect(stored.map(trial => trial.trialNumber)).toEqual(generated.map(trial => trial.trialNumber));
+            expect(stored.every(trial => trial.experimentMode === 'continuous')).toBe(true);
+            expect(stored.filter(trial => trial.intention === 'high')).toHaveLength(1200);
+            expect(stored.filter(trial => trial.intention === 'low')).toHaveLength(600);
+            expect(stored.filter(trial => trial.intention === null)).toHaveLength(1800);
+            expect(stored[1200].intention).toBe('high');
+
+            // Intention periods are stored against the run
+            const periods = await intentions.getIntentionPeriodsInRange(new Date(start), new Date(start + 60 * MINUTE));
+            expect(periods.map(period => [period.id, period.intention, period.sessionId])).toEqual([
+                [high.id, 'high', sessionId],
+                [low.id, 'low', sessionId]
+            ]);
+            expect(periods[0].endTime).toEqual(new Date(start + 30 * MINUTE));
+            expect(periods[1].endTime).toEqual(new Date(start + 40 * MINUTE));
+
+            const status = await collector.getStatus();
+            expect(status).toMatchObject({ isRunning: false, totalTrials: 3600, currentIntentionPeriod: null });
+            expect(status.todayStats.trialsCollected).toBe(3600);
+            expect(status.todayStats.intentionPeriods).toBe(2);
+            expect(status.todayStats.averageDeviation).toBeGreaterThan(0);
+
+            // Analysis every five minutes reads the stored trials and intention periods
+            expect(analyses).toHaveLength(12);
+            expect(analyses[11].correlations.map(correlation => correlation.data.labels)).toEqual(
+                expect.arrayContaining([['Baseline', 'High Intention'], ['Baseline', 'Low Intention']])
+            );
+
+            const report = await analyzer.generateDailyReport(new Date(start));
+            expect(report.totalTrials).toBe(3600);
+            expect(report.intentionPeriods).toBe(2);
+            expect(report.intentionAnalysis.highPeriods).toHaveLength(1);
+            expect(report.intentionAnalysis.lowPeriods).toHaveLength(1);
+            expect(report.statistics.trialCount).toBe(3600);
+        } finally {
+            analyzer?.destroy();
+            await collector?.destroy();
+            engine?.destroy();
+            jest.useRealTimers();
+        }
+    });
+
+    test('refuses to edit notes without an active intention period', async () => {
+        const engine = createRNGEngine({ qualityMonitoring: false });
+        const collector = new ContinuousDataCollector(engine, sessions, trials, intentions);
+
+        try {
+            await expect(collector.updateIntentionNotes('note')).rejects.toThrow('No active intention period');
+
+            const period = await collector.startIntentionPeriod('high', 'Before');
+            await collector.updateIntentionNotes('After');
+            expect((await intentions.getIntentionPeriod(period.id))!.notes).toBe('After');
+            // Marked while collection was stopped: no run to link to
+            expect((await intentions.getIntentionPeriod(period.id))!.sessionId).toBeNull();
+            await collector.endIntentionPeriod();
+        } finally {
+            await collector.destroy();
+            engine.destroy();
+        }
+    });
+});
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { ParticipantRepository } from '../../src/database/repositories/participant-repository';
+import { DataExporter } from '../../src/database/export';
+import { parseBatchArgs } from '../../src/database/export/batch-export';
+import { RNGTrial } from '../../src/shared/types';
+
+interface MatArray {
+    arrayClass: number;
+    dims: number[];
+    name: string;
+    fields?: Record<string, MatArray>;
+    cells?: MatArray[];
+    values?: number[];
+    text?: string;
+}
+
+/**
+ * Minimal reader for the uncompressed level 5 MAT-files the exporter writes
+ */
+function readMatArray(buffer: Buffer, offset: number): { array: MatArray; end: number } {
+    expect(buffer.readInt32LE(offset)).toBe(14);
+    const end = offset + 8 + buffer.readInt32LE(offset + 4);
+    let position = offset + 8;
+
+    const element = () => {
+        const word = buffer.readUInt32LE(position);
+        if (word >>> 16 !== 0) {
+            const data = buffer.subarray(position + 4, position + 4 + (word >>> 16));
+            position += 8;
+            return data;
+        }
+        const size = buffer.readInt32LE(position + 4);
+        const data = buffer.subarray(position + 8, position + 8 + size);
+        position += 8 + Math.ceil(size / 8) * 8;
+        return data;
+    };
+
+    const arrayClass = element().readUInt32LE(0) & 0xff;
+    const dimsData = element();
+    const dims = Array.from({ length: dimsData.length / 4 }, (_, i) => dimsData.readInt32LE(4 * i));
+    const name = element().toString('ascii');
+    const array: MatArray = { arrayClass, dims, name };
+    const count = dims.reduce((product, size) => product * size, 1);
+
+    if (arrayClass === 2) {
+        const nameLength = element().readInt32LE(0);
+        const names = element();
+        array.fields = {};
+        for (let i = 0; i < names.length / nameLength; i++) {
+            const field = names.toString('ascii', i * nameLength, (i + 1) * nameLength).replace(/\0+$/, '');
+            const child = readMatArray(buffer, position);
+            array.fields[field] = child.array;
+            position = child.end;
+        }
+    } else if (arrayClass === 1) {
+        array.cells = [];
+        for (let i = 0; i < count; i++) {
+            const child = readMatArray(buffer, position);
+            array.cells.push(child.array);
+            position = child.end;
+        }
+    } else if (arrayClass === 4) {
+        const data = element();
+        array.text = String.fromCharCode(...Array.from({ length: data.length / 2 }, (_, i) => data.readUInt16LE(2 * i)));
+    } else {
+        const data = element();
+        array.values = Array.from({ length: data.length / 8 }, (_, i) => data.readDoubleLE(8 * i));
+    }
+
+    return { array, end };
+}
+
+/**
+ * Minimal reader for the dictionary and first case of an uncompressed .sav file
+ */
+function readSav(buffer: Buffer) {
+    const variables: Array<{ name: string; width: number; label?: string }> = [];
+    const valueLabels: string[][] = [];
+    let longNames = '';
+    let offset = 176;
+
+    for (;;) {
+        const type = buffer.readInt32LE(offset);
+        offset += 4;
+
+        if (type === 2) {
+            const width = buffer.readInt32LE(offset);
+            const hasLabel = buffer.readInt32LE(offset + 4);
+            const name = buffer.toString('ascii', offset + 20, offset + 28).trim();
+            offset += 28;
+            let label: string | undefined;
+            if (hasLabel) {
+                const length = buffer.readInt32LE(offset);
+                label = buffer.toString('utf8', offset + 4, offset + 4 + length);
+                offset += 4 + Math.ceil(length / 4) * 4;
+            }
+            variables.push({ name, width, label });
+        } else if (type === 3) {
+            const count = buffer.readInt32LE(offset);
+            offset += 4;
+            const labels: string[] = [];
+            for (let i = 0; i < count; i++) {
+                const length = buffer.readUInt8(offset + 8);
+                labels.push(buffer.toString('utf8', offset + 9, offset + 9 + length));
+                offset += 8 + Math.ceil((length + 1) / 8) * 8;
+            }
+            valueLabels.push(labels);
+        } else if (type === 4) {
+            offset += 4 + 4 * buffer.readInt32LE(offset);
+        } else if (type === 7) {
+            const subtype = buffer.readInt32LE(offset);
+            const size = buffer.readInt32LE(offset + 4) * buffer.readInt32LE(offset + 8);
+            if (subtype === 13) longNames = buffer.toString('utf8', offset + 12, offset + 12 + size);
+            offset += 12 + size;
+        } else {
+            expect(type).toBe(999);
+            offset += 4;
+            break;
+        }
+    }
+
+    return {
+        magic: buffer.toString('ascii', 0, 4),
+        caseSize: buffer.readInt32LE(68),
+        caseCount: buffer.readInt32LE(80),
+        variables,
+        valueLabels,
+        longNames: longNames.split('\t').map(entry => entry.split('=')[1]),
+        dataOffset: offset
+    };
+}
+
+describe('Data export', () => {
+    let tempDir: string;
+    let exportDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let exporter: DataExporter;
+    let highSessionId: string;
+
+    const start = Date.UTC(2024, 5, 3, 9);
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-export-'));
+        exportDir = path.join(tempDir, 'out');
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        exporter = new DataExporter(dbManager);
+        const participant = await new ParticipantRepository(dbManager).resolveParticipant('OP-EXPORT');
+
+        const seed = async (intention: 'high' | 'low', offsetMinutes: number, values: number[]) => {
+            const sessionStart = start + offsetMinutes * 60 * 1000;
+            const sessionId = await sessions.createSession({
+                startTime: new Date(sessionStart),
+                endTime: new Date(sessionStart + values.length * 1000),
+                intention,
+                targetTrials: values.length,
+                status: 'completed',
+                participantId: participant.id,
+                feedback: 'counter',
+                notes: 'Quiet room, "focused"'
+            });
+            const sessionTrials: RNGTrial[] = values.map((trialValue, i) => ({
+                timestamp: new Date(sessionStart + i * 1000),
+                trialValue,
+                sessionId,
+                experimentMode: 'session',
+                intention,
+                trialNumber: i + 1
+            }));
+            await trials.insertTrialsBatch(sessionTrials);
+            return sessionId;
+        };
+
+        highSessionId = await seed('high', 0, Array.from({ length: 100 }, (_, i) => i % 2 === 0 ? 104 : 100));
+        await seed('low', 30, Array.from({ length: 50 }, () => 98));
+        await new IntentionRepository(dbManager).startIntentionPeriod('high', 'Evening meditation', participant.id);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('collects sessions, trials and per-session statistics', async () => {
+        const dataset = await exporter.collect({ sessionIds: [highSessionId] });
+        const table = (name: string) => dataset.tables.find(t => t.name === name)!;
+
+        expect(dataset.tables.map(t => t.name)).toEqual(['sessions', 'trials', 'intention_periods', 'session_statistics']);
+        expect(table('sessions').rows).toHaveLength(1);
+        expect(table('trials').rows).toHaveLength(100);
+        expect(table('intention_periods').rows).toHaveLength(0);
+
+        const session = table('sessions').rows[0];
+        const column = (name: string) => table('sessions').columns.findIndex(c => c.name === name);
+        expect(session[column('participant')]).toBe('OP-EXPORT');
+        expect(session[column('feedback')]).toBe('counter');
+        expect(session[column('start_time')]).toBe(start);
+
+        // 50 trials at +4: deviation 200 over sqrt(50 * 100)
+        const [stats] = table('session_statistics').rows;
+        const statistic = (name: string) => stats[table('session_statistics').columns.findIndex(c => c.name === name)] as number;
+        expect(statistic('trial_count')).toBe(100);
+        expect(statistic('mean')).toBeCloseTo(102, 10);
+        expect(statistic('cumulative_deviation')).toBe(200);
+        expect(statistic('z_score')).toBeCloseTo(200 / Math.sqrt(5000), 10);
+        expect(statistic('p_value')).toBeCloseTo(0.004678, 5);
+        expect(statistic('variance')).toBeCloseTo(400 / 99, 8);
+    });
+
+    test('writes a multi-sheet workbook with real dates and logs the export', async () => {
+        const result = await exporter.exportData({ format: 'xlsx' }, { directory: exportDir });
+
+        expect(result).toMatchObject({ format: 'xlsx', sessionCount: 2, trialCount: 150 });
+        expect(result.files).toHaveLength(1);
+
+        const workbook = XLSX.readFile(result.filePath, { cellNF: true });
+        expect(workbook.SheetNames).toEqual([
+            'sessions', 'trials', 'intention_periods', 'session_statistics', 'dictionary', 'export_info'
+        ]);
+
+        const trialRows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.trials);
+        expect(trialRows).toHaveLength(150);
+        expect(trialRows[0]).toMatchObject({ trial_number: 1, trial_value: 104, intention: 'high', experiment_mode: 'session' });
+
+        const firstTimestamp = workbook.Sheets.trials.B2;
+        expect(firstTimestamp.t).toBe('n');
+        expect(firstTimestamp.v).toBeCloseTo(start / 86400000 + 25569, 8);
+        expect(firstTimestamp.z).toBe('yyyy-mm-dd hh:mm:ss.000');
+
+        const dictionary = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets.dictionary);
+        expect(dictionary.find(row => row.table === 'sessions' && row.variable === 'feedback')).toMatchObject({
+            type: 'factor',
+            levels: 'chart;audio;pendulum;fountain;counter;none'
+        });
+
+        const logged = dbManager.getConnection()
+            .prepare('SELECT export_type, trial_count, checksum FROM export_log WHERE file_path = ?')
+            .get(result.filePath);
+        expect(logged).toEqual({ export_type: 'xlsx', trial_count: 150, checksum: result.checksum });
+    });
+
+    test('writes an R bundle that restores factors and labels', async () => {
+        const result = await exporter.exportData({ format: 'r', sessionIds: [highSessionId] }, { directory: exportDir, prefix: 'pilot' });
+        const names = result.files!.map(file => path.basename(file.filePath));
+
+        expect(path.basename(result.filePath)).toMatch(/^pilot-.*\.R$/);
+        expect(names.slice(1).map(name => name.replace(/^pilot-[^_]+_/, ''))).toEqual([
+            'sessions.csv', 'trials.csv', 'intention_periods.csv', 'session_statistics.csv', 'dictionary.csv'
+        ]);
+
+        const script = fs.readFileSync(result.filePath, 'utf8');
+        expect(script).toContain('sessions$intention <- factor(sessions$intention, levels = c("high", "low", "baseline"))');
+        expect(script).toContain('trials$timestamp <- as.POSIXct(trials$timestamp, format = "%Y-%m-%dT%H:%M:%OS", tz = "UTC")');
+        expect(script).toContain('attr(sessions$duration, "label") <- "Session duration (ms)"');
+
+        const sessionsCsv = fs.readFileSync(result.files![1].filePath, 'utf8').split('\r\n');
+        expect(sessionsCsv[0]).toBe('id,participant,start_time,end_time,intention,feedback,status,target_trials,actual_trials,duration,preregistration_id,notes');
+        expect(sessionsCsv[1]).toContain(`,OP-EXPORT,${new Date(start).toISOString()},`);
+        expect(sessionsCsv[1]).toMatch(/,"Quiet room, ""focused"""$/);
+    });
+
+    test('writes a level 5 MAT-file with one struct per table', async () => {
+        const result = await exporter.exportData({ format: 'matlab', sessionIds: [highSessionId] }, { directory: exportDir });
+        const buffer = fs.readFileSync(result.filePath);
+
+        expect(buffer.toString('ascii', 0, 19)).toBe('MATLAB 5.0 MAT-file');
+        expect(buffer.readUInt16LE(124)).toBe(0x0100);
+        expect(buffer.toString('ascii', 126, 128)).toBe('IM');
+
+        const variables: Record<string, MatArray> = {};
+        for (let offset = 128; offset < buffer.length;) {
+            const { array, end } = readMatArray(buffer, offset);
+            variables[array.name] = array;
+            offset = end;
+        }
+        expect(Object.keys(variables)).toEqual([
+            'sessions', 'trials', 'intention_periods', 'session_statistics', 'dictionary', 'export_info'
+        ]);
+
+        const trialStruct = variables.trials.fields!;
+        expect(trialStruct.trial_value.dims).toEqual([100, 1]);
+        expect(trialStruct.trial_value.values!.slice(0, 3)).toEqual([104, 100, 104]);
+        expect(trialStruct.timestamp.values![0]).toBeCloseTo(start / 86400000 + 719529, 8);
+        expect(trialStruct.intention.values![0]).toBe(1);
+        expect(trialStruct.session_id.cells![0].text).toBe(highSessionId);
+
+        const dictionary = variables.dictionary.fields!;
+        const row = dictionary.variable.cells!.findIndex(cell => cell.text === 'experiment_mode');
+        expect(dictionary.levels.cells![row].text).toBe('session;continuous');
+        expect(variables.export_info.fields!.time_zone.text).toBe('UTC');
+    });
+
+    test('writes SPSS system files with long names and value labels', async () => {
+        const result = await exporter.exportData({ format: 'spss', sessionIds: [highSessionId] }, { directory: exportDir });
+        const trialsFile = result.files!.find(file => file.filePath.endsWith('_trials.sav'))!;
+        const buffer = fs.readFileSync(trialsFile.filePath);
+        const sav = readSav(buffer);
+
+        expect(sav.magic).toBe('$FL2');
+        expect(sav.caseCount).toBe(100);
+
+        // session_id is a 36-byte string: one record plus four continuations
+        const named = sav.variables.filter(variable => variable.width !== -1);
+        expect(named.map(variable => variable.name)).toEqual(['SESSION_', 'TIMESTAM', 'TRIAL_NU', 'TRIAL_VA', 'EXPERIME', 'INTENTIO']);
+        expect(sav.longNames).toEqual(['session_id', 'timestamp', 'trial_number', 'trial_value', 'experiment_mode', 'intention']);
+        expect(named[0].width).toBe(36);
+        expect(sav.caseSize).toBe(5 + 5);
+        expect(sav.valueLabels).toEqual([['session', 'continuous'], ['high', 'low', 'baseline']]);
+        expect(buffer.length).toBe(sav.dataOffset + 100 * sav.caseSize * 8);
+
+        const firstCase = sav.dataOffset;
+        expect(buffer.toString('ascii', firstCase, firstCase + 36)).toBe(highSessionId);
+        expect(buffer.readDoubleLE(firstCase + 40)).toBe(start / 1000 + 12219379200);
+        expect(buffer.readDoubleLE(firstCase + 48)).toBe(1);
+        expect(buffer.readDoubleLE(firstCase + 56)).toBe(104);
+        expect(buffer.readDoubleLE(firstCase + 64)).toBe(1);
+        expect(buffer.readDoubleLE(firstCase + 72)).toBe(1);
+    });
+
+    test('parses batch export arguments', () => {
+        expect(parseBatchArgs(['--db', 'data.db', '--format', 'xlsx,spss', '--from', '2024-01-01', '--session', 'a', '--session', 'b']))
+            .toEqual({
+                dbPath: 'data.db',
+                formats: ['xlsx', 'spss'],
+                startDate: new Date('2024-01-01'),
+                sessionIds: ['a', 'b']
+            });
+        expect(() => parseBatchArgs(['--db', 'data.db', '--format', 'sas'])).toThrow('Unknown format "sas"');
+        expect(() => parseBatchArgs(['--format', 'csv'])).toThrow('--db is required');
+    });
+});
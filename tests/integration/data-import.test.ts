@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { ParticipantRepository } from '../../src/database/repositories/participant-repository';
+import { DataExporter } from '../../src/database/export';
+import { DataImporter } from '../../src/main/import';
+import { AdvancedStatistics } from '../../src/core/advanced-statistics';
+import { RNGTrial } from '../../src/shared/types';
+
+const GCP_SAMPLE = [
+    '10,Egg data extract,2010-01-01',
+    '12,gmtime,Date/Time,1004,1005,1013',
+    '13,1262304000,2010-01-01 00:00:00,98,104,',
+    '13,1262304001,2010-01-01 00:00:01,101,250,99',
+    '13,x,2010-01-01 00:00:02,100,100,100',
+    '13,1262304003,2010-01-01 00:00:03,102,,x'
+].join('\r\n');
+
+describe('Data import', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let importer: DataImporter;
+
+    const countRows = (table: string) =>
+        (dbManager.getConnection().prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-import-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        importer = new DataImporter(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('imports GCP eggs as sessions with provenance and reports rejected rows', async () => {
+        const report = await importer.importText(GCP_SAMPLE, { format: 'gcp', fileName: 'basket-2010-01-01.csv' });
+
+        expect(report).toMatchObject({
+            format: 'gcp',
+            source: 'gcp:basket-2010-01-01.csv',
+            trialCount: 5,
+            rejectedCount: 3,
+            checksum: crypto.createHash('sha256').update(GCP_SAMPLE).digest('hex')
+        });
+        expect(report.sessionIds).toHaveLength(3);
+        expect(report.rejected.map(row => row.line)).toEqual([4, 5, 6]);
+        expect(report.rejected[0].reason).toMatch(/^egg-1005: Trial value 250 is outside valid range/);
+        expect(report.rejected[1].reason).toBe('Unreadable gmtime "x"');
+
+        const imported = await sessions.getRecentSessions(10, { importId: report.importId });
+        expect(imported.map(session => session.source).sort()).toEqual([
+            'gcp:basket-2010-01-01.csv#egg-1004',
+            'gcp:basket-2010-01-01.csv#egg-1005',
+            'gcp:basket-2010-01-01.csv#egg-1013'
+        ]);
+
+        const egg = imported.find(session => session.source!.endsWith('egg-1004'))!;
+        expect(egg).toMatchObject({
+            intention: 'baseline',
+            status: 'completed',
+            targetTrials: 3,
+            notes: 'GCP egg 1004',
+            startTime: new Date(1262304000000),
+            endTime: new Date(1262304003000),
+            duration: 3000
+        });
+
+        const eggTrials = await trials.getTrialsBySession(egg.id);
+        expect(eggTrials.map(trial => trial.trialValue)).toEqual([98, 101, 102]);
+        expect(eggTrials.map(trial => trial.trialNumber)).toEqual([1, 2, 3]);
+        expect(eggTrials.every(trial => trial.deviceId === '1004')).toBe(true);
+
+        const logged = dbManager.getConnection()
+            .prepare('SELECT * FROM data_imports WHERE id = ?').get(report.importId) as Record<string, unknown>;
+        expect(logged).toMatchObject({ format: 'gcp', session_count: 3, trial_count: 5, rejected_count: 3 });
+
+        // The imported network can be analyzed like a recorded one
+        const network: RNGTrial[] = [];
+        for (const sessionId of report.sessionIds) {
+            network.push(...await trials.getTrialsBySession(sessionId));
+        }
+        const netvar = AdvancedStatistics.calculateNetworkVariance(network);
+        expect(netvar.degreesOfFreedom).toBeGreaterThan(0);
+        expect(Number.isFinite(netvar.netvar)).toBe(true);
+
+        // Eggs are devices; blank cells and rejected values leave two, two and one egg per second
+        const eggNetwork = AdvancedStatistics.calculateMultiDeviceNetwork(network);
+        expect(eggNetwork.deviceIds).toEqual(['1004', '1005', '1013']);
+        expect(eggNetwork.seconds.map(second => second.deviceCount)).toEqual([2, 2, 1]);
+    });
+
+    test('imports a generic CSV with a header and mixed timestamp styles', async () => {
+        const content = [
+            '# exported from a bench RNG',
+            'time,value',
+            '2024-03-01T12:00:00Z,100',
+            '1709294401,103',
+            '1709294402000,97',
+            'yesterday,100',
+            '1709294404'
+        ].join('\n');
+
+        const report = await importer.importText(content, {
+            format: 'csv',
+            fileName: 'bench.csv',
+            source: 'Bench RNG #2',
+            intention: 'high'
+        });
+
+        expect(report).toMatchObject({ trialCount: 3, rejectedCount: 2, source: 'Bench RNG #2' });
+        expect(report.rejected).toEqual([
+            { line: 6, reason: 'Unreadable timestamp "yesterday"' },
+            { line: 7, reason: 'Expected at least 2 fields, got 1' }
+        ]);
+
+        const session = (await sessions.getSession(report.sessionIds[0]))!;
+        expect(session).toMatchObject({ source: 'Bench RNG #2', intention: 'high', importId: report.importId });
+
+        const imported = await trials.getTrialsBySession(session.id);
+        expect(imported.map(trial => trial.timestamp.getTime())).toEqual([1709294400000, 1709294401000, 1709294402000]);
+        expect(imported.every(trial => trial.intention === 'high')).toBe(true);
+    });
+
+    test('round-trips a JSON export keeping intentions and participant codes', async () => {
+        const participants = new ParticipantRepository(dbManager);
+        const participantId = await participants.registerParticipant({ code: 'P-07' });
+        const start = Date.UTC(2024, 4, 2, 9);
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + 4000),
+            intention: 'low',
+            targetTrials: 4,
+            status: 'completed',
+            participantId,
+            feedback: 'audio',
+            notes: 'Evening run'
+        });
+        await trials.insertTrialsBatch([96, 99, 101, 94].map((trialValue, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId,
+            experimentMode: 'session' as const,
+            intention: 'low' as const,
+            trialNumber: i + 1
+        })));
+
+        const exported = await new DataExporter(dbManager).exportData(
+            { format: 'json', sessionIds: [sessionId] },
+            { directory: path.join(tempDir, 'out') }
+        );
+
+        const report = await importer.importFile(exported.filePath, { format: 'json' });
+        expect(report).toMatchObject({ trialCount: 4, rejectedCount: 0, fileName: path.basename(exported.filePath) });
+
+        const copy = (await sessions.getSession(report.sessionIds[0]))!;
+        expect(copy.id).not.toBe(sessionId);
+        expect(copy).toMatchObject({
+            intention: 'low',
+            feedback: 'audio',
+            notes: 'Evening run',
+            participantId,
+            source: `json:${path.basename(exported.filePath)}`
+        });
+
+        const copied = await trials.getTrialsBySession(copy.id);
+        expect(copied.map(trial => trial.trialValue)).toEqual([96, 99, 101, 94]);
+        expect(copied.every(trial => trial.intention === 'low')).toBe(true);
+    });
+
+    test('writes nothing when a file cannot be parsed', async () => {
+        const before = [countRows('sessions'), countRows('trials'), countRows('data_imports')];
+
+        await expect(importer.importText('13,1262304000,2010-01-01 00:00:00,98', { format: 'gcp', fileName: 'bad.csv' }))
+            .rejects.toThrow('Import failed: No type 12 header record');
+        await expect(importer.importText('{"tables":', { format: 'json', fileName: 'bad.json' }))
+            .rejects.toThrow('Import failed: Invalid JSON');
+
+        expect([countRows('sessions'), countRows('trials'), countRows('data_imports')]).toEqual(before);
+    });
+});
@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { DataExporter, buildDataPackage } from '../../src/database/export';
+import { crc32 } from '../../src/database/export/zip-writer';
+import { RNGTrial } from '../../src/shared/types';
+
+/**
+ * Entries of a zip archive, read through its central directory
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+    const end = buffer.length - 22;
+    expect(buffer.readUInt32LE(end)).toBe(0x06054b50);
+
+    const entries = new Map<string, Buffer>();
+    let position = buffer.readUInt32LE(end + 16);
+    for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+        expect(buffer.readUInt32LE(position)).toBe(0x02014b50);
+        const method = buffer.readUInt16LE(position + 10);
+        const crc = buffer.readUInt32LE(position + 16);
+        const compressedSize = buffer.readUInt32LE(position + 20);
+        const nameLength = buffer.readUInt16LE(position + 28);
+        const name = buffer.toString('utf8', position + 46, position + 46 + nameLength);
+        const local = buffer.readUInt32LE(position + 42);
+
+        const dataStart = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+        const body = buffer.subarray(dataStart, dataStart + compressedSize);
+        const data = method === 8 ? zlib.inflateRawSync(body) : body;
+        expect(crc32(data)).toBe(crc);
+
+        entries.set(name, data);
+        position += 46 + nameLength + buffer.readUInt16LE(position + 30) + buffer.readUInt16LE(position + 32);
+    }
+    return entries;
+}
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+describe('Data package publishing', () => {
+    let tempDir: string;
+    let exportDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let exporter: DataExporter;
+
+    const start = Date.UTC(2024, 8, 10, 14);
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-package-'));
+        exportDir = path.join(tempDir, 'out');
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        exporter = new DataExporter(dbManager);
+        const sessions = new SessionRepository(dbManager);
+
+        const seed = async (intention: 'high' | 'low', offsetMinutes: number, values: number[]) => {
+            const sessionStart = start + offsetMinutes * 60 * 1000;
+            const sessionId = await sessions.createSession({
+                startTime: new Date(sessionStart),
+                endTime: new Date(sessionStart + values.length * 1000),
+                intention,
+                targetTrials: values.length,
+                status: 'completed'
+            });
+            const sessionTrials: RNGTrial[] = values.map((trialValue, i) => ({
+                timestamp: new Date(sessionStart + i * 1000),
+                trialValue,
+                sessionId,
+                experimentMode: 'session',
+                intention,
+                trialNumber: i + 1
+            }));
+            await trials.insertTrialsBatch(sessionTrials);
+        };
+
+        await seed('high', 0, Array.from({ length: 50 }, () => 102));
+        await seed('high', 20, Array.from({ length: 50 }, () => 100));
+        await seed('low', 40, Array.from({ length: 25 }, () => 99));
+
+        dbManager.getConnection().prepare(`
+            INSERT INTO calibration_runs (
+                id, start_time, end_time, trial_count, mean_value, variance, standard_deviation,
+                z_score, p_value, passed_randomness_test
+            ) VALUES ('cal-1', ?, ?, 1000, 100.02, 49.8, 7.057, 0.089, 0.929, 1)
+        `).run(start - 3600000, start - 2600000);
+
+        // An earlier export whose checksum the package should carry
+        await exporter.exportData({ format: 'csv' }, { directory: exportDir });
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('builds the package model with schemas, units and pooled analyses', async () => {
+        const dataset = await exporter.collect({ includeCalibrations: true });
+        const pkg = buildDataPackage({ ...dataset, details: { title: 'Pilot study', creator: 'RNG Lab' } });
+
+        expect(pkg.metadata).toMatchObject({ title: 'Pilot study', creator: 'RNG Lab', version: '1.0.0' });
+        expect(pkg.datasets.map(d => d.name)).toEqual(['sessions', 'trials', 'intention_periods', 'session_statistics', 'calibrations']);
+
+        const trialSchema = pkg.datasets.find(d => d.name === 'trials')!.schema;
+        expect(trialSchema.find(field => field.field === 'timestamp')).toMatchObject({ type: 'datetime', units: 'UTC' });
+        expect(trialSchema.find(field => field.field === 'intention')!.constraints).toEqual({ enum: ['high', 'low', 'baseline'] });
+
+        const pooledHigh = pkg.analyses.find(analysis => analysis.id === 'pooled-z-high')!;
+        expect(pooledHigh.results).toMatchObject({ sessionCount: 2, trialCount: 100, cumulativeDeviation: 100 });
+        expect(pooledHigh.results.zScore).toBeCloseTo(100 / Math.sqrt(5000), 10);
+        expect(pooledHigh.significance).toBeCloseTo(0.1573, 4);
+        expect(pkg.analyses.filter(analysis => analysis.analysisType === 'session_z_test')).toHaveLength(3);
+
+        expect(pkg.documentation.map(doc => doc.type)).toEqual(['methodology', 'analysis', 'citation', 'replication']);
+        expect(pkg.documentation.find(doc => doc.type === 'citation')!.content).toContain('RNG Lab (');
+    });
+
+    test('publishes a zip with a Frictionless descriptor, checksums and documentation', async () => {
+        const result = await exporter.publishPackage({
+            details: { title: 'Pilot Study 2024', creator: 'RNG Lab', keywords: ['pilot'] }
+        }, { directory: exportDir });
+
+        expect(result).toMatchObject({ format: 'datapackage', sessionCount: 3, trialCount: 125 });
+        expect(path.basename(result.filePath)).toMatch(/^rng-datapackage-.*\.zip$/);
+        expect(result.checksum).toBe(sha256(fs.readFileSync(result.filePath)));
+
+        const entries = readZip(fs.readFileSync(result.filePath));
+        expect([...entries.keys()]).toEqual([
+            'datapackage.json',
+            'README.md',
+            'data/sessions.csv',
+            'data/trials.csv',
+            'data/intention_periods.csv',
+            'data/session_statistics.csv',
+            'data/calibrations.csv',
+            'data/export_log.csv',
+            'analysis/results.json',
+            'docs/methodology.md',
+            'docs/analysis.md',
+            'CITATION.txt',
+            'SHA256SUMS'
+        ]);
+
+        const descriptor = JSON.parse(entries.get('datapackage.json')!.toString('utf8'));
+        expect(descriptor).toMatchObject({
+            profile: 'tabular-data-package',
+            name: 'pilot-study-2024',
+            keywords: ['pilot'],
+            contributors: [{ title: 'RNG Lab', role: 'author' }]
+        });
+
+        for (const resource of descriptor.resources) {
+            const data = entries.get(resource.path)!;
+            expect(resource.bytes).toBe(data.length);
+            expect(resource.hash).toBe(`sha256:${sha256(data)}`);
+        }
+
+        const sessionsResource = descriptor.resources.find((resource: { name: string }) => resource.name === 'sessions');
+        const fields = sessionsResource.schema.fields;
+        expect(fields.find((field: { name: string }) => field.name === 'duration')).toMatchObject({ type: 'integer', unit: 'ms' });
+        expect(fields.find((field: { name: string }) => field.name === 'feedback').constraints.enum).toContain('pendulum');
+        expect(sessionsResource.schema.missingValues).toEqual(['']);
+
+        // Every file other than SHA256SUMS is listed with its hash
+        const sums = entries.get('SHA256SUMS')!.toString('utf8').trim().split('\n');
+        expect(sums).toHaveLength(entries.size - 1);
+        for (const line of sums) {
+            const [hash, name] = line.split('  ');
+            expect(sha256(entries.get(name)!)).toBe(hash);
+        }
+
+        const calibrations = entries.get('data/calibrations.csv')!.toString('utf8').split('\r\n');
+        expect(calibrations[0]).toBe('id,start_time,end_time,trial_count,mean_value,variance,standard_deviation,z_score,' +
+            'p_value,chi_square,runs_test,autocorrelation,passed_randomness_test,notes');
+        expect(calibrations[1]).toMatch(/^cal-1,2024-09-10T13:00:00.000Z,/);
+
+        // The earlier CSV export is carried with the checksum it was logged with
+        const logged = dbManager.getConnection()
+            .prepare('SELECT checksum FROM export_log WHERE export_type = ?').get('csv') as { checksum: string };
+        const exportLog = entries.get('data/export_log.csv')!.toString('utf8');
+        expect(exportLog).toContain(`,${logged.checksum},`);
+        expect(exportLog).not.toContain(tempDir);
+
+        const readme = entries.get('README.md')!.toString('utf8');
+        expect(readme).toContain('# Pilot Study 2024');
+        expect(readme).toContain('sha256sum -c SHA256SUMS');
+        expect(readme).toContain('| data/trials.csv | Trials (125 rows) |');
+
+        const analyses = JSON.parse(entries.get('analysis/results.json')!.toString('utf8'));
+        expect(analyses.find((analysis: { id: string }) => analysis.id === 'pooled-z-low').results.cumulativeDeviation).toBe(-25);
+
+        const logType = dbManager.getConnection()
+            .prepare('SELECT export_type FROM export_log WHERE checksum = ?').get(result.checksum) as { export_type: string };
+        expect(logType.export_type).toBe('datapackage');
+    });
+
+    test('renders the package through the shared export path', async () => {
+        const result = await exporter.exportData({ format: 'datapackage' }, { directory: exportDir, prefix: 'session' });
+        const entries = readZip(fs.readFileSync(result.filePath));
+
+        expect(entries.has('data/calibrations.csv')).toBe(false);
+        expect(entries.get('docs/methodology.md')!.toString('utf8')).toContain('sum of 200 random bits');
+        expect(entries.get('README.md')!.toString('utf8')).not.toContain('export_log');
+    });
+
+    test('computes the standard CRC-32', () => {
+        expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+});
@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { FormalEventRepository } from '../../src/database/repositories/event-repository';
+import { BackgroundAnalyzer } from '../../src/main/background-analyzer';
+import { FormalEventAnalyzer } from '../../src/core/formal-events';
+import { StatisticalUtils } from '../../src/core/statistical-utils';
+import { createStatisticalAnalyzer } from '../../src/core/statistics';
+import { FormalEvent, FormalEventDefinition } from '../../src/shared/analysis-types';
+import { RNGTrial } from '../../src/shared/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Formal event recipes', () => {
+    const base = Date.UTC(2024, 0, 1, 12);
+
+    // Device z per second: a = √2, √2/2, 0 and b = -√2, √2/2, -√2/2
+    const trials: RNGTrial[] = [
+        ['a', 0, 110], ['b', 400, 90],
+        ['a', 1000, 105], ['b', 1999, 105],
+        ['a', 2000, 100], ['b', 2500, 95]
+    ].map(([deviceId, offsetMs, trialValue]) => ({
+        timestamp: new Date(base + (offsetMs as number)),
+        trialValue: trialValue as number,
+        sessionId: 'network-run',
+        experimentMode: 'session',
+        intention: 'baseline',
+        trialNumber: 1,
+        deviceId: deviceId as string
+    }));
+
+    test('netvar and device variance convert their chi-square p to a z', () => {
+        const netvar = FormalEventAnalyzer.evaluate(trials, 'netvar');
+        expect(netvar).toMatchObject({ degreesOfFreedom: 3, deviceCount: 2, seconds: 3, trialCount: 6 });
+        expect(netvar.statistic).toBeCloseTo(1.25, 12);
+        expect(netvar.pValue).toBeCloseTo(StatisticalUtils.chiSquareProbability(1.25, 3), 12);
+        expect(netvar.zScore).toBeCloseTo(StatisticalUtils.normalInverse(1 - netvar.pValue), 12);
+        expect(netvar.zScore).toBeLessThan(0);
+
+        const deviceVariance = FormalEventAnalyzer.evaluate(trials, 'device_variance');
+        expect(deviceVariance.statistic).toBeCloseTo(5.5, 12);
+        expect(deviceVariance.degreesOfFreedom).toBe(6);
+    });
+
+    test('covariance sums the pair products of device z within each second', () => {
+        // Products -2, 0.5 and 0 over three pairs
+        const covariance = FormalEventAnalyzer.evaluate(trials, 'covariance');
+        expect(covariance.statistic).toBeCloseTo(-1.5, 12);
+        expect(covariance.degreesOfFreedom).toBe(3);
+        expect(covariance.zScore).toBeCloseTo(-1.5 / Math.sqrt(3), 12);
+        expect(covariance.pValue).toBeCloseTo(StatisticalUtils.normalProbabilityOneTailed(covariance.zScore), 12);
+
+        expect(() => FormalEventAnalyzer.evaluate(trials.filter(trial => trial.deviceId === 'a'), 'covariance'))
+            .toThrow('at least two devices');
+    });
+
+    test('accumulates Stouffer Z over evaluated events and over rejectable ones alone', () => {
+        const event = (id: string, endHour: number, zScore: number | null, rejectable: boolean): FormalEvent => ({
+            id,
+            name: id,
+            category: 'world',
+            recipe: 'netvar',
+            startTime: new Date(base + (endHour - 1) * HOUR),
+            endTime: new Date(base + endHour * HOUR),
+            registeredAt: new Date(base),
+            rejectable,
+            status: zScore === null ? 'pending' : 'evaluated',
+            result: zScore === null ? null : {
+                statistic: 0, degreesOfFreedom: 1, zScore, pValue: 0.5,
+                deviceCount: 2, seconds: 1, trialCount: 2, evaluatedAt: new Date(base)
+            }
+        });
+
+        const series = FormalEventAnalyzer.buildSeries([
+            event('late', 3, -0.5, false), event('first', 1, 1, true), event('second', 2, 2, true), event('open', 4, null, true)
+        ]);
+
+        expect(series.points.map(point => point.eventId)).toEqual(['first', 'second', 'late']);
+        expect(series.points.map(point => point.cumulativeDeviation)).toEqual([1, 3, 2.5]);
+        expect(series.points[1].cumulativeZ).toBeCloseTo(3 / Math.sqrt(2), 12);
+        expect(series.eventCount).toBe(3);
+        expect(series.stoufferZ).toBeCloseTo(2.5 / Math.sqrt(3), 12);
+        expect(series.rejectableCount).toBe(2);
+        expect(series.rejectableZ).toBeCloseTo(3 / Math.sqrt(2), 12);
+        expect(series.rejectablePValue).toBeCloseTo(StatisticalUtils.normalProbabilityOneTailed(series.rejectableZ), 12);
+
+        expect(FormalEventAnalyzer.buildSeries([])).toMatchObject({ eventCount: 0, stoufferZ: 0, pValue: 1 });
+    });
+});
+
+describe('Formal event registry', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let events: FormalEventRepository;
+    let analyzer: BackgroundAnalyzer;
+
+    const definition = (name: string, start: number, end: number): FormalEventDefinition => ({
+        name,
+        category: 'world',
+        recipe: 'netvar',
+        startTime: new Date(start),
+        endTime: new Date(end)
+    });
+
+    const recordNetwork = async (start: number, seconds: number) => {
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + seconds * 1000),
+            intention: 'baseline',
+            targetTrials: 0,
+            status: 'completed',
+            source: 'network:egg-a,egg-b'
+        });
+        const recorded: RNGTrial[] = [];
+        for (let second = 0; second < seconds; second++) {
+            for (const [deviceId, trialValue] of [['egg-a', 100 + (second % 5) - 2], ['egg-b', 104 - second % 7]] as const) {
+                recorded.push({
+                    timestamp: new Date(start + second * 1000 + 250),
+                    trialValue,
+                    sessionId,
+                    experimentMode: 'session',
+                    intention: 'baseline',
+                    trialNumber: second + 1,
+                    deviceId
+                });
+            }
+        }
+        await trials.insertTrialsBatch(recorded);
+        return recorded;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-events-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        events = new FormalEventRepository(dbManager);
+        analyzer = new BackgroundAnalyzer(trials, new IntentionRepository(dbManager), events, createStatisticalAnalyzer());
+    });
+
+    afterAll(() => {
+        analyzer.destroy();
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('flags events registered after their window opened as non-rejectable', async () => {
+        const start = Date.now() + HOUR;
+        const ahead = await analyzer.registerFormalEvent({ ...definition('Solstice', start, start + HOUR), category: 'personal' });
+        expect(ahead).toMatchObject({ name: 'Solstice', category: 'personal', rejectable: true, status: 'pending', result: null });
+
+        const afterTheFact = await analyzer.registerFormalEvent(definition('Earthquake', start - 3 * HOUR, start - 2 * HOUR));
+        expect(afterTheFact.rejectable).toBe(false);
+
+        await expect(analyzer.registerFormalEvent(definition('Backwards', start, start - 1)))
+            .rejects.toThrow('must end after it starts');
+        await expect(analyzer.registerFormalEvent(definition(' ', start, start + 1)))
+            .rejects.toThrow('needs a name');
+    });
+
+    test('evaluates closed windows once and leaves open ones pending', async () => {
+        const start = Date.UTC(2024, 5, 1, 10);
+        const recorded = await recordNetwork(start, 20);
+
+        // Registered a day ahead of the window
+        const formalId = await events.registerEvent(
+            { ...definition('Meditation', start, start + 10000), recipe: 'covariance' },
+            new Date(start - 24 * HOUR)
+        );
+        const emptyId = await events.registerEvent(definition('Quiet hour', start - 2 * HOUR, start - HOUR));
+
+        const evaluated = await analyzer.evaluateDueEvents();
+        const formal = evaluated.find(event => event.id === formalId)!;
+        expect(formal).toMatchObject({ status: 'evaluated', rejectable: true });
+        // The window is half-open: trials of second 10 belong to the next window
+        const expected = FormalEventAnalyzer.evaluate(recorded.slice(0, 20), 'covariance');
+        expect(formal.result).toMatchObject({ deviceCount: 2, seconds: 10, trialCount: 20, degreesOfFreedom: 10 });
+        expect(formal.result!.zScore).toBeCloseTo(expected.zScore, 12);
+        expect(formal.result!.statistic).toBeCloseTo(expected.statistic, 12);
+        expect(evaluated.find(event => event.id === emptyId)).toMatchObject({ status: 'no_data', result: null });
+
+        expect((await analyzer.listFormalEvents()).filter(event => event.status === 'pending').map(event => event.name))
+            .toEqual(['Solstice']);
+        await expect(analyzer.evaluateDueEvents()).resolves.toEqual([]);
+        await expect(events.recordResult(formalId, null)).rejects.toThrow('No pending formal event');
+
+        const series = await analyzer.getFormalEventSeries();
+        expect(series.eventCount).toBe(1);
+        expect(series.rejectableZ).toBeCloseTo(formal.result!.zScore, 12);
+        expect(series.events).toHaveLength(4);
+    });
+
+    test('monitoring evaluates an event once its window has closed', async () => {
+        const start = Date.UTC(2024, 5, 2, 10);
+        await recordNetwork(start, 5);
+        const eventId = await events.registerEvent(definition('Eclipse', start, start + 5000), new Date(start - HOUR));
+
+        const evaluated = once(analyzer, 'formalEventEvaluated');
+        await analyzer.startEventMonitoring();
+        const [event] = await evaluated;
+        analyzer.stopEventMonitoring();
+
+        expect(event).toMatchObject({ id: eventId, status: 'evaluated' });
+        expect(event.result.seconds).toBe(5);
+    });
+});
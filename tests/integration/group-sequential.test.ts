@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine, createRNGEngine } from '../../src/core/rng-engine';
+import { createEntropySource } from '../../src/core/entropy';
+import { GroupSequentialAnalyzer } from '../../src/core/group-sequential';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { SequentialDesignRepository } from '../../src/database/repositories/sequential-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { ContinuousDataCollector } from '../../src/main/continuous-manager';
+import { SequentialMonitor } from '../../src/main/sequential-monitor';
+import { GroupSequentialStatus } from '../../src/shared/analysis-types';
+import { RNGTrial } from '../../src/shared/types';
+
+describe('Group-sequential designs', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let intentions: IntentionRepository;
+    let designs: SequentialDesignRepository;
+
+    /**
+     * Create a finished session tagged to a design with the given trial values
+     */
+    const addSession = async (
+        sequentialDesignId: string,
+        intention: 'high' | 'low',
+        values: number[]
+    ): Promise<string> => {
+        const start = Date.now();
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + values.length * 1000),
+            intention,
+            targetTrials: values.length,
+            status: 'completed',
+            sequentialDesignId
+        });
+
+        const sessionTrials: RNGTrial[] = values.map((trialValue, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId,
+            experimentMode: 'session',
+            intention,
+            trialNumber: i + 1
+        }));
+        await trials.insertTrialsBatch(sessionTrials);
+        return sessionId;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-sequential-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        intentions = new IntentionRepository(dbManager);
+        designs = new SequentialDesignRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('takes planned looks at tagged sessions and adjusts for an interim look', async () => {
+        const monitor = new SequentialMonitor(designs);
+        const announced: GroupSequentialStatus[] = [];
+        monitor.on('look', (status: GroupSequentialStatus) => announced.push(status));
+
+        const created = await monitor.createDesign({
+            title: 'Session replication',
+            spending: 'pocock',
+            maxTrials: 400,
+            looks: [200, 400],
+            source: 'session'
+        });
+        const designId = created.design.id;
+        expect(created).toMatchObject({ trialsCollected: 0, nextLookAt: 200, looks: [] });
+        expect(created.upcoming.map(boundary => boundary.trialCount)).toEqual([200, 400]);
+
+        await addSession(designId, 'high', [...new Array(50).fill(101), ...new Array(50).fill(100)]);
+        expect(await monitor.checkPlannedLook(designId, 'session')).toBeNull();
+
+        await addSession(designId, 'low', new Array(100).fill(100));
+        const first = await monitor.checkPlannedLook(designId, 'session');
+        expect(first).toMatchObject({ lookNumber: 1, trialCount: 200, planned: true, crossed: false, trigger: 'session' });
+        expect(first!.z).toBeCloseTo(50 / Math.sqrt(50 * 200), 10);
+        // Nothing new since the look
+        expect(await monitor.checkPlannedLook(designId, 'session')).toBeNull();
+
+        // An analyst peeking at 250 trials spends alpha the plan kept for the final look
+        await addSession(designId, 'high', new Array(50).fill(100));
+        const interim = await monitor.performLook(designId);
+        expect(interim).toMatchObject({ lookNumber: 2, trialCount: 250, planned: false, trigger: 'analyst' });
+
+        const afterPeek = await monitor.getStatus(designId);
+        const asPlanned = GroupSequentialAnalyzer.boundaries(afterPeek.design.plan, [200, 400]);
+        expect(afterPeek.nextLookAt).toBe(400);
+        expect(afterPeek.upcoming).toHaveLength(1);
+        expect(afterPeek.upcoming[0].boundaryZ).toBeGreaterThan(asPlanned[1].boundaryZ);
+
+        await addSession(designId, 'high', new Array(150).fill(110));
+        const final = await monitor.checkPlannedLook(designId, 'session');
+        expect(final).toMatchObject({ lookNumber: 3, trialCount: 400, planned: true, crossed: true });
+        expect(final!.cumulativeAlpha).toBeCloseTo(0.05, 12);
+
+        const closed = await monitor.getStatus(designId);
+        expect(closed.design.status).toBe('rejected_null');
+        expect(closed.design.closedAt).toEqual(final!.performedAt);
+        expect(closed.upcoming).toEqual([]);
+        expect(closed.looks.map(look => look.lookNumber)).toEqual([1, 2, 3]);
+        expect(announced.map(status => status.looks.length)).toEqual([1, 2, 3]);
+
+        await expect(monitor.performLook(designId)).rejects.toThrow('is closed');
+
+        // Looks and the plan are beyond reach of later edits
+        const db = dbManager.getConnection();
+        expect(() => db.prepare('UPDATE sequential_looks SET z_score = 0 WHERE design_id = ?').run(designId))
+            .toThrow('Sequential looks are permanent');
+        expect(() => db.prepare('DELETE FROM sequential_looks WHERE design_id = ?').run(designId))
+            .toThrow('Sequential looks are permanent');
+        expect(() => db.prepare("UPDATE sequential_designs SET status = 'active', closed_at = NULL WHERE id = ?").run(designId))
+            .toThrow('Group-sequential design is frozen');
+    });
+
+    test('only tags sessions and intention periods a design accepts', async () => {
+        const monitor = new SequentialMonitor(designs);
+        const sessionDesign = await monitor.createDesign({
+            title: 'High only',
+            spending: 'obrien_fleming',
+            maxTrials: 1000,
+            looks: 2,
+            source: 'session',
+            intentions: ['high']
+        });
+        const continuousDesign = await monitor.createDesign({
+            title: 'Continuous',
+            spending: 'obrien_fleming',
+            maxTrials: 1000,
+            looks: 2,
+            source: 'continuous'
+        });
+
+        const engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        const controller = new SessionController(engine, sessions, trials, undefined, undefined, undefined, designs);
+        const config = { targetTrials: 1000, meditationDuration: 0, fullScreen: false, blockNotifications: false };
+
+        try {
+            await expect(controller.startSession({ ...config, intention: 'low', sequentialDesignId: sessionDesign.design.id }))
+                .rejects.toThrow('does not test low intention trials');
+            await expect(controller.startSession({
+                ...config,
+                intention: 'high',
+                sequentialDesignId: continuousDesign.design.id
+            })).rejects.toThrow('collects continuous data');
+
+            const session = await controller.startSession({
+                ...config,
+                intention: 'high',
+                sequentialDesignId: sessionDesign.design.id
+            });
+            await controller.stopSession(true);
+            expect((await sessions.getSession(session.id))?.sequentialDesignId).toBe(sessionDesign.design.id);
+        } finally {
+            await controller.destroy();
+            engine.destroy();
+        }
+
+        const continuousEngine = createRNGEngine({ qualityMonitoring: false });
+        const collector = new ContinuousDataCollector(
+            continuousEngine,
+            sessions,
+            trials,
+            intentions,
+            undefined,
+            designs
+        );
+        try {
+            await expect(collector.startIntentionPeriod('high', '', undefined, sessionDesign.design.id))
+                .rejects.toThrow('collects session data');
+            await expect(collector.startIntentionPeriod('high', '', undefined, 'missing'))
+                .rejects.toThrow('design not found');
+        } finally {
+            await collector.destroy();
+            continuousEngine.destroy();
+        }
+    });
+
+    test('looks when a tagged continuous intention period reaches the plan', async () => {
+        const start = new Date(2024, 2, 1, 9).getTime();
+        jest.useFakeTimers({ now: start });
+
+        const monitor = new SequentialMonitor(designs);
+        const { design } = await monitor.createDesign({
+            title: 'Continuous replication',
+            spending: 'obrien_fleming',
+            maxTrials: 120,
+            looks: [60, 120],
+            source: 'continuous'
+        });
+
+        let engine: RNGEngine | null = null;
+        let collector: ContinuousDataCollector | null = null;
+        let unwatch = (): void => undefined;
+
+        try {
+            engine = createRNGEngine(
+                { qualityMonitoring: false },
+                createEntropySource({ engine: 'software', backupEngine: 'software', seed: 'sequential-looks' })
+            );
+            collector = new ContinuousDataCollector(engine, sessions, trials, intentions, undefined, designs);
+            unwatch = monitor.watchContinuous(collector);
+
+            await collector.start();
+            await jest.advanceTimersByTimeAsync(10 * 1000);
+
+            // Untagged periods and the baseline do not count towards the design
+            await collector.startIntentionPeriod('high');
+            await jest.advanceTimersByTimeAsync(30 * 1000);
+            const tagged = await collector.startIntentionPeriod('low', '', undefined, design.id);
+            expect(tagged.sequentialDesignId).toBe(design.id);
+            await jest.advanceTimersByTimeAsync(40 * 1000);
+            await collector.endIntentionPeriod();
+            await monitor.settle();
+
+            expect((await monitor.getStatus(design.id)).looks).toEqual([]);
+
+            await collector.startIntentionPeriod('high', '', undefined, design.id);
+            await jest.advanceTimersByTimeAsync(30 * 1000);
+            await collector.endIntentionPeriod();
+            await monitor.settle();
+
+            const status = await monitor.getStatus(design.id);
+            expect(status.looks).toHaveLength(1);
+            expect(status.looks[0]).toMatchObject({ lookNumber: 1, planned: true, trigger: 'continuous' });
+            expect(status.looks[0].trialCount).toBeGreaterThanOrEqual(60);
+            expect(status.looks[0].trialCount).toBe(status.trialsCollected);
+            expect(status.nextLookAt).toBe(120);
+        } finally {
+            unwatch();
+            await collector?.destroy();
+            engine?.destroy();
+            jest.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,349 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { Socket } from 'net';
+import { createRNGEngine, RNGEngine } from '../../src/core/rng-engine';
+import { createEntropySource } from '../../src/core/entropy';
+import { createStatisticalAnalyzer } from '../../src/core/statistics';
+import { DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { FormalEventRepository } from '../../src/database/repositories/event-repository';
+import { MarkerRepository } from '../../src/database/repositories/marker-repository';
+import { ContinuousDataCollector } from '../../src/main/continuous-manager';
+import { BackgroundAnalyzer } from '../../src/main/background-analyzer';
+import { CollectorLock, collectorLockPath } from '../../src/main/daemon';
+import { LocalApiServer, resolveApiToken } from '../../src/main/api';
+import { decodeFrame } from '../../src/main/api/websocket';
+import { setClockSync } from '../../src/core/time-manager';
+import { EventMarker, RNGTrial, SignificantEvent } from '../../src/shared/types';
+
+const TOKEN = 'test-token';
+
+interface JsonResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+interface StreamClient {
+    messages: Array<{ type: string; data: any }>;
+    socket: Socket;
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs: number = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+};
+
+describe('Local API', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let intentions: IntentionRepository;
+    let markers: MarkerRepository;
+    let engine: RNGEngine;
+    let collector: ContinuousDataCollector;
+    let analyzer: BackgroundAnalyzer;
+    let api: LocalApiServer;
+    let port: number;
+    let sessionId: string;
+
+    const base = new Date('2024-03-01T12:00:00Z').getTime();
+
+    const request = (method: string, route: string, options: { token?: string | null; body?: unknown } = {}) =>
+        new Promise<JsonResponse>((resolve, reject) => {
+            const token = options.token === undefined ? TOKEN : options.token;
+            const req = http.request({
+                host: '127.0.0.1',
+                port,
+                method,
+                path: `/api/v1${route}`,
+                headers: token ? { Authorization: `Bearer ${token}` } : {}
+            }, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', chunk => chunks.push(chunk));
+                response.on('end', () => {
+                    const text = Buffer.concat(chunks).toString('utf8');
+                    resolve({ status: response.statusCode!, headers: response.headers, body: text ? JSON.parse(text) : null });
+                });
+            });
+            req.on('error', reject);
+            req.end(options.body === undefined ? undefined : JSON.stringify(options.body));
+        });
+
+    const connectStream = (query: string) =>
+        new Promise<StreamClient>((resolve, reject) => {
+            const req = http.request({
+                host: '127.0.0.1',
+                port,
+                path: `/api/v1/stream${query}`,
+                headers: {
+                    Connection: 'Upgrade',
+                    Upgrade: 'websocket',
+                    'Sec-WebSocket-Version': '13',
+                    'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64')
+                }
+            });
+            req.on('upgrade', (_response, socket: Socket, head: Buffer) => {
+                const client: StreamClient = { messages: [], socket };
+                let buffer = head;
+                const receive = (chunk: Buffer) => {
+                    buffer = Buffer.concat([buffer, chunk]);
+                    for (let frame = decodeFrame(buffer); frame; frame = decodeFrame(buffer)) {
+                        buffer = buffer.subarray(frame.length);
+                        if (frame.opcode === 0x1) {
+                            client.messages.push(JSON.parse(frame.payload.toString('utf8')));
+                        }
+                    }
+                };
+                socket.on('data', receive);
+                receive(Buffer.alloc(0));
+                resolve(client);
+            });
+            req.on('response', response => reject(new Error(`Upgrade refused with ${response.statusCode}`)));
+            req.on('error', reject);
+            req.end();
+        });
+
+    const trial = (offsetSeconds: number, trialValue: number, trialNumber: number): RNGTrial => ({
+        timestamp: new Date(base + offsetSeconds * 1000),
+        trialValue,
+        sessionId,
+        experimentMode: 'session',
+        intention: 'high',
+        trialNumber,
+        rawBits: new Uint8Array(25).fill(7)
+    });
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-api-'));
+        dbManager = new DatabaseManager({ dbPath: path.join(tempDir, 'test.db'), backupPath: path.join(tempDir, 'backups') });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        intentions = new IntentionRepository(dbManager);
+        markers = new MarkerRepository(dbManager);
+
+        sessionId = await sessions.createSession({
+            startTime: new Date(base),
+            endTime: new Date(base + 3000),
+            intention: 'high',
+            targetTrials: 3,
+            status: 'completed'
+        });
+        await trials.insertTrialsBatch([trial(0, 104, 1), trial(1, 98, 2), trial(2, 102, 3)]);
+
+        engine = createRNGEngine(
+            { qualityMonitoring: false },
+            createEntropySource({ engine: 'software', backupEngine: 'software', seed: 'local-api' })
+        );
+        collector = new ContinuousDataCollector(
+            engine,
+            sessions,
+            trials,
+            intentions,
+            new CollectorLock(collectorLockPath(path.join(tempDir, 'test.db')), 'desktop')
+        );
+        analyzer = new BackgroundAnalyzer(trials, intentions, new FormalEventRepository(dbManager), createStatisticalAnalyzer());
+
+        api = new LocalApiServer(
+            { sessionEngine: engine, collector, analyzer, timeSync: null, repositories: { sessions, trials, intentions, markers } },
+            { port: 0, token: TOKEN }
+        );
+        port = await api.start();
+    });
+
+    afterAll(async () => {
+        setClockSync(null);
+        await api.stop();
+        await collector.destroy();
+        analyzer.destroy();
+        trials.destroy();
+        engine.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('requires the token everywhere but the OpenAPI description', async () => {
+        expect((await request('GET', '/status', { token: null })).status).toBe(401);
+        expect((await request('GET', '/status', { token: 'wrong' })).status).toBe(401);
+
+        const status = await request('GET', '/status');
+        expect(status.status).toBe(200);
+        expect(status.headers['access-control-allow-origin']).toBe('*');
+        expect(status.body.continuous.isRunning).toBe(false);
+
+        const openapi = await request('GET', '/openapi.json', { token: null });
+        expect(openapi.status).toBe(200);
+        expect(openapi.body.openapi).toBe('3.0.3');
+        expect(openapi.body.servers[0].url).toBe(`http://127.0.0.1:${port}/api/v1`);
+        expect(Object.keys(openapi.body.paths)).toEqual(expect.arrayContaining(['/sessions', '/trials', '/stats']));
+
+        expect((await request('GET', '/nowhere')).status).toBe(404);
+    });
+
+    test('reads sessions, trials by range and statistics', async () => {
+        const list = await request('GET', '/sessions');
+        expect(list.body.map((session: { id: string }) => session.id)).toContain(sessionId);
+        expect((await request('GET', '/sessions?limit=0')).status).toBe(400);
+
+        expect((await request('GET', `/sessions/${sessionId}`)).body).toMatchObject({ id: sessionId, targetTrials: 3 });
+        expect((await request('GET', `/sessions/${crypto.randomUUID()}`)).status).toBe(404);
+
+        const sessionTrials = await request('GET', `/sessions/${sessionId}/trials`);
+        expect(sessionTrials.body.map((t: RNGTrial) => t.trialValue)).toEqual([104, 98, 102]);
+        const sessionPage = await request('GET', `/sessions/${sessionId}/trials?limit=1&offset=1`);
+        expect(sessionPage.body.map((t: RNGTrial) => t.trialNumber)).toEqual([2]);
+        expect((await request('GET', `/sessions/${sessionId}/trials?limit=0`)).status).toBe(400);
+
+        const range = `start=${new Date(base + 500).toISOString()}&end=${new Date(base + 5000).toISOString()}`;
+        const ranged = await request('GET', `/trials?${range}&mode=session`);
+        expect(ranged.body.map((t: RNGTrial) => t.trialNumber)).toEqual([2, 3]);
+
+        const paged = await request('GET', `/trials?${range}&limit=1&offset=1`);
+        expect(paged.body.map((t: RNGTrial) => t.trialNumber)).toEqual([3]);
+
+        const stats = await request('GET', `/stats?${range}`);
+        expect(stats.body).toMatchObject({ count: 2, mean: 100 });
+
+        expect((await request('GET', '/trials?start=yesterday&end=today')).status).toBe(400);
+        expect((await request('GET', `/trials?${range}&mode=other`)).status).toBe(400);
+    });
+
+    test('marks intention periods through the collector', async () => {
+        expect((await request('POST', '/intention-periods', { body: { intention: 'sideways' } })).status).toBe(400);
+
+        const started = await request('POST', '/intention-periods', { body: { intention: 'low', notes: 'API' } });
+        expect(started.status).toBe(201);
+        expect(started.body).toMatchObject({ intention: 'low', notes: 'API' });
+
+        expect((await request('POST', '/intention-periods/end')).status).toBe(204);
+
+        const range = `start=${new Date(Date.now() - 60000).toISOString()}&end=${new Date(Date.now() + 60000).toISOString()}`;
+        const periods = await request('GET', `/intention-periods?${range}`);
+        expect(periods.body).toEqual([expect.objectContaining({ id: started.body.id, intention: 'low' })]);
+        expect(periods.body[0].endTime).not.toBeNull();
+    });
+
+    test('leaves continuous control to the process holding the collector lock', async () => {
+        // The test runner's parent process stands in for a running collector daemon
+        const lockPath = collectorLockPath(path.join(tempDir, 'test.db'));
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid, owner: 'daemon', startedAt: new Date() }));
+
+        try {
+            for (const route of ['/continuous/start', '/continuous/stop', '/intention-periods/end']) {
+                const refused = await request('POST', route);
+                expect(refused.status).toBe(409);
+                expect(refused.body.error).toContain(`collector daemon (pid ${process.ppid})`);
+            }
+            expect((await request('POST', '/intention-periods', { body: { intention: 'high' } })).status).toBe(409);
+        } finally {
+            fs.rmSync(lockPath, { force: true });
+        }
+    });
+
+    test('aligns external markers onto the trial timeline', async () => {
+        // Same clock as this machine: lands where it was stamped, after trial 2 of the stored session
+        const local = await request('POST', '/markers', {
+            body: { label: 'stimulus', source: 'eeg', code: 12, timestamp: base + 1500, metadata: { channel: 'Fz' } }
+        });
+        expect(local.status).toBe(201);
+        expect(local.body).toMatchObject({
+            sessionId,
+            timestamp: new Date(base + 1500).toISOString(),
+            alignmentOffsetMs: 0,
+            trialNumber: 2,
+            code: 12,
+            metadata: { channel: 'Fz' }
+        });
+
+        // A recorder 40 ms behind the reference, on a machine 10 ms ahead of it
+        const body = { label: 'response', source: 'eeg', timestamp: base + 2500, sourceOffsetMs: 40 };
+        expect((await request('POST', '/markers', { body })).status).toBe(409);
+
+        setClockSync({ offsetMs: -10, uncertaintyMs: 0.2, server: '127.0.0.1:123', syncedAt: new Date() });
+        const synced = await request('POST', '/markers', { body });
+        expect(synced.body).toMatchObject({
+            timestamp: new Date(base + 2550).toISOString(),
+            sourceTimestamp: base + 2500,
+            alignmentOffsetMs: 50,
+            trialNumber: 3
+        });
+
+        // Before the session's first trial, and outside any session
+        const early = await request('POST', '/markers', { body: { label: 'baseline', source: 'eeg', timestamp: base - 1 } });
+        expect(early.body).toMatchObject({ sessionId: null, trialNumber: null });
+
+        expect((await request('POST', '/markers', { body: { label: 'x', source: 'eeg' } })).status).toBe(400);
+        expect((await request('POST', '/markers', {
+            body: { label: 'x', source: 'eeg', timestamp: base, sessionId: crypto.randomUUID() }
+        })).status).toBe(404);
+
+        const sessionMarkers = await request('GET', `/sessions/${sessionId}/markers`);
+        expect(sessionMarkers.body.map((marker: EventMarker) => marker.label)).toEqual(['stimulus', 'response']);
+
+        const range = `start=${new Date(base - 1000).toISOString()}&end=${new Date(base + 2000).toISOString()}`;
+        const ranged = await request('GET', `/markers?${range}`);
+        expect(ranged.body.map((marker: EventMarker) => marker.label)).toEqual(['baseline', 'stimulus']);
+    });
+
+    test('streams trials and significant events to subscribed clients', async () => {
+        await expect(connectStream('?token=wrong')).rejects.toThrow('401');
+        await expect(connectStream(`?token=${TOKEN}&events=trial,bogus`)).rejects.toThrow('400');
+
+        const everything = await connectStream(`?token=${TOKEN}`);
+        const trialsOnly = await connectStream(`?token=${TOKEN}&events=trial`);
+        await waitFor(() => api.getStreamClientCount() === 2);
+
+        collector.emit('trialGenerated', trial(10, 110, 4));
+        const event: SignificantEvent = {
+            id: 'event-1',
+            timestamp: new Date(base),
+            type: 'deviation_spike',
+            severity: 'high',
+            description: 'Spike',
+            significance: { zScore: 3.2, pValue: 0.0014 },
+            dataRange: { startTime: new Date(base), endTime: new Date(base + 1000), trialCount: 60 },
+            notified: false
+        };
+        analyzer.emit('significantEvent', event);
+
+        await waitFor(() => everything.messages.length === 2 && trialsOnly.messages.length === 1);
+        expect(everything.messages.map(message => message.type)).toEqual(['trial', 'significant-event']);
+        expect(everything.messages[0].data).toMatchObject({
+            trialValue: 110,
+            trialNumber: 4,
+            rawBits: Buffer.alloc(25, 7).toString('base64')
+        });
+        expect(everything.messages[1].data).toMatchObject({ id: 'event-1', severity: 'high' });
+        expect(trialsOnly.messages.map(message => message.type)).toEqual(['trial']);
+
+        trialsOnly.socket.destroy();
+        await waitFor(() => api.getStreamClientCount() === 1);
+        everything.socket.destroy();
+        await waitFor(() => api.getStreamClientCount() === 0);
+    });
+
+    test('keeps a generated token across restarts', () => {
+        const tokenPath = path.join(tempDir, 'api-token');
+        const token = resolveApiToken(tokenPath);
+
+        expect(token).toMatch(/^[0-9a-f]{64}$/);
+        expect(resolveApiToken(tokenPath)).toBe(token);
+        expect(resolveApiToken(tokenPath, 'configured')).toBe('configured');
+        if (process.platform !== 'win32') {
+            expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+        }
+    });
+});
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdvancedResearchStats } from '../../src/core/advanced-research-stats';
+import { StatisticalUtils } from '../../src/core/statistical-utils';
+import { DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { OperatorSessionTotals } from '../../src/shared/analysis-types';
+import { IntentionType, RNGTrial } from '../../src/shared/types';
+
+const { MetaAnalyzer } = AdvancedResearchStats;
+
+/**
+ * Sessions as [intention, trials, raw deviation of the trial sum from 100 per trial].
+ * Reference values below come from an independent computation: DerSimonian-Laird in
+ * closed form, REML by maximizing the restricted likelihood, t quantiles by integration.
+ */
+const DESIGN: Array<[IntentionType, number, number]> = [
+    ['high', 200, 300],
+    ['low', 400, 100],
+    ['high', 300, -250],
+    ['low', 500, -400],
+    ['high', 250, 50]
+];
+
+describe('Meta-analysis of stored sessions', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let totals: OperatorSessionTotals[];
+    const sessionIds: string[] = [];
+
+    const seedSession = async (
+        day: number,
+        intention: IntentionType,
+        count: number,
+        deviation: number,
+        status: 'completed' | 'running' = 'completed'
+    ): Promise<string> => {
+        const start = Date.UTC(2024, 2, day, 12);
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: status === 'running' ? null : new Date(start + count * 1000),
+            intention,
+            targetTrials: count,
+            status
+        });
+
+        let remaining = deviation;
+        const sessionTrials: RNGTrial[] = Array.from({ length: count }, (_, i) => {
+            const step = Math.max(-50, Math.min(50, remaining));
+            remaining -= step;
+            return {
+                timestamp: new Date(start + i * 1000),
+                trialValue: 100 + step,
+                sessionId,
+                experimentMode: 'session',
+                intention,
+                trialNumber: i + 1
+            };
+        });
+        await trials.insertTrialsBatch(sessionTrials);
+        return sessionId;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-meta-'));
+        dbManager = new DatabaseManager({ dbPath: path.join(tempDir, 'test.db'), backupPath: path.join(tempDir, 'backups') });
+        await dbManager.initialize();
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+
+        // Seeded newest first so the analysis has to order by date
+        for (let i = DESIGN.length - 1; i >= 0; i--) {
+            const [intention, count, deviation] = DESIGN[i];
+            sessionIds[i] = await seedSession(i + 1, intention, count, deviation);
+        }
+        await seedSession(10, 'baseline', 300, 200);
+        await seedSession(11, 'high', 100, 100, 'running');
+
+        totals = await sessions.getSessionTotals();
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('computes directed per-trial effect sizes from the trials', () => {
+        const result = MetaAnalyzer.analyze(totals, { method: 'fixed' });
+
+        expect(result.individualEffects.map(effect => effect.sessionId)).toEqual(sessionIds);
+        expect(result.totalTrials).toBe(1650);
+
+        const [first, second] = result.individualEffects;
+        expect(first.directedZ).toBeCloseTo(3, 10);
+        expect(first.effectSize).toBeCloseTo(0.21213203435596426, 10);
+        expect(first.standardError).toBeCloseTo(1 / Math.sqrt(200), 10);
+        // Above chance under low intention counts against the operator
+        expect(second.intention).toBe('low');
+        expect(second.effectSize).toBeCloseTo(-0.035355339059327376, 10);
+
+        expect(result.tau2).toBe(0);
+        expect(result.pooledEffectSize).toBeCloseTo(0.034283965148438664, 10);
+        expect(result.pooledStandardError).toBeCloseTo(0.024618298195866545, 10);
+        expect(result.heterogeneityQ).toBeCloseTo(18.327272727272724, 8);
+        expect(result.heterogeneityI2).toBeCloseTo(78.17460317460318, 6);
+        expect(result.degreesOfFreedom).toBeNull();
+    });
+
+    test('estimates between-session variance by DerSimonian-Laird and REML', () => {
+        const dl = MetaAnalyzer.analyze(totals, { method: 'dersimonian-laird' });
+        expect(dl.tau2).toBeCloseTo(0.011150943396226411, 10);
+        expect(dl.pooledEffectSize).toBeCloseTo(0.037191478921474466, 8);
+        expect(dl.pooledStandardError).toBeCloseTo(0.0537406154873138, 8);
+
+        const reml = MetaAnalyzer.analyze(totals, { method: 'reml' });
+        expect(reml.tau2).toBeCloseTo(0.0121041637766343, 8);
+        expect(reml.pooledEffectSize).toBeCloseTo(0.037341406831977855, 7);
+        expect(reml.pooledStandardError).toBeCloseTo(0.055494523779843714, 7);
+
+        // Forest plot weights follow the random effects model
+        expect(reml.individualEffects[0].weight).toBeCloseTo(1 / (1 / 200 + reml.tau2), 6);
+    });
+
+    test('applies the Hartung-Knapp adjustment with a t reference distribution', () => {
+        const result = MetaAnalyzer.analyze(totals, { method: 'reml', hartungKnapp: true });
+
+        expect(result.degreesOfFreedom).toBe(4);
+        expect(result.pooledStandardError).toBeCloseTo(0.056325247040045955, 7);
+        expect(result.testStatistic).toBeCloseTo(0.6629603737987865, 5);
+        expect(result.pValue).toBeCloseTo(0.5436087360165442, 5);
+        expect(result.pooledConfidenceInterval[0]).toBeCloseTo(-0.11904254961141479, 6);
+        expect(result.pooledConfidenceInterval[1]).toBeCloseTo(0.1937253632753705, 6);
+
+        expect(StatisticalUtils.tQuantile(0.975, 4)).toBeCloseTo(2.776445105197803, 8);
+        expect(StatisticalUtils.tQuantile(0.025, 10)).toBeCloseTo(-2.228138851986522, 8);
+
+        // No adjustment under the fixed effect model
+        expect(MetaAnalyzer.analyze(totals, { method: 'fixed', hartungKnapp: true }).hartungKnapp).toBe(false);
+    });
+
+    test('reports leave-one-out and cumulative estimates by date', async () => {
+        const result = MetaAnalyzer.analyze(totals, { method: 'reml', hartungKnapp: true });
+
+        expect(result.leaveOneOut.map(estimate => estimate.omittedSessionId)).toEqual(sessionIds);
+        const withoutFirst = MetaAnalyzer.analyze(
+            totals.filter(total => total.session.id !== sessionIds[0]),
+            { method: 'reml', hartungKnapp: true }
+        );
+        expect(result.leaveOneOut[0]).toMatchObject({
+            studyCount: 4,
+            pooledEffectSize: withoutFirst.pooledEffectSize,
+            tau2: withoutFirst.tau2,
+            heterogeneityI2: withoutFirst.heterogeneityI2
+        });
+
+        expect(result.cumulative.map(step => step.sessionId)).toEqual(sessionIds);
+        expect(result.cumulative.map(step => step.studyCount)).toEqual([1, 2, 3, 4, 5]);
+        // A single session stands alone on the z test
+        expect(result.cumulative[0]).toMatchObject({ tau2: 0, degreesOfFreedom: null });
+        expect(result.cumulative[0].pooledEffectSize).toBeCloseTo(result.individualEffects[0].effectSize, 12);
+        expect(result.cumulative[4].pooledEffectSize).toBeCloseTo(result.pooledEffectSize, 12);
+
+        // Session totals can be limited to a period
+        const recent = await sessions.getSessionTotals({ startTime: new Date(Date.UTC(2024, 2, 4)) });
+        expect(MetaAnalyzer.analyze(recent, { method: 'fixed' }).individualEffects.map(effect => effect.sessionId))
+            .toEqual(sessionIds.slice(3));
+
+        expect(() => MetaAnalyzer.analyze([], { method: 'reml' })).toThrow('at least one high or low intention session');
+    });
+});
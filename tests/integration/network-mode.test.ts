@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { AdvancedStatistics } from '../../src/core/advanced-statistics';
+import { NetworkController } from '../../src/main/network-controller';
+import { NetworkDeviceConfig, RNGTrial } from '../../src/shared/types';
+
+const seededDevice = (id: string): NetworkDeviceConfig => ({
+    id,
+    entropy: { engine: 'software', backupEngine: 'software', seed: `network-${id}` }
+});
+
+describe('Multi-device network statistics', () => {
+    const base = Date.UTC(2024, 0, 1, 12);
+
+    const trial = (deviceId: string, offsetMs: number, trialValue: number): RNGTrial => ({
+        timestamp: new Date(base + offsetMs),
+        trialValue,
+        sessionId: 'network-run',
+        experimentMode: 'session',
+        intention: 'baseline',
+        trialNumber: 1,
+        deviceId
+    });
+
+    test('computes per-second Stouffer Z, netvar, device variance and correlation', () => {
+        const result = AdvancedStatistics.calculateMultiDeviceNetwork([
+            trial('a', 0, 110), trial('b', 400, 90),
+            trial('a', 1000, 105), trial('b', 1999, 105),
+            trial('a', 2000, 100), trial('b', 2500, 95)
+        ]);
+
+        // z = ±√2, ±√2/2 and 0: Stouffer Z is 0, 1 and -0.5
+        expect(result.deviceIds).toEqual(['a', 'b']);
+        expect(result.seconds.map(second => second.deviceCount)).toEqual([2, 2, 2]);
+        expect(result.seconds[1].stoufferZ).toBeCloseTo(1, 12);
+        expect(result.netvar).toBeCloseTo(1.25, 12);
+        expect(result.netvarZ).toBeCloseTo((1.25 - 3) / Math.sqrt(6), 12);
+        expect(result.deviceVariance).toBeCloseTo(5.5, 12);
+        expect(result.deviceVarianceDegreesOfFreedom).toBe(6);
+        expect(result.cumulativeDeviation.map(value => Number(value.toFixed(6)))).toEqual([-1, -1, -1.75]);
+
+        expect(result.correlations).toHaveLength(1);
+        expect(result.correlations[0]).toMatchObject({ deviceA: 'a', deviceB: 'b', commonSeconds: 3 });
+        expect(result.correlations[0].correlation).toBeCloseTo(-0.5 / Math.sqrt(7 / 3), 10);
+        expect(result.meanCorrelation).toBe(result.correlations[0].correlation);
+        expect(AdvancedStatistics.calculateSpatialCorrelation([
+            trial('a', 0, 110), trial('b', 400, 90),
+            trial('a', 1000, 105), trial('b', 1999, 105),
+            trial('a', 2000, 100), trial('b', 2500, 95)
+        ], {})).toBeCloseTo(result.meanCorrelation, 12);
+    });
+
+    test('pools several trials of one device within a second', () => {
+        const result = AdvancedStatistics.calculateMultiDeviceNetwork([
+            trial('a', 0, 100), trial('a', 500, 104), trial('b', 200, 100), trial('c', 900, 100)
+        ]);
+
+        // Device a: (204 - 200) / (√50 · √2) = 0.4
+        expect(result.seconds).toHaveLength(1);
+        expect(result.seconds[0].deviceCount).toBe(3);
+        expect(result.seconds[0].stoufferZ).toBeCloseTo(0.4 / Math.sqrt(3), 12);
+        expect(result.seconds[0].deviceVariance).toBeCloseTo(0.16, 12);
+    });
+});
+
+describe('NetworkController', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let controller: NetworkController;
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-network-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        controller = new NetworkController(
+            [seededDevice('egg-a'), seededDevice('egg-b'), seededDevice('egg-c')],
+            sessions,
+            trials,
+            { targetRate: 50, qualityMonitoring: false }
+        );
+    });
+
+    afterAll(async () => {
+        await controller.destroy();
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('rejects duplicate device ids and runs of fewer than two devices', async () => {
+        expect(() => new NetworkController([seededDevice('x'), seededDevice('x')], sessions, trials))
+            .toThrow('Network device ids must be unique');
+        await expect(controller.start({ deviceIds: ['egg-a'] })).rejects.toThrow('at least two devices');
+        expect(controller.getStatus().isRunning).toBe(false);
+    });
+
+    test('records every device into one session with device-tagged trials', async () => {
+        // A second start while the first still opens its devices is refused, not run alongside
+        const starting = controller.start({ intention: 'high', notes: 'Evening meditation group' });
+        await expect(controller.start()).rejects.toThrow('already running');
+        const started = await starting;
+        expect(started.isRunning).toBe(true);
+        expect(started.devices.map(device => device.id)).toEqual(['egg-a', 'egg-b', 'egg-c']);
+        await expect(controller.start()).rejects.toThrow('already running');
+
+        await new Promise(resolve => setTimeout(resolve, 400));
+        const sessionId = started.sessionId!;
+        const stopped = await controller.stop();
+        expect(stopped).toMatchObject({ isRunning: false, sessionId: null, devices: [] });
+
+        const session = (await sessions.getSession(sessionId))!;
+        expect(session).toMatchObject({
+            intention: 'high',
+            status: 'completed',
+            notes: 'Evening meditation group',
+            source: 'network:egg-a,egg-b,egg-c'
+        });
+
+        const stored = await trials.getTrialsBySession(sessionId);
+        const byDevice = new Map<string, RNGTrial[]>();
+        for (const item of stored) {
+            byDevice.set(item.deviceId!, [...(byDevice.get(item.deviceId!) ?? []), item]);
+        }
+        expect([...byDevice.keys()].sort()).toEqual(['egg-a', 'egg-b', 'egg-c']);
+        for (const deviceTrials of byDevice.values()) {
+            expect(deviceTrials.length).toBeGreaterThan(0);
+            expect(deviceTrials.every(item => item.intention === 'high')).toBe(true);
+        }
+
+        // Different seeds give different streams
+        expect(byDevice.get('egg-a')!.map(item => item.trialValue))
+            .not.toEqual(byDevice.get('egg-b')!.map(item => item.trialValue));
+
+        const onlyA = await trials.getTrialsByTimeRange(session.startTime, new Date(), { deviceId: 'egg-a' });
+        expect(onlyA).toHaveLength(byDevice.get('egg-a')!.length);
+
+        const analysis = await controller.analyze({ sessionId });
+        expect(analysis.deviceIds).toEqual(['egg-a', 'egg-b', 'egg-c']);
+        expect(analysis.seconds.length).toBeGreaterThan(0);
+        expect(analysis.correlations).toHaveLength(3);
+        expect(analysis.deviceVarianceDegreesOfFreedom)
+            .toBe(analysis.seconds.reduce((sum, second) => sum + second.deviceCount, 0));
+
+        const byRange = await controller.analyze({ startTime: session.startTime, endTime: new Date() });
+        expect(byRange.netvar).toBeCloseTo(analysis.netvar, 10);
+    });
+
+    test('refuses to analyze trials without device ids', async () => {
+        const sessionId = await sessions.createSession({
+            startTime: new Date(),
+            endTime: null,
+            intention: 'baseline',
+            targetTrials: 1,
+            status: 'completed'
+        });
+        await trials.insertTrial({
+            timestamp: new Date(),
+            trialValue: 100,
+            sessionId,
+            experimentMode: 'session',
+            intention: 'baseline',
+            trialNumber: 1
+        });
+
+        await expect(controller.analyze({ sessionId })).rejects.toThrow('No device-tagged trials');
+        await expect(controller.analyze({})).rejects.toThrow('needs a session or a start and end time');
+    });
+});
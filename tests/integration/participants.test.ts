@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { AdvancedResearchStats } from '../../src/core/advanced-research-stats';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { IntentionRepository } from '../../src/database/repositories/intention-repository';
+import { ParticipantRepository } from '../../src/database/repositories/participant-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { IntentionType, RNGTrial } from '../../src/shared/types';
+
+describe('Participant registry', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let participants: ParticipantRepository;
+
+    /**
+     * Create a finished session for a participant with the given trial values
+     */
+    const addSession = async (
+        participantId: string,
+        intention: Exclude<IntentionType, null>,
+        start: number,
+        values: number[]
+    ): Promise<string> => {
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + values.length * 1000),
+            intention,
+            targetTrials: values.length,
+            status: 'completed',
+            participantId
+        });
+
+        const sessionTrials: RNGTrial[] = values.map((trialValue, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId,
+            experimentMode: 'session',
+            intention,
+            trialNumber: i + 1
+        }));
+        await trials.insertTrialsBatch(sessionTrials);
+        return sessionId;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-participants-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        participants = new ParticipantRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('registers pseudonymous codes and keeps them unique', async () => {
+        const id = await participants.registerParticipant({ code: '  OP-001 ', consentDate: new Date(Date.UTC(2024, 0, 2)) });
+
+        const participant = await participants.getParticipant(id);
+        expect(participant).toMatchObject({
+            code: 'OP-001',
+            consentDate: new Date(Date.UTC(2024, 0, 2)),
+            demographics: null,
+            active: true
+        });
+        expect((await participants.getParticipantByCode('OP-001'))?.id).toBe(id);
+
+        await expect(participants.registerParticipant({ code: 'OP-001' })).rejects.toThrow('registration failed');
+        await expect(participants.registerParticipant({ code: ' ' })).rejects.toThrow('code is required');
+    });
+
+    test('stores demographics only while the participant opts in', async () => {
+        const id = await participants.registerParticipant({
+            code: 'OP-002',
+            demographics: { birthYear: 1980, handedness: 'left' }
+        });
+        expect((await participants.getParticipant(id))?.demographics).toEqual({
+            birthYear: 1980,
+            gender: undefined,
+            handedness: 'left'
+        });
+
+        await participants.updateParticipant(id, { demographics: null, active: false });
+
+        const row = dbManager.getConnection()
+            .prepare('SELECT demographics_opt_in, birth_year, handedness FROM participants WHERE id = ?')
+            .get(id);
+        expect(row).toEqual({ demographics_opt_in: 0, birth_year: null, handedness: null });
+
+        const active = await participants.listParticipants({ active: true });
+        expect(active.map(participant => participant.code)).not.toContain('OP-002');
+    });
+
+    test('links sessions started with a typed-in code to the registry', async () => {
+        const engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        const controller = new SessionController(engine, sessions, trials, participants);
+
+        try {
+            const existing = await controller.startSession({
+                intention: 'high',
+                targetTrials: 1000,
+                participantId: 'OP-001',
+                meditationDuration: 0,
+                fullScreen: false,
+                blockNotifications: false
+            });
+            await controller.stopSession(true);
+
+            const registered = await participants.getParticipantByCode('OP-001');
+            expect(existing.participantId).toBe(registered?.id);
+
+            const created = await controller.startSession({
+                intention: 'low',
+                targetTrials: 1000,
+                participantId: 'OP-NEW',
+                meditationDuration: 0,
+                fullScreen: false,
+                blockNotifications: false
+            });
+            await controller.stopSession(true);
+
+            const newcomer = await participants.getParticipantByCode('OP-NEW');
+            expect(newcomer).not.toBeNull();
+            expect((await sessions.getSession(created.id))?.participantId).toBe(newcomer?.id);
+        } finally {
+            await controller.destroy();
+            engine.destroy();
+        }
+    });
+
+    test('attributes intention periods to a participant', async () => {
+        const intentions = new IntentionRepository(dbManager);
+        const participant = await participants.resolveParticipant('OP-001');
+
+        const periodId = await intentions.startIntentionPeriod('high', 'morning run', participant.id);
+        await intentions.endIntentionPeriod(periodId);
+
+        const periods = await intentions.getIntentionPeriods(1, { participantId: participant.id });
+        expect(periods.map(period => period.id)).toEqual([periodId]);
+        expect(periods[0].participantId).toBe(participant.id);
+    });
+
+    test('scores an operator in the intended direction', async () => {
+        const participantId = await participants.registerParticipant({ code: 'OP-003' });
+        const day = 24 * 60 * 60 * 1000;
+        const start = Date.UTC(2024, 1, 1);
+
+        // +2 per trial under high, -1 per trial under low, baseline at chance
+        await addSession(participantId, 'high', start, new Array(50).fill(102));
+        await addSession(participantId, 'low', start + day, new Array(50).fill(99));
+        await addSession(participantId, 'baseline', start + 2 * day, new Array(20).fill(100));
+
+        const totals = await participants.getOperatorSessionTotals(participantId);
+        expect(totals.map(total => [total.session.intention, total.trialCount, total.trialSum])).toEqual([
+            ['high', 50, 5100],
+            ['low', 50, 4950],
+            ['baseline', 20, 2000]
+        ]);
+
+        const analysis = AdvancedResearchStats.analyzeOperator(participantId, totals);
+        const expectedZ = (100 + 50) / Math.sqrt(50 * 100);
+
+        expect(analysis.trialCount).toBe(100);
+        expect(analysis.cumulativeZ).toBeCloseTo(expectedZ, 10);
+        expect(analysis.effectSize).toBeCloseTo(expectedZ / 10, 10);
+        expect(analysis.highLowZ).toBeCloseTo(3 / Math.sqrt(50 / 50 + 50 / 50), 10);
+        expect(analysis.byIntention.low.zScore).toBeCloseTo(-50 / Math.sqrt(50 * 50), 10);
+        expect(analysis.byIntention.baseline).toMatchObject({ sessionCount: 1, trialCount: 20, zScore: 0 });
+
+        expect(analysis.cumulative.map(point => point.cumulativeTrials)).toEqual([50, 100]);
+        expect(analysis.cumulative[0].cumulativeZ).toBeCloseTo(100 / Math.sqrt(2500), 10);
+
+        // Baseline sessions are not part of the learning curve
+        expect(analysis.learningCurve.data).toHaveLength(2);
+        expect(analysis.learningCurve.data[0].performance).toBeCloseTo(2 / Math.sqrt(50), 10);
+        expect(analysis.learningCurve.data[1].performance).toBeCloseTo(1 / Math.sqrt(50), 10);
+        expect(analysis.learningCurve.improvementTrend).toBe('decreasing');
+    });
+
+    test('keeps sessions when a participant is deleted', async () => {
+        const participantId = await participants.registerParticipant({ code: 'OP-004' });
+        const sessionId = await addSession(participantId, 'high', Date.UTC(2024, 2, 1), [100, 101]);
+
+        await participants.deleteParticipant(participantId);
+
+        const session = await sessions.getSession(sessionId);
+        expect(session).not.toBeNull();
+        expect(session?.participantId).toBeNull();
+        expect(await trials.getSessionTrialCount(sessionId)).toBe(2);
+    });
+});
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { StatisticalUtils } from '../../src/core/statistical-utils';
+import { BayesianAnalyzer } from '../../src/core/bayesian-analysis';
+import { PreRegistrationAnalyzer } from '../../src/core/preregistration';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { PreRegistrationRepository } from '../../src/database/repositories/preregistration-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { PreRegistrationDesign } from '../../src/shared/analysis-types';
+import { IntentionType, RNGTrial } from '../../src/shared/types';
+
+const design = (overrides: Partial<PreRegistrationDesign> = {}): PreRegistrationDesign => ({
+    title: 'Directed intention replication',
+    question: 'Does intention shift the trial mean?',
+    prediction: 'High sessions score above chance and low sessions below',
+    rationale: 'Replication of the PEAR directed-intention effect',
+    primaryTest: 'directed_z',
+    effectSize: 0.1,
+    intentions: ['high', 'low'],
+    ...overrides
+});
+
+describe('Pre-registration', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let registrations: PreRegistrationRepository;
+
+    /**
+     * Create a finished session tagged to a registration with the given trial values
+     */
+    const addSession = async (
+        preregistrationId: string,
+        intention: Exclude<IntentionType, null>,
+        start: number,
+        values: number[]
+    ): Promise<string> => {
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + values.length * 1000),
+            intention,
+            targetTrials: values.length,
+            status: 'completed',
+            preregistrationId
+        });
+
+        const sessionTrials: RNGTrial[] = values.map((trialValue, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId,
+            experimentMode: 'session',
+            intention,
+            trialNumber: i + 1
+        }));
+        await trials.insertTrialsBatch(sessionTrials);
+        return sessionId;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-preregistration-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        registrations = new PreRegistrationRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('sizes the plan from the power analysis', () => {
+        const directed = PreRegistrationAnalyzer.createPlan(design());
+        expect(directed.tails).toBe(1);
+        expect(directed.plannedTrials).toBe(StatisticalUtils.requiredSampleSize(0.1, 0.8, 0.1));
+        expect(directed.hypothesis.sampleSizeNeeded).toBe(directed.plannedTrials);
+        expect(directed.hypothesis.powerAnalysis).toMatchObject({ alpha: 0.05, power: 0.8, beta: expect.closeTo(0.2, 10) });
+
+        const highLow = PreRegistrationAnalyzer.createPlan(design({ primaryTest: 'high_low_z' }));
+        expect(highLow.plannedTrials).toBe(4 * directed.plannedTrials);
+
+        const meanShift = PreRegistrationAnalyzer.createPlan(design({ primaryTest: 'mean_shift_z', intentions: ['baseline'] }));
+        expect(meanShift.tails).toBe(2);
+        expect(meanShift.plannedTrials).toBe(StatisticalUtils.requiredSampleSize(0.1, 0.8, 0.05));
+
+        expect(() => PreRegistrationAnalyzer.createPlan(design({ intentions: ['high', 'baseline'] })))
+            .toThrow('only applies to high and low');
+        expect(() => PreRegistrationAnalyzer.createPlan(design({ primaryTest: 'high_low_z', intentions: ['high'] })))
+            .toThrow('exactly the high and low');
+    });
+
+    test('freezes a locked plan with a verifiable hash', async () => {
+        const registrationId = await registrations.createRegistration(PreRegistrationAnalyzer.createPlan(design()));
+        await registrations.updateDraft(registrationId, PreRegistrationAnalyzer.createPlan(design({ effectSize: 0.2 })));
+
+        const locked = await registrations.lockRegistration(registrationId);
+        expect(locked.status).toBe('locked');
+        expect(locked.planHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(locked.plan.hypothesis.powerAnalysis.effectSize).toBe(0.2);
+        expect(await registrations.verifyRegistration(registrationId)).toBe(true);
+
+        await expect(registrations.updateDraft(registrationId, PreRegistrationAnalyzer.createPlan(design())))
+            .rejects.toThrow('No draft pre-registration');
+        await expect(registrations.lockRegistration(registrationId)).rejects.toThrow('already locked');
+
+        const db = dbManager.getConnection();
+        expect(() => db.prepare('UPDATE preregistrations SET plan = ? WHERE id = ?').run('{}', registrationId))
+            .toThrow('Pre-registration is locked');
+        expect(() => db.prepare('DELETE FROM preregistrations WHERE id = ?').run(registrationId))
+            .toThrow('Pre-registration is locked');
+
+        // Editing the stored plan behind the trigger's back breaks the hash
+        db.exec('DROP TRIGGER preregistrations_locked_update');
+        const tampered = { ...locked.plan, plannedTrials: locked.plan.plannedTrials - 1 };
+        db.prepare('UPDATE preregistrations SET plan = ? WHERE id = ?').run(JSON.stringify(tampered), registrationId);
+        expect(await registrations.verifyRegistration(registrationId)).toBe(false);
+
+        const report = PreRegistrationAnalyzer.buildReport(
+            (await registrations.getRegistration(registrationId))!,
+            false,
+            []
+        );
+        expect(report.planFollowed).toBe(false);
+        expect(report.deviations[0]).toContain('no longer matches the hash');
+    });
+
+    test('only tags sessions to a locked plan that allows them', async () => {
+        const draftId = await registrations.createRegistration(PreRegistrationAnalyzer.createPlan(design()));
+        const engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        const controller = new SessionController(engine, sessions, trials, undefined, registrations);
+        const config = {
+            targetTrials: 1000,
+            meditationDuration: 0,
+            fullScreen: false,
+            blockNotifications: false
+        };
+
+        try {
+            await expect(controller.startSession({ ...config, intention: 'high', preregistrationId: draftId }))
+                .rejects.toThrow('must be locked before data is collected');
+
+            await registrations.lockRegistration(draftId);
+            await expect(controller.startSession({ ...config, intention: 'baseline', preregistrationId: draftId }))
+                .rejects.toThrow('not part of the pre-registered plan');
+
+            const session = await controller.startSession({ ...config, intention: 'high', preregistrationId: draftId });
+            await controller.stopSession(true);
+            expect((await sessions.getSession(session.id))?.preregistrationId).toBe(draftId);
+
+            await registrations.completeRegistration(draftId);
+            await expect(controller.startSession({ ...config, intention: 'low', preregistrationId: draftId }))
+                .rejects.toThrow('accepts no further sessions');
+        } finally {
+            await controller.destroy();
+            engine.destroy();
+        }
+    });
+
+    test('analyzes tagged sessions by the locked plan and reports deviations', async () => {
+        const plan = PreRegistrationAnalyzer.createPlan(design({
+            stoppingRule: { type: 'fixed_sessions', sessions: 2 }
+        }));
+        const registrationId = await registrations.createRegistration(plan);
+        const early = Date.now() - 60 * 60 * 1000;
+        await addSession(registrationId, 'high', early, new Array(10).fill(110));
+
+        await registrations.lockRegistration(registrationId);
+        const start = Date.now() + 1000;
+        await addSession(registrationId, 'high', start, new Array(50).fill(102));
+        await addSession(registrationId, 'baseline', start + 1000, new Array(50).fill(130));
+        await addSession(registrationId, 'low', start + 2000, new Array(50).fill(99));
+        await addSession(registrationId, 'high', start + 3000, new Array(50).fill(90));
+
+        const report = PreRegistrationAnalyzer.buildReport(
+            (await registrations.getRegistration(registrationId))!,
+            await registrations.verifyRegistration(registrationId),
+            await registrations.getRegisteredSessions(registrationId)
+        );
+
+        // Only the first two eligible sessions count; the pre-lock, baseline and late sessions are excluded
+        const expectedZ = (100 + 50) / Math.sqrt(50 * 100);
+        expect(report.hashVerified).toBe(true);
+        expect(report.sessionsAnalyzed).toBe(2);
+        expect(report.sessionsExcluded).toBe(3);
+        expect(report.trialsCollected).toBe(210);
+        expect(report.trialsAnalyzed).toBe(100);
+        expect(report.result?.statistic).toBeCloseTo(expectedZ, 10);
+        expect(report.result?.pValue).toBeCloseTo(StatisticalUtils.normalProbabilityOneTailed(expectedZ), 10);
+        expect(report.result?.significant).toBe(true);
+
+        expect(report.planFollowed).toBe(false);
+        expect(report.deviations).toEqual([
+            '1 session(s) started before the plan was locked',
+            '1 session(s) used an intention outside the plan',
+            '1 session(s) were collected after the stopping rule was met'
+        ]);
+        expect(report.conclusion).toContain('The plan was not followed: 3 deviation(s).');
+        expect(PreRegistrationAnalyzer.formatReport(report)).toContain('Plan followed: no');
+    });
+
+    test('reports a followed plan and an early stop on completion', async () => {
+        const plan = PreRegistrationAnalyzer.createPlan(design({
+            primaryTest: 'mean_shift_z',
+            intentions: ['baseline'],
+            effectSize: 0.5
+        }));
+        const registrationId = await registrations.createRegistration(plan);
+        await registrations.lockRegistration(registrationId);
+
+        const start = Date.now() + 1000;
+        await addSession(registrationId, 'baseline', start, new Array(plan.plannedTrials).fill(100));
+
+        const followed = PreRegistrationAnalyzer.buildReport(
+            (await registrations.getRegistration(registrationId))!,
+            true,
+            await registrations.getRegisteredSessions(registrationId)
+        );
+        expect(followed.planFollowed).toBe(true);
+        expect(followed.result).toMatchObject({ statistic: 0, significant: false, trialsAnalyzed: plan.plannedTrials });
+        expect(followed.conclusion).toContain('does not support the prediction');
+
+        const shortId = await registrations.createRegistration(plan);
+        await registrations.lockRegistration(shortId);
+        await addSession(shortId, 'baseline', start, [100, 101]);
+        await registrations.completeRegistration(shortId);
+
+        const stoppedEarly = PreRegistrationAnalyzer.buildReport(
+            (await registrations.getRegistration(shortId))!,
+            true,
+            await registrations.getRegisteredSessions(shortId)
+        );
+        expect(stoppedEarly.planFollowed).toBe(false);
+        expect(stoppedEarly.deviations).toEqual([`Data collection stopped early: 2 of ${plan.plannedTrials} planned trials`]);
+    });
+
+    test('stops on a pre-registered Bayes factor', async () => {
+        const prior = BayesianAnalyzer.DEFAULT_PRIOR;
+        expect(() => PreRegistrationAnalyzer.createPlan(design({ stoppingRule: { type: 'bayes_factor', threshold: 1, prior } })))
+            .toThrow('threshold above 1');
+
+        const plan = PreRegistrationAnalyzer.createPlan(design({ stoppingRule: { type: 'bayes_factor', threshold: 10, prior } }));
+        const registrationId = await registrations.createRegistration(plan);
+        await registrations.lockRegistration(registrationId);
+
+        const start = Date.now() + 1000;
+        await addSession(registrationId, 'high', start, new Array(50).fill(102));
+        await addSession(registrationId, 'low', start + 1000, new Array(50).fill(96));
+        await addSession(registrationId, 'high', start + 2000, new Array(50).fill(100));
+
+        // Inconclusive after the first session, past the threshold after the second
+        const afterFirst = BayesianAnalyzer.bayesFactor({ trialCount: 50, z: 100 / 50 }, prior, 'greater');
+        const afterSecond = BayesianAnalyzer.bayesFactor({ trialCount: 100, z: 300 / Math.sqrt(5000) }, prior, 'greater');
+        expect(afterFirst).toBeLessThan(10);
+        expect(afterSecond).toBeGreaterThan(10);
+
+        const report = PreRegistrationAnalyzer.buildReport(
+            (await registrations.getRegistration(registrationId))!,
+            true,
+            await registrations.getRegisteredSessions(registrationId)
+        );
+        expect(report.sessionsAnalyzed).toBe(2);
+        expect(report.trialsAnalyzed).toBe(100);
+        expect(report.result?.bayesFactor10).toBeCloseTo(afterSecond, 10);
+        expect(report.deviations).toEqual(['1 session(s) were collected after the stopping rule was met']);
+        expect(report.conclusion).toContain(`supports the prediction (BF10 = ${afterSecond.toPrecision(4)} ≥ 10)`);
+        expect(PreRegistrationAnalyzer.formatReport(report)).toContain('Bayes factor: BF10 =');
+    });
+});
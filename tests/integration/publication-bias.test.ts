@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdvancedResearchStats } from '../../src/core/advanced-research-stats';
+import { DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { OperatorSessionTotals } from '../../src/shared/analysis-types';
+import { IntentionType, RNGTrial } from '../../src/shared/types';
+
+const { PublicationBiasAnalyzer } = AdvancedResearchStats;
+
+/**
+ * Sessions as [intention, trials, raw deviation of the trial sum from 100 per trial, status].
+ * The short sessions that were stopped early carry the large effects, so the funnel is
+ * asymmetric. Reference values come from an independent computation of each diagnostic.
+ */
+const DESIGN: Array<[IntentionType, number, number, 'completed' | 'stopped']> = [
+    ['high', 400, 300, 'completed'],
+    ['low', 400, 100, 'completed'],
+    ['high', 200, 100, 'completed'],
+    ['high', 100, 250, 'stopped'],
+    ['low', 50, -150, 'stopped'],
+    ['high', 100, -50, 'completed']
+];
+
+describe('Publication bias diagnostics of stored sessions', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let totals: OperatorSessionTotals[];
+    const sessionIds: string[] = [];
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-bias-'));
+        dbManager = new DatabaseManager({ dbPath: path.join(tempDir, 'test.db'), backupPath: path.join(tempDir, 'backups') });
+        await dbManager.initialize();
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+
+        for (let i = 0; i < DESIGN.length; i++) {
+            const [intention, count, deviation, status] = DESIGN[i];
+            const start = Date.UTC(2024, 4, i + 1, 12);
+            const sessionId = await sessions.createSession({
+                startTime: new Date(start),
+                endTime: new Date(start + count * 1000),
+                intention,
+                targetTrials: status === 'stopped' ? count * 2 : count,
+                status
+            });
+
+            let remaining = deviation;
+            const sessionTrials: RNGTrial[] = Array.from({ length: count }, (_, t) => {
+                const step = Math.max(-50, Math.min(50, remaining));
+                remaining -= step;
+                return {
+                    timestamp: new Date(start + t * 1000),
+                    trialValue: 100 + step,
+                    sessionId,
+                    experimentMode: 'session',
+                    intention,
+                    trialNumber: t + 1
+                };
+            });
+            await trials.insertTrialsBatch(sessionTrials);
+            sessionIds.push(sessionId);
+        }
+
+        totals = await sessions.getSessionTotals();
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('tests funnel asymmetry by Egger regression and Begg rank correlation', () => {
+        const result = PublicationBiasAnalyzer.analyze(totals, { method: 'fixed' });
+
+        expect(result.studyCount).toBe(6);
+        expect(result.egger).not.toBeNull();
+        expect(result.egger!.intercept).toBeCloseTo(3.1377919666021614, 10);
+        expect(result.egger!.standardError).toBeCloseTo(2.208519585899127, 10);
+        expect(result.egger!.slope).toBeCloseTo(-0.13032500461439228, 10);
+        expect(result.egger!.degreesOfFreedom).toBe(4);
+        expect(result.egger!.pValue).toBeCloseTo(0.22842240578321157, 4);
+
+        expect(result.begg).not.toBeNull();
+        expect(result.begg!.kendallTau).toBeCloseTo(1 / 3, 12);
+        expect(result.begg!.z).toBeCloseTo(0.9393364366277244, 10);
+        expect(result.begg!.pValue).toBeCloseTo(0.34755803674116903, 5);
+
+        // Two sessions cannot be regressed on
+        const pair = PublicationBiasAnalyzer.analyze(totals.slice(0, 2), { method: 'fixed' });
+        expect(pair.egger).toBeNull();
+        expect(pair.begg).toBeNull();
+    });
+
+    test('fills the sessions missing from the left of the funnel', () => {
+        const { trimAndFill, funnel } = PublicationBiasAnalyzer.analyze(totals, { method: 'fixed' });
+
+        expect(trimAndFill.side).toBe('left');
+        expect(trimAndFill.missingStudies).toBe(1);
+        expect(trimAndFill.imputed).toHaveLength(1);
+        expect(trimAndFill.imputed[0].effectSize).toBeCloseTo(-0.3064129385141706, 10);
+        expect(trimAndFill.imputed[0].standardError).toBeCloseTo(1 / Math.sqrt(50), 12);
+        expect(trimAndFill.adjusted.studyCount).toBe(7);
+        expect(trimAndFill.adjusted.pooledEffectSize).toBeCloseTo(0.05892556509887895, 10);
+        expect(trimAndFill.adjusted.pooledStandardError).toBeCloseTo(0.02773500981126146, 10);
+
+        expect(funnel.points).toHaveLength(7);
+        expect(funnel.points.filter(point => point.status === 'stopped').map(point => point.sessionId))
+            .toEqual(sessionIds.slice(3, 5));
+        expect(funnel.points[6]).toMatchObject({ sessionId: null });
+        expect(funnel.pooledEffectSize).toBeCloseTo(0.07353910524340093, 10);
+        expect(funnel.adjustedEffectSize).toBe(trimAndFill.adjusted.pooledEffectSize);
+        expect(funnel.maxStandardError).toBeCloseTo(1 / Math.sqrt(50), 12);
+    });
+
+    test('summarizes the p-curve and fail-safe N', () => {
+        const { pCurve, failSafeN } = PublicationBiasAnalyzer.analyze(totals, { method: 'fixed' });
+
+        // Sessions 1, 4 and 5 reach p < .05 in the intended direction
+        expect(pCurve.significantCount).toBe(3);
+        expect(pCurve.bins).toEqual([2, 0, 0, 1, 0]);
+        expect(pCurve.rightSkewZ).toBeCloseTo(-2.04848438007603, 3);
+        expect(pCurve.rightSkewPValue).toBeCloseTo(0.02025628053422618, 4);
+        expect(pCurve.flatnessZ).toBeCloseTo(-0.773173854873143, 3);
+        expect(pCurve.flatnessPValue).toBeCloseTo(0.7802902514586585, 4);
+
+        expect(failSafeN).toEqual({ rosenthal: 20, orwin: 436, trivialEffectSize: 0.001 });
+        expect(PublicationBiasAnalyzer.analyze(totals, { method: 'fixed', trivialEffectSize: 0.05 }).failSafeN.orwin).toBe(3);
+
+        const nothing = PublicationBiasAnalyzer.pCurve([]);
+        expect(nothing).toMatchObject({ significantCount: 0, bins: [0, 0, 0, 0, 0], rightSkewPValue: 1 });
+    });
+
+    test('compares completed against stopped sessions', () => {
+        const { optionalStopping } = PublicationBiasAnalyzer.analyze(totals, { method: 'fixed' });
+
+        expect(optionalStopping.completed).toMatchObject({ studyCount: 4, trialCount: 1100 });
+        expect(optionalStopping.stopped).toMatchObject({ studyCount: 2, trialCount: 150 });
+        expect(optionalStopping.completed!.pooledEffectSize).toBeCloseTo(0.032141217326661246, 10);
+        expect(optionalStopping.stopped!.pooledEffectSize).toBeCloseTo(0.3771236166328253, 10);
+        expect(optionalStopping.stoppedFraction).toBeCloseTo(1 / 3, 12);
+        expect(optionalStopping.difference).toBeCloseTo(-0.34498239930616403, 10);
+        expect(optionalStopping.differenceZ).toBeCloseTo(-3.963546009534513, 8);
+        expect(optionalStopping.pValue).toBeCloseTo(7.384462357240551e-05, 6);
+        expect(optionalStopping.allSessionsBias).toBeCloseTo(0.041397887916739685, 10);
+
+        // Without stopped sessions there is nothing to compare against
+        const completedOnly = PublicationBiasAnalyzer.analyze(
+            totals.filter(total => total.session.status === 'completed'),
+            { method: 'reml', hartungKnapp: true }
+        );
+        expect(completedOnly.optionalStopping).toMatchObject({ stopped: null, stoppedFraction: 0, pValue: 1, allSessionsBias: 0 });
+    });
+});
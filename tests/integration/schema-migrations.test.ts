@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseManager } from '../../src/database/connection';
+import {
+    MigrationRunner,
+    BASELINE_SCHEMA_VERSION,
+    migrationChecksum,
+    type Migration
+} from '../../src/database/migrator';
+import { MIGRATIONS } from '../../src/database/migrations';
+
+const FIXTURE_SCHEMA = path.join(__dirname, '..', 'fixtures', 'schema-1.0.0.sql');
+const HEAD_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+describe('Schema migrations', () => {
+    let tempDir: string;
+    let dbPath: string;
+    let backupPath: string;
+
+    /**
+     * Write a database as the 1.0.0 release left it, with a session and its trials
+     */
+    const createFixtureDatabase = (): void => {
+        const db = new Database(dbPath);
+        db.exec(fs.readFileSync(FIXTURE_SCHEMA, 'utf8'));
+        db.prepare(`
+            INSERT INTO sessions (id, start_time, intention, target_trials, actual_trials, status)
+            VALUES ('session-1', 1704067200000, 'high', 3, 3, 'completed')
+        `).run();
+
+        const insertTrial = db.prepare(`
+            INSERT INTO trials (id, timestamp, trial_value, session_id, experiment_mode, intention, trial_number)
+            VALUES (?, ?, ?, 'session-1', 'session', 'high', ?)
+        `);
+        [98, 104, 101].forEach((value, i) => insertTrial.run(`trial-${i}`, 1704067200000 + i * 1000, value, i + 1));
+        db.close();
+    };
+
+    const tableExists = (db: Database.Database, name: string): boolean =>
+        db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) !== undefined;
+
+    const schemaVersion = (db: Database.Database): string =>
+        (db.prepare(`SELECT value FROM database_metadata WHERE key = 'schema_version'`).get() as { value: string }).value;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-migrations-'));
+        dbPath = path.join(tempDir, 'test.db');
+        backupPath = path.join(tempDir, 'backups');
+        createFixtureDatabase();
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('DatabaseManager', () => {
+        let dbManager: DatabaseManager;
+
+        beforeEach(() => {
+            dbManager = new DatabaseManager({ dbPath, backupPath });
+        });
+
+        afterEach(() => {
+            dbManager.close();
+        });
+
+        test('migrates a 1.0.0 database to head on initialize', async () => {
+            await dbManager.initialize();
+            const db = dbManager.getConnection();
+
+            expect(schemaVersion(db)).toBe(HEAD_VERSION);
+            expect(tableExists(db, 'trial_bitstream_blocks')).toBe(true);
+            expect((db.prepare('SELECT COUNT(*) AS count FROM trials').get() as { count: number }).count).toBe(3);
+
+            const applied = new MigrationRunner(db).getAppliedMigrations();
+            expect(applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+            applied.forEach((migration, i) => expect(migration.checksum).toBe(migrationChecksum(MIGRATIONS[i])));
+        });
+
+        test('backs up the database before migrating', async () => {
+            await dbManager.initialize();
+
+            const backups = fs.readdirSync(backupPath);
+            expect(backups).toHaveLength(1);
+            expect(backups[0]).toMatch(/^manual-backup-pre-migration-1-0-0-to-/);
+
+            // The backup is the untouched 1.0.0 database
+            const backup = new Database(path.join(backupPath, backups[0]), { readonly: true });
+            expect(tableExists(backup, 'trial_bitstream_blocks')).toBe(false);
+            expect(schemaVersion(backup)).toBe(BASELINE_SCHEMA_VERSION);
+            backup.close();
+        });
+
+        test('skips the backup for a new database', async () => {
+            dbManager = new DatabaseManager({ dbPath: path.join(tempDir, 'new.db'), backupPath });
+            await dbManager.initialize();
+
+            expect(schemaVersion(dbManager.getConnection())).toBe(HEAD_VERSION);
+            expect(fs.readdirSync(backupPath)).toHaveLength(0);
+        });
+
+        test('rolls back to the baseline and forward again without losing data', async () => {
+            await dbManager.initialize();
+
+            const down = await dbManager.migrate({ targetVersion: BASELINE_SCHEMA_VERSION, backup: false });
+            expect(down.direction).toBe('down');
+            expect(down.applied.map(step => step.version)).toEqual(MIGRATIONS.map(m => m.version).reverse());
+
+            const db = dbManager.getConnection();
+            expect(tableExists(db, 'trial_bitstream_blocks')).toBe(false);
+            expect(schemaVersion(db)).toBe(BASELINE_SCHEMA_VERSION);
+
+            const up = await dbManager.migrate({ backup: false });
+            expect(up.toVersion).toBe(HEAD_VERSION);
+            expect(tableExists(db, 'trial_bitstream_blocks')).toBe(true);
+            expect((db.prepare('SELECT COUNT(*) AS count FROM trials').get() as { count: number }).count).toBe(3);
+        });
+
+        test('refuses to start when an applied migration was edited', async () => {
+            await dbManager.initialize();
+            dbManager.getConnection().prepare(`UPDATE schema_migrations SET checksum = 'tampered'`).run();
+            dbManager.close();
+
+            await expect(dbManager.initialize()).rejects.toThrow('Checksum mismatch for migration 1.1.0');
+        });
+    });
+
+    describe('MigrationRunner', () => {
+        let db: Database.Database;
+
+        beforeEach(() => {
+            db = new Database(dbPath);
+            db.pragma('foreign_keys = ON');
+        });
+
+        afterEach(() => {
+            db.close();
+        });
+
+        test('dry run reports the plan and leaves the database unchanged', () => {
+            const result = new MigrationRunner(db).run({ dryRun: true });
+
+            expect(result).toMatchObject({
+                fromVersion: BASELINE_SCHEMA_VERSION,
+                toVersion: HEAD_VERSION,
+                direction: 'up',
+                dryRun: true
+            });
+            expect(result.applied).toHaveLength(MIGRATIONS.length);
+            expect(tableExists(db, 'trial_bitstream_blocks')).toBe(false);
+            expect(tableExists(db, 'schema_migrations')).toBe(false);
+            expect(schemaVersion(db)).toBe(BASELINE_SCHEMA_VERSION);
+            expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+        });
+
+        test('rolls back the whole batch when a migration fails', () => {
+            const migrations: Migration[] = [
+                ...MIGRATIONS,
+                { version: '99.0.0', name: 'broken', up: 'ALTER TABLE missing_table ADD COLUMN x TEXT', down: '' }
+            ];
+
+            expect(() => new MigrationRunner(db, migrations).run())
+                .toThrow('Migration 99.0.0 (broken) up failed');
+            expect(tableExists(db, 'trial_bitstream_blocks')).toBe(false);
+            expect(new MigrationRunner(db).getCurrentVersion()).toBe(BASELINE_SCHEMA_VERSION);
+        });
+
+        test('rejects migrations that violate foreign keys', () => {
+            const migrations: Migration[] = [{
+                version: '1.1.0',
+                name: 'orphan-trials',
+                up: `UPDATE trials SET session_id = 'no-such-session'`,
+                down: ''
+            }];
+
+            expect(() => new MigrationRunner(db, migrations).run()).toThrow('foreign key violation');
+            expect((db.prepare('SELECT DISTINCT session_id FROM trials').get() as { session_id: string }).session_id)
+                .toBe('session-1');
+        });
+
+        test('refuses a database migrated by a newer build', () => {
+            new MigrationRunner(db).run();
+
+            expect(() => new MigrationRunner(db, []).run()).toThrow('newer than this build');
+        });
+
+        test('requires migrations in ascending version order', () => {
+            const migration = (version: string): Migration => ({ version, name: version, up: '', down: '' });
+
+            expect(() => new MigrationRunner(db, [migration('1.2.0'), migration('1.1.0')]))
+                .toThrow('Migration 1.1.0 must be newer than 1.2.0');
+            expect(() => new MigrationRunner(db, [migration('1.0.0')])).toThrow('must be newer than 1.0.0');
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { RNGEngine } from '../../src/core/rng-engine';
+import {
+    FailoverEntropySource,
+    getEntropyHealth,
+    SeededEntropySource,
+    SerialConnectionEvent,
+    SerialEntropySource,
+    TRIAL_FRAME_BYTES,
+    TRNGSimulator
+} from '../../src/core/entropy';
+
+// The simulator needs python3 with the pty module (any Linux/macOS box)
+const hasPty = process.platform !== 'win32' &&
+    spawnSync('python3', ['-c', 'import pty'], { timeout: 10000 }).status === 0;
+const describePty = hasPty ? describe : describe.skip;
+
+const waitFor = async (condition: () => boolean, timeoutMs: number = 5000): Promise<void> => {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) {
+            throw new Error('Timed out waiting for condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+};
+
+describePty('Serial TRNG driver with pty simulator', () => {
+    let tempDir: string;
+    let linkPath: string;
+    let simulator: TRNGSimulator;
+    let source: SerialEntropySource;
+
+    beforeEach(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-serial-'));
+        linkPath = path.join(tempDir, 'trng');
+        simulator = new TRNGSimulator({ linkPath, bytesPerSecond: 20000 });
+        await simulator.start();
+        source = new SerialEntropySource(linkPath, { reconnectInterval: 100 });
+    });
+
+    afterEach(async () => {
+        await source.close();
+        await simulator.stop();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('streams 200-bit trials into the engine', async () => {
+        await source.open();
+        await waitFor(() => source.getBufferedFrames() >= 10);
+
+        const engine = new RNGEngine({ qualityMonitoring: false }, source);
+        try {
+            const trials = Array.from({ length: 10 }, () => engine.generateTrial());
+
+            trials.forEach(trial => {
+                expect(trial.trialValue).toBeGreaterThanOrEqual(0);
+                expect(trial.trialValue).toBeLessThanOrEqual(200);
+            });
+
+            const status = engine.getStatus().entropySource;
+            expect(status?.kind).toBe('serial');
+            expect(status?.bytesDelivered).toBe(10 * TRIAL_FRAME_BYTES);
+            expect(getEntropyHealth(status)).toBe('healthy');
+        } finally {
+            engine.destroy();
+        }
+    });
+
+    test('fails over when the device output gets stuck', async () => {
+        const failover = new FailoverEntropySource(source, new SeededEntropySource(1), { primaryRetryInterval: 0 });
+        await failover.open();
+
+        simulator.setMode('stuck');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        // Drain the random bytes buffered before the switch
+        await waitFor(() => {
+            failover.getBytes(TRIAL_FRAME_BYTES);
+            return failover.isOnBackup();
+        });
+
+        const status = failover.getStatus();
+        expect(status.activeSource?.kind).toBe('seeded');
+        expect(status.lastError).toMatch(/repetition count|adaptive proportion/);
+        expect(getEntropyHealth(status)).toBe('warning');
+
+        await failover.close();
+    });
+
+    test('reports an unplug and reconnects when the device returns', async () => {
+        const events: SerialConnectionEvent[] = [];
+        source.addConnectionListener(event => events.push(event));
+        await source.open();
+
+        await simulator.stop();
+        await waitFor(() => !source.isConnected());
+
+        // Only whole frames survive the disconnect
+        const drained: number[] = [];
+        expect(() => {
+            for (;;) drained.push(source.getBytes(TRIAL_FRAME_BYTES).length);
+        }).toThrow(/disconnected/);
+        expect(drained.every(length => length === TRIAL_FRAME_BYTES)).toBe(true);
+
+        expect(source.getDisconnectCount()).toBe(1);
+        expect(getEntropyHealth(source.getStatus())).toBe('error');
+        expect(source.getStatus().lastError).toMatch(/disconnected/);
+
+        await simulator.start();
+        await waitFor(() => source.isConnected());
+        await waitFor(() => source.getBufferedFrames() > 0);
+
+        expect(source.getBytes(TRIAL_FRAME_BYTES)).toHaveLength(TRIAL_FRAME_BYTES);
+        expect(getEntropyHealth(source.getStatus())).toBe('healthy');
+        expect(events.map(event => event.connected)).toEqual([true, false, true]);
+    });
+});
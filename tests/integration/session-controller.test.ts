@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { SessionConfig, RNGTrial } from '../../src/shared/types';
+import { SessionStatusUpdate } from '../../src/shared/ipc-types';
+
+describe('SessionController', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let engine: RNGEngine;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let controller: SessionController;
+
+    const config: SessionConfig = {
+        intention: 'high',
+        targetTrials: 5,
+        meditationDuration: 0,
+        fullScreen: false,
+        blockNotifications: false
+    };
+
+    const waitForStatus = (status: SessionStatusUpdate['status']) =>
+        new Promise<SessionStatusUpdate>(resolve => {
+            const listener = (update: SessionStatusUpdate) => {
+                if (update.status === status) {
+                    controller.off('status', listener);
+                    resolve(update);
+                }
+            };
+            controller.on('status', listener);
+        });
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-session-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+    });
+
+    afterAll(() => {
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        controller = new SessionController(engine, sessions, trials);
+    });
+
+    afterEach(async () => {
+        await controller.destroy();
+        trials.destroy();
+        engine.destroy();
+    });
+
+    test('persists engine trials and completes at the target count', async () => {
+        const received: RNGTrial[] = [];
+        controller.on('trial', (trial: RNGTrial) => received.push(trial));
+
+        const completed = waitForStatus('completed');
+        const session = await controller.startSession(config);
+        const update = await completed;
+
+        expect(update.session.id).toBe(session.id);
+        expect(update.trialsCompleted).toBe(config.targetTrials);
+        expect(received).toHaveLength(config.targetTrials);
+        expect(received.every(trial => trial.sessionId === session.id)).toBe(true);
+
+        const stored = await trials.getTrialsBySession(session.id);
+        expect(stored).toHaveLength(config.targetTrials);
+        expect(stored.map(trial => trial.trialValue)).toEqual(received.map(trial => trial.trialValue));
+
+        const storedSession = await sessions.getSession(session.id);
+        expect(storedSession?.status).toBe('completed');
+        expect(storedSession?.intention).toBe('high');
+    });
+
+    test('pauses and resumes without losing the trial sequence', async () => {
+        const running = waitForStatus('running');
+        await controller.startSession({ ...config, targetTrials: 1000 });
+        await running;
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const paused = await controller.pauseSession();
+        expect(paused?.status).toBe('paused');
+
+        const countAtPause = paused!.trialsCompleted;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(controller.getCurrent()?.trialsCompleted).toBe(countAtPause);
+
+        await controller.resumeSession();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const stopped = await controller.stopSession(true);
+
+        expect(stopped?.status).toBe('stopped');
+        expect(stopped!.trialsCompleted).toBeGreaterThan(countAtPause);
+
+        const stored = await trials.getTrialsBySession(stopped!.session.id);
+        const numbers = stored.map(trial => trial.trialNumber);
+        expect(numbers).toEqual(numbers.map((_, index) => index + 1));
+    });
+
+    test('rejects a second session while one is active', async () => {
+        await controller.startSession({ ...config, targetTrials: 1000 });
+        await expect(controller.startSession(config)).rejects.toThrow('already active');
+    });
+});
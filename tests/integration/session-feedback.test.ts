@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { AdvancedResearchStats } from '../../src/core/advanced-research-stats';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { FeedbackModality, IntentionType, RNGTrial, SessionConfig } from '../../src/shared/types';
+
+describe('Session feedback modalities', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+
+    const sessionConfig = (feedback?: FeedbackModality): SessionConfig => ({
+        intention: 'high',
+        targetTrials: 300,
+        feedback,
+        meditationDuration: 0,
+        fullScreen: false,
+        blockNotifications: false
+    });
+
+    /**
+     * Completed session with a constant trial value
+     */
+    const seedSession = async (
+        feedback: FeedbackModality,
+        intention: IntentionType,
+        trialValue: number,
+        count: number
+    ): Promise<string> => {
+        const start = Date.UTC(2024, 4, 1, 12);
+        const sessionId = await sessions.createSession({
+            startTime: new Date(start),
+            endTime: new Date(start + count * 1000),
+            intention,
+            targetTrials: count,
+            status: 'completed',
+            feedback
+        });
+        const sessionTrials: RNGTrial[] = Array.from({ length: count }, (_, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId,
+            experimentMode: 'session',
+            intention,
+            trialNumber: i + 1
+        }));
+        await trials.insertTrialsBatch(sessionTrials);
+        return sessionId;
+    };
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-feedback-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('records the configured modality on the session', async () => {
+        const engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        const controller = new SessionController(engine, sessions, trials);
+
+        try {
+            const blind = await controller.startSession(sessionConfig('none'));
+            expect(blind.feedback).toBe('none');
+            await controller.stopSession(false);
+
+            // Sessions configured without a modality get the original chart display
+            const charted = await controller.startSession(sessionConfig());
+            expect(charted.feedback).toBe('chart');
+            await controller.stopSession(false);
+
+            expect((await sessions.getSession(blind.id))?.feedback).toBe('none');
+            expect((await sessions.getSession(charted.id))?.feedback).toBe('chart');
+
+            const filtered = await sessions.getRecentSessions(10, { feedback: 'none' });
+            expect(filtered.map(session => session.id)).toEqual([blind.id]);
+        } finally {
+            await controller.destroy();
+            engine.destroy();
+        }
+    });
+
+    test('compares directed effects across modalities', async () => {
+        await seedSession('audio', 'high', 101, 200);
+        await seedSession('audio', 'low', 99, 200);
+        await seedSession('counter', 'high', 100, 400);
+        await seedSession('counter', 'baseline', 110, 100);
+
+        const comparison = AdvancedResearchStats.compareFeedbackModalities(
+            (await sessions.getSessionTotals()).filter(total => total.trialCount >= 100)
+        );
+        const audio = comparison.modalities.find(modality => modality.feedback === 'audio')!;
+        const counter = comparison.modalities.find(modality => modality.feedback === 'counter')!;
+
+        // Baseline sessions carry no intended direction and are left out
+        expect(counter).toMatchObject({ sessionCount: 1, trialCount: 400, directedZ: 0 });
+        expect(audio).toMatchObject({ sessionCount: 2, trialCount: 400 });
+        expect(audio.directedZ).toBeCloseTo(400 / Math.sqrt(50 * 400), 10);
+        expect(audio.highLowZ).toBeCloseTo(2 / Math.sqrt(50 / 200 + 50 / 200), 10);
+        expect(audio.pValue).toBeLessThan(0.01);
+
+        // Equal trial counts: Q reduces to (z1 - z2)^2 / 2
+        expect(comparison.degreesOfFreedom).toBe(1);
+        expect(comparison.heterogeneityQ).toBeCloseTo(audio.directedZ ** 2 / 2, 10);
+        expect(comparison.heterogeneityPValue).toBeGreaterThan(0);
+        expect(comparison.heterogeneityPValue).toBeLessThan(0.05);
+    });
+});
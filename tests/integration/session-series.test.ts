@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import { SeededEntropySource } from '../../src/core/entropy';
+import { TriPolarProtocol } from '../../src/core/tri-polar';
+import { AdvancedResearchStats } from '../../src/core/advanced-research-stats';
+import { getDatabaseManager, DatabaseManager } from '../../src/database/connection';
+import { TrialRepository } from '../../src/database/repositories/trial-repository';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { ParticipantRepository } from '../../src/database/repositories/participant-repository';
+import { SeriesRepository } from '../../src/database/repositories/series-repository';
+import { SessionController } from '../../src/main/session-controller';
+import { RNGTrial, SessionConfig } from '../../src/shared/types';
+
+describe('Tri-polar session series', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let trials: TrialRepository;
+    let sessions: SessionRepository;
+    let participants: ParticipantRepository;
+    let series: SeriesRepository;
+
+    const runConfig = (seriesId: string): SessionConfig => ({
+        intention: 'high',
+        targetTrials: 300,
+        seriesId,
+        meditationDuration: 0,
+        fullScreen: false,
+        blockNotifications: false
+    });
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-series-'));
+        dbManager = getDatabaseManager({
+            dbPath: path.join(tempDir, 'test.db'),
+            backupPath: path.join(tempDir, 'backups')
+        });
+        await dbManager.initialize();
+
+        trials = new TrialRepository(dbManager);
+        sessions = new SessionRepository(dbManager);
+        participants = new ParticipantRepository(dbManager);
+        series = new SeriesRepository(dbManager);
+    });
+
+    afterAll(() => {
+        trials.destroy();
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('schedules one run of each intention per block', () => {
+        const fixed = TriPolarProtocol.schedule(2, 'fixed');
+        expect(fixed.map(run => [run.position, run.block, run.intention])).toEqual([
+            [1, 1, 'high'], [2, 1, 'low'], [3, 1, 'baseline'],
+            [4, 2, 'high'], [5, 2, 'low'], [6, 2, 'baseline']
+        ]);
+
+        const randomized = TriPolarProtocol.schedule(20, 'randomized', new SeededEntropySource(7));
+        for (let block = 1; block <= 20; block++) {
+            const intentions = randomized.filter(run => run.block === block).map(run => run.intention);
+            expect([...intentions].sort()).toEqual(['baseline', 'high', 'low']);
+        }
+
+        // Blocks are not all in the same order, and the draw is reproducible from the source
+        const orders = new Set(randomized.map(run => run.intention).join(',').match(/[^,]+,[^,]+,[^,]+/g));
+        expect(orders.size).toBeGreaterThan(1);
+        expect(TriPolarProtocol.schedule(20, 'randomized', new SeededEntropySource(7))).toEqual(randomized);
+
+        expect(() => TriPolarProtocol.schedule(0, 'fixed')).toThrow('positive whole number of blocks');
+        expect(() => TriPolarProtocol.schedule(1, 'randomized')).toThrow('needs an entropy source');
+    });
+
+    test('performs the scheduled runs in order and completes the series', async () => {
+        const participant = await participants.resolveParticipant('OP-SERIES');
+        const seriesId = await series.createSeries(
+            { name: 'Pilot', participantId: participant.id, blocks: 1, trialsPerRun: 500, order: 'fixed' },
+            TriPolarProtocol.schedule(1, 'fixed')
+        );
+
+        const engine = new RNGEngine({ targetRate: 50, qualityMonitoring: false });
+        const controller = new SessionController(engine, sessions, trials, participants, undefined, series);
+
+        try {
+            // The series, not the config, decides intention, trial count and participant
+            const first = await controller.startSession(runConfig(seriesId));
+            expect(first).toMatchObject({ intention: 'high', targetTrials: 500, participantId: participant.id });
+
+            // A stopped run is performed again
+            await controller.stopSession(true);
+            const retry = await controller.startSession({ ...runConfig(seriesId), intention: 'low' });
+            expect(retry.intention).toBe('high');
+            await controller.stopSession(false);
+
+            let current = await series.getSeries(seriesId);
+            expect(current?.runs.map(run => run.status)).toEqual(['completed', 'pending', 'pending']);
+            expect(current?.runs[0].sessionId).toBe(retry.id);
+
+            expect((await controller.startSession(runConfig(seriesId))).intention).toBe('low');
+            await controller.stopSession(false);
+            expect((await controller.startSession(runConfig(seriesId))).intention).toBe('baseline');
+            await controller.stopSession(false);
+
+            current = await series.getSeries(seriesId);
+            expect(current?.status).toBe('completed');
+            expect(current?.completedAt).toBeInstanceOf(Date);
+
+            await expect(controller.startSession(runConfig(seriesId))).rejects.toThrow('Series is completed');
+
+            const other = await participants.resolveParticipant('OP-OTHER');
+            const otherSeriesId = await series.createSeries(
+                { name: 'Other', participantId: other.id, blocks: 1, trialsPerRun: 100, order: 'fixed' },
+                TriPolarProtocol.schedule(1, 'fixed')
+            );
+            await expect(controller.startSession({ ...runConfig(otherSeriesId), participantId: 'OP-SERIES' }))
+                .rejects.toThrow('different participant');
+        } finally {
+            await controller.destroy();
+            engine.destroy();
+        }
+    });
+
+    test('computes per-direction z and the high-low separation', async () => {
+        const seriesId = await series.createSeries(
+            { name: 'Analysis', blocks: 2, trialsPerRun: 50, order: 'fixed' },
+            TriPolarProtocol.schedule(2, 'fixed')
+        );
+        const day = 24 * 60 * 60 * 1000;
+        const start = Date.UTC(2024, 3, 1, 12);
+        const values = { high: 102, low: 99, baseline: 100 };
+
+        const scheduled = (await series.getSeries(seriesId))!.runs.slice(0, 4);
+        for (const run of scheduled) {
+            const runStart = start + (run.block - 1) * day + run.position * 60 * 1000;
+            const sessionId = await sessions.createSession({
+                startTime: new Date(runStart),
+                endTime: new Date(runStart + 50 * 1000),
+                intention: run.intention,
+                targetTrials: 50,
+                status: 'completed'
+            });
+            const runTrials: RNGTrial[] = Array.from({ length: 50 }, (_, i) => ({
+                timestamp: new Date(runStart + i * 1000),
+                trialValue: values[run.intention],
+                sessionId,
+                experimentMode: 'session',
+                intention: run.intention,
+                trialNumber: i + 1
+            }));
+            await trials.insertTrialsBatch(runTrials);
+            await series.assignRun(seriesId, run.position, sessionId);
+        }
+
+        const analysis = AdvancedResearchStats.analyzeSeries(seriesId, 6, await series.getRunTotals(seriesId));
+
+        // Block 1 complete plus the high run of block 2
+        expect(analysis).toMatchObject({ runsPlanned: 6, runsCompleted: 4, trialCount: 200, daysActive: 2 });
+        expect(analysis.byIntention.high).toMatchObject({ sessionCount: 2, trialCount: 100, meanDeviation: 2 });
+        expect(analysis.byIntention.high.zScore).toBeCloseTo(200 / Math.sqrt(50 * 100), 10);
+        expect(analysis.byIntention.low.zScore).toBeCloseTo(-50 / Math.sqrt(50 * 50), 10);
+        expect(analysis.byIntention.baseline.zScore).toBe(0);
+        expect(analysis.highLowSeparation).toBeCloseTo(3, 10);
+        expect(analysis.highLowZ).toBeCloseTo(3 / Math.sqrt(50 / 100 + 50 / 50), 10);
+        expect(analysis.highLowPValue).toBeLessThan(0.01);
+    });
+});
@@ -0,0 +1,162 @@
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    getTimeSyncConfigFromEnv,
+    markerAlignmentOffset,
+    parseServerAddress,
+    querySntpServer,
+    SntpServer,
+    TimeSyncService
+} from '../../src/core/time-sync';
+import { getClockSync, setClockSync } from '../../src/core/time-manager';
+import { DatabaseManager } from '../../src/database/connection';
+import { SessionRepository } from '../../src/database/repositories/session-repository';
+import { ClockSync } from '../../src/shared/types';
+
+/** Loopback answers in well under this, whatever the machine load */
+const TOLERANCE_MS = 25;
+
+describe('Time sync', () => {
+    let server: SntpServer;
+    let port: number;
+
+    beforeAll(async () => {
+        // A reference clock 250 ms ahead of this machine
+        server = new SntpServer({ offsetMs: 250 });
+        port = await server.start(0);
+    });
+
+    afterAll(async () => {
+        await server.stop();
+        setClockSync(null);
+    });
+
+    test('parses server addresses', () => {
+        expect(parseServerAddress('time.lab')).toEqual({ host: 'time.lab', port: 123 });
+        expect(parseServerAddress(' 10.0.0.5:1123 ')).toEqual({ host: '10.0.0.5', port: 1123 });
+        expect(parseServerAddress('[::1]:1123')).toEqual({ host: '::1', port: 1123 });
+        expect(parseServerAddress('fe80::1')).toEqual({ host: 'fe80::1', port: 123 });
+        expect(() => parseServerAddress('time.lab:99999')).toThrow('Invalid time server address');
+
+        expect(getTimeSyncConfigFromEnv({})).toBeNull();
+        expect(getTimeSyncConfigFromEnv({ RNG_TIME_SERVERS: 'a, b:1123', RNG_TIME_SYNC_INTERVAL: '60' })).toMatchObject({
+            servers: ['a', 'b:1123'],
+            intervalMs: 60000
+        });
+    });
+
+    test('measures the offset against an SNTP server', async () => {
+        const measurement = await querySntpServer({ host: '127.0.0.1', port });
+
+        expect(measurement.stratum).toBe(1);
+        expect(Math.abs(measurement.offsetMs - 250)).toBeLessThan(TOLERANCE_MS);
+        expect(measurement.roundTripMs).toBeGreaterThanOrEqual(0);
+        expect(measurement.roundTripMs).toBeLessThan(TOLERANCE_MS);
+    });
+
+    test('falls back to the next server and publishes the measurement', async () => {
+        // Bound but never answering
+        const silent = dgram.createSocket('udp4');
+        await new Promise<void>(resolve => silent.bind(0, '127.0.0.1', () => resolve()));
+
+        try {
+            const service = new TimeSyncService({
+                servers: [`127.0.0.1:${silent.address().port}`, `127.0.0.1:${port}`],
+                samples: 3,
+                timeoutMs: 300
+            });
+            const synced: ClockSync[] = [];
+            service.on('synced', sync => synced.push(sync));
+
+            const sync = await service.sync();
+            expect(sync).not.toBeNull();
+            expect(sync!.server).toBe(`127.0.0.1:${port}`);
+            expect(Math.abs(sync!.offsetMs - 250)).toBeLessThan(TOLERANCE_MS);
+            expect(sync!.uncertaintyMs).toBeLessThan(TOLERANCE_MS);
+            expect(getClockSync()).toBe(sync);
+            expect(synced).toEqual([sync]);
+            expect(service.getStatus()).toMatchObject({ lastSync: sync, lastError: null });
+        } finally {
+            silent.close();
+        }
+    });
+
+    test('keeps the last offset when no server answers', async () => {
+        const previous: ClockSync = { offsetMs: 12, uncertaintyMs: 1, server: 'earlier', syncedAt: new Date() };
+        setClockSync(previous);
+
+        const silent = dgram.createSocket('udp4');
+        await new Promise<void>(resolve => silent.bind(0, '127.0.0.1', () => resolve()));
+
+        try {
+            const service = new TimeSyncService({ servers: [`127.0.0.1:${silent.address().port}`], timeoutMs: 200 });
+            const failures: string[] = [];
+            service.on('syncFailed', message => failures.push(message));
+
+            expect(await service.sync()).toBeNull();
+            expect(failures).toHaveLength(1);
+            expect(service.getStatus().lastError).toContain('No answer from');
+            expect(getClockSync()).toBe(previous);
+        } finally {
+            silent.close();
+        }
+    });
+
+    test('aligns markers by the difference between the two clocks', () => {
+        const local: ClockSync = { offsetMs: -10, uncertaintyMs: 0.5, server: 'lab', syncedAt: new Date() };
+
+        expect(markerAlignmentOffset({}, null)).toBe(0);
+        expect(markerAlignmentOffset({ sourceOffsetMs: 40 }, local)).toBe(50);
+        expect(() => markerAlignmentOffset({ sourceOffsetMs: 40 }, null)).toThrow('has not synchronized its clock');
+    });
+});
+
+describe('Session clock offsets', () => {
+    let tempDir: string;
+    let dbManager: DatabaseManager;
+    let sessions: SessionRepository;
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-clock-'));
+        dbManager = new DatabaseManager({ dbPath: path.join(tempDir, 'test.db'), backupPath: path.join(tempDir, 'backups') });
+        await dbManager.initialize();
+        sessions = new SessionRepository(dbManager);
+    });
+
+    afterAll(() => {
+        dbManager.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('stores the offset with each session and finds the session covering a moment', async () => {
+        const start = new Date('2024-03-01T12:00:00Z');
+        const clockSync: ClockSync = { offsetMs: 3.25, uncertaintyMs: 0.4, server: 'time.lab:123', syncedAt: start };
+
+        const continuousId = await sessions.createSession({
+            startTime: start,
+            endTime: null,
+            intention: 'baseline',
+            targetTrials: 0,
+            status: 'running',
+            source: 'continuous',
+            clockSync
+        });
+        const foregroundId = await sessions.createSession({
+            startTime: new Date(start.getTime() + 60000),
+            endTime: new Date(start.getTime() + 120000),
+            intention: 'high',
+            targetTrials: 60,
+            status: 'completed'
+        });
+
+        expect((await sessions.getSession(continuousId))!.clockSync).toEqual(clockSync);
+        expect((await sessions.getSession(foregroundId))!.clockSync).toBeUndefined();
+
+        expect(await sessions.findSessionAt(new Date(start.getTime() - 1))).toBeNull();
+        expect((await sessions.findSessionAt(new Date(start.getTime() + 30000)))!.id).toBe(continuousId);
+        expect((await sessions.findSessionAt(new Date(start.getTime() + 90000)))!.id).toBe(foregroundId);
+        expect((await sessions.findSessionAt(new Date(start.getTime() + 150000)))!.id).toBe(continuousId);
+    });
+});
@@ -0,0 +1,133 @@
+import { BayesianAnalyzer } from '../../src/core/bayesian-analysis';
+import { BayesEvidence, PriorDistribution } from '../../src/shared/analysis-types';
+import { IntentionType, RNGTrial } from '../../src/shared/types';
+
+/**
+ * Reference values integrate likelihood × prior over δ directly, independently of the
+ * scale-mixture quadrature the analyzer uses
+ */
+const EVIDENCE: BayesEvidence = { trialCount: 10000, z: 2.5 };
+
+const makeTrials = (deviations: number[], intention: IntentionType): RNGTrial[] =>
+    deviations.map((deviation, i) => ({
+        timestamp: new Date(Date.UTC(2024, 0, 1) + i * 1000),
+        trialValue: 100 + deviation,
+        sessionId: 'session-1',
+        experimentMode: 'session',
+        intention,
+        trialNumber: i + 1
+    }));
+
+describe('BayesianAnalyzer', () => {
+    test('integrates the default JZS prior by quadrature', () => {
+        const { DEFAULT_PRIOR } = BayesianAnalyzer;
+
+        expect(BayesianAnalyzer.bayesFactor(EVIDENCE, DEFAULT_PRIOR)).toBeCloseTo(0.2564463437286671, 8);
+        expect(BayesianAnalyzer.bayesFactor(EVIDENCE, DEFAULT_PRIOR, 'greater')).toBeCloseTo(0.5097033040385027, 8);
+        expect(BayesianAnalyzer.bayesFactor({ trialCount: 50, z: -1.2 }, DEFAULT_PRIOR)).toBeCloseTo(0.30133669168287874, 8);
+        // Evidence against the intended direction
+        expect(BayesianAnalyzer.bayesFactor(EVIDENCE, DEFAULT_PRIOR, 'less')).toBeLessThan(0.01);
+        // No trials, no evidence either way
+        expect(BayesianAnalyzer.bayesFactor({ trialCount: 0, z: 0 }, DEFAULT_PRIOR)).toBe(1);
+
+        const result = BayesianAnalyzer.analyze(EVIDENCE, { prior: DEFAULT_PRIOR, alternative: 'greater' });
+        expect(result.posteriorMean).toBeCloseTo(0.02516658728493994, 7);
+        expect(result.posteriorSD).toBeCloseTo(0.009773262241109035, 7);
+        expect(result.credibleInterval[0]).toBeCloseTo(0.00633978099200061, 6);
+        expect(result.credibleInterval[1]).toBeCloseTo(0.044612430347722824, 6);
+        expect(result.bayesFactor).toMatchObject({ favors: 'null', interpretation: 'weak', hypothesis: 'δ > 0' });
+        expect(result.bayesFactor.bf01).toBeCloseTo(1 / 0.5097033040385027, 6);
+    });
+
+    test('computes informed normal priors in closed form', () => {
+        const prior = BayesianAnalyzer.informedPrior();
+        expect(prior).toEqual({ type: 'normal', mean: 1e-4 * Math.sqrt(200), standardDeviation: 1e-4 * Math.sqrt(200) });
+
+        const twoSided = BayesianAnalyzer.analyze(EVIDENCE, { prior });
+        expect(twoSided.bayesFactor.bf10).toBeCloseTo(1.474310238877215, 10);
+        expect(twoSided.bayesFactor.favors).toBe('alternative');
+        expect(twoSided.posteriorMean).toBeCloseTo(0.0018766799631108795, 9);
+        expect(twoSided.posteriorSD).toBeCloseTo(0.0014002800840280246, 9);
+        expect(twoSided.credibleInterval[0]).toBeCloseTo(-0.0008678209155939659, 8);
+        expect(twoSided.credibleInterval[1]).toBeCloseTo(0.004621182692910456, 8);
+
+        const directional = BayesianAnalyzer.analyze(EVIDENCE, { prior, alternative: 'greater' });
+        expect(directional.bayesFactor.bf10).toBeCloseTo(1.5944636243550616, 8);
+        expect(directional.posteriorMean).toBeCloseTo(0.0021267657718120714, 9);
+        expect(directional.posteriorSD).toBeCloseTo(0.0011953703927084023, 9);
+        expect(directional.credibleInterval[0]).toBeCloseTo(0.0001801175062268089, 8);
+    });
+
+    test('handles shifted t priors and plots prior against posterior', () => {
+        const prior: PriorDistribution = { type: 't', location: 0.002, scale: 0.001, df: 3 };
+        const result = BayesianAnalyzer.analyze(EVIDENCE, { prior, alternative: 'greater', credibleLevel: 0.95 });
+
+        expect(result.bayesFactor.bf10).toBeCloseTo(1.780159142511154, 7);
+        expect(result.posteriorMean).toBeCloseTo(0.0027909573744086644, 8);
+        expect(result.posteriorSD).toBeCloseTo(0.002154543391002979, 8);
+        expect(result.credibleInterval[1]).toBeCloseTo(0.007818848281184466, 7);
+
+        // The plotted range holds nearly all of the posterior; the t(3) tail keeps about 1% beyond it
+        const { density } = result;
+        expect(density).toHaveLength(101);
+        const step = density[1].effectSize - density[0].effectSize;
+        const area = density.reduce((sum, point, i) =>
+            sum + (i === 0 || i === density.length - 1 ? 0.5 : 1) * point.posterior * step, 0);
+        expect(area).toBeGreaterThan(0.985);
+        expect(area).toBeLessThan(1.001);
+        expect(density.every(point => point.effectSize >= 0)).toBe(true);
+    });
+
+    test('reports the Bayes factor across prior widths', () => {
+        const { robustness } = BayesianAnalyzer.analyze(EVIDENCE, { prior: BayesianAnalyzer.DEFAULT_PRIOR });
+
+        expect(robustness).toHaveLength(13);
+        expect(robustness[0].scale).toBeCloseTo(Math.SQRT1_2 / 8, 12);
+        expect(robustness[12].scale).toBeCloseTo(Math.SQRT1_2 * 8, 12);
+        expect(robustness[6].bf10).toBeCloseTo(0.2564463437286671, 8);
+        // Wider priors spread their mass further from an effect of 0.025 and lose evidence
+        for (let i = 7; i < robustness.length; i++) {
+            expect(robustness[i].bf10).toBeLessThan(robustness[i - 1].bf10);
+        }
+
+        expect(() => BayesianAnalyzer.analyze(EVIDENCE, { prior: { type: 'cauchy', location: 0, scale: 0 } }))
+            .toThrow('positive, finite width');
+        expect(() => BayesianAnalyzer.analyze({ trialCount: 0, z: 0 }, { prior: BayesianAnalyzer.DEFAULT_PRIOR }))
+            .toThrow('at least one trial');
+    });
+
+    test('traces the Bayes factor over accumulating trials and applies a stopping rule', () => {
+        // Low intention: trials under 100 count for the operator
+        const trials = makeTrials(Array.from({ length: 400 }, (_, i) => (i % 4 === 0 ? 3 : -5)), 'low');
+        const prior = BayesianAnalyzer.DEFAULT_PRIOR;
+
+        const trace = BayesianAnalyzer.sequentialTrace(trials, 'low', { prior, alternative: 'greater', interval: 50 });
+        expect(trace.points.map(point => point.trialCount)).toEqual([50, 100, 150, 200, 250, 300, 350, 400]);
+        const first = BayesianAnalyzer.evidenceFromTrials(trials.slice(0, 50), 'low');
+        expect(first.z).toBeCloseTo((50 * 5 - 13 * 8) / Math.sqrt(50 * 50), 12);
+        expect(trace.points[0].bf10).toBeCloseTo(BayesianAnalyzer.bayesFactor(first, prior, 'greater'), 12);
+        expect(trace).toMatchObject({ decision: 'continue', decidedAt: null });
+
+        const stopped = BayesianAnalyzer.sequentialTrace(trials, 'low', {
+            prior,
+            alternative: 'greater',
+            interval: 50,
+            stoppingRule: { threshold: 10, minTrials: 100 }
+        });
+        const crossing = stopped.points.find(point => point.trialCount >= 100 && point.bf10 >= 10);
+        expect(crossing).toBeDefined();
+        expect(stopped).toMatchObject({ decision: 'alternative', decidedAt: crossing!.trialCount });
+
+        // A capped rule stops at the cap when the evidence stays inconclusive
+        const capped = BayesianAnalyzer.sequentialTrace(trials.slice(0, 60), 'high', {
+            prior,
+            interval: 10,
+            stoppingRule: { threshold: 1e6, maxTrials: 30 }
+        });
+        expect(capped).toMatchObject({ decision: 'max_trials', decidedAt: 30 });
+
+        // Five trials at a time, plus the final look
+        expect(BayesianAnalyzer.sequentialTrace(trials.slice(0, 12), 'low', { prior, interval: 5 }).points
+            .map(point => point.trialCount)).toEqual([5, 10, 12]);
+    });
+});
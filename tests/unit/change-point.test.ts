@@ -0,0 +1,138 @@
+import { ChangePointDetector, OnlineChangePointDetector } from '../../src/core/change-point';
+import { ChangePointSample } from '../../src/shared/analysis-types';
+import { RNGTrial } from '../../src/shared/types';
+
+const start = new Date(2024, 0, 1).getTime();
+
+/**
+ * One sample per value, a second apart
+ */
+const series = (values: number[], trialCount = 1): ChangePointSample[] => values.map((value, i) => ({
+    startTime: new Date(start + i * 1000),
+    endTime: new Date(start + i * 1000),
+    value,
+    trialCount
+}));
+
+/**
+ * Values alternating about a mean, narrow enough by default that no value could belong to a
+ * segment 10 away
+ */
+const alternating = (count: number, mean: number, spread = 3): number[] =>
+    Array.from({ length: count }, (_, i) => mean + (i % 2 === 0 ? -spread : spread));
+
+describe('ChangePointDetector', () => {
+    test('reduces trials to block means', () => {
+        const trials: RNGTrial[] = [98, 102, 100, 104, 96, 100, 110, 90, 103, 99].map((trialValue, i) => ({
+            timestamp: new Date(start + i * 1000),
+            trialValue,
+            sessionId: 'session-1',
+            experimentMode: 'session',
+            intention: 'high',
+            trialNumber: i + 1
+        }));
+
+        const samples = ChangePointDetector.toSamples(trials, 4);
+        expect(samples.map(sample => sample.trialCount)).toEqual([3, 3, 3, 1]);
+        expect(samples.map(sample => sample.value)).toEqual([100, 100, 101, 99]);
+        expect(samples[1].startTime).toEqual(trials[3].timestamp);
+        expect(samples[1].endTime).toEqual(trials[5].timestamp);
+
+        expect(ChangePointDetector.toSamples(trials)).toHaveLength(10);
+        expect(() => ChangePointDetector.toSamples(trials, 0)).toThrow('At least one sample');
+    });
+
+    test('PELT segments a series at its shifts in mean', () => {
+        const samples = series([...alternating(100, 100), ...alternating(100, 110), ...alternating(100, 100)]);
+        const result = ChangePointDetector.pelt(samples);
+
+        expect(result).toMatchObject({ method: 'pelt', model: 'mean', sampleCount: 300, trialCount: 300, threshold: null });
+        expect(result.changePoints.map(point => point.index)).toEqual([100, 200]);
+        expect(result.changePoints[0]).toMatchObject({ meanBefore: 100, meanAfter: 110, magnitudeChange: 10 });
+        expect(result.changePoints[0].timestamp).toEqual(samples[100].startTime);
+        expect(result.changePoints[1].magnitudeChange).toBe(-10);
+        result.changePoints.forEach(point => expect(point.confidence).toBeGreaterThan(0.999));
+
+        expect(result.segments.map(segment => [segment.startIndex, segment.endIndex])).toEqual([[0, 100], [100, 200], [200, 300]]);
+        expect(result.segments[1].mean).toBe(110);
+        expect(result.segments[1].zScore).toBeCloseTo(10 / Math.sqrt(50 / 100), 10);
+
+        const flat = ChangePointDetector.pelt(series(alternating(300, 100)));
+        expect(flat.changePoints).toEqual([]);
+        expect(flat.segments).toHaveLength(1);
+    });
+
+    test('PELT finds a change in variance only with the mean and variance model', () => {
+        const samples = series([...alternating(100, 100, 7), ...alternating(100, 100, 25)]);
+
+        expect(ChangePointDetector.pelt(samples).changePoints).toEqual([]);
+
+        const result = ChangePointDetector.pelt(samples, { model: 'meanvar' });
+        expect(result.model).toBe('meanvar');
+        expect(result.changePoints.map(point => point.index)).toEqual([100]);
+        expect(result.changePoints[0].magnitudeChange).toBe(0);
+        expect(result.segments[1].standardDeviation).toBeGreaterThan(3 * result.segments[0].standardDeviation);
+    });
+
+    test('CUSUM alarms at the onset of a shift and marks where it ends', () => {
+        const samples = series([...alternating(100, 100), ...alternating(50, 110), ...alternating(100, 100)]);
+        const result = ChangePointDetector.cusum(samples);
+
+        expect(result.threshold).toBe(8);
+        expect(result.statistic).toHaveLength(250);
+        expect(Math.max(...result.statistic.slice(0, 100))).toBeLessThan(1);
+        expect(result.changePoints.map(point => point.index)).toEqual([100, 150]);
+        expect(result.changePoints[0]).toMatchObject({ method: 'cusum', meanBefore: 100, meanAfter: 110 });
+
+        // A wider control limit than the shift can reach stays silent
+        expect(ChangePointDetector.cusum(samples, { controlLimit: 200 }).changePoints).toEqual([]);
+    });
+
+    test('BOCPD reports a shift shortly after it starts', () => {
+        // Means of 60 trials, shifting by about two standard errors
+        const samples = series([...alternating(150, 100, 0.5), ...alternating(150, 102, 0.5)], 60);
+        const result = ChangePointDetector.analyze(samples, 'bocpd');
+
+        expect(result.method).toBe('bocpd');
+        expect(result.threshold).toBe(0.95);
+        expect(result.changePoints).toHaveLength(1);
+        expect(Math.abs(result.changePoints[0].index - 150)).toBeLessThanOrEqual(2);
+        expect(result.changePoints[0].confidence).toBeGreaterThanOrEqual(0.95);
+        expect(Math.max(...result.statistic.slice(0, 140))).toBeLessThan(0.95);
+    });
+
+    test('validates its options', () => {
+        const samples = series(alternating(20, 100));
+
+        expect(() => ChangePointDetector.analyze(samples, 'binseg' as never)).toThrow('Unknown change-point method');
+        expect(() => ChangePointDetector.pelt(samples, { model: 'variance' as never })).toThrow('Unknown change-point model');
+        expect(() => ChangePointDetector.pelt(samples, { trialVariance: 0 })).toThrow('Trial variance must be positive');
+        expect(() => ChangePointDetector.pelt(samples, { penalty: -1 })).toThrow('penalty must not be negative');
+        expect(() => ChangePointDetector.pelt(samples, { minSegmentLength: 0 })).toThrow('Minimum segment length');
+        expect(() => ChangePointDetector.cusum(samples, { controlLimit: 0 })).toThrow('control limit must be positive');
+        expect(() => ChangePointDetector.bocpd(samples, { threshold: 1 })).toThrow('threshold must be between 0 and 1');
+    });
+});
+
+describe('OnlineChangePointDetector', () => {
+    test('follows the run length of a stream and restarts after reset', () => {
+        const detector = new OnlineChangePointDetector();
+        const samples = series([...alternating(150, 100, 0.5), ...alternating(150, 98, 0.5)], 60);
+
+        const reported = samples.map(sample => detector.push(sample)).filter(point => point !== null);
+        expect(reported).toHaveLength(1);
+        expect(reported[0]!.meanBefore).toBeCloseTo(100, 1);
+        expect(reported[0]!.meanAfter).toBeCloseTo(98, 0);
+
+        const segment = detector.currentSegment()!;
+        expect(segment.endIndex).toBe(300);
+        expect(Math.abs(segment.startIndex - 150)).toBeLessThanOrEqual(2);
+        expect(segment.mean).toBeCloseTo(98, 0);
+        expect(Math.abs(detector.getRunLength() - 150)).toBeLessThanOrEqual(2);
+        expect(detector.getChangeProbability()).toBeLessThan(detector.threshold);
+
+        detector.reset();
+        expect(detector.currentSegment()).toBeNull();
+        expect(detector.getRunLength()).toBe(0);
+    });
+});
@@ -0,0 +1,124 @@
+import { SeededEntropySource } from '../../src/core/entropy';
+import { StatisticalUtils } from '../../src/core/statistical-utils';
+import {
+    DiehardTestSuite,
+    DIEHARD_SAMPLE_WORDS,
+    DIEHARD_TEST_IDS,
+    bytesToWords,
+    packWords
+} from '../../src/main/calibration/DiehardTestSuite';
+import { RandomnessValidator } from '../../src/main/calibration/RandomnessValidator';
+
+const wordsFromSource = (seed: number, count: number): Uint32Array =>
+    bytesToWords(new SeededEntropySource(seed).getBytes(count * 4));
+
+/**
+ * 32-bit LCG x -> 69069x + 1 (mod 2^32) - its byte weights are far from independent
+ */
+const lcgWords = (count: number): Uint32Array => {
+    const words = new Uint32Array(count);
+    let x = 1;
+    for (let i = 0; i < count; i++) {
+        x = (Math.imul(69069, x) + 1) >>> 0;
+        words[i] = x;
+    }
+    return words;
+};
+
+describe('Diehard battery', () => {
+    const suite = new DiehardTestSuite();
+
+    describe('Kolmogorov-Smirnov uniformity test', () => {
+        test('matches the exact distribution for a single value', () => {
+            // n = 1: P(D >= d) = 2(1 - d) for d >= 1/2
+            const { statistic, pValue } = StatisticalUtils.kolmogorovSmirnovUniform([0.3]);
+            expect(statistic).toBeCloseTo(0.7, 12);
+            expect(pValue).toBeCloseTo(0.6, 12);
+        });
+
+        test('separates uniform from clustered p-values', () => {
+            const spread = Array.from({ length: 50 }, (_, i) => (i + 0.5) / 50);
+            const clustered = Array.from({ length: 50 }, (_, i) => i / 5000);
+
+            expect(StatisticalUtils.kolmogorovSmirnovUniform(spread).pValue).toBeGreaterThan(0.99);
+            expect(StatisticalUtils.kolmogorovSmirnovUniform(clustered).pValue).toBeLessThan(1e-10);
+        });
+    });
+
+    describe('extended tier', () => {
+        test('passes a good generator at Marsaglia sample sizes', () => {
+            const results = suite.runAll(wordsFromSource(11, DIEHARD_SAMPLE_WORDS), 'extended');
+
+            expect(Array.from(results.keys())).toEqual([...DIEHARD_TEST_IDS]);
+            results.forEach(result => {
+                expect(result.applicable).toBeUndefined();
+                expect(result.pValue).toBeGreaterThan(0.001);
+            });
+
+            // One p-value per bit position or run, as Diehard prints them
+            expect(results.get('birthdaySpacings')?.subTests).toHaveLength(9);
+            expect(results.get('ranks6x8')?.subTests).toHaveLength(25);
+            expect(results.get('opso')?.subTests).toHaveLength(23);
+            expect(results.get('oqso')?.subTests).toHaveLength(28);
+            expect(results.get('dna')?.subTests).toHaveLength(31);
+            expect(results.get('minimumDistance')?.subTests).toHaveLength(100);
+            expect(results.get('opso')?.subTests?.[0].label).toBe('bits 1-10');
+        });
+
+        test('refuses a sample smaller than the Diehard file', () => {
+            expect(() => suite.runAll(wordsFromSource(1, 1000), 'extended')).toThrow('Extended Diehard tier');
+        });
+    });
+
+    describe('standard tier', () => {
+        test('scales tests to the data and marks the rest not applicable', () => {
+            const results = suite.runAll(wordsFromSource(5, 312500));
+
+            expect(results.get('opso')?.applicable).toBe(false);
+            expect(results.get('countOnesBytes')?.applicable).toBe(false);
+            expect(results.get('birthdaySpacings')?.subTests).toHaveLength(9);
+            expect(results.get('squeeze')?.passed).toBe(true);
+            expect(results.get('craps')?.subTests?.map(subTest => subTest.label)).toEqual(['wins', 'throws']);
+        });
+
+        test('packs bits most significant first', () => {
+            const bits = [1, ...new Array(30).fill(0), 1, 1];
+            expect(Array.from(packWords(bits))).toEqual([0x80000001]);
+        });
+    });
+
+    describe('defective generators', () => {
+        test('fails a 32-bit LCG on count-the-1s', () => {
+            expect(suite.countOnesStream(lcgWords(312500)).passed).toBe(false);
+        });
+
+        test('fails words whose low byte is stuck', () => {
+            const words = wordsFromSource(9, 400000).map(word => (word & 0xFFFFFF00) >>> 0);
+
+            const ranks = suite.ranks6x8(words);
+            expect(ranks.passed).toBe(false);
+            expect(ranks.subTests?.find(subTest => subTest.label === 'bits 25-32')?.pValue).toBeLessThan(1e-10);
+            expect(suite.birthdaySpacings(words).passed).toBe(false);
+        });
+    });
+
+    describe('RandomnessValidator integration', () => {
+        test('runs the extended tier from an entropy source', async () => {
+            const validator = new RandomnessValidator();
+            const results = await validator.runFullTestSuite(new Array(100000).fill(0).map((_, i) => i % 2), {
+                diehardTier: 'extended',
+                entropySource: new SeededEntropySource(12)
+            });
+
+            expect(results.diehard.tier).toBe('extended');
+            expect(results.diehard.results).toHaveLength(17);
+            expect(results.diehard.results.every(result => result.applicable !== false)).toBe(true);
+            expect(results.diehard.overallPassed).toBe(true);
+        });
+
+        test('needs a source for the extended tier on short data', async () => {
+            await expect(new RandomnessValidator().runFullTestSuite([0, 1, 1, 0], { diehardTier: 'extended' }))
+                .rejects.toThrow('Extended Diehard tier');
+        });
+    });
+});
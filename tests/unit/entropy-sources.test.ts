@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RNGEngine } from '../../src/core/rng-engine';
+import {
+    BaseEntropySource,
+    ContinuousHealthTests,
+    createEntropySource,
+    EntropyFailoverEvent,
+    FailoverEntropySource,
+    FileEntropySource,
+    HybridEntropySource,
+    SeededEntropySource,
+    WebCryptoEntropySource
+} from '../../src/core/entropy';
+
+/**
+ * Source that delivers a fixed byte, or throws once broken
+ */
+class StuckEntropySource extends BaseEntropySource {
+    readonly name = 'stuck';
+    readonly kind = 'file' as const;
+    broken = false;
+
+    protected async openSource(): Promise<void> { }
+
+    protected readBytes(length: number): Uint8Array {
+        if (this.broken) {
+            throw new Error('device unplugged');
+        }
+        return new Uint8Array(length).fill(0xaa);
+    }
+
+    protected async closeSource(): Promise<void> { }
+}
+
+describe('Entropy Sources', () => {
+    describe('SeededEntropySource', () => {
+        test('produces the same stream for the same seed', () => {
+            const a = new SeededEntropySource(42);
+            const b = new SeededEntropySource(42);
+            const c = new SeededEntropySource(43);
+
+            const bytesA = a.getBytes(100);
+            expect(b.getBytes(100)).toEqual(bytesA);
+            expect(c.getBytes(100)).not.toEqual(bytesA);
+        });
+
+        test('restarts from the seed after reseed()', () => {
+            const source = new SeededEntropySource('pear');
+            const first = source.getBytes(25);
+            source.getBytes(25);
+
+            source.reseed();
+            expect(source.getBytes(25)).toEqual(first);
+        });
+
+        test('output is roughly balanced', () => {
+            const bytes = new SeededEntropySource(7).getBytes(25000);
+            let ones = 0;
+            bytes.forEach(byte => {
+                for (let bit = 0; bit < 8; bit++) ones += (byte >> bit) & 1;
+            });
+
+            // 200,000 bits: SD of the count is ~224
+            expect(Math.abs(ones - 100000)).toBeLessThan(1500);
+        });
+    });
+
+    describe('ContinuousHealthTests', () => {
+        test('uses SP 800-90B cutoffs for full-entropy bytes', () => {
+            const cutoffs = new ContinuousHealthTests(8).getCutoffs();
+            expect(cutoffs.repetitionCount).toBe(5);
+            expect(cutoffs.windowSize).toBe(512);
+            expect(cutoffs.adaptiveProportion).toBeGreaterThan(5);
+            expect(cutoffs.adaptiveProportion).toBeLessThan(20);
+        });
+
+        test('passes healthy bytes', () => {
+            const tests = new ContinuousHealthTests();
+            const source = new SeededEntropySource(1, { healthTests: false });
+            for (let i = 0; i < 100; i++) {
+                expect(tests.check(source.getBytes(25))).toBeNull();
+            }
+        });
+
+        test('flags a stuck byte', () => {
+            const failure = new ContinuousHealthTests().check(new Uint8Array(25).fill(0));
+            expect(failure).toMatch(/repetition count/);
+        });
+
+        test('flags a dominant byte value', () => {
+            // Alternate so the repetition count test never trips
+            const bytes = new Uint8Array(512).map((_, i) => (i % 2 === 0 ? 0x55 : i & 0xff));
+            const failure = new ContinuousHealthTests().check(bytes);
+            expect(failure).toMatch(/adaptive proportion/);
+        });
+    });
+
+    describe('BaseEntropySource', () => {
+        test('rejects bytes that fail health tests and counts the failure', async () => {
+            const source = new StuckEntropySource();
+            await source.open();
+
+            expect(() => source.getBytes(25)).toThrow(/repetition count/);
+            expect(source.getStatus().healthFailures).toBe(1);
+            expect(source.getStatus().bytesDelivered).toBe(0);
+        });
+
+        test('refuses to deliver before open()', () => {
+            expect(() => new StuckEntropySource().getBytes(1)).toThrow(/not open/);
+        });
+    });
+
+    describe('FailoverEntropySource', () => {
+        test('switches to the backup when the primary fails health tests', async () => {
+            const backup = new SeededEntropySource(5);
+            const source = new FailoverEntropySource(new StuckEntropySource(), backup, { primaryRetryInterval: 0 });
+            const events: EntropyFailoverEvent[] = [];
+            source.addFailoverListener(event => events.push(event));
+
+            await source.open();
+            const bytes = source.getBytes(25);
+
+            expect(bytes).toEqual(new SeededEntropySource(5).getBytes(25));
+            expect(source.isOnBackup()).toBe(true);
+            expect(events).toHaveLength(1);
+            expect(events[0].from).toBe('stuck');
+            expect(events[0].reason).toMatch(/repetition count/);
+
+            const status = source.getStatus();
+            expect(status.failoverCount).toBe(1);
+            expect(status.activeSource?.kind).toBe('seeded');
+
+            await source.close();
+        });
+
+        test('switches to the backup when the primary throws', async () => {
+            const primary = new SeededEntropySource(1);
+            const source = new FailoverEntropySource(primary, new SeededEntropySource(2), { primaryRetryInterval: 0 });
+            await source.open();
+
+            source.getBytes(25);
+            expect(source.isOnBackup()).toBe(false);
+
+            await primary.close();
+            source.getBytes(25);
+            expect(source.isOnBackup()).toBe(true);
+
+            await source.close();
+        });
+
+        test('returns to the primary once it recovers', async () => {
+            jest.useFakeTimers();
+            try {
+                const primary = new StuckEntropySource({ healthTests: false });
+                primary.broken = true;
+                const source = new FailoverEntropySource(primary, new SeededEntropySource(2), {
+                    primaryRetryInterval: 1000
+                });
+                await source.open();
+
+                source.getBytes(25);
+                expect(source.isOnBackup()).toBe(true);
+
+                primary.broken = false;
+                await jest.advanceTimersByTimeAsync(1000);
+
+                expect(source.isOnBackup()).toBe(false);
+                expect(source.getBytes(4)).toEqual(new Uint8Array(4).fill(0xaa));
+
+                await source.close();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe('FileEntropySource', () => {
+        let tempDir: string;
+
+        beforeAll(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rng-entropy-'));
+        });
+
+        afterAll(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('reads bytes from a file until it is exhausted', async () => {
+            const data = new SeededEntropySource(9).getBytes(60);
+            const filePath = path.join(tempDir, 'entropy.bin');
+            fs.writeFileSync(filePath, data);
+
+            const source = new FileEntropySource(filePath);
+            await source.open();
+
+            expect(source.getBytes(25)).toEqual(data.subarray(0, 25));
+            expect(source.getBytes(25)).toEqual(data.subarray(25, 50));
+
+            // Let the stream hit end-of-file
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(() => source.getBytes(25)).toThrow(/exhausted/);
+
+            await source.close();
+        });
+
+        test('fails to open a missing device', async () => {
+            const source = new FileEntropySource(path.join(tempDir, 'missing'));
+            await expect(source.open()).rejects.toThrow(/Failed to open entropy source/);
+            expect(source.getStatus().available).toBe(false);
+        });
+    });
+
+    describe('HybridEntropySource', () => {
+        test('XORs the hardware and software streams', async () => {
+            const source = new HybridEntropySource(new SeededEntropySource('hw'), new SeededEntropySource('sw'));
+            await source.open();
+
+            const hardware = new SeededEntropySource('hw').getBytes(25);
+            const software = new SeededEntropySource('sw').getBytes(25);
+            expect(source.getBytes(25)).toEqual(hardware.map((byte, i) => byte ^ software[i]));
+        });
+    });
+
+    describe('createEntropySource', () => {
+        test('builds a failover pair from the RNG settings', () => {
+            const source = createEntropySource({ engine: 'hybrid', backupEngine: 'software', devicePath: '/dev/null' });
+            expect(source.kind).toBe('failover');
+            expect(source.name).toBe('/dev/null ^ crypto.randomBytes -> crypto.getRandomValues');
+        });
+
+        test('reads tty devices through the serial driver', () => {
+            const serial = createEntropySource({ engine: 'hardware', backupEngine: 'software', devicePath: '/dev/ttyACM0' });
+            expect(serial.getStatus().activeSource?.kind).toBe('serial');
+
+            const file = createEntropySource({ engine: 'hardware', backupEngine: 'software', devicePath: '/dev/hwrng' });
+            expect(file.getStatus().activeSource?.kind).toBe('file');
+
+            const forced = createEntropySource({
+                engine: 'hardware',
+                backupEngine: 'software',
+                devicePath: '/tmp/trng-fifo',
+                hardwareInterface: 'serial'
+            });
+            expect(forced.getStatus().activeSource?.kind).toBe('serial');
+        });
+
+        test('uses a seeded source when a seed is given', () => {
+            const source = createEntropySource({ engine: 'hardware', backupEngine: 'hardware', seed: 3 });
+            expect(source.kind).toBe('seeded');
+        });
+    });
+
+    describe('RNGEngine integration', () => {
+        test('draws trials from the supplied source', () => {
+            const first = new RNGEngine({ qualityMonitoring: false }, new SeededEntropySource(11));
+            const second = new RNGEngine({ qualityMonitoring: false }, new SeededEntropySource(11));
+
+            try {
+                const values = Array.from({ length: 20 }, () => first.generateTrial().trialValue);
+                expect(Array.from({ length: 20 }, () => second.generateTrial().trialValue)).toEqual(values);
+                expect(first.getStatus().entropySource?.kind).toBe('seeded');
+                expect(first.getStatus().entropySource?.bytesDelivered).toBe(500);
+            } finally {
+                first.destroy();
+                second.destroy();
+            }
+        });
+
+        test('defaults to WebCrypto and accepts a replacement source', () => {
+            const engine = new RNGEngine({ qualityMonitoring: false });
+
+            try {
+                expect(engine.getEntropySource()).toBeInstanceOf(WebCryptoEntropySource);
+
+                engine.setEntropySource(new SeededEntropySource(1));
+                const trial = engine.generateTrial();
+                expect(trial.trialValue).toBeGreaterThanOrEqual(0);
+                expect(trial.trialValue).toBeLessThanOrEqual(200);
+                expect(engine.getStatus().entropySource?.kind).toBe('seeded');
+            } finally {
+                engine.destroy();
+            }
+        });
+    });
+});
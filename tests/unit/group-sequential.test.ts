@@ -0,0 +1,124 @@
+import { GroupSequentialAnalyzer } from '../../src/core/group-sequential';
+import { GroupSequentialDesign, GroupSequentialPlan, SequentialLook } from '../../src/shared/analysis-types';
+
+/**
+ * Reference boundaries come from an independent integration on a fine z grid; the
+ * O'Brien-Fleming values match the published Lan-DeMets tables
+ */
+const plan = (overrides: Partial<GroupSequentialPlan> = {}): GroupSequentialPlan => ({
+    title: 'Replication',
+    spending: 'obrien_fleming',
+    alpha: 0.025,
+    sides: 1,
+    maxTrials: 1000,
+    plannedLooks: [200, 400, 600, 800, 1000],
+    source: 'session',
+    intentions: ['high', 'low'],
+    ...overrides
+});
+
+const look = (boundary: ReturnType<typeof GroupSequentialAnalyzer.boundaries>[number], z: number): SequentialLook => ({
+    ...boundary,
+    id: `look-${boundary.lookNumber}`,
+    designId: 'design-1',
+    z,
+    crossed: false,
+    planned: true,
+    trigger: 'session',
+    performedAt: new Date()
+});
+
+describe('GroupSequentialAnalyzer', () => {
+    test('spends alpha along the O\'Brien-Fleming and Pocock type functions', () => {
+        const obf = GroupSequentialAnalyzer.boundaries(plan(), [200, 400, 600, 800, 1000]);
+        [4.876884948790762, 3.357011915711243, 2.6802798415527196, 2.2898162739013657, 2.0310312669500075]
+            .forEach((z, i) => expect(obf[i].boundaryZ).toBeCloseTo(z, 4));
+        expect(obf[0].cumulativeAlpha).toBeCloseTo(5.388712629058772e-07, 12);
+        expect(obf[2].alphaSpent).toBeCloseTo(0.00341391155429815, 10);
+        expect(obf[4].cumulativeAlpha).toBeCloseTo(0.025, 12);
+
+        const pocock = GroupSequentialAnalyzer.boundaries(plan({ spending: 'pocock' }), [200, 400, 600, 800, 1000]);
+        [2.4379766880500116, 2.426813633132036, 2.410193662175086, 2.3966484757977113, 2.385998505070491]
+            .forEach((z, i) => expect(pocock[i].boundaryZ).toBeCloseTo(z, 4));
+        expect(pocock[0].nominalPValue).toBeCloseTo(0.007384863228008691, 10);
+
+        const twoSided = GroupSequentialAnalyzer.boundaries(
+            plan({ alpha: 0.05, sides: 2, plannedLooks: [300, 650, 1000] }),
+            [300, 650, 1000]
+        );
+        [3.578388287434314, 2.4344974196202065, 2.0106919057295025]
+            .forEach((z, i) => expect(twoSided[i].boundaryZ).toBeCloseTo(z, 4));
+        expect(twoSided[0].nominalPValue).toBeCloseTo(0.00034571958016904397, 10);
+    });
+
+    test('tightens later boundaries after an unplanned look and spends the rest past the maximum', () => {
+        const design = plan({ spending: 'pocock', alpha: 0.05, plannedLooks: [250, 500, 1000] });
+        const boundaries = GroupSequentialAnalyzer.boundaries(design, [250, 260, 500, 1200]);
+
+        [2.099902691555731, 2.293846446451325, 2.088073018339495, 1.939754652072927]
+            .forEach((z, i) => expect(boundaries[i].boundaryZ).toBeCloseTo(z, 4));
+        expect(boundaries[1].alphaSpent).toBeCloseTo(0.0005973952965490636, 10);
+        expect(boundaries[3]).toMatchObject({ informationFraction: 1 });
+        expect(boundaries[3].cumulativeAlpha).toBeCloseTo(0.05, 12);
+
+        // Without the extra look at 260 trials the look at 500 would be more lenient
+        const asPlanned = GroupSequentialAnalyzer.boundaries(design, [250, 500]);
+        expect(asPlanned[1].boundaryZ).toBeLessThan(boundaries[2].boundaryZ);
+
+        const taken = boundaries.slice(0, 2).map((boundary, i) => look(boundary, i === 0 ? 1.2 : 1.4));
+        const extra = GroupSequentialAnalyzer.evaluateLook(design, taken.slice(0, 1), 260, 2.5);
+        expect(extra).toMatchObject({ crossed: true, planned: false, final: false });
+        expect(extra.boundary.boundaryZ).toBeCloseTo(boundaries[1].boundaryZ, 10);
+
+        const next = GroupSequentialAnalyzer.evaluateLook(design, taken, 520, 2.0);
+        expect(next).toMatchObject({ crossed: false, planned: true, final: false });
+        expect(() => GroupSequentialAnalyzer.evaluateLook(design, taken, 260, 3)).toThrow('No new trials since look 2');
+    });
+
+    test('plans looks and reports the remaining boundaries', () => {
+        const created = GroupSequentialAnalyzer.createPlan({
+            title: ' Long replication ',
+            spending: 'obrien_fleming',
+            maxTrials: 10000,
+            looks: 3,
+            source: 'continuous'
+        });
+        expect(created).toEqual({
+            title: 'Long replication',
+            spending: 'obrien_fleming',
+            alpha: 0.05,
+            sides: 1,
+            maxTrials: 10000,
+            plannedLooks: [3333, 6667, 10000],
+            source: 'continuous',
+            intentions: ['high', 'low']
+        });
+
+        expect(() => GroupSequentialAnalyzer.createPlan({ ...created, looks: [500, 400, 10000] }))
+            .toThrow('increasing, positive trial counts');
+        expect(() => GroupSequentialAnalyzer.createPlan({ ...created, looks: [5000, 9000] }))
+            .toThrow('at the maximum number of trials');
+        expect(() => GroupSequentialAnalyzer.createPlan({ ...created, alpha: 0.6, looks: 2 })).toThrow('Alpha must be');
+
+        const design: GroupSequentialDesign = {
+            id: 'design-1',
+            plan: plan(),
+            status: 'active',
+            createdAt: new Date(),
+            closedAt: null
+        };
+        const first = look(GroupSequentialAnalyzer.boundaries(design.plan, [450])[0], 1.1);
+        const status = GroupSequentialAnalyzer.status(design, [first], 500);
+
+        expect(status.nextLookAt).toBe(600);
+        expect(status.upcoming.map(boundary => boundary.trialCount)).toEqual([600, 800, 1000]);
+        expect(status.upcoming[0].lookNumber).toBe(2);
+        expect(status.upcoming[2].cumulativeAlpha).toBeCloseTo(0.025, 12);
+        expect(GroupSequentialAnalyzer.nextPlannedLook(design.plan, [first])).toBe(600);
+
+        expect(GroupSequentialAnalyzer.directedZ([
+            { intention: 'high', trialCount: 100, trialSum: 10100 },
+            { intention: 'low', trialCount: 100, trialSum: 9950 }
+        ])).toEqual({ trialCount: 200, z: 150 / Math.sqrt(50 * 200) });
+    });
+});
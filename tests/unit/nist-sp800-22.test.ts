@@ -0,0 +1,213 @@
+import { SeededEntropySource } from '../../src/core/entropy';
+import { NISTTestSuite } from '../../src/main/calibration/NISTTestSuite';
+import { RandomnessValidator } from '../../src/main/calibration/RandomnessValidator';
+
+/**
+ * Binary expansion of e (integer part included, as in the NIST data.e file),
+ * summing 1/k! by binary splitting
+ */
+const eBits = (count: number): number[] => {
+    const split = (a: bigint, b: bigint): [bigint, bigint] => {
+        if (b - a === BigInt(1)) return [BigInt(1), b];
+        const m = (a + b) / BigInt(2);
+        const [p1, q1] = split(a, m);
+        const [p2, q2] = split(m, b);
+        return [p1 * q2 + p2, q1 * q2];
+    };
+
+    let terms = 2;
+    for (let bits = 0; bits < count + 64; terms++) bits += Math.log2(terms);
+
+    const [p, q] = split(BigInt(0), BigInt(terms));
+    const scaled = ((q + p) << BigInt(count)) / q;
+    return Array.from(scaled.toString(2).slice(0, count), bit => Number(bit));
+};
+
+/**
+ * Binary expansion of sqrt(2) (integer part included)
+ */
+const sqrt2Bits = (count: number): number[] => {
+    const target = BigInt(2) << BigInt(2 * count);
+    let x = BigInt(1) << BigInt(count + 2);
+    for (;;) {
+        const next = (x + target / x) >> BigInt(1);
+        if (next >= x) break;
+        x = next;
+    }
+    return Array.from(x.toString(2).slice(0, count), bit => Number(bit));
+};
+
+const toBitArray = (bits: string): number[] => Array.from(bits, bit => Number(bit));
+
+const bitsFromSource = (seed: number, count: number): number[] => {
+    const bytes = new SeededEntropySource(seed).getBytes(count / 8);
+    const bits: number[] = [];
+    bytes.forEach(byte => {
+        for (let bit = 7; bit >= 0; bit--) bits.push((byte >> bit) & 1);
+    });
+    return bits;
+};
+
+// First 100 bits of pi, the worked examples in SP 800-22 section 2
+const PI_100 = toBitArray(
+    '1100100100001111110110101010001000100001011010001100001000110100110001001100011001100010100010111000'
+);
+
+describe('NIST SP 800-22 test suite', () => {
+    const suite = new NISTTestSuite();
+
+    describe('worked examples', () => {
+        test('frequency, block frequency and runs on pi', () => {
+            expect(suite.frequency(PI_100).pValue).toBeCloseTo(0.109599, 6);
+            expect(suite.blockFrequency(PI_100, 10).pValue).toBeCloseTo(0.706438, 6);
+            expect(suite.runs(PI_100).pValue).toBeCloseTo(0.500798, 6);
+        });
+
+        test('cumulative sums on pi', () => {
+            const subTests = suite.cumulativeSums(PI_100).subTests || [];
+            expect(subTests.map(subTest => subTest.label)).toEqual(['forward', 'reverse']);
+            expect(subTests[0].pValue).toBeCloseTo(0.219194, 6);
+            expect(subTests[1].pValue).toBeCloseTo(0.114866, 6);
+        });
+
+        test('longest run of ones on the 128-bit example', () => {
+            const bits = toBitArray(
+                '11001100000101010110110001001100111000000000001001001101010100010001001111010110100000001101011111001100111001101101100010110010'
+            );
+            expect(suite.longestRun(bits).pValue).toBeCloseTo(0.180609, 6);
+        });
+    });
+
+    describe('reference p-values for 1,000,000 bits', () => {
+        let e: number[];
+
+        beforeAll(() => {
+            e = eBits(1000000);
+        });
+
+        test('matches the published results for e', () => {
+            const results = suite.runAll(e);
+            const pValue = (id: string) => results.get(id as never)?.pValue;
+            const subTest = (id: string, label: string) =>
+                results.get(id as never)?.subTests?.find(entry => entry.label === label)?.pValue;
+
+            expect(pValue('frequency')).toBeCloseTo(0.953749, 6);
+            expect(pValue('blockFrequency')).toBeCloseTo(0.211072, 6);
+            expect(pValue('runs')).toBeCloseTo(0.561917, 6);
+            expect(pValue('longestRun')).toBeCloseTo(0.718945, 6);
+            expect(pValue('rank')).toBeCloseTo(0.306156, 6);
+            expect(pValue('dft')).toBeCloseTo(0.847187, 6);
+            expect(subTest('nonOverlappingTemplate', '000000001')).toBeCloseTo(0.078790, 6);
+            expect(pValue('overlappingTemplate')).toBeCloseTo(0.110434, 6);
+            expect(pValue('universal')).toBeCloseTo(0.282568, 6);
+            expect(pValue('approximateEntropy')).toBeCloseTo(0.700073, 6);
+            expect(subTest('randomExcursions', 'x = +1')).toBeCloseTo(0.786868, 6);
+            expect(subTest('randomExcursions', 'x = -1')).toBeCloseTo(0.007779, 6);
+            expect(subTest('randomExcursionsVariant', 'x = -1')).toBeCloseTo(0.826009, 6);
+            expect(subTest('serial', 'P1')).toBeCloseTo(0.766182, 6);
+            expect(subTest('serial', 'P2')).toBeCloseTo(0.462921, 6);
+            expect(pValue('linearComplexity')).toBeCloseTo(0.826335, 6);
+            expect(subTest('cumulativeSums', 'forward')).toBeCloseTo(0.669886, 6);
+            expect(subTest('cumulativeSums', 'reverse')).toBeCloseTo(0.724265, 6);
+
+            // 148 aperiodic templates of length 9
+            expect(results.get('nonOverlappingTemplate')?.subTests).toHaveLength(148);
+            expect(Array.from(results.values()).every(result => result.applicable !== false)).toBe(true);
+        });
+
+        test('matches the linear complexity example with M = 1000', () => {
+            expect(suite.linearComplexity(e, 1000).pValue).toBeCloseTo(0.845406, 6);
+        });
+
+        test('matches the published results for sqrt(2)', () => {
+            const results = suite.runAll(sqrt2Bits(1000000));
+            const pValue = (id: string) => results.get(id as never)?.pValue;
+            const subTest = (id: string, label: string) =>
+                results.get(id as never)?.subTests?.find(entry => entry.label === label)?.pValue;
+
+            expect(pValue('frequency')).toBeCloseTo(0.811881, 6);
+            expect(pValue('blockFrequency')).toBeCloseTo(0.833222, 6);
+            expect(pValue('runs')).toBeCloseTo(0.313427, 6);
+            expect(pValue('rank')).toBeCloseTo(0.823810, 6);
+            expect(pValue('dft')).toBeCloseTo(0.581909, 6);
+            expect(subTest('nonOverlappingTemplate', '000000001')).toBeCloseTo(0.569461, 6);
+            expect(pValue('overlappingTemplate')).toBeCloseTo(0.791982, 6);
+            expect(pValue('universal')).toBeCloseTo(0.130805, 6);
+            expect(pValue('approximateEntropy')).toBeCloseTo(0.884740, 6);
+            expect(subTest('randomExcursions', 'x = +1')).toBeCloseTo(0.216235, 6);
+            expect(subTest('randomExcursionsVariant', 'x = -1')).toBeCloseTo(0.566118, 6);
+            expect(subTest('serial', 'P1')).toBeCloseTo(0.861925, 6);
+            expect(pValue('linearComplexity')).toBeCloseTo(0.317127, 6);
+            expect(subTest('cumulativeSums', 'forward')).toBeCloseTo(0.879009, 6);
+            expect(subTest('cumulativeSums', 'reverse')).toBeCloseTo(0.957206, 6);
+        });
+    });
+
+    describe('short and defective sequences', () => {
+        test('marks tests the sequence is too short for as not applicable', () => {
+            const results = suite.runAll(bitsFromSource(1, 20000));
+
+            expect(results.get('universal')?.applicable).toBe(false);
+            expect(results.get('rank')?.applicable).toBe(false);
+            expect(results.get('frequency')?.applicable).toBeUndefined();
+            expect(results.get('frequency')?.passed).toBe(true);
+        });
+
+        test('fails a periodic sequence', () => {
+            const periodic = Array.from({ length: 100000 }, (_, i) => (i % 7 < 3 ? 1 : 0));
+            const results = suite.runAll(periodic);
+
+            expect(results.get('dft')?.passed).toBe(false);
+            expect(results.get('serial')?.passed).toBe(false);
+            expect(results.get('approximateEntropy')?.passed).toBe(false);
+        });
+    });
+
+    describe('second-level analysis', () => {
+        test('passes proportion and uniformity checks for a good generator', () => {
+            const report = suite.analyzeSequences(bitsFromSource(42, 60 * 20000), 20000);
+
+            expect(report.sequenceCount).toBe(60);
+            const frequency = report.results.find(result => result.name === 'Frequency (Monobit)');
+            expect(frequency?.sequences).toBe(60);
+            expect(frequency?.proportionPassed).toBe(true);
+            expect(frequency?.uniformityPValue).toBeGreaterThan(0.0001);
+            expect(frequency?.histogram.reduce((sum, count) => sum + count, 0)).toBe(60);
+
+            // Every template is its own p-value stream
+            expect(report.results.filter(result => result.testId === 'nonOverlappingTemplate')).toHaveLength(148);
+            expect(report.results.some(result => result.testId === 'universal')).toBe(false);
+        });
+
+        test('flags a biased generator', () => {
+            const biased = bitsFromSource(7, 20 * 20000).map((bit, i) => (i % 50 === 0 ? 1 : bit));
+            const report = suite.analyzeSequences(biased, 20000);
+
+            const frequency = report.results.find(result => result.name === 'Frequency (Monobit)');
+            expect(frequency?.proportionPassed).toBe(false);
+            expect(frequency?.uniformityPValue).toBeNull();
+            expect(report.overallPassed).toBe(false);
+        });
+    });
+
+    describe('RandomnessValidator integration', () => {
+        test('reports real NIST verdicts and leaves inapplicable tests out', async () => {
+            const validator = new RandomnessValidator();
+            const results = await validator.runFullTestSuite(bitsFromSource(3, 100000));
+
+            expect(results.nist.results.size).toBe(15);
+            expect(results.nist.results.get('universal')?.applicable).toBe(false);
+            expect(results.nist.results.get('rank')?.pValue).not.toBe(0.5);
+            expect(results.nist.overallPassed).toBe(true);
+        });
+
+        test('fails a stuck generator', async () => {
+            const validator = new RandomnessValidator();
+            const results = await validator.runFullTestSuite(new Array(100000).fill(1));
+
+            const applicable = Array.from(results.nist.results.values()).filter(r => r.applicable !== false);
+            expect(applicable.every(result => !result.passed)).toBe(true);
+            expect(results.nist.overallPassed).toBe(false);
+        });
+    });
+});